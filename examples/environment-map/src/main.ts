@@ -50,6 +50,8 @@ async function main() {
     const engine = await Engine.create({ canvas });
     const renderer = new Renderer(engine);
     renderer.setClearColor([0.0, 0.0, 0.0]);
+    // Matches the ACES curve the skybox used to apply in its own shader
+    renderer.toneMapping = "aces";
 
     const params: EnvironmentMapParams = {
       // Skybox
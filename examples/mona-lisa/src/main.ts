@@ -154,7 +154,7 @@ async function main() {
     tiltFolder.add(params, "tiltAmount", 0.0, 1.0, 0.05).name("Amount");
 
     const [albedoTexture, depthTexture, normalTexture] = await Promise.all([
-      Texture.fromURL(engine.device, "/assets/monalisa.jpg"),
+      Texture.fromURL(engine.device, "/assets/monalisa.jpg", { srgb: true }),
       Texture.fromURL(engine.device, "/assets/monalisa-depth-map.png"),
       Texture.fromURL(engine.device, "/assets/monalisa-normal-map.png"),
     ]);
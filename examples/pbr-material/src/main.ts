@@ -82,6 +82,7 @@ async function main() {
     const engine = await Engine.create({ canvas });
     const renderer = new Renderer(engine);
     renderer.setClearColor([0.05, 0.05, 0.08]);
+    renderer.toneMapping = "reinhard";
 
     const params: PBRParams = {
       // Material params
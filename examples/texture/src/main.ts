@@ -71,10 +71,10 @@ async function main() {
     );
     const imageBitmap = await createImageBitmap(blob);
 
-    // Create GPU texture manually
+    // Create GPU texture manually; the canvas pixels are sRGB colors
     const gpuTexture = engine.device.createTexture({
       size: [imageBitmap.width, imageBitmap.height, 1],
-      format: "rgba8unorm",
+      format: "rgba8unorm-srgb",
       usage:
         GPUTextureUsage.TEXTURE_BINDING |
         GPUTextureUsage.COPY_DST |
@@ -99,7 +99,8 @@ async function main() {
       gpuTexture,
       sampler,
       imageBitmap.width,
-      imageBitmap.height
+      imageBitmap.height,
+      "rgba8unorm-srgb"
     );
 
     // Create textured plane
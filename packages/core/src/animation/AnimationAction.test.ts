@@ -0,0 +1,162 @@
+import { describe, it, expect } from "bun:test";
+import { AnimationAction } from "./AnimationAction";
+import { AnimationClip } from "./AnimationClip";
+import { NumberKeyframeTrack } from "./KeyframeTrack";
+
+const createAction = (duration = 2) =>
+  new AnimationAction(
+    new AnimationClip("Clip", [
+      new NumberKeyframeTrack("intensity", [0, duration], [0, 1]),
+    ])
+  );
+
+describe("AnimationAction", () => {
+  describe("play/pause/stop", () => {
+    it("should only advance time while running", () => {
+      const action = createAction();
+
+      action.update(0.5);
+      expect(action.time).toBe(0);
+      expect(action.enabled).toBe(false);
+
+      action.play().update(0.5);
+      expect(action.time).toBeCloseTo(0.5, 6);
+      expect(action.isRunning).toBe(true);
+
+      action.pause().update(0.5);
+      expect(action.time).toBeCloseTo(0.5, 6);
+      expect(action.enabled).toBe(true);
+
+      action.resume().update(0.5);
+      expect(action.time).toBeCloseTo(1, 6);
+    });
+
+    it("should rewind and disable on stop", () => {
+      const action = createAction().play();
+      action.update(1);
+
+      action.stop();
+
+      expect(action.time).toBe(0);
+      expect(action.enabled).toBe(false);
+      expect(action.effectiveWeight).toBe(0);
+    });
+
+    it("should scale time and play backwards", () => {
+      const action = createAction().play();
+      action.timeScale = 2;
+      action.update(0.25);
+      expect(action.time).toBeCloseTo(0.5, 6);
+
+      action.timeScale = -1;
+      action.update(0.75);
+      expect(action.time).toBeCloseTo(1.75, 6);
+    });
+  });
+
+  describe("looping", () => {
+    it("should wrap around with repeat", () => {
+      const action = createAction().play();
+      action.update(2.5);
+      expect(action.time).toBeCloseTo(0.5, 6);
+      expect(action.finished).toBe(false);
+    });
+
+    it("should reverse direction with pingpong", () => {
+      const action = createAction().play();
+      action.loop = "pingpong";
+
+      action.update(2.5);
+      expect(action.time).toBeCloseTo(1.5, 6);
+      action.update(2);
+      expect(action.time).toBeCloseTo(0.5, 6);
+    });
+
+    it("should finish and release the properties when played once", () => {
+      const action = createAction().play();
+      action.loop = "once";
+
+      action.update(3);
+
+      expect(action.finished).toBe(true);
+      expect(action.enabled).toBe(false);
+      expect(action.time).toBe(2);
+    });
+
+    it("should hold the last frame with clampWhenFinished", () => {
+      const action = createAction().play();
+      action.loop = "once";
+      action.clampWhenFinished = true;
+
+      action.update(3);
+
+      expect(action.enabled).toBe(true);
+      expect(action.isRunning).toBe(false);
+      expect(action.time).toBe(2);
+    });
+
+    it("should stop after the given repetitions", () => {
+      const action = createAction().play();
+      action.loop = "pingpong";
+      action.repetitions = 2;
+      action.clampWhenFinished = true;
+
+      action.update(3.5);
+      expect(action.finished).toBe(false);
+      action.update(1);
+
+      // The second pass runs backwards and ends at the start of the clip
+      expect(action.finished).toBe(true);
+      expect(action.time).toBe(0);
+    });
+
+    it("should restart a finished action on play", () => {
+      const action = createAction().play();
+      action.loop = "once";
+      action.update(3);
+
+      action.play().update(0.5);
+
+      expect(action.time).toBeCloseTo(0.5, 6);
+      expect(action.finished).toBe(false);
+    });
+  });
+
+  describe("fading", () => {
+    it("should fade the weight in", () => {
+      const action = createAction().play().fadeIn(1);
+      expect(action.effectiveWeight).toBe(0);
+
+      action.update(0.25);
+      expect(action.effectiveWeight).toBeCloseTo(0.25, 6);
+
+      action.weight = 0.5;
+      action.update(1);
+      expect(action.effectiveWeight).toBeCloseTo(0.5, 6);
+    });
+
+    it("should stop after fading out", () => {
+      const action = createAction().play().fadeOut(1);
+
+      action.update(0.5);
+      expect(action.effectiveWeight).toBeCloseTo(0.5, 6);
+
+      action.update(0.5);
+      expect(action.enabled).toBe(false);
+    });
+
+    it("should cross-fade to another action from its start", () => {
+      const walk = createAction().play();
+      const run = createAction();
+      run.time = 1;
+
+      expect(walk.crossFadeTo(run, 1)).toBe(run);
+      walk.update(0.25);
+      run.update(0.25);
+
+      expect(walk.effectiveWeight).toBeCloseTo(0.75, 6);
+      expect(run.effectiveWeight).toBeCloseTo(0.25, 6);
+      expect(run.time).toBeCloseTo(0.25, 6);
+    });
+  });
+});
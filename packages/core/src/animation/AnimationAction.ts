@@ -0,0 +1,271 @@
+import type { AnimationClip } from "./AnimationClip";
+
+/**
+ * How an action continues at the end of its clip.
+ * - once: plays the clip a single time
+ * - repeat: restarts from the beginning
+ * - pingpong: alternates between playing forwards and backwards
+ */
+export type AnimationLoop = "once" | "repeat" | "pingpong";
+
+interface WeightFade {
+  from: number;
+  to: number;
+  duration: number;
+  elapsed: number;
+  /** Stop the action when the fade completes (fading out) */
+  stopWhenDone: boolean;
+}
+
+/**
+ * Playback state of one AnimationClip: time, speed, looping and blend weight.
+ * Create actions with AnimationMixer.clipAction; the mixer advances them in update.
+ *
+ * @example
+ * ```ts
+ * const walk = mixer.clipAction(walkClip).play();
+ * const run = mixer.clipAction(runClip);
+ * run.timeScale = 1.5;
+ * walk.crossFadeTo(run, 0.3);
+ * ```
+ */
+export class AnimationAction {
+  readonly clip: AnimationClip;
+  /** Playback speed multiplier; negative values play backwards (default: 1) */
+  timeScale = 1;
+  /** Blend weight relative to other actions on the same properties (default: 1) */
+  weight = 1;
+  loop: AnimationLoop = "repeat";
+  /** Number of passes through the clip for repeat and pingpong (default: Infinity) */
+  repetitions = Infinity;
+  /** Keep applying the last frame after finishing instead of releasing the properties */
+  clampWhenFinished = false;
+
+  /** Unwrapped playback time across all passes */
+  private _elapsed = 0;
+  private _playing = false;
+  private _paused = false;
+  private _finished = false;
+  private _fadeFactor = 1;
+  private _fade: WeightFade | null = null;
+
+  /**
+   * Creates a new AnimationAction instance.
+   * @param clip - The clip to play
+   */
+  constructor(clip: AnimationClip) {
+    this.clip = clip;
+  }
+
+  /**
+   * Time within the clip in seconds, after looping.
+   * Setting it seeks to that time from the first pass.
+   */
+  get time(): number {
+    const duration = this.clip.duration;
+    if (duration <= 0) {
+      return 0;
+    }
+
+    let pass = Math.floor(this._elapsed / duration);
+    let time = this._elapsed - pass * duration;
+    // A finished action rests on the end of its last pass rather than the start of the next
+    if (this._finished && time === 0 && this._elapsed > 0) {
+      pass--;
+      time = duration;
+    }
+    return this.loop === "pingpong" && Math.abs(pass % 2) === 1
+      ? duration - time
+      : time;
+  }
+
+  set time(value: number) {
+    this._elapsed = value;
+    this._finished = false;
+  }
+
+  /**
+   * Whether the action was started with play and is neither stopped nor finished without clamping.
+   * Enabled actions contribute to the animated properties.
+   */
+  get enabled(): boolean {
+    return this._playing;
+  }
+
+  /**
+   * Whether time advances: enabled, not paused and not finished.
+   */
+  get isRunning(): boolean {
+    return this._playing && !this._paused && !this._finished;
+  }
+
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Whether playback reached the end of its last pass.
+   */
+  get finished(): boolean {
+    return this._finished;
+  }
+
+  /**
+   * Weight used for blending, including any fade in progress; 0 when not enabled.
+   */
+  get effectiveWeight(): number {
+    return this._playing ? this.weight * this._fadeFactor : 0;
+  }
+
+  /**
+   * Starts or continues playback. A finished action restarts from the beginning.
+   * @returns This action for method chaining
+   */
+  play(): this {
+    if (this._finished) {
+      this.reset();
+    }
+    this._playing = true;
+    this._paused = false;
+    return this;
+  }
+
+  /**
+   * Halts time while keeping the current pose applied.
+   * @returns This action for method chaining
+   */
+  pause(): this {
+    this._paused = true;
+    return this;
+  }
+
+  /**
+   * Continues playback after pause.
+   * @returns This action for method chaining
+   */
+  resume(): this {
+    this._paused = false;
+    return this;
+  }
+
+  /**
+   * Stops playback, rewinds and releases the animated properties.
+   * @returns This action for method chaining
+   */
+  stop(): this {
+    this._playing = false;
+    this._paused = false;
+    this._fade = null;
+    this._fadeFactor = 1;
+    return this.reset();
+  }
+
+  /**
+   * Rewinds to the beginning without changing whether the action plays.
+   * @returns This action for method chaining
+   */
+  reset(): this {
+    this._elapsed = 0;
+    this._finished = false;
+    return this;
+  }
+
+  /**
+   * Fades the weight in from 0 over a duration.
+   * @param duration - Fade duration in seconds
+   * @returns This action for method chaining
+   */
+  fadeIn(duration: number): this {
+    return this._startFade(0, 1, duration, false);
+  }
+
+  /**
+   * Fades the weight out over a duration, then stops the action.
+   * @param duration - Fade duration in seconds
+   * @returns This action for method chaining
+   */
+  fadeOut(duration: number): this {
+    return this._startFade(this._fadeFactor, 0, duration, true);
+  }
+
+  /**
+   * Fades this action out while fading another action in from its beginning.
+   * @param action - The action to transition to
+   * @param duration - Transition duration in seconds
+   * @returns The action transitioned to
+   */
+  crossFadeTo(action: AnimationAction, duration: number): AnimationAction {
+    this.fadeOut(duration);
+    if (action !== this) {
+      action.stop().play().fadeIn(duration);
+    }
+    return action;
+  }
+
+  /**
+   * Advances time and fades. Usually called by AnimationMixer.update.
+   * @param deltaTime - Elapsed time in seconds, before this action's timeScale
+   */
+  update(deltaTime: number): void {
+    if (!this._playing || this._paused) {
+      return;
+    }
+
+    this._updateFade(deltaTime);
+    if (!this.isRunning) {
+      return;
+    }
+
+    const step = deltaTime * this.timeScale;
+    this._elapsed += step;
+
+    const passes = this.loop === "once" ? 1 : this.repetitions;
+    if (passes === Infinity) {
+      return;
+    }
+    const end = passes * Math.max(this.clip.duration, 0);
+    if (
+      (step >= 0 && this._elapsed >= end) ||
+      (step < 0 && this._elapsed <= 0)
+    ) {
+      this._elapsed = Math.min(Math.max(this._elapsed, 0), end);
+      this._finished = true;
+      if (!this.clampWhenFinished) {
+        this._playing = false;
+      }
+    }
+  }
+
+  private _startFade(
+    from: number,
+    to: number,
+    duration: number,
+    stopWhenDone: boolean
+  ): this {
+    this._fade = { from, to, duration, elapsed: 0, stopWhenDone };
+    this._fadeFactor = from;
+    if (duration <= 0) {
+      this._updateFade(0);
+    }
+    return this;
+  }
+
+  private _updateFade(deltaTime: number): void {
+    const fade = this._fade;
+    if (!fade) {
+      return;
+    }
+
+    fade.elapsed += deltaTime;
+    const t =
+      fade.duration > 0 ? Math.min(fade.elapsed / fade.duration, 1) : 1;
+    this._fadeFactor = fade.from + (fade.to - fade.from) * t;
+
+    if (t >= 1) {
+      this._fade = null;
+      if (fade.stopWhenDone) {
+        this.stop();
+      }
+    }
+  }
+}
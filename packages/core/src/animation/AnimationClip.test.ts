@@ -0,0 +1,29 @@
+import { describe, it, expect } from "bun:test";
+import { AnimationClip } from "./AnimationClip";
+import { NumberKeyframeTrack, VectorKeyframeTrack } from "./KeyframeTrack";
+
+describe("AnimationClip", () => {
+  it("should default the duration to the last keyframe of any track", () => {
+    const clip = new AnimationClip("Walk", [
+      new NumberKeyframeTrack("intensity", [0, 1.5], [0, 1]),
+      new VectorKeyframeTrack("position", [0.5, 2.5], [0, 0, 0, 1, 1, 1]),
+    ]);
+
+    expect(clip.name).toBe("Walk");
+    expect(clip.tracks).toHaveLength(2);
+    expect(clip.duration).toBeCloseTo(2.5, 6);
+  });
+
+  it("should accept an explicit duration", () => {
+    const clip = new AnimationClip(
+      "Idle",
+      [new NumberKeyframeTrack("intensity", [0, 1], [0, 1])],
+      3
+    );
+    expect(clip.duration).toBe(3);
+  });
+
+  it("should have zero duration without tracks", () => {
+    expect(new AnimationClip("Empty", []).duration).toBe(0);
+  });
+});
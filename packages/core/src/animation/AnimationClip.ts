@@ -0,0 +1,33 @@
+import type { KeyframeTrack } from "./KeyframeTrack";
+
+/**
+ * A named, reusable set of keyframe tracks played together, e.g. "Walk" or "Jump".
+ * Clips hold no playback state; play them through AnimationMixer.clipAction.
+ *
+ * @example
+ * ```ts
+ * const bounce = new AnimationClip("Bounce", [
+ *   new VectorKeyframeTrack("Ball.position", [0, 0.5, 1], [0, 0, 0, 0, 2, 0, 0, 0, 0]),
+ * ]);
+ * mixer.clipAction(bounce).play();
+ * ```
+ */
+export class AnimationClip {
+  readonly name: string;
+  readonly tracks: readonly KeyframeTrack[];
+  /** Length of one pass through the clip in seconds */
+  readonly duration: number;
+
+  /**
+   * Creates a new AnimationClip instance.
+   * @param name - Name of the clip
+   * @param tracks - Tracks animated by the clip
+   * @param duration - Length in seconds (default: the time of the last keyframe of any track)
+   */
+  constructor(name: string, tracks: KeyframeTrack[], duration?: number) {
+    this.name = name;
+    this.tracks = tracks;
+    this.duration =
+      duration ?? Math.max(0, ...tracks.map((track) => track.endTime));
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, mock } from "bun:test";
+import { Object3D } from "../scene/Object3D";
+import { AnimationMixer } from "./AnimationMixer";
+import { AnimationClip } from "./AnimationClip";
+import {
+  NumberKeyframeTrack,
+  QuaternionKeyframeTrack,
+  VectorKeyframeTrack,
+} from "./KeyframeTrack";
+
+function createScene() {
+  const root = new Object3D();
+  const box = new Object3D();
+  box.name = "Box";
+  root.add(box);
+  return { root, box };
+}
+
+const moveX = new AnimationClip("MoveX", [
+  new VectorKeyframeTrack("Box.position", [0, 1], [0, 0, 0, 4, 0, 0]),
+]);
+const moveY = new AnimationClip("MoveY", [
+  new VectorKeyframeTrack("Box.position", [0, 1], [0, 0, 0, 0, 4, 0]),
+]);
+
+describe("AnimationMixer", () => {
+  describe("clipAction", () => {
+    it("should return one action per clip", () => {
+      const mixer = new AnimationMixer(createScene().root);
+
+      const action = mixer.clipAction(moveX);
+
+      expect(mixer.clipAction(moveX)).toBe(action);
+      expect(mixer.clipAction(moveY)).not.toBe(action);
+      expect(mixer.actions).toHaveLength(2);
+    });
+
+    it("should skip tracks that cannot be bound", () => {
+      const warn = mock(() => {});
+      const originalWarn = console.warn;
+      console.warn = warn;
+
+      try {
+        const { root, box } = createScene();
+        const mixer = new AnimationMixer(root);
+        const clip = new AnimationClip("Broken", [
+          new VectorKeyframeTrack("Missing.position", [0], [1, 1, 1]),
+          new NumberKeyframeTrack("Box.position", [0], [1]),
+          new VectorKeyframeTrack("Box.scale", [0, 1], [1, 1, 1, 3, 3, 3]),
+        ]);
+
+        mixer.clipAction(clip).play();
+        mixer.update(0.5);
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(box.scale.x).toBeCloseTo(2, 6);
+      } finally {
+        console.warn = originalWarn;
+      }
+    });
+  });
+
+  describe("update", () => {
+    it("should apply tracks to the named objects", () => {
+      const { root, box } = createScene();
+      const mixer = new AnimationMixer(root);
+      mixer.clipAction(moveX).play();
+
+      mixer.update(0.25);
+
+      expect(box.position.x).toBeCloseTo(1, 6);
+      expect(mixer.time).toBeCloseTo(0.25, 6);
+    });
+
+    it("should animate the root with single-segment paths", () => {
+      const { root } = createScene();
+      const mixer = new AnimationMixer(root);
+      const s = Math.SQRT1_2;
+      const clip = new AnimationClip("Turn", [
+        new QuaternionKeyframeTrack("quaternion", [0, 1], [
+          0, 0, 0, 1, 0, 0, s, s,
+        ]),
+      ]);
+      const action = mixer.clipAction(clip).play();
+      action.loop = "once";
+      action.clampWhenFinished = true;
+
+      mixer.update(1);
+
+      expect(root.quaternion.z).toBeCloseTo(s, 6);
+      expect(root.rotation.z).toBeCloseTo(Math.PI / 2, 5);
+    });
+
+    it("should apply the mixer time scale", () => {
+      const { root, box } = createScene();
+      const mixer = new AnimationMixer(root);
+      mixer.timeScale = 0.5;
+      mixer.clipAction(moveX).play();
+
+      mixer.update(0.5);
+
+      expect(box.position.x).toBeCloseTo(1, 6);
+    });
+
+    it("should blend actions on the same property by weight", () => {
+      const { root, box } = createScene();
+      const mixer = new AnimationMixer(root);
+      mixer.clipAction(moveX).play();
+      mixer.clipAction(moveY).play().weight = 3;
+
+      mixer.update(0.5);
+
+      expect(box.position.x).toBeCloseTo(0.5, 6);
+      expect(box.position.y).toBeCloseTo(1.5, 6);
+    });
+
+    it("should blend with the rest value when the total weight is below 1", () => {
+      const { root, box } = createScene();
+      box.position.set(0, 0, 2);
+      const mixer = new AnimationMixer(root);
+      mixer.clipAction(moveX).play().weight = 0.25;
+
+      mixer.update(0.5);
+
+      expect(box.position.x).toBeCloseTo(0.5, 6);
+      expect(box.position.z).toBeCloseTo(1.5, 6);
+    });
+
+    it("should cross-fade between actions", () => {
+      const { root, box } = createScene();
+      const mixer = new AnimationMixer(root);
+      const walk = mixer.clipAction(moveX).play();
+      walk.clampWhenFinished = true;
+      walk.loop = "once";
+      mixer.update(1);
+
+      walk.crossFadeTo(mixer.clipAction(moveY), 1);
+      mixer.update(0.5);
+
+      expect(box.position.x).toBeCloseTo(2, 6);
+      expect(box.position.y).toBeCloseTo(1, 6);
+    });
+
+    it("should restore rest values once no action animates a property", () => {
+      const { root, box } = createScene();
+      box.position.set(5, 5, 5);
+      const mixer = new AnimationMixer(root);
+      mixer.clipAction(moveX).play();
+      mixer.update(0.5);
+      expect(box.position.x).toBeCloseTo(2, 6);
+
+      mixer.stopAllAction();
+      mixer.update(0.5);
+      expect(box.position.x).toBe(5);
+
+      // Untouched afterwards, so manual edits stick
+      box.position.x = 7;
+      mixer.update(0.5);
+      expect(box.position.x).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import type { Object3D } from "../scene/Object3D";
+import { AnimationAction } from "./AnimationAction";
+import type { AnimationClip } from "./AnimationClip";
+import { PropertyBinding } from "./PropertyBinding";
+
+/**
+ * Plays animation clips on an object hierarchy.
+ * Tracks are bound to properties by path (see PropertyBinding), and actions
+ * animating the same property are blended by weight.
+ *
+ * @example
+ * ```ts
+ * const mixer = new AnimationMixer(gltf.scene);
+ * mixer.clipAction(walkClip).play();
+ *
+ * engine.run((deltaTime) => {
+ *   mixer.update(deltaTime);
+ *   renderer.render(scene, camera);
+ * });
+ * ```
+ */
+export class AnimationMixer {
+  readonly root: Object3D;
+  /** Speed multiplier applied to all actions (default: 1) */
+  timeScale = 1;
+
+  private _time = 0;
+  private _actions = new Map<AnimationClip, AnimationAction>();
+  /** Binding per track of each action's clip; undefined for tracks that could not be bound */
+  private _trackBindings = new Map<
+    AnimationAction,
+    (PropertyBinding | undefined)[]
+  >();
+  private _bindings = new Map<string, PropertyBinding>();
+  /** Bindings written in the last update, restored once no action animates them */
+  private _activeBindings = new Set<PropertyBinding>();
+
+  /**
+   * Creates a new AnimationMixer instance.
+   * @param root - Object whose hierarchy track paths are resolved in
+   */
+  constructor(root: Object3D) {
+    this.root = root;
+  }
+
+  /**
+   * Total scaled time the mixer has advanced, in seconds.
+   */
+  get time(): number {
+    return this._time;
+  }
+
+  /**
+   * All actions created by clipAction.
+   */
+  get actions(): AnimationAction[] {
+    return Array.from(this._actions.values());
+  }
+
+  /**
+   * Gets the action for a clip, creating it and binding its tracks on first use.
+   * Tracks whose path cannot be resolved are skipped with a warning.
+   * @param clip - The clip to play
+   * @returns The clip's action in this mixer
+   */
+  clipAction(clip: AnimationClip): AnimationAction {
+    let action = this._actions.get(clip);
+    if (action) {
+      return action;
+    }
+
+    action = new AnimationAction(clip);
+    const bindings = clip.tracks.map((track) => {
+      const binding = this._getBinding(track.name);
+      if (binding && binding.valueSize !== track.valueSize) {
+        console.warn(
+          `[AnimationMixer] Track "${track.name}" has ${track.valueSize} components but the property has ${binding.valueSize}; skipping it`
+        );
+        return undefined;
+      }
+      return binding;
+    });
+
+    this._actions.set(clip, action);
+    this._trackBindings.set(action, bindings);
+    return action;
+  }
+
+  /**
+   * Advances all actions and writes the blended track values to the bound properties.
+   * Pass the deltaTime from Engine.run.
+   * @param deltaTime - Elapsed time in seconds
+   */
+  update(deltaTime: number): void {
+    const scaled = deltaTime * this.timeScale;
+    this._time += scaled;
+
+    const written = new Set<PropertyBinding>();
+    for (const [action, bindings] of this._trackBindings) {
+      action.update(scaled);
+      if (!action.enabled) {
+        continue;
+      }
+
+      const weight = action.effectiveWeight;
+      const time = action.time;
+      action.clip.tracks.forEach((track, i) => {
+        const binding = bindings[i];
+        if (!binding) {
+          return;
+        }
+        written.add(binding);
+        if (weight > 0) {
+          binding.accumulate(track.evaluate(time), weight);
+        }
+      });
+    }
+
+    for (const binding of this._activeBindings) {
+      if (!written.has(binding)) {
+        binding.restore();
+      }
+    }
+    for (const binding of written) {
+      binding.apply();
+    }
+    this._activeBindings = written;
+  }
+
+  /**
+   * Stops every action. The animated properties return to their rest values on the next update.
+   */
+  stopAllAction(): void {
+    for (const action of this._actions.values()) {
+      action.stop();
+    }
+  }
+
+  private _getBinding(path: string): PropertyBinding | undefined {
+    let binding = this._bindings.get(path);
+    if (!binding) {
+      try {
+        binding = new PropertyBinding(this.root, path);
+      } catch (error) {
+        console.warn(
+          `[AnimationMixer] Cannot bind track "${path}": ${(error as Error).message}`
+        );
+        return undefined;
+      }
+      this._bindings.set(path, binding);
+    }
+    return binding;
+  }
+}
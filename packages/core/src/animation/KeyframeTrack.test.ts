@@ -0,0 +1,133 @@
+import { describe, it, expect } from "bun:test";
+import {
+  ColorKeyframeTrack,
+  NumberKeyframeTrack,
+  QuaternionKeyframeTrack,
+  VectorKeyframeTrack,
+} from "./KeyframeTrack";
+
+function expectValuesClose(actual: Float32Array, expected: number[]) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 5));
+}
+
+describe("KeyframeTrack", () => {
+  describe("constructor", () => {
+    it("should store typed times and values", () => {
+      const track = new VectorKeyframeTrack("Box.position", [0, 2], [
+        0, 0, 0, 1, 2, 3,
+      ]);
+
+      expect(track.name).toBe("Box.position");
+      expect(track.times).toBeInstanceOf(Float32Array);
+      expect(track.valueSize).toBe(3);
+      expect(track.valueType).toBe("vector");
+      expect(track.interpolation).toBe("linear");
+      expect(track.endTime).toBe(2);
+    });
+
+    it("should throw for invalid keyframes", () => {
+      expect(() => new NumberKeyframeTrack("a", [], [])).toThrow(
+        'Keyframe track "a" has no keyframes'
+      );
+      expect(() => new NumberKeyframeTrack("a", [1, 0], [0, 1])).toThrow(
+        'Keyframe track "a" has times out of order at keyframe 1'
+      );
+      expect(() => new VectorKeyframeTrack("a", [0, 1], [0, 0, 0])).toThrow(
+        'Keyframe track "a" has 3 values for 2 keyframes (expected 6)'
+      );
+      expect(
+        () => new NumberKeyframeTrack("a", [0, 1], [0, 1], "cubicspline")
+      ).toThrow("(expected 6)");
+    });
+  });
+
+  describe("evaluate", () => {
+    const track = new VectorKeyframeTrack("position", [1, 2, 4], [
+      0, 0, 0, 2, 4, 6, 0, 0, 0,
+    ]);
+
+    it("should interpolate linearly within a segment", () => {
+      expectValuesClose(track.evaluate(1.5), [1, 2, 3]);
+      expectValuesClose(track.evaluate(3), [1, 2, 3]);
+    });
+
+    it("should hold the first and last values outside the keyframes", () => {
+      expectValuesClose(track.evaluate(0), [0, 0, 0]);
+      expectValuesClose(track.evaluate(10), [0, 0, 0]);
+      expectValuesClose(track.evaluate(2), [2, 4, 6]);
+    });
+
+    it("should write into the given array", () => {
+      const out = new Float32Array(3);
+      expect(track.evaluate(1.5, out)).toBe(out);
+    });
+
+    it("should hold values with step interpolation", () => {
+      const step = new NumberKeyframeTrack("opacity", [0, 1], [0, 1], "step");
+      expectValuesClose(step.evaluate(0.99), [0]);
+      expectValuesClose(step.evaluate(1), [1]);
+    });
+
+    it("should interpolate cubic splines with tangents", () => {
+      // [inTangent, value, outTangent] per keyframe; slope 1 gives a straight line
+      const linear = new NumberKeyframeTrack(
+        "intensity",
+        [0, 2],
+        [1, 0, 1, 1, 2, 1],
+        "cubicspline"
+      );
+      expectValuesClose(linear.evaluate(0.5), [0.5]);
+
+      // Zero tangents ease in and out: f(t) = 3t² - 2t³
+      const eased = new NumberKeyframeTrack(
+        "intensity",
+        [0, 1],
+        [0, 0, 0, 0, 1, 0],
+        "cubicspline"
+      );
+      expectValuesClose(eased.evaluate(0.25), [0.15625]);
+      expectValuesClose(eased.evaluate(1), [1]);
+    });
+  });
+
+  describe("QuaternionKeyframeTrack", () => {
+    const s = Math.SQRT1_2;
+
+    it("should slerp between keyframes", () => {
+      // Identity to 90° around Y
+      const track = new QuaternionKeyframeTrack("quaternion", [0, 1], [
+        0, 0, 0, 1, 0, s, 0, s,
+      ]);
+      const angle = Math.PI / 8;
+      expectValuesClose(track.evaluate(0.5), [
+        0,
+        Math.sin(angle),
+        0,
+        Math.cos(angle),
+      ]);
+    });
+
+    it("should normalize cubic spline results", () => {
+      const track = new QuaternionKeyframeTrack(
+        "quaternion",
+        [0, 1],
+        [
+          ...[0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0],
+          ...[0, 0, 0, 0, 0, s, 0, s, 0, 0, 0, 0],
+        ],
+        "cubicspline"
+      );
+      const q = track.evaluate(0.5);
+      expect(Math.hypot(q[0], q[1], q[2], q[3])).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe("ColorKeyframeTrack", () => {
+    it("should animate RGB components", () => {
+      const track = new ColorKeyframeTrack("color", [0, 1], [1, 0, 0, 0, 0, 1]);
+      expect(track.valueType).toBe("color");
+      expectValuesClose(track.evaluate(0.5), [0.5, 0, 0.5]);
+    });
+  });
+});
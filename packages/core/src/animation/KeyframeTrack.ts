@@ -0,0 +1,308 @@
+import { Quaternion } from "@web-real/math";
+
+/**
+ * How values are interpolated between keyframes.
+ * - step: holds each keyframe value until the next keyframe
+ * - linear: interpolates linearly (spherically for quaternions)
+ * - cubicspline: Hermite spline with per-keyframe tangents, laid out as in glTF
+ *   ([inTangent, value, outTangent] for every keyframe)
+ */
+export type InterpolationMode = "step" | "linear" | "cubicspline";
+
+/**
+ * Kind of value a track animates, used to pick how values are blended.
+ */
+export type KeyframeTrackValueType =
+  | "vector"
+  | "quaternion"
+  | "number"
+  | "color";
+
+/**
+ * Base class for a sequence of keyframes animating one property.
+ * The track name is the property path resolved by AnimationMixer, e.g. "Arm.position".
+ */
+export abstract class KeyframeTrack {
+  /** Property path, "<object name>.<property>" or just "<property>" for the mixer root */
+  readonly name: string;
+  /** Keyframe times in seconds, in ascending order */
+  readonly times: Float32Array;
+  /** Keyframe values, valueSize per keyframe (three times that for cubicspline) */
+  readonly values: Float32Array;
+  readonly interpolation: InterpolationMode;
+  /** Number of components in one value */
+  readonly valueSize: number;
+  abstract readonly valueType: KeyframeTrackValueType;
+
+  /**
+   * Creates a new KeyframeTrack instance.
+   * @param name - Property path of the animated property
+   * @param times - Keyframe times in seconds, in ascending order
+   * @param values - Keyframe values
+   * @param interpolation - Interpolation mode
+   * @param valueSize - Number of components in one value
+   * @throws {Error} If there are no keyframes, the times are not ascending or the value count does not match
+   */
+  protected constructor(
+    name: string,
+    times: ArrayLike<number>,
+    values: ArrayLike<number>,
+    interpolation: InterpolationMode,
+    valueSize: number
+  ) {
+    this.name = name;
+    this.times = new Float32Array(times);
+    this.values = new Float32Array(values);
+    this.interpolation = interpolation;
+    this.valueSize = valueSize;
+
+    if (this.times.length === 0) {
+      throw new Error(`Keyframe track "${name}" has no keyframes`);
+    }
+    for (let i = 1; i < this.times.length; i++) {
+      if (this.times[i] < this.times[i - 1]) {
+        throw new Error(
+          `Keyframe track "${name}" has times out of order at keyframe ${i}`
+        );
+      }
+    }
+    const expected = this.times.length * this._stride;
+    if (this.values.length !== expected) {
+      throw new Error(
+        `Keyframe track "${name}" has ${this.values.length} values for ${this.times.length} keyframes (expected ${expected})`
+      );
+    }
+  }
+
+  /**
+   * Time of the last keyframe in seconds.
+   */
+  get endTime(): number {
+    return this.times[this.times.length - 1];
+  }
+
+  /**
+   * Computes the track value at a given time.
+   * Times before the first or after the last keyframe hold the nearest keyframe value.
+   * @param time - Time in seconds
+   * @param out - Array receiving valueSize components (default: a new array)
+   * @returns The out array
+   */
+  evaluate(
+    time: number,
+    out: Float32Array = new Float32Array(this.valueSize)
+  ): Float32Array {
+    const { times } = this;
+    const last = times.length - 1;
+
+    if (time <= times[0]) {
+      this._copyKeyframe(0, out);
+      return out;
+    }
+    if (time >= times[last]) {
+      this._copyKeyframe(last, out);
+      return out;
+    }
+
+    // Binary search for the keyframe starting the segment that contains time
+    let low = 0;
+    let high = last;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const dt = times[high] - times[low];
+    const t = dt > 0 ? (time - times[low]) / dt : 0;
+    switch (this.interpolation) {
+      case "step":
+        this._copyKeyframe(low, out);
+        break;
+      case "linear":
+        this.interpolateLinear(low, t, out);
+        break;
+      case "cubicspline":
+        this._interpolateCubic(low, t, dt, out);
+        break;
+    }
+    return out;
+  }
+
+  /**
+   * Interpolates linearly between a keyframe and the next one.
+   * @param index - Index of the first keyframe
+   * @param t - Interpolation factor between the keyframes (0-1)
+   * @param out - Array receiving the value
+   */
+  protected interpolateLinear(
+    index: number,
+    t: number,
+    out: Float32Array
+  ): void {
+    const size = this.valueSize;
+    const a = index * size;
+    const b = a + size;
+    const v = this.values;
+    for (let i = 0; i < size; i++) {
+      out[i] = v[a + i] + (v[b + i] - v[a + i]) * t;
+    }
+  }
+
+  /** Number of values stored per keyframe */
+  private get _stride(): number {
+    return this.interpolation === "cubicspline"
+      ? this.valueSize * 3
+      : this.valueSize;
+  }
+
+  private _copyKeyframe(index: number, out: Float32Array): void {
+    // Cubic spline keyframes store the value between the in and out tangents
+    const offset =
+      index * this._stride +
+      (this.interpolation === "cubicspline" ? this.valueSize : 0);
+    out.set(this.values.subarray(offset, offset + this.valueSize));
+  }
+
+  private _interpolateCubic(
+    index: number,
+    t: number,
+    dt: number,
+    out: Float32Array
+  ): void {
+    const size = this.valueSize;
+    const stride = size * 3;
+    const p0 = index * stride + size;
+    const m0 = p0 + size; // out tangent of the first keyframe
+    const m1 = (index + 1) * stride; // in tangent of the second keyframe
+    const p1 = m1 + size;
+
+    // Hermite basis functions; tangents are scaled by the segment duration
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = (t3 - 2 * t2 + t) * dt;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = (t3 - t2) * dt;
+
+    const v = this.values;
+    for (let i = 0; i < size; i++) {
+      out[i] =
+        h00 * v[p0 + i] + h10 * v[m0 + i] + h01 * v[p1 + i] + h11 * v[m1 + i];
+    }
+  }
+}
+
+/**
+ * Animates a Vector3 property such as position, rotation (Euler angles) or scale.
+ *
+ * @example
+ * ```ts
+ * const track = new VectorKeyframeTrack("Box.position", [0, 1], [0, 0, 0, 0, 2, 0]);
+ * ```
+ */
+export class VectorKeyframeTrack extends KeyframeTrack {
+  readonly valueType = "vector";
+
+  constructor(
+    name: string,
+    times: ArrayLike<number>,
+    values: ArrayLike<number>,
+    interpolation: InterpolationMode = "linear"
+  ) {
+    super(name, times, values, interpolation, 3);
+  }
+}
+
+/**
+ * Animates a Quaternion property. Linear interpolation is spherical (slerp)
+ * and every result is normalized.
+ *
+ * @example
+ * ```ts
+ * const track = new QuaternionKeyframeTrack("Wheel.quaternion", [0, 1], [0, 0, 0, 1, 0, 0, 1, 0]);
+ * ```
+ */
+export class QuaternionKeyframeTrack extends KeyframeTrack {
+  readonly valueType = "quaternion";
+
+  constructor(
+    name: string,
+    times: ArrayLike<number>,
+    values: ArrayLike<number>,
+    interpolation: InterpolationMode = "linear"
+  ) {
+    super(name, times, values, interpolation, 4);
+  }
+
+  evaluate(
+    time: number,
+    out: Float32Array = new Float32Array(4)
+  ): Float32Array {
+    super.evaluate(time, out);
+    const length = Math.hypot(out[0], out[1], out[2], out[3]);
+    if (length > 0) {
+      for (let i = 0; i < 4; i++) {
+        out[i] /= length;
+      }
+    }
+    return out;
+  }
+
+  protected interpolateLinear(
+    index: number,
+    t: number,
+    out: Float32Array
+  ): void {
+    const v = this.values;
+    const a = index * 4;
+    const from = new Quaternion(v[a], v[a + 1], v[a + 2], v[a + 3]);
+    const to = new Quaternion(v[a + 4], v[a + 5], v[a + 6], v[a + 7]);
+    out.set(from.slerp(to, t).data);
+  }
+}
+
+/**
+ * Animates a numeric property such as a light's intensity or a material's opacity.
+ *
+ * @example
+ * ```ts
+ * const track = new NumberKeyframeTrack("Lamp.intensity", [0, 0.5, 1], [0, 2, 0]);
+ * ```
+ */
+export class NumberKeyframeTrack extends KeyframeTrack {
+  readonly valueType = "number";
+
+  constructor(
+    name: string,
+    times: ArrayLike<number>,
+    values: ArrayLike<number>,
+    interpolation: InterpolationMode = "linear"
+  ) {
+    super(name, times, values, interpolation, 1);
+  }
+}
+
+/**
+ * Animates the RGB components of a Color property; alpha is left unchanged.
+ *
+ * @example
+ * ```ts
+ * const track = new ColorKeyframeTrack("Lamp.color", [0, 1], [1, 0, 0, 0, 0, 1]);
+ * ```
+ */
+export class ColorKeyframeTrack extends KeyframeTrack {
+  readonly valueType = "color";
+
+  constructor(
+    name: string,
+    times: ArrayLike<number>,
+    values: ArrayLike<number>,
+    interpolation: InterpolationMode = "linear"
+  ) {
+    super(name, times, values, interpolation, 3);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "bun:test";
+import { Color, Quaternion, Vector3 } from "@web-real/math";
+import { Object3D } from "../scene/Object3D";
+import { PointLight } from "../light/PointLight";
+import { Mesh } from "../scene/Mesh";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import { PropertyBinding } from "./PropertyBinding";
+
+function createScene() {
+  const root = new Object3D();
+  const light = new PointLight(new Color(1, 1, 1, 0.5), 1);
+  light.name = "Lamp";
+  const mesh = new Mesh(new BoxGeometry(), new BlinnPhongMaterial());
+  mesh.name = "Box";
+  root.add(light);
+  root.add(mesh);
+  return { root, light, mesh };
+}
+
+describe("PropertyBinding", () => {
+  describe("constructor", () => {
+    it("should detect the value type of the property", () => {
+      const { root } = createScene();
+
+      expect(new PropertyBinding(root, "position").valueType).toBe("vector");
+      expect(new PropertyBinding(root, "quaternion").valueSize).toBe(4);
+      expect(new PropertyBinding(root, "Lamp.color").valueType).toBe("color");
+      expect(new PropertyBinding(root, "Lamp.intensity").valueSize).toBe(1);
+      expect(
+        new PropertyBinding(root, "Box.material.shininess").valueType
+      ).toBe("number");
+    });
+
+    it("should throw for paths that cannot be animated", () => {
+      const { root } = createScene();
+
+      expect(() => new PropertyBinding(root, "Missing.position")).toThrow(
+        'No object named "Missing" for "Missing.position"'
+      );
+      expect(() => new PropertyBinding(root, "Lamp.range.value")).toThrow(
+        'Property "range" of "Lamp.range.value" is not an object'
+      );
+      expect(() => new PropertyBinding(root, "Lamp.visible")).toThrow(
+        "is not a number, Vector3, Quaternion or Color"
+      );
+    });
+  });
+
+  describe("apply", () => {
+    it("should update vectors and quaternions in place", () => {
+      const { root } = createScene();
+      const position = root.position;
+      const binding = new PropertyBinding(root, "position");
+
+      binding.accumulate([1, 2, 3], 1);
+      binding.apply();
+
+      expect(root.position).toBe(position);
+      expect(Array.from(position.data)).toEqual([1, 2, 3]);
+    });
+
+    it("should assign colors and numbers, keeping alpha", () => {
+      const { root, light } = createScene();
+      const color = new PropertyBinding(root, "Lamp.color");
+      const intensity = new PropertyBinding(root, "Lamp.intensity");
+
+      color.accumulate([1, 0, 0], 1);
+      color.apply();
+      intensity.accumulate([3], 1);
+      intensity.apply();
+
+      expect(light.color.toArray4()).toEqual([1, 0, 0, 0.5]);
+      expect(light.intensity).toBe(3);
+    });
+
+    it("should use set<Property> methods for read-only properties", () => {
+      const { root, mesh } = createScene();
+      const binding = new PropertyBinding(root, "Box.material.color");
+
+      binding.accumulate([0, 1, 0], 1);
+      binding.apply();
+
+      const material = mesh.material as BlinnPhongMaterial;
+      expect(material.color.toArray()).toEqual([0, 1, 0]);
+    });
+
+    it("should slerp when blending quaternions", () => {
+      const { root } = createScene();
+      const binding = new PropertyBinding(root, "quaternion");
+      const turn = Quaternion.fromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+
+      binding.accumulate(turn.data, 1);
+      binding.accumulate([0, 0, 0, 1], 1);
+      binding.apply();
+
+      const expected = Quaternion.fromAxisAngle(
+        new Vector3(0, 1, 0),
+        Math.PI / 4
+      );
+      expect(Math.abs(root.quaternion.dot(expected))).toBeCloseTo(1, 6);
+    });
+
+    it("should write the rest value on restore", () => {
+      const { root } = createScene();
+      root.scale.set(2, 2, 2);
+      const binding = new PropertyBinding(root, "scale");
+
+      binding.accumulate([5, 5, 5], 1);
+      binding.apply();
+      binding.restore();
+
+      expect(Array.from(root.scale.data)).toEqual([2, 2, 2]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { Color, Quaternion, Vector3 } from "@web-real/math";
+import type { Object3D } from "../scene/Object3D";
+import type { KeyframeTrackValueType } from "./KeyframeTrack";
+
+type PropertyOwner = Record<string, unknown>;
+
+/**
+ * Connects a track's property path to a property in a scene graph and blends
+ * the values that several actions write to it in one frame.
+ *
+ * Paths are "<object name>.<property>", where the object is found with
+ * getObjectByName below the root, or just "<property>" for the root itself.
+ * Further segments walk into nested objects, e.g. "Body.material.color".
+ * Vector3 and Quaternion values are updated in place; numbers and Colors are
+ * assigned through a set<Property> method when the owner has one.
+ */
+export class PropertyBinding {
+  readonly path: string;
+  readonly valueType: KeyframeTrackValueType;
+  /** Number of components in one value */
+  readonly valueSize: number;
+  private readonly _owner: PropertyOwner;
+  private readonly _property: string;
+  /** Value before any animation was applied, blended in for missing weight */
+  private readonly _rest: Float32Array;
+  private readonly _blended: Float32Array;
+  private _weight = 0;
+
+  /**
+   * Creates a new PropertyBinding instance and records the current value as the rest value.
+   * @param root - Object the path is resolved from
+   * @param path - Property path, e.g. "Arm.quaternion"
+   * @throws {Error} If the object or property does not exist or cannot be animated
+   */
+  constructor(root: Object3D, path: string) {
+    this.path = path;
+
+    const segments = path.split(".");
+    let owner: unknown = root;
+    if (segments.length > 1) {
+      const objectName = segments.shift()!;
+      owner = root.getObjectByName(objectName);
+      if (!owner) {
+        throw new Error(`No object named "${objectName}" for "${path}"`);
+      }
+    }
+
+    const property = segments.pop()!;
+    for (const segment of segments) {
+      owner = (owner as PropertyOwner)[segment];
+      if (typeof owner !== "object" || owner === null) {
+        throw new Error(`Property "${segment}" of "${path}" is not an object`);
+      }
+    }
+
+    this._owner = owner as PropertyOwner;
+    this._property = property;
+
+    const value = this._owner[property];
+    if (value instanceof Vector3) {
+      [this.valueType, this.valueSize] = ["vector", 3];
+    } else if (value instanceof Quaternion) {
+      [this.valueType, this.valueSize] = ["quaternion", 4];
+    } else if (value instanceof Color) {
+      [this.valueType, this.valueSize] = ["color", 3];
+    } else if (typeof value === "number") {
+      [this.valueType, this.valueSize] = ["number", 1];
+    } else {
+      throw new Error(
+        `Property "${property}" of "${path}" is not a number, Vector3, Quaternion or Color`
+      );
+    }
+
+    this._rest = this._read();
+    this._blended = new Float32Array(this.valueSize);
+  }
+
+  /**
+   * Adds a weighted value to this frame's blend.
+   * Values are averaged by weight; quaternions are blended with slerp.
+   * @param values - Value with valueSize components
+   * @param weight - Blend weight, ignored if not positive
+   */
+  accumulate(values: ArrayLike<number>, weight: number): void {
+    if (weight <= 0) {
+      return;
+    }
+
+    const total = this._weight + weight;
+    const t = weight / total;
+    const blended = this._blended;
+
+    if (this._weight === 0) {
+      for (let i = 0; i < this.valueSize; i++) {
+        blended[i] = values[i];
+      }
+    } else if (this.valueType === "quaternion") {
+      const [x, y, z, w] = blended;
+      const from = new Quaternion(x, y, z, w);
+      const to = new Quaternion(values[0], values[1], values[2], values[3]);
+      blended.set(from.slerp(to, t).data);
+    } else {
+      for (let i = 0; i < this.valueSize; i++) {
+        blended[i] += (values[i] - blended[i]) * t;
+      }
+    }
+    this._weight = total;
+  }
+
+  /**
+   * Writes this frame's blend to the property and starts a new blend.
+   * If the accumulated weight is below 1, the rest value makes up the difference.
+   */
+  apply(): void {
+    if (this._weight < 1) {
+      this.accumulate(this._rest, 1 - this._weight);
+    }
+    this._write(this._blended);
+    this._weight = 0;
+  }
+
+  /**
+   * Writes the rest value back to the property and discards this frame's blend.
+   */
+  restore(): void {
+    this._write(this._rest);
+    this._weight = 0;
+  }
+
+  private _read(): Float32Array {
+    const value = this._owner[this._property];
+    if (value instanceof Vector3 || value instanceof Quaternion) {
+      return new Float32Array(value.data);
+    }
+    if (value instanceof Color) {
+      return new Float32Array(value.toArray());
+    }
+    return new Float32Array([value as number]);
+  }
+
+  private _write(values: Float32Array): void {
+    const value = this._owner[this._property];
+    switch (this.valueType) {
+      case "vector":
+        (value as Vector3).set(values[0], values[1], values[2]);
+        break;
+      case "quaternion":
+        (value as Quaternion).set(values[0], values[1], values[2], values[3]);
+        break;
+      case "color": {
+        const { a } = value as Color;
+        this._assign(new Color(values[0], values[1], values[2], a));
+        break;
+      }
+      case "number":
+        this._assign(values[0]);
+        break;
+    }
+  }
+
+  /** Assigns an immutable value, preferring a set<Property> method for read-only properties */
+  private _assign(value: number | Color): void {
+    const property = this._property;
+    const setter =
+      this._owner[`set${property[0].toUpperCase()}${property.slice(1)}`];
+    if (typeof setter === "function") {
+      setter.call(this._owner, value);
+    } else {
+      this._owner[property] = value;
+    }
+  }
+}
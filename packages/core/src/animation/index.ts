@@ -0,0 +1,13 @@
+export {
+  KeyframeTrack,
+  VectorKeyframeTrack,
+  QuaternionKeyframeTrack,
+  NumberKeyframeTrack,
+  ColorKeyframeTrack,
+  type InterpolationMode,
+  type KeyframeTrackValueType,
+} from "./KeyframeTrack";
+export { AnimationClip } from "./AnimationClip";
+export { AnimationAction, type AnimationLoop } from "./AnimationAction";
+export { AnimationMixer } from "./AnimationMixer";
+export { PropertyBinding } from "./PropertyBinding";
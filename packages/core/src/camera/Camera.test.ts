@@ -225,6 +225,21 @@ describe("Camera", () => {
     });
   });
 
+  describe("getWorldDirection", () => {
+    it("should point from the world position towards the target", () => {
+      const camera = new TestCamera();
+      camera.position.set(0, 0, 5);
+      camera.lookAt(new Vector3(0, 5, 5));
+      camera.updateWorldMatrix();
+
+      const direction = camera.getWorldDirection();
+
+      expect(direction.x).toBeCloseTo(0, 6);
+      expect(direction.y).toBeCloseTo(1, 6);
+      expect(direction.z).toBeCloseTo(0, 6);
+    });
+  });
+
   describe("projectionMatrix", () => {
     it("should be implemented by subclasses", () => {
       const camera = new TestCamera();
@@ -16,14 +16,23 @@ export abstract class Camera extends Object3D {
   protected _target: Vector3 = new Vector3(0, 0, 0);
   protected _up: Vector3 = new Vector3(0, 1, 0);
 
+  private _jitterX = 0;
+  private _jitterY = 0;
+
   /**
    * Calculates the view matrix based on camera's world position and orientation.
    * @returns The view matrix for transforming world space to camera space
    */
   get viewMatrix(): Matrix4 {
-    const e = this.worldMatrix.data;
-    const worldPosition = new Vector3(e[12], e[13], e[14]);
-    return Matrix4.lookAt(worldPosition, this._target, this._up);
+    return Matrix4.lookAt(this.getWorldPosition(), this._target, this._up);
+  }
+
+  /**
+   * Gets the direction the camera looks in, from its world position towards the target.
+   * @returns A new unit Vector3
+   */
+  getWorldDirection(): Vector3 {
+    return this._target.sub(this.getWorldPosition()).normalize();
   }
 
   /**
@@ -52,6 +61,49 @@ export abstract class Camera extends Object3D {
     return this;
   }
 
+  /**
+   * Offsets the projection by a fraction of a pixel, so that successive frames
+   * sample different points inside each pixel, e.g. for temporal anti-aliasing.
+   * @param x - Horizontal offset in pixels, towards the right
+   * @param y - Vertical offset in pixels, towards the bottom
+   * @param width - Width of the render target in pixels
+   * @param height - Height of the render target in pixels
+   * @returns This camera instance for method chaining
+   */
+  setJitter(x: number, y: number, width: number, height: number): this {
+    this._jitterX = (2 * x) / width;
+    this._jitterY = (-2 * y) / height;
+    return this;
+  }
+
+  /**
+   * Removes the offset set by setJitter().
+   * @returns This camera instance for method chaining
+   */
+  clearJitter(): this {
+    this._jitterX = 0;
+    this._jitterY = 0;
+    return this;
+  }
+
+  /**
+   * Shifts a projection matrix by the jitter offset in normalized device coordinates.
+   * Subclasses pass their projection matrix through this in projectionMatrix.
+   * @param projection - Projection matrix to modify in place
+   * @returns The same matrix
+   */
+  protected applyJitter(projection: Matrix4): Matrix4 {
+    if (this._jitterX === 0 && this._jitterY === 0) return projection;
+
+    // Adding the offset times w to clip x and y shifts NDC by the offset
+    const m = projection.data;
+    for (let column = 0; column < 4; column++) {
+      m[column * 4] += this._jitterX * m[column * 4 + 3];
+      m[column * 4 + 1] += this._jitterY * m[column * 4 + 3];
+    }
+    return projection;
+  }
+
   get target(): Vector3 {
     return this._target;
   }
@@ -195,6 +195,21 @@ describe("OrthographicCamera", () => {
     });
   });
 
+  describe("setJitter", () => {
+    it("should shift projected points by the pixel offset", () => {
+      const camera = new OrthographicCamera().setViewport(800, 600);
+      const point = new Vector3(120, -45, -10);
+      const before = camera.projectionMatrix.transformPoint(point);
+
+      camera.setJitter(-0.5, 0.5, 800, 600);
+      const after = camera.projectionMatrix.transformPoint(point);
+
+      expect(after.x - before.x).toBeCloseTo(-1 / 800, 6);
+      expect(after.y - before.y).toBeCloseTo(-1 / 600, 6);
+      expect(after.z).toBeCloseTo(before.z, 6);
+    });
+  });
+
   describe("setViewport", () => {
     it("should set bounds based on width and height", () => {
       const camera = new OrthographicCamera();
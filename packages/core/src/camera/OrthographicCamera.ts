@@ -49,7 +49,7 @@ export class OrthographicCamera extends Camera {
   }
 
   /**
-   * Calculates the orthographic projection matrix with zoom applied.
+   * Calculates the orthographic projection matrix with zoom and jitter applied.
    * @returns The projection matrix for this camera
    */
   get projectionMatrix(): Matrix4 {
@@ -65,7 +65,9 @@ export class OrthographicCamera extends Camera {
     const bottom = cy - height / 2;
     const top = cy + height / 2;
 
-    return Matrix4.orthographic(left, right, bottom, top, this.near, this.far);
+    return this.applyJitter(
+      Matrix4.orthographic(left, right, bottom, top, this.near, this.far)
+    );
   }
 
   /**
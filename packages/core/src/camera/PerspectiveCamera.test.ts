@@ -232,6 +232,96 @@ describe("PerspectiveCamera", () => {
     });
   });
 
+  describe("setJitter", () => {
+    it("should shift projected points by the pixel offset at every depth", () => {
+      const camera = new PerspectiveCamera({ fov: 60, aspect: 2 });
+      const near = new Vector3(0.3, -0.2, -1);
+      const far = new Vector3(-4, 6, -50);
+      const unjittered = camera.projectionMatrix;
+
+      camera.setJitter(0.5, -0.25, 800, 400);
+      const jittered = camera.projectionMatrix;
+
+      for (const point of [near, far]) {
+        const before = unjittered.transformPoint(point);
+        const after = jittered.transformPoint(point);
+        expect(after.x - before.x).toBeCloseTo(2 * (0.5 / 800), 6);
+        expect(after.y - before.y).toBeCloseTo(2 * (0.25 / 400), 6);
+        expect(after.z).toBeCloseTo(before.z, 6);
+      }
+    });
+
+    it("should restore the projection when cleared", () => {
+      const camera = new PerspectiveCamera();
+      const unjittered = camera.projectionMatrix;
+
+      camera.setJitter(0.5, 0.5, 100, 100).clearJitter();
+
+      expect(camera.projectionMatrix.equals(unjittered)).toBe(true);
+    });
+  });
+
+  describe("lens", () => {
+    it("should default to a full frame sensor focused at 10 units", () => {
+      const camera = new PerspectiveCamera();
+
+      expect(camera.focusDistance).toBe(10);
+      expect(camera.fStop).toBe(2.8);
+      expect(camera.sensorHeight).toBe(24);
+    });
+
+    it("should derive the focal length from fov and sensor height", () => {
+      // A 24mm high sensor behind a 12mm lens sees 90 degrees vertically
+      const camera = new PerspectiveCamera({ fov: 90 });
+
+      expect(camera.focalLength).toBeCloseTo(12, 6);
+
+      camera.sensorHeight = 12;
+      expect(camera.focalLength).toBeCloseTo(6, 6);
+    });
+
+    it("should update fov when the focal length is set", () => {
+      const camera = new PerspectiveCamera({ sensorHeight: 24 });
+
+      camera.focalLength = 12;
+
+      expect(camera.fov).toBeCloseTo(90, 6);
+      expect(camera.focalLength).toBeCloseTo(12, 6);
+    });
+
+    it("should let a focal length option override fov", () => {
+      const camera = new PerspectiveCamera({ fov: 30, focalLength: 12 });
+
+      expect(camera.fov).toBeCloseTo(90, 6);
+    });
+  });
+
+  describe("focusAt", () => {
+    it("should focus at the view depth of the point", () => {
+      const camera = new PerspectiveCamera();
+      camera.position.set(0, 0, 10);
+      camera.lookAt(new Vector3(0, 0, 0));
+      camera.updateWorldMatrix();
+
+      // Off-axis points on the same plane parallel to the image share one focus distance
+      camera.focusAt(new Vector3(3, -2, 4));
+
+      expect(camera.focusDistance).toBeCloseTo(6, 5);
+    });
+
+    it("should not focus closer than the near plane", () => {
+      const camera = new PerspectiveCamera({ near: 0.5 });
+      camera.position.set(0, 0, 10);
+      camera.lookAt(new Vector3(0, 0, 0));
+      camera.updateWorldMatrix();
+
+      const result = camera.focusAt(new Vector3(0, 0, 20));
+
+      expect(result).toBe(camera);
+      expect(camera.focusDistance).toBe(0.5);
+    });
+  });
+
   describe("disposeResizeObserver", () => {
     it("should handle being called when no observer exists", () => {
       const camera = new PerspectiveCamera();
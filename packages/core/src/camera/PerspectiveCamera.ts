@@ -1,4 +1,4 @@
-import { Matrix4 } from "@web-real/math";
+import { Matrix4, type Vector3 } from "@web-real/math";
 import { Camera } from "./Camera";
 
 export interface PerspectiveCameraOptions {
@@ -6,6 +6,14 @@ export interface PerspectiveCameraOptions {
   aspect?: number;
   near?: number;
   far?: number;
+  /** Distance from the camera to the plane in focus, in world units (default: 10) */
+  focusDistance?: number;
+  /** Aperture as an f-number; smaller values give a shallower depth of field (default: 2.8) */
+  fStop?: number;
+  /** Height of the sensor in millimeters (default: 24, full frame) */
+  sensorHeight?: number;
+  /** Focal length in millimeters; overrides fov when given */
+  focalLength?: number;
 }
 
 /**
@@ -17,6 +25,11 @@ export interface PerspectiveCameraOptions {
  * camera.setPosition(0, 5, 10);
  * camera.lookAt(0, 0, 0);
  * camera.updateAspect(canvas); // Auto-track canvas resizing
+ *
+ * // Physical lens for the DepthOfFieldPass: 50mm at f/1.8, focused on a hit point
+ * camera.focalLength = 50;
+ * camera.fStop = 1.8;
+ * camera.focusAt(raycaster.intersectObjects(scene.children, true)[0].point);
  * ```
  */
 export class PerspectiveCamera extends Camera {
@@ -24,6 +37,12 @@ export class PerspectiveCamera extends Camera {
   public aspect: number;
   public near: number;
   public far: number;
+  /** Distance from the camera to the plane in focus, in world units */
+  public focusDistance: number;
+  /** Aperture as an f-number */
+  public fStop: number;
+  /** Height of the sensor in millimeters, relating fov to focal length */
+  public sensorHeight: number;
 
   private _resizeObserver: ResizeObserver | null = null;
 
@@ -37,15 +56,50 @@ export class PerspectiveCamera extends Camera {
     this.aspect = options.aspect ?? 1;
     this.near = options.near ?? 0.1;
     this.far = options.far ?? 100;
+    this.focusDistance = options.focusDistance ?? 10;
+    this.fStop = options.fStop ?? 2.8;
+    this.sensorHeight = options.sensorHeight ?? 24;
+    if (options.focalLength !== undefined) {
+      this.focalLength = options.focalLength;
+    }
+  }
+
+  /**
+   * Focal length in millimeters giving the vertical fov on a sensor of sensorHeight.
+   * Setting it updates fov.
+   */
+  get focalLength(): number {
+    const fovRad = (this.fov * Math.PI) / 180;
+    return this.sensorHeight / (2 * Math.tan(fovRad / 2));
+  }
+
+  set focalLength(value: number) {
+    const fovRad = 2 * Math.atan(this.sensorHeight / (2 * value));
+    this.fov = (fovRad * 180) / Math.PI;
+  }
+
+  /**
+   * Focuses the camera on a world-space point, e.g. the point of a Raycaster intersection.
+   * The focus distance is measured along the view direction, so every point on the
+   * same plane parallel to the image is in focus. Uses the current world matrix.
+   * @param point - The point in world space to focus on
+   * @returns This camera instance for method chaining
+   */
+  focusAt(point: Vector3): this {
+    const depth = -this.viewMatrix.transformPoint(point).z;
+    this.focusDistance = Math.max(this.near, depth);
+    return this;
   }
 
   /**
-   * Calculates the projection matrix from current camera parameters.
+   * Calculates the projection matrix from current camera parameters and jitter.
    * @returns A Matrix4 representing the perspective projection
    */
   get projectionMatrix(): Matrix4 {
     const fovRad = (this.fov * Math.PI) / 180;
-    return Matrix4.perspective(fovRad, this.aspect, this.near, this.far);
+    return this.applyJitter(
+      Matrix4.perspective(fovRad, this.aspect, this.near, this.far)
+    );
   }
 
   /**
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "bun:test";
 import { computeBoundingBox, computeBoundingSphere } from "./BoundingUtils";
 import { BoxGeometry } from "./BoxGeometry";
+import { BufferGeometry } from "./BufferGeometry";
 import { PlaneGeometry } from "./PlaneGeometry";
 import { Vector3, BoundingBox, BoundingSphere } from "@web-real/math";
 
@@ -148,6 +149,28 @@ describe("BoundingUtils", () => {
       expect(boundingBox.max.y).toBeCloseTo(5, 5);
       expect(boundingBox.max.z).toBeCloseTo(0.25, 5);
     });
+
+    it("should include the envelope of the morph targets when requested", () => {
+      const geometry = new BufferGeometry({
+        positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+        morphTargets: [
+          { positions: new Float32Array([0, 0, 0, 2, 0, 0, 0, 0, 0]) },
+          { positions: new Float32Array([-1, 0, 0, 0, 0, 0, 0, 0, 3]) },
+          { positions: new Float32Array([-1, 0, 0, 0, 0, 0, 0, 0, 0]) },
+        ],
+      });
+
+      const base = computeBoundingBox(geometry);
+      const envelope = computeBoundingBox(geometry, true);
+
+      expect(base.max.x).toBe(1);
+      expect(envelope.min.x).toBe(-2);
+      expect(envelope.max.x).toBe(3);
+      expect(envelope.min.y).toBe(0);
+      expect(envelope.max.y).toBe(1);
+      expect(envelope.min.z).toBe(0);
+      expect(envelope.max.z).toBe(3);
+    });
   });
 
   describe("computeBoundingSphere", () => {
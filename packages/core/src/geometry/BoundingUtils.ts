@@ -1,15 +1,51 @@
-import { BoundingBox, BoundingSphere } from "@web-real/math";
+import { BoundingBox, BoundingSphere, Vector3 } from "@web-real/math";
 import type { Geometry } from "./Geometry";
 
 /**
  * Computes an axis-aligned bounding box (AABB) for a geometry.
  * The box is computed from the geometry's vertex positions.
  *
+ * With includeMorphTargets, the box is the envelope of every blend of the
+ * morph targets with influences in [0, 1]: each vertex is extended by the sum
+ * of its negative and the sum of its positive deltas on each axis.
+ *
  * @param geometry - The geometry to compute the bounding box for
+ * @param includeMorphTargets - Whether to include the extent of the morph targets (default: false)
  * @returns A BoundingBox that contains all vertices of the geometry
  */
-export function computeBoundingBox(geometry: Geometry): BoundingBox {
-  return BoundingBox.fromPositions(geometry.positions);
+export function computeBoundingBox(
+  geometry: Geometry,
+  includeMorphTargets: boolean = false
+): BoundingBox {
+  const { positions, morphTargets: targets } = geometry;
+  if (!includeMorphTargets || !targets || targets.length === 0) {
+    return BoundingBox.fromPositions(positions);
+  }
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      let low = positions[i + axis];
+      let high = low;
+      for (const target of targets) {
+        const delta = target.positions[i + axis];
+        if (delta < 0) {
+          low += delta;
+        } else {
+          high += delta;
+        }
+      }
+      min[axis] = Math.min(min[axis], low);
+      max[axis] = Math.max(max[axis], high);
+    }
+  }
+
+  return new BoundingBox(
+    new Vector3(min[0], min[1], min[2]),
+    new Vector3(max[0], max[1], max[2])
+  );
 }
 
 /**
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "bun:test";
+import { BufferGeometry } from "./BufferGeometry";
+
+describe("BufferGeometry", () => {
+  // Two triangles forming a unit quad in the XY plane, facing +Z
+  const quadPositions = new Float32Array([
+    0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0,
+  ]);
+  const quadIndices = new Uint16Array([0, 1, 2, 0, 2, 3]);
+  const quadUvs = new Float32Array([0, 0, 1, 0, 1, 1, 0, 1]);
+
+  describe("constructor", () => {
+    it("should expose the given attributes", () => {
+      const normals = new Float32Array(12);
+      const geometry = new BufferGeometry({
+        positions: quadPositions,
+        normals,
+        indices: quadIndices,
+        uvs: quadUvs,
+      });
+
+      expect(geometry.positions).toBe(quadPositions);
+      expect(geometry.normals).toBe(normals);
+      expect(geometry.indices).toBe(quadIndices);
+      expect(geometry.uvs).toBe(quadUvs);
+      expect(geometry.vertexCount).toBe(4);
+      expect(geometry.indexCount).toBe(6);
+    });
+
+    it("should draw vertices in order when indices are omitted", () => {
+      const geometry = new BufferGeometry({
+        positions: quadPositions.slice(0, 9),
+      });
+
+      expect(Array.from(geometry.indices)).toEqual([0, 1, 2]);
+      expect(geometry.indices).toBeInstanceOf(Uint16Array);
+    });
+
+    it("should compute normals from the triangles when omitted", () => {
+      const geometry = new BufferGeometry({
+        positions: quadPositions,
+        indices: quadIndices,
+      });
+
+      for (let i = 0; i < 4; i++) {
+        expect(geometry.normals[i * 3]).toBeCloseTo(0, 5);
+        expect(geometry.normals[i * 3 + 1]).toBeCloseTo(0, 5);
+        expect(geometry.normals[i * 3 + 2]).toBeCloseTo(1, 5);
+      }
+    });
+
+    it("should calculate tangents and bitangents when UVs are given", () => {
+      const geometry = new BufferGeometry({
+        positions: quadPositions,
+        indices: quadIndices,
+        uvs: quadUvs,
+      });
+
+      expect(geometry.tangents![0]).toBeCloseTo(1, 5);
+      expect(geometry.bitangents![1]).toBeCloseTo(1, 5);
+    });
+
+    it("should have no UVs or tangents when UVs are omitted", () => {
+      const geometry = new BufferGeometry({ positions: quadPositions });
+
+      expect(geometry.uvs).toBeUndefined();
+      expect(geometry.tangents).toBeUndefined();
+      expect(geometry.bitangents).toBeUndefined();
+    });
+
+    it("should throw when positions are not 3-component vectors", () => {
+      expect(
+        () => new BufferGeometry({ positions: new Float32Array(4) })
+      ).toThrow("BufferGeometry positions length must be a multiple of 3");
+    });
+
+    it("should throw when an attribute length does not match", () => {
+      expect(
+        () =>
+          new BufferGeometry({
+            positions: quadPositions,
+            uvs: new Float32Array(6),
+          })
+      ).toThrow("BufferGeometry uvs length must be 8 (got 6)");
+    });
+
+    it("should validate skin indices and weights", () => {
+      const geometry = new BufferGeometry({
+        positions: quadPositions,
+        skinIndices: new Uint16Array(16),
+        skinWeights: new Float32Array(16).fill(0.25),
+      });
+      expect(geometry.skinIndices).toHaveLength(16);
+      expect(geometry.skinWeights![0]).toBe(0.25);
+
+      expect(
+        () =>
+          new BufferGeometry({
+            positions: quadPositions,
+            skinIndices: new Uint16Array(16),
+          })
+      ).toThrow("skinIndices and skinWeights must be provided together");
+      expect(
+        () =>
+          new BufferGeometry({
+            positions: quadPositions,
+            skinIndices: new Uint16Array(12),
+            skinWeights: new Float32Array(16),
+          })
+      ).toThrow("BufferGeometry skinIndices length must be 16 (got 12)");
+    });
+
+    it("should validate morph target lengths", () => {
+      const geometry = new BufferGeometry({
+        positions: quadPositions,
+        morphTargets: [{ name: "smile", positions: new Float32Array(12) }],
+      });
+      expect(geometry.morphTargets![0].name).toBe("smile");
+
+      expect(
+        () =>
+          new BufferGeometry({
+            positions: quadPositions,
+            morphTargets: [
+              { positions: new Float32Array(12) },
+              {
+                positions: new Float32Array(12),
+                normals: new Float32Array(9),
+              },
+            ],
+          })
+      ).toThrow("BufferGeometry morphTargets[1].normals length must be 12 (got 9)");
+    });
+
+    it("should throw when an index is out of range", () => {
+      expect(
+        () =>
+          new BufferGeometry({
+            positions: quadPositions,
+            indices: new Uint16Array([0, 1, 4]),
+          })
+      ).toThrow("BufferGeometry index 4 is out of range for 4 vertices");
+    });
+  });
+});
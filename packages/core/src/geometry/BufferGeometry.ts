@@ -0,0 +1,232 @@
+import {
+  createIndexArray,
+  type Geometry,
+  type IndexArray,
+  type MorphTarget,
+} from "./Geometry";
+import { TangentCalculator } from "./TangentCalculator";
+
+/**
+ * Vertex attributes of a BufferGeometry. Vector attributes are tightly packed per vertex.
+ */
+export interface BufferGeometryAttributes {
+  /** Vertex positions (3 components per vertex) */
+  positions: Float32Array;
+  /** Vertex normals (3 components per vertex); computed from the triangles if omitted */
+  normals?: Float32Array;
+  /** Triangle indices; vertices are drawn in order (every 3 form a triangle) if omitted */
+  indices?: IndexArray;
+  /** Texture coordinates (2 components per vertex) */
+  uvs?: Float32Array;
+  /** Tangents (3 components per vertex); calculated from the UVs if omitted */
+  tangents?: Float32Array;
+  /** Bitangents (3 components per vertex); calculated from the UVs if omitted */
+  bitangents?: Float32Array;
+  /** Bone indices (4 per vertex) for SkinnedMesh; requires skinWeights */
+  skinIndices?: IndexArray;
+  /** Bone weights (4 per vertex) for SkinnedMesh; requires skinIndices */
+  skinWeights?: Float32Array;
+  /** Blend shapes; each target holds deltas with the same lengths as positions and normals */
+  morphTargets?: MorphTarget[];
+}
+
+/**
+ * Geometry built from raw vertex attribute arrays, such as data decoded by a model loader.
+ *
+ * @example
+ * ```ts
+ * const triangle = new BufferGeometry({
+ *   positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+ *   uvs: new Float32Array([0, 0, 1, 0, 0, 1]),
+ * });
+ * const mesh = new Mesh(triangle, new PBRMaterial());
+ * ```
+ */
+export class BufferGeometry implements Geometry {
+  private readonly _positions: Float32Array;
+  private readonly _normals: Float32Array;
+  private readonly _indices: IndexArray;
+  private readonly _uvs?: Float32Array;
+  private readonly _tangents?: Float32Array;
+  private readonly _bitangents?: Float32Array;
+  private readonly _skinIndices?: IndexArray;
+  private readonly _skinWeights?: Float32Array;
+  private readonly _morphTargets?: MorphTarget[];
+  private readonly _vertexCount: number;
+
+  /**
+   * Creates a new BufferGeometry.
+   * @param attributes - Vertex attributes; positions are required
+   * @throws Error if an attribute length does not match the vertex count or an index is out of range
+   */
+  constructor(attributes: BufferGeometryAttributes) {
+    const { positions, uvs } = attributes;
+    if (positions.length % 3 !== 0) {
+      throw new Error(
+        `BufferGeometry positions length must be a multiple of 3 (got ${positions.length})`
+      );
+    }
+
+    const vertexCount = positions.length / 3;
+    validateLength("normals", attributes.normals, vertexCount * 3);
+    validateLength("uvs", uvs, vertexCount * 2);
+    validateLength("tangents", attributes.tangents, vertexCount * 3);
+    validateLength("bitangents", attributes.bitangents, vertexCount * 3);
+    validateLength("skinIndices", attributes.skinIndices, vertexCount * 4);
+    validateLength("skinWeights", attributes.skinWeights, vertexCount * 4);
+    if (!attributes.skinIndices !== !attributes.skinWeights) {
+      throw new Error(
+        "BufferGeometry skinIndices and skinWeights must be provided together"
+      );
+    }
+    attributes.morphTargets?.forEach((target, i) => {
+      validateLength(
+        `morphTargets[${i}].positions`,
+        target.positions,
+        vertexCount * 3
+      );
+      validateLength(
+        `morphTargets[${i}].normals`,
+        target.normals,
+        vertexCount * 3
+      );
+    });
+
+    const indices =
+      attributes.indices ??
+      createIndexArray(Array.from({ length: vertexCount }, (_, i) => i));
+    for (let i = 0; i < indices.length; i++) {
+      if (indices[i] >= vertexCount) {
+        throw new Error(
+          `BufferGeometry index ${indices[i]} is out of range for ${vertexCount} vertices`
+        );
+      }
+    }
+
+    this._positions = positions;
+    this._indices = indices;
+    this._uvs = uvs;
+    this._skinIndices = attributes.skinIndices;
+    this._skinWeights = attributes.skinWeights;
+    this._morphTargets = attributes.morphTargets;
+    this._vertexCount = vertexCount;
+    this._normals =
+      attributes.normals ?? computeVertexNormals(positions, indices);
+
+    if (attributes.tangents && attributes.bitangents) {
+      this._tangents = attributes.tangents;
+      this._bitangents = attributes.bitangents;
+    } else if (uvs) {
+      const { tangents, bitangents } = TangentCalculator.calculate(
+        positions,
+        this._normals,
+        uvs,
+        indices
+      );
+      this._tangents = tangents;
+      this._bitangents = bitangents;
+    }
+  }
+
+  get positions(): Float32Array {
+    return this._positions;
+  }
+
+  get normals(): Float32Array {
+    return this._normals;
+  }
+
+  get indices(): IndexArray {
+    return this._indices;
+  }
+
+  get uvs(): Float32Array | undefined {
+    return this._uvs;
+  }
+
+  get tangents(): Float32Array | undefined {
+    return this._tangents;
+  }
+
+  get bitangents(): Float32Array | undefined {
+    return this._bitangents;
+  }
+
+  get skinIndices(): IndexArray | undefined {
+    return this._skinIndices;
+  }
+
+  get skinWeights(): Float32Array | undefined {
+    return this._skinWeights;
+  }
+
+  get morphTargets(): MorphTarget[] | undefined {
+    return this._morphTargets;
+  }
+
+  get vertexCount(): number {
+    return this._vertexCount;
+  }
+
+  get indexCount(): number {
+    return this._indices.length;
+  }
+}
+
+function validateLength(
+  name: string,
+  attribute: Float32Array | IndexArray | undefined,
+  expected: number
+): void {
+  if (attribute && attribute.length !== expected) {
+    throw new Error(
+      `BufferGeometry ${name} length must be ${expected} (got ${attribute.length})`
+    );
+  }
+}
+
+/**
+ * Computes smooth vertex normals by accumulating the area-weighted normal of every
+ * triangle sharing a vertex. Unindexed triangles therefore get flat normals.
+ */
+function computeVertexNormals(
+  positions: Float32Array,
+  indices: IndexArray
+): Float32Array {
+  const normals = new Float32Array(positions.length);
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i] * 3;
+    const b = indices[i + 1] * 3;
+    const c = indices[i + 2] * 3;
+
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+
+    // Cross product length is twice the triangle area
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+
+    for (const vertex of [a, b, c]) {
+      normals[vertex] += nx;
+      normals[vertex + 1] += ny;
+      normals[vertex + 2] += nz;
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (length > 0) {
+      normals[i] /= length;
+      normals[i + 1] /= length;
+      normals[i + 2] /= length;
+    }
+  }
+
+  return normals;
+}
@@ -1,5 +1,17 @@
 export type IndexArray = Uint16Array | Uint32Array;
 
+/**
+ * A morph target (blend shape): per-vertex offsets added to the base geometry,
+ * scaled by the matching entry of Mesh.morphTargetInfluences.
+ */
+export interface MorphTarget {
+  name?: string;
+  /** Position deltas (3 components per vertex) */
+  positions: Float32Array;
+  /** Normal deltas (3 components per vertex); normals are not morphed if omitted */
+  normals?: Float32Array;
+}
+
 export interface Geometry {
   readonly positions: Float32Array;
   readonly normals: Float32Array;
@@ -7,6 +19,12 @@ export interface Geometry {
   readonly uvs?: Float32Array;
   readonly tangents?: Float32Array;
   readonly bitangents?: Float32Array;
+  /** Indices of up to 4 skeleton bones influencing each vertex (4 per vertex), for SkinnedMesh */
+  readonly skinIndices?: IndexArray;
+  /** Weights of the bones in skinIndices (4 per vertex, summing to 1), for SkinnedMesh */
+  readonly skinWeights?: Float32Array;
+  /** Blend shapes applied with Mesh.morphTargetInfluences */
+  readonly morphTargets?: MorphTarget[];
   readonly vertexCount: number;
   readonly indexCount: number;
 }
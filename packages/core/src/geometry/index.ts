@@ -1,6 +1,10 @@
-export type { Geometry, IndexArray } from "./Geometry";
+export type { Geometry, IndexArray, MorphTarget } from "./Geometry";
 export { createIndexArray, getIndexFormat } from "./Geometry";
 export { BoxGeometry } from "./BoxGeometry";
+export {
+  BufferGeometry,
+  type BufferGeometryAttributes,
+} from "./BufferGeometry";
 export {
   CylinderGeometry,
   type CylinderGeometryOptions,
@@ -1,7 +1,33 @@
 export { Engine, type EngineOptions } from "./Engine";
-export { Renderer } from "./renderer/Renderer";
+export {
+  Renderer,
+  type RendererOptions,
+  type RenderStats,
+} from "./renderer/Renderer";
+export type { AmbientOcclusionSettings } from "./renderer/AmbientOcclusionPass";
+export type { TemporalAntialiasingSettings } from "./renderer/TemporalAntialiasingPass";
+export {
+  RenderTarget,
+  type RenderTargetOptions,
+} from "./renderer/RenderTarget";
+export {
+  type Antialiasing,
+  BloomPass,
+  type BloomPassOptions,
+  DepthOfFieldPass,
+  type DepthOfFieldPassOptions,
+  EffectComposer,
+  type EffectComposerOptions,
+  Pass,
+  type PassRenderContext,
+  ShaderPass,
+  type ShaderPassOptions,
+  type ToneMapping,
+} from "./postprocessing";
 export {
   BoxGeometry,
+  BufferGeometry,
+  type BufferGeometryAttributes,
   FrustumGeometry,
   type FrustumColors,
   PlaneGeometry,
@@ -10,10 +36,16 @@ export {
   SphereGeometry,
   type SphereGeometryOptions,
   type Geometry,
+  type MorphTarget,
 } from "./geometry";
 export {
   type Material,
   type VertexBufferLayout,
+  type BlendingMode,
+  type MaterialBlending,
+  type MaterialBlendingOptions,
+  type MaterialRenderState,
+  type MaterialSide,
   type BasicMaterialOptions,
   type BlinnPhongMaterialOptions,
   type VertexColorMaterialOptions,
@@ -22,6 +54,7 @@ export {
   type TextureMaterialOptions,
   type ParallaxMaterialOptions,
   type PBRMaterialOptions,
+  applyBlendingOptions,
   BasicMaterial,
   BlinnPhongMaterial,
   VertexColorMaterial,
@@ -37,13 +70,29 @@ export {
   Light,
   AmbientLight,
   DirectionalLight,
+  DirectionalLightShadow,
+  type DirectionalLightShadowOptions,
+  computeCascadeSplits,
+  type CascadeSplitMode,
   DirectionalLightHelper,
   type DirectionalLightHelperOptions,
   PointLight,
   type AttenuationType,
+  PointLightShadow,
+  type PointLightShadowOptions,
   PointLightHelper,
+  SpotLight,
+  SpotLightHelper,
+  type SpotLightHelperOptions,
 } from "./light";
-export { Object3D, Scene, Mesh } from "./scene";
+export {
+  Object3D,
+  Scene,
+  Mesh,
+  InstancedMesh,
+  Skeleton,
+  SkinnedMesh,
+} from "./scene";
 export {
   PerspectiveCameraHelper,
   type PerspectiveCameraHelperOptions,
@@ -73,3 +122,33 @@ export {
   type HDRLoaderOptions,
 } from "./texture";
 export { SkyboxMaterial, type SkyboxMaterialOptions } from "./material";
+export {
+  GLTFLoader,
+  GLTFLoaderError,
+  type GLTF,
+  type GLTFLoaderOptions,
+  OBJLoader,
+  OBJLoaderError,
+  parseOBJ,
+  parseMTL,
+  type OBJ,
+  type OBJData,
+  type OBJGroup,
+  type OBJLoaderOptions,
+  type OBJMaterial,
+  type MTLMaterial,
+} from "./loaders";
+export {
+  KeyframeTrack,
+  VectorKeyframeTrack,
+  QuaternionKeyframeTrack,
+  NumberKeyframeTrack,
+  ColorKeyframeTrack,
+  type InterpolationMode,
+  type KeyframeTrackValueType,
+  AnimationClip,
+  AnimationAction,
+  type AnimationLoop,
+  AnimationMixer,
+  PropertyBinding,
+} from "./animation";
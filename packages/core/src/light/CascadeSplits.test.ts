@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+import { computeCascadeSplits } from "./CascadeSplits";
+
+describe("computeCascadeSplits", () => {
+  it("should return the far distance for a single cascade", () => {
+    expect(computeCascadeSplits(0.1, 100, 1)).toEqual([100]);
+  });
+
+  it("should split the range evenly in uniform mode", () => {
+    const uniform = computeCascadeSplits(1, 101, 4, "uniform");
+    expect(uniform[0]).toBeCloseTo(26, 5);
+    expect(uniform[1]).toBeCloseTo(51, 5);
+    expect(uniform[2]).toBeCloseTo(76, 5);
+    expect(uniform[3]).toBe(101);
+  });
+
+  it("should grow splits geometrically in logarithmic mode", () => {
+    const splits = computeCascadeSplits(1, 1000, 3, "logarithmic");
+
+    expect(splits[0]).toBeCloseTo(10, 5);
+    expect(splits[1]).toBeCloseTo(100, 5);
+    expect(splits[2]).toBe(1000);
+  });
+
+  it("should interpolate between uniform and logarithmic in practical mode", () => {
+    const uniform = computeCascadeSplits(1, 100, 2, "uniform");
+    const log = computeCascadeSplits(1, 100, 2, "logarithmic");
+    const practical = computeCascadeSplits(1, 100, 2, "practical", 0.25);
+
+    expect(practical[0]).toBeCloseTo(uniform[0] * 0.75 + log[0] * 0.25, 5);
+    expect(practical[1]).toBe(100);
+  });
+
+  it("should match uniform and logarithmic at lambda 0 and 1", () => {
+    expect(computeCascadeSplits(0.5, 200, 4, "practical", 0)).toEqual(
+      computeCascadeSplits(0.5, 200, 4, "uniform")
+    );
+    expect(computeCascadeSplits(0.5, 200, 4, "practical", 1)).toEqual(
+      computeCascadeSplits(0.5, 200, 4, "logarithmic")
+    );
+  });
+
+  it("should default to practical mode with lambda 0.5", () => {
+    expect(computeCascadeSplits(0.1, 500, 3)).toEqual(
+      computeCascadeSplits(0.1, 500, 3, "practical", 0.5)
+    );
+  });
+
+  it("should return strictly increasing splits", () => {
+    for (const mode of ["uniform", "logarithmic", "practical"] as const) {
+      const splits = computeCascadeSplits(0.1, 1000, 4, mode);
+      for (let i = 1; i < splits.length; i++) {
+        expect(splits[i]).toBeGreaterThan(splits[i - 1]);
+      }
+      expect(splits[0]).toBeGreaterThan(0.1);
+    }
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(() => computeCascadeSplits(0.1, 100, 0)).toThrow(
+      "Cascade count must be a positive integer"
+    );
+    expect(() => computeCascadeSplits(0.1, 100, 1.5)).toThrow(
+      "Cascade count must be a positive integer"
+    );
+    expect(() => computeCascadeSplits(0, 100, 2)).toThrow(
+      "Cascade range requires 0 < near < far"
+    );
+    expect(() => computeCascadeSplits(10, 5, 2)).toThrow(
+      "Cascade range requires 0 < near < far"
+    );
+    expect(() => computeCascadeSplits(0.1, 100, 2, "practical", 1.5)).toThrow(
+      "Cascade split lambda must be between 0 and 1"
+    );
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * How the camera depth range is divided between shadow cascades.
+ * - `uniform`: equal depth slices, wastes resolution near the camera
+ * - `logarithmic`: slices grow geometrically, matching perspective texel density
+ * - `practical`: blend of both controlled by a lambda (0 = uniform, 1 = logarithmic)
+ */
+export type CascadeSplitMode = "uniform" | "logarithmic" | "practical";
+
+/**
+ * Computes the far distance of each shadow cascade along the camera view direction.
+ * Cascade i covers `[i === 0 ? near : splits[i - 1], splits[i]]`, and the last split is always `far`.
+ *
+ * @param near - Camera near plane distance (must be greater than 0)
+ * @param far - Distance covered by the last cascade (must be greater than near)
+ * @param count - Number of cascades (positive integer)
+ * @param mode - Split scheme (default: "practical")
+ * @param lambda - Practical split weight between uniform (0) and logarithmic (1) (default: 0.5)
+ * @returns Array of `count` increasing split distances
+ *
+ * @example
+ * ```ts
+ * computeCascadeSplits(1, 100, 2, "logarithmic"); // [10, 100]
+ * computeCascadeSplits(1, 100, 2, "uniform");     // [50.5, 100]
+ * ```
+ */
+export function computeCascadeSplits(
+  near: number,
+  far: number,
+  count: number,
+  mode: CascadeSplitMode = "practical",
+  lambda: number = 0.5
+): number[] {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Cascade count must be a positive integer");
+  }
+  if (near <= 0 || far <= near) {
+    throw new Error("Cascade range requires 0 < near < far");
+  }
+  if (lambda < 0 || lambda > 1) {
+    throw new Error("Cascade split lambda must be between 0 and 1");
+  }
+
+  const weight =
+    mode === "uniform" ? 0 : mode === "logarithmic" ? 1 : lambda;
+  const splits: number[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const t = i / count;
+    const uniformSplit = near + (far - near) * t;
+    const logSplit = near * Math.pow(far / near, t);
+    splits.push(uniformSplit + (logSplit - uniformSplit) * weight);
+  }
+
+  // Avoid floating point drift on the outer boundary
+  splits[count - 1] = far;
+  return splits;
+}
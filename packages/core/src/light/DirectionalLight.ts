@@ -1,5 +1,6 @@
 import { Color, Vector3 } from "@web-real/math";
 import { Light } from "./Light";
+import { DirectionalLightShadow } from "./DirectionalLightShadow";
 
 /**
  * Represents a directional light that emits parallel rays in a specific direction.
@@ -17,6 +18,10 @@ import { Light } from "./Light";
  */
 export class DirectionalLight extends Light {
   public direction: Vector3;
+  /** Whether this light renders a shadow map for meshes with castShadow enabled */
+  public castShadow: boolean = false;
+  /** Shadow map settings and light-space matrices */
+  public readonly shadow: DirectionalLightShadow = new DirectionalLightShadow();
 
   /**
    * Creates a new DirectionalLight instance.
@@ -0,0 +1,226 @@
+import { describe, it, expect } from "bun:test";
+import { Vector3 } from "@web-real/math";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { DirectionalLight } from "./DirectionalLight";
+import { DirectionalLightShadow } from "./DirectionalLightShadow";
+
+describe("DirectionalLightShadow", () => {
+  describe("constructor", () => {
+    it("should initialize with default values", () => {
+      const shadow = new DirectionalLightShadow();
+
+      expect(shadow.mapSize).toBe(1024);
+      expect(shadow.bias).toBe(0.001);
+      expect(shadow.normalBias).toBe(0.02);
+      expect(shadow.radius).toBe(1);
+      expect(shadow.size).toBe(10);
+      expect(shadow.near).toBe(0.5);
+      expect(shadow.far).toBe(50);
+      expect(shadow.distance).toBe(25);
+      expect(shadow.target.x).toBe(0);
+      expect(shadow.target.y).toBe(0);
+      expect(shadow.target.z).toBe(0);
+      expect(shadow.cascades).toBe(1);
+      expect(shadow.cascadeSplitMode).toBe("practical");
+      expect(shadow.cascadeSplitLambda).toBe(0.5);
+      expect(shadow.cascadeBlend).toBe(0.1);
+      expect(shadow.cascadeMaxDistance).toBe(Infinity);
+    });
+
+    it("should apply custom options", () => {
+      const shadow = new DirectionalLightShadow({
+        mapSize: 2048,
+        bias: 0.005,
+        radius: 2,
+        size: 20,
+      });
+
+      expect(shadow.mapSize).toBe(2048);
+      expect(shadow.bias).toBe(0.005);
+      expect(shadow.radius).toBe(2);
+      expect(shadow.size).toBe(20);
+    });
+  });
+
+  describe("updateMatrices", () => {
+    it("should map the target to the center of the shadow box", () => {
+      const shadow = new DirectionalLightShadow({ distance: 10 });
+      shadow.target.set(1, 2, 3);
+
+      shadow.updateMatrices(new Vector3(-1, -1, -1));
+      const p = shadow.viewProjectionMatrix.transformPoint(shadow.target);
+
+      expect(p.x).toBeCloseTo(0, 5);
+      expect(p.y).toBeCloseTo(0, 5);
+      // (distance - near) / (far - near)
+      expect(p.z).toBeCloseTo((10 - 0.5) / (50 - 0.5), 5);
+    });
+
+    it("should map points closer to the light to smaller depth", () => {
+      const shadow = new DirectionalLightShadow();
+      shadow.updateMatrices(new Vector3(0, -1, 0));
+
+      const high = shadow.viewProjectionMatrix.transformPoint(
+        new Vector3(0, 5, 0)
+      );
+      const low = shadow.viewProjectionMatrix.transformPoint(
+        new Vector3(0, -5, 0)
+      );
+
+      expect(high.z).toBeLessThan(low.z);
+      expect(high.z).toBeGreaterThanOrEqual(0);
+      expect(low.z).toBeLessThanOrEqual(1);
+    });
+
+    it("should map the box edges to clip space bounds", () => {
+      const shadow = new DirectionalLightShadow({ size: 4 });
+      shadow.updateMatrices(new Vector3(0, 0, -1));
+
+      // Looking down -z with +y up, so world +x maps to clip +x
+      const edge = shadow.viewProjectionMatrix.transformPoint(
+        new Vector3(4, 4, 0)
+      );
+
+      expect(edge.x).toBeCloseTo(1, 5);
+      expect(edge.y).toBeCloseTo(1, 5);
+    });
+  });
+});
+
+describe("DirectionalLightShadow cascades", () => {
+  function createCamera(): PerspectiveCamera {
+    const camera = new PerspectiveCamera({
+      fov: 60,
+      aspect: 16 / 9,
+      near: 0.5,
+      far: 400,
+    });
+    camera.position.set(10, 5, 20);
+    camera.lookAt(new Vector3(0, 0, 0));
+    camera.updateWorldMatrix(false, false);
+    return camera;
+  }
+
+  /**
+   * World-space point at the given view depth and NDC-style x/y on the camera frustum.
+   */
+  function frustumPoint(
+    camera: PerspectiveCamera,
+    depth: number,
+    x: number,
+    y: number
+  ): Vector3 {
+    const halfHeight = depth * Math.tan((camera.fov * Math.PI) / 360);
+    return camera.viewMatrix
+      .inverse()
+      .transformPoint(
+        new Vector3(x * halfHeight * camera.aspect, y * halfHeight, -depth)
+      );
+  }
+
+  it("should report a single cascade after updateMatrices", () => {
+    const shadow = new DirectionalLightShadow({ cascades: 4 });
+    shadow.updateMatrices(new Vector3(0, -1, 0));
+
+    expect(shadow.cascadeCount).toBe(1);
+    expect(shadow.cascadeSplits).toEqual([]);
+    expect(shadow.getCascadeViewProjectionMatrix(0)).toBe(
+      shadow.viewProjectionMatrix
+    );
+  });
+
+  it("should compute one matrix per cascade with splits up to the camera far plane", () => {
+    const camera = createCamera();
+    const shadow = new DirectionalLightShadow({ cascades: 3 });
+
+    shadow.updateCascades(new Vector3(-1, -2, -1), camera);
+
+    expect(shadow.cascadeCount).toBe(3);
+    expect(shadow.cascadeSplits.length).toBe(3);
+    expect(shadow.cascadeSplits[2]).toBe(400);
+    expect(shadow.viewProjectionMatrix).toBe(
+      shadow.getCascadeViewProjectionMatrix(0)
+    );
+  });
+
+  it("should respect an explicit count and cascadeMaxDistance", () => {
+    const camera = createCamera();
+    const shadow = new DirectionalLightShadow({
+      cascades: 4,
+      cascadeMaxDistance: 100,
+    });
+
+    shadow.updateCascades(new Vector3(0, -1, 0), camera, 2);
+
+    expect(shadow.cascadeCount).toBe(2);
+    expect(shadow.cascadeSplits[1]).toBe(100);
+  });
+
+  it("should fit every slice corner inside its cascade box", () => {
+    const camera = createCamera();
+    const shadow = new DirectionalLightShadow({
+      cascades: 4,
+      cascadeSplitMode: "logarithmic",
+    });
+    shadow.updateCascades(new Vector3(-1, -2, -1), camera);
+
+    let sliceNear = camera.near;
+    shadow.cascadeSplits.forEach((sliceFar, index) => {
+      const matrix = shadow.getCascadeViewProjectionMatrix(index);
+      for (const depth of [sliceNear, sliceFar]) {
+        for (const [x, y] of [
+          [-1, -1],
+          [1, -1],
+          [1, 1],
+          [-1, 1],
+        ]) {
+          const p = matrix.transformPoint(frustumPoint(camera, depth, x, y));
+          expect(Math.abs(p.x)).toBeLessThanOrEqual(1 + 1e-4);
+          expect(Math.abs(p.y)).toBeLessThanOrEqual(1 + 1e-4);
+          expect(p.z).toBeGreaterThanOrEqual(-1e-4);
+          expect(p.z).toBeLessThanOrEqual(1 + 1e-4);
+        }
+      }
+      sliceNear = sliceFar;
+    });
+  });
+
+  it("should give nearer cascades smaller boxes", () => {
+    const camera = createCamera();
+    const shadow = new DirectionalLightShadow({ cascades: 3 });
+    shadow.updateCascades(new Vector3(0, -1, 0), camera);
+
+    // Clip-space x scale of an orthographic box is 2 / width
+    const scales = [0, 1, 2].map((index) =>
+      Math.hypot(...shadow.getCascadeViewProjectionMatrix(index).data.slice(0, 3))
+    );
+
+    expect(scales[0]).toBeGreaterThan(scales[1]);
+    expect(scales[1]).toBeGreaterThan(scales[2]);
+  });
+
+  it("should map casters between the light and the slice to smaller depth", () => {
+    const camera = createCamera();
+    const shadow = new DirectionalLightShadow({ cascades: 2, distance: 50 });
+    shadow.updateCascades(new Vector3(0, -1, 0), camera);
+
+    const ground = frustumPoint(camera, 5, 0, 0);
+    const caster = ground.add(new Vector3(0, 30, 0));
+    const matrix = shadow.getCascadeViewProjectionMatrix(0);
+
+    const groundDepth = matrix.transformPoint(ground).z;
+    const casterDepth = matrix.transformPoint(caster).z;
+
+    expect(casterDepth).toBeGreaterThanOrEqual(0);
+    expect(casterDepth).toBeLessThan(groundDepth);
+  });
+});
+
+describe("DirectionalLight shadow", () => {
+  it("should not cast shadows by default", () => {
+    const light = new DirectionalLight();
+
+    expect(light.castShadow).toBe(false);
+    expect(light.shadow).toBeInstanceOf(DirectionalLightShadow);
+  });
+});
@@ -0,0 +1,293 @@
+import { Matrix4, Vector3 } from "@web-real/math";
+import type { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { computeCascadeSplits, type CascadeSplitMode } from "./CascadeSplits";
+
+export interface DirectionalLightShadowOptions {
+  /** Width and height of the shadow map in texels (default: 1024) */
+  mapSize?: number;
+  /** Constant depth bias applied when comparing against the shadow map (default: 0.001) */
+  bias?: number;
+  /** World-space offset along the surface normal to reduce shadow acne (default: 0.02) */
+  normalBias?: number;
+  /** PCF kernel radius in texels, 0 disables filtering beyond the hardware 2x2 (default: 1) */
+  radius?: number;
+  /** Half extent of the orthographic shadow box in light view space (default: 10) */
+  size?: number;
+  /** Near plane distance of the shadow box (default: 0.5) */
+  near?: number;
+  /** Far plane distance of the shadow box (default: 50) */
+  far?: number;
+  /** Distance from the target to the virtual light position (default: 25) */
+  distance?: number;
+  /** Number of cascades the camera frustum is split into, 1 disables cascading (default: 1) */
+  cascades?: number;
+  /** Scheme used to place cascade splits (default: "practical") */
+  cascadeSplitMode?: CascadeSplitMode;
+  /** Practical split weight between uniform (0) and logarithmic (1) (default: 0.5) */
+  cascadeSplitLambda?: number;
+  /** Fraction of each cascade's depth range blended into the next cascade (default: 0.1) */
+  cascadeBlend?: number;
+  /** Camera distance beyond which cascaded shadows are not rendered (default: camera far) */
+  cascadeMaxDistance?: number;
+}
+
+/**
+ * Shadow configuration and light-space matrices for a DirectionalLight.
+ *
+ * Directional lights have no position, so the shadow camera is placed at
+ * `target - direction * distance` and looks at `target` with an orthographic
+ * box of `[-size, size]` on both axes.
+ *
+ * With `cascades > 1` and a PerspectiveCamera, the camera frustum is instead
+ * split by depth and each slice gets its own box fitted around it (cascaded
+ * shadow maps). `size`, `target`, and `far` are unused in that mode; `distance`
+ * extends each box toward the light so off-screen casters are still captured.
+ *
+ * @example
+ * ```ts
+ * const sun = new DirectionalLight(new Vector3(-1, -2, -1));
+ * sun.castShadow = true;
+ * sun.shadow.mapSize = 2048;
+ * sun.shadow.size = 20;
+ * sun.shadow.target.set(0, 0, 0);
+ *
+ * // Terrain-scale scenes: 4 cascades over the first 500 units
+ * sun.shadow.cascades = 4;
+ * sun.shadow.cascadeMaxDistance = 500;
+ * ```
+ */
+export class DirectionalLightShadow {
+  /** Width and height of the shadow map in texels */
+  public mapSize: number;
+  /** Constant depth bias applied during the depth comparison */
+  public bias: number;
+  /** World-space offset along the surface normal applied before projecting into light space */
+  public normalBias: number;
+  /** PCF kernel radius in texels */
+  public radius: number;
+  /** Half extent of the orthographic shadow box */
+  public size: number;
+  /** Near plane distance of the shadow box */
+  public near: number;
+  /** Far plane distance of the shadow box */
+  public far: number;
+  /** Distance from the target to the virtual light position */
+  public distance: number;
+  /** Number of cascades the camera frustum is split into */
+  public cascades: number;
+  /** Scheme used to place cascade splits */
+  public cascadeSplitMode: CascadeSplitMode;
+  /** Practical split weight between uniform (0) and logarithmic (1) */
+  public cascadeSplitLambda: number;
+  /** Fraction of each cascade's depth range blended into the next cascade */
+  public cascadeBlend: number;
+  /** Camera distance beyond which cascaded shadows are not rendered */
+  public cascadeMaxDistance: number;
+  /** Point in world space the shadow box is centered on */
+  public readonly target: Vector3 = new Vector3(0, 0, 0);
+
+  private _viewMatrix: Matrix4 = new Matrix4();
+  private _projectionMatrix: Matrix4 = new Matrix4();
+  private _viewProjectionMatrix: Matrix4 = new Matrix4();
+  private _cascadeSplits: number[] = [];
+  private _cascadeViewProjectionMatrices: Matrix4[] = [];
+
+  /**
+   * Creates a new DirectionalLightShadow.
+   * @param options - Shadow configuration options
+   */
+  constructor(options: DirectionalLightShadowOptions = {}) {
+    this.mapSize = options.mapSize ?? 1024;
+    this.bias = options.bias ?? 0.001;
+    this.normalBias = options.normalBias ?? 0.02;
+    this.radius = options.radius ?? 1;
+    this.size = options.size ?? 10;
+    this.near = options.near ?? 0.5;
+    this.far = options.far ?? 50;
+    this.distance = options.distance ?? 25;
+    this.cascades = options.cascades ?? 1;
+    this.cascadeSplitMode = options.cascadeSplitMode ?? "practical";
+    this.cascadeSplitLambda = options.cascadeSplitLambda ?? 0.5;
+    this.cascadeBlend = options.cascadeBlend ?? 0.1;
+    this.cascadeMaxDistance = options.cascadeMaxDistance ?? Infinity;
+  }
+
+  /**
+   * View matrix of the shadow camera (valid after updateMatrices()).
+   */
+  get viewMatrix(): Matrix4 {
+    return this._viewMatrix;
+  }
+
+  /**
+   * Orthographic projection matrix of the shadow camera (valid after updateMatrices()).
+   */
+  get projectionMatrix(): Matrix4 {
+    return this._projectionMatrix;
+  }
+
+  /**
+   * Combined projection * view matrix that maps world space to light clip space.
+   */
+  get viewProjectionMatrix(): Matrix4 {
+    return this._viewProjectionMatrix;
+  }
+
+  /**
+   * Number of cascades computed by the last update (1 after updateMatrices()).
+   */
+  get cascadeCount(): number {
+    return this._cascadeViewProjectionMatrices.length;
+  }
+
+  /**
+   * Far distance of each cascade along the camera view direction (valid after updateCascades()).
+   */
+  get cascadeSplits(): readonly number[] {
+    return this._cascadeSplits;
+  }
+
+  /**
+   * Gets the projection * view matrix of a cascade.
+   * @param index - Cascade index, 0 being closest to the camera
+   * @returns Matrix mapping world space to the cascade's clip space
+   */
+  getCascadeViewProjectionMatrix(index: number): Matrix4 {
+    return this._cascadeViewProjectionMatrices[index];
+  }
+
+  /**
+   * Recomputes the light-space matrices for the given light direction.
+   * @param direction - Normalized direction the light travels in
+   * @returns This shadow for method chaining
+   */
+  updateMatrices(direction: Vector3): this {
+    const eye = this.target.sub(direction.normalize().scale(this.distance));
+    this._viewMatrix = Matrix4.lookAt(eye, this.target, new Vector3(0, 1, 0));
+    this._projectionMatrix = DirectionalLightShadow.createProjection(
+      this.size,
+      this.near,
+      this.far
+    );
+    this._viewProjectionMatrix = this._projectionMatrix.multiply(
+      this._viewMatrix
+    );
+    this._cascadeSplits = [];
+    this._cascadeViewProjectionMatrices = [this._viewProjectionMatrix];
+    return this;
+  }
+
+  /**
+   * Splits the camera frustum into cascades and fits a light-space box around each slice.
+   * Boxes are bounding squares of the slice, so their size does not change as the camera
+   * rotates, and are snapped to whole texels to avoid shimmering while the camera moves.
+   * The single-map accessors (viewMatrix, projectionMatrix, viewProjectionMatrix) report cascade 0.
+   * @param direction - Normalized direction the light travels in
+   * @param camera - Camera whose frustum the cascades cover
+   * @param count - Number of cascades to compute (default: this.cascades)
+   * @returns This shadow for method chaining
+   */
+  updateCascades(
+    direction: Vector3,
+    camera: PerspectiveCamera,
+    count: number = this.cascades
+  ): this {
+    const far = Math.min(camera.far, this.cascadeMaxDistance);
+    this._cascadeSplits = computeCascadeSplits(
+      camera.near,
+      far,
+      count,
+      this.cascadeSplitMode,
+      this.cascadeSplitLambda
+    );
+
+    // Rotation-only light view; each cascade box is positioned in this space
+    this._viewMatrix = Matrix4.lookAt(
+      new Vector3(0, 0, 0),
+      direction.normalize(),
+      new Vector3(0, 1, 0)
+    );
+
+    const cameraToWorld = camera.viewMatrix.inverse();
+    const tanHalfFov = Math.tan((camera.fov * Math.PI) / 360);
+
+    this._cascadeViewProjectionMatrices = [];
+    let sliceNear = camera.near;
+    for (const sliceFar of this._cascadeSplits) {
+      const corners: Vector3[] = [];
+      for (const depth of [sliceNear, sliceFar]) {
+        const halfHeight = depth * tanHalfFov;
+        const halfWidth = halfHeight * camera.aspect;
+        for (const [x, y] of [
+          [-1, -1],
+          [1, -1],
+          [1, 1],
+          [-1, 1],
+        ]) {
+          corners.push(
+            cameraToWorld.transformPoint(
+              new Vector3(x * halfWidth, y * halfHeight, -depth)
+            )
+          );
+        }
+      }
+
+      const projection = this._fitCascadeProjection(corners);
+      if (this._cascadeViewProjectionMatrices.length === 0) {
+        this._projectionMatrix = projection;
+      }
+      this._cascadeViewProjectionMatrices.push(
+        projection.multiply(this._viewMatrix)
+      );
+      sliceNear = sliceFar;
+    }
+
+    this._viewProjectionMatrix = this._cascadeViewProjectionMatrices[0];
+    return this;
+  }
+
+  /**
+   * Builds an orthographic projection around the bounding sphere of a frustum slice.
+   * @param corners - World-space corners of the slice
+   * @returns A new Matrix4 mapping light view space to the cascade's clip space
+   */
+  private _fitCascadeProjection(corners: Vector3[]): Matrix4 {
+    const center = corners
+      .reduce((sum, corner) => sum.add(corner), new Vector3(0, 0, 0))
+      .scale(1 / corners.length);
+    const radius =
+      Math.ceil(
+        Math.max(...corners.map((corner) => corner.sub(center).length)) * 16
+      ) / 16;
+
+    const lightCenter = this._viewMatrix.transformPoint(center);
+    const texelSize = (2 * radius) / this.mapSize;
+    const x = Math.floor(lightCenter.x / texelSize) * texelSize;
+    const y = Math.floor(lightCenter.y / texelSize) * texelSize;
+    const depth = -lightCenter.z;
+
+    return Matrix4.orthographic(
+      x - radius,
+      x + radius,
+      y - radius,
+      y + radius,
+      depth - radius - this.distance,
+      depth + radius
+    ).multiply(Matrix4.scaling(new Vector3(1, 1, -1)));
+  }
+
+  /**
+   * Creates the orthographic projection used for a shadow box.
+   * Matrix4.orthographic maps positive view-space z to depth [0, 1], while
+   * lookAt views look down -z, so the view-space z axis is flipped first.
+   * @param size - Half extent of the box on the x and y axes
+   * @param near - Near plane distance
+   * @param far - Far plane distance
+   * @returns A new Matrix4 mapping light view space to clip space
+   */
+  static createProjection(size: number, near: number, far: number): Matrix4 {
+    return Matrix4.orthographic(-size, size, -size, size, near, far).multiply(
+      Matrix4.scaling(new Vector3(1, 1, -1))
+    );
+  }
+}
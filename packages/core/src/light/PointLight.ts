@@ -1,11 +1,12 @@
 import { Color } from "@web-real/math";
 import { Light } from "./Light";
+import { PointLightShadow } from "./PointLightShadow";
 
 /**
  * Attenuation type for point light falloff calculation.
  * - 'linear': Simple linear falloff (1 - distance/range)
  * - 'quadratic': Smooth quadratic falloff ((1 - distance/range)²)
- * - 'physical': Physically-based inverse square falloff (1 / (1 + distance²))
+ * - 'physical': Physically-based inverse square falloff (1 / (1 + distance²)), windowed to zero at the range
  */
 export type AttenuationType = "linear" | "quadratic" | "physical";
 
@@ -25,6 +26,10 @@ export class PointLight extends Light {
   public range: number;
   /** Attenuation type for falloff calculation. */
   public attenuationType: AttenuationType;
+  /** Whether this light renders a cube shadow map for meshes with castShadow enabled */
+  public castShadow: boolean = false;
+  /** Cube shadow map settings and per-face light-space matrices */
+  public readonly shadow: PointLightShadow = new PointLightShadow();
 
   /**
    * Creates a new PointLight.
@@ -49,25 +54,35 @@ export class PointLight extends Light {
    * @returns Tuple of [range, parameter, unused, type code] where type code is 0 (linear), 1 (quadratic), or 2 (physical)
    */
   getAttenuationFactors(): [number, number, number, number] {
-    // Encode attenuation type: 0 = linear, 1 = quadratic, 2 = physical
-    const typeCode =
-      this.attenuationType === "linear"
-        ? 0
-        : this.attenuationType === "quadratic"
-        ? 1
-        : 2;
+    return getAttenuationFactors(this.range, this.attenuationType);
+  }
+}
+
+/**
+ * Encodes a range and attenuation type into shader attenuation factors.
+ * Shared by all lights with distance falloff (PointLight, SpotLight).
+ * @param range - Maximum light range
+ * @param attenuationType - Attenuation falloff type
+ * @returns Tuple of [range, parameter, unused, type code] where type code is 0 (linear), 1 (quadratic), or 2 (physical)
+ */
+export function getAttenuationFactors(
+  range: number,
+  attenuationType: AttenuationType
+): [number, number, number, number] {
+  // Encode attenuation type: 0 = linear, 1 = quadratic, 2 = physical
+  const typeCode =
+    attenuationType === "linear" ? 0 : attenuationType === "quadratic" ? 1 : 2;
 
-    switch (this.attenuationType) {
-      case "linear":
-        // Linear falloff: 1 - d/range
-        return [this.range, 0, 0, typeCode];
-      case "quadratic":
-        // Quadratic falloff: (1 - d/range)²
-        return [this.range, 0, 0, typeCode];
-      case "physical":
-        // Physical inverse square: 1 / (1 + (d/range)² * k)
-        // Using k=16 for reasonable falloff at range boundary
-        return [this.range, 16, 0, typeCode];
-    }
+  switch (attenuationType) {
+    case "linear":
+      // Linear falloff: 1 - d/range
+      return [range, 0, 0, typeCode];
+    case "quadratic":
+      // Quadratic falloff: (1 - d/range)²
+      return [range, 0, 0, typeCode];
+    case "physical":
+      // Physical inverse square: 1 / (1 + (d/range)² * k)
+      // Using k=16 for reasonable falloff at range boundary
+      return [range, 16, 0, typeCode];
   }
 }
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import { Vector3 } from "@web-real/math";
+import { PointLight } from "./PointLight";
+import { PointLightShadow } from "./PointLightShadow";
+import {
+  CUBE_FACE_COUNT,
+  CUBE_FACE_DIRECTIONS,
+  CubeFace,
+} from "../texture/CubeTexture";
+
+describe("PointLightShadow", () => {
+  describe("constructor", () => {
+    it("should initialize with default values", () => {
+      const shadow = new PointLightShadow();
+
+      expect(shadow.mapSize).toBe(512);
+      expect(shadow.bias).toBe(0.05);
+      expect(shadow.near).toBe(0.1);
+      expect(shadow.far).toBe(100);
+    });
+
+    it("should apply custom options", () => {
+      const shadow = new PointLightShadow({
+        mapSize: 1024,
+        bias: 0.01,
+        near: 0.5,
+        far: 20,
+      });
+
+      expect(shadow.mapSize).toBe(1024);
+      expect(shadow.bias).toBe(0.01);
+      expect(shadow.near).toBe(0.5);
+      expect(shadow.far).toBe(20);
+    });
+  });
+
+  describe("updateMatrices", () => {
+    it("should align each face with CUBE_FACE_DIRECTIONS", () => {
+      const position = new Vector3(1, 2, 3);
+      const shadow = new PointLightShadow().updateMatrices(position);
+
+      for (let face = 0; face < CUBE_FACE_COUNT; face++) {
+        const { forward, up, right } = CUBE_FACE_DIRECTIONS[face as CubeFace];
+        const matrix = shadow.getViewProjectionMatrix(face);
+
+        // Point 2 units along forward, offset half-way toward right and up
+        const point = position
+          .add(new Vector3(...forward).scale(2))
+          .add(new Vector3(...right).scale(1))
+          .add(new Vector3(...up).scale(1));
+        const ndc = matrix.transformPoint(point);
+
+        expect(ndc.x).toBeCloseTo(0.5, 5);
+        expect(ndc.y).toBeCloseTo(0.5, 5);
+      }
+    });
+
+    it("should store perspective depth of the major-axis distance", () => {
+      const shadow = new PointLightShadow({ near: 0.5, far: 20 });
+      shadow.updateMatrices(new Vector3(0, 0, 0));
+
+      const d = 5;
+      const ndc = shadow
+        .getViewProjectionMatrix(CubeFace.NegativeY)
+        .transformPoint(new Vector3(1, -d, 2));
+
+      // Matches the reference depth rebuilt in shadow.wgsl
+      expect(ndc.z).toBeCloseTo((20 / (20 - 0.5)) * (1 - 0.5 / d), 5);
+    });
+  });
+});
+
+describe("PointLight shadow", () => {
+  it("should not cast shadows by default", () => {
+    const light = new PointLight();
+
+    expect(light.castShadow).toBe(false);
+    expect(light.shadow).toBeInstanceOf(PointLightShadow);
+  });
+});
@@ -0,0 +1,121 @@
+import { Matrix4, Vector3 } from "@web-real/math";
+import {
+  CUBE_FACE_COUNT,
+  CUBE_FACE_DIRECTIONS,
+  CubeFace,
+} from "../texture/CubeTexture";
+
+export interface PointLightShadowOptions {
+  /** Width and height of each cube face in texels (default: 512) */
+  mapSize?: number;
+  /** World-space distance subtracted from the fragment distance before comparison (default: 0.05) */
+  bias?: number;
+  /** Near plane distance of the cube faces (default: 0.1) */
+  near?: number;
+  /** Far plane distance of the cube faces; fragments beyond it are lit (default: 100) */
+  far?: number;
+}
+
+/**
+ * Shadow configuration and per-face light-space matrices for a PointLight.
+ *
+ * The six faces use CUBE_FACE_DIRECTIONS so that face texels line up with
+ * WebGPU cube sampling: a direction sampled from the light maps to the same
+ * texel the face camera rendered.
+ *
+ * @example
+ * ```ts
+ * const bulb = new PointLight(new Color(1, 0.9, 0.7), 2, 15);
+ * bulb.castShadow = true;
+ * bulb.shadow.mapSize = 1024;
+ * bulb.shadow.far = 15;
+ * ```
+ */
+export class PointLightShadow {
+  /** Width and height of each cube face in texels */
+  public mapSize: number;
+  /** World-space depth bias applied during the depth comparison */
+  public bias: number;
+  /** Near plane distance of the cube faces */
+  public near: number;
+  /** Far plane distance of the cube faces */
+  public far: number;
+
+  private _projectionMatrix: Matrix4 = new Matrix4();
+  private _viewMatrices: Matrix4[] = [];
+  private _viewProjectionMatrices: Matrix4[] = [];
+
+  /**
+   * Creates a new PointLightShadow.
+   * @param options - Shadow configuration options
+   */
+  constructor(options: PointLightShadowOptions = {}) {
+    this.mapSize = options.mapSize ?? 512;
+    this.bias = options.bias ?? 0.05;
+    this.near = options.near ?? 0.1;
+    this.far = options.far ?? 100;
+  }
+
+  /**
+   * Projection matrix shared by all six faces (valid after updateMatrices()).
+   */
+  get projectionMatrix(): Matrix4 {
+    return this._projectionMatrix;
+  }
+
+  /**
+   * Gets the view matrix of a cube face camera (valid after updateMatrices()).
+   * @param face - Cube face to get the matrix for
+   * @returns View matrix looking from the light along the face direction
+   */
+  getViewMatrix(face: CubeFace): Matrix4 {
+    return this._viewMatrices[face];
+  }
+
+  /**
+   * Gets the combined projection * view matrix of a cube face (valid after updateMatrices()).
+   * @param face - Cube face to get the matrix for
+   * @returns Matrix mapping world space to the face's clip space
+   */
+  getViewProjectionMatrix(face: CubeFace): Matrix4 {
+    return this._viewProjectionMatrices[face];
+  }
+
+  /**
+   * Recomputes the six face matrices for a light at the given position.
+   * @param position - World-space position of the light
+   * @returns This shadow for method chaining
+   */
+  updateMatrices(position: Vector3): this {
+    this._projectionMatrix = PointLightShadow.createProjection(
+      this.near,
+      this.far
+    );
+
+    this._viewMatrices = [];
+    this._viewProjectionMatrices = [];
+    for (let face = 0; face < CUBE_FACE_COUNT; face++) {
+      const { forward, up } = CUBE_FACE_DIRECTIONS[face as CubeFace];
+      const target = position.add(new Vector3(...forward));
+      const view = Matrix4.lookAt(position, target, new Vector3(...up));
+      this._viewMatrices.push(view);
+      this._viewProjectionMatrices.push(this._projectionMatrix.multiply(view));
+    }
+
+    return this;
+  }
+
+  /**
+   * Creates the 90° projection used for every cube face.
+   * lookAt builds right-handed views while cube faces are addressed left-handed,
+   * so x is mirrored to keep face texels aligned with CUBE_FACE_DIRECTIONS.right.
+   * @param near - Near plane distance
+   * @param far - Far plane distance
+   * @returns A new Matrix4 mapping face view space to clip space
+   */
+  static createProjection(near: number, far: number): Matrix4 {
+    return Matrix4.scaling(new Vector3(-1, 1, 1)).multiply(
+      Matrix4.perspective(Math.PI / 2, 1, near, far)
+    );
+  }
+}
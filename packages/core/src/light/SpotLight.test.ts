@@ -0,0 +1,103 @@
+import { describe, it, expect } from "bun:test";
+import { Color, Vector3 } from "@web-real/math";
+import { SpotLight } from "./SpotLight";
+import { PointLight } from "./PointLight";
+
+describe("SpotLight", () => {
+  describe("constructor", () => {
+    it("should initialize with default values", () => {
+      const light = new SpotLight();
+
+      expect(light.direction.x).toBe(0);
+      expect(light.direction.y).toBe(-1);
+      expect(light.direction.z).toBe(0);
+      expect(light.color.r).toBe(1);
+      expect(light.color.g).toBe(1);
+      expect(light.color.b).toBe(1);
+      expect(light.intensity).toBe(1);
+      expect(light.range).toBe(10);
+      expect(light.innerAngle).toBeCloseTo(Math.PI / 12, 10);
+      expect(light.outerAngle).toBeCloseTo(Math.PI / 6, 10);
+      expect(light.attenuationType).toBe("quadratic");
+    });
+
+    it("should initialize with all parameters", () => {
+      const light = new SpotLight(
+        new Vector3(0, 0, -2),
+        new Color(0.2, 0.4, 0.6),
+        3,
+        25,
+        0.1,
+        0.4,
+        "physical"
+      );
+
+      expect(light.direction.z).toBe(-1);
+      expect(light.color.g).toBe(0.4);
+      expect(light.intensity).toBe(3);
+      expect(light.range).toBe(25);
+      expect(light.innerAngle).toBe(0.1);
+      expect(light.outerAngle).toBe(0.4);
+      expect(light.attenuationType).toBe("physical");
+    });
+
+    it("should normalize the direction", () => {
+      const light = new SpotLight(new Vector3(3, 0, 4));
+
+      expect(light.direction.x).toBeCloseTo(0.6, 6);
+      expect(light.direction.z).toBeCloseTo(0.8, 6);
+    });
+
+    it("should throw for a zero direction", () => {
+      expect(() => new SpotLight(new Vector3(0, 0, 0))).toThrow(
+        "SpotLight: direction vector must be non-zero."
+      );
+    });
+  });
+
+  describe("getAttenuationFactors", () => {
+    it("should match PointLight encoding for every attenuation type", () => {
+      for (const type of ["linear", "quadratic", "physical"] as const) {
+        const spot = new SpotLight(
+          undefined,
+          undefined,
+          1,
+          12,
+          0.2,
+          0.5,
+          type
+        );
+        const point = new PointLight(undefined, 1, 12, type);
+
+        expect(spot.getAttenuationFactors()).toEqual(
+          point.getAttenuationFactors()
+        );
+      }
+    });
+  });
+
+  describe("getConeFactors", () => {
+    it("should return the cosines of the cone angles", () => {
+      const light = new SpotLight(undefined, undefined, 1, 10, 0.2, 0.5);
+      const [cosInner, cosOuter] = light.getConeFactors();
+
+      expect(cosInner).toBeCloseTo(Math.cos(0.2), 6);
+      expect(cosOuter).toBeCloseTo(Math.cos(0.5), 6);
+    });
+
+    it("should clamp the inner angle to the outer angle", () => {
+      const light = new SpotLight(undefined, undefined, 1, 10, 0.8, 0.3);
+      const [cosInner, cosOuter] = light.getConeFactors();
+
+      expect(cosInner).toBeCloseTo(cosOuter, 6);
+    });
+
+    it("should keep the outer angle below 90 degrees", () => {
+      const light = new SpotLight(undefined, undefined, 1, 10, 0, Math.PI);
+      const [cosInner, cosOuter] = light.getConeFactors();
+
+      expect(cosInner).toBe(1);
+      expect(cosOuter).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Color, Vector3 } from "@web-real/math";
+import { Light } from "./Light";
+import { getAttenuationFactors, type AttenuationType } from "./PointLight";
+
+/**
+ * Represents a spot light that emits a cone of light from a single point.
+ * Intensity falls off with distance like a PointLight and smoothly fades
+ * from the inner cone angle to the outer cone angle.
+ *
+ * @example
+ * ```ts
+ * const flashlight = new SpotLight(
+ *   new Vector3(0, -1, -1),
+ *   new Color(1, 0.95, 0.8),
+ *   3.0,
+ *   20,
+ *   Math.PI / 12,
+ *   Math.PI / 8
+ * );
+ * flashlight.position.set(0, 4, 4);
+ * scene.add(flashlight);
+ * ```
+ */
+export class SpotLight extends Light {
+  /** World-space direction the cone points in (normalized). */
+  public direction: Vector3;
+  /** Maximum range of the light. Objects beyond this distance receive no light. */
+  public range: number;
+  /** Angle in radians from the cone axis where the falloff begins. */
+  public innerAngle: number;
+  /** Angle in radians from the cone axis where the light reaches zero. */
+  public outerAngle: number;
+  /** Attenuation type for distance falloff calculation. */
+  public attenuationType: AttenuationType;
+
+  /**
+   * Creates a new SpotLight.
+   * @param direction - Direction the cone points in (will be normalized, default: downward)
+   * @param color - Light color (default: white)
+   * @param intensity - Light intensity multiplier (default: 1)
+   * @param range - Maximum light range (default: 10)
+   * @param innerAngle - Full-intensity cone half-angle in radians (default: π/12)
+   * @param outerAngle - Cutoff cone half-angle in radians (default: π/6)
+   * @param attenuationType - Attenuation falloff type (default: 'quadratic')
+   * @throws Error if direction vector is zero
+   */
+  constructor(
+    direction: Vector3 = new Vector3(0, -1, 0),
+    color: Color = new Color(1, 1, 1),
+    intensity: number = 1,
+    range: number = 10,
+    innerAngle: number = Math.PI / 12,
+    outerAngle: number = Math.PI / 6,
+    attenuationType: AttenuationType = "quadratic"
+  ) {
+    super(color, intensity);
+    if (direction.length < 1e-8) {
+      throw new Error("SpotLight: direction vector must be non-zero.");
+    }
+    this.direction = direction.normalize();
+    this.range = range;
+    this.innerAngle = innerAngle;
+    this.outerAngle = outerAngle;
+    this.attenuationType = attenuationType;
+  }
+
+  /**
+   * Returns attenuation factors for shader-based falloff calculation.
+   * @returns Tuple of [range, parameter, unused, type code] where type code is 0 (linear), 1 (quadratic), or 2 (physical)
+   */
+  getAttenuationFactors(): [number, number, number, number] {
+    return getAttenuationFactors(this.range, this.attenuationType);
+  }
+
+  /**
+   * Returns the cone cosines used by the shader falloff.
+   * The outer angle is clamped below 90° and the inner angle to the outer angle,
+   * so that cosInner >= cosOuter always holds.
+   * @returns Tuple of [cos(innerAngle), cos(outerAngle)]
+   */
+  getConeFactors(): [number, number] {
+    const outer = Math.min(Math.max(this.outerAngle, 0), Math.PI / 2 - 1e-4);
+    const inner = Math.min(Math.max(this.innerAngle, 0), outer);
+    return [Math.cos(inner), Math.cos(outer)];
+  }
+}
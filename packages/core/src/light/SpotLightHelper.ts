@@ -0,0 +1,153 @@
+import type { SpotLight } from "./SpotLight";
+import { Color, Vector3 } from "@web-real/math";
+import { LineMaterial } from "../material/LineMaterial";
+import { Mesh } from "../scene/Mesh";
+import type { Geometry } from "../geometry/Geometry";
+
+export interface SpotLightHelperOptions {
+  /** Color of the helper lines. Default: yellow */
+  color?: Color;
+}
+
+/** Number of line segments used to approximate the cone base circle. */
+const CIRCLE_SEGMENTS = 32;
+
+/** Number of lines from the apex to the cone base. */
+const SIDE_LINES = 4;
+
+/**
+ * Geometry for SpotLightHelper - a wireframe cone showing the outer angle and range.
+ * Creates a base circle plus 4 lines from the apex (light position) to the circle.
+ */
+class SpotLightHelperGeometry implements Geometry {
+  positions: Float32Array;
+  readonly normals: Float32Array;
+  readonly indices: Uint16Array = new Uint16Array(0);
+  readonly vertexCount: number;
+  readonly indexCount: number = 0;
+
+  /**
+   * Creates a new SpotLightHelperGeometry instance.
+   * @param light - The SpotLight to visualize
+   */
+  constructor(light: SpotLight) {
+    // Circle segments + side lines, 2 vertices per line (line-list)
+    this.vertexCount = (CIRCLE_SEGMENTS + SIDE_LINES) * 2;
+    this.positions = new Float32Array(this.vertexCount * 3);
+    this.normals = new Float32Array(this.vertexCount * 3); // unused for lines
+
+    this.updatePositions(light);
+  }
+
+  /**
+   * Updates the cone geometry based on the light's direction, range, and outer angle.
+   * @param light - The SpotLight to update from
+   */
+  updatePositions(light: SpotLight): void {
+    const dir = light.direction.normalize();
+    const [, cosOuter] = light.getConeFactors();
+    const length = light.range;
+    const radius = length * Math.tan(Math.acos(cosOuter));
+
+    // Orthonormal basis around the cone axis
+    let tangent = dir.cross(new Vector3(0, 1, 0));
+    if (tangent.length < 1e-6) {
+      // Direction is parallel to up, use the x axis instead
+      tangent = dir.cross(new Vector3(1, 0, 0));
+    }
+    tangent = tangent.normalize();
+    const bitangent = tangent.cross(dir).normalize();
+
+    const center = dir.scale(length);
+    const circlePoint = (angle: number): Vector3 =>
+      center
+        .add(tangent.scale(Math.cos(angle) * radius))
+        .add(bitangent.scale(Math.sin(angle) * radius));
+
+    let idx = 0;
+    const pushLine = (a: Vector3, b: Vector3): void => {
+      this.positions[idx++] = a.x;
+      this.positions[idx++] = a.y;
+      this.positions[idx++] = a.z;
+      this.positions[idx++] = b.x;
+      this.positions[idx++] = b.y;
+      this.positions[idx++] = b.z;
+    };
+
+    // Base circle
+    for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+      pushLine(
+        circlePoint((i / CIRCLE_SEGMENTS) * Math.PI * 2),
+        circlePoint(((i + 1) / CIRCLE_SEGMENTS) * Math.PI * 2)
+      );
+    }
+
+    // Sides from apex to the base circle
+    const apex = new Vector3(0, 0, 0);
+    for (let i = 0; i < SIDE_LINES; i++) {
+      pushLine(apex, circlePoint((i / SIDE_LINES) * Math.PI * 2));
+    }
+  }
+
+  /**
+   * Updates the geometry to reflect changes in the light's cone.
+   * @param light - The SpotLight to update from
+   */
+  update(light: SpotLight): void {
+    this.updatePositions(light);
+  }
+}
+
+/**
+ * A helper class that visualizes a SpotLight's cone.
+ * Displays a wireframe cone from the light's position along its direction,
+ * with the length of the light's range and the width of its outer angle.
+ *
+ * @example
+ * ```typescript
+ * const light = new SpotLight(new Vector3(0, -1, 0), new Color(1, 1, 1), 2, 8);
+ * light.position.set(0, 5, 0);
+ * const helper = new SpotLightHelper(light, { color: Color.YELLOW });
+ * scene.add(helper);
+ *
+ * // Update when the light moves or its cone changes
+ * light.outerAngle = Math.PI / 4;
+ * helper.update();
+ * ```
+ */
+export class SpotLightHelper extends Mesh {
+  private readonly light: SpotLight;
+  private readonly helperGeometry: SpotLightHelperGeometry;
+
+  /**
+   * Creates a new SpotLightHelper instance.
+   * @param light - The SpotLight to visualize
+   * @param options - Configuration options for the helper
+   */
+  constructor(light: SpotLight, options: SpotLightHelperOptions = {}) {
+    const color = options.color ?? new Color(1, 1, 0); // Yellow default
+
+    const geometry = new SpotLightHelperGeometry(light);
+    const material = new LineMaterial({ color });
+
+    super(geometry, material);
+
+    this.light = light;
+    this.helperGeometry = geometry;
+    this.update();
+  }
+
+  /**
+   * Updates the helper to reflect changes in the light's position, direction, or cone.
+   */
+  update(): void {
+    // Sync helper position with light position
+    this.position.set(
+      this.light.position.x,
+      this.light.position.y,
+      this.light.position.z
+    );
+    this.helperGeometry.update(this.light);
+    this.needsUpdate = true;
+  }
+}
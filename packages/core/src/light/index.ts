@@ -1,9 +1,23 @@
 export { Light } from "./Light";
 export { AmbientLight } from "./AmbientLight";
 export { DirectionalLight } from "./DirectionalLight";
+export {
+  DirectionalLightShadow,
+  type DirectionalLightShadowOptions,
+} from "./DirectionalLightShadow";
+export { computeCascadeSplits, type CascadeSplitMode } from "./CascadeSplits";
 export { PointLight, type AttenuationType } from "./PointLight";
+export {
+  PointLightShadow,
+  type PointLightShadowOptions,
+} from "./PointLightShadow";
+export { SpotLight } from "./SpotLight";
 export {
   DirectionalLightHelper,
   type DirectionalLightHelperOptions,
 } from "./DirectionalLightHelper";
 export { PointLightHelper } from "./PointLightHelper";
+export {
+  SpotLightHelper,
+  type SpotLightHelperOptions,
+} from "./SpotLightHelper";
@@ -0,0 +1,494 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import { GLTFLoader, GLTFLoaderError } from "./GLTFLoader";
+import { Mesh } from "../scene/Mesh";
+import { Scene } from "../scene/Scene";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+
+const createMockDevice = (): GPUDevice =>
+  ({
+    queue: {
+      copyExternalImageToTexture: mock(() => {}),
+    },
+    createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+      format: descriptor.format,
+      label: descriptor.label,
+      destroy: mock(() => {}),
+    })),
+    createSampler: mock((descriptor: GPUSamplerDescriptor) => descriptor),
+  }) as unknown as GPUDevice;
+
+async function loadFixture(name: string): Promise<ArrayBuffer> {
+  return Bun.file(`${import.meta.dir}/fixtures/${name}`).arrayBuffer();
+}
+
+function encodeJson(document: object): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(document))
+    .buffer as ArrayBuffer;
+}
+
+describe("GLTFLoader", () => {
+  const originalCreateImageBitmap = globalThis.createImageBitmap;
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    (globalThis as any).GPUTextureUsage ??= {
+      COPY_DST: 0x02,
+      TEXTURE_BINDING: 0x04,
+      RENDER_ATTACHMENT: 0x10,
+    };
+    (globalThis as any).createImageBitmap = mock(async () => ({
+      width: 1,
+      height: 1,
+      close: mock(() => {}),
+    }));
+  });
+
+  afterEach(() => {
+    globalThis.createImageBitmap = originalCreateImageBitmap;
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("fromBuffer with .gltf", () => {
+    it("should build a scene with a named mesh node", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("triangle.gltf")
+      );
+
+      expect(gltf.scene).toBeInstanceOf(Scene);
+      expect(gltf.scenes).toHaveLength(1);
+      const triangle = gltf.scene.getObjectByName("Triangle");
+      expect(triangle).toBeInstanceOf(Mesh);
+      expect(triangle).toBe(gltf.nodes[0]);
+      expect(triangle!.position.y).toBe(1);
+    });
+
+    it("should decode embedded buffers and compute flat normals", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("triangle.gltf")
+      );
+      const { geometry } = gltf.nodes[0] as Mesh;
+
+      expect(Array.from(geometry.positions)).toEqual([
+        0, 0, 0, 1, 0, 0, 0, 1, 0,
+      ]);
+      expect(Array.from(geometry.indices)).toEqual([0, 1, 2]);
+      expect(Array.from(geometry.normals)).toEqual([
+        0, 0, 1, 0, 0, 1, 0, 0, 1,
+      ]);
+      expect(geometry.uvs).toHaveLength(6);
+    });
+
+    it("should map the material to a PBRMaterial", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("triangle.gltf")
+      );
+      const [material] = gltf.materials;
+
+      expect((gltf.nodes[0] as Mesh).material).toBe(material);
+      expect(material.color.r).toBe(1);
+      expect(material.color.g).toBe(0);
+      expect(material.opacity).toBe(0.5);
+      expect(material.transparent).toBe(true);
+      expect(material.metalness).toBe(0);
+      expect(material.roughness).toBeCloseTo(0.8, 5);
+      expect(material.renderState.side).toBe("double");
+      expect(material.map).toBeUndefined();
+      expect(gltf.textures).toHaveLength(0);
+    });
+
+    it("should fetch external buffers relative to the base URL", async () => {
+      const bin = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+      const fetchMock = mock(async () => new Response(bin.buffer));
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        encodeJson({
+          asset: { version: "2.0" },
+          nodes: [{ mesh: 0 }],
+          meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+          accessors: [
+            { bufferView: 0, componentType: 5126, count: 3, type: "VEC3" },
+          ],
+          bufferViews: [{ buffer: 0, byteLength: 36 }],
+          buffers: [{ uri: "triangle%20data.bin", byteLength: 36 }],
+        }),
+        { baseUrl: "models/" }
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith("models/triangle data.bin");
+      expect((gltf.nodes[0] as Mesh).geometry.vertexCount).toBe(3);
+    });
+
+    it("should put root nodes in one scene when the asset has none", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        encodeJson({
+          asset: { version: "2.0" },
+          nodes: [{ name: "A", children: [1] }, { name: "B" }, { name: "C" }],
+        })
+      );
+
+      expect(gltf.scenes).toHaveLength(1);
+      expect(gltf.scene.children.map((child) => child.name)).toEqual([
+        "A",
+        "C",
+      ]);
+      expect(gltf.nodes[1].parent).toBe(gltf.nodes[0]);
+    });
+  });
+
+  describe("skins", () => {
+    function createSkinnedTriangle(): ArrayBuffer {
+      const bin = new ArrayBuffer(224);
+      new Float32Array(bin, 0, 9).set([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+      new Uint8Array(bin, 36, 12).set([0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0]);
+      new Float32Array(bin, 48, 12).set([1, 0, 0, 0, 1, 0, 0, 0, 0.5, 0.5]);
+      // Joint 1 sits at y = 1 in the bind pose
+      new Float32Array(bin, 96, 32).set([
+        ...[1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+        ...[1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -1, 0, 1],
+      ]);
+      const base64 = Buffer.from(bin).toString("base64");
+
+      return encodeJson({
+        asset: { version: "2.0" },
+        scene: 0,
+        scenes: [{ nodes: [0, 1] }],
+        nodes: [
+          { name: "Body", mesh: 0, skin: 0 },
+          { name: "Hips", children: [2] },
+          { name: "Spine", translation: [0, 1, 0] },
+        ],
+        meshes: [
+          {
+            primitives: [
+              { attributes: { POSITION: 0, JOINTS_0: 1, WEIGHTS_0: 2 } },
+            ],
+          },
+        ],
+        skins: [{ joints: [1, 2], inverseBindMatrices: 3 }],
+        accessors: [
+          { bufferView: 0, componentType: 5126, count: 3, type: "VEC3" },
+          { bufferView: 1, componentType: 5121, count: 3, type: "VEC4" },
+          { bufferView: 2, componentType: 5126, count: 3, type: "VEC4" },
+          { bufferView: 3, componentType: 5126, count: 2, type: "MAT4" },
+        ],
+        bufferViews: [
+          { buffer: 0, byteOffset: 0, byteLength: 36 },
+          { buffer: 0, byteOffset: 36, byteLength: 12 },
+          { buffer: 0, byteOffset: 48, byteLength: 48 },
+          { buffer: 0, byteOffset: 96, byteLength: 128 },
+        ],
+        buffers: [
+          {
+            uri: `data:application/octet-stream;base64,${base64}`,
+            byteLength: 224,
+          },
+        ],
+      });
+    }
+
+    it("should bind skinned nodes to a skeleton of joint nodes", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        createSkinnedTriangle()
+      );
+
+      const body = gltf.nodes[0];
+      expect(body).toBeInstanceOf(SkinnedMesh);
+      const { skeleton, geometry } = body as SkinnedMesh;
+      expect(gltf.skeletons).toEqual([skeleton]);
+      expect(skeleton.bones).toEqual([gltf.nodes[1], gltf.nodes[2]]);
+      expect(skeleton.boneInverses[1].data[13]).toBe(-1);
+      expect(Array.from(geometry.skinIndices!)).toEqual([
+        0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0,
+      ]);
+      expect(geometry.skinWeights![9]).toBe(0.5);
+    });
+
+    it("should pose vertices with the joints", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        createSkinnedTriangle()
+      );
+      const body = gltf.nodes[0] as SkinnedMesh;
+
+      gltf.nodes[2].position.x = 2;
+      const positions = body.getSkinnedPositions();
+
+      expect(Array.from(positions.subarray(0, 3))).toEqual([0, 0, 0]);
+      expect(positions[3]).toBeCloseTo(3, 5);
+      expect(positions[6]).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe("morph targets", () => {
+    function createMorphedTriangle(): ArrayBuffer {
+      const bin = new ArrayBuffer(108);
+      new Float32Array(bin, 0, 9).set([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+      new Float32Array(bin, 36, 9).set([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+      new Float32Array(bin, 72, 9).set([0, 0, 0, 0, 0, 0, 0, 2, 0]);
+      const base64 = Buffer.from(bin).toString("base64");
+
+      return encodeJson({
+        asset: { version: "2.0" },
+        scene: 0,
+        scenes: [{ nodes: [0, 1] }],
+        nodes: [
+          { name: "Face", mesh: 0 },
+          { name: "Smiling", mesh: 0, weights: [0.25, 1] },
+        ],
+        meshes: [
+          {
+            primitives: [
+              {
+                attributes: { POSITION: 0, NORMAL: 1 },
+                targets: [{ POSITION: 2 }, { POSITION: 2, NORMAL: 1 }],
+              },
+            ],
+            weights: [0.5, 0],
+            extras: { targetNames: ["blink", "smile"] },
+          },
+        ],
+        accessors: [
+          { bufferView: 0, componentType: 5126, count: 3, type: "VEC3" },
+          { bufferView: 1, componentType: 5126, count: 3, type: "VEC3" },
+          { bufferView: 2, componentType: 5126, count: 3, type: "VEC3" },
+        ],
+        bufferViews: [
+          { buffer: 0, byteOffset: 0, byteLength: 36 },
+          { buffer: 0, byteOffset: 36, byteLength: 36 },
+          { buffer: 0, byteOffset: 72, byteLength: 36 },
+        ],
+        buffers: [
+          {
+            uri: `data:application/octet-stream;base64,${base64}`,
+            byteLength: 108,
+          },
+        ],
+      });
+    }
+
+    it("should read named morph targets into the geometry", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        createMorphedTriangle()
+      );
+
+      const { morphTargets } = (gltf.nodes[0] as Mesh).geometry;
+      expect(morphTargets!.map((target) => target.name)).toEqual([
+        "blink",
+        "smile",
+      ]);
+      expect(morphTargets![0].positions[7]).toBe(2);
+      expect(morphTargets![0].normals).toBeUndefined();
+      expect(morphTargets![1].normals![2]).toBe(1);
+    });
+
+    it("should start from the node weights, then the mesh weights", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        createMorphedTriangle()
+      );
+
+      expect((gltf.nodes[0] as Mesh).morphTargetInfluences).toEqual([0.5, 0]);
+      expect((gltf.nodes[1] as Mesh).morphTargetInfluences).toEqual([0.25, 1]);
+    });
+  });
+
+  describe("fromBuffer with .glb", () => {
+    it("should build the node hierarchy", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+
+      expect(gltf.scene.name).toBe("Main");
+      const root = gltf.scene.getObjectByName("Root")!;
+      const quad = root.getObjectByName("Quad")!;
+      expect(root.parent).toBe(gltf.scene);
+      expect(quad.parent).toBe(root);
+      // Two primitives become two Mesh children of the node
+      expect(quad).not.toBeInstanceOf(Mesh);
+      expect(quad.children).toHaveLength(2);
+      expect(quad.children.every((child) => child instanceof Mesh)).toBe(
+        true
+      );
+    });
+
+    it("should apply rotation quaternions and matrices", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+      const [root, quad] = gltf.nodes;
+
+      expect(root.quaternion.y).toBeCloseTo(Math.SQRT1_2, 6);
+      expect(root.quaternion.w).toBeCloseTo(Math.SQRT1_2, 6);
+      expect([quad.position.x, quad.position.y, quad.position.z]).toEqual([
+        1, 2, 3,
+      ]);
+      expect([quad.scale.x, quad.scale.y, quad.scale.z]).toEqual([2, 2, 2]);
+
+      gltf.scene.updateWorldMatrix();
+      const world = quad.worldMatrix.data;
+      expect(world[12]).toBeCloseTo(3, 5);
+      expect(world[13]).toBeCloseTo(2, 5);
+      expect(world[14]).toBeCloseTo(-1, 5);
+    });
+
+    it("should read interleaved and normalized attributes", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+      const { geometry } = gltf.nodes[1].children[0] as Mesh;
+
+      expect(geometry.vertexCount).toBe(4);
+      expect(Array.from(geometry.positions.subarray(3, 6))).toEqual([
+        1, -1, 0,
+      ]);
+      expect(Array.from(geometry.normals.subarray(3, 6))).toEqual([0, 0, 1]);
+      expect(Array.from(geometry.uvs!)).toEqual([0, 1, 1, 1, 1, 0, 0, 0]);
+      expect(Array.from(geometry.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+    });
+
+    it("should convert triangle strips to triangle lists", async () => {
+      const gltf = await GLTFLoader.fromBuffer(
+        createMockDevice(),
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+      const strip = gltf.nodes[1].children[1] as Mesh;
+
+      // Strip 0-1-2-3 becomes triangles (0, 1, 2) and (2, 1, 3), unwelded for flat normals
+      expect(strip.geometry.indexCount).toBe(6);
+      expect(Array.from(strip.geometry.positions.subarray(9, 18))).toEqual([
+        1, 1, 0, 1, -1, 0, -1, 1, 0,
+      ]);
+      expect(strip.material).not.toBe(gltf.materials[0]);
+      expect(strip.material.type).toBe("pbr");
+    });
+
+    it("should load embedded textures into material maps", async () => {
+      const device = createMockDevice();
+      const gltf = await GLTFLoader.fromBuffer(
+        device,
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+      const [material] = gltf.materials;
+
+      expect(material.map!.format).toBe("rgba8unorm-srgb");
+      expect(material.roughnessMap).toBe(material.metalnessMap);
+      expect(material.roughnessMap!.format).toBe("rgba8unorm");
+      expect(material.normalMap).toBe(material.roughnessMap);
+      expect(material.aoMap).toBe(material.roughnessMap);
+      // The same image is shared per color space
+      expect(gltf.textures).toHaveLength(2);
+      expect(globalThis.createImageBitmap).toHaveBeenCalledTimes(2);
+    });
+
+    it("should map material factors and sampler settings", async () => {
+      const device = createMockDevice();
+      const gltf = await GLTFLoader.fromBuffer(
+        device,
+        await loadFixture("textured-quad.glb"),
+        { generateMipmaps: false }
+      );
+      const [material] = gltf.materials;
+
+      expect(material.metalness).toBe(0.5);
+      expect(material.roughness).toBe(0.25);
+      expect(material.normalScale).toBe(0.5);
+      expect(material.aoMapIntensity).toBe(0.75);
+      expect(material.emissive.toArray()).toEqual([1, 0.5, 0]);
+      expect(material.renderState.side).toBe("front");
+      expect(material.transparent).toBe(false);
+
+      const sampler = (device.createSampler as any).mock.calls[0][0];
+      expect(sampler.magFilter).toBe("nearest");
+      expect(sampler.minFilter).toBe("linear");
+      expect(sampler.mipmapFilter).toBe("linear");
+      expect(sampler.addressModeU).toBe("clamp-to-edge");
+      expect(sampler.addressModeV).toBe("mirror-repeat");
+    });
+  });
+
+  describe("errors", () => {
+    it("should reject an empty buffer", async () => {
+      await expect(
+        GLTFLoader.fromBuffer(createMockDevice(), new ArrayBuffer(0))
+      ).rejects.toThrow("ArrayBuffer cannot be empty");
+    });
+
+    it("should reject invalid JSON", async () => {
+      await expect(
+        GLTFLoader.fromBuffer(
+          createMockDevice(),
+          new TextEncoder().encode("not json").buffer as ArrayBuffer
+        )
+      ).rejects.toThrow(GLTFLoaderError);
+    });
+
+    it("should reject glTF 1.0 assets", async () => {
+      await expect(
+        GLTFLoader.fromBuffer(
+          createMockDevice(),
+          encodeJson({ asset: { version: "1.0" } })
+        )
+      ).rejects.toThrow("Unsupported glTF version 1.0; only 2.x is supported");
+    });
+
+    it("should reject assets with required extensions", async () => {
+      await expect(
+        GLTFLoader.fromBuffer(
+          createMockDevice(),
+          encodeJson({
+            asset: { version: "2.0" },
+            extensionsRequired: ["KHR_draco_mesh_compression"],
+          })
+        )
+      ).rejects.toThrow(
+        "Unsupported required extensions: KHR_draco_mesh_compression"
+      );
+    });
+
+    it("should reject a GLB without a JSON chunk", async () => {
+      const header = new Uint32Array([0x46546c67, 2, 12]);
+
+      await expect(
+        GLTFLoader.fromBuffer(createMockDevice(), header.buffer)
+      ).rejects.toThrow("GLB file has no JSON chunk");
+    });
+
+    it("should reject primitives without positions", async () => {
+      await expect(
+        GLTFLoader.fromBuffer(
+          createMockDevice(),
+          encodeJson({
+            asset: { version: "2.0" },
+            nodes: [{ mesh: 0 }],
+            meshes: [{ primitives: [{ attributes: {} }] }],
+          })
+        )
+      ).rejects.toThrow("Primitive 0 of mesh 0 has no POSITION attribute");
+    });
+  });
+
+  describe("isGLTFFile", () => {
+    it("should detect .gltf and .glb extensions", () => {
+      expect(GLTFLoader.isGLTFFile("model.gltf")).toBe(true);
+      expect(GLTFLoader.isGLTFFile("path/Model.GLB?v=2")).toBe(true);
+      expect(GLTFLoader.isGLTFFile("model.obj")).toBe(false);
+      expect(GLTFLoader.isGLTFFile("")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,1077 @@
+/**
+ * glTF 2.0 loader for .gltf (JSON) and .glb (binary) files.
+ *
+ * Builds an Object3D hierarchy of Mesh and SkinnedMesh nodes with PBRMaterial
+ * materials following the metallic-roughness workflow.
+ *
+ * @module GLTFLoader
+ */
+
+import { Matrix4, Vector3 } from "@web-real/math";
+import { BufferGeometry } from "../geometry/BufferGeometry";
+import { createIndexArray, type MorphTarget } from "../geometry/Geometry";
+import type { MaterialSide } from "../material/Material";
+import {
+  PBRMaterial,
+  type PBRMaterialOptions,
+} from "../material/PBRMaterial";
+import { Mesh } from "../scene/Mesh";
+import { Object3D } from "../scene/Object3D";
+import { Scene } from "../scene/Scene";
+import { Skeleton } from "../scene/Skeleton";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import { Texture, type TextureOptions } from "../texture/Texture";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_HEADER_SIZE = 12;
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942; // "BIN\0"
+
+/** Primitive modes (glTF `primitive.mode`) */
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+const COMPONENT_READERS: Record<
+  number,
+  { size: number; read: (view: DataView, offset: number) => number }
+> = {
+  5120: { size: 1, read: (view, offset) => view.getInt8(offset) },
+  5121: { size: 1, read: (view, offset) => view.getUint8(offset) },
+  5122: { size: 2, read: (view, offset) => view.getInt16(offset, true) },
+  5123: { size: 2, read: (view, offset) => view.getUint16(offset, true) },
+  5125: { size: 4, read: (view, offset) => view.getUint32(offset, true) },
+  5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true) },
+};
+
+/** Divisors mapping normalized integer components to [-1, 1] or [0, 1] */
+const NORMALIZE_DIVISORS: Record<number, number> = {
+  5120: 127,
+  5121: 255,
+  5122: 32767,
+  5123: 65535,
+  5125: 4294967295,
+};
+
+const TYPE_SIZES: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+const FILTERS: Record<number, GPUFilterMode> = {
+  9728: "nearest",
+  9729: "linear",
+};
+
+/** Minification filters as [minFilter, mipmapFilter] */
+const MIN_FILTERS: Record<number, [GPUFilterMode, GPUMipmapFilterMode]> = {
+  9728: ["nearest", "nearest"],
+  9729: ["linear", "linear"],
+  9984: ["nearest", "nearest"],
+  9985: ["linear", "nearest"],
+  9986: ["nearest", "linear"],
+  9987: ["linear", "linear"],
+};
+
+const WRAP_MODES: Record<number, GPUAddressMode> = {
+  33071: "clamp-to-edge",
+  33648: "mirror-repeat",
+  10497: "repeat",
+};
+
+interface GLTFTextureInfo {
+  index: number;
+  texCoord?: number;
+  scale?: number;
+  strength?: number;
+}
+
+interface GLTFAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  sparse?: {
+    count: number;
+    indices: {
+      bufferView: number;
+      byteOffset?: number;
+      componentType: number;
+    };
+    values: { bufferView: number; byteOffset?: number };
+  };
+}
+
+interface GLTFPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+  /** Morph targets: accessors of POSITION and NORMAL deltas */
+  targets?: Record<string, number>[];
+}
+
+interface GLTFNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  skin?: number;
+  weights?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GLTFMaterial {
+  name?: string;
+  pbrMetallicRoughness?: {
+    baseColorFactor?: number[];
+    baseColorTexture?: GLTFTextureInfo;
+    metallicFactor?: number;
+    roughnessFactor?: number;
+    metallicRoughnessTexture?: GLTFTextureInfo;
+  };
+  normalTexture?: GLTFTextureInfo;
+  occlusionTexture?: GLTFTextureInfo;
+  emissiveTexture?: GLTFTextureInfo;
+  emissiveFactor?: number[];
+  alphaMode?: "OPAQUE" | "MASK" | "BLEND";
+  doubleSided?: boolean;
+}
+
+/**
+ * The subset of the glTF 2.0 JSON document read by the loader.
+ */
+interface GLTFDocument {
+  asset: { version: string };
+  extensionsRequired?: string[];
+  scene?: number;
+  scenes?: { name?: string; nodes?: number[] }[];
+  nodes?: GLTFNode[];
+  meshes?: {
+    name?: string;
+    primitives: GLTFPrimitive[];
+    weights?: number[];
+    extras?: { targetNames?: string[] };
+  }[];
+  accessors?: GLTFAccessor[];
+  bufferViews?: {
+    buffer: number;
+    byteOffset?: number;
+    byteLength: number;
+    byteStride?: number;
+  }[];
+  buffers?: { uri?: string; byteLength: number }[];
+  materials?: GLTFMaterial[];
+  skins?: { name?: string; joints: number[]; inverseBindMatrices?: number }[];
+  textures?: { sampler?: number; source?: number }[];
+  images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+  samplers?: {
+    magFilter?: number;
+    minFilter?: number;
+    wrapS?: number;
+    wrapT?: number;
+  }[];
+}
+
+export interface GLTFLoaderOptions {
+  /** Base URL that relative buffer and image URIs are resolved against (default: the directory of the loaded URL) */
+  baseUrl?: string;
+  /** Generate mipmaps for loaded textures (default: true) */
+  generateMipmaps?: boolean;
+}
+
+/**
+ * Result of loading a glTF asset.
+ */
+export interface GLTF {
+  /** The default scene, or the first scene if the asset does not name one */
+  scene: Scene;
+  /** Every scene in the asset, by glTF scene index */
+  scenes: Scene[];
+  /** The object created for each glTF node, by glTF node index */
+  nodes: Object3D[];
+  /** Materials created for the asset, by glTF material index */
+  materials: PBRMaterial[];
+  /** Skeletons shared by the SkinnedMeshes of each skin, by glTF skin index */
+  skeletons: Skeleton[];
+  /** Every texture created for the materials */
+  textures: Texture[];
+}
+
+/**
+ * Error thrown when glTF loading or parsing fails.
+ */
+export class GLTFLoaderError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "GLTFLoaderError";
+  }
+}
+
+/**
+ * Loads glTF 2.0 assets (.gltf with external or embedded buffers, or binary .glb).
+ *
+ * Each node becomes an Object3D; a node with a mesh becomes a Mesh (a SkinnedMesh bound to
+ * the skin's Skeleton when the node has a skin), or an Object3D with one such child per
+ * primitive when the mesh has several primitives. Morph targets become geometry morphTargets,
+ * with the node's or mesh's weights as the initial morphTargetInfluences. Materials map to
+ * PBRMaterial: baseColor → map, metallicRoughness → roughnessMap and metalnessMap
+ * (green and blue channels), normal → normalMap, occlusion → aoMap and emissive → emissiveMap.
+ *
+ * Limitations: only triangle primitives, TEXCOORD_0, JOINTS_0, WEIGHTS_0 and POSITION/NORMAL morph targets are read; alphaMode MASK is drawn opaque;
+ * emissiveFactor only scales emissiveIntensity when an emissive texture is present.
+ *
+ * @example
+ * ```ts
+ * const gltf = await GLTFLoader.fromURL(device, "models/helmet.glb");
+ * scene.add(gltf.scene);
+ *
+ * // Offline, e.g. from a fixture file
+ * const gltf = await GLTFLoader.fromBuffer(device, arrayBuffer);
+ * ```
+ */
+export class GLTFLoader {
+  /**
+   * Loads a glTF asset from a URL.
+   * @param device - WebGPU device used to create textures
+   * @param url - URL to the .gltf or .glb file
+   * @param options - Loading options
+   * @returns Promise resolving to the loaded scenes, nodes, materials and textures
+   * @throws {GLTFLoaderError} If loading or parsing fails
+   */
+  static async fromURL(
+    device: GPUDevice,
+    url: string,
+    options: GLTFLoaderOptions = {}
+  ): Promise<GLTF> {
+    if (!url || typeof url !== "string" || url.trim().length === 0) {
+      throw new GLTFLoaderError("Valid URL string is required");
+    }
+
+    const buffer = await fetchArrayBuffer(url);
+    return this.fromBuffer(device, buffer, {
+      ...options,
+      baseUrl: options.baseUrl ?? url.slice(0, url.lastIndexOf("/") + 1),
+    });
+  }
+
+  /**
+   * Parses a glTF asset from an ArrayBuffer holding either glTF JSON or a GLB container.
+   * External buffers and images are fetched relative to options.baseUrl.
+   * @param device - WebGPU device used to create textures
+   * @param buffer - Contents of the .gltf or .glb file
+   * @param options - Loading options
+   * @returns Promise resolving to the loaded scenes, nodes, materials and textures
+   * @throws {GLTFLoaderError} If the data is not valid glTF 2.0 or uses unsupported features
+   */
+  static async fromBuffer(
+    device: GPUDevice,
+    buffer: ArrayBuffer,
+    options: GLTFLoaderOptions = {}
+  ): Promise<GLTF> {
+    if (!buffer || !(buffer instanceof ArrayBuffer)) {
+      throw new GLTFLoaderError("Valid ArrayBuffer is required");
+    }
+    if (buffer.byteLength === 0) {
+      throw new GLTFLoaderError("ArrayBuffer cannot be empty");
+    }
+
+    const { document, binaryChunk } = parseContainer(buffer);
+    validateDocument(document);
+
+    const parser = new GLTFParser(device, document, options);
+    await parser.loadBuffers(binaryChunk);
+    return parser.parse();
+  }
+
+  /**
+   * Checks if a URL points to a glTF file based on extension.
+   * @param url - The URL to check
+   * @returns True if the URL has a .gltf or .glb extension
+   */
+  static isGLTFFile(url: string): boolean {
+    if (!url || typeof url !== "string") {
+      return false;
+    }
+    const cleanUrl = url.split("?")[0].split("#")[0].toLowerCase();
+    return cleanUrl.endsWith(".gltf") || cleanUrl.endsWith(".glb");
+  }
+}
+
+/**
+ * Builds engine objects from a validated glTF document, caching shared resources.
+ */
+class GLTFParser {
+  private _device: GPUDevice;
+  private _document: GLTFDocument;
+  private _options: GLTFLoaderOptions;
+  private _buffers: ArrayBuffer[] = [];
+  private _geometries: Map<string, BufferGeometry> = new Map();
+  private _textures: Map<string, Promise<Texture>> = new Map();
+  private _defaultMaterial?: PBRMaterial;
+
+  constructor(
+    device: GPUDevice,
+    document: GLTFDocument,
+    options: GLTFLoaderOptions
+  ) {
+    this._device = device;
+    this._document = document;
+    this._options = options;
+  }
+
+  /**
+   * Resolves every buffer: the GLB binary chunk, base64 data URIs, or external files.
+   */
+  async loadBuffers(binaryChunk: ArrayBuffer | undefined): Promise<void> {
+    const buffers = this._document.buffers ?? [];
+    this._buffers = await Promise.all(
+      buffers.map(async (buffer, index) => {
+        if (buffer.uri === undefined) {
+          if (index !== 0 || !binaryChunk) {
+            throw new GLTFLoaderError(
+              `Buffer ${index} has no URI and no GLB binary chunk`
+            );
+          }
+          return binaryChunk;
+        }
+        if (buffer.uri.startsWith("data:")) {
+          return decodeDataUri(buffer.uri).data.buffer as ArrayBuffer;
+        }
+        return fetchArrayBuffer(this._resolveUri(buffer.uri));
+      })
+    );
+  }
+
+  async parse(): Promise<GLTF> {
+    const document = this._document;
+
+    const materials = await Promise.all(
+      (document.materials ?? []).map((material) =>
+        this._createMaterial(material)
+      )
+    );
+
+    // Skinned meshes need their joints, so they are created after every other node
+    const nodeDefs = document.nodes ?? [];
+    const nodes: Object3D[] = new Array(nodeDefs.length);
+    const skeletons: Skeleton[] = [];
+    nodeDefs.forEach((node, index) => {
+      if (node.skin === undefined) {
+        nodes[index] = this._createNode(node, materials);
+      }
+    });
+    nodeDefs.forEach((node, index) => {
+      if (node.skin !== undefined) {
+        skeletons[node.skin] ??= this._createSkeleton(node.skin, nodes);
+        nodes[index] = this._createNode(node, materials, skeletons[node.skin]);
+      }
+    });
+    (document.nodes ?? []).forEach((node, index) => {
+      for (const childIndex of node.children ?? []) {
+        nodes[index].add(nodes[childIndex]);
+      }
+    });
+
+    const scenes = (document.scenes ?? []).map((sceneDef) => {
+      const scene = new Scene();
+      scene.name = sceneDef.name ?? "";
+      for (const nodeIndex of sceneDef.nodes ?? []) {
+        const node = nodes[nodeIndex];
+        if (node.parent) {
+          console.warn(
+            `[GLTFLoader] Node ${nodeIndex} is already in another scene and is skipped.`
+          );
+          continue;
+        }
+        scene.add(node);
+      }
+      return scene;
+    });
+
+    // Assets without scenes are libraries of nodes; expose their roots in one scene
+    if (scenes.length === 0) {
+      const scene = new Scene();
+      nodes.filter((node) => !node.parent).forEach((node) => scene.add(node));
+      scenes.push(scene);
+    }
+
+    return {
+      scene: scenes[document.scene ?? 0],
+      scenes,
+      nodes,
+      materials,
+      skeletons,
+      textures: [...new Set(await Promise.all(this._textures.values()))],
+    };
+  }
+
+  private _createNode(
+    node: GLTFNode,
+    materials: PBRMaterial[],
+    skeleton?: Skeleton
+  ): Object3D {
+    let object: Object3D;
+
+    if (node.mesh !== undefined) {
+      const meshDef = this._document.meshes![node.mesh];
+      const meshes: Mesh[] = [];
+      meshDef.primitives.forEach((primitive, primitiveIndex) => {
+        const geometry = this._getGeometry(node.mesh!, primitiveIndex);
+        if (!geometry) return;
+        const material =
+          primitive.material !== undefined
+            ? materials[primitive.material]
+            : this._getDefaultMaterial();
+        const mesh =
+          skeleton && geometry.skinIndices
+            ? new SkinnedMesh(geometry, material, skeleton)
+            : new Mesh(geometry, material);
+        const weights = node.weights ?? meshDef.weights ?? [];
+        mesh.morphTargetInfluences.forEach((_, i) => {
+          mesh.morphTargetInfluences[i] = weights[i] ?? 0;
+        });
+        meshes.push(mesh);
+      });
+
+      if (meshes.length === 1) {
+        object = meshes[0];
+      } else {
+        object = new Object3D();
+        meshes.forEach((mesh) => {
+          mesh.name = meshDef.name ?? "";
+          object.add(mesh);
+        });
+      }
+    } else {
+      object = new Object3D();
+    }
+
+    object.name = node.name ?? "";
+    applyNodeTransform(object, node);
+    return object;
+  }
+
+  /**
+   * Creates the skeleton of a skin from its joint nodes and inverse bind matrices.
+   * The inverse bind matrices map the mesh's bind pose into each joint's space.
+   */
+  private _createSkeleton(skinIndex: number, nodes: Object3D[]): Skeleton {
+    const skin = this._document.skins?.[skinIndex];
+    if (!skin) {
+      throw new GLTFLoaderError(`Skin ${skinIndex} does not exist`);
+    }
+
+    const bones = skin.joints.map((jointIndex) => {
+      const bone = nodes[jointIndex];
+      if (!bone) {
+        throw new GLTFLoaderError(
+          `Skin ${skinIndex} uses node ${jointIndex} as a joint, which is missing or skinned`
+        );
+      }
+      return bone;
+    });
+
+    const inverseBindMatrices =
+      skin.inverseBindMatrices !== undefined
+        ? this._readAccessor(skin.inverseBindMatrices)
+        : undefined;
+    const boneInverses = bones.map((_, i) =>
+      inverseBindMatrices
+        ? Matrix4.fromArray(inverseBindMatrices, i * 16)
+        : new Matrix4()
+    );
+
+    return new Skeleton(bones, boneInverses);
+  }
+
+  /**
+   * Returns the geometry of a mesh primitive, or undefined if its mode is not supported.
+   * Geometries are shared by every node that instantiates the same mesh.
+   */
+  private _getGeometry(
+    meshIndex: number,
+    primitiveIndex: number
+  ): BufferGeometry | undefined {
+    const key = `${meshIndex}_${primitiveIndex}`;
+    const cached = this._geometries.get(key);
+    if (cached) return cached;
+
+    const primitive =
+      this._document.meshes![meshIndex].primitives[primitiveIndex];
+    const mode = primitive.mode ?? MODE_TRIANGLES;
+    if (
+      mode !== MODE_TRIANGLES &&
+      mode !== MODE_TRIANGLE_STRIP &&
+      mode !== MODE_TRIANGLE_FAN
+    ) {
+      console.warn(
+        `[GLTFLoader] Primitive ${primitiveIndex} of mesh ${meshIndex} uses unsupported mode ${mode} and is skipped.`
+      );
+      return undefined;
+    }
+
+    const { attributes } = primitive;
+    if (attributes.POSITION === undefined) {
+      throw new GLTFLoaderError(
+        `Primitive ${primitiveIndex} of mesh ${meshIndex} has no POSITION attribute`
+      );
+    }
+
+    let positions = this._readAccessor(attributes.POSITION);
+    const vertexCount = positions.length / 3;
+    let normals =
+      attributes.NORMAL !== undefined
+        ? this._readAccessor(attributes.NORMAL)
+        : undefined;
+    let uvs =
+      attributes.TEXCOORD_0 !== undefined
+        ? this._readAccessor(attributes.TEXCOORD_0)
+        : new Float32Array(vertexCount * 2);
+    let tangents =
+      attributes.TANGENT !== undefined
+        ? this._readAccessor(attributes.TANGENT)
+        : undefined;
+    let skinIndices =
+      attributes.JOINTS_0 !== undefined && attributes.WEIGHTS_0 !== undefined
+        ? this._readAccessor(attributes.JOINTS_0)
+        : undefined;
+    let skinWeights = skinIndices && this._readAccessor(attributes.WEIGHTS_0);
+    const targetNames = this._document.meshes![meshIndex].extras?.targetNames;
+    let morphTargets: MorphTarget[] | undefined = primitive.targets?.map(
+      (target, targetIndex) => ({
+        name: targetNames?.[targetIndex],
+        positions:
+          target.POSITION !== undefined
+            ? this._readAccessor(target.POSITION)
+            : new Float32Array(vertexCount * 3),
+        normals:
+          normals && target.NORMAL !== undefined
+            ? this._readAccessor(target.NORMAL)
+            : undefined,
+      })
+    );
+
+    let indices =
+      primitive.indices !== undefined
+        ? Array.from(this._readAccessor(primitive.indices))
+        : Array.from({ length: vertexCount }, (_, i) => i);
+    indices = toTriangleList(indices, mode);
+
+    // glTF requires flat normals when none are given: unweld so every triangle has its own vertices
+    if (!normals) {
+      positions = unweld(positions, indices, 3);
+      uvs = unweld(uvs, indices, 2);
+      tangents = tangents && unweld(tangents, indices, 4);
+      skinIndices = skinIndices && unweld(skinIndices, indices, 4);
+      skinWeights = skinWeights && unweld(skinWeights, indices, 4);
+      morphTargets = morphTargets?.map((target) => ({
+        name: target.name,
+        positions: unweld(target.positions, indices, 3),
+      }));
+      indices = Array.from({ length: indices.length }, (_, i) => i);
+    }
+
+    const geometry = new BufferGeometry({
+      positions,
+      normals,
+      indices: createIndexArray(indices),
+      uvs,
+      ...(tangents && normals ? splitTangents(tangents, normals) : undefined),
+      ...(skinIndices && {
+        skinIndices: new Uint16Array(skinIndices),
+        skinWeights,
+      }),
+      morphTargets,
+    });
+
+    this._geometries.set(key, geometry);
+    return geometry;
+  }
+
+  /**
+   * Reads an accessor into a Float32Array of tightly packed components,
+   * converting normalized integers and applying sparse substitutions.
+   */
+  private _readAccessor(index: number): Float32Array {
+    const accessor = this._document.accessors?.[index];
+    if (!accessor) {
+      throw new GLTFLoaderError(`Accessor ${index} does not exist`);
+    }
+
+    const itemSize = TYPE_SIZES[accessor.type];
+    const reader = COMPONENT_READERS[accessor.componentType];
+    if (!itemSize || !reader) {
+      throw new GLTFLoaderError(
+        `Accessor ${index} has unsupported type ${accessor.type} / componentType ${accessor.componentType}`
+      );
+    }
+
+    const divisor = accessor.normalized
+      ? NORMALIZE_DIVISORS[accessor.componentType]
+      : 1;
+    const result = new Float32Array(accessor.count * itemSize);
+
+    if (accessor.bufferView !== undefined) {
+      const { view, stride } = this._getBufferView(accessor.bufferView);
+      const elementStride = stride || itemSize * reader.size;
+      const baseOffset = accessor.byteOffset ?? 0;
+
+      for (let i = 0; i < accessor.count; i++) {
+        const elementOffset = baseOffset + i * elementStride;
+        for (let j = 0; j < itemSize; j++) {
+          const value = reader.read(view, elementOffset + j * reader.size);
+          result[i * itemSize + j] =
+            divisor === 1 ? value : Math.max(value / divisor, -1);
+        }
+      }
+    }
+
+    if (accessor.sparse) {
+      const { count, indices, values } = accessor.sparse;
+      const indexReader = COMPONENT_READERS[indices.componentType];
+      const indexView = this._getBufferView(indices.bufferView).view;
+      const valueView = this._getBufferView(values.bufferView).view;
+
+      for (let i = 0; i < count; i++) {
+        const target = indexReader.read(
+          indexView,
+          (indices.byteOffset ?? 0) + i * indexReader.size
+        );
+        for (let j = 0; j < itemSize; j++) {
+          const value = reader.read(
+            valueView,
+            (values.byteOffset ?? 0) + (i * itemSize + j) * reader.size
+          );
+          result[target * itemSize + j] =
+            divisor === 1 ? value : Math.max(value / divisor, -1);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private _getBufferView(index: number): { view: DataView; stride: number } {
+    const bufferView = this._document.bufferViews?.[index];
+    const buffer = bufferView && this._buffers[bufferView.buffer];
+    if (!bufferView || !buffer) {
+      throw new GLTFLoaderError(`Buffer view ${index} does not exist`);
+    }
+    return {
+      view: new DataView(
+        buffer,
+        bufferView.byteOffset ?? 0,
+        bufferView.byteLength
+      ),
+      stride: bufferView.byteStride ?? 0,
+    };
+  }
+
+  private async _createMaterial(material: GLTFMaterial): Promise<PBRMaterial> {
+    const pbr = material.pbrMetallicRoughness ?? {};
+    const [r, g, b, a] = pbr.baseColorFactor ?? [1, 1, 1, 1];
+    const emissiveFactor = material.emissiveFactor ?? [0, 0, 0];
+
+    const [map, metallicRoughnessMap, normalMap, aoMap, emissiveMap] =
+      await Promise.all([
+        this._getTexture(pbr.baseColorTexture, true),
+        this._getTexture(pbr.metallicRoughnessTexture, false),
+        this._getTexture(material.normalTexture, false),
+        this._getTexture(material.occlusionTexture, false),
+        this._getTexture(material.emissiveTexture, true),
+      ]);
+
+    const side: MaterialSide = material.doubleSided ? "double" : "front";
+    const options: PBRMaterialOptions = {
+      color: [r, g, b],
+      opacity: a,
+      transparent: material.alphaMode === "BLEND",
+      metalness: pbr.metallicFactor ?? 1,
+      roughness: pbr.roughnessFactor ?? 1,
+      map,
+      roughnessMap: metallicRoughnessMap,
+      metalnessMap: metallicRoughnessMap,
+      normalMap,
+      normalScale: material.normalTexture?.scale ?? 1,
+      aoMap,
+      aoMapIntensity: material.occlusionTexture?.strength ?? 1,
+      renderState: { side },
+    };
+
+    // PBRMaterial adds the emissive color to the emissive map, whereas glTF multiplies them
+    if (emissiveMap) {
+      options.emissiveMap = emissiveMap;
+      options.emissive = [0, 0, 0];
+      options.emissiveIntensity = Math.max(...emissiveFactor);
+    } else {
+      options.emissive = [
+        emissiveFactor[0],
+        emissiveFactor[1],
+        emissiveFactor[2],
+      ];
+    }
+
+    return new PBRMaterial(options);
+  }
+
+  /**
+   * The material glTF specifies for primitives without one.
+   */
+  private _getDefaultMaterial(): PBRMaterial {
+    this._defaultMaterial ??= new PBRMaterial({
+      metalness: 1,
+      roughness: 1,
+      renderState: { side: "front" },
+    });
+    return this._defaultMaterial;
+  }
+
+  /**
+   * Creates (once per texture and color space) the Texture referenced by a material slot.
+   */
+  private _getTexture(
+    info: GLTFTextureInfo | undefined,
+    srgb: boolean
+  ): Promise<Texture | undefined> {
+    if (!info) {
+      return Promise.resolve(undefined);
+    }
+    if ((info.texCoord ?? 0) !== 0) {
+      console.warn(
+        `[GLTFLoader] Texture ${info.index} uses TEXCOORD_${info.texCoord}, which is not supported; TEXCOORD_0 is used instead.`
+      );
+    }
+
+    const key = `${info.index}_${srgb}`;
+    let texture = this._textures.get(key);
+    if (!texture) {
+      texture = this._loadTexture(info.index, srgb);
+      this._textures.set(key, texture);
+    }
+    return texture;
+  }
+
+  private async _loadTexture(index: number, srgb: boolean): Promise<Texture> {
+    const textureDef = this._document.textures?.[index];
+    const image =
+      textureDef?.source !== undefined
+        ? this._document.images?.[textureDef.source]
+        : undefined;
+    if (!image) {
+      throw new GLTFLoaderError(`Texture ${index} has no image source`);
+    }
+
+    let blob: Blob;
+    if (image.bufferView !== undefined) {
+      const { view } = this._getBufferView(image.bufferView);
+      const bytes = new Uint8Array(
+        view.buffer as ArrayBuffer,
+        view.byteOffset,
+        view.byteLength
+      );
+      blob = new Blob([bytes], { type: image.mimeType ?? "" });
+    } else if (image.uri?.startsWith("data:")) {
+      const { data, mimeType } = decodeDataUri(image.uri);
+      blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType });
+    } else if (image.uri) {
+      const url = this._resolveUri(image.uri);
+      const response = await fetchResponse(url);
+      blob = await response.blob();
+    } else {
+      throw new GLTFLoaderError(`Image of texture ${index} has no data`);
+    }
+
+    const textureOptions: TextureOptions = {
+      srgb,
+      generateMipmaps: this._options.generateMipmaps,
+      sampler: createSamplerOptions(
+        textureDef?.sampler !== undefined
+          ? this._document.samplers?.[textureDef.sampler]
+          : undefined
+      ),
+      label: `GLTF Texture ${index}`,
+    };
+
+    try {
+      return await Texture.fromBlob(this._device, blob, textureOptions);
+    } catch (error) {
+      throw new GLTFLoaderError(
+        `Failed to create texture ${index}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error
+      );
+    }
+  }
+
+  private _resolveUri(uri: string): string {
+    // Absolute URLs and root-relative paths are used as is
+    if (/^[a-z][a-z0-9+.-]*:/i.test(uri) || uri.startsWith("/")) {
+      return uri;
+    }
+    return (this._options.baseUrl ?? "") + decodeURIComponent(uri);
+  }
+}
+
+/**
+ * Splits a .glb container into its JSON document and binary chunk, or parses plain glTF JSON.
+ */
+function parseContainer(buffer: ArrayBuffer): {
+  document: GLTFDocument;
+  binaryChunk?: ArrayBuffer;
+} {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  if (buffer.byteLength < 4 || view.getUint32(0, true) !== GLB_MAGIC) {
+    return { document: parseJson(decoder.decode(buffer)) };
+  }
+
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new GLTFLoaderError(`Unsupported GLB version ${version}`);
+  }
+
+  const length = Math.min(view.getUint32(8, true), buffer.byteLength);
+  let document: GLTFDocument | undefined;
+  let binaryChunk: ArrayBuffer | undefined;
+  let offset = GLB_HEADER_SIZE;
+
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      throw new GLTFLoaderError("GLB chunk exceeds the file length");
+    }
+
+    if (chunkType === GLB_CHUNK_JSON) {
+      document = parseJson(
+        decoder.decode(new Uint8Array(buffer, start, chunkLength))
+      );
+    } else if (chunkType === GLB_CHUNK_BIN && !binaryChunk) {
+      binaryChunk = buffer.slice(start, start + chunkLength);
+    }
+    offset = start + chunkLength;
+  }
+
+  if (!document) {
+    throw new GLTFLoaderError("GLB file has no JSON chunk");
+  }
+  return { document, binaryChunk };
+}
+
+function parseJson(text: string): GLTFDocument {
+  try {
+    return JSON.parse(text) as GLTFDocument;
+  } catch (error) {
+    throw new GLTFLoaderError(
+      `Invalid glTF JSON: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error
+    );
+  }
+}
+
+function validateDocument(document: GLTFDocument): void {
+  const version = document?.asset?.version;
+  if (typeof version !== "string") {
+    throw new GLTFLoaderError("glTF asset.version is missing");
+  }
+  if (!version.startsWith("2.")) {
+    throw new GLTFLoaderError(
+      `Unsupported glTF version ${version}; only 2.x is supported`
+    );
+  }
+  if (document.extensionsRequired?.length) {
+    throw new GLTFLoaderError(
+      `Unsupported required extensions: ${document.extensionsRequired.join(
+        ", "
+      )}`
+    );
+  }
+}
+
+/**
+ * Decodes a base64 (or percent-encoded) data URI.
+ */
+function decodeDataUri(uri: string): { data: Uint8Array; mimeType: string } {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,(.*)$/s.exec(uri);
+  if (!match) {
+    throw new GLTFLoaderError("Invalid data URI");
+  }
+
+  const [, mimeType, , base64, payload] = match;
+  if (!base64) {
+    return {
+      data: new TextEncoder().encode(decodeURIComponent(payload)),
+      mimeType,
+    };
+  }
+
+  const binary = atob(payload);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return { data, mimeType };
+}
+
+async function fetchResponse(url: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new GLTFLoaderError(
+      `Network error while fetching ${url}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error
+    );
+  }
+
+  if (!response.ok) {
+    throw new GLTFLoaderError(
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+  return response;
+}
+
+async function fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+  const response = await fetchResponse(url);
+  return response.arrayBuffer();
+}
+
+/**
+ * Converts triangle strip and fan indices into a triangle list.
+ */
+function toTriangleList(indices: number[], mode: number): number[] {
+  if (mode === MODE_TRIANGLES) {
+    return indices;
+  }
+
+  const triangles: number[] = [];
+  for (let i = 2; i < indices.length; i++) {
+    if (mode === MODE_TRIANGLE_FAN) {
+      triangles.push(indices[0], indices[i - 1], indices[i]);
+    } else if (i % 2 === 0) {
+      triangles.push(indices[i - 2], indices[i - 1], indices[i]);
+    } else {
+      // Odd strip triangles swap two vertices to keep a consistent winding
+      triangles.push(indices[i - 1], indices[i - 2], indices[i]);
+    }
+  }
+  return triangles;
+}
+
+/**
+ * Expands an indexed attribute so every index gets its own copy of the vertex.
+ */
+function unweld(
+  attribute: Float32Array,
+  indices: number[],
+  itemSize: number
+): Float32Array {
+  const result = new Float32Array(indices.length * itemSize);
+  indices.forEach((index, i) => {
+    result.set(
+      attribute.subarray(index * itemSize, index * itemSize + itemSize),
+      i * itemSize
+    );
+  });
+  return result;
+}
+
+/**
+ * Splits glTF tangents (xyz + handedness w) into tangents and bitangents,
+ * where bitangent = cross(normal, tangent) * w.
+ */
+function splitTangents(
+  tangents: Float32Array,
+  normals: Float32Array
+): { tangents: Float32Array; bitangents: Float32Array } {
+  const count = normals.length / 3;
+  const xyz = new Float32Array(count * 3);
+  const bitangents = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const t = new Vector3(
+      tangents[i * 4],
+      tangents[i * 4 + 1],
+      tangents[i * 4 + 2]
+    );
+    const n = new Vector3(
+      normals[i * 3],
+      normals[i * 3 + 1],
+      normals[i * 3 + 2]
+    );
+    const b = n.cross(t).scale(tangents[i * 4 + 3]);
+    xyz.set([t.x, t.y, t.z], i * 3);
+    bitangents.set([b.x, b.y, b.z], i * 3);
+  }
+
+  return { tangents: xyz, bitangents };
+}
+
+function createSamplerOptions(
+  sampler: NonNullable<GLTFDocument["samplers"]>[number] | undefined
+): Partial<GPUSamplerDescriptor> {
+  const options: Partial<GPUSamplerDescriptor> = {};
+  if (!sampler) {
+    return options;
+  }
+
+  if (sampler.magFilter !== undefined && FILTERS[sampler.magFilter]) {
+    options.magFilter = FILTERS[sampler.magFilter];
+  }
+  if (sampler.minFilter !== undefined && MIN_FILTERS[sampler.minFilter]) {
+    [options.minFilter, options.mipmapFilter] = MIN_FILTERS[sampler.minFilter];
+  }
+  if (sampler.wrapS !== undefined && WRAP_MODES[sampler.wrapS]) {
+    options.addressModeU = WRAP_MODES[sampler.wrapS];
+  }
+  if (sampler.wrapT !== undefined && WRAP_MODES[sampler.wrapT]) {
+    options.addressModeV = WRAP_MODES[sampler.wrapT];
+  }
+  return options;
+}
+
+/**
+ * Applies a node's matrix or translation/rotation/scale to an object.
+ */
+function applyNodeTransform(object: Object3D, node: GLTFNode): void {
+  if (node.matrix) {
+    const { position, quaternion, scale } = Matrix4.fromArray(
+      node.matrix
+    ).decompose();
+    object.position = position;
+    object.quaternion = quaternion;
+    object.scale = scale;
+    return;
+  }
+
+  if (node.translation) {
+    const [x, y, z] = node.translation;
+    object.position.set(x, y, z);
+  }
+  if (node.scale) {
+    const [x, y, z] = node.scale;
+    object.scale.set(x, y, z);
+  }
+  if (node.rotation) {
+    const [x, y, z, w] = node.rotation;
+    object.quaternion.set(x, y, z, w);
+  }
+}
@@ -0,0 +1,356 @@
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import {
+  OBJLoader,
+  OBJLoaderError,
+  parseMTL,
+  parseOBJ,
+} from "./OBJLoader";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import { TextureMaterial } from "../material/TextureMaterial";
+
+const createMockDevice = (): GPUDevice =>
+  ({
+    queue: {
+      copyExternalImageToTexture: mock(() => {}),
+    },
+    createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+      format: descriptor.format,
+      label: descriptor.label,
+      destroy: mock(() => {}),
+    })),
+    createSampler: mock((descriptor: GPUSamplerDescriptor) => descriptor),
+  }) as unknown as GPUDevice;
+
+const QUAD = `
+# Unit quad in the XY plane
+mtllib quad.mtl
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+vt 0 0
+vt 1 0
+vt 1 1
+vt 0 1
+vn 0 0 1
+o Quad
+usemtl Red
+f 1/1/1 2/2/1 3/3/1 4/4/1
+`;
+
+describe("parseOBJ", () => {
+  it("should fan-triangulate n-gons and share repeated vertices", () => {
+    const { groups } = parseOBJ(QUAD);
+
+    expect(groups).toHaveLength(1);
+    const { geometry } = groups[0];
+    expect(geometry.vertexCount).toBe(4);
+    expect(Array.from(geometry.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+    expect(geometry.indices).toBeInstanceOf(Uint16Array);
+  });
+
+  it("should read positions, normals and flipped UVs", () => {
+    const { geometry } = parseOBJ(QUAD).groups[0];
+
+    expect(Array.from(geometry.positions.subarray(6, 9))).toEqual([1, 1, 0]);
+    expect(Array.from(geometry.normals.subarray(0, 3))).toEqual([0, 0, 1]);
+    expect(Array.from(geometry.uvs!)).toEqual([0, 1, 1, 1, 1, 0, 0, 0]);
+  });
+
+  it("should record names, materials and material libraries", () => {
+    const data = parseOBJ(QUAD);
+
+    expect(data.groups[0].name).toBe("Quad");
+    expect(data.groups[0].material).toBe("Red");
+    expect(data.materialLibraries).toEqual(["quad.mtl"]);
+  });
+
+  it("should resolve negative indices relative to the last vertex", () => {
+    const { geometry } = parseOBJ(`
+      v 5 5 5
+      v 0 0 0
+      v 1 0 0
+      v 0 1 0
+      f -3 -2 -1
+    `).groups[0];
+
+    expect(Array.from(geometry.positions)).toEqual([
+      0, 0, 0, 1, 0, 0, 0, 1, 0,
+    ]);
+  });
+
+  it("should compute normals and zero UVs when they are missing", () => {
+    const { geometry } = parseOBJ("v 0 0 0\nv 0 1 0\nv 1 0 0\nf 1 2 3")
+      .groups[0];
+
+    for (let i = 0; i < 3; i++) {
+      expect(geometry.normals[i * 3 + 2]).toBeCloseTo(-1, 5);
+    }
+    expect(Array.from(geometry.uvs!)).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it("should share computed normals across UV seams and keep given ones", () => {
+    const { geometry } = parseOBJ(`
+      v 0 0 0
+      v 0 1 0
+      v 1 0 1
+      v -1 0 1
+      v 1 1 1
+      vt 0 0
+      vt 0 1
+      vt 1 0
+      vt 0.5 0
+      vt 0.5 1
+      vt 1 1
+      vn 0 0 1
+      f 1/1 2/2 3/3
+      f 1/4 4/5 2/6
+      f 3/1/1 2/2/1 5/3/1
+    `).groups[0];
+    const normalAt = (vertex: number) =>
+      Array.from(geometry.normals.subarray(vertex * 3, vertex * 3 + 3));
+
+    // Vertices 0 and 3 share position 1 but not its texture coordinate
+    for (const vertex of [0, 3]) {
+      const [x, y, z] = normalAt(vertex);
+      expect(x).toBeCloseTo(0, 5);
+      expect(y).toBeCloseTo(0, 5);
+      expect(z).toBeCloseTo(-1, 5);
+    }
+    for (const vertex of [6, 7, 8]) {
+      expect(normalAt(vertex)).toEqual([0, 0, 1]);
+    }
+  });
+
+  it("should split faces into groups by name and material", () => {
+    const { groups } = parseOBJ(`
+      v 0 0 0
+      v 1 0 0
+      v 0 1 0
+      v 1 1 0
+      o Body
+      f 1 2 3
+      g Left
+      usemtl A
+      f 1 2 3
+      usemtl B
+      f 2 4 3
+      o Head
+      f 2 4 3
+      g Left
+      usemtl A
+      f 2 4 3
+    `);
+
+    expect(groups.map((group) => [group.name, group.material])).toEqual([
+      ["Body", undefined],
+      ["Left", "A"],
+      ["Left", "B"],
+      ["Head", "B"],
+    ]);
+    // Returning to a group and material appends to the earlier group
+    expect(groups[1].geometry.indexCount).toBe(6);
+    expect(groups[1].geometry.vertexCount).toBe(4);
+  });
+
+  it("should ignore comments, unsupported statements and extra components", () => {
+    const { groups } = parseOBJ(`
+      # comment
+      v 0 0 0 1 0 0
+      v 1 0 0 # trailing comment
+      v 0 1 0
+      s 1
+      l 1 2
+      f 1// \\
+        2// 3//
+    `);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].geometry.indexCount).toBe(3);
+  });
+
+  it("should throw for out-of-range indices", () => {
+    expect(() => parseOBJ("v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 4")).toThrow(
+      "Invalid vertex index 4 on line 4 (3 defined)"
+    );
+    expect(() => parseOBJ("v 0 0 0\nf 1 -2 1")).toThrow(
+      "Invalid vertex index -2 on line 2 (1 defined)"
+    );
+  });
+
+  it("should throw for malformed statements", () => {
+    expect(() => parseOBJ("v 0 zero 0")).toThrow(OBJLoaderError);
+    expect(() => parseOBJ("v 0 0 0\nf 1 1")).toThrow(
+      "Face on line 2 has fewer than 3 vertices"
+    );
+  });
+});
+
+describe("parseMTL", () => {
+  it("should parse colors, shininess and opacity", () => {
+    const materials = parseMTL(`
+      newmtl Red
+      Kd 1 0 0
+      Ns 64
+      d 0.5
+      newmtl Glass
+      Tr 0.75
+    `);
+
+    expect(materials.get("Red")).toEqual({
+      name: "Red",
+      color: [1, 0, 0],
+      shininess: 64,
+      opacity: 0.5,
+    });
+    expect(materials.get("Glass")!.opacity).toBe(0.25);
+  });
+
+  it("should parse texture maps and skip their options", () => {
+    const materials = parseMTL(`
+      newmtl Brick
+      map_Kd -s 2 2 1 -clamp on textures\\brick color.png
+      map_Bump -bm 0.5 brick_normal.png
+    `);
+
+    const brick = materials.get("Brick")!;
+    expect(brick.map).toBe("textures/brick color.png");
+    expect(brick.normalMap).toBe("brick_normal.png");
+    expect(brick.normalScale).toBe(0.5);
+  });
+
+  it("should throw for statements before newmtl", () => {
+    expect(() => parseMTL("Kd 1 1 1")).toThrow(
+      'MTL statement "Kd" on line 1 appears before newmtl'
+    );
+  });
+});
+
+describe("OBJLoader", () => {
+  const originalCreateImageBitmap = globalThis.createImageBitmap;
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    (globalThis as any).GPUTextureUsage ??= {
+      COPY_DST: 0x02,
+      TEXTURE_BINDING: 0x04,
+      RENDER_ATTACHMENT: 0x10,
+    };
+    (globalThis as any).createImageBitmap = mock(async () => ({
+      width: 1,
+      height: 1,
+      close: mock(() => {}),
+    }));
+  });
+
+  afterEach(() => {
+    globalThis.createImageBitmap = originalCreateImageBitmap;
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("fromString", () => {
+    it("should create named meshes under a root object", async () => {
+      const obj = await OBJLoader.fromString(createMockDevice(), QUAD, {
+        loadMaterials: false,
+      });
+
+      expect(obj.meshes).toHaveLength(1);
+      expect(obj.meshes[0].name).toBe("Quad");
+      expect(obj.meshes[0].parent).toBe(obj.object);
+      expect(obj.meshes[0].material).toBeInstanceOf(BlinnPhongMaterial);
+    });
+
+    it("should create BlinnPhongMaterial from MTL colors", async () => {
+      const obj = await OBJLoader.fromString(createMockDevice(), QUAD, {
+        mtl: "newmtl Red\nKd 1 0 0\nNs 1000\nd 0.5",
+      });
+
+      const material = obj.materials.get("Red") as BlinnPhongMaterial;
+      expect(obj.meshes[0].material).toBe(material);
+      expect(material.color.toArray()).toEqual([1, 0, 0]);
+      expect(material.shininess).toBe(256);
+      expect(material.opacity).toBe(0.5);
+      expect(material.transparent).toBe(true);
+    });
+
+    it("should create TextureMaterial for diffuse maps", async () => {
+      const fetchMock = mock(
+        async () =>
+          new Response(new Blob([new Uint8Array(4)], { type: "image/png" }))
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const obj = await OBJLoader.fromString(createMockDevice(), QUAD, {
+        mtl: "newmtl Red\nmap_Kd red.png",
+        baseUrl: "models/",
+        generateMipmaps: false,
+      });
+
+      const material = obj.materials.get("Red");
+      expect(material).toBeInstanceOf(TextureMaterial);
+      expect((material as TextureMaterial).texture.format).toBe(
+        "rgba8unorm-srgb"
+      );
+      expect(fetchMock).toHaveBeenCalledWith("models/red.png");
+    });
+
+    it("should use a default material for undefined materials", async () => {
+      const warn = mock(() => {});
+      const originalWarn = console.warn;
+      console.warn = warn;
+
+      try {
+        const obj = await OBJLoader.fromString(createMockDevice(), QUAD, {
+          mtl: "newmtl Blue\nKd 0 0 1",
+        });
+
+        expect(obj.meshes[0].material).toBeInstanceOf(BlinnPhongMaterial);
+        expect(obj.meshes[0].material).not.toBe(obj.materials.get("Blue"));
+        expect(warn).toHaveBeenCalledTimes(1);
+      } finally {
+        console.warn = originalWarn;
+      }
+    });
+  });
+
+  describe("fromURL", () => {
+    it("should fetch the material libraries next to the OBJ file", async () => {
+      const fetchMock = mock(
+        async (url: string) =>
+          new Response(
+            url.endsWith(".mtl") ? "newmtl Red\nKd 1 0 0" : QUAD
+          )
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const obj = await OBJLoader.fromURL(
+        createMockDevice(),
+        "assets/quad.obj"
+      );
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        "assets/quad.obj",
+        "assets/quad.mtl",
+      ]);
+      expect(obj.meshes[0].material).toBe(obj.materials.get("Red")!);
+    });
+
+    it("should throw OBJLoaderError when the file cannot be fetched", async () => {
+      globalThis.fetch = mock(
+        async () => new Response(null, { status: 404, statusText: "Not Found" })
+      ) as unknown as typeof fetch;
+
+      await expect(
+        OBJLoader.fromURL(createMockDevice(), "missing.obj")
+      ).rejects.toThrow("Failed to fetch missing.obj: 404 Not Found");
+    });
+  });
+
+  describe("isOBJFile", () => {
+    it("should detect the .obj extension", () => {
+      expect(OBJLoader.isOBJFile("models/statue.OBJ?v=1")).toBe(true);
+      expect(OBJLoader.isOBJFile("statue.mtl")).toBe(false);
+      expect(OBJLoader.isOBJFile("")).toBe(false);
+    });
+  });
+});
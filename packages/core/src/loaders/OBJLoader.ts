@@ -0,0 +1,712 @@
+/**
+ * Wavefront OBJ and MTL loader.
+ *
+ * parseOBJ and parseMTL are pure functions on the file contents;
+ * OBJLoader builds meshes and materials from their results.
+ *
+ * @module OBJLoader
+ */
+
+import { BufferGeometry } from "../geometry/BufferGeometry";
+import { createIndexArray } from "../geometry/Geometry";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import type { MaterialBlendingOptions } from "../material/Material";
+import { TextureMaterial } from "../material/TextureMaterial";
+import { Mesh } from "../scene/Mesh";
+import { Object3D } from "../scene/Object3D";
+import { Texture } from "../texture/Texture";
+
+/** Number of arguments taken by each texture map option in MTL files */
+const MAP_OPTION_ARITY: Record<string, number> = {
+  "-blendu": 1,
+  "-blendv": 1,
+  "-bm": 1,
+  "-boost": 1,
+  "-cc": 1,
+  "-clamp": 1,
+  "-imfchan": 1,
+  "-mm": 2,
+  "-o": 3,
+  "-s": 3,
+  "-t": 3,
+  "-texres": 1,
+  "-type": 1,
+};
+
+/** Valid range of BlinnPhongMaterial shininess */
+const MIN_SHININESS = 1;
+const MAX_SHININESS = 256;
+
+/**
+ * A run of faces sharing one group name and material.
+ */
+export interface OBJGroup {
+  /** Group name from `g`, or the object name from `o` when no group is set */
+  name: string;
+  /** Material name from `usemtl`, if any */
+  material?: string;
+  /** Triangulated faces; UVs are zero for vertices without texture coordinates */
+  geometry: BufferGeometry;
+}
+
+/**
+ * Result of parsing an OBJ file.
+ */
+export interface OBJData {
+  /** Face groups in order of first appearance */
+  groups: OBJGroup[];
+  /** MTL files referenced with `mtllib` */
+  materialLibraries: string[];
+}
+
+/**
+ * A material definition parsed from an MTL file.
+ */
+export interface MTLMaterial {
+  name: string;
+  /** Diffuse color (Kd) */
+  color?: [number, number, number];
+  /** Specular exponent (Ns) */
+  shininess?: number;
+  /** Opacity (d, or 1 - Tr) */
+  opacity?: number;
+  /** Diffuse texture path (map_Kd) */
+  map?: string;
+  /** Normal map path (norm, map_Bump or bump) */
+  normalMap?: string;
+  /** Normal map intensity (-bm option of the normal map) */
+  normalScale?: number;
+}
+
+export interface OBJLoaderOptions {
+  /** Base URL that material libraries and textures are resolved against (default: the directory of the loaded URL) */
+  baseUrl?: string;
+  /** Load the MTL files referenced by `mtllib` (default: true) */
+  loadMaterials?: boolean;
+  /** MTL file contents to use instead of fetching the referenced material libraries */
+  mtl?: string;
+  /** Generate mipmaps for loaded textures (default: true) */
+  generateMipmaps?: boolean;
+}
+
+/** Material created from an MTL definition */
+export type OBJMaterial = BlinnPhongMaterial | TextureMaterial;
+
+/**
+ * Result of loading an OBJ file.
+ */
+export interface OBJ {
+  /** Root object holding one Mesh per group */
+  object: Object3D;
+  /** Meshes created for the groups, in the order of OBJData.groups */
+  meshes: Mesh[];
+  /** Materials created from the MTL definitions, by material name */
+  materials: Map<string, OBJMaterial>;
+}
+
+/**
+ * Error thrown when OBJ or MTL loading or parsing fails.
+ */
+export class OBJLoaderError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "OBJLoaderError";
+  }
+}
+
+/**
+ * Accumulates the vertices of one group, sharing vertices that reuse
+ * the same position, texture coordinate and normal indices.
+ */
+interface GroupBuilder {
+  name: string;
+  material?: string;
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  indices: number[];
+  vertices: Map<string, number>;
+  /** OBJ position index of each vertex */
+  sourcePositions: number[];
+  /** Vertices without a normal, whose normals are computed */
+  missingNormals: number[];
+}
+
+/**
+ * Parses the contents of a Wavefront OBJ file.
+ *
+ * Reads `v`, `vt`, `vn`, `f`, `o`, `g`, `usemtl` and `mtllib`; other statements are ignored.
+ * Faces with more than three vertices are fan-triangulated and negative (relative) indices
+ * are resolved. Vertices without normals get smooth normals computed from the faces of
+ * their group, shared by all vertices at the same OBJ position.
+ *
+ * @param text - OBJ file contents
+ * @returns The face groups and referenced material libraries
+ * @throws {OBJLoaderError} If a statement is malformed or an index is out of range
+ *
+ * @example
+ * ```ts
+ * const { groups } = parseOBJ("v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3");
+ * const mesh = new Mesh(groups[0].geometry, new BlinnPhongMaterial());
+ * ```
+ */
+export function parseOBJ(text: string): OBJData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const materialLibraries: string[] = [];
+  const builders = new Map<string, GroupBuilder>();
+
+  let objectName = "";
+  let groupName = "";
+  let material: string | undefined;
+  let current: GroupBuilder | undefined;
+
+  const getBuilder = (): GroupBuilder => {
+    if (!current) {
+      const name = groupName || objectName;
+      const key = `${name}\n${material ?? ""}`;
+      current = builders.get(key);
+      if (!current) {
+        current = {
+          name,
+          material,
+          positions: [],
+          normals: [],
+          uvs: [],
+          indices: [],
+          vertices: new Map(),
+          sourcePositions: [],
+          missingNormals: [],
+        };
+        builders.set(key, current);
+      }
+    }
+    return current;
+  };
+
+  const addVertex = (
+    builder: GroupBuilder,
+    corner: string,
+    lineNumber: number
+  ): number => {
+    const [v, vt, vn] = corner.split("/");
+    const position = resolveIndex(
+      v,
+      positions.length / 3,
+      "vertex",
+      lineNumber
+    );
+    const uv = vt
+      ? resolveIndex(vt, uvs.length / 2, "texture coordinate", lineNumber)
+      : -1;
+    const normal = vn
+      ? resolveIndex(vn, normals.length / 3, "normal", lineNumber)
+      : -1;
+
+    const key = `${position}/${uv}/${normal}`;
+    let index = builder.vertices.get(key);
+    if (index === undefined) {
+      index = builder.positions.length / 3;
+      builder.vertices.set(key, index);
+      builder.sourcePositions.push(position);
+      builder.positions.push(
+        ...positions.slice(position * 3, position * 3 + 3)
+      );
+      builder.uvs.push(...(uv >= 0 ? uvs.slice(uv * 2, uv * 2 + 2) : [0, 0]));
+      if (normal >= 0) {
+        builder.normals.push(...normals.slice(normal * 3, normal * 3 + 3));
+      } else {
+        builder.normals.push(0, 0, 0);
+        builder.missingNormals.push(index);
+      }
+    }
+    return index;
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const lineNumber = lineIndex + 1;
+    let rawLine = lines[lineIndex];
+    // A trailing backslash continues the statement on the next line
+    while (rawLine.endsWith("\\") && lineIndex + 1 < lines.length) {
+      rawLine = rawLine.slice(0, -1) + " " + lines[++lineIndex];
+    }
+    const line = rawLine.split("#")[0].trim();
+    if (line.length === 0) continue;
+
+    const [keyword, ...args] = line.split(/\s+/);
+    switch (keyword) {
+      case "v":
+        positions.push(...parseNumbers(args, 3, 3, keyword, lineNumber));
+        break;
+      case "vn":
+        normals.push(...parseNumbers(args, 3, 3, keyword, lineNumber));
+        break;
+      case "vt": {
+        const [u, v = 0] = parseNumbers(args, 1, 2, keyword, lineNumber);
+        // OBJ puts the texture origin at the bottom left, WebGPU at the top left
+        uvs.push(u, 1 - v);
+        break;
+      }
+      case "f": {
+        if (args.length < 3) {
+          throw new OBJLoaderError(
+            `Face on line ${lineNumber} has fewer than 3 vertices`
+          );
+        }
+        const builder = getBuilder();
+        const corners = args.map((corner) =>
+          addVertex(builder, corner, lineNumber)
+        );
+        for (let i = 1; i + 1 < corners.length; i++) {
+          builder.indices.push(corners[0], corners[i], corners[i + 1]);
+        }
+        break;
+      }
+      case "o":
+        objectName = args.join(" ");
+        groupName = "";
+        current = undefined;
+        break;
+      case "g":
+        groupName = args.join(" ");
+        current = undefined;
+        break;
+      case "usemtl":
+        material = args.join(" ") || undefined;
+        current = undefined;
+        break;
+      case "mtllib":
+        materialLibraries.push(...args);
+        break;
+    }
+  }
+
+  const groups = [...builders.values()].map((builder) => {
+    fillMissingNormals(builder, positions);
+    return {
+      name: builder.name,
+      material: builder.material,
+      geometry: new BufferGeometry({
+        positions: new Float32Array(builder.positions),
+        normals: new Float32Array(builder.normals),
+        indices: createIndexArray(builder.indices),
+        uvs: new Float32Array(builder.uvs),
+      }),
+    };
+  });
+
+  return { groups, materialLibraries };
+}
+
+/**
+ * Parses the contents of a Wavefront MTL file.
+ *
+ * Reads `newmtl`, `Kd`, `Ns`, `d`, `Tr`, `map_Kd` and `norm`/`map_Bump`/`bump`;
+ * other statements are ignored. Texture map options are skipped except `-bm`.
+ *
+ * @param text - MTL file contents
+ * @returns The material definitions, by material name
+ * @throws {OBJLoaderError} If a statement is malformed or appears before `newmtl`
+ */
+export function parseMTL(text: string): Map<string, MTLMaterial> {
+  const materials = new Map<string, MTLMaterial>();
+  let current: MTLMaterial | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const lineNumber = lineIndex + 1;
+    const line = rawLine.split("#")[0].trim();
+    if (line.length === 0) return;
+
+    const [statement, ...args] = line.split(/\s+/);
+    const keyword = statement.toLowerCase();
+    if (keyword === "newmtl") {
+      current = { name: args.join(" ") };
+      materials.set(current.name, current);
+      return;
+    }
+    if (!current) {
+      throw new OBJLoaderError(
+        `MTL statement "${statement}" on line ${lineNumber} appears before newmtl`
+      );
+    }
+
+    switch (keyword) {
+      case "kd": {
+        const [r, g, b] = parseNumbers(args, 3, 3, statement, lineNumber);
+        current.color = [r, g, b];
+        break;
+      }
+      case "ns":
+        current.shininess = parseNumbers(args, 1, 1, statement, lineNumber)[0];
+        break;
+      case "d":
+        current.opacity = parseNumbers(args, 1, 1, statement, lineNumber)[0];
+        break;
+      case "tr":
+        current.opacity =
+          1 - parseNumbers(args, 1, 1, statement, lineNumber)[0];
+        break;
+      case "map_kd":
+        current.map = parseMapStatement(args, statement, lineNumber).path;
+        break;
+      case "norm":
+      case "map_bump":
+      case "bump": {
+        const { path, bumpMultiplier } = parseMapStatement(
+          args,
+          statement,
+          lineNumber
+        );
+        current.normalMap = path;
+        current.normalScale = bumpMultiplier;
+        break;
+      }
+    }
+  });
+
+  return materials;
+}
+
+/**
+ * Loads Wavefront OBJ files with their MTL materials.
+ *
+ * Each group becomes a Mesh under a shared root Object3D. Materials with a diffuse texture
+ * become TextureMaterial; the others become BlinnPhongMaterial with the diffuse color,
+ * shininess and normal map. Groups without a known material share a default BlinnPhongMaterial.
+ *
+ * @example
+ * ```ts
+ * const obj = await OBJLoader.fromURL(device, "models/statue.obj");
+ * scene.add(obj.object);
+ *
+ * // Offline, from file contents
+ * const obj = await OBJLoader.fromString(device, objText, { mtl: mtlText });
+ * ```
+ */
+export class OBJLoader {
+  /**
+   * Loads an OBJ file and its material libraries from a URL.
+   * @param device - WebGPU device used to create textures
+   * @param url - URL to the .obj file
+   * @param options - Loading options
+   * @returns Promise resolving to the loaded object, meshes and materials
+   * @throws {OBJLoaderError} If loading or parsing fails
+   */
+  static async fromURL(
+    device: GPUDevice,
+    url: string,
+    options: OBJLoaderOptions = {}
+  ): Promise<OBJ> {
+    if (!url || typeof url !== "string" || url.trim().length === 0) {
+      throw new OBJLoaderError("Valid URL string is required");
+    }
+
+    const text = await fetchText(url);
+    return this.fromString(device, text, {
+      ...options,
+      baseUrl: options.baseUrl ?? url.slice(0, url.lastIndexOf("/") + 1),
+    });
+  }
+
+  /**
+   * Builds meshes from OBJ file contents. Material libraries are taken from options.mtl,
+   * or fetched relative to options.baseUrl when options.loadMaterials is not false.
+   * @param device - WebGPU device used to create textures
+   * @param text - OBJ file contents
+   * @param options - Loading options
+   * @returns Promise resolving to the loaded object, meshes and materials
+   * @throws {OBJLoaderError} If parsing fails or a texture cannot be loaded
+   */
+  static async fromString(
+    device: GPUDevice,
+    text: string,
+    options: OBJLoaderOptions = {}
+  ): Promise<OBJ> {
+    const data = parseOBJ(text);
+    const definitions = await loadMaterialDefinitions(data, options);
+
+    const materials = new Map<string, OBJMaterial>();
+    for (const definition of definitions.values()) {
+      materials.set(
+        definition.name,
+        await createMaterial(device, definition, options)
+      );
+    }
+
+    let defaultMaterial: BlinnPhongMaterial | undefined;
+    const object = new Object3D();
+    const meshes = data.groups.map((group) => {
+      let material =
+        group.material !== undefined
+          ? materials.get(group.material)
+          : undefined;
+      // Without any definitions (loadMaterials: false, or a missing library) this is expected
+      if (group.material !== undefined && !material && definitions.size > 0) {
+        console.warn(
+          `[OBJLoader] Material "${group.material}" is not defined; using a default material.`
+        );
+      }
+      material ??= defaultMaterial ??= new BlinnPhongMaterial();
+
+      const mesh = new Mesh(group.geometry, material);
+      mesh.name = group.name;
+      object.add(mesh);
+      return mesh;
+    });
+
+    return { object, meshes, materials };
+  }
+
+  /**
+   * Checks if a URL points to an OBJ file based on extension.
+   * @param url - The URL to check
+   * @returns True if the URL has a .obj extension
+   */
+  static isOBJFile(url: string): boolean {
+    if (!url || typeof url !== "string") {
+      return false;
+    }
+    const cleanUrl = url.split("?")[0].split("#")[0].toLowerCase();
+    return cleanUrl.endsWith(".obj");
+  }
+}
+
+/**
+ * Resolves a 1-based (or negative, relative) OBJ index to a 0-based index.
+ */
+function resolveIndex(
+  value: string,
+  count: number,
+  kind: string,
+  lineNumber: number
+): number {
+  const index = Number(value);
+  const resolved = index < 0 ? count + index : index - 1;
+  if (!Number.isInteger(index) || resolved < 0 || resolved >= count) {
+    throw new OBJLoaderError(
+      `Invalid ${kind} index ${value} on line ${lineNumber} (${count} defined)`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Gives the vertices of a group that lack a normal the area-weighted normal of every
+ * group triangle sharing their OBJ position, so vertices split by texture coordinates
+ * (UV seams) still get the same normal.
+ */
+function fillMissingNormals(builder: GroupBuilder, positions: number[]): void {
+  if (builder.missingNormals.length === 0) return;
+
+  const { indices, sourcePositions } = builder;
+  const accumulated = new Map<number, [number, number, number]>();
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const corners = [
+      sourcePositions[indices[i]],
+      sourcePositions[indices[i + 1]],
+      sourcePositions[indices[i + 2]],
+    ];
+    const [a, b, c] = corners.map((position) => position * 3);
+
+    const e1x = positions[b] - positions[a];
+    const e1y = positions[b + 1] - positions[a + 1];
+    const e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a];
+    const e2y = positions[c + 1] - positions[a + 1];
+    const e2z = positions[c + 2] - positions[a + 2];
+
+    // Cross product length is twice the triangle area
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+
+    for (const position of corners) {
+      const normal = accumulated.get(position) ?? [0, 0, 0];
+      normal[0] += nx;
+      normal[1] += ny;
+      normal[2] += nz;
+      accumulated.set(position, normal);
+    }
+  }
+
+  for (const vertex of builder.missingNormals) {
+    const [x, y, z] = accumulated.get(sourcePositions[vertex]) ?? [0, 0, 0];
+    const length = Math.hypot(x, y, z);
+    if (length > 0) {
+      builder.normals.splice(vertex * 3, 3, x / length, y / length, z / length);
+    }
+  }
+}
+
+/**
+ * Parses between min and max numeric arguments, ignoring any beyond max
+ * (e.g. the vertex colors some exporters append to `v`).
+ */
+function parseNumbers(
+  args: string[],
+  min: number,
+  max: number,
+  keyword: string,
+  lineNumber: number
+): number[] {
+  const values = args.slice(0, max).map(Number);
+  if (values.length < min || values.some((value) => !Number.isFinite(value))) {
+    throw new OBJLoaderError(
+      `Invalid "${keyword}" statement on line ${lineNumber}`
+    );
+  }
+  return values;
+}
+
+/**
+ * Splits an MTL texture map statement into its path and bump multiplier, skipping other options.
+ */
+function parseMapStatement(
+  args: string[],
+  keyword: string,
+  lineNumber: number
+): { path: string; bumpMultiplier?: number } {
+  let bumpMultiplier: number | undefined;
+  let i = 0;
+
+  while (i < args.length && MAP_OPTION_ARITY[args[i]] !== undefined) {
+    const option = args[i++];
+    if (option === "-bm") {
+      bumpMultiplier = Number(args[i]);
+    }
+    // -o, -s and -t take one to three numbers
+    const variadic = option === "-o" || option === "-s" || option === "-t";
+    for (let n = 0; n < MAP_OPTION_ARITY[option] && i < args.length; n++) {
+      if (variadic && n > 0 && isNaN(Number(args[i]))) break;
+      i++;
+    }
+  }
+
+  const path = args.slice(i).join(" ").replace(/\\/g, "/");
+  if (path.length === 0) {
+    throw new OBJLoaderError(
+      `"${keyword}" statement on line ${lineNumber} has no texture path`
+    );
+  }
+  return { path, bumpMultiplier };
+}
+
+async function loadMaterialDefinitions(
+  data: OBJData,
+  options: OBJLoaderOptions
+): Promise<Map<string, MTLMaterial>> {
+  if (options.mtl !== undefined) {
+    return parseMTL(options.mtl);
+  }
+  if (options.loadMaterials === false) {
+    return new Map();
+  }
+
+  const definitions = new Map<string, MTLMaterial>();
+  for (const library of data.materialLibraries) {
+    const url = resolveUri(library, options);
+    let text: string;
+    try {
+      text = await fetchText(url);
+    } catch (error) {
+      // Legacy assets often reference material libraries that were not shipped
+      console.warn(
+        `[OBJLoader] Material library ${url} could not be loaded; using default materials.`,
+        error
+      );
+      continue;
+    }
+    parseMTL(text).forEach((definition, name) =>
+      definitions.set(name, definition)
+    );
+  }
+  return definitions;
+}
+
+async function createMaterial(
+  device: GPUDevice,
+  definition: MTLMaterial,
+  options: OBJLoaderOptions
+): Promise<OBJMaterial> {
+  const opacity = definition.opacity ?? 1;
+  const blending: MaterialBlendingOptions = {
+    opacity,
+    transparent: opacity < 1,
+  };
+
+  if (definition.map) {
+    return new TextureMaterial({
+      ...blending,
+      texture: await loadTexture(device, definition.map, true, options),
+    });
+  }
+
+  return new BlinnPhongMaterial({
+    ...blending,
+    color: definition.color,
+    shininess:
+      definition.shininess !== undefined
+        ? Math.min(
+            Math.max(definition.shininess, MIN_SHININESS),
+            MAX_SHININESS
+          )
+        : undefined,
+    normalMap: definition.normalMap
+      ? await loadTexture(device, definition.normalMap, false, options)
+      : undefined,
+    normalScale: definition.normalScale,
+  });
+}
+
+async function loadTexture(
+  device: GPUDevice,
+  path: string,
+  srgb: boolean,
+  options: OBJLoaderOptions
+): Promise<Texture> {
+  const url = resolveUri(path, options);
+  try {
+    return await Texture.fromURL(device, url, {
+      srgb,
+      generateMipmaps: options.generateMipmaps,
+    });
+  } catch (error) {
+    throw new OBJLoaderError(
+      `Failed to load texture ${url}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error
+    );
+  }
+}
+
+function resolveUri(uri: string, options: OBJLoaderOptions): string {
+  // Absolute URLs and root-relative paths are used as is
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri) || uri.startsWith("/")) {
+    return uri;
+  }
+  return (options.baseUrl ?? "") + uri;
+}
+
+async function fetchText(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new OBJLoaderError(
+      `Network error while fetching ${url}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error
+    );
+  }
+
+  if (!response.ok) {
+    throw new OBJLoaderError(
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+  return response.text();
+}
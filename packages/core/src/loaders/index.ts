@@ -0,0 +1,18 @@
+export {
+  GLTFLoader,
+  GLTFLoaderError,
+  type GLTF,
+  type GLTFLoaderOptions,
+} from "./GLTFLoader";
+export {
+  OBJLoader,
+  OBJLoaderError,
+  parseOBJ,
+  parseMTL,
+  type OBJ,
+  type OBJData,
+  type OBJGroup,
+  type OBJLoaderOptions,
+  type OBJMaterial,
+  type MTLMaterial,
+} from "./OBJLoader";
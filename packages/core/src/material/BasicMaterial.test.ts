@@ -31,6 +31,37 @@ describe("BasicMaterial", () => {
       const material = new BasicMaterial();
       expect(material.type).toBe("basic");
     });
+
+    it("should default to opaque render state", () => {
+      const material = new BasicMaterial();
+      expect(material.transparent).toBe(false);
+      expect(material.opacity).toBe(1.0);
+      expect(material.blending).toBe("normal");
+      expect(material.depthWrite).toBe(true);
+      expect(material.depthTest).toBe(true);
+    });
+
+    it("should initialize blending options", () => {
+      const material = new BasicMaterial({
+        transparent: true,
+        opacity: 0.5,
+        blending: "additive",
+        depthWrite: false,
+        depthTest: false,
+      });
+      expect(material.transparent).toBe(true);
+      expect(material.opacity).toBe(0.5);
+      expect(material.blending).toBe("additive");
+      expect(material.depthWrite).toBe(false);
+      expect(material.depthTest).toBe(false);
+    });
+
+    it("should copy render state options", () => {
+      const renderState = { side: "front" as const, depthBias: -1 };
+      const material = new BasicMaterial({ renderState });
+      renderState.depthBias = -4;
+      expect(material.renderState).toEqual({ side: "front", depthBias: -1 });
+    });
   });
 
   describe("getVertexBufferLayout", () => {
@@ -85,9 +116,10 @@ describe("BasicMaterial", () => {
 
       material.writeUniformData(dataView);
 
-      expect(dataView.getFloat32(64, true)).toBeCloseTo(0.1);
-      expect(dataView.getFloat32(68, true)).toBeCloseTo(0.2);
-      expect(dataView.getFloat32(72, true)).toBeCloseTo(0.3);
+      // RGB is decoded from sRGB to linear
+      expect(dataView.getFloat32(64, true)).toBeCloseTo(Math.pow(0.1, 2.2));
+      expect(dataView.getFloat32(68, true)).toBeCloseTo(Math.pow(0.2, 2.2));
+      expect(dataView.getFloat32(72, true)).toBeCloseTo(Math.pow(0.3, 2.2));
       expect(dataView.getFloat32(76, true)).toBeCloseTo(1.0);
     });
 
@@ -98,11 +130,24 @@ describe("BasicMaterial", () => {
 
       material.writeUniformData(dataView, 96);
 
-      expect(dataView.getFloat32(96, true)).toBeCloseTo(0.5);
-      expect(dataView.getFloat32(100, true)).toBeCloseTo(0.6);
-      expect(dataView.getFloat32(104, true)).toBeCloseTo(0.7);
+      // RGB is decoded from sRGB to linear
+      expect(dataView.getFloat32(96, true)).toBeCloseTo(Math.pow(0.5, 2.2));
+      expect(dataView.getFloat32(100, true)).toBeCloseTo(Math.pow(0.6, 2.2));
+      expect(dataView.getFloat32(104, true)).toBeCloseTo(Math.pow(0.7, 2.2));
       expect(dataView.getFloat32(108, true)).toBeCloseTo(1.0);
     });
+
+    it("should multiply color alpha by opacity", () => {
+      const material = new BasicMaterial({
+        color: new Color(1, 1, 1, 0.8),
+        opacity: 0.5,
+      });
+      const dataView = new DataView(new ArrayBuffer(80));
+
+      material.writeUniformData(dataView);
+
+      expect(dataView.getFloat32(76, true)).toBeCloseTo(0.4);
+    });
   });
 
   describe("shader methods", () => {
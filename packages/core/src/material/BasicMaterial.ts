@@ -1,11 +1,19 @@
 import { Color } from "@web-real/math";
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 
-export interface BasicMaterialOptions {
+export interface BasicMaterialOptions extends MaterialBlendingOptions {
   color?: [number, number, number] | Color;
 }
 
+export interface BasicMaterial extends MaterialBlending {}
+
 /**
  * Basic material for rendering solid-colored geometry with normals.
  * Uses "triangle-list" primitive topology.
@@ -19,6 +27,8 @@ export interface BasicMaterialOptions {
  */
 export class BasicMaterial implements Material {
   readonly type = "basic";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
   /** RGBA color (Color instance, 0-1 range) */
   readonly color: Color;
 
@@ -27,6 +37,8 @@ export class BasicMaterial implements Material {
    * @param options - Configuration options (default: white color)
    */
   constructor(options: BasicMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     this.color = options.color
       ? Color.from(options.color)
       : new Color(1.0, 1.0, 1.0);
@@ -98,14 +110,16 @@ export class BasicMaterial implements Material {
   }
 
   /**
-   * Writes color to the uniform buffer.
+   * Writes color to the uniform buffer, decoded from sRGB to linear, with the
+   * opacity multiplied into alpha.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (color at offset+0)
    */
   private _writeColor(buffer: DataView, offset: number): void {
-    buffer.setFloat32(offset, this.color.r, true);
-    buffer.setFloat32(offset + 4, this.color.g, true);
-    buffer.setFloat32(offset + 8, this.color.b, true);
-    buffer.setFloat32(offset + 12, this.color.a, true);
+    const color = this.color.toLinear();
+    buffer.setFloat32(offset, color.r, true);
+    buffer.setFloat32(offset + 4, color.g, true);
+    buffer.setFloat32(offset + 8, color.b, true);
+    buffer.setFloat32(offset + 12, this.color.a * this.opacity, true);
   }
 }
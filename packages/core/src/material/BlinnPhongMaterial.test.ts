@@ -1,9 +1,10 @@
 import { describe, it, expect, beforeAll } from "bun:test";
-import { Color, Vector3 } from "@web-real/math";
+import { Color, Matrix4, Vector3 } from "@web-real/math";
 
 import { BlinnPhongMaterial } from "./BlinnPhongMaterial";
 import { DirectionalLight } from "../light/DirectionalLight";
 import { PointLight } from "../light/PointLight";
+import { SpotLight } from "../light/SpotLight";
 import type { RenderContext } from "./Material";
 
 describe("BlinnPhongMaterial", () => {
@@ -423,10 +424,10 @@ describe("BlinnPhongMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 304 bytes", () => {
+    it("should return 256 bytes", () => {
       const material = new BlinnPhongMaterial();
 
-      expect(material.getUniformBufferSize()).toBe(304);
+      expect(material.getUniformBufferSize()).toBe(256);
     });
   });
 
@@ -477,9 +478,10 @@ describe("BlinnPhongMaterial", () => {
       material.writeUniformData(dataView);
 
       // Color at offset 192 (64 + 128)
-      expect(dataView.getFloat32(192, true)).toBeCloseTo(0.5, 5);
-      expect(dataView.getFloat32(196, true)).toBeCloseTo(0.6, 5);
-      expect(dataView.getFloat32(200, true)).toBeCloseTo(0.7, 5);
+      // RGB is decoded from sRGB to linear
+      expect(dataView.getFloat32(192, true)).toBeCloseTo(Math.pow(0.5, 2.2), 5);
+      expect(dataView.getFloat32(196, true)).toBeCloseTo(Math.pow(0.6, 2.2), 5);
+      expect(dataView.getFloat32(200, true)).toBeCloseTo(Math.pow(0.7, 2.2), 5);
       expect(dataView.getFloat32(204, true)).toBeCloseTo(64, 5);
     });
 
@@ -492,137 +494,68 @@ describe("BlinnPhongMaterial", () => {
 
       material.writeUniformData(dataView);
 
-      // Displacement params at offset 288 (64 + 224)
-      expect(dataView.getFloat32(288, true)).toBeCloseTo(2.5, 5);
-      expect(dataView.getFloat32(292, true)).toBeCloseTo(-0.3, 5);
-      expect(dataView.getFloat32(296, true)).toBeCloseTo(1.8, 5);
+      // Displacement params at offset 224 (64 + 160)
+      expect(dataView.getFloat32(224, true)).toBeCloseTo(2.5, 5);
+      expect(dataView.getFloat32(228, true)).toBeCloseTo(-0.3, 5);
+      expect(dataView.getFloat32(232, true)).toBeCloseTo(1.8, 5);
     });
 
-    it("should write default light when no context provided", () => {
+    it("should write camera position and receiveShadow flag", () => {
       const material = new BlinnPhongMaterial();
-
-      material.writeUniformData(dataView);
-
-      // Default directional light direction at offset 208
-      expect(dataView.getFloat32(208, true)).toBe(0);
-      expect(dataView.getFloat32(212, true)).toBe(-1);
-      expect(dataView.getFloat32(216, true)).toBe(0);
-
-      // Default light color at offset 224
-      expect(dataView.getFloat32(224, true)).toBe(1);
-      expect(dataView.getFloat32(228, true)).toBe(1);
-      expect(dataView.getFloat32(232, true)).toBe(1);
-      expect(dataView.getFloat32(236, true)).toBe(1);
-    });
-
-    it("should write DirectionalLight data correctly", () => {
-      const material = new BlinnPhongMaterial();
-      const light = new DirectionalLight(
-        new Vector3(1, -1, 0),
-        new Color(1, 0.5, 0.3),
-        0.8
-      );
+      const camera = { worldMatrix: Matrix4.translation(new Vector3(1, 2, 3)) };
 
       const mockContext: Partial<RenderContext> = {
-        lights: [light],
+        camera: camera as any,
+        mesh: { receiveShadow: true, worldMatrix: new Matrix4() } as any,
+        lights: [],
       };
 
       material.writeUniformData(dataView, 64, mockContext as RenderContext);
 
-      // Light direction should be normalized
-      const expectedDir = new Vector3(1, -1, 0).normalize();
-      expect(dataView.getFloat32(208, true)).toBeCloseTo(expectedDir.x, 5);
-      expect(dataView.getFloat32(212, true)).toBeCloseTo(expectedDir.y, 5);
-      expect(dataView.getFloat32(216, true)).toBeCloseTo(expectedDir.z, 5);
-
-      // Light color and intensity
-      expect(dataView.getFloat32(224, true)).toBeCloseTo(1, 5);
-      expect(dataView.getFloat32(228, true)).toBeCloseTo(0.5, 5);
-      expect(dataView.getFloat32(232, true)).toBeCloseTo(0.3, 5);
-      expect(dataView.getFloat32(236, true)).toBeCloseTo(0.8, 5);
-
-      // Light type: 0 for directional
-      expect(dataView.getFloat32(272, true)).toBe(0);
+      // Camera position at offset 208 (64 + 144)
+      expect(dataView.getFloat32(208, true)).toBe(1);
+      expect(dataView.getFloat32(212, true)).toBe(2);
+      expect(dataView.getFloat32(216, true)).toBe(3);
+      // receiveShadow in displacementParams.w (64 + 172)
+      expect(dataView.getFloat32(236, true)).toBe(1);
     });
 
-    it("should write PointLight data correctly with quadratic attenuation", () => {
-      const material = new BlinnPhongMaterial();
-      const light = new PointLight(
-        new Color(0.8, 0.9, 1.0),
-        1.5,
-        20,
-        "quadratic"
-      );
-
-      const mockContext: Partial<RenderContext> = {
-        lights: [light],
-      };
-
-      material.writeUniformData(dataView, 64, mockContext as RenderContext);
-
-      // Light color and intensity
-      expect(dataView.getFloat32(224, true)).toBeCloseTo(0.8, 5);
-      expect(dataView.getFloat32(228, true)).toBeCloseTo(0.9, 5);
-      expect(dataView.getFloat32(232, true)).toBeCloseTo(1.0, 5);
-      expect(dataView.getFloat32(236, true)).toBeCloseTo(1.5, 5);
+    it("should write opacity in params.x", () => {
+      const material = new BlinnPhongMaterial({ opacity: 0.5 });
 
-      // Light params: range
-      expect(dataView.getFloat32(256, true)).toBe(20);
+      material.writeUniformData(dataView);
 
-      // Light type: 1 for point light
-      expect(dataView.getFloat32(272, true)).toBe(1);
-      // Attenuation type: 1 for quadratic
-      expect(dataView.getFloat32(276, true)).toBe(1);
+      // params.x at offset 240 (64 + 176)
+      expect(dataView.getFloat32(240, true)).toBe(0.5);
     });
 
-    it("should write PointLight data correctly with linear attenuation", () => {
+    it("should write 0 receiveShadow without a mesh", () => {
       const material = new BlinnPhongMaterial();
-      const light = new PointLight(new Color(1, 1, 1), 1, 15, "linear");
-
-      const mockContext: Partial<RenderContext> = {
-        lights: [light],
-      };
 
-      material.writeUniformData(dataView, 64, mockContext as RenderContext);
-
-      // Light params: range
-      expect(dataView.getFloat32(256, true)).toBe(15);
+      material.writeUniformData(dataView);
 
-      // Attenuation type: 0 for linear
-      expect(dataView.getFloat32(276, true)).toBe(0);
+      expect(dataView.getFloat32(236, true)).toBe(0);
     });
 
-    it("should write PointLight data correctly with physical attenuation", () => {
+    it("should not pack scene lights into the uniform buffer", () => {
       const material = new BlinnPhongMaterial();
-      const light = new PointLight(new Color(1, 1, 1), 1, 25, "physical");
-
-      const mockContext: Partial<RenderContext> = {
-        lights: [light],
-      };
-
-      material.writeUniformData(dataView, 64, mockContext as RenderContext);
+      const data = new DataView(new ArrayBuffer(320));
+      data.setFloat32(256, 9, true);
 
-      // Light params: range and parameter (k=16 for physical)
-      expect(dataView.getFloat32(256, true)).toBe(25);
-      expect(dataView.getFloat32(260, true)).toBe(16);
+      material.writeUniformData(data, 64, {
+        lights: [new DirectionalLight(), new PointLight(), new SpotLight()],
+      } as Partial<RenderContext> as RenderContext);
 
-      // Attenuation type: 2 for physical
-      expect(dataView.getFloat32(276, true)).toBe(2);
+      // Lights are read from the renderer's shared light list
+      expect(data.getFloat32(256, true)).toBe(9);
     });
+  });
 
-    it("should handle empty lights array", () => {
+  describe("getLightingBindGroupIndex", () => {
+    it("should use bind group 1 for the shared lighting resources", () => {
       const material = new BlinnPhongMaterial();
 
-      const mockContext: Partial<RenderContext> = {
-        lights: [],
-      };
-
-      material.writeUniformData(dataView, 64, mockContext as RenderContext);
-
-      // Should use default light
-      expect(dataView.getFloat32(208, true)).toBe(0);
-      expect(dataView.getFloat32(212, true)).toBe(-1);
-      expect(dataView.getFloat32(216, true)).toBe(0);
+      expect(material.getLightingBindGroupIndex()).toBe(1);
     });
   });
 
@@ -1,12 +1,17 @@
-import { Color } from "@web-real/math";
-import type { Material, VertexBufferLayout, RenderContext } from "./Material";
+import { Color, Matrix3 } from "@web-real/math";
+import type {
+  Material,
+  VertexBufferLayout,
+  RenderContext,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
-import { DirectionalLight } from "../light/DirectionalLight";
-import { PointLight } from "../light/PointLight";
 import type { Texture } from "../texture";
 import { DummyTextures } from "../texture";
 
-export interface BlinnPhongMaterialOptions {
+export interface BlinnPhongMaterialOptions extends MaterialBlendingOptions {
   color?: [number, number, number] | Color;
   shininess?: number;
   wireframe?: boolean;
@@ -17,6 +22,8 @@ export interface BlinnPhongMaterialOptions {
   normalScale?: number;
 }
 
+export interface BlinnPhongMaterial extends MaterialBlending {}
+
 /**
  * Blinn-Phong material with support for displacement and normal mapping.
  *
@@ -31,6 +38,12 @@ export interface BlinnPhongMaterialOptions {
  */
 export class BlinnPhongMaterial implements Material {
   readonly type = "blinnPhong";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
+  /** Skins vertices with bone matrices, so it can draw a SkinnedMesh */
+  readonly supportsSkinning = true;
+  /** Blends position and normal deltas, so it can draw geometry with morph targets */
+  readonly supportsMorphTargets = true;
   private _color: Color;
   private _shininess: number;
   wireframe: boolean;
@@ -65,6 +78,8 @@ export class BlinnPhongMaterial implements Material {
    * @param options - Material configuration options
    */
   constructor(options: BlinnPhongMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     this._color = options.color
       ? Color.from(options.color)
       : new Color(1.0, 1.0, 1.0);
@@ -185,10 +200,29 @@ export class BlinnPhongMaterial implements Material {
 
   /**
    * Gets the uniform buffer size required for this material.
-   * @returns Size in bytes (304 bytes total)
+   * Layout (absolute buffer positions from start):
+   * - 0-64: mvpMatrix
+   * - 64-128: modelMatrix
+   * - 128-192: normalMatrix
+   * - 192-208: colorAndShininess (rgb + shininess)
+   * - 208-224: cameraPosition (xyz + unused)
+   * - 224-240: displacementParams (scale, bias, normalScale, receiveShadow)
+   * - 240-256: params (opacity + unused)
+   *
+   * Scene lights are read from the renderer's shared light list; a default
+   * downward white light is used when the scene has none.
+   * @returns Size in bytes (256 bytes total)
    */
   getUniformBufferSize(): number {
-    return 304;
+    return 256;
+  }
+
+  /**
+   * Gets the bind group index used for the shared lighting resources (light list and shadow maps).
+   * @returns 1 (group 0 holds the per-mesh uniforms and textures)
+   */
+  getLightingBindGroupIndex(): number {
+    return 1;
   }
 
   /**
@@ -231,18 +265,9 @@ export class BlinnPhongMaterial implements Material {
     this._writeModelMatrix(buffer, offset, context);
     this._writeNormalMatrix(buffer, offset, context);
     this._writeColorAndShininess(buffer, offset);
-
-    const light = context?.lights?.[0];
-    if (!light) {
-      this._writeDefaultLight(buffer, offset);
-    } else if (light instanceof DirectionalLight) {
-      this._writeDirectionalLight(buffer, offset, light);
-    } else if (light instanceof PointLight) {
-      this._writePointLight(buffer, offset, light);
-    }
-
     this._writeCameraPosition(buffer, offset, context);
-    this._writeDisplacementParams(buffer, offset);
+    this._writeDisplacementParams(buffer, offset, context);
+    this._writeParams(buffer, offset);
   }
 
   /**
@@ -264,7 +289,7 @@ export class BlinnPhongMaterial implements Material {
   }
 
   /**
-   * Writes normal matrix (inverse transpose of model matrix) to the uniform buffer.
+   * Writes the normal matrix (inverse transpose of the model matrix's upper 3x3) to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (normalMatrix at offset+64)
    * @param context - Rendering context
@@ -276,158 +301,73 @@ export class BlinnPhongMaterial implements Material {
   ): void {
     if (!context?.mesh) return;
 
-    const normalMatrix = context.mesh.worldMatrix.inverse().transpose();
+    const normalMatrix = Matrix3.normalMatrix(
+      context.mesh.worldMatrix
+    ).toMatrix4();
     for (let i = 0; i < 16; i++) {
       buffer.setFloat32(offset + 64 + i * 4, normalMatrix.data[i], true);
     }
   }
 
   /**
-   * Writes color and shininess to the uniform buffer.
+   * Writes color, decoded from sRGB to linear, and shininess to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (colorAndShininess at offset+128)
    */
   private _writeColorAndShininess(buffer: DataView, offset: number): void {
-    buffer.setFloat32(offset + 128, this.color.r, true);
-    buffer.setFloat32(offset + 132, this.color.g, true);
-    buffer.setFloat32(offset + 136, this.color.b, true);
+    const color = this.color.toLinear();
+    buffer.setFloat32(offset + 128, color.r, true);
+    buffer.setFloat32(offset + 132, color.g, true);
+    buffer.setFloat32(offset + 136, color.b, true);
     buffer.setFloat32(offset + 140, this.shininess, true);
   }
 
   /**
-   * Writes directional light data to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset
-   * @param light - Directional light instance
-   */
-  private _writeDirectionalLight(
-    buffer: DataView,
-    offset: number,
-    light: DirectionalLight
-  ): void {
-    // Direction at offset+144
-    buffer.setFloat32(offset + 144, light.direction.x, true);
-    buffer.setFloat32(offset + 148, light.direction.y, true);
-    buffer.setFloat32(offset + 152, light.direction.z, true);
-    buffer.setFloat32(offset + 156, 0, true);
-
-    // Color at offset+160
-    buffer.setFloat32(offset + 160, light.color.r, true);
-    buffer.setFloat32(offset + 164, light.color.g, true);
-    buffer.setFloat32(offset + 168, light.color.b, true);
-    buffer.setFloat32(offset + 172, light.intensity, true);
-
-    // Light params at offset+192 (unused for directional)
-    buffer.setFloat32(offset + 192, 0, true);
-    buffer.setFloat32(offset + 196, 0, true);
-    buffer.setFloat32(offset + 200, 0, true);
-    buffer.setFloat32(offset + 204, 0, true);
-
-    // Light types at offset+208 (type=0 for directional)
-    buffer.setFloat32(offset + 208, 0, true);
-    buffer.setFloat32(offset + 212, 0, true);
-    buffer.setFloat32(offset + 216, 0, true);
-    buffer.setFloat32(offset + 220, 0, true);
-  }
-
-  /**
-   * Writes point light data to the uniform buffer.
-
+   * Writes camera position to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset
-   * @param light - Point light instance
+   * @param offset - Base offset (cameraPosition at offset+144)
+   * @param context - Rendering context
    */
-  private _writePointLight(
+  private _writeCameraPosition(
     buffer: DataView,
     offset: number,
-    light: PointLight
+    context?: RenderContext
   ): void {
-    light.updateWorldMatrix(true, false);
-    buffer.setFloat32(offset + 144, light.worldMatrix.data[12], true);
-    buffer.setFloat32(offset + 148, light.worldMatrix.data[13], true);
-    buffer.setFloat32(offset + 152, light.worldMatrix.data[14], true);
-    buffer.setFloat32(offset + 156, 0, true);
-
-    // Color at offset+160
-    buffer.setFloat32(offset + 160, light.color.r, true);
-    buffer.setFloat32(offset + 164, light.color.g, true);
-    buffer.setFloat32(offset + 168, light.color.b, true);
-    buffer.setFloat32(offset + 172, light.intensity, true);
-
-    // Light params at offset+192 (range and attenuation)
-    const attenuationFactors = light.getAttenuationFactors();
-    buffer.setFloat32(offset + 192, attenuationFactors[0], true); // range
-    buffer.setFloat32(offset + 196, attenuationFactors[1], true); // param
-    buffer.setFloat32(offset + 200, 0, true);
-    buffer.setFloat32(offset + 204, 0, true);
-
-    // Light types at offset+208 (type=1 for point)
-    buffer.setFloat32(offset + 208, 1, true); // point light
-    buffer.setFloat32(offset + 212, attenuationFactors[3], true); // attenuation type
-    buffer.setFloat32(offset + 216, 0, true);
-    buffer.setFloat32(offset + 220, 0, true);
-  }
-
-  /**
-   * Writes default light data when no light is in the scene.
+    if (!context?.camera) return;
 
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset
-   */
-  private _writeDefaultLight(buffer: DataView, offset: number): void {
-    buffer.setFloat32(offset + 144, 0, true);
-    buffer.setFloat32(offset + 148, -1, true);
-    buffer.setFloat32(offset + 152, 0, true);
-    buffer.setFloat32(offset + 156, 0, true);
-
-    // Color at offset+160 (white, full intensity)
-    buffer.setFloat32(offset + 160, 1, true);
-    buffer.setFloat32(offset + 164, 1, true);
-    buffer.setFloat32(offset + 168, 1, true);
-    buffer.setFloat32(offset + 172, 1, true);
-
-    // Light params at offset+192
-    buffer.setFloat32(offset + 192, 0, true);
-    buffer.setFloat32(offset + 196, 0, true);
-    buffer.setFloat32(offset + 200, 0, true);
-    buffer.setFloat32(offset + 204, 0, true);
-
-    // Light types at offset+208 (directional)
-    buffer.setFloat32(offset + 208, 0, true);
-    buffer.setFloat32(offset + 212, 0, true);
-    buffer.setFloat32(offset + 216, 0, true);
-    buffer.setFloat32(offset + 220, 0, true);
+    const cameraWorldMatrix = context.camera.worldMatrix.data;
+    buffer.setFloat32(offset + 144, cameraWorldMatrix[12], true);
+    buffer.setFloat32(offset + 148, cameraWorldMatrix[13], true);
+    buffer.setFloat32(offset + 152, cameraWorldMatrix[14], true);
   }
 
   /**
-   * Writes camera position to the uniform buffer.
+   * Writes displacement map parameters and the mesh receiveShadow flag to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset (cameraPosition at offset+176)
+   * @param offset - Base offset (displacement params at offset+160)
    * @param context - Rendering context
    */
-  private _writeCameraPosition(
+  private _writeDisplacementParams(
     buffer: DataView,
     offset: number,
     context?: RenderContext
   ): void {
-    if (!context?.camera) return;
-
-    const cameraWorldMatrix = context.camera.worldMatrix.data;
-    buffer.setFloat32(offset + 176, cameraWorldMatrix[12], true);
-    buffer.setFloat32(offset + 180, cameraWorldMatrix[13], true);
-    buffer.setFloat32(offset + 184, cameraWorldMatrix[14], true);
-    buffer.setFloat32(offset + 188, 0, true);
+    buffer.setFloat32(offset + 160, this.displacementScale, true);
+    buffer.setFloat32(offset + 164, this.displacementBias, true);
+    buffer.setFloat32(offset + 168, this.normalScale, true);
+    buffer.setFloat32(
+      offset + 172,
+      context?.mesh?.receiveShadow ? 1 : 0,
+      true
+    );
   }
 
   /**
-   * Writes displacement map parameters to the uniform buffer.
+   * Writes material params to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset (displacement params at offset+224)
+   * @param offset - Base offset (params at offset+176). Params are vec4f: x = opacity, yzw = unused
    */
-  private _writeDisplacementParams(buffer: DataView, offset: number): void {
-    buffer.setFloat32(offset + 224, this.displacementScale, true);
-    buffer.setFloat32(offset + 228, this.displacementBias, true);
-    buffer.setFloat32(offset + 232, this.normalScale, true);
-    buffer.setFloat32(offset + 236, 0, true);
+  private _writeParams(buffer: DataView, offset: number): void {
+    buffer.setFloat32(offset + 176, this.opacity, true);
   }
 }
@@ -137,10 +137,10 @@ describe("LineColorMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 64 bytes for MVP matrix", () => {
+    it("should return 80 bytes for MVP matrix and params", () => {
       const material = new LineColorMaterial();
 
-      expect(material.getUniformBufferSize()).toBe(64);
+      expect(material.getUniformBufferSize()).toBe(80);
     });
   });
 
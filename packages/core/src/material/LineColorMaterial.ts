@@ -1,11 +1,19 @@
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 
-export interface LineColorMaterialOptions {
+export interface LineColorMaterialOptions extends MaterialBlendingOptions {
   /** Per-vertex colors as Float32Array (3 floats per vertex: RGB) */
   colors?: Float32Array;
 }
 
+export interface LineColorMaterial extends MaterialBlending {}
+
 /**
  * Material for rendering lines with per-vertex colors.
  * Uses "line-list" primitive topology.
@@ -18,6 +26,8 @@ export interface LineColorMaterialOptions {
  */
 export class LineColorMaterial implements Material {
   readonly type = "lineColor";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
   private _colors: Float32Array;
 
   /**
@@ -25,6 +35,8 @@ export class LineColorMaterial implements Material {
    * @param options - Configuration options with per-vertex colors
    */
   constructor(options: LineColorMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     this._colors = options.colors ?? new Float32Array(0);
   }
 
@@ -80,11 +92,11 @@ export class LineColorMaterial implements Material {
   }
 
   /**
-   * Gets the uniform buffer size for MVP matrix only.
-   * @returns 64 bytes (no additional color data needed)
+   * Gets the uniform buffer size for MVP matrix and material params.
+   * @returns 80 bytes (64 for MVP + 16 for params; colors come from vertices)
    */
   getUniformBufferSize(): number {
-    return 64;
+    return 80;
   }
 
   /**
@@ -94,4 +106,13 @@ export class LineColorMaterial implements Material {
   getPrimitiveTopology(): GPUPrimitiveTopology {
     return "line-list";
   }
+
+  /**
+   * Writes material params to the uniform buffer.
+   * @param buffer - DataView of the uniform buffer
+   * @param offset - Byte offset to start writing (default: 64). Params are vec4f: x = opacity, yzw = unused
+   */
+  writeUniformData(buffer: DataView, offset: number = 64): void {
+    buffer.setFloat32(offset, this.opacity, true);
+  }
 }
@@ -77,9 +77,10 @@ describe("LineMaterial", () => {
 
       material.writeUniformData(dataView);
 
-      expect(dataView.getFloat32(64, true)).toBeCloseTo(0.4);
-      expect(dataView.getFloat32(68, true)).toBeCloseTo(0.5);
-      expect(dataView.getFloat32(72, true)).toBeCloseTo(0.6);
+      // RGB is decoded from sRGB to linear
+      expect(dataView.getFloat32(64, true)).toBeCloseTo(Math.pow(0.4, 2.2));
+      expect(dataView.getFloat32(68, true)).toBeCloseTo(Math.pow(0.5, 2.2));
+      expect(dataView.getFloat32(72, true)).toBeCloseTo(Math.pow(0.6, 2.2));
       expect(dataView.getFloat32(76, true)).toBeCloseTo(1.0);
     });
 
@@ -90,9 +91,10 @@ describe("LineMaterial", () => {
 
       material.writeUniformData(dataView, 100);
 
-      expect(dataView.getFloat32(100, true)).toBeCloseTo(0.9);
-      expect(dataView.getFloat32(104, true)).toBeCloseTo(0.1);
-      expect(dataView.getFloat32(108, true)).toBeCloseTo(0.3);
+      // RGB is decoded from sRGB to linear
+      expect(dataView.getFloat32(100, true)).toBeCloseTo(Math.pow(0.9, 2.2));
+      expect(dataView.getFloat32(104, true)).toBeCloseTo(Math.pow(0.1, 2.2));
+      expect(dataView.getFloat32(108, true)).toBeCloseTo(Math.pow(0.3, 2.2));
       expect(dataView.getFloat32(112, true)).toBeCloseTo(1.0);
     });
   });
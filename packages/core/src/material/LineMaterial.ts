@@ -1,11 +1,19 @@
 import { Color } from "@web-real/math";
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 
-export interface LineMaterialOptions {
+export interface LineMaterialOptions extends MaterialBlendingOptions {
   color?: [number, number, number] | Color;
 }
 
+export interface LineMaterial extends MaterialBlending {}
+
 /**
  * Material for rendering lines with a single solid color.
  * Uses "line-list" primitive topology.
@@ -19,6 +27,8 @@ export interface LineMaterialOptions {
  */
 export class LineMaterial implements Material {
   readonly type = "line";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
   /** Color with RGBA components (Color instance, 0-1 range) */
   readonly color: Color;
 
@@ -27,6 +37,8 @@ export class LineMaterial implements Material {
    * @param options - Configuration options (default: white color)
    */
   constructor(options: LineMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     this.color = options.color
       ? Color.from(options.color)
       : new Color(1.0, 1.0, 1.0);
@@ -93,14 +105,16 @@ export class LineMaterial implements Material {
   }
 
   /**
-   * Writes color to the uniform buffer.
+   * Writes color to the uniform buffer, decoded from sRGB to linear, with the
+   * opacity multiplied into alpha.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (color at offset+0)
    */
   private _writeColor(buffer: DataView, offset: number): void {
-    buffer.setFloat32(offset, this.color.r, true);
-    buffer.setFloat32(offset + 4, this.color.g, true);
-    buffer.setFloat32(offset + 8, this.color.b, true);
-    buffer.setFloat32(offset + 12, this.color.a, true);
+    const color = this.color.toLinear();
+    buffer.setFloat32(offset, color.r, true);
+    buffer.setFloat32(offset + 4, color.g, true);
+    buffer.setFloat32(offset + 8, color.b, true);
+    buffer.setFloat32(offset + 12, this.color.a * this.opacity, true);
   }
 }
@@ -1,7 +1,8 @@
 import { describe, it, expect } from "bun:test";
 import { Matrix4 } from "@web-real/math";
 
-import type { RenderContext } from "./Material";
+import type { MaterialBlending, RenderContext } from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { BasicMaterial } from "./BasicMaterial";
 import { ShaderMaterial } from "./ShaderMaterial";
 import { Camera } from "../camera/Camera";
@@ -165,9 +166,19 @@ describe("Material Interface", () => {
         material.writeUniformData(dataView, 64);
 
         // Verify color was written at offset 64
-        expect(dataView.getFloat32(64, true)).toBeCloseTo(1.0, 5);
-        expect(dataView.getFloat32(68, true)).toBeCloseTo(0.5, 5);
-        expect(dataView.getFloat32(72, true)).toBeCloseTo(0.25, 5);
+        // RGB is decoded from sRGB to linear
+        expect(dataView.getFloat32(64, true)).toBeCloseTo(
+          Math.pow(1.0, 2.2),
+          5
+        );
+        expect(dataView.getFloat32(68, true)).toBeCloseTo(
+          Math.pow(0.5, 2.2),
+          5
+        );
+        expect(dataView.getFloat32(72, true)).toBeCloseTo(
+          Math.pow(0.25, 2.2),
+          5
+        );
         expect(dataView.getFloat32(76, true)).toBeCloseTo(1.0, 5); // Alpha
       }
     });
@@ -181,9 +192,19 @@ describe("Material Interface", () => {
         material.writeUniformData(dataView, 96);
 
         // Verify color was written at custom offset 96
-        expect(dataView.getFloat32(96, true)).toBeCloseTo(0.1, 5);
-        expect(dataView.getFloat32(100, true)).toBeCloseTo(0.2, 5);
-        expect(dataView.getFloat32(104, true)).toBeCloseTo(0.3, 5);
+        // RGB is decoded from sRGB to linear
+        expect(dataView.getFloat32(96, true)).toBeCloseTo(
+          Math.pow(0.1, 2.2),
+          5
+        );
+        expect(dataView.getFloat32(100, true)).toBeCloseTo(
+          Math.pow(0.2, 2.2),
+          5
+        );
+        expect(dataView.getFloat32(104, true)).toBeCloseTo(
+          Math.pow(0.3, 2.2),
+          5
+        );
       }
     });
   });
@@ -406,4 +427,43 @@ describe("Material Interface", () => {
       expect(material.getFragmentShader()).toContain("@fragment");
     });
   });
+
+  describe("applyBlendingOptions", () => {
+    it("should fill in opaque, depth-tested defaults", () => {
+      const material = {} as MaterialBlending;
+
+      applyBlendingOptions(material, {});
+
+      expect(material).toEqual({
+        transparent: false,
+        opacity: 1,
+        blending: "normal",
+        depthWrite: true,
+        depthTest: true,
+        renderState: {},
+      });
+    });
+
+    it("should copy the given options and the render state", () => {
+      const material = {} as MaterialBlending;
+      const renderState = { side: "front" as const };
+
+      applyBlendingOptions(material, {
+        transparent: true,
+        opacity: 0.5,
+        blending: "additive",
+        depthWrite: false,
+        depthTest: false,
+        renderState,
+      });
+
+      expect(material.transparent).toBe(true);
+      expect(material.opacity).toBe(0.5);
+      expect(material.blending).toBe("additive");
+      expect(material.depthWrite).toBe(false);
+      expect(material.depthTest).toBe(false);
+      expect(material.renderState).toEqual(renderState);
+      expect(material.renderState).not.toBe(renderState);
+    });
+  });
 });
@@ -16,6 +16,106 @@ export interface VertexBufferLayout {
   }[];
 }
 
+/**
+ * Color blending applied when a transparent material is drawn over the render target.
+ * - 'normal': alpha blending (src * a + dst * (1 - a))
+ * - 'additive': adds the alpha-weighted source to the destination (src * a + dst)
+ * - 'multiply': multiplies the destination by the source color (src * dst)
+ * - 'premultiplied': alpha blending for colors already multiplied by alpha (src + dst * (1 - a))
+ */
+export type BlendingMode = "normal" | "additive" | "multiply" | "premultiplied";
+
+/**
+ * Which faces of a triangle are rasterized.
+ * - 'front': front faces only (back faces are culled)
+ * - 'back': back faces only (front faces are culled)
+ * - 'double': both faces
+ */
+export type MaterialSide = "front" | "back" | "double";
+
+/**
+ * Fixed-function pipeline state of a material, baked into its render pipeline.
+ */
+export interface MaterialRenderState {
+  /** Faces to rasterize (default: "double") */
+  side?: MaterialSide;
+  /** Winding order of front faces (default: "ccw") */
+  frontFace?: GPUFrontFace;
+  /** Constant depth offset in depth-buffer units, e.g. -1 to pull decals forward (default: 0) */
+  depthBias?: number;
+  /** Depth offset scaled by the polygon's depth slope (default: 0) */
+  depthBiasSlopeScale?: number;
+  /** Maximum absolute depth offset, 0 for no clamp (default: 0) */
+  depthBiasClamp?: number;
+  /** Depth comparison used when depthTest is enabled (default: "less") */
+  depthCompare?: GPUCompareFunction;
+  /** Color channels written to the render target, as GPUColorWrite flags (default: all) */
+  colorWriteMask?: GPUColorWriteFlags;
+}
+
+/**
+ * Transparency, depth and render state options shared by all material option types.
+ */
+export interface MaterialBlendingOptions {
+  /** Draw in the transparent queue with blending enabled (default: false) */
+  transparent?: boolean;
+  /** Opacity multiplied into the output alpha, 0-1 (default: 1) */
+  opacity?: number;
+  /** Blend mode used when transparent (default: "normal") */
+  blending?: BlendingMode;
+  /** Write to the depth buffer (default: true) */
+  depthWrite?: boolean;
+  /** Test against the depth buffer (default: true) */
+  depthTest?: boolean;
+  /** Face culling, depth bias, depth compare and color write mask */
+  renderState?: MaterialRenderState;
+}
+
+/**
+ * Transparency, depth and render state of a material, resolved from MaterialBlendingOptions.
+ */
+export interface MaterialBlending {
+  /** Draw in the transparent queue with blending enabled */
+  transparent: boolean;
+  /** Opacity multiplied into the output alpha (0-1) */
+  opacity: number;
+  /** Blend mode used when transparent */
+  blending: BlendingMode;
+  /** Write to the depth buffer */
+  depthWrite: boolean;
+  /** Test against the depth buffer */
+  depthTest: boolean;
+  /** Face culling, depth bias, depth compare and color write mask */
+  renderState: MaterialRenderState;
+}
+
+/**
+ * Assigns blending options to a material, filling in the defaults of MaterialBlendingOptions.
+ * @param material - Material to configure, usually `this` in a material constructor
+ * @param options - Options passed to the material
+ *
+ * @example
+ * ```ts
+ * export interface MyMaterial extends MaterialBlending {}
+ * export class MyMaterial implements Material {
+ *   constructor(options: MyMaterialOptions = {}) {
+ *     applyBlendingOptions(this, options);
+ *   }
+ * }
+ * ```
+ */
+export function applyBlendingOptions(
+  material: MaterialBlending,
+  options: MaterialBlendingOptions
+): void {
+  material.transparent = options.transparent ?? false;
+  material.opacity = options.opacity ?? 1.0;
+  material.blending = options.blending ?? "normal";
+  material.depthWrite = options.depthWrite ?? true;
+  material.depthTest = options.depthTest ?? true;
+  material.renderState = { ...options.renderState };
+}
+
 /**
  * Context information passed to materials during rendering.
  */
@@ -47,6 +147,67 @@ export interface Material {
    */
   readonly bindingRevision?: number;
 
+  /**
+   * Whether the material is drawn after opaque meshes, sorted back-to-front, with blending enabled.
+   * - If omitted, the material is opaque.
+   */
+  transparent?: boolean;
+
+  /**
+   * Opacity (0-1) that the material multiplies into its output alpha.
+   * Only has a visible effect on transparent materials.
+   * - If omitted, treated as 1.
+   */
+  opacity?: number;
+
+  /**
+   * Blend mode used when the material is transparent; opaque materials never blend.
+   * - If omitted, treated as "normal".
+   */
+  blending?: BlendingMode;
+
+  /**
+   * Whether fragments write to the depth buffer.
+   * - If omitted, treated as true.
+   */
+  depthWrite?: boolean;
+
+  /**
+   * Whether fragments are tested against the depth buffer.
+   * - If omitted, treated as true.
+   */
+  depthTest?: boolean;
+
+  /**
+   * Face culling, depth bias, depth compare and color write mask.
+   * - If omitted, every field uses its default (see MaterialRenderState).
+   */
+  renderState?: MaterialRenderState;
+
+  /**
+   * Whether the vertex shader reads per-instance data (see shaders/instancing/instancing.wgsl):
+   * a transform at locations 8..11 and a color at location 12.
+   * - If omitted, the material cannot draw an InstancedMesh.
+   * - If true, the renderer binds a single identity instance for plain meshes.
+   */
+  readonly supportsInstancing?: boolean;
+
+  /**
+   * Whether the vertex shader skins vertices (see shaders/skinning/skinning.wgsl):
+   * bone matrices at group 0 binding 16 and per-vertex joints and weights at binding 17.
+   * - If omitted, the material cannot draw a SkinnedMesh.
+   * - If true, the renderer binds a single identity bone and no skin data for other meshes.
+   */
+  readonly supportsSkinning?: boolean;
+
+  /**
+   * Whether the vertex shader blends morph targets (see shaders/morphing/morphing.wgsl):
+   * influences at group 0 binding 18 and position/normal deltas at binding 19.
+   * - If omitted, the material cannot draw a mesh whose geometry has morph targets.
+   * - If true, the renderer binds a single zero influence and delta for other meshes.
+   */
+  readonly supportsMorphTargets?: boolean;
+
   /**
    * Gets the vertex shader code for this material.
    * @returns WGSL shader code as a string
@@ -102,6 +263,18 @@ export interface Material {
     context?: RenderContext
   ): void;
 
+  /**
+   * Bind group index where the renderer binds the shared lighting resources:
+   * - 0..3: shadow comparison sampler, shadow maps, and light-space matrices
+   * - 4: storage buffer with every directional, point, and spot light in the scene
+   * - 5..6: cluster uniforms and per-cluster light index lists (see shaders/lighting/clusters.wgsl)
+   * - 7: screen-space ambient occlusion texture (see shaders/lighting/ambientOcclusion.wgsl)
+   *
+   * - If omitted, the material does not read scene lights or shadow maps.
+   * - Must not collide with bind groups used by the material itself.
+   */
+  getLightingBindGroupIndex?(): number;
+
   /**
    * Gets textures for multi-texture materials.
    * @param device - Optional GPUDevice for creating default/dummy textures
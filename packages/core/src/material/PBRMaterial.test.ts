@@ -1,8 +1,16 @@
 import { describe, it, expect } from "bun:test";
-import { Color } from "@web-real/math";
+import { Color, Matrix4 } from "@web-real/math";
 
 import { PBRMaterial } from "./PBRMaterial";
 import { AmbientLight } from "../light/AmbientLight";
+import { DirectionalLight } from "../light/DirectionalLight";
+import { PointLight } from "../light/PointLight";
+import { SpotLight } from "../light/SpotLight";
+import { Texture } from "../texture";
+
+function createMockTexture(format: GPUTextureFormat): Texture {
+  return new Texture({} as GPUTexture, {} as GPUSampler, 4, 4, format);
+}
 
 describe("PBRMaterial", () => {
   describe("constructor", () => {
@@ -97,9 +105,9 @@ describe("PBRMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 512 bytes", () => {
+    it("should return 288 bytes", () => {
       const material = new PBRMaterial();
-      expect(material.getUniformBufferSize()).toBe(512);
+      expect(material.getUniformBufferSize()).toBe(288);
     });
   });
 
@@ -138,7 +146,7 @@ describe("PBRMaterial", () => {
   describe("writeUniformData", () => {
     it("should write baseColor to correct buffer position", () => {
       const material = new PBRMaterial({ color: [0.5, 0.6, 0.7] });
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -150,6 +158,15 @@ describe("PBRMaterial", () => {
       expect(view.getFloat32(204, true)).toBe(1.0); // alpha
     });
 
+    it("should write opacity as baseColor alpha", () => {
+      const material = new PBRMaterial({ opacity: 0.3 });
+      const view = new DataView(new ArrayBuffer(288));
+
+      material.writeUniformData(view, 64);
+
+      expect(view.getFloat32(204, true)).toBeCloseTo(0.3, 5);
+    });
+
     it("should write pbrParams to correct buffer position", () => {
       const material = new PBRMaterial({
         metalness: 0.8,
@@ -157,7 +174,7 @@ describe("PBRMaterial", () => {
         aoMapIntensity: 0.6,
         normalScale: 1.5,
       });
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -174,7 +191,7 @@ describe("PBRMaterial", () => {
         emissive: [0.9, 0.4, 0.2],
         emissiveIntensity: 2.5,
       });
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -188,7 +205,7 @@ describe("PBRMaterial", () => {
 
     it("should write envParams to correct buffer position", () => {
       const material = new PBRMaterial({ envMapIntensity: 1.8 });
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -200,7 +217,7 @@ describe("PBRMaterial", () => {
 
     it("should write default ambient light when no lights provided", () => {
       const material = new PBRMaterial();
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -212,20 +229,47 @@ describe("PBRMaterial", () => {
       expect(view.getFloat32(284, true)).toBeCloseTo(0.03, 5); // intensity
     });
 
-    it("should write light count to envParams", () => {
+    it("should write no sRGB decode flags without color maps", () => {
       const material = new PBRMaterial();
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
+      view.setFloat32(244, 5, true);
 
-      material.writeUniformData(view, 64);
+      material.writeUniformData(view, 64, {
+        camera: { worldMatrix: { data: new Float32Array(16) } } as any,
+        lights: [new DirectionalLight(), new PointLight()],
+      });
 
-      // lightCount at offset+180 (absolute position 244)
+      // envParams.y at offset+180 (absolute position 244)
+      expect(view.getFloat32(244, true)).toBe(0);
+    });
+
+    it("should flag color maps that need sRGB decoding", () => {
+      const view = new DataView(new ArrayBuffer(288));
+
+      // envParams.y: bit0 = albedo map, bit1 = emissive map
+      new PBRMaterial({
+        map: createMockTexture("rgba8unorm"),
+        emissiveMap: createMockTexture("rgba8unorm"),
+      }).writeUniformData(view, 64);
+      expect(view.getFloat32(244, true)).toBe(3);
+
+      new PBRMaterial({
+        map: createMockTexture("rgba8unorm-srgb"),
+        emissiveMap: createMockTexture("rgba8unorm"),
+      }).writeUniformData(view, 64);
+      expect(view.getFloat32(244, true)).toBe(2);
+
+      // Data maps are never decoded
+      new PBRMaterial({
+        normalMap: createMockTexture("rgba8unorm"),
+      }).writeUniformData(view, 64);
       expect(view.getFloat32(244, true)).toBe(0);
     });
 
     it("should handle custom offset parameter", () => {
       const material = new PBRMaterial({ color: [0.1, 0.2, 0.3] });
-      const buffer = new ArrayBuffer(600); // Larger buffer for custom offset
+      const buffer = new ArrayBuffer(400); // Larger buffer for custom offset
       const view = new DataView(buffer);
 
       // Write with different offset
@@ -248,7 +292,7 @@ describe("PBRMaterial", () => {
         emissiveIntensity: 1.5,
         envMapIntensity: 2.0,
       });
-      const buffer = new ArrayBuffer(512);
+      const buffer = new ArrayBuffer(288);
       const view = new DataView(buffer);
 
       material.writeUniformData(view, 64);
@@ -262,6 +306,47 @@ describe("PBRMaterial", () => {
       expect(view.getFloat32(236, true)).toBeCloseTo(1.5, 5); // emissiveIntensity
       expect(view.getFloat32(240, true)).toBeCloseTo(2.0, 5); // envMapIntensity
     });
+
+    it("should write receiveShadow flag to cameraPosition.w", () => {
+      const material = new PBRMaterial();
+      const buffer = new ArrayBuffer(288);
+      const view = new DataView(buffer);
+
+      material.writeUniformData(view, 64, {
+        camera: { worldMatrix: { data: new Float32Array(16) } } as any,
+        mesh: { receiveShadow: true, worldMatrix: new Matrix4() } as any,
+        lights: [],
+      });
+
+      // cameraPosition.w at offset+204 (absolute position 268)
+      expect(view.getFloat32(268, true)).toBe(1);
+    });
+
+    it("should write the scene AmbientLight", () => {
+      const material = new PBRMaterial();
+      const buffer = new ArrayBuffer(288);
+      const view = new DataView(buffer);
+
+      material.writeUniformData(view, 64, {
+        camera: { worldMatrix: { data: new Float32Array(16) } } as any,
+        lights: [
+          new SpotLight(),
+          new AmbientLight(new Color(0.2, 0.4, 0.6), 0.5),
+        ],
+      });
+
+      // ambientLight at offset+208 (absolute position 272)
+      expect(view.getFloat32(272, true)).toBeCloseTo(0.2, 5);
+      expect(view.getFloat32(280, true)).toBeCloseTo(0.6, 5);
+      expect(view.getFloat32(284, true)).toBe(0.5);
+    });
+  });
+
+  describe("getLightingBindGroupIndex", () => {
+    it("should use the group after IBL", () => {
+      const material = new PBRMaterial();
+      expect(material.getLightingBindGroupIndex()).toBe(2);
+    });
   });
 });
 
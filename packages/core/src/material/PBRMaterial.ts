@@ -1,15 +1,20 @@
-import { Color } from "@web-real/math";
-import type { Material, VertexBufferLayout, RenderContext } from "./Material";
+import { Color, Matrix3 } from "@web-real/math";
+import type {
+  Material,
+  VertexBufferLayout,
+  RenderContext,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
-import { DirectionalLight } from "../light/DirectionalLight";
-import { PointLight } from "../light/PointLight";
 import { AmbientLight } from "../light/AmbientLight";
 import type { Texture } from "../texture";
 import { DummyTextures } from "../texture";
 import type { CubeTexture } from "../texture/CubeTexture";
 import { BRDFLut } from "../texture/BRDFLut";
 
-export interface PBRMaterialOptions {
+export interface PBRMaterialOptions extends MaterialBlendingOptions {
   /** Base color of the material (default: white) */
   color?: [number, number, number] | Color;
   /** Metalness factor 0.0 (dielectric) to 1.0 (metal) (default: 0.0) */
@@ -50,9 +55,11 @@ export interface PBRMaterialOptions {
   wireframe?: boolean;
 }
 
+export interface PBRMaterial extends MaterialBlending {}
+
 /**
  * Physically Based Rendering (PBR) material using metallic-roughness workflow.
- * Implements Cook-Torrance BRDF with GGX distribution and supports up to 4 lights plus ambient.
+ * Implements Cook-Torrance BRDF with GGX distribution and reads scene lights from the renderer's shared light list plus ambient.
  *
  * @example
  * ```ts
@@ -67,6 +74,12 @@ export interface PBRMaterialOptions {
  */
 export class PBRMaterial implements Material {
   readonly type = "pbr";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
+  /** Skins vertices with bone matrices, so it can draw a SkinnedMesh */
+  readonly supportsSkinning = true;
+  /** Blends position and normal deltas, so it can draw geometry with morph targets */
+  readonly supportsMorphTargets = true;
 
   private _color: Color;
   private _metalness: number;
@@ -168,6 +181,8 @@ export class PBRMaterial implements Material {
    * @param options - Material configuration including color, metalness, roughness, and texture maps
    */
   constructor(options: PBRMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     this._color = options.color
       ? Color.from(options.color)
       : new Color(1.0, 1.0, 1.0);
@@ -353,21 +368,31 @@ export class PBRMaterial implements Material {
    * - 0-64: mvpMatrix
    * - 64-128: modelMatrix
    * - 128-192: normalMatrix
-   * - 192-208: baseColor (rgb + alpha)
+   * - 192-208: baseColor (rgb + opacity)
    * - 208-224: pbrParams (metalness, roughness, aoIntensity, normalScale)
    * - 224-240: emissive (rgb + intensity)
-   * - 240-256: envParams (envMapIntensity, lightCount, hasEnvMap, unused)
-   * - 256-272: cameraPosition
+   * - 240-256: envParams (envMapIntensity, sRGB decode flags, envMode, maxMipLevel)
+   * - 256-272: cameraPosition (xyz + receiveShadow)
    * - 272-288: ambientLight (rgb + intensity)
-   * - 288-480: lights[4] (48 bytes each: position 16 + color 16 + params 16)
-   * - 480-512: padding
+   *
+   * Directional, point, and spot lights are read from the shared light list
+   * bound by the renderer (see getLightingBindGroupIndex()).
    *
    * Note: writeUniformData() receives offset parameter (default 64) and uses relative offsets.
    * For example, to write at absolute position 240, it uses offset+176 (64+176=240).
-   * @returns Size in bytes (512 bytes total)
+   * @returns Size in bytes (288 bytes total)
    */
   getUniformBufferSize(): number {
-    return 512;
+    return 288;
+  }
+
+  /**
+   * Gets the bind group index used for the shared lighting resources (light list and shadow maps).
+   * Groups 0 (mesh) and 1 (IBL) are owned by the material.
+   * @returns 2
+   */
+  getLightingBindGroupIndex(): number {
+    return 2;
   }
 
   /**
@@ -447,8 +472,7 @@ export class PBRMaterial implements Material {
     this._writeEmissive(buffer, offset);
     this._writeCameraPosition(buffer, offset, context);
     this._writeAmbientLight(buffer, offset, context);
-    const lightCount = this._writeLights(buffer, offset, context);
-    this._writeEnvParams(buffer, offset, lightCount);
+    this._writeEnvParams(buffer, offset);
   }
 
   /**
@@ -470,7 +494,7 @@ export class PBRMaterial implements Material {
   }
 
   /**
-   * Writes normal matrix (inverse transpose of model matrix) to the uniform buffer.
+   * Writes the normal matrix (inverse transpose of the model matrix's upper 3x3) to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (normalMatrix at offset+64)
    * @param context - Rendering context
@@ -482,14 +506,16 @@ export class PBRMaterial implements Material {
   ): void {
     if (!context?.mesh) return;
 
-    const normalMatrix = context.mesh.worldMatrix.inverse().transpose();
+    const normalMatrix = Matrix3.normalMatrix(
+      context.mesh.worldMatrix
+    ).toMatrix4();
     for (let i = 0; i < 16; i++) {
       buffer.setFloat32(offset + 64 + i * 4, normalMatrix.data[i], true);
     }
   }
 
   /**
-   * Writes base color to the uniform buffer.
+   * Writes base color and opacity to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (baseColor at offset+128)
    */
@@ -497,7 +523,7 @@ export class PBRMaterial implements Material {
     buffer.setFloat32(offset + 128, this._color.r, true);
     buffer.setFloat32(offset + 132, this._color.g, true);
     buffer.setFloat32(offset + 136, this._color.b, true);
-    buffer.setFloat32(offset + 140, 1.0, true); // alpha
+    buffer.setFloat32(offset + 140, this.opacity, true); // alpha
   }
 
   /**
@@ -525,22 +551,17 @@ export class PBRMaterial implements Material {
   }
 
   /**
-   * Writes environment map parameters to the uniform buffer.
+   * Writes environment map parameters and the sRGB decode flags of the color maps to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (envParams at offset+176)
-   * @param lightCount - Number of active lights
    *
    * envParams layout:
    * - x: envMapIntensity
-   * - y: lightCount
+   * - y: sRGB decode flags of 8-bit color maps (bit0 = map, bit1 = emissiveMap)
    * - z: envMode (0 = none, 1 = equirectangular, 2 = IBL cubemap)
    * - w: maxMipLevel (for prefiltered map roughness LOD)
    */
-  private _writeEnvParams(
-    buffer: DataView,
-    offset: number,
-    lightCount: number
-  ): void {
+  private _writeEnvParams(buffer: DataView, offset: number): void {
     // Determine environment map mode:
     // 0 = no environment map
     // 1 = equirectangular map (legacy)
@@ -556,14 +577,18 @@ export class PBRMaterial implements Material {
       maxMipLevel = 8.0; // Default for equirectangular
     }
 
+    let srgbFlags = 0;
+    if (this.map?.needsSrgbDecode) srgbFlags |= 1;
+    if (this.emissiveMap?.needsSrgbDecode) srgbFlags |= 2;
+
     buffer.setFloat32(offset + 176, this._envMapIntensity, true);
-    buffer.setFloat32(offset + 180, lightCount, true);
+    buffer.setFloat32(offset + 180, srgbFlags, true);
     buffer.setFloat32(offset + 184, envMode, true);
     buffer.setFloat32(offset + 188, maxMipLevel, true);
   }
 
   /**
-   * Writes camera position to the uniform buffer.
+   * Writes camera position and the mesh receiveShadow flag to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (cameraPosition at offset+192)
    * @param context - Rendering context
@@ -579,7 +604,11 @@ export class PBRMaterial implements Material {
     buffer.setFloat32(offset + 192, cameraWorldMatrix[12], true);
     buffer.setFloat32(offset + 196, cameraWorldMatrix[13], true);
     buffer.setFloat32(offset + 200, cameraWorldMatrix[14], true);
-    buffer.setFloat32(offset + 204, 0.0, true); // unused
+    buffer.setFloat32(
+      offset + 204,
+      context.mesh?.receiveShadow ? 1.0 : 0.0,
+      true
+    );
   }
 
   /**
@@ -617,110 +646,4 @@ export class PBRMaterial implements Material {
       buffer.setFloat32(offset + 220, 0.03, true);
     }
   }
-
-  /**
-   * Writes light data to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset (lights at offset+224)
-   * @param context - Rendering context
-   * @returns Number of lights written
-   */
-  private _writeLights(
-    buffer: DataView,
-    offset: number,
-    context?: RenderContext
-  ): number {
-    const maxLights = 4;
-    const lightBaseOffset = offset + 224;
-    let lightIndex = 0;
-
-    if (context?.lights) {
-      for (const light of context.lights) {
-        if (lightIndex >= maxLights) break;
-        if (light instanceof AmbientLight) continue;
-
-        const lightOffset = lightBaseOffset + lightIndex * 48;
-
-        if (light instanceof DirectionalLight) {
-          this._writeDirectionalLight(buffer, lightOffset, light);
-          lightIndex++;
-        } else if (light instanceof PointLight) {
-          this._writePointLight(buffer, lightOffset, light);
-          lightIndex++;
-        }
-      }
-    }
-
-    // Zero out remaining light slots
-    for (let i = lightIndex; i < maxLights; i++) {
-      const lightOffset = lightBaseOffset + i * 48;
-      for (let j = 0; j < 12; j++) {
-        buffer.setFloat32(lightOffset + j * 4, 0.0, true);
-      }
-    }
-
-    return lightIndex;
-  }
-
-  /**
-   * Writes directional light data to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Absolute offset for this light slot
-   * @param light - Directional light instance
-   */
-  private _writeDirectionalLight(
-    buffer: DataView,
-    offset: number,
-    light: DirectionalLight
-  ): void {
-    // Direction
-    buffer.setFloat32(offset, light.direction.x, true);
-    buffer.setFloat32(offset + 4, light.direction.y, true);
-    buffer.setFloat32(offset + 8, light.direction.z, true);
-    buffer.setFloat32(offset + 12, 0.0, true);
-
-    // Color and intensity
-    buffer.setFloat32(offset + 16, light.color.r, true);
-    buffer.setFloat32(offset + 20, light.color.g, true);
-    buffer.setFloat32(offset + 24, light.color.b, true);
-    buffer.setFloat32(offset + 28, light.intensity, true);
-
-    // Params: type=0 (directional)
-    buffer.setFloat32(offset + 32, 0.0, true);
-    buffer.setFloat32(offset + 36, 0.0, true);
-    buffer.setFloat32(offset + 40, 0.0, true);
-    buffer.setFloat32(offset + 44, 0.0, true);
-  }
-
-  /**
-   * Writes point light data to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Absolute offset for this light slot
-   * @param light - Point light instance
-   */
-  private _writePointLight(
-    buffer: DataView,
-    offset: number,
-    light: PointLight
-  ): void {
-    // Position
-    light.updateWorldMatrix(true, false);
-    buffer.setFloat32(offset, light.worldMatrix.data[12], true);
-    buffer.setFloat32(offset + 4, light.worldMatrix.data[13], true);
-    buffer.setFloat32(offset + 8, light.worldMatrix.data[14], true);
-    buffer.setFloat32(offset + 12, 0.0, true);
-
-    // Color and intensity
-    buffer.setFloat32(offset + 16, light.color.r, true);
-    buffer.setFloat32(offset + 20, light.color.g, true);
-    buffer.setFloat32(offset + 24, light.color.b, true);
-    buffer.setFloat32(offset + 28, light.intensity, true);
-
-    // Params: type=1 (point), range, attenType, attenParam
-    const attenuationFactors = light.getAttenuationFactors();
-    buffer.setFloat32(offset + 32, 1.0, true); // type: point
-    buffer.setFloat32(offset + 36, attenuationFactors[0], true); // range
-    buffer.setFloat32(offset + 40, attenuationFactors[3], true); // attenType
-    buffer.setFloat32(offset + 44, attenuationFactors[1], true); // attenParam
-  }
 }
@@ -135,13 +135,13 @@ describe("ParallaxMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 384 bytes", () => {
+    it("should return 208 bytes", () => {
       const material = new ParallaxMaterial({
         albedo: albedoTexture,
         depth: depthTexture,
       });
       // Total UBO size includes MVP (64 bytes) + material-specific block
-      expect(material.getUniformBufferSize()).toBe(384);
+      expect(material.getUniformBufferSize()).toBe(208);
     });
   });
 
@@ -187,20 +187,15 @@ describe("ParallaxMaterial", () => {
 
       material.writeUniformData(dataView, 64);
 
-      // No explicit lights provided => ambient fallback and lightCount=0.
+      // No explicit lights provided => ambient fallback.
       // Ambient light at offset+96 (64+96=160): rgb=1, intensity=0.1
       expect(dataView.getFloat32(160, true)).toBe(1);
       expect(dataView.getFloat32(164, true)).toBe(1);
       expect(dataView.getFloat32(168, true)).toBe(1);
       expect(dataView.getFloat32(172, true)).toBeCloseTo(0.1);
 
-      // Light count at offset+112 (64+112=176)
-      expect(dataView.getFloat32(176, true)).toBe(0);
-
-      // First light slot begins at offset+128 (64+128=192) and should be zeroed
-      expect(dataView.getFloat32(192, true)).toBe(0);
-      expect(dataView.getFloat32(196, true)).toBe(0);
-      expect(dataView.getFloat32(200, true)).toBe(0);
+      // params.x at offset+128 (64+128=192) holds the opacity
+      expect(dataView.getFloat32(192, true)).toBe(1);
     });
 
     it("should set hasNormalMap to 0 when no normal texture provided", () => {
@@ -374,142 +369,58 @@ describe("ParallaxMaterial", () => {
       expect(dataView.getFloat32(172, true)).toBeCloseTo(0.8);
     });
 
-    it("should write PointLight data correctly", () => {
-      const material = new ParallaxMaterial({
-        albedo: albedoTexture,
-        depth: depthTexture,
-      });
-
-      const { PointLight } = require("../light/PointLight");
-      const { Color } = require("@web-real/math");
-      const pointLight = new PointLight(
-        new Color(1, 0, 0),
-        2.0,
-        15,
-        "quadratic"
-      );
-      pointLight.position.set(3, 4, 5);
-      pointLight.updateWorldMatrix(true, false);
-
-      const buffer = new ArrayBuffer(material.getUniformBufferSize());
-      const dataView = new DataView(buffer);
-
-      material.writeUniformData(dataView, 64, { lights: [pointLight] } as any);
-
-      // Light count at offset+112 (64+112=176)
-      expect(dataView.getFloat32(176, true)).toBe(1);
-
-      // First light at offset+128 (64+128=192)
-      // Position
-      expect(dataView.getFloat32(192, true)).toBeCloseTo(3);
-      expect(dataView.getFloat32(196, true)).toBeCloseTo(4);
-      expect(dataView.getFloat32(200, true)).toBeCloseTo(5);
-
-      // Color + intensity
-      expect(dataView.getFloat32(208, true)).toBe(1);
-      expect(dataView.getFloat32(212, true)).toBe(0);
-      expect(dataView.getFloat32(216, true)).toBe(0);
-      expect(dataView.getFloat32(220, true)).toBe(2);
-
-      // Light type: 1.0 = point
-      expect(dataView.getFloat32(224, true)).toBe(1);
-    });
-
-    it("should write DirectionalLight data correctly", () => {
+    it("should write the receiveShadow flag", () => {
       const material = new ParallaxMaterial({
         albedo: albedoTexture,
         depth: depthTexture,
       });
 
-      const { DirectionalLight } = require("../light/DirectionalLight");
-      const { Color, Vector3 } = require("@web-real/math");
-      const dirLight = new DirectionalLight(
-        new Vector3(0, -1, 0),
-        new Color(1, 1, 0.8),
-        1.5
-      );
+      const mockCamera = {
+        worldMatrix: { data: new Float32Array(16) },
+      };
+      const mockMesh = {
+        worldMatrix: { data: new Float32Array(16) },
+        receiveShadow: true,
+      };
 
       const buffer = new ArrayBuffer(material.getUniformBufferSize());
       const dataView = new DataView(buffer);
 
-      material.writeUniformData(dataView, 64, { lights: [dirLight] } as any);
-
-      // Light count
-      expect(dataView.getFloat32(176, true)).toBe(1);
-
-      // First light at offset+128 (64+128=192)
-      // Direction (stored in position slot)
-      expect(dataView.getFloat32(192, true)).toBeCloseTo(0);
-      expect(dataView.getFloat32(196, true)).toBeCloseTo(-1);
-      expect(dataView.getFloat32(200, true)).toBeCloseTo(0);
+      material.writeUniformData(dataView, 64, {
+        camera: mockCamera,
+        mesh: mockMesh,
+        lights: [],
+      } as any);
 
-      // Color + intensity
-      expect(dataView.getFloat32(208, true)).toBe(1);
-      expect(dataView.getFloat32(212, true)).toBe(1);
-      expect(dataView.getFloat32(216, true)).toBeCloseTo(0.8);
-      expect(dataView.getFloat32(220, true)).toBeCloseTo(1.5);
-
-      // Light type: 0.0 = directional
-      expect(dataView.getFloat32(224, true)).toBe(0);
+      // receiveShadow in cameraPos.w at offset+76 (64+76=140)
+      expect(dataView.getFloat32(140, true)).toBe(1);
     });
 
-    it("should handle multiple lights up to 4", () => {
+    it("should use bind group 1 for the shared lighting resources", () => {
       const material = new ParallaxMaterial({
         albedo: albedoTexture,
         depth: depthTexture,
       });
 
-      const { PointLight } = require("../light/PointLight");
-      const { DirectionalLight } = require("../light/DirectionalLight");
-      const { AmbientLight } = require("../light/AmbientLight");
-      const { Color, Vector3 } = require("@web-real/math");
-
-      const lights = [
-        new AmbientLight(new Color(0.2, 0.2, 0.2), 0.3),
-        new PointLight(new Color(1, 0, 0), 1.0),
-        new DirectionalLight(new Vector3(0, -1, 0), new Color(1, 1, 1), 1.0),
-        new PointLight(new Color(0, 1, 0), 1.0),
-      ];
-
-      const buffer = new ArrayBuffer(material.getUniformBufferSize());
-      const dataView = new DataView(buffer);
-
-      material.writeUniformData(dataView, 64, { lights } as any);
-
-      // Should count 3 lights (excluding ambient)
-      expect(dataView.getFloat32(176, true)).toBe(3);
-
-      // First light type (PointLight)
-      expect(dataView.getFloat32(224, true)).toBe(1);
-
-      // Second light type (DirectionalLight)
-      expect(dataView.getFloat32(224 + 48, true)).toBe(0);
-
-      // Third light type (PointLight)
-      expect(dataView.getFloat32(224 + 96, true)).toBe(1);
+      expect(material.getLightingBindGroupIndex()).toBe(1);
     });
 
-    it("should limit to 4 lights maximum", () => {
+    it("should not pack scene lights into the uniform buffer", () => {
       const material = new ParallaxMaterial({
         albedo: albedoTexture,
         depth: depthTexture,
       });
 
       const { PointLight } = require("../light/PointLight");
-      const { Color } = require("@web-real/math");
-
-      const lights = Array.from(
-        { length: 6 },
-        () => new PointLight(new Color(1, 1, 1), 1.0)
-      );
+      const lights = Array.from({ length: 6 }, () => new PointLight());
 
       const buffer = new ArrayBuffer(material.getUniformBufferSize());
       const dataView = new DataView(buffer);
 
       material.writeUniformData(dataView, 64, { lights } as any);
 
-      // Should only write 4 lights
-      expect(dataView.getFloat32(176, true)).toBe(4);
+      // Lights are read from the renderer's shared light list; lightParams.x is reserved
+      expect(dataView.getFloat32(176, true)).toBe(0);
     });
 
     it("should write correct feature flags", () => {
@@ -532,6 +443,36 @@ describe("ParallaxMaterial", () => {
       expect(dataView.getFloat32(188, true)).toBe(7);
     });
 
+    it("should flag albedo maps that need sRGB decoding", () => {
+      const srgbAlbedo = new Texture(
+        {} as GPUTexture,
+        {} as GPUSampler,
+        256,
+        256,
+        "rgba8unorm-srgb"
+      );
+      const buffer = new ArrayBuffer(
+        new ParallaxMaterial({
+          albedo: albedoTexture,
+          depth: depthTexture,
+        }).getUniformBufferSize()
+      );
+      const dataView = new DataView(buffer);
+
+      // sRGB decode flag at offset+132 (64+132=196)
+      new ParallaxMaterial({
+        albedo: albedoTexture,
+        depth: depthTexture,
+      }).writeUniformData(dataView, 64);
+      expect(dataView.getFloat32(196, true)).toBe(1);
+
+      new ParallaxMaterial({
+        albedo: srgbAlbedo,
+        depth: depthTexture,
+      }).writeUniformData(dataView, 64);
+      expect(dataView.getFloat32(196, true)).toBe(0);
+    });
+
     it("should write selfShadowStrength when enabled", () => {
       const material = new ParallaxMaterial({
         albedo: albedoTexture,
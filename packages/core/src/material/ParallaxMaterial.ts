@@ -1,11 +1,16 @@
-import type { Material, VertexBufferLayout, RenderContext } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  RenderContext,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 import { Texture, DEFAULT_SAMPLER_OPTIONS } from "../texture";
-import { PointLight } from "../light/PointLight";
-import { DirectionalLight } from "../light/DirectionalLight";
 import { AmbientLight } from "../light/AmbientLight";
 
-export interface ParallaxMaterialOptions {
+export interface ParallaxMaterialOptions extends MaterialBlendingOptions {
   albedo: Texture;
   depth: Texture;
   normal?: Texture;
@@ -36,6 +41,8 @@ export interface ParallaxMaterialOptions {
   invertHeight?: boolean;
 }
 
+export interface ParallaxMaterial extends MaterialBlending {}
+
 /**
  * Parallax occlusion mapping material for 2.5D depth effects.
  * Requires geometry with UV, normals, tangents, and bitangents.
@@ -53,6 +60,8 @@ export interface ParallaxMaterialOptions {
  */
 export class ParallaxMaterial implements Material {
   readonly type = "parallax";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
   readonly albedo: Texture;
   readonly depth: Texture;
   readonly normal?: Texture;
@@ -70,6 +79,8 @@ export class ParallaxMaterial implements Material {
    * @param options - Configuration options for the material
    */
   constructor(options: ParallaxMaterialOptions) {
+    applyBlendingOptions(this, options);
+
     this.albedo = options.albedo;
     this.depth = options.depth;
     this.normal = options.normal;
@@ -259,11 +270,12 @@ export class ParallaxMaterial implements Material {
   }
 
   /**
-   * Gets the uniform buffer size for MVP, model matrix, camera, material params, ambient light, and up to 4 lights.
-   * @returns 384 bytes
+   * Gets the uniform buffer size for MVP, model matrix, camera, material params, ambient light, parallax flags and opacity.
+   * Scene lights are read from the renderer's shared light list.
+   * @returns 208 bytes
    */
   getUniformBufferSize(): number {
-    return 384;
+    return 208;
   }
 
   /**
@@ -316,6 +328,14 @@ export class ParallaxMaterial implements Material {
     return this._dummyNormalTexture;
   }
 
+  /**
+   * Gets the bind group index used for the shared lighting resources (light list and shadow maps).
+   * @returns 1 (group 0 holds the per-mesh uniforms and textures)
+   */
+  getLightingBindGroupIndex(): number {
+    return 1;
+  }
+
   /**
    * Gets all textures for binding to the shader.
    * @param device - WebGPU device (required if no normal texture provided)
@@ -336,7 +356,7 @@ export class ParallaxMaterial implements Material {
   }
 
   /**
-   * Writes camera position, material parameters, ambient light, and up to 4 lights to the uniform buffer.
+   * Writes camera position, material parameters, ambient light, and parallax flags to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Byte offset to start writing (default: 64). This represents the absolute position
    *                 where modelMatrix begins. All subsequent writes use relative offsets from this parameter.
@@ -351,8 +371,8 @@ export class ParallaxMaterial implements Material {
     this._writeCameraPosition(buffer, offset, context);
     this._writeMaterialParams(buffer, offset);
     this._writeAmbientLight(buffer, offset, context);
-    const lightCount = this._writeLights(buffer, offset, context);
-    this._writeLightCount(buffer, offset, lightCount);
+    this._writeLightParams(buffer, offset);
+    this._writeParams(buffer, offset);
   }
 
   /**
@@ -374,7 +394,7 @@ export class ParallaxMaterial implements Material {
   }
 
   /**
-   * Writes camera position to the uniform buffer.
+   * Writes camera position and the mesh receiveShadow flag to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (cameraPosition at offset+64)
    * @param context - Rendering context
@@ -390,7 +410,11 @@ export class ParallaxMaterial implements Material {
     buffer.setFloat32(offset + 64, cameraWorldMatrix[12], true);
     buffer.setFloat32(offset + 68, cameraWorldMatrix[13], true);
     buffer.setFloat32(offset + 72, cameraWorldMatrix[14], true);
-    buffer.setFloat32(offset + 76, 0, true);
+    buffer.setFloat32(
+      offset + 76,
+      context.mesh?.receiveShadow ? 1 : 0,
+      true
+    );
   }
 
   /**
@@ -443,17 +467,12 @@ export class ParallaxMaterial implements Material {
   }
 
   /**
-   * Writes light count to the uniform buffer.
+   * Writes self-shadow strength and parallax feature flags to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
    * @param offset - Base offset (lightParams at offset+112)
-   * @param lightCount - Number of active lights
    */
-  private _writeLightCount(
-    buffer: DataView,
-    offset: number,
-    lightCount: number
-  ): void {
-    buffer.setFloat32(offset + 112, lightCount, true);
+  private _writeLightParams(buffer: DataView, offset: number): void {
+    buffer.setFloat32(offset + 112, 0, true); // reserved
     // y: self-shadow strength (cheap inner shadow)
     buffer.setFloat32(
       offset + 116,
@@ -473,109 +492,13 @@ export class ParallaxMaterial implements Material {
   }
 
   /**
-   * Writes up to 4 lights (PointLight or DirectionalLight) to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param offset - Base offset (lights start at offset+128)
-   * @param context - Rendering context
-   * @returns Number of lights written
-   */
-  private _writeLights(
-    buffer: DataView,
-    offset: number,
-    context?: RenderContext
-  ): number {
-    const maxLights = 4;
-    const lightBaseOffset = offset + 128; // lights start after ambientLight(16) + lightParams(16)
-    let lightIndex = 0;
-
-    if (context?.lights) {
-      for (const light of context.lights) {
-        if (lightIndex >= maxLights) break;
-        if (light instanceof AmbientLight) continue; // Skip ambient, handled separately
-
-        const lightOffset = lightBaseOffset + lightIndex * 48; // Each light: 48 bytes (3 x vec4f)
-
-        if (light instanceof DirectionalLight) {
-          this._writeDirectionalLight(buffer, lightOffset, light);
-          lightIndex++;
-        } else if (light instanceof PointLight) {
-          this._writePointLight(buffer, lightOffset, light);
-          lightIndex++;
-        }
-      }
-    }
-
-    // Zero out remaining light slots
-    for (let i = lightIndex; i < maxLights; i++) {
-      const lightOffset = lightBaseOffset + i * 48;
-      for (let j = 0; j < 12; j++) {
-        buffer.setFloat32(lightOffset + j * 4, 0, true);
-      }
-    }
-
-    return lightIndex;
-  }
-
-  /**
-   * Writes directional light data to the uniform buffer.
-   * @param buffer - DataView of the uniform buffer
-   * @param lightOffset - Byte offset for this light slot
-   * @param light - DirectionalLight instance
-   */
-  private _writeDirectionalLight(
-    buffer: DataView,
-    lightOffset: number,
-    light: DirectionalLight
-  ): void {
-    // Position slot used for direction vector (negated for incoming light direction)
-    buffer.setFloat32(lightOffset, light.direction.x, true);
-    buffer.setFloat32(lightOffset + 4, light.direction.y, true);
-    buffer.setFloat32(lightOffset + 8, light.direction.z, true);
-    buffer.setFloat32(lightOffset + 12, 0, true);
-
-    // Color + intensity
-    buffer.setFloat32(lightOffset + 16, light.color.r, true);
-    buffer.setFloat32(lightOffset + 20, light.color.g, true);
-    buffer.setFloat32(lightOffset + 24, light.color.b, true);
-    buffer.setFloat32(lightOffset + 28, light.intensity, true);
-
-    // Params: type=0 (directional), rest=0
-    buffer.setFloat32(lightOffset + 32, 0, true); // type: directional
-    buffer.setFloat32(lightOffset + 36, 0, true); // range (unused)
-    buffer.setFloat32(lightOffset + 40, 0, true); // attenType (unused)
-    buffer.setFloat32(lightOffset + 44, 0, true); // attenParam (unused)
-  }
-
-  /**
-   * Writes point light data to the uniform buffer.
+   * Writes material params to the uniform buffer.
    * @param buffer - DataView of the uniform buffer
-   * @param lightOffset - Byte offset for this light slot
-   * @param light - PointLight instance
+   * @param offset - Base offset (params at offset+128). Params are vec4f: x = opacity,
+   *                 y = decode the albedo from sRGB (0 or 1), zw = unused
    */
-  private _writePointLight(
-    buffer: DataView,
-    lightOffset: number,
-    light: PointLight
-  ): void {
-    light.updateWorldMatrix(true, false);
-
-    // World position from transform matrix
-    buffer.setFloat32(lightOffset, light.worldMatrix.data[12], true);
-    buffer.setFloat32(lightOffset + 4, light.worldMatrix.data[13], true);
-    buffer.setFloat32(lightOffset + 8, light.worldMatrix.data[14], true);
-    buffer.setFloat32(lightOffset + 12, 0, true);
-
-    // Color + intensity
-    buffer.setFloat32(lightOffset + 16, light.color.r, true);
-    buffer.setFloat32(lightOffset + 20, light.color.g, true);
-    buffer.setFloat32(lightOffset + 24, light.color.b, true);
-    buffer.setFloat32(lightOffset + 28, light.intensity, true);
-
-    // Params: type=1 (point), range, attenType, attenParam
-    const attenuationFactors = light.getAttenuationFactors();
-    buffer.setFloat32(lightOffset + 32, 1.0, true); // type: point
-    buffer.setFloat32(lightOffset + 36, attenuationFactors[0], true); // range
-    buffer.setFloat32(lightOffset + 40, attenuationFactors[3], true); // attenType code
-    buffer.setFloat32(lightOffset + 44, attenuationFactors[1], true); // attenParam
+  private _writeParams(buffer: DataView, offset: number): void {
+    buffer.setFloat32(offset + 128, this.opacity, true);
+    buffer.setFloat32(offset + 132, this.albedo.needsSrgbDecode ? 1 : 0, true);
   }
 }
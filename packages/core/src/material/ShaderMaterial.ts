@@ -1,4 +1,10 @@
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 
 /**
  * Configuration options for creating a ShaderMaterial.
@@ -10,7 +16,7 @@ import type { Material, VertexBufferLayout } from "./Material";
  * - First field in Uniforms struct: `mvpMatrix: mat4x4f` (64 bytes at offset 0)
  *   - Written by Renderer as P*V*M (local -> clip)
  */
-export interface ShaderMaterialOptions {
+export interface ShaderMaterialOptions extends MaterialBlendingOptions {
   vertexShader: string;
   fragmentShader: string;
   vertexBufferLayout?: VertexBufferLayout;
@@ -42,8 +48,13 @@ function hashShaderCode(vertex: string, fragment: string): string {
   return Math.abs(hash).toString(36);
 }
 
+export interface ShaderMaterial extends MaterialBlending {}
+
 /**
  * Material that uses custom WGSL shaders for rendering.
+ * Its opacity is not applied automatically; custom shaders read it from their own uniforms.
+ * Fragment shaders output linear colors, which the renderer tone maps and sRGB encodes
+ * on the canvas, so display (sRGB) inputs must be decoded, e.g. with pow(color, 2.2).
  *
  * @example
  * ```ts
@@ -77,6 +88,8 @@ export class ShaderMaterial implements Material {
    * @param options - Configuration options for the material
    */
   constructor(options: ShaderMaterialOptions) {
+    applyBlendingOptions(this, options);
+
     // Generate type based on shader code hash for consistent pipeline caching
     // Same shader code = same type = shared pipeline (even across HMR)
     const hash = hashShaderCode(options.vertexShader, options.fragmentShader);
@@ -9,7 +9,7 @@ export interface SkyboxMaterialOptions {
   equirectangularMap?: Texture;
   /** Cubemap environment texture */
   cubeMap?: CubeTexture;
-  /** Exposure value for HDR tone mapping (default: 1.0) */
+  /** Brightness multiplier of the environment, applied before the renderer's exposure (default: 1.0) */
   exposure?: number;
   /** Roughness value for blur effect via mip level sampling (default: 0.0) */
   roughness?: number;
@@ -18,7 +18,8 @@ export interface SkyboxMaterialOptions {
 /**
  * Material for rendering environment skybox backgrounds.
  * Supports both equirectangular (2:1 panorama) and cubemap textures.
- * Features ACES tone mapping, exposure control, and roughness-based blur.
+ * Outputs linear HDR colors that the renderer tone maps like the rest of the scene,
+ * with a per-skybox exposure and roughness-based blur.
  *
  * @example
  * ```ts
@@ -92,7 +93,7 @@ export class SkyboxMaterial implements Material {
   }
 
   /**
-   * Sets the exposure value for HDR tone mapping.
+   * Sets the brightness multiplier of the environment.
    * @param value - Exposure multiplier (must be positive)
    */
   setExposure(value: number): void {
@@ -85,11 +85,39 @@ describe("TextureMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 64 bytes for MVP matrix", () => {
+    it("should return 80 bytes for MVP matrix and params", () => {
       const texture = createMockTexture();
       const material = new TextureMaterial({ texture });
 
-      expect(material.getUniformBufferSize()).toBe(64);
+      expect(material.getUniformBufferSize()).toBe(80);
+    });
+  });
+
+  describe("writeUniformData", () => {
+    it("should write opacity after the MVP matrix", () => {
+      const texture = createMockTexture();
+      const material = new TextureMaterial({ texture, opacity: 0.25 });
+      const dataView = new DataView(new ArrayBuffer(80));
+
+      material.writeUniformData(dataView);
+
+      expect(dataView.getFloat32(64, true)).toBe(0.25);
+    });
+
+    it("should flag textures that need sRGB decoding", () => {
+      const encoded = {
+        ...createMockTexture(),
+        needsSrgbDecode: true,
+      } as unknown as Texture;
+      const dataView = new DataView(new ArrayBuffer(80));
+
+      new TextureMaterial({ texture: encoded }).writeUniformData(dataView);
+      expect(dataView.getFloat32(68, true)).toBe(1);
+
+      new TextureMaterial({ texture: createMockTexture() }).writeUniformData(
+        dataView
+      );
+      expect(dataView.getFloat32(68, true)).toBe(0);
     });
   });
 
@@ -1,14 +1,22 @@
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 import type { Texture } from "../texture";
 
 /**
  * Options for creating a TextureMaterial.
  */
-export interface TextureMaterialOptions {
+export interface TextureMaterialOptions extends MaterialBlendingOptions {
   texture: Texture;
 }
 
+export interface TextureMaterial extends MaterialBlending {}
+
 /**
  * A material that renders geometry with a texture map.
  *
@@ -21,6 +29,8 @@ export interface TextureMaterialOptions {
  */
 export class TextureMaterial implements Material {
   readonly type = "texture";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
   readonly texture: Texture;
 
   /**
@@ -28,6 +38,8 @@ export class TextureMaterial implements Material {
    * @param options - Configuration options including the texture to use
    */
   constructor(options: TextureMaterialOptions) {
+    applyBlendingOptions(this, options);
+
     this.texture = options.texture;
   }
 
@@ -76,11 +88,11 @@ export class TextureMaterial implements Material {
   }
 
   /**
-   * Returns the uniform buffer size for MVP matrix.
-   * @returns The buffer size in bytes (64 bytes for mat4x4f)
+   * Returns the uniform buffer size for MVP matrix and material params.
+   * @returns The buffer size in bytes (64 for mat4x4f + 16 for params)
    */
   getUniformBufferSize(): number {
-    return 64;
+    return 80;
   }
 
   /**
@@ -106,4 +118,15 @@ export class TextureMaterial implements Material {
   getTextures(): Texture[] {
     return [this.texture];
   }
+
+  /**
+   * Writes material params to the uniform buffer.
+   * @param buffer - DataView of the uniform buffer
+   * @param offset - Byte offset to start writing (default: 64). Params are vec4f: x = opacity,
+   *                 y = decode the texture from sRGB (0 or 1), zw = unused
+   */
+  writeUniformData(buffer: DataView, offset: number = 64): void {
+    buffer.setFloat32(offset, this.opacity, true);
+    buffer.setFloat32(offset + 4, this.texture.needsSrgbDecode ? 1 : 0, true);
+  }
 }
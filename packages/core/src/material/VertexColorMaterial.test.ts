@@ -153,10 +153,10 @@ describe("VertexColorMaterial", () => {
   });
 
   describe("getUniformBufferSize", () => {
-    it("should return 64 bytes for MVP matrix", () => {
+    it("should return 80 bytes for MVP matrix and params", () => {
       const material = new VertexColorMaterial();
 
-      expect(material.getUniformBufferSize()).toBe(64);
+      expect(material.getUniformBufferSize()).toBe(80);
     });
   });
 
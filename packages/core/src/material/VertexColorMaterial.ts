@@ -1,5 +1,11 @@
 import { Color } from "@web-real/math";
-import type { Material, VertexBufferLayout } from "./Material";
+import type {
+  Material,
+  VertexBufferLayout,
+  MaterialBlendingOptions,
+  MaterialBlending,
+} from "./Material";
+import { applyBlendingOptions } from "./Material";
 import { ShaderLib } from "../shaders";
 
 const DEFAULT_FACE_COLORS: Color[] = [
@@ -14,12 +20,14 @@ const DEFAULT_FACE_COLORS: Color[] = [
 /**
  * Options for creating a VertexColorMaterial.
  */
-export interface VertexColorMaterialOptions {
+export interface VertexColorMaterialOptions extends MaterialBlendingOptions {
   colors?: Float32Array;
   faceColors?: Color[];
   verticesPerFace?: number;
 }
 
+export interface VertexColorMaterial extends MaterialBlending {}
+
 /**
  * A material that renders geometry with per-vertex colors.
  *
@@ -35,6 +43,8 @@ export interface VertexColorMaterialOptions {
  */
 export class VertexColorMaterial implements Material {
   readonly type = "vertexColor";
+  /** Reads per-instance transforms and colors, so it can draw an InstancedMesh */
+  readonly supportsInstancing = true;
 
   private _colors: Float32Array;
 
@@ -43,6 +53,8 @@ export class VertexColorMaterial implements Material {
    * @param options - Configuration options for colors (default: uses DEFAULT_FACE_COLORS)
    */
   constructor(options: VertexColorMaterialOptions = {}) {
+    applyBlendingOptions(this, options);
+
     if (options.colors) {
       this._colors = options.colors;
     } else {
@@ -132,11 +144,11 @@ export class VertexColorMaterial implements Material {
   }
 
   /**
-   * Returns the uniform buffer size for MVP matrix.
-   * @returns The buffer size in bytes (64 bytes for mat4x4f)
+   * Returns the uniform buffer size for MVP matrix and material params.
+   * @returns The buffer size in bytes (64 for mat4x4f + 16 for params)
    */
   getUniformBufferSize(): number {
-    return 64;
+    return 80;
   }
 
   /**
@@ -146,4 +158,13 @@ export class VertexColorMaterial implements Material {
   getPrimitiveTopology(): GPUPrimitiveTopology {
     return "triangle-list";
   }
+
+  /**
+   * Writes material params to the uniform buffer.
+   * @param buffer - DataView of the uniform buffer
+   * @param offset - Byte offset to start writing (default: 64). Params are vec4f: x = opacity, yzw = unused
+   */
+  writeUniformData(buffer: DataView, offset: number = 64): void {
+    buffer.setFloat32(offset, this.opacity, true);
+  }
 }
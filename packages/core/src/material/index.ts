@@ -1,4 +1,13 @@
-export type { Material, VertexBufferLayout } from "./Material";
+export type {
+  Material,
+  VertexBufferLayout,
+  BlendingMode,
+  MaterialBlending,
+  MaterialBlendingOptions,
+  MaterialRenderState,
+  MaterialSide,
+} from "./Material";
+export { applyBlendingOptions } from "./Material";
 export { BasicMaterial, type BasicMaterialOptions } from "./BasicMaterial";
 export {
   BlinnPhongMaterial,
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { BloomPass } from "./BloomPass";
+import type { PassRenderContext } from "./Pass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("BloomPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+
+  beforeEach(() => {
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => ({
+        setPipeline: mock(() => {}),
+        setBindGroup: mock(() => {}),
+        draw: mock(() => {}),
+        end: mock(() => {}),
+      })),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createBuffer: mock(() => ({ destroy: mock(() => {}) })),
+      createTexture: mock((descriptor: GPUTextureDescriptor) => {
+        const [width, height] = descriptor.size as number[];
+        return {
+          width,
+          height,
+          createView: mock((view?: GPUTextureViewDescriptor) => ({ view })),
+          destroy: mock(() => {}),
+        };
+      }),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(
+        (descriptor: GPURenderPipelineDescriptor) => descriptor
+      ),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+  });
+
+  function createContext(width = 800, height = 600): PassRenderContext {
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+    return {
+      device: mockDevice,
+      commandEncoder: mockCommandEncoder,
+      input: new Texture(gpuTexture, {} as GPUSampler, width, height),
+      output: {} as GPUTextureView,
+      outputFormat: "rgba16float",
+      scene: {} as RenderTarget,
+      camera: new PerspectiveCamera(),
+    };
+  }
+
+  function getRenderPasses(): GPURenderPassDescriptor[] {
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  describe("constructor", () => {
+    it("should use threshold-free defaults", () => {
+      const bloom = new BloomPass();
+
+      expect(bloom.intensity).toBe(0.04);
+      expect(bloom.radius).toBe(0.005);
+      expect(bloom.threshold).toBe(0);
+      expect(bloom.knee).toBe(0.5);
+      expect(bloom.levels).toBe(0);
+    });
+
+    it("should throw when levels is not a positive integer", () => {
+      expect(() => new BloomPass({ levels: 0 })).toThrow(
+        "BloomPass levels must be a positive integer (got 0)"
+      );
+    });
+  });
+
+  describe("render", () => {
+    it("should downsample, upsample and composite the chain", () => {
+      // Arrange
+      const bloom = new BloomPass({ levels: 4 });
+      const context = createContext();
+
+      // Act
+      bloom.render(context);
+
+      // Assert
+      const labels = getRenderPasses().map((pass) => pass.label);
+      expect(labels).toEqual([
+        "Bloom Prefilter",
+        "Bloom Downsample",
+        "Bloom Downsample",
+        "Bloom Downsample",
+        "Bloom Upsample",
+        "Bloom Upsample",
+        "Bloom Upsample",
+        "Bloom Composite",
+      ]);
+
+      const passes = getRenderPasses();
+      const attachments = passes.map((pass) => [...pass.colorAttachments][0]!);
+      expect(attachments[4].loadOp).toBe("load");
+      expect((attachments[4].view as any).view.baseMipLevel).toBe(2);
+      expect((attachments[6].view as any).view.baseMipLevel).toBe(0);
+      expect(attachments[7].view).toBe(context.output);
+    });
+
+    it("should create a half-size HDR mip chain limited by its size", () => {
+      const bloom = new BloomPass({ levels: 8 });
+
+      bloom.render(createContext(64, 32));
+
+      const descriptor = (mockDevice.createTexture as any).mock.calls[0][0];
+      expect(descriptor.size).toEqual([32, 16]);
+      expect(descriptor.format).toBe("rgba16float");
+      expect(descriptor.mipLevelCount).toBe(5);
+      expect(bloom.levels).toBe(5);
+    });
+
+    it("should blend upsampled levels additively", () => {
+      new BloomPass().render(createContext());
+
+      const pipelines = (mockDevice.createRenderPipeline as any).mock.calls.map(
+        (call: any[]) => call[0]
+      );
+      const upsample = pipelines.find(
+        (pipeline: any) => pipeline.fragment.entryPoint === "upsample"
+      );
+      expect(upsample.fragment.targets[0].blend.color).toEqual({
+        srcFactor: "one",
+        dstFactor: "one",
+      });
+    });
+
+    it("should write the current settings to the uniform buffer", () => {
+      const bloom = new BloomPass();
+      bloom.threshold = 1;
+      bloom.knee = 0.25;
+      bloom.radius = 0.01;
+      bloom.intensity = 0.5;
+
+      bloom.render(createContext());
+
+      const [, , data] = (mockDevice.queue.writeBuffer as any).mock.calls[0];
+      expect(Array.from(new Float32Array(data))).toEqual([
+        1,
+        0.25,
+        Math.fround(0.01),
+        0.5,
+      ]);
+    });
+
+    it("should recreate the mip chain when the input size changes", () => {
+      const bloom = new BloomPass();
+
+      bloom.render(createContext(800, 600));
+      bloom.render(createContext(800, 600));
+      bloom.render(createContext(400, 300));
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      expect(textures).toHaveLength(2);
+      expect(textures[0].value.destroy).toHaveBeenCalledTimes(1);
+      expect(textures[1].value.width).toBe(200);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the uniform buffer and mip chain", () => {
+      const bloom = new BloomPass();
+      bloom.render(createContext());
+
+      bloom.dispose();
+
+      const buffer = (mockDevice.createBuffer as any).mock.results[0].value;
+      const texture = (mockDevice.createTexture as any).mock.results[0].value;
+      expect(buffer.destroy).toHaveBeenCalledTimes(1);
+      expect(texture.destroy).toHaveBeenCalledTimes(1);
+      expect(bloom.levels).toBe(0);
+    });
+  });
+});
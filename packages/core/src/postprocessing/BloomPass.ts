@@ -0,0 +1,423 @@
+import bloomShader from "../shaders/postprocessing/bloom.wgsl?raw";
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import { HDR_FORMAT } from "../renderer/RenderTargets";
+import { Pass, type PassRenderContext } from "./Pass";
+
+/**
+ * Configuration options for creating a BloomPass.
+ */
+export interface BloomPassOptions {
+  /** Blend factor of the bloom over the scene color (default: 0.04) */
+  intensity?: number;
+  /** Upsample filter radius in UV units; larger values spread the glow further (default: 0.005) */
+  radius?: number;
+  /** Brightness below which pixels do not bloom; 0 blooms the whole image (default: 0) */
+  threshold?: number;
+  /** Soft transition around the threshold, as a fraction of it (0-1) (default: 0.5) */
+  knee?: number;
+  /** Number of levels in the downsample chain, limited by the output size (default: 6) */
+  levels?: number;
+}
+
+/** Must match the size of Uniforms in shaders/postprocessing/bloom.wgsl. */
+const UNIFORM_BUFFER_SIZE = 16;
+
+/**
+ * Physically based bloom on the HDR scene color. The scene is downsampled into a
+ * chain of half-resolution levels with a 13-tap filter, upsampled back with a tent
+ * filter that accumulates every level, and blended over the scene by intensity.
+ * Bright emissive surfaces therefore glow without a hard brightness cutoff.
+ *
+ * @example
+ * ```ts
+ * const bloom = new BloomPass({ intensity: 0.05, radius: 0.006 });
+ * composer.addPass(bloom);
+ *
+ * // Only bloom values brighter than 1 with a soft knee
+ * bloom.threshold = 1;
+ * bloom.knee = 0.5;
+ * ```
+ */
+export class BloomPass extends Pass {
+  /** Blend factor of the bloom over the scene color */
+  public intensity: number;
+  /** Upsample filter radius in UV units */
+  public radius: number;
+  /** Brightness below which pixels do not bloom; 0 disables thresholding */
+  public threshold: number;
+  /** Soft transition around the threshold, as a fraction of it */
+  public knee: number;
+
+  private _maxLevels: number;
+  private _uniformData = new ArrayBuffer(UNIFORM_BUFFER_SIZE);
+
+  private _device?: GPUDevice;
+  private _uniformBuffer?: GPUBuffer;
+  private _sampler?: GPUSampler;
+  private _vertexModule?: GPUShaderModule;
+  private _fragmentModule?: GPUShaderModule;
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _compositeBindGroupLayout?: GPUBindGroupLayout;
+  private _prefilterPipeline?: GPURenderPipeline;
+  private _downsamplePipeline?: GPURenderPipeline;
+  private _upsamplePipeline?: GPURenderPipeline;
+  private _compositePipelines: Map<GPUTextureFormat, GPURenderPipeline> =
+    new Map();
+
+  private _mipTexture?: GPUTexture;
+  private _mipViews: GPUTextureView[] = [];
+  private _downsampleBindGroups: GPUBindGroup[] = [];
+  private _upsampleBindGroups: GPUBindGroup[] = [];
+  private _inputBindGroups: WeakMap<
+    GPUTexture,
+    { prefilter: GPUBindGroup; composite: GPUBindGroup }
+  > = new WeakMap();
+
+  /**
+   * Creates a new BloomPass.
+   * @param options - Bloom intensity, radius, threshold and chain length
+   * @throws {Error} If levels is not a positive integer
+   */
+  constructor(options: BloomPassOptions = {}) {
+    super();
+
+    const levels = options.levels ?? 6;
+    if (!Number.isInteger(levels) || levels < 1) {
+      throw new Error(
+        `BloomPass levels must be a positive integer (got ${levels})`
+      );
+    }
+
+    this.intensity = options.intensity ?? 0.04;
+    this.radius = options.radius ?? 0.005;
+    this.threshold = options.threshold ?? 0;
+    this.knee = options.knee ?? 0.5;
+    this._maxLevels = levels;
+  }
+
+  /**
+   * Number of levels in the current downsample chain, 0 before the first render.
+   */
+  get levels(): number {
+    return this._mipViews.length;
+  }
+
+  render(context: PassRenderContext): void {
+    const { device, commandEncoder, input } = context;
+    if (this._device !== device) {
+      this._createResources(device);
+    }
+    if (
+      !this._mipTexture ||
+      this._mipTexture.width !== Math.max(1, input.width >> 1) ||
+      this._mipTexture.height !== Math.max(1, input.height >> 1)
+    ) {
+      this._createMipChain(input.width, input.height);
+    }
+
+    const view = new DataView(this._uniformData);
+    view.setFloat32(0, this.threshold, true);
+    view.setFloat32(4, this.knee, true);
+    view.setFloat32(8, this.radius, true);
+    view.setFloat32(12, this.intensity, true);
+    device.queue.writeBuffer(this._uniformBuffer!, 0, this._uniformData);
+
+    const inputBindGroups = this._getInputBindGroups(input.gpuTexture);
+    const levels = this._mipViews.length;
+
+    // Downsample: scene -> level 0 -> level 1 -> ...
+    this._drawFullscreen(
+      commandEncoder,
+      "Bloom Prefilter",
+      this._mipViews[0],
+      this._prefilterPipeline!,
+      inputBindGroups.prefilter,
+      "clear"
+    );
+    for (let level = 1; level < levels; level++) {
+      this._drawFullscreen(
+        commandEncoder,
+        "Bloom Downsample",
+        this._mipViews[level],
+        this._downsamplePipeline!,
+        this._downsampleBindGroups[level],
+        "clear"
+      );
+    }
+
+    // Upsample: each level is blurred and added onto the next larger one
+    for (let level = levels - 2; level >= 0; level--) {
+      this._drawFullscreen(
+        commandEncoder,
+        "Bloom Upsample",
+        this._mipViews[level],
+        this._upsamplePipeline!,
+        this._upsampleBindGroups[level],
+        "load"
+      );
+    }
+
+    this._drawFullscreen(
+      commandEncoder,
+      "Bloom Composite",
+      context.output,
+      this._getCompositePipeline(context.outputFormat),
+      inputBindGroups.composite,
+      "clear"
+    );
+  }
+
+  /**
+   * Destroys the uniform buffer and the downsample chain; the pass recreates
+   * its resources if rendered again.
+   */
+  dispose(): void {
+    this._uniformBuffer?.destroy();
+    this._mipTexture?.destroy();
+    this._uniformBuffer = undefined;
+    this._mipTexture = undefined;
+    this._device = undefined;
+    this._mipViews = [];
+    this._downsampleBindGroups = [];
+    this._upsampleBindGroups = [];
+    this._inputBindGroups = new WeakMap();
+    this._compositePipelines.clear();
+  }
+
+  private _drawFullscreen(
+    commandEncoder: GPUCommandEncoder,
+    label: string,
+    view: GPUTextureView,
+    pipeline: GPURenderPipeline,
+    bindGroup: GPUBindGroup,
+    loadOp: GPULoadOp
+  ): void {
+    const passEncoder = commandEncoder.beginRenderPass({
+      label,
+      colorAttachments: [
+        {
+          view,
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+          loadOp,
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(pipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    passEncoder.draw(3);
+    passEncoder.end();
+  }
+
+  /**
+   * Returns the bind groups sampling the input texture, creating them on first use.
+   */
+  private _getInputBindGroups(texture: GPUTexture): {
+    prefilter: GPUBindGroup;
+    composite: GPUBindGroup;
+  } {
+    let bindGroups = this._inputBindGroups.get(texture);
+    if (!bindGroups) {
+      const device = this._device!;
+      const inputView = texture.createView();
+      bindGroups = {
+        prefilter: this._createSourceBindGroup(inputView),
+        composite: device.createBindGroup({
+          label: "Bloom Composite Bind Group",
+          layout: this._compositeBindGroupLayout!,
+          entries: [
+            { binding: 0, resource: inputView },
+            { binding: 1, resource: this._sampler! },
+            { binding: 2, resource: { buffer: this._uniformBuffer! } },
+            { binding: 3, resource: this._mipViews[0] },
+          ],
+        }),
+      };
+      this._inputBindGroups.set(texture, bindGroups);
+    }
+    return bindGroups;
+  }
+
+  private _createSourceBindGroup(source: GPUTextureView): GPUBindGroup {
+    return this._device!.createBindGroup({
+      label: "Bloom Bind Group",
+      layout: this._bindGroupLayout!,
+      entries: [
+        { binding: 0, resource: source },
+        { binding: 1, resource: this._sampler! },
+        { binding: 2, resource: { buffer: this._uniformBuffer! } },
+      ],
+    });
+  }
+
+  /**
+   * Recreates the downsample chain at half the output size, with one view per level.
+   */
+  private _createMipChain(width: number, height: number): void {
+    const device = this._device!;
+    this._mipTexture?.destroy();
+
+    const mipWidth = Math.max(1, width >> 1);
+    const mipHeight = Math.max(1, height >> 1);
+    const levels = Math.min(
+      this._maxLevels,
+      Math.floor(Math.log2(Math.min(mipWidth, mipHeight))) + 1
+    );
+
+    this._mipTexture = device.createTexture({
+      label: "Bloom Mip Chain",
+      size: [mipWidth, mipHeight],
+      format: HDR_FORMAT,
+      mipLevelCount: levels,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+
+    this._mipViews = [];
+    for (let level = 0; level < levels; level++) {
+      this._mipViews.push(
+        this._mipTexture.createView({ baseMipLevel: level, mipLevelCount: 1 })
+      );
+    }
+
+    // Downsampling into level N reads level N - 1, upsampling into it reads N + 1
+    this._downsampleBindGroups = [];
+    this._upsampleBindGroups = [];
+    for (let level = 1; level < levels; level++) {
+      this._downsampleBindGroups[level] = this._createSourceBindGroup(
+        this._mipViews[level - 1]
+      );
+      this._upsampleBindGroups[level - 1] = this._createSourceBindGroup(
+        this._mipViews[level]
+      );
+    }
+    this._inputBindGroups = new WeakMap();
+  }
+
+  private _getCompositePipeline(format: GPUTextureFormat): GPURenderPipeline {
+    let pipeline = this._compositePipelines.get(format);
+    if (!pipeline) {
+      pipeline = this._createPipeline(
+        "Bloom Composite",
+        "composite",
+        this._compositeBindGroupLayout!,
+        format
+      );
+      this._compositePipelines.set(format, pipeline);
+    }
+    return pipeline;
+  }
+
+  private _createPipeline(
+    label: string,
+    entryPoint: string,
+    bindGroupLayout: GPUBindGroupLayout,
+    format: GPUTextureFormat,
+    blend?: GPUBlendState
+  ): GPURenderPipeline {
+    const device = this._device!;
+    return device.createRenderPipeline({
+      label: `${label} Pipeline`,
+      layout: device.createPipelineLayout({
+        label: `${label} Pipeline Layout`,
+        bindGroupLayouts: [bindGroupLayout],
+      }),
+      vertex: {
+        module: this._vertexModule!,
+        entryPoint: "main",
+      },
+      fragment: {
+        module: this._fragmentModule!,
+        entryPoint,
+        targets: [{ format, blend }],
+      },
+      primitive: {
+        topology: "triangle-list",
+      },
+    });
+  }
+
+  private _createResources(device: GPUDevice): void {
+    this.dispose();
+    this._device = device;
+
+    this._uniformBuffer = device.createBuffer({
+      label: "Bloom Uniform Buffer",
+      size: UNIFORM_BUFFER_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    this._sampler = device.createSampler({
+      label: "Bloom Sampler",
+      magFilter: "linear",
+      minFilter: "linear",
+      addressModeU: "clamp-to-edge",
+      addressModeV: "clamp-to-edge",
+    });
+
+    this._vertexModule = device.createShaderModule({
+      label: "Bloom Vertex Shader",
+      code: fullscreenVertexShader,
+    });
+    this._fragmentModule = device.createShaderModule({
+      label: "Bloom Fragment Shader",
+      code: bloomShader,
+    });
+
+    const entries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" },
+      },
+      {
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type: "filtering" },
+      },
+      {
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: { type: "uniform" },
+      },
+    ];
+    this._bindGroupLayout = device.createBindGroupLayout({
+      label: "Bloom Bind Group Layout",
+      entries,
+    });
+    this._compositeBindGroupLayout = device.createBindGroupLayout({
+      label: "Bloom Composite Bind Group Layout",
+      entries: [
+        ...entries,
+        {
+          binding: 3,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: "float" },
+        },
+      ],
+    });
+
+    this._prefilterPipeline = this._createPipeline(
+      "Bloom Prefilter",
+      "prefilter",
+      this._bindGroupLayout,
+      HDR_FORMAT
+    );
+    this._downsamplePipeline = this._createPipeline(
+      "Bloom Downsample",
+      "downsample",
+      this._bindGroupLayout,
+      HDR_FORMAT
+    );
+    this._upsamplePipeline = this._createPipeline(
+      "Bloom Upsample",
+      "upsample",
+      this._bindGroupLayout,
+      HDR_FORMAT,
+      {
+        color: { srcFactor: "one", dstFactor: "one" },
+        alpha: { srcFactor: "one", dstFactor: "one" },
+      }
+    );
+  }
+}
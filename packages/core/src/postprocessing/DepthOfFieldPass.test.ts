@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { DepthOfFieldPass } from "./DepthOfFieldPass";
+import type { PassRenderContext } from "./Pass";
+import type { Camera } from "../camera/Camera";
+import { OrthographicCamera } from "../camera/OrthographicCamera";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("DepthOfFieldPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+
+  beforeEach(() => {
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => ({
+        setPipeline: mock(() => {}),
+        setBindGroup: mock(() => {}),
+        draw: mock(() => {}),
+        end: mock(() => {}),
+      })),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createBuffer: mock(() => ({ destroy: mock(() => {}) })),
+      createTexture: mock((descriptor: GPUTextureDescriptor) => {
+        const [width, height] = descriptor.size as number[];
+        return {
+          width,
+          height,
+          createView: mock(() => ({ label: descriptor.label })),
+          destroy: mock(() => {}),
+        };
+      }),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(
+        (descriptor: GPUBindGroupLayoutDescriptor) => descriptor
+      ),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(
+        (descriptor: GPUShaderModuleDescriptor) => descriptor
+      ),
+      createRenderPipeline: mock(
+        (descriptor: GPURenderPipelineDescriptor) => descriptor
+      ),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+  });
+
+  function createContext(
+    options: {
+      width?: number;
+      height?: number;
+      sampleCount?: number;
+      depth?: boolean;
+      camera?: Camera;
+    } = {}
+  ): PassRenderContext {
+    const width = options.width ?? 800;
+    const height = options.height ?? 600;
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+    const depthTexture = {
+      createView: mock(() => ({ label: "Scene Depth" })),
+    } as unknown as GPUTexture;
+    return {
+      device: mockDevice,
+      commandEncoder: mockCommandEncoder,
+      input: new Texture(gpuTexture, {} as GPUSampler, width, height),
+      output: {} as GPUTextureView,
+      outputFormat: "rgba16float",
+      scene: {
+        sampleCount: options.sampleCount ?? 4,
+        depthTexture: options.depth === false ? undefined : depthTexture,
+      } as unknown as RenderTarget,
+      camera: options.camera ?? new PerspectiveCamera(),
+    };
+  }
+
+  function getRenderPasses(): GPURenderPassDescriptor[] {
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  function getUniforms(): Float32Array {
+    const [, , data] = (mockDevice.queue.writeBuffer as any).mock.calls[0];
+    return new Float32Array(data);
+  }
+
+  describe("constructor", () => {
+    it("should default to a 12 pixel blur radius", () => {
+      expect(new DepthOfFieldPass().maxRadius).toBe(12);
+      expect(new DepthOfFieldPass({ maxRadius: 20 }).maxRadius).toBe(20);
+    });
+  });
+
+  describe("render", () => {
+    it("should compute the circle of confusion, blur and composite in order", () => {
+      // Arrange
+      const pass = new DepthOfFieldPass();
+      const context = createContext();
+
+      // Act
+      pass.render(context);
+
+      // Assert
+      const passes = getRenderPasses();
+      expect(passes.map((descriptor) => descriptor.label)).toEqual([
+        "Depth of Field Circle of Confusion",
+        "Depth of Field Bokeh",
+        "Depth of Field Composite",
+      ]);
+      const views = passes.map(
+        (descriptor) => [...descriptor.colorAttachments][0]!.view as any
+      );
+      expect(views[0].label).toBe("Depth of Field Circle of Confusion");
+      expect(views[1].label).toBe("Depth of Field Bokeh");
+      expect(views[2]).toBe(context.output);
+    });
+
+    it("should allocate a full-size CoC and a half-size HDR bokeh texture", () => {
+      const pass = new DepthOfFieldPass();
+
+      pass.render(createContext({ width: 640, height: 361 }));
+
+      const descriptors = (mockDevice.createTexture as any).mock.calls.map(
+        (call: any[]) => call[0]
+      );
+      expect(
+        descriptors.map((descriptor: GPUTextureDescriptor) => [
+          descriptor.format,
+          descriptor.size,
+        ])
+      ).toEqual([
+        ["r16float", [640, 361]],
+        ["rgba16float", [320, 180]],
+      ]);
+    });
+
+    it("should recreate the textures only when the input size changes", () => {
+      const pass = new DepthOfFieldPass();
+
+      pass.render(createContext());
+      pass.render(createContext());
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(2);
+
+      pass.render(createContext({ width: 400 }));
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(4);
+      const textures = (mockDevice.createTexture as any).mock.results;
+      expect(textures[0].value.destroy).toHaveBeenCalled();
+      expect(textures[1].value.destroy).toHaveBeenCalled();
+    });
+
+    it("should read a multisampled scene depth texture when the scene is multisampled", () => {
+      const pass = new DepthOfFieldPass();
+
+      pass.render(createContext({ sampleCount: 4 }));
+      pass.render(createContext({ sampleCount: 1 }));
+
+      const modules = (mockDevice.createShaderModule as any).mock.calls
+        .map((call: any[]) => call[0])
+        .filter((descriptor: GPUShaderModuleDescriptor) =>
+          descriptor.label!.includes("Circle of Confusion")
+        );
+      expect(modules).toHaveLength(2);
+      expect(modules[0].code).toContain(
+        "var depthTexture: texture_depth_multisampled_2d;"
+      );
+      expect(modules[1].code).toContain("var depthTexture: texture_depth_2d;");
+
+      const layouts = (mockDevice.createBindGroupLayout as any).mock.calls
+        .map((call: any[]) => call[0])
+        .filter((descriptor: GPUBindGroupLayoutDescriptor) =>
+          descriptor.label!.includes("Circle of Confusion")
+        );
+      const depthEntries = layouts.map((layout: any) => layout.entries[0]);
+      expect(depthEntries.map((entry: any) => entry.texture)).toEqual([
+        { sampleType: "depth", multisampled: true },
+        { sampleType: "depth", multisampled: false },
+      ]);
+    });
+
+    it("should write the camera clip planes, focus distance and blur radius", () => {
+      const camera = new PerspectiveCamera({
+        near: 0.5,
+        far: 200,
+        focusDistance: 4,
+      });
+      const pass = new DepthOfFieldPass({ maxRadius: 16 });
+
+      pass.render(createContext({ camera }));
+
+      const uniforms = getUniforms();
+      expect(uniforms[0]).toBe(0.5);
+      expect(uniforms[1]).toBe(200);
+      expect(uniforms[2]).toBe(4);
+      expect(uniforms[4]).toBe(16);
+    });
+
+    it("should scale the circle of confusion with the thin lens equation", () => {
+      // 50mm at f/2 focused at 2m on a 24mm sensor, 1000px high
+      const camera = new PerspectiveCamera({
+        focalLength: 50,
+        fStop: 2,
+        focusDistance: 2,
+      });
+      const pass = new DepthOfFieldPass();
+
+      pass.render(createContext({ height: 1000, camera }));
+
+      // Blur diameter at infinity: (50 / 2) * 50 / (2000 - 50) mm
+      const diameter = (25 * 50) / 1950;
+      expect(getUniforms()[3]).toBeCloseTo((diameter / 2 / 24) * 1000, 3);
+    });
+
+    it("should blur less with a smaller aperture", () => {
+      const pass = new DepthOfFieldPass();
+      const camera = new PerspectiveCamera({ fStop: 2 });
+
+      pass.render(createContext({ camera }));
+      const wide = getUniforms()[3];
+      (mockDevice.queue.writeBuffer as any).mockClear();
+      camera.fStop = 8;
+      pass.render(createContext({ camera }));
+
+      expect(getUniforms()[3]).toBeCloseTo(wide / 4, 5);
+    });
+
+    it("should throw without a perspective camera", () => {
+      const pass = new DepthOfFieldPass();
+
+      expect(() =>
+        pass.render(createContext({ camera: new OrthographicCamera() }))
+      ).toThrow("DepthOfFieldPass requires a PerspectiveCamera");
+    });
+
+    it("should throw when the scene target has no depth texture", () => {
+      const pass = new DepthOfFieldPass();
+
+      expect(() => pass.render(createContext({ depth: false }))).toThrow(
+        "DepthOfFieldPass requires a scene target with a depth texture"
+      );
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the uniform buffer and textures", () => {
+      const pass = new DepthOfFieldPass();
+      pass.render(createContext());
+
+      pass.dispose();
+
+      const buffer = (mockDevice.createBuffer as any).mock.results[0].value;
+      expect(buffer.destroy).toHaveBeenCalled();
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+});
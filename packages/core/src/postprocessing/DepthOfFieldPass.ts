@@ -0,0 +1,462 @@
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import depthOfFieldShader from "../shaders/postprocessing/depthOfField.wgsl?raw";
+import depthOfFieldCocShader from "../shaders/postprocessing/depthOfFieldCoc.frag.wgsl?raw";
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import { HDR_FORMAT } from "../renderer/RenderTargets";
+import { Pass, type PassRenderContext } from "./Pass";
+
+/**
+ * Configuration options for creating a DepthOfFieldPass.
+ */
+export interface DepthOfFieldPassOptions {
+  /** Largest blur radius in pixels at full resolution (default: 12) */
+  maxRadius?: number;
+}
+
+/** Size of Uniforms in shaders/postprocessing/depthOfField.wgsl, rounded up to 16 bytes. */
+const UNIFORM_BUFFER_SIZE = 32;
+
+/** Format of the circle of confusion texture, holding a signed radius in pixels. */
+const COC_FORMAT: GPUTextureFormat = "r16float";
+
+/** Millimeters per world unit; scene distances are taken to be in meters. */
+const MILLIMETERS_PER_UNIT = 1000;
+
+/**
+ * Depth of field from the physical lens of a PerspectiveCamera. The circle of
+ * confusion of every pixel is computed from the scene depth, focusDistance,
+ * focalLength, fStop and sensorHeight of the camera, then a bokeh blur gathers
+ * a disc of that radius at half resolution and is blended over the sharp scene.
+ *
+ * Distances are in world units, which are taken to be meters when converting
+ * the lens parameters given in millimeters.
+ *
+ * @example
+ * ```ts
+ * const camera = new PerspectiveCamera({ focalLength: 50, fStop: 1.4 });
+ * composer.addPass(new DepthOfFieldPass({ maxRadius: 16 }));
+ *
+ * // Autofocus on whatever is under the cursor
+ * raycaster.setFromCamera(pointer, camera);
+ * const [hit] = raycaster.intersectObjects(scene.children, true);
+ * if (hit) camera.focusAt(hit.point);
+ * ```
+ */
+export class DepthOfFieldPass extends Pass {
+  /** Largest blur radius in pixels at full resolution */
+  public maxRadius: number;
+
+  private _uniformData = new ArrayBuffer(UNIFORM_BUFFER_SIZE);
+
+  private _device?: GPUDevice;
+  private _uniformBuffer?: GPUBuffer;
+  private _sampler?: GPUSampler;
+  private _vertexModule?: GPUShaderModule;
+  private _fragmentModule?: GPUShaderModule;
+  private _bokehBindGroupLayout?: GPUBindGroupLayout;
+  private _compositeBindGroupLayout?: GPUBindGroupLayout;
+  private _bokehPipeline?: GPURenderPipeline;
+  private _cocPipelines: Map<
+    boolean,
+    { bindGroupLayout: GPUBindGroupLayout; pipeline: GPURenderPipeline }
+  > = new Map();
+  private _compositePipelines: Map<GPUTextureFormat, GPURenderPipeline> =
+    new Map();
+
+  private _cocTexture?: GPUTexture;
+  private _cocView?: GPUTextureView;
+  private _bokehTexture?: GPUTexture;
+  private _bokehView?: GPUTextureView;
+  private _cocBindGroups: WeakMap<GPUTexture, GPUBindGroup> = new WeakMap();
+  private _inputBindGroups: WeakMap<
+    GPUTexture,
+    { bokeh: GPUBindGroup; composite: GPUBindGroup }
+  > = new WeakMap();
+
+  /**
+   * Creates a new DepthOfFieldPass.
+   * @param options - Largest blur radius
+   */
+  constructor(options: DepthOfFieldPassOptions = {}) {
+    super();
+    this.maxRadius = options.maxRadius ?? 12;
+  }
+
+  /**
+   * Records the circle of confusion, bokeh and composite passes.
+   * @param context - Input, output and scene of the current frame
+   * @throws {Error} If the camera is not a PerspectiveCamera or the scene target has no depth texture
+   */
+  render(context: PassRenderContext): void {
+    const { device, commandEncoder, input, camera } = context;
+    const depthTexture = context.scene.depthTexture;
+    if (!(camera instanceof PerspectiveCamera)) {
+      throw new Error("DepthOfFieldPass requires a PerspectiveCamera");
+    }
+    if (!depthTexture) {
+      throw new Error(
+        "DepthOfFieldPass requires a scene target with a depth texture"
+      );
+    }
+
+    if (this._device !== device) {
+      this._createResources(device);
+    }
+    if (
+      !this._cocTexture ||
+      this._cocTexture.width !== input.width ||
+      this._cocTexture.height !== input.height
+    ) {
+      this._createTextures(input.width, input.height);
+    }
+
+    const view = new DataView(this._uniformData);
+    view.setFloat32(0, camera.near, true);
+    view.setFloat32(4, camera.far, true);
+    view.setFloat32(8, camera.focusDistance, true);
+    view.setFloat32(12, getCocScale(camera, input.height), true);
+    view.setFloat32(16, this.maxRadius, true);
+    device.queue.writeBuffer(this._uniformBuffer!, 0, this._uniformData);
+
+    const multisampled = context.scene.sampleCount > 1;
+    this._drawFullscreen(
+      commandEncoder,
+      "Depth of Field Circle of Confusion",
+      this._cocView!,
+      this._getCocPipeline(multisampled).pipeline,
+      this._getCocBindGroup(depthTexture, multisampled)
+    );
+
+    const inputBindGroups = this._getInputBindGroups(input.gpuTexture);
+    this._drawFullscreen(
+      commandEncoder,
+      "Depth of Field Bokeh",
+      this._bokehView!,
+      this._bokehPipeline!,
+      inputBindGroups.bokeh
+    );
+    this._drawFullscreen(
+      commandEncoder,
+      "Depth of Field Composite",
+      context.output,
+      this._getCompositePipeline(context.outputFormat),
+      inputBindGroups.composite
+    );
+  }
+
+  /**
+   * Destroys the uniform buffer and intermediate textures; the pass recreates
+   * its resources if rendered again.
+   */
+  dispose(): void {
+    this._uniformBuffer?.destroy();
+    this._cocTexture?.destroy();
+    this._bokehTexture?.destroy();
+    this._uniformBuffer = undefined;
+    this._cocTexture = undefined;
+    this._cocView = undefined;
+    this._bokehTexture = undefined;
+    this._bokehView = undefined;
+    this._device = undefined;
+    this._cocBindGroups = new WeakMap();
+    this._inputBindGroups = new WeakMap();
+    this._cocPipelines.clear();
+    this._compositePipelines.clear();
+  }
+
+  private _drawFullscreen(
+    commandEncoder: GPUCommandEncoder,
+    label: string,
+    view: GPUTextureView,
+    pipeline: GPURenderPipeline,
+    bindGroup: GPUBindGroup
+  ): void {
+    const passEncoder = commandEncoder.beginRenderPass({
+      label,
+      colorAttachments: [
+        {
+          view,
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(pipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    passEncoder.draw(3);
+    passEncoder.end();
+  }
+
+  /**
+   * Returns the bind group reading a scene depth texture, creating it on first use.
+   */
+  private _getCocBindGroup(
+    depthTexture: GPUTexture,
+    multisampled: boolean
+  ): GPUBindGroup {
+    let bindGroup = this._cocBindGroups.get(depthTexture);
+    if (!bindGroup) {
+      bindGroup = this._device!.createBindGroup({
+        label: "Depth of Field Circle of Confusion Bind Group",
+        layout: this._getCocPipeline(multisampled).bindGroupLayout,
+        entries: [
+          { binding: 0, resource: depthTexture.createView() },
+          { binding: 1, resource: { buffer: this._uniformBuffer! } },
+        ],
+      });
+      this._cocBindGroups.set(depthTexture, bindGroup);
+    }
+    return bindGroup;
+  }
+
+  /**
+   * Returns the bind groups sampling the input texture, creating them on first use.
+   */
+  private _getInputBindGroups(texture: GPUTexture): {
+    bokeh: GPUBindGroup;
+    composite: GPUBindGroup;
+  } {
+    let bindGroups = this._inputBindGroups.get(texture);
+    if (!bindGroups) {
+      const device = this._device!;
+      const entries: GPUBindGroupEntry[] = [
+        { binding: 0, resource: texture.createView() },
+        { binding: 1, resource: this._sampler! },
+        { binding: 2, resource: { buffer: this._uniformBuffer! } },
+        { binding: 3, resource: this._cocView! },
+      ];
+      bindGroups = {
+        bokeh: device.createBindGroup({
+          label: "Depth of Field Bokeh Bind Group",
+          layout: this._bokehBindGroupLayout!,
+          entries,
+        }),
+        composite: device.createBindGroup({
+          label: "Depth of Field Composite Bind Group",
+          layout: this._compositeBindGroupLayout!,
+          entries: [...entries, { binding: 4, resource: this._bokehView! }],
+        }),
+      };
+      this._inputBindGroups.set(texture, bindGroups);
+    }
+    return bindGroups;
+  }
+
+  /**
+   * Recreates the full-resolution circle of confusion and half-resolution bokeh textures.
+   */
+  private _createTextures(width: number, height: number): void {
+    const device = this._device!;
+    this._cocTexture?.destroy();
+    this._bokehTexture?.destroy();
+
+    const usage =
+      GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING;
+    this._cocTexture = device.createTexture({
+      label: "Depth of Field Circle of Confusion",
+      size: [width, height],
+      format: COC_FORMAT,
+      usage,
+    });
+    this._bokehTexture = device.createTexture({
+      label: "Depth of Field Bokeh",
+      size: [Math.max(1, width >> 1), Math.max(1, height >> 1)],
+      format: HDR_FORMAT,
+      usage,
+    });
+    this._cocView = this._cocTexture.createView();
+    this._bokehView = this._bokehTexture.createView();
+    this._inputBindGroups = new WeakMap();
+  }
+
+  /**
+   * Returns the circle of confusion pipeline for a single-sampled or multisampled
+   * depth texture, which reads sample 0 of a multisampled one.
+   */
+  private _getCocPipeline(multisampled: boolean): {
+    bindGroupLayout: GPUBindGroupLayout;
+    pipeline: GPURenderPipeline;
+  } {
+    let cached = this._cocPipelines.get(multisampled);
+    if (!cached) {
+      const device = this._device!;
+      const bindGroupLayout = device.createBindGroupLayout({
+        label: "Depth of Field Circle of Confusion Bind Group Layout",
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.FRAGMENT,
+            texture: { sampleType: "depth", multisampled },
+          },
+          {
+            binding: 1,
+            visibility: GPUShaderStage.FRAGMENT,
+            buffer: { type: "uniform" },
+          },
+        ],
+      });
+      const depthType = multisampled
+        ? "texture_depth_multisampled_2d"
+        : "texture_depth_2d";
+      const module = device.createShaderModule({
+        label: "Depth of Field Circle of Confusion Shader",
+        code: `@group(0) @binding(0) var depthTexture: ${depthType};\n${depthOfFieldCocShader}`,
+      });
+      const pipeline = device.createRenderPipeline({
+        label: "Depth of Field Circle of Confusion Pipeline",
+        layout: device.createPipelineLayout({
+          label: "Depth of Field Circle of Confusion Pipeline Layout",
+          bindGroupLayouts: [bindGroupLayout],
+        }),
+        vertex: {
+          module: this._vertexModule!,
+          entryPoint: "main",
+        },
+        fragment: {
+          module,
+          entryPoint: "main",
+          targets: [{ format: COC_FORMAT }],
+        },
+        primitive: {
+          topology: "triangle-list",
+        },
+      });
+      cached = { bindGroupLayout, pipeline };
+      this._cocPipelines.set(multisampled, cached);
+    }
+    return cached;
+  }
+
+  private _getCompositePipeline(format: GPUTextureFormat): GPURenderPipeline {
+    let pipeline = this._compositePipelines.get(format);
+    if (!pipeline) {
+      pipeline = this._createPipeline(
+        "Depth of Field Composite",
+        "composite",
+        this._compositeBindGroupLayout!,
+        format
+      );
+      this._compositePipelines.set(format, pipeline);
+    }
+    return pipeline;
+  }
+
+  private _createPipeline(
+    label: string,
+    entryPoint: string,
+    bindGroupLayout: GPUBindGroupLayout,
+    format: GPUTextureFormat
+  ): GPURenderPipeline {
+    const device = this._device!;
+    return device.createRenderPipeline({
+      label: `${label} Pipeline`,
+      layout: device.createPipelineLayout({
+        label: `${label} Pipeline Layout`,
+        bindGroupLayouts: [bindGroupLayout],
+      }),
+      vertex: {
+        module: this._vertexModule!,
+        entryPoint: "main",
+      },
+      fragment: {
+        module: this._fragmentModule!,
+        entryPoint,
+        targets: [{ format }],
+      },
+      primitive: {
+        topology: "triangle-list",
+      },
+    });
+  }
+
+  private _createResources(device: GPUDevice): void {
+    this.dispose();
+    this._device = device;
+
+    this._uniformBuffer = device.createBuffer({
+      label: "Depth of Field Uniform Buffer",
+      size: UNIFORM_BUFFER_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    this._sampler = device.createSampler({
+      label: "Depth of Field Sampler",
+      magFilter: "linear",
+      minFilter: "linear",
+      addressModeU: "clamp-to-edge",
+      addressModeV: "clamp-to-edge",
+    });
+
+    this._vertexModule = device.createShaderModule({
+      label: "Depth of Field Vertex Shader",
+      code: fullscreenVertexShader,
+    });
+    this._fragmentModule = device.createShaderModule({
+      label: "Depth of Field Fragment Shader",
+      code: depthOfFieldShader,
+    });
+
+    const entries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" },
+      },
+      {
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type: "filtering" },
+      },
+      {
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: { type: "uniform" },
+      },
+      {
+        binding: 3,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" },
+      },
+    ];
+    this._bokehBindGroupLayout = device.createBindGroupLayout({
+      label: "Depth of Field Bokeh Bind Group Layout",
+      entries,
+    });
+    this._compositeBindGroupLayout = device.createBindGroupLayout({
+      label: "Depth of Field Composite Bind Group Layout",
+      entries: [
+        ...entries,
+        {
+          binding: 4,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: "float" },
+        },
+      ],
+    });
+
+    this._bokehPipeline = this._createPipeline(
+      "Depth of Field Bokeh",
+      "bokeh",
+      this._bokehBindGroupLayout,
+      HDR_FORMAT
+    );
+  }
+}
+
+/**
+ * Circle of confusion radius in pixels of a point at infinite distance, which
+ * scales (1 - focusDistance / distance) into the radius at any distance.
+ * With aperture diameter f / N, the thin lens blur diameter on the sensor is
+ * (f / N) * f / (s - f) * (1 - s / distance).
+ * @param camera - Camera providing the lens and focus distance
+ * @param height - Output height in pixels, spanning the sensor height
+ */
+function getCocScale(camera: PerspectiveCamera, height: number): number {
+  const focalLength = camera.focalLength;
+  const focusDistance = camera.focusDistance * MILLIMETERS_PER_UNIT;
+  const diameter =
+    (focalLength * focalLength) /
+    (camera.fStop * Math.max(focusDistance - focalLength, 1e-3));
+  return ((0.5 * diameter) / camera.sensorHeight) * height;
+}
@@ -0,0 +1,328 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { EffectComposer } from "./EffectComposer";
+import { Pass, type PassRenderContext } from "./Pass";
+import type { Engine } from "../Engine";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { Renderer } from "../renderer/Renderer";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Scene } from "../scene/Scene";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+/**
+ * Records the context of every render call.
+ */
+class RecordingPass extends Pass {
+  contexts: PassRenderContext[] = [];
+  sizes: [number, number][] = [];
+
+  render(context: PassRenderContext): void {
+    this.contexts.push(context);
+  }
+
+  setSize(width: number, height: number): void {
+    this.sizes.push([width, height]);
+  }
+}
+
+describe("EffectComposer", () => {
+  let mockDevice: GPUDevice;
+  let mockCanvas: { width: number; height: number };
+  let mockCanvasView: GPUTextureView;
+  let mockEngine: Engine;
+  let mockRenderer: Renderer;
+  let mockPassEncoder: any;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      draw: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => {
+        const view = { descriptor } as unknown as GPUTextureView;
+        return {
+          descriptor,
+          createView: mock(() => view),
+          destroy: mock(() => {}),
+        };
+      }),
+      createBuffer: mock(() => ({ destroy: mock(() => {}) })),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      createCommandEncoder: mock(() => ({
+        beginRenderPass: mock(() => mockPassEncoder),
+        finish: mock(() => ({}) as GPUCommandBuffer),
+      })),
+      queue: {
+        writeBuffer: mock(() => {}),
+        submit: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockCanvas = { width: 800, height: 600 };
+    mockCanvasView = {} as GPUTextureView;
+    mockEngine = {
+      canvas: mockCanvas,
+      device: mockDevice,
+      context: {
+        getCurrentTexture: () => ({ createView: () => mockCanvasView }),
+      },
+      format: "bgra8unorm",
+    } as unknown as Engine;
+
+    mockRenderer = {
+      render: mock(() => {}),
+      toneMapping: "linear",
+      exposure: 1,
+      antialiasing: "none",
+      sampleCount: 4,
+    } as unknown as Renderer;
+  });
+
+  function getTextureDescriptors(): GPUTextureDescriptor[] {
+    return (mockDevice.createTexture as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  function getToneMappingPassView(): GPUTextureView {
+    const commandEncoder = (mockDevice.createCommandEncoder as any).mock
+      .results[0].value;
+    const calls = commandEncoder.beginRenderPass.mock.calls;
+    return calls[calls.length - 1][0].colorAttachments[0].view;
+  }
+
+  describe("constructor", () => {
+    it("should throw when sampleCount is not 1 or 4", () => {
+      expect(
+        () => new EffectComposer(mockEngine, mockRenderer, { sampleCount: 2 })
+      ).toThrow("EffectComposer sampleCount must be 1 or 4 (got 2)");
+    });
+  });
+
+  describe("render", () => {
+    it("should render the scene into an HDR target and tone map it to the canvas", () => {
+      // Arrange
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      const scene = new Scene();
+      const camera = new PerspectiveCamera();
+
+      // Act
+      composer.render(scene, camera);
+
+      // Assert
+      const target: RenderTarget = (mockRenderer.render as any).mock
+        .calls[0][2];
+      expect(mockRenderer.render).toHaveBeenCalledWith(scene, camera, target);
+      expect(target).toBe(composer.sceneTarget);
+      expect(target.format).toBe("rgba16float");
+      expect(target.sampleCount).toBe(4);
+      expect(target.width).toBe(800);
+      expect(target.height).toBe(600);
+      expect(getToneMappingPassView()).toBe(mockCanvasView);
+      expect(mockDevice.queue.submit).toHaveBeenCalledTimes(1);
+
+      const pipeline = (mockDevice.createRenderPipeline as any).mock
+        .calls[0][0];
+      expect(pipeline.fragment.targets[0].format).toBe("bgra8unorm");
+    });
+
+    it("should tone map with the renderer's settings", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      mockRenderer.toneMapping = "agx";
+      mockRenderer.exposure = 2;
+
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      const [, , data] = (mockDevice.queue.writeBuffer as any).mock.calls[0];
+      const view = new DataView(data);
+      expect(view.getFloat32(0, true)).toBe(2);
+      expect(view.getUint32(4, true)).toBe(3);
+    });
+
+    it("should ping-pong enabled passes between two targets", () => {
+      // Arrange
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      const first = new RecordingPass();
+      const disabled = new RecordingPass();
+      const second = new RecordingPass();
+      const third = new RecordingPass();
+      disabled.enabled = false;
+      composer
+        .addPass(first)
+        .addPass(disabled)
+        .addPass(second)
+        .addPass(third);
+
+      // Act
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      // Assert
+      expect(disabled.contexts).toHaveLength(0);
+      const [a] = first.contexts;
+      const [b] = second.contexts;
+      const [c] = third.contexts;
+      expect(a.input).toBe(composer.sceneTarget.texture);
+      expect(a.outputFormat).toBe("rgba16float");
+      expect(b.input.gpuTexture.createView()).toBe(a.output);
+      expect(c.input.gpuTexture.createView()).toBe(b.output);
+      expect(c.output).toBe(a.output);
+      expect(b.output).not.toBe(a.output);
+      expect(a.scene).toBe(composer.sceneTarget);
+    });
+
+    it("should tone map the scene directly when every pass is disabled", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      const pass = new RecordingPass();
+      pass.enabled = false;
+      composer.addPass(pass);
+
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      const bindGroup = (mockDevice.createBindGroup as any).mock.calls[0][0];
+      expect(bindGroup.entries[0].resource).toBe(
+        composer.sceneTarget.texture.gpuTexture.createView()
+      );
+    });
+
+    it("should recreate the targets when the canvas is resized", () => {
+      // Arrange
+      const composer = new EffectComposer(mockEngine, mockRenderer, {
+        sampleCount: 1,
+      });
+      const pass = new RecordingPass();
+      composer.addPass(pass);
+      composer.render(new Scene(), new PerspectiveCamera());
+      const oldTarget = composer.sceneTarget;
+      const textureCount = getTextureDescriptors().length;
+
+      // Act
+      composer.render(new Scene(), new PerspectiveCamera());
+      mockCanvas.width = 400;
+      mockCanvas.height = 300;
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      // Assert
+      expect(getTextureDescriptors()).toHaveLength(textureCount * 2);
+      expect(oldTarget.texture.gpuTexture.destroy).toHaveBeenCalled();
+      expect(composer.sceneTarget.width).toBe(400);
+      expect(composer.sceneTarget.sampleCount).toBe(1);
+      expect(pass.sizes).toEqual([
+        [800, 600],
+        [400, 300],
+      ]);
+    });
+
+    it("should default to the renderer's sample count", () => {
+      (mockRenderer as any).sampleCount = 1;
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      expect(composer.sceneTarget.sampleCount).toBe(1);
+    });
+
+    it("should recreate only the scene target when the renderer's sample count changes", () => {
+      // Arrange
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      const pass = new RecordingPass();
+      composer.addPass(pass);
+      composer.render(new Scene(), new PerspectiveCamera());
+      const oldTarget = composer.sceneTarget;
+      const textureCount = getTextureDescriptors().length;
+
+      // Act
+      (mockRenderer as any).sampleCount = 1;
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      // Assert
+      expect(oldTarget.texture.gpuTexture.destroy).toHaveBeenCalled();
+      expect(composer.sceneTarget.sampleCount).toBe(1);
+      expect(composer.sceneTarget.width).toBe(800);
+      expect(getTextureDescriptors().length).toBeLessThan(textureCount * 2);
+      expect(pass.sizes).toEqual([[800, 600]]);
+    });
+
+    it("should keep an explicit sample count when the renderer's changes", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer, {
+        sampleCount: 4,
+      });
+      composer.render(new Scene(), new PerspectiveCamera());
+      const target = composer.sceneTarget;
+
+      (mockRenderer as any).sampleCount = 1;
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      expect(composer.sceneTarget).toBe(target);
+      expect(composer.sceneTarget.sampleCount).toBe(4);
+    });
+
+    it("should size passes added after the first frame", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      composer.render(new Scene(), new PerspectiveCamera());
+      const pass = new RecordingPass();
+
+      composer.insertPass(pass, 0);
+
+      expect(pass.sizes).toEqual([[800, 600]]);
+      expect(composer.passes).toEqual([pass]);
+    });
+  });
+
+  describe("removePass", () => {
+    it("should remove the pass from the chain", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      const first = new RecordingPass();
+      const second = new RecordingPass();
+      composer.addPass(first).addPass(second);
+
+      composer.removePass(first);
+
+      expect(composer.passes).toEqual([second]);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the targets", () => {
+      const composer = new EffectComposer(mockEngine, mockRenderer);
+      composer.render(new Scene(), new PerspectiveCamera());
+
+      composer.dispose();
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+});
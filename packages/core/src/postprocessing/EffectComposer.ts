@@ -0,0 +1,256 @@
+import type { Engine } from "../Engine";
+import type { Camera } from "../camera/Camera";
+import type { Renderer } from "../renderer/Renderer";
+import { RenderTarget } from "../renderer/RenderTarget";
+import { HDR_FORMAT } from "../renderer/RenderTargets";
+import type { Scene } from "../scene/Scene";
+import { OutputPass } from "./OutputPass";
+import type { Pass } from "./Pass";
+
+/**
+ * Configuration options for an EffectComposer.
+ */
+export interface EffectComposerOptions {
+  /**
+   * MSAA sample count of the scene target, 1 or 4 (default: the renderer's
+   * sampleCount, followed when it changes)
+   */
+  sampleCount?: number;
+}
+
+/**
+ * Renders a scene into an HDR offscreen target, runs it through a chain of
+ * full-screen passes and tone maps the result to the canvas with the renderer's
+ * toneMapping, exposure and antialiasing.
+ *
+ * Passes ping-pong between two rgba16float targets. All targets follow the canvas
+ * size, and the scene target the renderer's sampleCount unless one is given; both
+ * are checked every frame.
+ *
+ * @example
+ * ```ts
+ * const composer = new EffectComposer(engine, renderer);
+ * composer.addPass(new ShaderPass({ fragmentShader: grayscaleShader }));
+ *
+ * engine.run(() => {
+ *   composer.render(scene, camera); // Instead of renderer.render(scene, camera)
+ * });
+ * ```
+ */
+export class EffectComposer {
+  private _engine: Engine;
+  private _renderer: Renderer;
+  private _sampleCount?: number;
+  private _passes: Pass[] = [];
+  private _outputPass: OutputPass;
+
+  private _width = 0;
+  private _height = 0;
+  private _sceneTarget?: RenderTarget;
+  private _readTarget?: RenderTarget;
+  private _writeTarget?: RenderTarget;
+
+  /**
+   * Creates a new EffectComposer.
+   * @param engine - Engine providing the device, canvas and swapchain format
+   * @param renderer - Renderer drawing the scene into the HDR target
+   * @param options - Optional scene target settings
+   * @throws {Error} If sampleCount is not 1 or 4
+   */
+  constructor(
+    engine: Engine,
+    renderer: Renderer,
+    options: EffectComposerOptions = {}
+  ) {
+    const sampleCount = options.sampleCount;
+    if (sampleCount !== undefined && sampleCount !== 1 && sampleCount !== 4) {
+      throw new Error(
+        `EffectComposer sampleCount must be 1 or 4 (got ${sampleCount})`
+      );
+    }
+
+    this._engine = engine;
+    this._renderer = renderer;
+    this._sampleCount = sampleCount;
+    this._outputPass = new OutputPass();
+  }
+
+  /**
+   * Passes in the order they run.
+   */
+  get passes(): readonly Pass[] {
+    return this._passes;
+  }
+
+  /**
+   * HDR target the scene is rendered into; recreated when the canvas is resized
+   * or the sample count changes.
+   */
+  get sceneTarget(): RenderTarget {
+    this._updateSize();
+    return this._sceneTarget!;
+  }
+
+  /**
+   * Appends a pass to the end of the chain.
+   * @param pass - Pass to add
+   * @returns This composer for chaining
+   */
+  addPass(pass: Pass): this {
+    this._passes.push(pass);
+    if (this._width > 0) {
+      pass.setSize(this._width, this._height);
+    }
+    return this;
+  }
+
+  /**
+   * Inserts a pass at a position in the chain.
+   * @param pass - Pass to insert
+   * @param index - Position of the pass after insertion
+   * @returns This composer for chaining
+   */
+  insertPass(pass: Pass, index: number): this {
+    this._passes.splice(index, 0, pass);
+    if (this._width > 0) {
+      pass.setSize(this._width, this._height);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a pass from the chain without disposing it.
+   * @param pass - Pass to remove
+   * @returns This composer for chaining
+   */
+  removePass(pass: Pass): this {
+    const index = this._passes.indexOf(pass);
+    if (index !== -1) {
+      this._passes.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Renders the scene and the enabled passes, then presents the result on the canvas.
+   * @param scene - Scene to render
+   * @param camera - Camera to render the scene with
+   */
+  render(scene: Scene, camera: Camera): void {
+    this._updateSize();
+    const sceneTarget = this._sceneTarget!;
+
+    this._renderer.render(scene, camera, sceneTarget);
+
+    const device = this._engine.device;
+    const commandEncoder = device.createCommandEncoder({
+      label: "Effect Composer",
+    });
+
+    let input = sceneTarget.texture;
+    for (const pass of this._passes) {
+      if (!pass.enabled) continue;
+
+      const output = this._writeTarget!;
+      pass.render({
+        device,
+        commandEncoder,
+        input,
+        output: output.texture.gpuTexture.createView(),
+        outputFormat: HDR_FORMAT,
+        scene: sceneTarget,
+        camera,
+      });
+
+      input = output.texture;
+      this._writeTarget = this._readTarget;
+      this._readTarget = output;
+    }
+
+    this._outputPass.toneMapping = this._renderer.toneMapping;
+    this._outputPass.exposure = this._renderer.exposure;
+    this._outputPass.antialiasing = this._renderer.antialiasing;
+    this._outputPass.render({
+      device,
+      commandEncoder,
+      input,
+      output: this._engine.context.getCurrentTexture().createView(),
+      outputFormat: this._engine.format,
+      scene: sceneTarget,
+      camera,
+    });
+
+    device.queue.submit([commandEncoder.finish()]);
+  }
+
+  /**
+   * Destroys the composer's targets. Added passes are owned by the caller.
+   */
+  dispose(): void {
+    this._disposeTargets();
+    this._outputPass.dispose();
+    this._width = 0;
+    this._height = 0;
+  }
+
+  /**
+   * Recreates the targets if the canvas size changed since the last frame, or
+   * only the scene target if the sample count changed.
+   */
+  private _updateSize(): void {
+    const { canvas, device } = this._engine;
+    const width = Math.max(1, canvas.width);
+    const height = Math.max(1, canvas.height);
+    const sampleCount = this._sampleCount ?? this._renderer.sampleCount;
+    if (width === this._width && height === this._height) {
+      if (this._sceneTarget!.sampleCount !== sampleCount) {
+        this._sceneTarget!.dispose();
+        this._sceneTarget = this._createSceneTarget(sampleCount);
+      }
+      return;
+    }
+
+    this._disposeTargets();
+    this._width = width;
+    this._height = height;
+
+    this._sceneTarget = this._createSceneTarget(sampleCount);
+    this._readTarget = new RenderTarget(device, {
+      width,
+      height,
+      format: HDR_FORMAT,
+      depth: false,
+      label: "Effect Composer Read",
+    });
+    this._writeTarget = new RenderTarget(device, {
+      width,
+      height,
+      format: HDR_FORMAT,
+      depth: false,
+      label: "Effect Composer Write",
+    });
+
+    for (const pass of this._passes) {
+      pass.setSize(width, height);
+    }
+  }
+
+  private _createSceneTarget(sampleCount: number): RenderTarget {
+    return new RenderTarget(this._engine.device, {
+      width: this._width,
+      height: this._height,
+      format: HDR_FORMAT,
+      sampleCount,
+      label: "Effect Composer Scene",
+    });
+  }
+
+  private _disposeTargets(): void {
+    this._sceneTarget?.dispose();
+    this._readTarget?.dispose();
+    this._writeTarget?.dispose();
+    this._sceneTarget = undefined;
+    this._readTarget = undefined;
+    this._writeTarget = undefined;
+  }
+}
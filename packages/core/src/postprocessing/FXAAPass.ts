@@ -0,0 +1,22 @@
+import fxaaShader from "../shaders/postprocessing/fxaa.frag.wgsl?raw";
+import { ShaderPass } from "./ShaderPass";
+
+/**
+ * Fast approximate anti-aliasing (FXAA 3.11) in a single full-screen pass.
+ * Edges are found from luma, so the input must be display-referred: the pass
+ * runs after tone mapping.
+ *
+ * @example
+ * ```ts
+ * const fxaa = new FXAAPass();
+ * fxaa.render({ device, commandEncoder, input: toneMapped, output, outputFormat, scene, camera });
+ * ```
+ */
+export class FXAAPass extends ShaderPass {
+  /**
+   * Creates a new FXAAPass.
+   */
+  constructor() {
+    super({ fragmentShader: fxaaShader, label: "FXAA Pass" });
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { OutputPass } from "./OutputPass";
+import type { PassRenderContext } from "./Pass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("OutputPass", () => {
+  let mockDevice: GPUDevice;
+  let context: PassRenderContext;
+
+  beforeEach(() => {
+    mockDevice = {
+      createBuffer: mock(() => ({ destroy: mock(() => {}) })),
+      createTexture: mock((descriptor: GPUTextureDescriptor) => {
+        const [width, height] = descriptor.size as number[];
+        return {
+          descriptor,
+          width,
+          height,
+          createView: mock(() => ({ descriptor })),
+          destroy: mock(() => {}),
+        };
+      }),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+
+    context = {
+      device: mockDevice,
+      commandEncoder: {
+        beginRenderPass: mock(() => ({
+          setPipeline: mock(() => {}),
+          setBindGroup: mock(() => {}),
+          draw: mock(() => {}),
+          end: mock(() => {}),
+        })),
+      } as unknown as GPUCommandEncoder,
+      input: new Texture(gpuTexture, {} as GPUSampler, 640, 360, "rgba16float"),
+      output: {} as GPUTextureView,
+      outputFormat: "bgra8unorm",
+      scene: {} as RenderTarget,
+      camera: new PerspectiveCamera(),
+    };
+  });
+
+  function getRenderPasses(): GPURenderPassDescriptor[] {
+    return (context.commandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  it("should tone map straight into the output without anti-aliasing", () => {
+    const pass = new OutputPass({ toneMapping: "aces", exposure: 2 });
+
+    pass.render(context);
+
+    const passes = getRenderPasses();
+    expect(passes.map((descriptor) => descriptor.label)).toEqual([
+      "Tone Mapping Pass",
+    ]);
+    const [attachment] = passes[0].colorAttachments;
+    expect(attachment!.view).toBe(context.output);
+    expect(mockDevice.createTexture).not.toHaveBeenCalled();
+
+    const uniforms = new DataView(
+      (mockDevice.queue.writeBuffer as any).mock.calls[0][2]
+    );
+    expect(uniforms.getFloat32(0, true)).toBe(2);
+    expect(uniforms.getUint32(4, true)).toBe(2);
+  });
+
+  it("should tone map into an LDR target and run FXAA into the output", () => {
+    const pass = new OutputPass({ antialiasing: "fxaa" });
+
+    pass.render(context);
+
+    const passes = getRenderPasses();
+    expect(passes.map((descriptor) => descriptor.label)).toEqual([
+      "Tone Mapping Pass",
+      "FXAA Pass",
+    ]);
+    const [toneMapped] = passes[0].colorAttachments;
+    expect((toneMapped!.view as any).descriptor.format).toBe("rgba8unorm");
+    expect((toneMapped!.view as any).descriptor.size).toEqual([640, 360]);
+    const [antialiased] = passes[1].colorAttachments;
+    expect(antialiased!.view).toBe(context.output);
+  });
+
+  it("should run the SMAA passes after tone mapping", () => {
+    const pass = new OutputPass({ antialiasing: "smaa" });
+
+    pass.render(context);
+
+    expect(getRenderPasses().map((descriptor) => descriptor.label)).toEqual([
+      "Tone Mapping Pass",
+      "SMAA Edge Detection",
+      "SMAA Blending Weights",
+      "SMAA Neighborhood Blending",
+    ]);
+  });
+
+  it("should release the LDR target when anti-aliasing is turned off", () => {
+    const pass = new OutputPass({ antialiasing: "fxaa" });
+    pass.render(context);
+    pass.render(context);
+    expect(mockDevice.createTexture).toHaveBeenCalledTimes(1);
+
+    pass.antialiasing = "none";
+    pass.render(context);
+
+    const [ldrTexture] = (mockDevice.createTexture as any).mock.results;
+    expect(ldrTexture.value.destroy).toHaveBeenCalled();
+  });
+});
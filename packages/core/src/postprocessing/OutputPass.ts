@@ -0,0 +1,128 @@
+import { RenderTarget } from "../renderer/RenderTarget";
+import { FXAAPass } from "./FXAAPass";
+import { Pass, type PassRenderContext } from "./Pass";
+import { SMAAPass } from "./SMAAPass";
+import { ToneMappingPass, type ToneMapping } from "./ToneMappingPass";
+
+/**
+ * Post-process anti-aliasing applied after tone mapping.
+ * - none: No post-process anti-aliasing; rely on MSAA alone
+ * - fxaa: FXAA, a single cheap pass that softens all high-contrast edges
+ * - smaa: SMAA 1x, three passes that keep textures sharper than FXAA
+ */
+export type Antialiasing = "none" | "fxaa" | "smaa";
+
+/** Format of the tone-mapped image the anti-aliasing passes read. */
+const LDR_FORMAT: GPUTextureFormat = "rgba8unorm";
+
+/**
+ * Final pass that tone maps an HDR image and, if enabled, anti-aliases the
+ * display-referred result into the output. Used by the Renderer and the
+ * EffectComposer to present frames on the canvas.
+ *
+ * @example
+ * ```ts
+ * const output = new OutputPass({ toneMapping: "aces", antialiasing: "fxaa" });
+ * output.render({ device, commandEncoder, input: scene.texture, output: view, outputFormat, scene, camera });
+ * ```
+ */
+export class OutputPass extends Pass {
+  /** Tone-mapping operator */
+  public toneMapping: ToneMapping;
+  /** Multiplier applied to scene colors before tone mapping */
+  public exposure: number;
+  /** Post-process anti-aliasing applied after tone mapping */
+  public antialiasing: Antialiasing;
+
+  private _toneMappingPass = new ToneMappingPass();
+  private _fxaaPass = new FXAAPass();
+  private _smaaPass = new SMAAPass();
+  private _device?: GPUDevice;
+  private _ldrTarget?: RenderTarget;
+
+  /**
+   * Creates a new OutputPass.
+   * @param options - Initial operator (default: 'linear'), exposure (default: 1) and anti-aliasing (default: 'none')
+   */
+  constructor(
+    options: {
+      toneMapping?: ToneMapping;
+      exposure?: number;
+      antialiasing?: Antialiasing;
+    } = {}
+  ) {
+    super();
+    this.toneMapping = options.toneMapping ?? "linear";
+    this.exposure = options.exposure ?? 1;
+    this.antialiasing = options.antialiasing ?? "none";
+  }
+
+  render(context: PassRenderContext): void {
+    this._toneMappingPass.toneMapping = this.toneMapping;
+    this._toneMappingPass.exposure = this.exposure;
+
+    if (this.antialiasing === "none") {
+      this._disposeTarget();
+      this._toneMappingPass.render(context);
+      return;
+    }
+
+    const ldrTarget = this._getTarget(
+      context.device,
+      context.input.width,
+      context.input.height
+    );
+    this._toneMappingPass.render({
+      ...context,
+      output: ldrTarget.texture.gpuTexture.createView(),
+      outputFormat: LDR_FORMAT,
+    });
+
+    const antialiasingPass =
+      this.antialiasing === "fxaa" ? this._fxaaPass : this._smaaPass;
+    antialiasingPass.render({ ...context, input: ldrTarget.texture });
+  }
+
+  /**
+   * Releases the tone-mapped target and the GPU resources of the inner passes.
+   */
+  dispose(): void {
+    this._disposeTarget();
+    this._toneMappingPass.dispose();
+    this._fxaaPass.dispose();
+    this._smaaPass.dispose();
+  }
+
+  /**
+   * Returns the tone-mapped target, recreating it if the size or device changed.
+   */
+  private _getTarget(
+    device: GPUDevice,
+    width: number,
+    height: number
+  ): RenderTarget {
+    if (
+      !this._ldrTarget ||
+      this._device !== device ||
+      this._ldrTarget.width !== width ||
+      this._ldrTarget.height !== height
+    ) {
+      this._disposeTarget();
+      this._device = device;
+      this._ldrTarget = new RenderTarget(device, {
+        width,
+        height,
+        format: LDR_FORMAT,
+        depth: false,
+        label: "Output Tone Mapped",
+      });
+    }
+    return this._ldrTarget;
+  }
+
+  private _disposeTarget(): void {
+    this._ldrTarget?.dispose();
+    this._ldrTarget = undefined;
+    this._device = undefined;
+  }
+}
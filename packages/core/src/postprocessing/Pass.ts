@@ -0,0 +1,59 @@
+import type { Camera } from "../camera/Camera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import type { Texture } from "../texture/Texture";
+
+/**
+ * Per-frame inputs handed to Pass.render() by the EffectComposer.
+ */
+export interface PassRenderContext {
+  /** The WebGPU device, for creating pipelines and buffers on first use */
+  device: GPUDevice;
+  /** Command encoder to record render passes into */
+  commandEncoder: GPUCommandEncoder;
+  /** Result of the previous pass, or of the scene for the first pass */
+  input: Texture;
+  /** View to draw the result into, covering the full canvas size */
+  output: GPUTextureView;
+  /** Color format of the output */
+  outputFormat: GPUTextureFormat;
+  /** HDR scene target, whose depth texture is multisampled like its color */
+  scene: RenderTarget;
+  /** Camera the scene was rendered with */
+  camera: Camera;
+}
+
+/**
+ * Base class for full-screen post-processing passes run by the EffectComposer.
+ * Each enabled pass reads the previous result and writes its own into the output.
+ *
+ * @example
+ * ```ts
+ * class InvertPass extends Pass {
+ *   render(context: PassRenderContext): void {
+ *     // Sample context.input and draw into context.output
+ *   }
+ * }
+ * ```
+ */
+export abstract class Pass {
+  /** Whether the composer runs this pass; disabled passes are skipped */
+  public enabled: boolean = true;
+
+  /**
+   * Records the pass into the command encoder.
+   * @param context - Input, output and scene of the current frame
+   */
+  abstract render(context: PassRenderContext): void;
+
+  /**
+   * Called when the pass is added and whenever the canvas size changes.
+   * @param width - Output width in pixels
+   * @param height - Output height in pixels
+   */
+  setSize(_width: number, _height: number): void {}
+
+  /**
+   * Releases GPU resources owned by the pass.
+   */
+  dispose(): void {}
+}
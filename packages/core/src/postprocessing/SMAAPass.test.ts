@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { SMAAPass } from "./SMAAPass";
+import type { PassRenderContext } from "./Pass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("SMAAPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+
+  beforeEach(() => {
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => ({
+        setPipeline: mock(() => {}),
+        setBindGroup: mock(() => {}),
+        draw: mock(() => {}),
+        end: mock(() => {}),
+      })),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => {
+        const [width, height] = descriptor.size as number[];
+        return {
+          width,
+          height,
+          createView: mock(() => ({}) as GPUTextureView),
+          destroy: mock(() => {}),
+        };
+      }),
+      createBindGroup: mock(
+        (descriptor: GPUBindGroupDescriptor) => descriptor
+      ),
+      createBindGroupLayout: mock(
+        (descriptor: GPUBindGroupLayoutDescriptor) => descriptor
+      ),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(
+        (descriptor: GPURenderPipelineDescriptor) => descriptor
+      ),
+    } as unknown as GPUDevice;
+  });
+
+  function createContext(
+    width = 800,
+    height = 600,
+    gpuTexture = { createView: mock(() => ({})) } as unknown as GPUTexture
+  ): PassRenderContext {
+    return {
+      device: mockDevice,
+      commandEncoder: mockCommandEncoder,
+      input: new Texture(gpuTexture, {} as GPUSampler, width, height),
+      output: {} as GPUTextureView,
+      outputFormat: "bgra8unorm",
+      scene: {} as RenderTarget,
+      camera: new PerspectiveCamera(),
+    };
+  }
+
+  function getRenderPasses(): GPURenderPassDescriptor[] {
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  function getPipelines(): GPURenderPipelineDescriptor[] {
+    return (mockDevice.createRenderPipeline as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  describe("render", () => {
+    it("should detect edges, compute weights and blend in order", () => {
+      const pass = new SMAAPass();
+      const context = createContext();
+
+      pass.render(context);
+
+      const passes = getRenderPasses();
+      expect(passes.map((descriptor) => descriptor.label)).toEqual([
+        "SMAA Edge Detection",
+        "SMAA Blending Weights",
+        "SMAA Neighborhood Blending",
+      ]);
+      const [blendAttachment] = passes[2].colorAttachments;
+      expect(blendAttachment!.view).toBe(context.output);
+      expect(
+        getPipelines().map((descriptor) => descriptor.fragment!.entryPoint)
+      ).toEqual(["edges", "weights", "blend"]);
+    });
+
+    it("should render edges and weights at the input size", () => {
+      const pass = new SMAAPass();
+
+      pass.render(createContext(640, 360));
+
+      const textures = (mockDevice.createTexture as any).mock.calls.map(
+        (call: any[]) => call[0]
+      );
+      expect(
+        textures.map((descriptor: GPUTextureDescriptor) => descriptor.format)
+      ).toEqual(["rg8unorm", "rgba8unorm"]);
+      for (const descriptor of textures) {
+        expect(descriptor.size).toEqual([640, 360]);
+      }
+    });
+
+    it("should only bind the textures each pass reads", () => {
+      const pass = new SMAAPass();
+
+      pass.render(createContext());
+
+      const layouts = (
+        mockDevice.createBindGroupLayout as any
+      ).mock.calls.map((call: any[]) =>
+        call[0].entries.map((entry: GPUBindGroupLayoutEntry) => entry.binding)
+      );
+      expect(layouts).toEqual([[0], [1], [0, 2]]);
+    });
+
+    it("should blend into the output format", () => {
+      const pass = new SMAAPass();
+      const context = createContext();
+
+      pass.render(context);
+      pass.render({ ...context, outputFormat: "rgba8unorm" });
+
+      const blendTargets = getPipelines()
+        .filter((descriptor) => descriptor.fragment!.entryPoint === "blend")
+        .map((descriptor) => descriptor.fragment!.targets);
+      expect(blendTargets).toEqual([
+        [{ format: "bgra8unorm" }],
+        [{ format: "rgba8unorm" }],
+      ]);
+    });
+
+    it("should recreate the textures when the input size changes", () => {
+      const pass = new SMAAPass();
+      const gpuTexture = {
+        createView: mock(() => ({})),
+      } as unknown as GPUTexture;
+
+      pass.render(createContext(800, 600, gpuTexture));
+      pass.render(createContext(800, 600, gpuTexture));
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(2);
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(3);
+
+      pass.render(createContext(400, 300, gpuTexture));
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(4);
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(6);
+      const textures = (mockDevice.createTexture as any).mock.results;
+      expect(textures[0].value.destroy).toHaveBeenCalled();
+      expect(textures[1].value.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the edge and weight textures", () => {
+      const pass = new SMAAPass();
+      pass.render(createContext());
+
+      pass.dispose();
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+});
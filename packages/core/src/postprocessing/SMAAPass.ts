@@ -0,0 +1,265 @@
+import smaaShader from "../shaders/postprocessing/smaa.wgsl?raw";
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import { Pass, type PassRenderContext } from "./Pass";
+
+const EDGES_FORMAT: GPUTextureFormat = "rg8unorm";
+const WEIGHTS_FORMAT: GPUTextureFormat = "rgba8unorm";
+
+/**
+ * Subpixel morphological anti-aliasing (SMAA 1x) in three full-screen passes:
+ * luma edge detection, blending weights from the shape of each edge line, and
+ * neighborhood blending. Sharper than FXAA on long edges, at roughly twice the cost.
+ * The input must be display-referred: the pass runs after tone mapping.
+ *
+ * @example
+ * ```ts
+ * const smaa = new SMAAPass();
+ * smaa.render({ device, commandEncoder, input: toneMapped, output, outputFormat, scene, camera });
+ * ```
+ */
+export class SMAAPass extends Pass {
+  private _device?: GPUDevice;
+  private _vertexModule?: GPUShaderModule;
+  private _fragmentModule?: GPUShaderModule;
+  private _edgesBindGroupLayout?: GPUBindGroupLayout;
+  private _weightsBindGroupLayout?: GPUBindGroupLayout;
+  private _blendBindGroupLayout?: GPUBindGroupLayout;
+  private _edgesPipeline?: GPURenderPipeline;
+  private _weightsPipeline?: GPURenderPipeline;
+  private _blendPipelines: Map<GPUTextureFormat, GPURenderPipeline> =
+    new Map();
+
+  private _edgesTexture?: GPUTexture;
+  private _weightsTexture?: GPUTexture;
+  private _weightsBindGroup?: GPUBindGroup;
+  private _inputBindGroups: WeakMap<
+    GPUTexture,
+    { edges: GPUBindGroup; blend: GPUBindGroup }
+  > = new WeakMap();
+
+  render(context: PassRenderContext): void {
+    const { device, commandEncoder, input } = context;
+    if (this._device !== device) {
+      this._createResources(device);
+    }
+    if (
+      !this._edgesTexture ||
+      this._edgesTexture.width !== input.width ||
+      this._edgesTexture.height !== input.height
+    ) {
+      this._createTextures(input.width, input.height);
+    }
+
+    const inputBindGroups = this._getInputBindGroups(input.gpuTexture);
+
+    this._drawFullscreen(
+      commandEncoder,
+      "SMAA Edge Detection",
+      this._edgesTexture!.createView(),
+      this._edgesPipeline!,
+      inputBindGroups.edges
+    );
+    this._drawFullscreen(
+      commandEncoder,
+      "SMAA Blending Weights",
+      this._weightsTexture!.createView(),
+      this._weightsPipeline!,
+      this._weightsBindGroup!
+    );
+    this._drawFullscreen(
+      commandEncoder,
+      "SMAA Neighborhood Blending",
+      context.output,
+      this._getBlendPipeline(context.outputFormat),
+      inputBindGroups.blend
+    );
+  }
+
+  /**
+   * Destroys the edge and weight textures; the pass recreates its resources if rendered again.
+   */
+  dispose(): void {
+    this._edgesTexture?.destroy();
+    this._weightsTexture?.destroy();
+    this._edgesTexture = undefined;
+    this._weightsTexture = undefined;
+    this._weightsBindGroup = undefined;
+    this._device = undefined;
+    this._inputBindGroups = new WeakMap();
+    this._blendPipelines.clear();
+  }
+
+  private _drawFullscreen(
+    commandEncoder: GPUCommandEncoder,
+    label: string,
+    view: GPUTextureView,
+    pipeline: GPURenderPipeline,
+    bindGroup: GPUBindGroup
+  ): void {
+    const passEncoder = commandEncoder.beginRenderPass({
+      label,
+      colorAttachments: [
+        {
+          view,
+          clearValue: { r: 0, g: 0, b: 0, a: 0 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(pipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    passEncoder.draw(3);
+    passEncoder.end();
+  }
+
+  /**
+   * Returns the bind groups reading the input color, creating them on first use.
+   */
+  private _getInputBindGroups(texture: GPUTexture): {
+    edges: GPUBindGroup;
+    blend: GPUBindGroup;
+  } {
+    let bindGroups = this._inputBindGroups.get(texture);
+    if (!bindGroups) {
+      const device = this._device!;
+      const inputView = texture.createView();
+      bindGroups = {
+        edges: device.createBindGroup({
+          label: "SMAA Edge Detection Bind Group",
+          layout: this._edgesBindGroupLayout!,
+          entries: [{ binding: 0, resource: inputView }],
+        }),
+        blend: device.createBindGroup({
+          label: "SMAA Neighborhood Blending Bind Group",
+          layout: this._blendBindGroupLayout!,
+          entries: [
+            { binding: 0, resource: inputView },
+            { binding: 2, resource: this._weightsTexture!.createView() },
+          ],
+        }),
+      };
+      this._inputBindGroups.set(texture, bindGroups);
+    }
+    return bindGroups;
+  }
+
+  /**
+   * Recreates the edge and weight textures at the output size.
+   */
+  private _createTextures(width: number, height: number): void {
+    const device = this._device!;
+    this._edgesTexture?.destroy();
+    this._weightsTexture?.destroy();
+
+    const usage =
+      GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING;
+    this._edgesTexture = device.createTexture({
+      label: "SMAA Edges",
+      size: [width, height],
+      format: EDGES_FORMAT,
+      usage,
+    });
+    this._weightsTexture = device.createTexture({
+      label: "SMAA Blending Weights",
+      size: [width, height],
+      format: WEIGHTS_FORMAT,
+      usage,
+    });
+
+    this._weightsBindGroup = device.createBindGroup({
+      label: "SMAA Blending Weights Bind Group",
+      layout: this._weightsBindGroupLayout!,
+      entries: [{ binding: 1, resource: this._edgesTexture.createView() }],
+    });
+    this._inputBindGroups = new WeakMap();
+  }
+
+  private _getBlendPipeline(format: GPUTextureFormat): GPURenderPipeline {
+    let pipeline = this._blendPipelines.get(format);
+    if (!pipeline) {
+      pipeline = this._createPipeline(
+        "SMAA Neighborhood Blending",
+        "blend",
+        this._blendBindGroupLayout!,
+        format
+      );
+      this._blendPipelines.set(format, pipeline);
+    }
+    return pipeline;
+  }
+
+  private _createPipeline(
+    label: string,
+    entryPoint: string,
+    bindGroupLayout: GPUBindGroupLayout,
+    format: GPUTextureFormat
+  ): GPURenderPipeline {
+    const device = this._device!;
+    return device.createRenderPipeline({
+      label: `${label} Pipeline`,
+      layout: device.createPipelineLayout({
+        label: `${label} Pipeline Layout`,
+        bindGroupLayouts: [bindGroupLayout],
+      }),
+      vertex: {
+        module: this._vertexModule!,
+        entryPoint: "main",
+      },
+      fragment: {
+        module: this._fragmentModule!,
+        entryPoint,
+        targets: [{ format }],
+      },
+      primitive: {
+        topology: "triangle-list",
+      },
+    });
+  }
+
+  private _createResources(device: GPUDevice): void {
+    this.dispose();
+    this._device = device;
+
+    this._vertexModule = device.createShaderModule({
+      label: "SMAA Vertex Shader",
+      code: fullscreenVertexShader,
+    });
+    this._fragmentModule = device.createShaderModule({
+      label: "SMAA Fragment Shader",
+      code: smaaShader,
+    });
+
+    // Each pass only binds the textures it reads: 0 color, 1 edges, 2 weights
+    const textureEntry = (binding: number): GPUBindGroupLayoutEntry => ({
+      binding,
+      visibility: GPUShaderStage.FRAGMENT,
+      texture: { sampleType: "float" },
+    });
+    this._edgesBindGroupLayout = device.createBindGroupLayout({
+      label: "SMAA Edge Detection Bind Group Layout",
+      entries: [textureEntry(0)],
+    });
+    this._weightsBindGroupLayout = device.createBindGroupLayout({
+      label: "SMAA Blending Weights Bind Group Layout",
+      entries: [textureEntry(1)],
+    });
+    this._blendBindGroupLayout = device.createBindGroupLayout({
+      label: "SMAA Neighborhood Blending Bind Group Layout",
+      entries: [textureEntry(0), textureEntry(2)],
+    });
+
+    this._edgesPipeline = this._createPipeline(
+      "SMAA Edge Detection",
+      "edges",
+      this._edgesBindGroupLayout,
+      EDGES_FORMAT
+    );
+    this._weightsPipeline = this._createPipeline(
+      "SMAA Blending Weights",
+      "weights",
+      this._weightsBindGroupLayout,
+      WEIGHTS_FORMAT
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { ShaderPass } from "./ShaderPass";
+import type { PassRenderContext } from "./Pass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+const FRAGMENT_SHADER = /* wgsl */ `
+@group(0) @binding(0) var inputTexture: texture_2d<f32>;
+@group(0) @binding(1) var inputSampler: sampler;
+
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+  return textureSample(inputTexture, inputSampler, uv);
+}
+`;
+
+describe("ShaderPass", () => {
+  let mockDevice: GPUDevice;
+  let mockPassEncoder: any;
+  let mockCommandEncoder: GPUCommandEncoder;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      draw: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(
+        (descriptor: GPUBindGroupLayoutDescriptor) => descriptor
+      ),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+  });
+
+  function createInput(): Texture {
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+    return new Texture(gpuTexture, {} as GPUSampler, 4, 4, "rgba16float");
+  }
+
+  function createContext(
+    overrides: Partial<PassRenderContext> = {}
+  ): PassRenderContext {
+    return {
+      device: mockDevice,
+      commandEncoder: mockCommandEncoder,
+      input: createInput(),
+      output: {} as GPUTextureView,
+      outputFormat: "rgba16float",
+      scene: {} as RenderTarget,
+      camera: new PerspectiveCamera(),
+      ...overrides,
+    };
+  }
+
+  describe("constructor", () => {
+    it("should be enabled by default", () => {
+      const pass = new ShaderPass({ fragmentShader: FRAGMENT_SHADER });
+
+      expect(pass.enabled).toBe(true);
+    });
+
+    it("should throw when uniformBufferSize is not a multiple of 16", () => {
+      expect(
+        () =>
+          new ShaderPass({
+            fragmentShader: FRAGMENT_SHADER,
+            uniformBufferSize: 12,
+          })
+      ).toThrow("ShaderPass uniformBufferSize must be a multiple of 16 (got 12)");
+    });
+  });
+
+  describe("render", () => {
+    it("should draw a fullscreen triangle into the output view", () => {
+      // Arrange
+      const pass = new ShaderPass({ fragmentShader: FRAGMENT_SHADER });
+      const output = {} as GPUTextureView;
+
+      // Act
+      pass.render(createContext({ output }));
+
+      // Assert
+      const descriptor = (mockCommandEncoder.beginRenderPass as any).mock
+        .calls[0][0];
+      expect(descriptor.colorAttachments[0].view).toBe(output);
+      expect(descriptor.colorAttachments[0].loadOp).toBe("clear");
+      expect(descriptor.depthStencilAttachment).toBeUndefined();
+      expect(mockPassEncoder.draw).toHaveBeenCalledWith(3);
+      expect(mockPassEncoder.end).toHaveBeenCalledTimes(1);
+    });
+
+    it("should bind only the input texture and sampler without uniforms", () => {
+      const pass = new ShaderPass({ fragmentShader: FRAGMENT_SHADER });
+
+      pass.render(createContext());
+
+      const layout = (mockDevice.createBindGroupLayout as any).mock.calls[0][0];
+      expect(layout.entries.map((entry: any) => entry.binding)).toEqual([0, 1]);
+      expect(mockDevice.createBuffer).not.toHaveBeenCalled();
+      expect(mockDevice.queue.writeBuffer).not.toHaveBeenCalled();
+    });
+
+    it("should write uniforms through the callback every frame", () => {
+      // Arrange
+      let strength = 0.25;
+      const pass = new ShaderPass({
+        fragmentShader: FRAGMENT_SHADER,
+        uniformBufferSize: 16,
+        writeUniformData: (buffer) => {
+          buffer.setFloat32(0, strength, true);
+        },
+      });
+      const context = createContext();
+
+      // Act
+      pass.render(context);
+      strength = 0.5;
+      pass.render(context);
+
+      // Assert
+      const layout = (mockDevice.createBindGroupLayout as any).mock.calls[0][0];
+      expect(layout.entries[2].binding).toBe(2);
+      expect(layout.entries[2].buffer.type).toBe("uniform");
+      const writes = (mockDevice.queue.writeBuffer as any).mock.calls;
+      expect(writes).toHaveLength(2);
+      expect(new Float32Array(writes[1][2])[0]).toBe(0.5);
+    });
+
+    it("should create one pipeline per output format", () => {
+      const pass = new ShaderPass({ fragmentShader: FRAGMENT_SHADER });
+
+      pass.render(createContext());
+      pass.render(createContext());
+      pass.render(createContext({ outputFormat: "bgra8unorm" }));
+
+      const calls = (mockDevice.createRenderPipeline as any).mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][0].fragment.targets[0].format).toBe("rgba16float");
+      expect(calls[1][0].fragment.targets[0].format).toBe("bgra8unorm");
+    });
+
+    it("should reuse bind groups for the same input texture", () => {
+      const pass = new ShaderPass({ fragmentShader: FRAGMENT_SHADER });
+      const first = createInput();
+      const second = createInput();
+
+      pass.render(createContext({ input: first }));
+      pass.render(createContext({ input: second }));
+      pass.render(createContext({ input: first }));
+
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the uniform buffer", () => {
+      const pass = new ShaderPass({
+        fragmentShader: FRAGMENT_SHADER,
+        uniformBufferSize: 16,
+      });
+      pass.render(createContext());
+
+      pass.dispose();
+
+      const buffer = (mockDevice.createBuffer as any).mock.results[0].value;
+      expect(buffer.destroy).toHaveBeenCalledTimes(1);
+    });
+  });
+});
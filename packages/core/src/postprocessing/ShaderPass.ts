@@ -0,0 +1,230 @@
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import { Pass, type PassRenderContext } from "./Pass";
+
+/**
+ * Configuration options for creating a ShaderPass.
+ *
+ * The fragment shader must follow these conventions:
+ * - Entry point: `@fragment fn main(@location(0) uv: vec2f) -> @location(0) vec4f`
+ * - Input texture: `@group(0) @binding(0) var inputTexture: texture_2d<f32>;`
+ * - Input sampler: `@group(0) @binding(1) var inputSampler: sampler;`
+ * - Uniforms (only with uniformBufferSize): `@group(0) @binding(2) var<uniform> uniforms: Uniforms;`
+ *
+ * The output size is available as `textureDimensions(inputTexture)`.
+ */
+export interface ShaderPassOptions {
+  fragmentShader: string;
+  /** Size of the uniform buffer in bytes; 0 for a shader without uniforms (default: 0) */
+  uniformBufferSize?: number;
+  /**
+   * Optional callback to write uniform data before each frame.
+   * @param buffer - DataView of the uniform buffer
+   */
+  writeUniformData?: (buffer: DataView) => void;
+  /** Optional label for debugging */
+  label?: string;
+}
+
+/**
+ * Full-screen pass that runs a custom WGSL fragment shader over the previous result.
+ *
+ * @example
+ * ```ts
+ * const vignette = new ShaderPass({
+ *   fragmentShader: `WGSL fragment shader`,
+ *   uniformBufferSize: 16,
+ *   writeUniformData: (buffer) => {
+ *     buffer.setFloat32(0, strength, true);
+ *   },
+ * });
+ * composer.addPass(vignette);
+ * vignette.enabled = false; // Skip without removing it
+ * ```
+ */
+export class ShaderPass extends Pass {
+  private _fragmentShader: string;
+  private _uniformBufferSize: number;
+  private _writeUniformDataCallback?: (buffer: DataView) => void;
+  private _label: string;
+  private _uniformData: ArrayBuffer;
+
+  private _device?: GPUDevice;
+  private _uniformBuffer?: GPUBuffer;
+  private _sampler?: GPUSampler;
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _pipelineLayout?: GPUPipelineLayout;
+  private _pipelines: Map<GPUTextureFormat, GPURenderPipeline> = new Map();
+  private _bindGroups: WeakMap<GPUTexture, GPUBindGroup> = new WeakMap();
+
+  /**
+   * Creates a new ShaderPass.
+   * @param options - Fragment shader and uniforms of the pass
+   * @throws {Error} If uniformBufferSize is negative or not a multiple of 16
+   */
+  constructor(options: ShaderPassOptions) {
+    super();
+
+    const uniformBufferSize = options.uniformBufferSize ?? 0;
+    if (uniformBufferSize < 0 || uniformBufferSize % 16 !== 0) {
+      throw new Error(
+        `ShaderPass uniformBufferSize must be a multiple of 16 (got ${uniformBufferSize})`
+      );
+    }
+
+    this._fragmentShader = options.fragmentShader;
+    this._uniformBufferSize = uniformBufferSize;
+    this._writeUniformDataCallback = options.writeUniformData;
+    this._label = options.label ?? "Shader Pass";
+    this._uniformData = new ArrayBuffer(uniformBufferSize);
+  }
+
+  render(context: PassRenderContext): void {
+    const { device, commandEncoder, input } = context;
+    const pipeline = this._getPipeline(device, context.outputFormat);
+
+    if (this._uniformBuffer) {
+      this.writeUniformData(new DataView(this._uniformData));
+      device.queue.writeBuffer(this._uniformBuffer, 0, this._uniformData);
+    }
+
+    let bindGroup = this._bindGroups.get(input.gpuTexture);
+    if (!bindGroup) {
+      const entries: GPUBindGroupEntry[] = [
+        { binding: 0, resource: input.gpuTexture.createView() },
+        { binding: 1, resource: this._sampler! },
+      ];
+      if (this._uniformBuffer) {
+        entries.push({ binding: 2, resource: { buffer: this._uniformBuffer } });
+      }
+      bindGroup = device.createBindGroup({
+        label: `${this._label} Bind Group`,
+        layout: this._bindGroupLayout!,
+        entries,
+      });
+      this._bindGroups.set(input.gpuTexture, bindGroup);
+    }
+
+    const passEncoder = commandEncoder.beginRenderPass({
+      label: this._label,
+      colorAttachments: [
+        {
+          view: context.output,
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(pipeline);
+    passEncoder.setBindGroup(0, bindGroup);
+    passEncoder.draw(3);
+    passEncoder.end();
+  }
+
+  /**
+   * Writes the uniforms of the current frame; subclasses may override this
+   * instead of passing a writeUniformData callback.
+   * @param buffer - DataView of the uniform buffer
+   */
+  protected writeUniformData(buffer: DataView): void {
+    this._writeUniformDataCallback?.(buffer);
+  }
+
+  /**
+   * Destroys the uniform buffer; the pass recreates its resources if rendered again.
+   */
+  dispose(): void {
+    this._uniformBuffer?.destroy();
+    this._uniformBuffer = undefined;
+    this._device = undefined;
+    this._pipelines.clear();
+    this._bindGroups = new WeakMap();
+  }
+
+  /**
+   * Returns the pipeline for the output format, creating the shared resources on first use.
+   */
+  private _getPipeline(
+    device: GPUDevice,
+    format: GPUTextureFormat
+  ): GPURenderPipeline {
+    if (this._device !== device) {
+      this._createResources(device);
+    }
+
+    let pipeline = this._pipelines.get(format);
+    if (!pipeline) {
+      pipeline = device.createRenderPipeline({
+        label: `${this._label} Pipeline (${format})`,
+        layout: this._pipelineLayout!,
+        vertex: {
+          module: device.createShaderModule({
+            label: `${this._label} Vertex Shader`,
+            code: fullscreenVertexShader,
+          }),
+          entryPoint: "main",
+        },
+        fragment: {
+          module: device.createShaderModule({
+            label: `${this._label} Fragment Shader`,
+            code: this._fragmentShader,
+          }),
+          entryPoint: "main",
+          targets: [{ format }],
+        },
+        primitive: {
+          topology: "triangle-list",
+        },
+      });
+      this._pipelines.set(format, pipeline);
+    }
+    return pipeline;
+  }
+
+  private _createResources(device: GPUDevice): void {
+    this.dispose();
+    this._device = device;
+
+    this._sampler = device.createSampler({
+      label: `${this._label} Sampler`,
+      magFilter: "linear",
+      minFilter: "linear",
+      addressModeU: "clamp-to-edge",
+      addressModeV: "clamp-to-edge",
+    });
+
+    const entries: GPUBindGroupLayoutEntry[] = [
+      {
+        binding: 0,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" },
+      },
+      {
+        binding: 1,
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type: "filtering" },
+      },
+    ];
+    if (this._uniformBufferSize > 0) {
+      this._uniformBuffer = device.createBuffer({
+        label: `${this._label} Uniform Buffer`,
+        size: this._uniformBufferSize,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      entries.push({
+        binding: 2,
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: { type: "uniform" },
+      });
+    }
+
+    this._bindGroupLayout = device.createBindGroupLayout({
+      label: `${this._label} Bind Group Layout`,
+      entries,
+    });
+    this._pipelineLayout = device.createPipelineLayout({
+      label: `${this._label} Pipeline Layout`,
+      bindGroupLayouts: [this._bindGroupLayout],
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { ToneMappingPass, type ToneMapping } from "./ToneMappingPass";
+import type { PassRenderContext } from "./Pass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import type { RenderTarget } from "../renderer/RenderTarget";
+import { BasicMaterial } from "../material/BasicMaterial";
+import { Texture } from "../texture/Texture";
+import toneMappingShader from "../shaders/postprocessing/toneMapping.frag.wgsl?raw";
+import colorSpaceChunk from "../shaders/colorSpace/colorSpace.wgsl?raw";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("ToneMappingPass", () => {
+  let mockDevice: GPUDevice;
+  let context: PassRenderContext;
+
+  beforeEach(() => {
+    mockDevice = {
+      createBuffer: mock(() => ({ destroy: mock(() => {}) })),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+
+    context = {
+      device: mockDevice,
+      commandEncoder: {
+        beginRenderPass: mock(() => ({
+          setPipeline: mock(() => {}),
+          setBindGroup: mock(() => {}),
+          draw: mock(() => {}),
+          end: mock(() => {}),
+        })),
+      } as unknown as GPUCommandEncoder,
+      input: new Texture(gpuTexture, {} as GPUSampler, 4, 4, "rgba16float"),
+      output: {} as GPUTextureView,
+      outputFormat: "bgra8unorm",
+      scene: {} as RenderTarget,
+      camera: new PerspectiveCamera(),
+    };
+  });
+
+  function getUniforms(): DataView {
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls;
+    return new DataView(calls[calls.length - 1][2]);
+  }
+
+  it("should default to linear tone mapping with an exposure of 1", () => {
+    const pass = new ToneMappingPass();
+
+    pass.render(context);
+
+    expect(pass.toneMapping).toBe("linear");
+    expect(getUniforms().getFloat32(0, true)).toBe(1);
+    expect(getUniforms().getUint32(4, true)).toBe(0);
+  });
+
+  it("should write the exposure and operator of the current frame", () => {
+    const pass = new ToneMappingPass({ toneMapping: "aces", exposure: 0.5 });
+    const modes: [ToneMapping, number][] = [
+      ["linear", 0],
+      ["reinhard", 1],
+      ["aces", 2],
+      ["agx", 3],
+      ["neutral", 4],
+    ];
+
+    pass.render(context);
+    expect(getUniforms().getFloat32(0, true)).toBe(0.5);
+    expect(getUniforms().getUint32(4, true)).toBe(2);
+
+    for (const [toneMapping, mode] of modes) {
+      pass.toneMapping = toneMapping;
+      pass.render(context);
+      expect(getUniforms().getUint32(4, true)).toBe(mode);
+    }
+  });
+
+  describe("sRGB encoding", () => {
+    /** Gamma of the output encoding, from pow(color, vec3f(1.0 / gamma)). */
+    function getEncodingGamma(): number {
+      const match = /fn linearToSrgb[^}]*vec3f\(1\.0 \/ ([\d.]+)\)/.exec(
+        toneMappingShader
+      );
+      return Number(match![1]);
+    }
+
+    it("should show a mid-gray material color unchanged with linear tone mapping", () => {
+      const material = new BasicMaterial({ color: [0.5, 0.5, 0.5] });
+      const data = new DataView(new ArrayBuffer(80));
+
+      material.writeUniformData(data);
+
+      const linear = data.getFloat32(64, true);
+      const displayed = Math.pow(linear, 1 / getEncodingGamma());
+      expect(displayed).toBeCloseTo(0.5, 5);
+      expect(displayed).not.toBeCloseTo(0.73, 2);
+    });
+
+    it("should decode color maps with the inverse of the output encoding", () => {
+      const match = /fn srgbToLinear[^}]*vec3f\(([\d.]+)\)\)/.exec(
+        colorSpaceChunk
+      );
+
+      expect(Number(match![1])).toBe(getEncodingGamma());
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import toneMappingShader from "../shaders/postprocessing/toneMapping.frag.wgsl?raw";
+import { ShaderPass } from "./ShaderPass";
+
+/**
+ * Operator mapping HDR scene colors into the displayable range.
+ * - linear: Exposure only, clipping values above 1
+ * - reinhard: Simple Reinhard curve
+ * - aces: ACES filmic curve fit
+ * - agx: AgX, which desaturates bright colors more naturally
+ * - neutral: Khronos PBR Neutral, which keeps base colors close to their sRGB values
+ */
+export type ToneMapping = "linear" | "reinhard" | "aces" | "agx" | "neutral";
+
+/**
+ * Operator ids, matching the switch in shaders/postprocessing/toneMapping.frag.wgsl.
+ */
+const TONE_MAPPING_MODES: Record<ToneMapping, number> = {
+  linear: 0,
+  reinhard: 1,
+  aces: 2,
+  agx: 3,
+  neutral: 4,
+};
+
+/**
+ * Final pass that applies exposure and a tone-mapping operator to an HDR image
+ * and encodes it to sRGB for the canvas. Its output is display-referred, so it
+ * must be the last pass.
+ *
+ * @example
+ * ```ts
+ * const pass = new ToneMappingPass({ toneMapping: "agx", exposure: 1.2 });
+ * ```
+ */
+export class ToneMappingPass extends ShaderPass {
+  /** Tone-mapping operator */
+  public toneMapping: ToneMapping;
+  /** Multiplier applied to scene colors before tone mapping */
+  public exposure: number;
+
+  /**
+   * Creates a new ToneMappingPass.
+   * @param options - Initial operator (default: 'linear') and exposure (default: 1)
+   */
+  constructor(options: { toneMapping?: ToneMapping; exposure?: number } = {}) {
+    super({
+      fragmentShader: toneMappingShader,
+      uniformBufferSize: 16,
+      label: "Tone Mapping Pass",
+    });
+    this.toneMapping = options.toneMapping ?? "linear";
+    this.exposure = options.exposure ?? 1;
+  }
+
+  protected writeUniformData(buffer: DataView): void {
+    buffer.setFloat32(0, this.exposure, true);
+    buffer.setUint32(4, TONE_MAPPING_MODES[this.toneMapping], true);
+  }
+}
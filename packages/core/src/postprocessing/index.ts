@@ -0,0 +1,13 @@
+export { Pass, type PassRenderContext } from "./Pass";
+export { ShaderPass, type ShaderPassOptions } from "./ShaderPass";
+export { BloomPass, type BloomPassOptions } from "./BloomPass";
+export {
+  DepthOfFieldPass,
+  type DepthOfFieldPassOptions,
+} from "./DepthOfFieldPass";
+export {
+  EffectComposer,
+  type EffectComposerOptions,
+} from "./EffectComposer";
+export { type ToneMapping } from "./ToneMappingPass";
+export { type Antialiasing } from "./OutputPass";
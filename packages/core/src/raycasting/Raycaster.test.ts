@@ -1,9 +1,14 @@
 import { describe, it, expect } from "bun:test";
 import { Raycaster } from "./Raycaster";
-import { Vector2, Vector3 } from "@web-real/math";
+import { Matrix4, Vector2, Vector3 } from "@web-real/math";
 import { PerspectiveCamera } from "../camera/PerspectiveCamera";
 import { OrthographicCamera } from "../camera/OrthographicCamera";
 import { Mesh } from "../scene/Mesh";
+import { InstancedMesh } from "../scene/InstancedMesh";
+import { Object3D } from "../scene/Object3D";
+import { Skeleton } from "../scene/Skeleton";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import { BufferGeometry } from "../geometry/BufferGeometry";
 import { BoxGeometry } from "../geometry/BoxGeometry";
 import { VertexColorMaterial } from "../material/VertexColorMaterial";
 
@@ -544,4 +549,158 @@ describe("Raycaster", () => {
       expect(intersection.point.z).toBeLessThan(5);
     });
   });
+
+  describe("instanced meshes", () => {
+    function createInstancedMesh(): InstancedMesh {
+      const mesh = new InstancedMesh(
+        new BoxGeometry(2, 2, 2),
+        new VertexColorMaterial(),
+        3
+      );
+      mesh.setMatrixAt(0, Matrix4.translation(new Vector3(-5, 0, 0)));
+      mesh.setMatrixAt(1, Matrix4.translation(new Vector3(0, 0, 0)));
+      mesh.setMatrixAt(2, Matrix4.translation(new Vector3(5, 0, 0)));
+      return mesh;
+    }
+
+    it("should report the id of the intersected instance", () => {
+      const mesh = createInstancedMesh();
+
+      const raycaster = new Raycaster(
+        new Vector3(5, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      const intersections = raycaster.intersectObject(mesh);
+
+      expect(intersections.length).toBeGreaterThan(0);
+      expect(intersections.every((hit) => hit.instanceId === 2)).toBe(true);
+      expect(intersections[0].object).toBe(mesh);
+      expect(intersections[0].point.x).toBeCloseTo(5, 5);
+      expect(intersections[0].point.z).toBeCloseTo(1, 5);
+    });
+
+    it("should sort hits on several instances by distance", () => {
+      const mesh = createInstancedMesh();
+
+      const raycaster = new Raycaster(
+        new Vector3(10, 0, 0),
+        new Vector3(-1, 0, 0)
+      );
+
+      const intersections = raycaster.intersectObject(mesh);
+      const instanceIds = intersections.map((hit) => hit.instanceId);
+
+      expect([...new Set(instanceIds)]).toEqual([2, 1, 0]);
+      expect(intersections[0].distance).toBeCloseTo(4, 5);
+    });
+
+    it("should apply the mesh transform on top of instance transforms", () => {
+      const mesh = createInstancedMesh();
+      mesh.position = new Vector3(0, 10, 0);
+
+      const raycaster = new Raycaster(
+        new Vector3(-5, 10, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      const intersections = raycaster.intersectObject(mesh);
+
+      expect(intersections.length).toBeGreaterThan(0);
+      expect(intersections[0].instanceId).toBe(0);
+      expect(intersections[0].point.y).toBeCloseTo(10, 5);
+    });
+
+    it("should return empty array when the ray passes between instances", () => {
+      const mesh = createInstancedMesh();
+
+      const raycaster = new Raycaster(
+        new Vector3(2.5, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      expect(raycaster.intersectObject(mesh)).toEqual([]);
+    });
+
+    it("should not set instanceId for plain meshes", () => {
+      const geometry = new BoxGeometry(2, 2, 2);
+      const mesh = new Mesh(geometry, new VertexColorMaterial());
+
+      const raycaster = new Raycaster(
+        new Vector3(0, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      const intersections = raycaster.intersectObject(mesh);
+
+      expect(intersections[0].instanceId).toBeUndefined();
+    });
+  });
+
+  describe("skinned meshes", () => {
+    function createSkinnedBox() {
+      const box = new BoxGeometry(2, 2, 2);
+      const skinWeights = new Float32Array(box.vertexCount * 4);
+      for (let i = 0; i < box.vertexCount; i++) {
+        skinWeights[i * 4] = 1;
+      }
+      const geometry = new BufferGeometry({
+        positions: box.positions,
+        normals: box.normals,
+        indices: box.indices,
+        skinIndices: new Uint16Array(box.vertexCount * 4),
+        skinWeights,
+      });
+      const bone = new Object3D();
+      const mesh = new SkinnedMesh(
+        geometry,
+        new VertexColorMaterial(),
+        new Skeleton([bone])
+      );
+      bone.position.set(5, 0, 0);
+      return mesh;
+    }
+
+    it("should test the bind pose by default", () => {
+      const mesh = createSkinnedBox();
+      const raycaster = new Raycaster(
+        new Vector3(0, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      expect(raycaster.intersectObject(mesh)[0].point.z).toBeCloseTo(1, 5);
+    });
+
+    it("should test the bind pose after computeBoundingBox()", () => {
+      const mesh = createSkinnedBox();
+      // The skinned pose box lies around x = 5, away from the bind pose
+      mesh.computeBoundingBox();
+      const raycaster = new Raycaster(
+        new Vector3(0, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+
+      const intersections = raycaster.intersectObject(mesh);
+
+      expect(intersections.length).toBeGreaterThan(0);
+      expect(intersections[0].point.x).toBeCloseTo(0, 5);
+      expect(intersections[0].point.z).toBeCloseTo(1, 5);
+    });
+
+    it("should test the skinned pose when useSkinnedPose is set", () => {
+      const mesh = createSkinnedBox();
+      const raycaster = new Raycaster(
+        new Vector3(5, 0, 5),
+        new Vector3(0, 0, -1)
+      );
+      expect(raycaster.intersectObject(mesh)).toEqual([]);
+
+      raycaster.useSkinnedPose = true;
+      const intersections = raycaster.intersectObject(mesh);
+
+      expect(intersections.length).toBeGreaterThan(0);
+      expect(intersections[0].point.x).toBeCloseTo(5, 5);
+      expect(intersections[0].point.z).toBeCloseTo(1, 5);
+    });
+  });
 });
@@ -1,9 +1,17 @@
-import { BarycentricCoordinates, Vector2, Vector3 } from "@web-real/math";
+import {
+  BarycentricCoordinates,
+  BoundingBox,
+  Vector2,
+  Vector3,
+} from "@web-real/math";
+import type { Matrix4 } from "@web-real/math";
 import { Ray } from "./Ray";
 import type { Camera } from "../camera/Camera";
 import type { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { InstancedMesh } from "../scene/InstancedMesh";
 import type { Object3D } from "../scene/Object3D";
 import type { Mesh } from "../scene/Mesh";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
 
 /**
  * Helper class for creating rays from camera and screen coordinates.
@@ -117,6 +125,8 @@ export interface Intersection {
   normal: Vector3;
   /** UV coordinates at intersection (undefined if geometry has no UVs) */
   uv?: Vector2;
+  /** Index of the intersected instance (only set for InstancedMesh) */
+  instanceId?: number;
 }
 
 /**
@@ -130,13 +140,15 @@ class IntersectionCalculator {
    * @param mesh - The mesh to test against
    * @param near - Minimum distance threshold for valid intersections
    * @param far - Maximum distance threshold for valid intersections
+   * @param useSkinnedPose - Whether to test a SkinnedMesh in its current pose instead of its bind pose
    * @returns Array of intersection points with the mesh
    */
   static calculateMeshIntersections(
     ray: Ray,
     mesh: Mesh,
     near: number,
-    far: number
+    far: number,
+    useSkinnedPose = false
   ): Intersection[] {
     if (!mesh.visible) {
       return [];
@@ -145,24 +157,105 @@ class IntersectionCalculator {
     // Update world matrix
     mesh.updateWorldMatrix(true, false);
 
+    if (mesh instanceof SkinnedMesh && useSkinnedPose) {
+      const positions = mesh.getSkinnedPositions();
+      return this._intersectGeometry(
+        ray,
+        mesh,
+        mesh.worldMatrix,
+        positions,
+        BoundingBox.fromPositions(positions),
+        near,
+        far
+      );
+    }
+
+    if (!(mesh instanceof InstancedMesh)) {
+      // A skinned mesh's boundingBox may cover its skinned pose instead
+      const boundingBox =
+        mesh instanceof SkinnedMesh
+          ? mesh.geometryBoundingBox
+          : mesh.boundingBox;
+      return this._intersectGeometry(
+        ray,
+        mesh,
+        mesh.worldMatrix,
+        mesh.geometry.positions,
+        boundingBox,
+        near,
+        far
+      );
+    }
+
+    // Early exit: test the bounding box of all instances before each instance
+    const meshRay = this._transformRayToLocal(ray, mesh.worldMatrix.inverse());
+    if (meshRay.intersectBox(mesh.boundingBox) === null) {
+      return [];
+    }
+
+    const intersections: Intersection[] = [];
+    const geometryBox = mesh.geometryBoundingBox;
+    for (let instanceId = 0; instanceId < mesh.count; instanceId++) {
+      const instanceMatrix = mesh.worldMatrix.multiply(
+        mesh.getMatrixAt(instanceId)
+      );
+      intersections.push(
+        ...this._intersectGeometry(
+          ray,
+          mesh,
+          instanceMatrix,
+          mesh.geometry.positions,
+          geometryBox,
+          near,
+          far,
+          instanceId
+        )
+      );
+    }
+
+    return intersections;
+  }
+
+  /**
+   * Calculates intersections between a ray and the mesh geometry placed with a transform.
+   * @param ray - The ray in world space
+   * @param mesh - The mesh providing the geometry
+   * @param matrix - Transform from geometry space to world space
+   * @param positions - Vertex positions in geometry space
+   * @param boundingBox - Bounding box of the positions
+   * @param near - Minimum distance threshold for valid intersections
+   * @param far - Maximum distance threshold for valid intersections
+   * @param instanceId - Instance index reported in the intersections (InstancedMesh only)
+   * @returns Array of intersection points with the geometry
+   */
+  private static _intersectGeometry(
+    ray: Ray,
+    mesh: Mesh,
+    matrix: Matrix4,
+    positions: Float32Array,
+    boundingBox: BoundingBox,
+    near: number,
+    far: number,
+    instanceId?: number
+  ): Intersection[] {
     // Transform ray to local space
-    const worldMatrixInverse = mesh.worldMatrix.inverse();
-    const localRay = this._transformRayToLocal(ray, worldMatrixInverse);
+    const localRay = this._transformRayToLocal(ray, matrix.inverse());
 
     // Early exit: test bounding box in local space
-    if (localRay.intersectBox(mesh.boundingBox) === null) {
+    if (localRay.intersectBox(boundingBox) === null) {
       return [];
     }
 
     // Test all triangles
     const intersections: Intersection[] = [];
-    const { positions, indices, uvs } = mesh.geometry;
+    const { indices, uvs } = mesh.geometry;
 
     for (let i = 0; i < indices.length; i += 3) {
       const intersection = this._intersectTriangle(
         localRay,
         ray,
         mesh,
+        matrix,
         positions,
         indices,
         uvs,
@@ -172,6 +265,9 @@ class IntersectionCalculator {
       );
 
       if (intersection) {
+        if (instanceId !== undefined) {
+          intersection.instanceId = instanceId;
+        }
         intersections.push(intersection);
       }
     }
@@ -199,6 +295,7 @@ class IntersectionCalculator {
    * @param localRay - The ray in local object space
    * @param worldRay - The ray in world space
    * @param mesh - The mesh containing the triangle
+   * @param matrix - Transform from local space to world space
    * @param positions - Vertex position data
    * @param indices - Triangle index data
    * @param uvs - UV coordinate data (optional)
@@ -211,6 +308,7 @@ class IntersectionCalculator {
     localRay: Ray,
     worldRay: Ray,
     mesh: Mesh,
+    matrix: Matrix4,
     positions: Float32Array,
     indices: Uint16Array | Uint32Array,
     uvs: Float32Array | undefined,
@@ -248,10 +346,8 @@ class IntersectionCalculator {
     const { point, faceNormal } = rayIntersection;
 
     // Transform to world space
-    const worldPoint = mesh.worldMatrix.transformPoint(point);
-    const worldNormal = mesh.worldMatrix
-      .transformDirection(faceNormal)
-      .normalize();
+    const worldPoint = matrix.transformPoint(point);
+    const worldNormal = matrix.transformDirection(faceNormal).normalize();
 
     // Check distance constraints
     const distance = worldRay.origin.sub(worldPoint).length;
@@ -301,6 +397,8 @@ export class Raycaster {
   public ray: Ray;
   public near: number;
   public far: number;
+  /** Test SkinnedMeshes in their current pose (skinned on the CPU) instead of their bind pose */
+  public useSkinnedPose: boolean = false;
 
   /**
    * Creates a new Raycaster instance.
@@ -391,7 +489,8 @@ export class Raycaster {
       this.ray,
       mesh,
       this.near,
-      this.far
+      this.far,
+      this.useSkinnedPose
     );
 
     intersections.push(...meshIntersections);
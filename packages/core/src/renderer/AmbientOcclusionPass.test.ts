@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Matrix4 } from "@web-real/math";
+import {
+  AmbientOcclusionPass,
+  createHemisphereKernel,
+} from "./AmbientOcclusionPass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { DummyTextures } from "../texture/DummyTextures";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    TEXTURE_BINDING: 0x04,
+    COPY_DST: 0x08,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("AmbientOcclusionPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+  let mockPassEncoder: any;
+  let mockMeshResources: any;
+
+  beforeEach(() => {
+    DummyTextures.clearCache();
+
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      setVertexBuffer: mock(() => {}),
+      setIndexBuffer: mock(() => {}),
+      draw: mock(() => {}),
+      drawIndexed: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+        descriptor,
+        createView: mock(() => ({ descriptor }) as unknown as GPUTextureView),
+        destroy: mock(() => {}),
+      })),
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      queue: {
+        writeBuffer: mock(() => {}),
+        writeTexture: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockMeshResources = {
+      getOrCreate: mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+      })),
+    };
+  });
+
+  function createPass(): AmbientOcclusionPass {
+    return new AmbientOcclusionPass({
+      device: mockDevice,
+      meshResources: mockMeshResources,
+    });
+  }
+
+  function renderPass(
+    pass: AmbientOcclusionPass,
+    options: { width?: number; height?: number; meshes?: any[] } = {}
+  ): void {
+    const camera = new PerspectiveCamera({ near: 0.1, far: 100 });
+    camera.updateWorldMatrix(false, false);
+    pass.render({
+      commandEncoder: mockCommandEncoder,
+      meshes: options.meshes ?? [],
+      camera,
+      width: options.width ?? 800,
+      height: options.height ?? 600,
+    });
+  }
+
+  function getPassLabels(): string[] {
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0].label
+    );
+  }
+
+  function getTextureDescriptors(): GPUTextureDescriptor[] {
+    return (mockDevice.createTexture as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  describe("render", () => {
+    it("should record nothing while disabled", () => {
+      const pass = createPass();
+
+      renderPass(pass);
+
+      expect(mockCommandEncoder.beginRenderPass).not.toHaveBeenCalled();
+      expect(mockDevice.createTexture).not.toHaveBeenCalled();
+    });
+
+    it("should record the depth prepass, SSAO, and both blur passes in order", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderPass(pass);
+
+      expect(getPassLabels()).toEqual([
+        "Ambient Occlusion Depth Prepass",
+        "Ambient Occlusion Pass",
+        "Ambient Occlusion Horizontal Blur Pass",
+        "Ambient Occlusion Vertical Blur Pass",
+      ]);
+      const entryPoints = (
+        mockDevice.createRenderPipeline as any
+      ).mock.calls.map((call: any[]) => call[0].fragment.entryPoint);
+      expect(entryPoints).toEqual(["ssao", "blurHorizontal", "blurVertical"]);
+    });
+
+    it("should allocate render-sized depth and occlusion textures", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderPass(pass, { width: 640, height: 360 });
+
+      const descriptors = getTextureDescriptors();
+      expect(descriptors.map((descriptor) => descriptor.format)).toEqual([
+        "depth32float",
+        "r8unorm",
+        "r8unorm",
+      ]);
+      for (const descriptor of descriptors) {
+        expect(descriptor.size).toEqual([640, 360]);
+      }
+    });
+
+    it("should draw the given meshes into the depth prepass", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderPass(pass, { meshes: [createMockMesh(), createMockMesh()] });
+
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(2);
+      const pipeline = (mockDevice.createRenderPipeline as any).mock
+        .calls[0][0];
+      expect(pipeline.label).toBe("Ambient Occlusion Depth Pipeline");
+    });
+
+    it("should write the settings and a clamped sample count", () => {
+      const pass = createPass();
+      Object.assign(pass.settings, {
+        enabled: true,
+        radius: 2,
+        bias: 0.5,
+        samples: 100,
+        intensity: 3,
+      });
+
+      renderPass(pass);
+
+      const [buffer, , data] = (mockDevice.queue.writeBuffer as any).mock
+        .calls[1];
+      expect(buffer.size).toBe(1168);
+      const params = new Float32Array(data, 128, 4);
+      expect([...params]).toEqual([2, 0.5, 3, 64]);
+    });
+
+    it("should keep the textures while the size is unchanged", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderPass(pass);
+      renderPass(pass);
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(3);
+
+      renderPass(pass, { width: 400 });
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(6);
+      const textures = (mockDevice.createTexture as any).mock.results;
+      expect(textures[0].value.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe("getBindGroupEntries", () => {
+    it("should bind a white texture while disabled", () => {
+      const pass = createPass();
+
+      const [entry] = pass.getBindGroupEntries();
+
+      expect(entry.binding).toBe(7);
+      const white = DummyTextures.getWhite(mockDevice).gpuTexture;
+      expect((entry.resource as any).descriptor).toBe(
+        (white as any).descriptor
+      );
+    });
+
+    it("should bind the occlusion texture once rendered", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderPass(pass);
+
+      const [entry] = pass.getBindGroupEntries();
+
+      expect((entry.resource as any).descriptor.label).toBe(
+        "Ambient Occlusion Texture"
+      );
+    });
+
+    it("should change the revision when the texture is allocated or released", () => {
+      const pass = createPass();
+      const initial = pass.revision;
+
+      pass.settings.enabled = true;
+      renderPass(pass);
+      const enabled = pass.revision;
+      renderPass(pass);
+      expect(pass.revision).toBe(enabled);
+
+      pass.settings.enabled = false;
+      renderPass(pass);
+
+      expect(enabled).not.toBe(initial);
+      expect(pass.revision).not.toBe(enabled);
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the textures and uniform buffer", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderPass(pass);
+
+      pass.dispose();
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+      const buffers = (mockDevice.createBuffer as any).mock.results;
+      for (const { value } of buffers) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+});
+
+describe("createHemisphereKernel", () => {
+  it("should return samples inside the unit hemisphere around +z", () => {
+    const kernel = createHemisphereKernel(64);
+
+    expect(kernel).toHaveLength(256);
+    for (let i = 0; i < 64; i++) {
+      const [x, y, z] = kernel.subarray(i * 4, i * 4 + 3);
+      const length = Math.hypot(x, y, z);
+      expect(z).toBeGreaterThan(0);
+      expect(length).toBeGreaterThanOrEqual(0.1 - 1e-6);
+      expect(length).toBeLessThanOrEqual(1 + 1e-6);
+    }
+  });
+
+  it("should be deterministic", () => {
+    expect(createHemisphereKernel(16)).toEqual(createHemisphereKernel(16));
+  });
+});
+
+function createMockMesh(): any {
+  return {
+    geometry: new BoxGeometry(),
+    worldMatrix: new Matrix4(),
+    vertexCount: 3,
+    material: {
+      getPrimitiveTopology: () => "triangle-list",
+      getVertexBufferLayout: () => ({ arrayStride: 32, attributes: [] }),
+    },
+  };
+}
@@ -0,0 +1,449 @@
+import type { Camera } from "../camera/Camera";
+import type { Mesh } from "../scene/Mesh";
+import ssaoShader from "../shaders/ambientOcclusion/ssao.wgsl?raw";
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import { DummyTextures } from "../texture/DummyTextures";
+import { DEPTH_FORMAT, DepthRenderer } from "./DepthRenderer";
+import { halton } from "./Halton";
+import type { LightingBindGroupSource } from "./LightBuffer";
+import type { MeshResourceCache } from "./MeshResourceCache";
+
+/** Must match MAX_SAMPLES in shaders/ambientOcclusion/ssao.wgsl. */
+const MAX_SAMPLES = 64;
+
+/** Byte offset of Uniforms.kernel (2 mat4x4f + params vec4f). */
+const KERNEL_OFFSET = 144;
+
+/** Byte size of the Uniforms struct. */
+const UNIFORMS_SIZE = KERNEL_OFFSET + MAX_SAMPLES * 16;
+
+/** Binding index of the occlusion texture in the shared lighting bind group. */
+const AMBIENT_OCCLUSION_BINDING = 7;
+
+const OCCLUSION_FORMAT: GPUTextureFormat = "r8unorm";
+
+/**
+ * Screen-space ambient occlusion settings, exposed as Renderer.ambientOcclusion.
+ */
+export interface AmbientOcclusionSettings {
+  /** Whether occlusion is computed; materials see no occlusion while disabled (default: false) */
+  enabled: boolean;
+  /** Sampling radius in world units (default: 0.5) */
+  radius: number;
+  /** Depth offset in world units that keeps flat surfaces from occluding themselves (default: 0.025) */
+  bias: number;
+  /** Kernel samples per pixel, 1 to 64 (default: 16) */
+  samples: number;
+  /** Exponent applied to the unoccluded fraction; 0 removes the effect (default: 1) */
+  intensity: number;
+}
+
+/**
+ * Occlusion textures and the depth prepass target at the render size.
+ */
+interface OcclusionTargets {
+  width: number;
+  height: number;
+  depth: GPUTexture;
+  occlusion: GPUTexture;
+  blur: GPUTexture;
+  /** Reads the blur texture: used by the SSAO and vertical blur passes */
+  blurInputBindGroup: GPUBindGroup;
+  /** Reads the occlusion texture: used by the horizontal blur pass */
+  occlusionInputBindGroup: GPUBindGroup;
+}
+
+/**
+ * Computes screen-space ambient occlusion (SSAO) for the frame and provides it to
+ * lit materials, which darken their ambient and image-based lighting with it.
+ *
+ * Each frame the pass:
+ * 1. draws the opaque meshes into a depth-only prepass texture,
+ * 2. compares a normal-oriented hemisphere of samples around every pixel against
+ *    that depth, reconstructing normals from neighbouring depths,
+ * 3. blurs the result horizontally and vertically with weights that fall off
+ *    across depth edges.
+ *
+ * While disabled no work is recorded and the occlusion textures are released;
+ * materials then read a 1x1 white texture.
+ *
+ * @example
+ * ```ts
+ * const aoPass = new AmbientOcclusionPass({ device, meshResources });
+ * const lightBuffer = new LightBuffer({ device, sources: [shadowPass, clusterPass, aoPass] });
+ * aoPass.settings.enabled = true;
+ * aoPass.render({ commandEncoder, meshes: opaqueMeshes, camera, width, height });
+ * ```
+ */
+export class AmbientOcclusionPass implements LightingBindGroupSource {
+  /** Parameters read at the start of every render() call */
+  public readonly settings: AmbientOcclusionSettings = {
+    enabled: false,
+    radius: 0.5,
+    bias: 0.025,
+    samples: 16,
+    intensity: 1,
+  };
+
+  private _device: GPUDevice;
+  private _depthRenderer: DepthRenderer;
+
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _pipelines: Map<string, GPURenderPipeline> = new Map();
+  private _uniformBuffer?: GPUBuffer;
+  private _uniformData: ArrayBuffer = new ArrayBuffer(UNIFORMS_SIZE);
+  private _kernelSize: number = 0;
+  private _targets?: OcclusionTargets;
+  private _fallbackView?: GPUTextureView;
+
+  private _revision: number = 0;
+
+  /**
+   * Creates a new AmbientOcclusionPass.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create textures, buffers, and pipelines
+   * @param options.meshResources - Mesh resource cache providing vertex and index buffers
+   */
+  constructor(options: {
+    device: GPUDevice;
+    meshResources: MeshResourceCache;
+  }) {
+    this._device = options.device;
+    this._depthRenderer = new DepthRenderer({
+      ...options,
+      label: "Ambient Occlusion",
+    });
+  }
+
+  /**
+   * Incremented whenever the occlusion texture is reallocated or released, invalidating bind groups that reference it.
+   */
+  get revision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Records the depth prepass, SSAO, and blur passes, or releases the occlusion textures if disabled.
+   * Must run before the passes that read the occlusion texture.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the passes
+   * @param options.meshes - Opaque meshes that occlude; only triangle-list meshes are drawn
+   * @param options.camera - Camera the frame is rendered from
+   * @param options.width - Render target width in pixels
+   * @param options.height - Render target height in pixels
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    meshes: Mesh[];
+    camera: Camera;
+    width: number;
+    height: number;
+  }): void {
+    if (!this.settings.enabled) {
+      this._releaseTargets();
+      return;
+    }
+
+    const { commandEncoder, camera } = options;
+    const targets = this._ensureTargets(
+      Math.max(1, options.width),
+      Math.max(1, options.height)
+    );
+
+    this._depthRenderer.render({
+      commandEncoder,
+      views: [
+        {
+          label: "Ambient Occlusion Depth Prepass",
+          target: targets.depth.createView(),
+          viewProjectionMatrix: camera.projectionMatrix.multiply(
+            camera.viewMatrix
+          ),
+        },
+      ],
+      meshes: options.meshes,
+    });
+
+    this._writeUniforms(camera);
+
+    this._drawFullscreen(
+      commandEncoder,
+      "Ambient Occlusion Pass",
+      "ssao",
+      targets.blurInputBindGroup,
+      targets.occlusion
+    );
+    this._drawFullscreen(
+      commandEncoder,
+      "Ambient Occlusion Horizontal Blur Pass",
+      "blurHorizontal",
+      targets.occlusionInputBindGroup,
+      targets.blur
+    );
+    this._drawFullscreen(
+      commandEncoder,
+      "Ambient Occlusion Vertical Blur Pass",
+      "blurVertical",
+      targets.blurInputBindGroup,
+      targets.occlusion
+    );
+  }
+
+  /**
+   * Returns the occlusion entry (binding 7) of the shared lighting bind group.
+   * @returns Entry for the blurred occlusion texture, or a white texture while disabled
+   */
+  getBindGroupEntries(): GPUBindGroupEntry[] {
+    return [
+      {
+        binding: AMBIENT_OCCLUSION_BINDING,
+        resource: this._targets
+          ? this._targets.occlusion.createView()
+          : this._getFallbackView(),
+      },
+    ];
+  }
+
+  /**
+   * Destroys all GPU resources owned by this pass.
+   */
+  dispose(): void {
+    this._releaseTargets();
+    this._depthRenderer.dispose();
+    this._uniformBuffer?.destroy();
+
+    this._uniformBuffer = undefined;
+    this._kernelSize = 0;
+    this._fallbackView = undefined;
+  }
+
+  private _drawFullscreen(
+    commandEncoder: GPUCommandEncoder,
+    label: string,
+    entryPoint: string,
+    bindGroup: GPUBindGroup,
+    target: GPUTexture
+  ): void {
+    const passEncoder = commandEncoder.beginRenderPass({
+      label,
+      colorAttachments: [
+        {
+          view: target.createView(),
+          clearValue: { r: 1, g: 1, b: 1, a: 1 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(this._getPipeline(entryPoint));
+    passEncoder.setBindGroup(0, bindGroup);
+    passEncoder.draw(3);
+    passEncoder.end();
+  }
+
+  /**
+   * Writes the Uniforms struct of shaders/ambientOcclusion/ssao.wgsl:
+   * projection (64 bytes), inverseProjection (64 bytes),
+   * params (radius, bias, intensity, sample count), kernel (16 bytes per sample).
+   */
+  private _writeUniforms(camera: Camera): void {
+    const { radius, bias, intensity } = this.settings;
+    const samples = Math.min(
+      MAX_SAMPLES,
+      Math.max(1, Math.floor(this.settings.samples))
+    );
+
+    const floats = new Float32Array(this._uniformData);
+    floats.set(camera.projectionMatrix.data, 0);
+    floats.set(camera.projectionMatrix.inverse().data, 16);
+    floats[32] = radius;
+    floats[33] = bias;
+    floats[34] = intensity;
+    floats[35] = samples;
+
+    if (this._kernelSize !== samples) {
+      floats.set(createHemisphereKernel(samples), KERNEL_OFFSET / 4);
+      this._kernelSize = samples;
+    }
+
+    this._device.queue.writeBuffer(
+      this._getUniformBuffer(),
+      0,
+      this._uniformData
+    );
+  }
+
+  private _getUniformBuffer(): GPUBuffer {
+    if (!this._uniformBuffer) {
+      this._uniformBuffer = this._device.createBuffer({
+        label: "Ambient Occlusion Uniform Buffer",
+        size: UNIFORMS_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+    }
+    return this._uniformBuffer;
+  }
+
+  /**
+   * Returns the textures at the given size, recreating them after a resize.
+   */
+  private _ensureTargets(width: number, height: number): OcclusionTargets {
+    if (this._targets?.width === width && this._targets.height === height) {
+      return this._targets;
+    }
+    this._releaseTargets();
+
+    const createTexture = (
+      label: string,
+      format: GPUTextureFormat
+    ): GPUTexture =>
+      this._device.createTexture({
+        label,
+        size: [width, height],
+        format,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+      });
+
+    const depth = createTexture(
+      "Ambient Occlusion Depth Texture",
+      DEPTH_FORMAT
+    );
+    const occlusion = createTexture(
+      "Ambient Occlusion Texture",
+      OCCLUSION_FORMAT
+    );
+    const blur = createTexture(
+      "Ambient Occlusion Blur Texture",
+      OCCLUSION_FORMAT
+    );
+
+    const createBindGroup = (input: GPUTexture): GPUBindGroup =>
+      this._device.createBindGroup({
+        label: "Ambient Occlusion Bind Group",
+        layout: this._getBindGroupLayout(),
+        entries: [
+          { binding: 0, resource: depth.createView() },
+          { binding: 1, resource: { buffer: this._getUniformBuffer() } },
+          { binding: 2, resource: input.createView() },
+        ],
+      });
+
+    this._targets = {
+      width,
+      height,
+      depth,
+      occlusion,
+      blur,
+      blurInputBindGroup: createBindGroup(blur),
+      occlusionInputBindGroup: createBindGroup(occlusion),
+    };
+    this._revision++;
+    return this._targets;
+  }
+
+  private _releaseTargets(): void {
+    if (!this._targets) return;
+
+    this._targets.depth.destroy();
+    this._targets.occlusion.destroy();
+    this._targets.blur.destroy();
+    this._targets = undefined;
+    this._revision++;
+  }
+
+  private _getFallbackView(): GPUTextureView {
+    if (!this._fallbackView) {
+      this._fallbackView = DummyTextures.getWhite(this._device)
+        .gpuTexture.createView();
+    }
+    return this._fallbackView;
+  }
+
+  private _getBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._bindGroupLayout) {
+      this._bindGroupLayout = this._device.createBindGroupLayout({
+        label: "Ambient Occlusion Bind Group Layout",
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.FRAGMENT,
+            texture: { sampleType: "depth" },
+          },
+          {
+            binding: 1,
+            visibility: GPUShaderStage.FRAGMENT,
+            buffer: { type: "uniform" },
+          },
+          {
+            binding: 2,
+            visibility: GPUShaderStage.FRAGMENT,
+            texture: { sampleType: "float" },
+          },
+        ],
+      });
+    }
+    return this._bindGroupLayout;
+  }
+
+  /**
+   * Returns the pipeline running a fragment entry point of ssao.wgsl over the whole target.
+   */
+  private _getPipeline(entryPoint: string): GPURenderPipeline {
+    let pipeline = this._pipelines.get(entryPoint);
+    if (!pipeline) {
+      pipeline = this._device.createRenderPipeline({
+        label: `Ambient Occlusion Pipeline (${entryPoint})`,
+        layout: this._device.createPipelineLayout({
+          bindGroupLayouts: [this._getBindGroupLayout()],
+        }),
+        vertex: {
+          module: this._device.createShaderModule({
+            label: "Ambient Occlusion Vertex Shader",
+            code: fullscreenVertexShader,
+          }),
+          entryPoint: "main",
+        },
+        fragment: {
+          module: this._device.createShaderModule({
+            label: "Ambient Occlusion Fragment Shader",
+            code: ssaoShader,
+          }),
+          entryPoint,
+          targets: [{ format: OCCLUSION_FORMAT }],
+        },
+        primitive: {
+          topology: "triangle-list",
+        },
+      });
+      this._pipelines.set(entryPoint, pipeline);
+    }
+    return pipeline;
+  }
+}
+
+/**
+ * Returns `count` tangent-space sample offsets (xyz, w unused) inside the unit hemisphere around +z.
+ * Directions follow a cosine-weighted golden-angle spiral; lengths grow quadratically
+ * in Halton order, so samples cluster near the center without correlating with direction.
+ * @param count - Number of samples
+ * @returns Packed vec4f offsets
+ */
+export function createHemisphereKernel(count: number): Float32Array {
+  const kernel = new Float32Array(count * 4);
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+
+  for (let i = 0; i < count; i++) {
+    const z = Math.sqrt(1 - (i + 0.5) / count);
+    const r = Math.sqrt(1 - z * z);
+    const phi = i * goldenAngle;
+    const t = halton(i + 1, 2);
+    const scale = 0.1 + 0.9 * t * t;
+
+    kernel[i * 4] = Math.cos(phi) * r * scale;
+    kernel[i * 4 + 1] = Math.sin(phi) * r * scale;
+    kernel[i * 4 + 2] = z * scale;
+  }
+
+  return kernel;
+}
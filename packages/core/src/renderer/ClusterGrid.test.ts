@@ -0,0 +1,234 @@
+import { describe, it, expect } from "bun:test";
+import { BoundingSphere, Matrix4, Vector3 } from "@web-real/math";
+import {
+  assignLightsToClusters,
+  computeClusterBounds,
+  getClusterDepthRange,
+  getClusterIndex,
+  getClusterSlice,
+  getClusterSliceDepth,
+  type ClusterGridSize,
+} from "./ClusterGrid";
+
+describe("ClusterGrid", () => {
+  const grid: ClusterGridSize = { x: 4, y: 2, z: 8 };
+  const projection = Matrix4.perspective(Math.PI / 2, 2, 1, 100);
+  const inverseProjection = projection.inverse();
+
+  describe("getClusterDepthRange", () => {
+    it("should read near and far from a perspective projection", () => {
+      // Act
+      const range = getClusterDepthRange(inverseProjection);
+
+      // Assert
+      expect(range.near).toBeCloseTo(1, 4);
+      expect(range.far).toBeCloseTo(100, 2);
+    });
+
+    it("should read near and far from an orthographic projection", () => {
+      // Arrange
+      const ortho = Matrix4.orthographic(-5, 5, -5, 5, 0.5, 50);
+
+      // Act
+      const range = getClusterDepthRange(ortho.inverse());
+
+      // Assert
+      expect(range.near).toBeCloseTo(0.5, 5);
+      expect(range.far).toBeCloseTo(50, 4);
+    });
+
+    it("should clamp a zero near plane to keep log slices finite", () => {
+      // Arrange
+      const ortho = Matrix4.orthographic(-1, 1, -1, 1, 0, 10);
+
+      // Act
+      const range = getClusterDepthRange(ortho.inverse());
+
+      // Assert
+      expect(range.near).toBeGreaterThan(0);
+      expect(range.far).toBeCloseTo(10, 4);
+    });
+  });
+
+  describe("getClusterSlice", () => {
+    const range = { near: 1, far: 100 };
+
+    it("should space slices logarithmically", () => {
+      // Assert - 8 slices over two decades: 4 slices per decade
+      expect(getClusterSliceDepth(0, range, 8)).toBeCloseTo(1, 5);
+      expect(getClusterSliceDepth(4, range, 8)).toBeCloseTo(10, 4);
+      expect(getClusterSliceDepth(8, range, 8)).toBeCloseTo(100, 3);
+      expect(getClusterSlice(1.5, range, 8)).toBe(0);
+      expect(getClusterSlice(11, range, 8)).toBe(4);
+      expect(getClusterSlice(99, range, 8)).toBe(7);
+    });
+
+    it("should be the inverse of getClusterSliceDepth", () => {
+      for (let slice = 0; slice < 8; slice++) {
+        const start = getClusterSliceDepth(slice, range, 8);
+        const end = getClusterSliceDepth(slice + 1, range, 8);
+        expect(getClusterSlice((start + end) / 2, range, 8)).toBe(slice);
+      }
+    });
+
+    it("should clamp depths outside the range", () => {
+      expect(getClusterSlice(0.1, range, 8)).toBe(0);
+      expect(getClusterSlice(1000, range, 8)).toBe(7);
+    });
+  });
+
+  describe("getClusterIndex", () => {
+    const range = { near: 1, far: 100 };
+
+    it("should count tiles from the top-left corner of the screen", () => {
+      expect(getClusterIndex(0, 0, 1, grid, range)).toBe(0);
+      expect(getClusterIndex(0.99, 0, 1, grid, range)).toBe(3);
+      expect(getClusterIndex(0, 0.99, 1, grid, range)).toBe(4);
+    });
+
+    it("should place depth slices after every screen tile", () => {
+      expect(getClusterIndex(0, 0, 11, grid, range)).toBe(4 * 4 * 2);
+      expect(getClusterIndex(0.99, 0.99, 99, grid, range)).toBe(
+        4 * 2 * 8 - 1
+      );
+    });
+
+    it("should clamp screen positions on the far edges", () => {
+      expect(getClusterIndex(1, 1, 1, grid, range)).toBe(7);
+    });
+  });
+
+  describe("computeClusterBounds", () => {
+    const range = getClusterDepthRange(inverseProjection);
+    const bounds = computeClusterBounds(inverseProjection, grid, range);
+
+    it("should return one box per cluster", () => {
+      expect(bounds).toHaveLength(grid.x * grid.y * grid.z);
+    });
+
+    it("should bound each slice between its near and far depths", () => {
+      const slice = 5;
+      const box = bounds[slice * grid.x * grid.y];
+      expect(-box.max.z).toBeCloseTo(getClusterSliceDepth(slice, range, 8), 3);
+      expect(-box.min.z).toBeCloseTo(
+        getClusterSliceDepth(slice + 1, range, 8),
+        3
+      );
+    });
+
+    it("should place the first tile at the top-left of the view", () => {
+      // Act
+      const box = bounds[0];
+
+      // Assert - 90 degree vertical fov at aspect 2: x spans [-2d, 2d], y spans [-d, d]
+      const nearDepth = -box.max.z;
+      const farDepth = -box.min.z;
+      expect(box.min.x).toBeCloseTo(-2 * farDepth, 3);
+      expect(box.max.x).toBeCloseTo(-nearDepth, 3);
+      expect(box.max.y).toBeCloseTo(farDepth, 3);
+      expect(box.min.y).toBeCloseTo(0, 3);
+    });
+
+    it("should contain the view point of every cluster index", () => {
+      // Arrange - a point in the middle of screen tile (2, 1) at depth 30
+      const viewPoint = new Vector3(0.25 * 2 * 30, -0.5 * 30, -30);
+      const ndc = projection.transformPoint(viewPoint);
+
+      // Act
+      const index = getClusterIndex(
+        (ndc.x + 1) / 2,
+        (1 - ndc.y) / 2,
+        30,
+        grid,
+        range
+      );
+
+      // Assert
+      expect(bounds[index].containsPoint(viewPoint)).toBe(true);
+    });
+
+    it("should support orthographic projections", () => {
+      // Arrange
+      const ortho = Matrix4.orthographic(-4, 4, -2, 2, 1, 10);
+      const orthoRange = getClusterDepthRange(ortho.inverse());
+
+      // Act
+      const orthoBounds = computeClusterBounds(
+        ortho.inverse(),
+        grid,
+        orthoRange
+      );
+
+      // Assert - every tile is 2x2 regardless of depth
+      for (const box of orthoBounds) {
+        expect(box.max.x - box.min.x).toBeCloseTo(2, 5);
+        expect(box.max.y - box.min.y).toBeCloseTo(2, 5);
+      }
+    });
+  });
+
+  describe("assignLightsToClusters", () => {
+    const range = getClusterDepthRange(inverseProjection);
+    const bounds = computeClusterBounds(inverseProjection, grid, range);
+
+    it("should assign a light only to the clusters its sphere touches", () => {
+      // Arrange - a small light in front of the camera, near the screen center
+      const light = new BoundingSphere(new Vector3(0.1, 0.1, -20), 0.5);
+
+      // Act
+      const clusters = assignLightsToClusters([light], bounds);
+
+      // Assert
+      const lit = clusters.flatMap((indices, cluster) =>
+        indices.length > 0 ? [cluster] : []
+      );
+      const slice = getClusterSlice(20, range, grid.z);
+      expect(lit).toContain(getClusterIndex(0.5, 0.45, 20, grid, range));
+      expect(lit.length).toBeLessThan(8);
+      for (const cluster of lit) {
+        const clusterSlice = Math.floor(cluster / (grid.x * grid.y));
+        expect(Math.abs(clusterSlice - slice)).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it("should skip lights behind the camera", () => {
+      // Arrange
+      const light = new BoundingSphere(new Vector3(0, 0, 5), 2);
+
+      // Act
+      const clusters = assignLightsToClusters([light], bounds);
+
+      // Assert
+      expect(clusters.every((indices) => indices.length === 0)).toBe(true);
+    });
+
+    it("should keep light indices in ascending order", () => {
+      // Arrange - three overlapping lights covering the whole view
+      const spheres = [0, 1, 2].map(
+        () => new BoundingSphere(new Vector3(0, 0, -10), 500)
+      );
+
+      // Act
+      const clusters = assignLightsToClusters(spheres, bounds);
+
+      // Assert
+      expect(clusters.every((indices) => indices.join() === "0,1,2")).toBe(
+        true
+      );
+    });
+
+    it("should drop lights beyond the per-cluster limit", () => {
+      // Arrange
+      const spheres = Array.from(
+        { length: 10 },
+        () => new BoundingSphere(new Vector3(0, 0, -10), 500)
+      );
+
+      // Act
+      const clusters = assignLightsToClusters(spheres, bounds, 4);
+
+      // Assert
+      expect(clusters[0]).toEqual([0, 1, 2, 3]);
+    });
+  });
+});
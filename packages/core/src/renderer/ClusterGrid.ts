@@ -0,0 +1,216 @@
+import { BoundingBox, Vector3 } from "@web-real/math";
+import type { BoundingSphere, Matrix4 } from "@web-real/math";
+
+/**
+ * Number of clusters along the screen x, screen y, and view depth axes.
+ */
+export interface ClusterGridSize {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Default cluster grid: 16x9 screen tiles, 24 logarithmic depth slices. */
+export const DEFAULT_CLUSTER_GRID: Readonly<ClusterGridSize> = {
+  x: 16,
+  y: 9,
+  z: 24,
+};
+
+/**
+ * Maximum number of lights a single cluster can reference; further lights are dropped.
+ * Must match MAX_LIGHTS_PER_CLUSTER in shaders/lighting/clusters.wgsl.
+ */
+export const MAX_LIGHTS_PER_CLUSTER = 63;
+
+/**
+ * Number of u32 values per cluster in the cluster light list (count + indices).
+ * Must match CLUSTER_STRIDE in shaders/lighting/clusters.wgsl.
+ */
+export const CLUSTER_STRIDE = MAX_LIGHTS_PER_CLUSTER + 1;
+
+/** Smallest view depth used for the first slice, so log slicing stays finite. */
+const MIN_CLUSTER_NEAR = 1e-3;
+
+/**
+ * View depth range covered by the cluster grid.
+ * Depth is the absolute view-space z, so it is positive in front of the camera.
+ */
+export interface ClusterDepthRange {
+  near: number;
+  far: number;
+}
+
+/**
+ * Reads the near and far view depths of a projection from its inverse.
+ * Works for any projection that maps depth to NDC z in [0, 1].
+ * @param inverseProjection - Inverse of the camera projection matrix
+ * @returns The view depth at NDC z = 0 and z = 1
+ */
+export function getClusterDepthRange(
+  inverseProjection: Matrix4
+): ClusterDepthRange {
+  const near = Math.abs(
+    inverseProjection.transformPoint(new Vector3(0, 0, 0)).z
+  );
+  const far = Math.abs(
+    inverseProjection.transformPoint(new Vector3(0, 0, 1)).z
+  );
+  const clampedNear = Math.max(near, MIN_CLUSTER_NEAR);
+  return { near: clampedNear, far: Math.max(far, clampedNear * 2) };
+}
+
+/**
+ * Returns the view depth at which a depth slice begins.
+ * Slices are spaced logarithmically so each covers a similar screen-space extent.
+ * @param slice - Slice index; `slices` returns the far plane
+ * @param range - View depth range of the grid
+ * @param slices - Number of depth slices
+ * @returns View depth of the slice's near boundary
+ */
+export function getClusterSliceDepth(
+  slice: number,
+  range: ClusterDepthRange,
+  slices: number
+): number {
+  return range.near * Math.pow(range.far / range.near, slice / slices);
+}
+
+/**
+ * Returns the depth slice containing a view depth, clamped to the grid.
+ * @param viewDepth - Absolute view-space z of the point
+ * @param range - View depth range of the grid
+ * @param slices - Number of depth slices
+ * @returns Slice index in [0, slices - 1]
+ */
+export function getClusterSlice(
+  viewDepth: number,
+  range: ClusterDepthRange,
+  slices: number
+): number {
+  const depth = Math.max(viewDepth, range.near);
+  const slice = Math.floor(
+    (Math.log(depth / range.near) / Math.log(range.far / range.near)) * slices
+  );
+  return clampIndex(slice, slices);
+}
+
+/**
+ * Returns the flat cluster index of a fragment.
+ * Tiles are counted from the top-left corner of the screen, matching fragment coordinates.
+ * @param screenX - Horizontal screen position in [0, 1], 0 = left
+ * @param screenY - Vertical screen position in [0, 1], 0 = top
+ * @param viewDepth - Absolute view-space z of the fragment
+ * @param grid - Cluster grid size
+ * @param range - View depth range of the grid
+ * @returns Cluster index (x + y * grid.x + slice * grid.x * grid.y)
+ */
+export function getClusterIndex(
+  screenX: number,
+  screenY: number,
+  viewDepth: number,
+  grid: ClusterGridSize,
+  range: ClusterDepthRange
+): number {
+  const tileX = clampIndex(Math.floor(screenX * grid.x), grid.x);
+  const tileY = clampIndex(Math.floor(screenY * grid.y), grid.y);
+  const slice = getClusterSlice(viewDepth, range, grid.z);
+  return tileX + tileY * grid.x + slice * grid.x * grid.y;
+}
+
+/**
+ * Computes the view-space bounding box of every cluster, in cluster index order.
+ * Each tile corner is unprojected at NDC z = 0 and z = 1, and the resulting line is
+ * cut at the slice's near and far depths, so perspective and orthographic
+ * projections are both supported.
+ * @param inverseProjection - Inverse of the camera projection matrix
+ * @param grid - Cluster grid size
+ * @param range - View depth range of the grid
+ * @returns One view-space AABB per cluster
+ */
+export function computeClusterBounds(
+  inverseProjection: Matrix4,
+  grid: ClusterGridSize,
+  range: ClusterDepthRange
+): BoundingBox[] {
+  // Unproject the near and far points of every tile corner once
+  const cornerLines: { near: Vector3; far: Vector3 }[] = [];
+  for (let y = 0; y <= grid.y; y++) {
+    for (let x = 0; x <= grid.x; x++) {
+      const ndcX = -1 + (2 * x) / grid.x;
+      const ndcY = 1 - (2 * y) / grid.y;
+      cornerLines.push({
+        near: inverseProjection.transformPoint(new Vector3(ndcX, ndcY, 0)),
+        far: inverseProjection.transformPoint(new Vector3(ndcX, ndcY, 1)),
+      });
+    }
+  }
+
+  const bounds: BoundingBox[] = [];
+  for (let z = 0; z < grid.z; z++) {
+    const sliceNear = getClusterSliceDepth(z, range, grid.z);
+    const sliceFar = getClusterSliceDepth(z + 1, range, grid.z);
+
+    for (let y = 0; y < grid.y; y++) {
+      for (let x = 0; x < grid.x; x++) {
+        const box = new BoundingBox();
+        for (const [cx, cy] of [
+          [x, y],
+          [x + 1, y],
+          [x, y + 1],
+          [x + 1, y + 1],
+        ]) {
+          const line = cornerLines[cx + cy * (grid.x + 1)];
+          box.expandByPoint(pointAtDepth(line.near, line.far, sliceNear));
+          box.expandByPoint(pointAtDepth(line.near, line.far, sliceFar));
+        }
+        bounds.push(box);
+      }
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Assigns lights to every cluster their view-space bounding sphere touches.
+ * @param spheres - View-space bounding sphere of each light (center + range)
+ * @param bounds - Cluster bounds from computeClusterBounds()
+ * @param maxLightsPerCluster - Lights beyond this count are dropped from a cluster
+ * @returns Indices into `spheres` for each cluster, in ascending order
+ */
+export function assignLightsToClusters(
+  spheres: BoundingSphere[],
+  bounds: BoundingBox[],
+  maxLightsPerCluster: number = MAX_LIGHTS_PER_CLUSTER
+): number[][] {
+  return bounds.map((box) => {
+    const indices: number[] = [];
+    for (let i = 0; i < spheres.length; i++) {
+      if (indices.length >= maxLightsPerCluster) break;
+      if (box.intersectsSphere(spheres[i])) {
+        indices.push(i);
+      }
+    }
+    return indices;
+  });
+}
+
+/**
+ * Returns the point on the line from `near` to `far` at the given absolute view depth.
+ */
+function pointAtDepth(near: Vector3, far: Vector3, depth: number): Vector3 {
+  const nearDepth = Math.abs(near.z);
+  const t = (depth - nearDepth) / (Math.abs(far.z) - nearDepth);
+  return new Vector3(
+    near.x + (far.x - near.x) * t,
+    near.y + (far.y - near.y) * t,
+    near.z + (far.z - near.z) * t
+  );
+}
+
+/**
+ * Clamps an index to [0, count - 1].
+ */
+function clampIndex(index: number, count: number): number {
+  return Math.min(Math.max(index, 0), count - 1);
+}
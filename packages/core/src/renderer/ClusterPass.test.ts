@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { ClusterPass } from "./ClusterPass";
+import { CLUSTER_STRIDE } from "./ClusterGrid";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    STORAGE: 0x0080,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+    COMPUTE: 0x4,
+  };
+}
+
+describe("ClusterPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+  let mockPassEncoder: any;
+  let mockLightBuffer: any;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      dispatchWorkgroups: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginComputePass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        label: descriptor.label,
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createBindGroup: mock(() => ({} as GPUBindGroup)),
+      createBindGroupLayout: mock(() => ({} as GPUBindGroupLayout)),
+      createPipelineLayout: mock(() => ({} as GPUPipelineLayout)),
+      createShaderModule: mock(() => ({} as GPUShaderModule)),
+      createComputePipeline: mock(() => ({} as GPUComputePipeline)),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockLightBuffer = {
+      buffer: { label: "Light List Buffer" } as GPUBuffer,
+    };
+  });
+
+  function createCamera(): PerspectiveCamera {
+    const camera = new PerspectiveCamera({ near: 0.5, far: 50 });
+    camera.updateWorldMatrix(false, false);
+    return camera;
+  }
+
+  function renderClusters(clusterPass: ClusterPass): void {
+    clusterPass.render({
+      commandEncoder: mockCommandEncoder,
+      camera: createCamera(),
+      lightBuffer: mockLightBuffer,
+      width: 800,
+      height: 400,
+    });
+  }
+
+  function getWrittenUniforms(): ArrayBuffer {
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls;
+    return calls[calls.length - 1][2];
+  }
+
+  describe("constructor", () => {
+    it("should use a 16x9x24 grid by default", () => {
+      // Act
+      const clusterPass = new ClusterPass({ device: mockDevice });
+
+      // Assert
+      expect(clusterPass.grid).toEqual({ x: 16, y: 9, z: 24 });
+      expect(clusterPass.clusterCount).toBe(16 * 9 * 24);
+    });
+
+    it("should throw for an empty grid", () => {
+      expect(
+        () =>
+          new ClusterPass({ device: mockDevice, grid: { x: 0, y: 9, z: 24 } })
+      ).toThrow("Cluster grid dimensions must be at least 1");
+    });
+  });
+
+  describe("render", () => {
+    it("should dispatch one invocation per cluster", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({
+        device: mockDevice,
+        grid: { x: 4, y: 4, z: 5 },
+      });
+
+      // Act
+      renderClusters(clusterPass);
+
+      // Assert - 80 clusters in workgroups of 64
+      expect(mockCommandEncoder.beginComputePass).toHaveBeenCalledTimes(1);
+      expect(mockPassEncoder.dispatchWorkgroups).toHaveBeenCalledWith(2);
+      expect(mockPassEncoder.end).toHaveBeenCalled();
+    });
+
+    it("should write the grid, depth range, and screen size", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({
+        device: mockDevice,
+        grid: { x: 4, y: 2, z: 8 },
+      });
+
+      // Act
+      renderClusters(clusterPass);
+
+      // Assert
+      const data = getWrittenUniforms();
+      const floats = new Float32Array(data);
+      expect(data.byteLength).toBe(176);
+      expect(Array.from(new Uint32Array(data, 128, 3))).toEqual([4, 2, 8]);
+      expect(floats[36]).toBeCloseTo(0.5, 4); // near
+      expect(floats[37]).toBeCloseTo(50, 2); // far
+
+      // slice = floor(log(depth) * scale - bias) puts the near plane at 0 and the far plane at 8
+      const scale = floats[38];
+      const bias = floats[39];
+      expect(Math.log(0.5) * scale - bias).toBeCloseTo(0, 4);
+      expect(Math.log(50) * scale - bias).toBeCloseTo(8, 3);
+
+      expect(floats[40]).toBe(800);
+      expect(floats[41]).toBe(400);
+      expect(floats[42]).toBeCloseTo(1 / 800, 6);
+      expect(floats[43]).toBeCloseTo(1 / 400, 6);
+    });
+
+    it("should bind the light list for culling", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({ device: mockDevice });
+
+      // Act
+      renderClusters(clusterPass);
+
+      // Assert
+      const descriptor = (mockDevice.createBindGroup as any).mock.calls[0][0];
+      expect(descriptor.entries[1].resource.buffer).toBe(
+        mockLightBuffer.buffer
+      );
+    });
+
+    it("should reuse the culling bind group until the light list buffer changes", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({ device: mockDevice });
+
+      // Act
+      renderClusters(clusterPass);
+      renderClusters(clusterPass);
+      mockLightBuffer.buffer = { label: "Grown Light List Buffer" };
+      renderClusters(clusterPass);
+
+      // Assert
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+      expect(mockDevice.createComputePipeline).toHaveBeenCalledTimes(1);
+    });
+
+    it("should compile the light and cluster chunks into the culling shader", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({ device: mockDevice });
+
+      // Act
+      renderClusters(clusterPass);
+
+      // Assert
+      const { code } = (mockDevice.createShaderModule as any).mock.calls[0][0];
+      expect(code).toContain("struct LightList");
+      expect(code).toContain("struct ClusterUniforms");
+      expect(code).toContain("@compute @workgroup_size(64)");
+    });
+  });
+
+  describe("getBindGroupEntries", () => {
+    it("should return the cluster uniforms and light lists as bindings 5 and 6", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({
+        device: mockDevice,
+        grid: { x: 2, y: 2, z: 2 },
+      });
+
+      // Act
+      const entries = clusterPass.getBindGroupEntries();
+
+      // Assert
+      expect(entries.map((entry) => entry.binding)).toEqual([5, 6]);
+      const clusterLights = (entries[1].resource as GPUBufferBinding).buffer;
+      expect(clusterLights.size).toBe(8 * CLUSTER_STRIDE * 4);
+    });
+
+    it("should reuse the buffers written by render", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({ device: mockDevice });
+      renderClusters(clusterPass);
+
+      // Act
+      clusterPass.getBindGroupEntries();
+
+      // Assert
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the buffers and bump the revision", () => {
+      // Arrange
+      const clusterPass = new ClusterPass({ device: mockDevice });
+      clusterPass.getBindGroupEntries();
+      const buffers = (mockDevice.createBuffer as any).mock.results.map(
+        (result: any) => result.value
+      );
+
+      // Act
+      clusterPass.dispose();
+
+      // Assert
+      for (const buffer of buffers) {
+        expect(buffer.destroy).toHaveBeenCalled();
+      }
+      expect(clusterPass.revision).toBe(1);
+    });
+  });
+});
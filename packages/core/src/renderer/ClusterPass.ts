@@ -0,0 +1,274 @@
+import type { Camera } from "../camera/Camera";
+import clusterCullingShader from "../shaders/lighting/clusterCulling.comp.wgsl?raw";
+import clustersShader from "../shaders/lighting/clusters.wgsl?raw";
+import lightsShader from "../shaders/lighting/lights.wgsl?raw";
+import {
+  CLUSTER_STRIDE,
+  DEFAULT_CLUSTER_GRID,
+  getClusterDepthRange,
+  type ClusterGridSize,
+} from "./ClusterGrid";
+import type { LightBuffer } from "./LightBuffer";
+
+/** Byte size of the ClusterUniforms struct (2 mat4x4f + 3 vec4). */
+const CLUSTER_UNIFORMS_SIZE = 176;
+
+/** Must match @workgroup_size in shaders/lighting/clusterCulling.comp.wgsl. */
+const CLUSTER_WORKGROUP_SIZE = 64;
+
+/** Binding indices of the cluster resources in the shared lighting bind group. */
+const CLUSTER_UNIFORMS_BINDING = 5;
+const CLUSTER_LIGHTS_BINDING = 6;
+
+/**
+ * Bins point and spot lights into view-space clusters (froxels) with a compute pass,
+ * so lit materials only evaluate the lights that can reach a fragment.
+ *
+ * The view frustum is split into `grid.x` by `grid.y` screen tiles and `grid.z`
+ * logarithmic depth slices. Each cluster stores a light count followed by up to
+ * MAX_LIGHTS_PER_CLUSTER indices into the LightBuffer list. The CPU reference of
+ * the cluster math lives in ClusterGrid.ts.
+ *
+ * @example
+ * ```ts
+ * const clusterPass = new ClusterPass({ device });
+ * const lightBuffer = new LightBuffer({ device, sources: [shadowPass, clusterPass] });
+ * lightBuffer.update(lights, shadowIndices);
+ * clusterPass.render({ commandEncoder, camera, lightBuffer, width, height });
+ * ```
+ */
+export class ClusterPass {
+  private _device: GPUDevice;
+  private _grid: ClusterGridSize;
+
+  private _pipeline?: GPUComputePipeline;
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _uniformBuffer?: GPUBuffer;
+  private _clusterLightsBuffer?: GPUBuffer;
+
+  private _bindGroup?: GPUBindGroup;
+  private _bindGroupLightBuffer?: GPUBuffer;
+
+  private _revision: number = 0;
+
+  /**
+   * Creates a new ClusterPass.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create buffers and the culling pipeline
+   * @param options.grid - Number of clusters along screen x, screen y, and depth (default: 16x9x24)
+   */
+  constructor(options: { device: GPUDevice; grid?: ClusterGridSize }) {
+    this._device = options.device;
+    this._grid = { ...(options.grid ?? DEFAULT_CLUSTER_GRID) };
+
+    if (this._grid.x < 1 || this._grid.y < 1 || this._grid.z < 1) {
+      throw new Error("Cluster grid dimensions must be at least 1");
+    }
+  }
+
+  /**
+   * Number of clusters along screen x, screen y, and depth.
+   */
+  get grid(): Readonly<ClusterGridSize> {
+    return this._grid;
+  }
+
+  /**
+   * Total number of clusters.
+   */
+  get clusterCount(): number {
+    return this._grid.x * this._grid.y * this._grid.z;
+  }
+
+  /**
+   * Incremented whenever the cluster buffers are reallocated, invalidating bind groups that reference them.
+   */
+  get revision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Writes the cluster uniforms for the camera and records the light culling compute pass.
+   * Must run after LightBuffer.update() and before the passes that read the clusters.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the compute pass
+   * @param options.camera - Camera whose view frustum is clustered
+   * @param options.lightBuffer - Light list to cull
+   * @param options.width - Render target width in pixels
+   * @param options.height - Render target height in pixels
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    camera: Camera;
+    lightBuffer: LightBuffer;
+    width: number;
+    height: number;
+  }): void {
+    const { commandEncoder, camera, lightBuffer, width, height } = options;
+
+    this._writeUniforms(camera, width, height);
+
+    const passEncoder = commandEncoder.beginComputePass({
+      label: "Cluster Light Culling Pass",
+    });
+    passEncoder.setPipeline(this._getPipeline());
+    passEncoder.setBindGroup(0, this._getBindGroup(lightBuffer.buffer));
+    passEncoder.dispatchWorkgroups(
+      Math.ceil(this.clusterCount / CLUSTER_WORKGROUP_SIZE)
+    );
+    passEncoder.end();
+  }
+
+  /**
+   * Returns the cluster entries (bindings 5-6) of the shared lighting bind group.
+   * @returns Entries for the cluster uniforms and the per-cluster light lists
+   */
+  getBindGroupEntries(): GPUBindGroupEntry[] {
+    return [
+      {
+        binding: CLUSTER_UNIFORMS_BINDING,
+        resource: { buffer: this._getUniformBuffer() },
+      },
+      {
+        binding: CLUSTER_LIGHTS_BINDING,
+        resource: { buffer: this._getClusterLightsBuffer() },
+      },
+    ];
+  }
+
+  /**
+   * Destroys all GPU resources owned by this pass.
+   */
+  dispose(): void {
+    this._uniformBuffer?.destroy();
+    this._clusterLightsBuffer?.destroy();
+
+    this._uniformBuffer = undefined;
+    this._clusterLightsBuffer = undefined;
+    this._bindGroup = undefined;
+    this._bindGroupLightBuffer = undefined;
+    this._revision++;
+  }
+
+  /**
+   * Writes the ClusterUniforms struct.
+   * - inverseProjection (64 bytes), viewMatrix (64 bytes)
+   * - gridSize (16 bytes): x, y, z (u32), unused
+   * - depthParams (16 bytes): near, far, slice scale, slice bias
+   * - screenSize (16 bytes): width, height, 1 / width, 1 / height
+   */
+  private _writeUniforms(camera: Camera, width: number, height: number): void {
+    const inverseProjection = camera.projectionMatrix.inverse();
+    const { near, far } = getClusterDepthRange(inverseProjection);
+
+    // slice = floor(log(depth) * scale - bias), see getClusterSlice()
+    const logRange = Math.log(far / near);
+    const sliceScale = this._grid.z / logRange;
+    const sliceBias = (this._grid.z * Math.log(near)) / logRange;
+
+    const data = new ArrayBuffer(CLUSTER_UNIFORMS_SIZE);
+    const floats = new Float32Array(data);
+    floats.set(inverseProjection.data, 0);
+    floats.set(camera.viewMatrix.data, 16);
+    new Uint32Array(data, 128, 3).set([
+      this._grid.x,
+      this._grid.y,
+      this._grid.z,
+    ]);
+    floats.set([near, far, sliceScale, sliceBias], 36);
+
+    const safeWidth = Math.max(width, 1);
+    const safeHeight = Math.max(height, 1);
+    floats.set([safeWidth, safeHeight, 1 / safeWidth, 1 / safeHeight], 40);
+
+    this._device.queue.writeBuffer(this._getUniformBuffer(), 0, data);
+  }
+
+  private _getUniformBuffer(): GPUBuffer {
+    if (!this._uniformBuffer) {
+      this._uniformBuffer = this._device.createBuffer({
+        label: "Cluster Uniform Buffer",
+        size: CLUSTER_UNIFORMS_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+    }
+    return this._uniformBuffer;
+  }
+
+  private _getClusterLightsBuffer(): GPUBuffer {
+    if (!this._clusterLightsBuffer) {
+      this._clusterLightsBuffer = this._device.createBuffer({
+        label: "Cluster Lights Buffer",
+        size: this.clusterCount * CLUSTER_STRIDE * 4,
+        usage: GPUBufferUsage.STORAGE,
+      });
+    }
+    return this._clusterLightsBuffer;
+  }
+
+  /**
+   * Returns the culling bind group, recreated when the light list buffer changes.
+   */
+  private _getBindGroup(lightListBuffer: GPUBuffer): GPUBindGroup {
+    if (this._bindGroup && this._bindGroupLightBuffer === lightListBuffer) {
+      return this._bindGroup;
+    }
+
+    this._bindGroup = this._device.createBindGroup({
+      label: "Cluster Culling Bind Group",
+      layout: this._getBindGroupLayout(),
+      entries: [
+        { binding: 0, resource: { buffer: this._getUniformBuffer() } },
+        { binding: 1, resource: { buffer: lightListBuffer } },
+        { binding: 2, resource: { buffer: this._getClusterLightsBuffer() } },
+      ],
+    });
+    this._bindGroupLightBuffer = lightListBuffer;
+    return this._bindGroup;
+  }
+
+  private _getBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._bindGroupLayout) {
+      this._bindGroupLayout = this._device.createBindGroupLayout({
+        label: "Cluster Culling Bind Group Layout",
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.COMPUTE,
+            buffer: { type: "uniform" },
+          },
+          {
+            binding: 1,
+            visibility: GPUShaderStage.COMPUTE,
+            buffer: { type: "read-only-storage" },
+          },
+          {
+            binding: 2,
+            visibility: GPUShaderStage.COMPUTE,
+            buffer: { type: "storage" },
+          },
+        ],
+      });
+    }
+    return this._bindGroupLayout;
+  }
+
+  private _getPipeline(): GPUComputePipeline {
+    if (!this._pipeline) {
+      this._pipeline = this._device.createComputePipeline({
+        label: "Cluster Light Culling Pipeline",
+        layout: this._device.createPipelineLayout({
+          bindGroupLayouts: [this._getBindGroupLayout()],
+        }),
+        compute: {
+          module: this._device.createShaderModule({
+            label: "Cluster Light Culling Shader",
+            code: `${lightsShader}\n${clustersShader}\n${clusterCullingShader}`,
+          }),
+          entryPoint: "main",
+        },
+      });
+    }
+    return this._pipeline;
+  }
+}
@@ -0,0 +1,506 @@
+import type { Matrix4 } from "@web-real/math";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import type { VertexBufferLayout } from "../material/Material";
+import type { Mesh } from "../scene/Mesh";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import type { Texture } from "../texture/Texture";
+import instancingChunk from "../shaders/instancing/instancing.wgsl?raw";
+import skinningChunk from "../shaders/skinning/skinning.wgsl?raw";
+import morphingChunk from "../shaders/morphing/morphing.wgsl?raw";
+import displacementChunk from "../shaders/displacement/displacement.wgsl?raw";
+import shadowDepthShader from "../shaders/shadow/shadowDepth.vert.wgsl?raw";
+import shadowDepthDeformedShader from "../shaders/shadow/shadowDepthDeformed.vert.wgsl?raw";
+import shadowDepthDisplacedShader from "../shaders/shadow/shadowDepthDisplaced.vert.wgsl?raw";
+import { INSTANCE_BUFFER_LAYOUT, INSTANCE_BUFFER_SLOT } from "./InstanceBuffer";
+import {
+  MeshResourceCache,
+  type MeshGPUResources,
+} from "./MeshResourceCache";
+import { hasMorphTargets } from "./MorphBuffer";
+
+/** Format of every depth texture drawn by a DepthRenderer. */
+export const DEPTH_FORMAT: GPUTextureFormat = "depth32float";
+
+/** Per-draw uniform slot size, aligned to minUniformBufferOffsetAlignment. */
+const CASTER_UNIFORM_STRIDE = 256;
+
+/** Byte size of the displaced Uniforms struct: a mat4x4f and the displacement params. */
+const CASTER_UNIFORM_SIZE = 80;
+
+/**
+ * Displacement along the normal that a mesh's material applies in its vertex shader.
+ */
+export interface Displacement {
+  map: Texture;
+  scale: number;
+  bias: number;
+}
+
+/**
+ * A single depth render into one depth texture view.
+ */
+export interface DepthView {
+  label: string;
+  target: GPUTextureView;
+  viewProjectionMatrix: Matrix4;
+}
+
+/**
+ * Draws meshes depth-only from one or more views, e.g. shadow map faces or the
+ * camera depth prepass. Positions are transformed by the instance matrices and,
+ * for skinned, morphed or displaced meshes, by the same deformation as the main pass.
+ *
+ * Each DepthRenderer owns its per-draw uniform buffer, so several renderers can
+ * record into the same command encoder before it is submitted.
+ *
+ * @example
+ * ```ts
+ * const depthRenderer = new DepthRenderer({ device, meshResources, label: "Shadow" });
+ * depthRenderer.render({ commandEncoder, views, meshes });
+ * ```
+ */
+export class DepthRenderer {
+  private _device: GPUDevice;
+  private _meshResources: MeshResourceCache;
+  private _label: string;
+
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _deformBindGroupLayout?: GPUBindGroupLayout;
+  private _displacedBindGroupLayout?: GPUBindGroupLayout;
+  private _depthPipelines: Map<string, GPURenderPipeline> = new Map();
+  private _deformBindGroups: WeakMap<MeshGPUResources, GPUBindGroup> =
+    new WeakMap();
+  private _displacedBindGroups: WeakMap<
+    MeshGPUResources,
+    { map: Texture; bindGroup: GPUBindGroup }
+  > = new WeakMap();
+  private _casterUniformBuffer?: GPUBuffer;
+  private _casterBindGroup?: GPUBindGroup;
+
+  /**
+   * Creates a new DepthRenderer.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create buffers and pipelines
+   * @param options.meshResources - Mesh resource cache providing vertex and index buffers
+   * @param options.label - Prefix of the GPU object labels, e.g. "Shadow"
+   */
+  constructor(options: {
+    device: GPUDevice;
+    meshResources: MeshResourceCache;
+    label: string;
+  }) {
+    this._device = options.device;
+    this._meshResources = options.meshResources;
+    this._label = options.label;
+  }
+
+  /**
+   * Records one depth-only render pass per view, clearing each target to 1.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the depth passes
+   * @param options.views - Depth targets and the view-projection matrices to draw them with
+   * @param options.meshes - Meshes to draw; only triangle-list meshes are drawn
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    views: DepthView[];
+    meshes: Mesh[];
+  }): void {
+    const { views } = options;
+    if (views.length === 0) return;
+
+    const meshes = options.meshes.filter(
+      (mesh) => mesh.material.getPrimitiveTopology() === "triangle-list"
+    );
+    this._writeCasterUniforms(views, meshes);
+
+    views.forEach((view, viewIndex) => {
+      const passEncoder = options.commandEncoder.beginRenderPass({
+        label: view.label,
+        colorAttachments: [],
+        depthStencilAttachment: {
+          view: view.target,
+          depthClearValue: 1.0,
+          depthLoadOp: "clear",
+          depthStoreOp: "store",
+        },
+      });
+
+      meshes.forEach((mesh, meshIndex) => {
+        const resources = this._meshResources.getOrCreate(mesh);
+        const displacement = isDisplaced(mesh, resources)
+          ? getDisplacement(mesh)
+          : undefined;
+        const deformed = !!displacement || isDeformed(mesh, resources);
+        const pipeline = this._getOrCreateDepthPipeline(
+          mesh.material.getVertexBufferLayout(),
+          deformed,
+          !!displacement
+        );
+
+        passEncoder.setPipeline(pipeline);
+        passEncoder.setBindGroup(0, this._casterBindGroup!, [
+          (viewIndex * meshes.length + meshIndex) * CASTER_UNIFORM_STRIDE,
+        ]);
+        if (displacement) {
+          passEncoder.setBindGroup(
+            1,
+            this._getDisplacedBindGroup(resources, displacement.map)
+          );
+        } else if (deformed) {
+          passEncoder.setBindGroup(1, this._getDeformBindGroup(resources));
+        }
+        passEncoder.setVertexBuffer(0, resources.vertexBuffer);
+        passEncoder.setVertexBuffer(
+          INSTANCE_BUFFER_SLOT,
+          resources.instanceBuffer
+        );
+
+        if (resources.indexCount > 0) {
+          passEncoder.setIndexBuffer(
+            resources.indexBuffer,
+            resources.indexFormat
+          );
+          passEncoder.drawIndexed(
+            resources.indexCount,
+            resources.instanceCount
+          );
+        } else {
+          passEncoder.draw(mesh.vertexCount, resources.instanceCount);
+        }
+      });
+
+      passEncoder.end();
+    });
+  }
+
+  /**
+   * Destroys the per-draw uniform buffer and releases cached pipelines and bind groups.
+   */
+  dispose(): void {
+    this._casterUniformBuffer?.destroy();
+
+    this._casterUniformBuffer = undefined;
+    this._casterBindGroup = undefined;
+    this._depthPipelines.clear();
+    this._deformBindGroups = new WeakMap();
+    this._displacedBindGroups = new WeakMap();
+  }
+
+  /**
+   * Writes one MVP matrix per (view, mesh) pair into dynamic-offset slots,
+   * followed by the displacement scale and bias of the mesh.
+   */
+  private _writeCasterUniforms(views: DepthView[], meshes: Mesh[]): void {
+    const slotCount = Math.max(1, views.length * meshes.length);
+    const requiredSize = slotCount * CASTER_UNIFORM_STRIDE;
+
+    if (
+      !this._casterUniformBuffer ||
+      this._casterUniformBuffer.size < requiredSize
+    ) {
+      this._casterUniformBuffer?.destroy();
+      this._casterUniformBuffer = this._device.createBuffer({
+        label: `${this._label} Caster Uniform Buffer`,
+        size: requiredSize,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      this._casterBindGroup = this._device.createBindGroup({
+        label: `${this._label} Caster Bind Group`,
+        layout: this._getBindGroupLayout(),
+        entries: [
+          {
+            binding: 0,
+            resource: {
+              buffer: this._casterUniformBuffer,
+              size: CASTER_UNIFORM_SIZE,
+            },
+          },
+        ],
+      });
+    }
+
+    const displacements = meshes.map(getDisplacement);
+    const data = new Float32Array(requiredSize / 4);
+    views.forEach((view, viewIndex) => {
+      meshes.forEach((mesh, meshIndex) => {
+        const mvp = view.viewProjectionMatrix.multiply(mesh.worldMatrix);
+        const base =
+          ((viewIndex * meshes.length + meshIndex) * CASTER_UNIFORM_STRIDE) /
+          4;
+        data.set(mvp.data, base);
+
+        const displacement = displacements[meshIndex];
+        if (displacement) {
+          data[base + 16] = displacement.scale;
+          data[base + 17] = displacement.bias;
+        }
+      });
+    });
+
+    this._device.queue.writeBuffer(this._casterUniformBuffer, 0, data);
+  }
+
+  private _getBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._bindGroupLayout) {
+      this._bindGroupLayout = this._device.createBindGroupLayout({
+        label: `${this._label} Caster Bind Group Layout`,
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.VERTEX,
+            buffer: { type: "uniform", hasDynamicOffset: true },
+          },
+        ],
+      });
+    }
+    return this._bindGroupLayout;
+  }
+
+  private _getDeformBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._deformBindGroupLayout) {
+      this._deformBindGroupLayout = this._device.createBindGroupLayout({
+        label: `${this._label} Deform Bind Group Layout`,
+        entries: createDeformBindGroupLayoutEntries(false),
+      });
+    }
+    return this._deformBindGroupLayout;
+  }
+
+  private _getDisplacedBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._displacedBindGroupLayout) {
+      this._displacedBindGroupLayout = this._device.createBindGroupLayout({
+        label: `${this._label} Displaced Deform Bind Group Layout`,
+        entries: createDeformBindGroupLayoutEntries(true),
+      });
+    }
+    return this._displacedBindGroupLayout;
+  }
+
+  /**
+   * Returns the skin and morph bind group of a deformed mesh, cached by its GPU resources.
+   */
+  private _getDeformBindGroup(resources: MeshGPUResources): GPUBindGroup {
+    let bindGroup = this._deformBindGroups.get(resources);
+    if (!bindGroup) {
+      bindGroup = this._device.createBindGroup({
+        label: `${this._label} Deform Bind Group`,
+        layout: this._getDeformBindGroupLayout(),
+        entries: createDeformBindGroupEntries(resources),
+      });
+      this._deformBindGroups.set(resources, bindGroup);
+    }
+    return bindGroup;
+  }
+
+  /**
+   * Returns the skin, morph and displacement bind group of a displaced mesh,
+   * cached by its GPU resources and recreated if the displacement map changed.
+   */
+  private _getDisplacedBindGroup(
+    resources: MeshGPUResources,
+    map: Texture
+  ): GPUBindGroup {
+    let cached = this._displacedBindGroups.get(resources);
+    if (!cached || cached.map !== map) {
+      cached = {
+        map,
+        bindGroup: this._device.createBindGroup({
+          label: `${this._label} Displaced Deform Bind Group`,
+          layout: this._getDisplacedBindGroupLayout(),
+          entries: createDeformBindGroupEntries(resources, map),
+        }),
+      };
+      this._displacedBindGroups.set(resources, cached);
+    }
+    return cached.bindGroup;
+  }
+
+  /**
+   * Returns a depth-only pipeline reading positions from location 0 of a buffer with the given layout,
+   * transformed by the per-instance matrices in the instance buffer and, if deformed,
+   * by the morph targets and bone matrices in group 1. Displaced pipelines also read
+   * the normal and uv at locations 1 and 2 and the displacement map in group 1.
+   */
+  private _getOrCreateDepthPipeline(
+    layout: VertexBufferLayout,
+    deformed: boolean,
+    displaced: boolean
+  ): GPURenderPipeline {
+    const key = `${layout.arrayStride}:${deformed}:${displaced}`;
+    const cached = this._depthPipelines.get(key);
+    if (cached) return cached;
+
+    const bindGroupLayouts = [this._getBindGroupLayout()];
+    if (displaced) {
+      bindGroupLayouts.push(this._getDisplacedBindGroupLayout());
+    } else if (deformed) {
+      bindGroupLayouts.push(this._getDeformBindGroupLayout());
+    }
+
+    const pipeline = this._device.createRenderPipeline({
+      label: displaced
+        ? `Displaced ${this._label} Depth Pipeline`
+        : deformed
+          ? `Deformed ${this._label} Depth Pipeline`
+          : `${this._label} Depth Pipeline`,
+      layout: this._device.createPipelineLayout({ bindGroupLayouts }),
+      vertex: {
+        module: this._device.createShaderModule({
+          label: `${this._label} Depth Vertex Shader`,
+          code: displaced
+            ? `${instancingChunk}\n${skinningChunk}\n${morphingChunk}\n${displacementChunk}\n${shadowDepthDisplacedShader}`
+            : deformed
+              ? `${instancingChunk}\n${skinningChunk}\n${morphingChunk}\n${shadowDepthDeformedShader}`
+              : `${instancingChunk}\n${shadowDepthShader}`,
+        }),
+        entryPoint: "main",
+        buffers: [
+          {
+            arrayStride: layout.arrayStride,
+            attributes: getDepthVertexAttributes(layout, displaced),
+          },
+          INSTANCE_BUFFER_LAYOUT,
+        ],
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none",
+      },
+      depthStencil: {
+        depthWriteEnabled: true,
+        depthCompare: "less",
+        format: DEPTH_FORMAT,
+      },
+    });
+
+    this._depthPipelines.set(key, pipeline);
+    return pipeline;
+  }
+}
+
+/**
+ * Whether a mesh is skinned or morphed, and has the skin and morph buffers
+ * the deformed depth pipeline binds.
+ * @param mesh - Mesh to check
+ * @param resources - GPU resources of the mesh
+ * @returns True if the mesh must be drawn with a deformed pipeline
+ */
+export function isDeformed(mesh: Mesh, resources: MeshGPUResources): boolean {
+  return (
+    (mesh instanceof SkinnedMesh || hasMorphTargets(mesh.geometry)) &&
+    hasDeformBuffers(resources)
+  );
+}
+
+/**
+ * Whether a mesh is displaced by its material, and has the skin and morph
+ * buffers the displaced depth pipeline binds alongside the displacement map.
+ * @param mesh - Mesh to check
+ * @param resources - GPU resources of the mesh
+ * @returns True if the mesh must be drawn with a displaced pipeline
+ */
+export function isDisplaced(mesh: Mesh, resources: MeshGPUResources): boolean {
+  return getDisplacement(mesh) !== undefined && hasDeformBuffers(resources);
+}
+
+/**
+ * Returns the displacement a mesh's material applies to its vertices, e.g. the
+ * displacementMap of a BlinnPhongMaterial.
+ * @param mesh - Mesh to check
+ * @returns The displacement map, scale and bias, or undefined if the mesh is not displaced
+ */
+export function getDisplacement(mesh: Mesh): Displacement | undefined {
+  const material = mesh.material;
+  if (!(material instanceof BlinnPhongMaterial) || !material.displacementMap) {
+    return undefined;
+  }
+  return {
+    map: material.displacementMap,
+    scale: material.displacementScale,
+    bias: material.displacementBias,
+  };
+}
+
+/**
+ * Vertex attributes read by depth-only pipelines: the position and, for displaced
+ * meshes, the normal and uv at locations 1 and 2 of the material's layout.
+ * @param layout - Vertex buffer layout of the mesh's material
+ * @param displaced - Whether the pipeline displaces positions
+ * @returns The attributes at locations 0-2, or only the position
+ */
+export function getDepthVertexAttributes(
+  layout: VertexBufferLayout,
+  displaced: boolean
+): GPUVertexAttribute[] {
+  if (!displaced) {
+    return [{ shaderLocation: 0, offset: 0, format: "float32x3" }];
+  }
+  return layout.attributes.filter((attribute) => attribute.shaderLocation <= 2);
+}
+
+/**
+ * Layout entries of group 1 in deformed depth-only pipelines: bone matrices, skin
+ * vertices, morph influences and morph deltas at bindings 0-3, followed for
+ * displaced pipelines by the displacement sampler and map at bindings 4 and 5.
+ * @param displaced - Whether to add the displacement bindings
+ * @returns The bind group layout entries
+ */
+export function createDeformBindGroupLayoutEntries(
+  displaced: boolean
+): GPUBindGroupLayoutEntry[] {
+  const entries: GPUBindGroupLayoutEntry[] = [0, 1, 2, 3].map((binding) => ({
+    binding,
+    visibility: GPUShaderStage.VERTEX,
+    buffer: { type: "read-only-storage" },
+  }));
+  if (displaced) {
+    entries.push(
+      {
+        binding: 4,
+        visibility: GPUShaderStage.VERTEX,
+        sampler: { type: "filtering" },
+      },
+      {
+        binding: 5,
+        visibility: GPUShaderStage.VERTEX,
+        texture: { sampleType: "float" },
+      }
+    );
+  }
+  return entries;
+}
+
+/**
+ * Bind group entries matching createDeformBindGroupLayoutEntries.
+ * @param resources - GPU resources of the mesh, with skin and morph buffers
+ * @param displacementMap - Displacement map of a displaced mesh
+ * @returns The bind group entries
+ */
+export function createDeformBindGroupEntries(
+  resources: MeshGPUResources,
+  displacementMap?: Texture
+): GPUBindGroupEntry[] {
+  const entries: GPUBindGroupEntry[] = [
+    { binding: 0, resource: { buffer: resources.boneBuffer! } },
+    { binding: 1, resource: { buffer: resources.skinVertexBuffer! } },
+    { binding: 2, resource: { buffer: resources.morphInfluenceBuffer! } },
+    { binding: 3, resource: { buffer: resources.morphDeltaBuffer! } },
+  ];
+  if (displacementMap) {
+    entries.push(
+      { binding: 4, resource: displacementMap.gpuSampler },
+      { binding: 5, resource: displacementMap.gpuTexture.createView() }
+    );
+  }
+  return entries;
+}
+
+function hasDeformBuffers(resources: MeshGPUResources): boolean {
+  return (
+    !!resources.boneBuffer &&
+    !!resources.skinVertexBuffer &&
+    !!resources.morphInfluenceBuffer &&
+    !!resources.morphDeltaBuffer
+  );
+}
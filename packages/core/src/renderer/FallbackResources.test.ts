@@ -6,6 +6,11 @@ beforeAll(() => {
   (globalThis as any).GPUTextureUsage = {
     TEXTURE_BINDING: 4,
   };
+  (globalThis as any).GPUBufferUsage = {
+    VERTEX: 0x0020,
+    STORAGE: 0x0080,
+    COPY_DST: 0x0008,
+  };
 });
 
 describe("FallbackResources", () => {
@@ -14,6 +19,12 @@ describe("FallbackResources", () => {
       createTexture: mock(() => ({
         destroy: mock(() => {}),
       })),
+      createBuffer: mock(() => ({
+        destroy: mock(() => {}),
+      })),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
     } as unknown as GPUDevice;
   }
 
@@ -61,6 +72,76 @@ describe("FallbackResources", () => {
     });
   });
 
+  describe("getIdentityInstanceBuffer", () => {
+    it("should upload a single identity instance with a white color", () => {
+      const device = createMockDevice();
+      const resources = new FallbackResources(device);
+
+      const buffer = resources.getIdentityInstanceBuffer();
+
+      const data = (device.queue.writeBuffer as any).mock.calls[0][2];
+      expect((device.queue.writeBuffer as any).mock.calls[0][0]).toBe(buffer);
+      expect(Array.from(data)).toEqual([
+        1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 1, 1, 1, 1,
+      ]);
+    });
+
+    it("should reuse same buffer on subsequent calls", () => {
+      const device = createMockDevice();
+      const resources = new FallbackResources(device);
+
+      const buffer1 = resources.getIdentityInstanceBuffer();
+      const buffer2 = resources.getIdentityInstanceBuffer();
+
+      expect(buffer1).toBe(buffer2);
+      expect(device.createBuffer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("skin fallbacks", () => {
+    it("should upload a single identity bone", () => {
+      const device = createMockDevice();
+      const resources = new FallbackResources(device);
+
+      const buffer = resources.getIdentityBoneBuffer();
+
+      const call = (device.queue.writeBuffer as any).mock.calls[0];
+      expect(call[0]).toBe(buffer);
+      expect(Array.from(call[2])).toEqual([
+        1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1,
+      ]);
+      expect(resources.getIdentityBoneBuffer()).toBe(buffer);
+    });
+
+    it("should create a single zero-weight skin vertex", () => {
+      const device = createMockDevice();
+      const resources = new FallbackResources(device);
+
+      const buffer = resources.getUnskinnedVertexBuffer();
+
+      const descriptor = (device.createBuffer as any).mock.calls[0][0];
+      expect(descriptor.size).toBe(32);
+      expect(resources.getUnskinnedVertexBuffer()).toBe(buffer);
+    });
+  });
+
+  describe("morph fallbacks", () => {
+    it("should create a single zero influence and delta", () => {
+      const device = createMockDevice();
+      const resources = new FallbackResources(device);
+
+      const influenceBuffer = resources.getZeroMorphInfluenceBuffer();
+      const deltaBuffer = resources.getEmptyMorphDeltaBuffer();
+
+      const sizes = (device.createBuffer as any).mock.calls.map(
+        (call: any[]) => call[0].size
+      );
+      expect(sizes).toEqual([4, 32]);
+      expect(resources.getZeroMorphInfluenceBuffer()).toBe(influenceBuffer);
+      expect(resources.getEmptyMorphDeltaBuffer()).toBe(deltaBuffer);
+    });
+  });
+
   describe("dispose", () => {
     it("should destroy created textures", () => {
       const device = createMockDevice();
@@ -68,11 +149,15 @@ describe("FallbackResources", () => {
 
       const cubeTexture = resources.getDummyCubeTexture();
       const brdfLUT = resources.getDummyBrdfLUT();
+      const instanceBuffer = resources.getIdentityInstanceBuffer();
+      const boneBuffer = resources.getIdentityBoneBuffer();
 
       resources.dispose();
 
       expect(cubeTexture.destroy).toHaveBeenCalledTimes(1);
       expect(brdfLUT.destroy).toHaveBeenCalledTimes(1);
+      expect(instanceBuffer.destroy).toHaveBeenCalledTimes(1);
+      expect(boneBuffer.destroy).toHaveBeenCalledTimes(1);
     });
 
     it("should allow re-creation after disposal", () => {
@@ -1,7 +1,10 @@
 import { SamplerCache } from "../texture/SamplerCache";
+import { IDENTITY_INSTANCE_DATA } from "./InstanceBuffer";
+import { BONE_STRIDE, SKIN_VERTEX_STRIDE } from "./SkinBuffer";
+import { MORPH_DELTA_STRIDE } from "./MorphBuffer";
 
 /**
- * Provides lazily-created fallback GPU resources used when optional textures are missing.
+ * Provides lazily-created fallback GPU resources used when optional textures, instance, skin or morph data are missing.
  *
  * @example
  * ```ts
@@ -16,6 +19,11 @@ export class FallbackResources {
   private _device: GPUDevice;
   private _dummyCubeTexture?: GPUTexture;
   private _dummyBrdfLUT?: GPUTexture;
+  private _identityInstanceBuffer?: GPUBuffer;
+  private _identityBoneBuffer?: GPUBuffer;
+  private _unskinnedVertexBuffer?: GPUBuffer;
+  private _zeroMorphInfluenceBuffer?: GPUBuffer;
+  private _emptyMorphDeltaBuffer?: GPUBuffer;
   private _samplerCache: SamplerCache = new SamplerCache();
 
   /**
@@ -62,6 +70,103 @@ export class FallbackResources {
     return this._dummyBrdfLUT;
   }
 
+  /**
+   * Returns a single-instance vertex buffer with the identity transform and a white color,
+   * bound as the instance buffer of meshes that are not instanced.
+   * @returns A GPUBuffer in the INSTANCE_BUFFER_LAYOUT format
+   */
+  getIdentityInstanceBuffer(): GPUBuffer {
+    if (!this._identityInstanceBuffer) {
+      this._identityInstanceBuffer = this._device.createBuffer({
+        label: "Identity Instance Buffer",
+        size: IDENTITY_INSTANCE_DATA.byteLength,
+        usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+      });
+      this._device.queue.writeBuffer(
+        this._identityInstanceBuffer,
+        0,
+        IDENTITY_INSTANCE_DATA
+      );
+    }
+
+    return this._identityInstanceBuffer;
+  }
+
+  /**
+   * Returns a single-bone storage buffer with the identity matrix,
+   * bound as the bone matrices of meshes that are not skinned.
+   * @returns A GPUBuffer holding one mat4x4f
+   */
+  getIdentityBoneBuffer(): GPUBuffer {
+    if (!this._identityBoneBuffer) {
+      this._identityBoneBuffer = this._device.createBuffer({
+        label: "Identity Bone Buffer",
+        size: BONE_STRIDE,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+      this._device.queue.writeBuffer(
+        this._identityBoneBuffer,
+        0,
+        new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1])
+      );
+    }
+
+    return this._identityBoneBuffer;
+  }
+
+  /**
+   * Returns a single-vertex storage buffer with zero skin weights,
+   * bound as the skin vertices of meshes that are not skinned.
+   * @returns A GPUBuffer holding one SkinVertex
+   */
+  getUnskinnedVertexBuffer(): GPUBuffer {
+    if (!this._unskinnedVertexBuffer) {
+      // Buffers are zero-initialized, so no upload is needed
+      this._unskinnedVertexBuffer = this._device.createBuffer({
+        label: "Unskinned Vertex Buffer",
+        size: SKIN_VERTEX_STRIDE,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    }
+
+    return this._unskinnedVertexBuffer;
+  }
+
+  /**
+   * Returns a storage buffer with a single zero influence,
+   * bound as the morph target influences of meshes without morph targets.
+   * @returns A GPUBuffer holding one f32
+   */
+  getZeroMorphInfluenceBuffer(): GPUBuffer {
+    if (!this._zeroMorphInfluenceBuffer) {
+      // Buffers are zero-initialized, so no upload is needed
+      this._zeroMorphInfluenceBuffer = this._device.createBuffer({
+        label: "Zero Morph Influence Buffer",
+        size: Float32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    }
+
+    return this._zeroMorphInfluenceBuffer;
+  }
+
+  /**
+   * Returns a storage buffer with a single zero delta,
+   * bound as the morph target deltas of meshes without morph targets.
+   * @returns A GPUBuffer holding one MorphDelta
+   */
+  getEmptyMorphDeltaBuffer(): GPUBuffer {
+    if (!this._emptyMorphDeltaBuffer) {
+      this._emptyMorphDeltaBuffer = this._device.createBuffer({
+        label: "Empty Morph Delta Buffer",
+        size: MORPH_DELTA_STRIDE,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    }
+
+    return this._emptyMorphDeltaBuffer;
+  }
+
   /**
    * Returns a reusable linear-filter sampler from the internal sampler cache.
    * @returns A GPUSampler configured with linear min/mag filtering
@@ -82,5 +187,20 @@ export class FallbackResources {
 
     this._dummyBrdfLUT?.destroy();
     this._dummyBrdfLUT = undefined;
+
+    this._identityInstanceBuffer?.destroy();
+    this._identityInstanceBuffer = undefined;
+
+    this._identityBoneBuffer?.destroy();
+    this._identityBoneBuffer = undefined;
+
+    this._unskinnedVertexBuffer?.destroy();
+    this._unskinnedVertexBuffer = undefined;
+
+    this._zeroMorphInfluenceBuffer?.destroy();
+    this._zeroMorphInfluenceBuffer = undefined;
+
+    this._emptyMorphDeltaBuffer?.destroy();
+    this._emptyMorphDeltaBuffer = undefined;
   }
 }
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "bun:test";
+import { Vector3 } from "@web-real/math";
+import { frustumCull } from "./FrustumCulling";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BasicMaterial } from "../material/BasicMaterial";
+import { Mesh } from "../scene/Mesh";
+
+describe("frustumCull", () => {
+  function createMesh(x: number, z: number): Mesh {
+    const mesh = new Mesh(new BoxGeometry(), new BasicMaterial());
+    mesh.position.set(x, 0, z);
+    mesh.updateWorldMatrix(false, false);
+    return mesh;
+  }
+
+  function createCamera(): PerspectiveCamera {
+    // Camera at the origin looking down -Z
+    const camera = new PerspectiveCamera({ near: 0.1, far: 50 });
+    camera.lookAt(new Vector3(0, 0, -1));
+    camera.updateWorldMatrix(false, false);
+    return camera;
+  }
+
+  it("should keep meshes inside the frustum", () => {
+    // Arrange
+    const ahead = createMesh(0, -5);
+
+    // Act
+    const visible = frustumCull([ahead], createCamera());
+
+    // Assert
+    expect(visible).toHaveLength(1);
+    expect(visible[0]).toBe(ahead);
+  });
+
+  it("should remove meshes behind, beside, and beyond the frustum", () => {
+    // Arrange
+    const behind = createMesh(0, 5);
+    const beside = createMesh(100, -5);
+    const beyond = createMesh(0, -80);
+
+    // Act
+    const visible = frustumCull([behind, beside, beyond], createCamera());
+
+    // Assert
+    expect(visible).toHaveLength(0);
+  });
+
+  it("should keep meshes that partially overlap the frustum", () => {
+    // Arrange - a large box behind the camera that reaches in front of it
+    const mesh = createMesh(0, 2);
+    mesh.scale.set(10, 10, 10);
+    mesh.updateWorldMatrix(false, false);
+
+    // Act
+    const visible = frustumCull([mesh], createCamera());
+
+    // Assert
+    expect(visible).toHaveLength(1);
+  });
+
+  it("should keep meshes with frustum culling disabled", () => {
+    // Arrange
+    const behind = createMesh(0, 5);
+    behind.frustumCulled = false;
+
+    // Act
+    const visible = frustumCull([behind], createCamera());
+
+    // Assert
+    expect(visible).toHaveLength(1);
+    expect(visible[0]).toBe(behind);
+  });
+
+  it("should keep scene order", () => {
+    // Arrange
+    const first = createMesh(0, -20);
+    const culled = createMesh(0, 20);
+    const second = createMesh(0, -2);
+
+    // Act
+    const visible = frustumCull([first, culled, second], createCamera());
+
+    // Assert
+    expect(visible[0]).toBe(first);
+    expect(visible[1]).toBe(second);
+  });
+});
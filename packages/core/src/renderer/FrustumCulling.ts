@@ -0,0 +1,24 @@
+import { Frustum } from "@web-real/math";
+import type { Camera } from "../camera/Camera";
+import type { Mesh } from "../scene/Mesh";
+
+/**
+ * Removes meshes whose world-space bounding box is outside the camera frustum.
+ * Meshes with `frustumCulled` disabled or without geometry bounds are always kept.
+ * @param meshes - Visible meshes in scene order
+ * @param camera - Camera whose view frustum is tested
+ * @returns The meshes that may be on screen, in scene order
+ */
+export function frustumCull(meshes: Mesh[], camera: Camera): Mesh[] {
+  const frustum = Frustum.fromMatrix(
+    camera.projectionMatrix.multiply(camera.viewMatrix)
+  );
+
+  return meshes.filter((mesh) => {
+    if (!mesh.frustumCulled || mesh.boundingBox.isEmpty()) {
+      return true;
+    }
+    const worldBox = mesh.boundingBox.applyMatrix4(mesh.worldMatrix);
+    return frustum.intersectsBox(worldBox);
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "bun:test";
+import { halton } from "./Halton";
+
+describe("halton", () => {
+  it("should mirror the binary digits in base 2", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7].map((index) => halton(index, 2));
+
+    expect(values).toEqual([0.5, 0.25, 0.75, 0.125, 0.625, 0.375, 0.875]);
+  });
+
+  it("should mirror the ternary digits in base 3", () => {
+    const values = [1, 2, 3, 4, 5].map((index) => halton(index, 3));
+
+    expect(values[0]).toBeCloseTo(1 / 3, 10);
+    expect(values[1]).toBeCloseTo(2 / 3, 10);
+    expect(values[2]).toBeCloseTo(1 / 9, 10);
+    expect(values[3]).toBeCloseTo(4 / 9, 10);
+    expect(values[4]).toBeCloseTo(7 / 9, 10);
+  });
+
+  it("should map index 0 to 0", () => {
+    expect(halton(0, 2)).toBe(0);
+  });
+});
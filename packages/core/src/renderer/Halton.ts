@@ -0,0 +1,18 @@
+/**
+ * Returns an element of the Halton sequence in the given base: the digits of
+ * `index` in that base, mirrored behind the point. Successive elements cover
+ * [0, 1) evenly, and sequences in different prime bases (e.g. 2 and 3) are
+ * uncorrelated, so pairs of them spread points evenly over a square.
+ * @param index - Position in the sequence; 0 maps to 0, so start at 1
+ * @param base - Prime base of the sequence
+ * @returns A value in [0, 1)
+ */
+export function halton(index: number, base: number): number {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let n = index; n > 0; n = Math.floor(n / base)) {
+    result += (n % base) * fraction;
+    fraction /= base;
+  }
+  return result;
+}
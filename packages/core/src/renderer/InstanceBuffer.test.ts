@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import {
+  IDENTITY_INSTANCE_DATA,
+  INSTANCE_BUFFER_LAYOUT,
+  INSTANCE_STRIDE,
+  packInstanceData,
+} from "./InstanceBuffer";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BasicMaterial } from "../material/BasicMaterial";
+import { InstancedMesh } from "../scene/InstancedMesh";
+
+describe("InstanceBuffer", () => {
+  function createMesh(count: number): InstancedMesh {
+    return new InstancedMesh(new BoxGeometry(), new BasicMaterial(), count);
+  }
+
+  it("should describe a per-instance mat4 and color layout", () => {
+    expect(INSTANCE_BUFFER_LAYOUT.arrayStride).toBe(INSTANCE_STRIDE);
+    expect(INSTANCE_BUFFER_LAYOUT.stepMode).toBe("instance");
+    const attributes = Array.from(INSTANCE_BUFFER_LAYOUT.attributes);
+    expect(attributes.map((a) => a.shaderLocation)).toEqual([
+      8, 9, 10, 11, 12,
+    ]);
+    expect(attributes.map((a) => a.offset)).toEqual([0, 16, 32, 48, 64]);
+  });
+
+  it("should hold a single instance in the identity data", () => {
+    expect(IDENTITY_INSTANCE_DATA.byteLength).toBe(INSTANCE_STRIDE);
+  });
+
+  describe("packInstanceData", () => {
+    it("should interleave matrices with white colors by default", () => {
+      const mesh = createMesh(2);
+      mesh.setMatrixAt(1, Matrix4.translation(new Vector3(1, 2, 3)));
+
+      const data = packInstanceData(mesh);
+
+      expect(data.byteLength).toBe(2 * INSTANCE_STRIDE);
+      expect(Array.from(data.subarray(0, 20))).toEqual(
+        Array.from(IDENTITY_INSTANCE_DATA)
+      );
+      expect(Array.from(data.subarray(32, 35))).toEqual([1, 2, 3]);
+      expect(Array.from(data.subarray(36, 40))).toEqual([1, 1, 1, 1]);
+    });
+
+    it("should write instance colors with an alpha of 1", () => {
+      const mesh = createMesh(2);
+      mesh.setColorAt(1, [0.5, 0.25, 0]);
+
+      const data = packInstanceData(mesh);
+
+      expect(Array.from(data.subarray(16, 20))).toEqual([1, 1, 1, 1]);
+      expect(Array.from(data.subarray(36, 40))).toEqual([0.5, 0.25, 0, 1]);
+    });
+  });
+});
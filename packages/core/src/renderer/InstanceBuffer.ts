@@ -0,0 +1,55 @@
+import type { InstancedMesh } from "../scene/InstancedMesh";
+
+/** Bytes per instance: a mat4x4f transform followed by a vec4f color. */
+export const INSTANCE_STRIDE = 80;
+
+/** Vertex buffer slot of the per-instance data; slot 0 holds the mesh vertices. */
+export const INSTANCE_BUFFER_SLOT = 1;
+
+/**
+ * Vertex buffer layout of the per-instance data.
+ * Must match InstanceInput in shaders/instancing/instancing.wgsl.
+ */
+export const INSTANCE_BUFFER_LAYOUT: GPUVertexBufferLayout = {
+  arrayStride: INSTANCE_STRIDE,
+  stepMode: "instance",
+  attributes: [
+    { shaderLocation: 8, offset: 0, format: "float32x4" },
+    { shaderLocation: 9, offset: 16, format: "float32x4" },
+    { shaderLocation: 10, offset: 32, format: "float32x4" },
+    { shaderLocation: 11, offset: 48, format: "float32x4" },
+    { shaderLocation: 12, offset: 64, format: "float32x4" },
+  ],
+};
+
+/**
+ * Instance data of a plain mesh: the identity transform and a white color.
+ */
+export const IDENTITY_INSTANCE_DATA = new Float32Array([
+  1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 1, 1, 1, 1,
+]);
+
+/**
+ * Interleaves the transforms and colors of an InstancedMesh into the instance buffer layout.
+ * @param mesh - Instanced mesh providing matrices and optional colors
+ * @returns INSTANCE_STRIDE bytes per instance; instances without a color are white
+ */
+export function packInstanceData(mesh: InstancedMesh): Float32Array {
+  const floatsPerInstance = INSTANCE_STRIDE / 4;
+  const data = new Float32Array(mesh.count * floatsPerInstance);
+  const matrices = mesh.instanceMatrices;
+  const colors = mesh.instanceColors;
+
+  for (let i = 0; i < mesh.count; i++) {
+    const offset = i * floatsPerInstance;
+    data.set(matrices.subarray(i * 16, i * 16 + 16), offset);
+    if (colors) {
+      data.set(colors.subarray(i * 3, i * 3 + 3), offset + 16);
+    } else {
+      data.fill(1, offset + 16, offset + 19);
+    }
+    data[offset + 19] = 1;
+  }
+
+  return data;
+}
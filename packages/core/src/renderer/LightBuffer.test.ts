@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Color, Vector3 } from "@web-real/math";
+import { LightBuffer } from "./LightBuffer";
+import { AmbientLight } from "../light/AmbientLight";
+import { DirectionalLight } from "../light/DirectionalLight";
+import { PointLight } from "../light/PointLight";
+import { SpotLight } from "../light/SpotLight";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    STORAGE: 0x0080,
+    COPY_DST: 0x0008,
+  };
+}
+
+describe("LightBuffer", () => {
+  let mockDevice: GPUDevice;
+  let mockShadowPass: any;
+  let mockClusterPass: any;
+
+  beforeEach(() => {
+    mockDevice = {
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createBindGroup: mock(() => ({} as GPUBindGroup)),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockShadowPass = {
+      revision: 0,
+      getBindGroupEntries: mock(() => [
+        { binding: 0, resource: {} },
+        { binding: 1, resource: {} },
+        { binding: 2, resource: {} },
+        { binding: 3, resource: {} },
+      ]),
+    };
+
+    mockClusterPass = {
+      revision: 0,
+      getBindGroupEntries: mock(() => [
+        { binding: 5, resource: {} },
+        { binding: 6, resource: {} },
+      ]),
+    };
+  });
+
+  function createLightBuffer(): LightBuffer {
+    return new LightBuffer({
+      device: mockDevice,
+      sources: [mockShadowPass, mockClusterPass],
+    });
+  }
+
+  function createMockPipeline(): GPURenderPipeline {
+    return {
+      getBindGroupLayout: mock(() => ({} as GPUBindGroupLayout)),
+    } as unknown as GPURenderPipeline;
+  }
+
+  function getWrittenData(): ArrayBuffer {
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls;
+    return calls[calls.length - 1][2];
+  }
+
+  describe("update", () => {
+    it("should write the light count and skip ambient lights", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+
+      // Act
+      lightBuffer.update(
+        [new AmbientLight(), new DirectionalLight(), new PointLight()],
+        new Map()
+      );
+
+      // Assert
+      expect(lightBuffer.lightCount).toBe(2);
+      expect(new Uint32Array(getWrittenData(), 0, 1)[0]).toBe(2);
+    });
+
+    it("should pack directional, point, and spot lights", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const directional = new DirectionalLight(
+        new Vector3(0, -1, 0),
+        new Color(1, 0.5, 0.25),
+        0.8
+      );
+      const point = new PointLight(new Color(0, 1, 0), 2, 20, "physical");
+      point.position.set(1, 2, 3);
+      const spot = new SpotLight(
+        new Vector3(1, 0, 0),
+        new Color(1, 1, 1),
+        3,
+        12,
+        0.25,
+        0.5,
+        "linear"
+      );
+      spot.position.set(4, 5, 6);
+
+      // Act
+      lightBuffer.update([directional, point, spot], new Map());
+
+      // Assert - lights start after the 16-byte header, 20 floats each
+      const data = new Float32Array(getWrittenData());
+      expect(data[5]).toBe(-1); // directional.y
+      expect(data[7]).toBe(-1); // no shadow
+      expect(data[8]).toBe(1); // color.r
+      expect(data[11]).toBeCloseTo(0.8, 5); // intensity
+      expect(data[12]).toBe(0); // type: directional
+
+      expect(data[24]).toBe(1); // point position.x
+      expect(data[26]).toBe(3); // point position.z
+      expect(data[32]).toBe(1); // type: point
+      expect(data[33]).toBe(20); // range
+      expect(data[34]).toBe(2); // attenType: physical
+      expect(data[35]).toBe(16); // attenParam
+      expect(data[36]).toBe(0); // spotDirection cleared
+
+      expect(data[44]).toBe(4); // spot position.x
+      expect(data[52]).toBe(2); // type: spot
+      expect(data[54]).toBe(0); // attenType: linear
+      expect(data[56]).toBe(1); // spotDirection.x
+      expect(data[60]).toBeCloseTo(Math.cos(0.25), 5);
+      expect(data[61]).toBeCloseTo(Math.cos(0.5), 5);
+    });
+
+    it("should move directional lights to the front of the list", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const point = new PointLight();
+      point.position.set(7, 0, 0);
+      const directional = new DirectionalLight(new Vector3(0, 0, -1));
+      const spot = new SpotLight();
+      spot.position.set(9, 0, 0);
+
+      // Act
+      lightBuffer.update([point, directional, spot], new Map());
+
+      // Assert
+      const data = new Float32Array(getWrittenData());
+      expect(new Uint32Array(getWrittenData(), 0, 2)[1]).toBe(1);
+      expect(lightBuffer.directionalCount).toBe(1);
+      expect(data[4 + 8]).toBe(0); // type: directional
+      expect(data[6]).toBe(-1); // direction.z
+      expect(data[24]).toBe(7); // point keeps scene order
+      expect(data[44]).toBe(9); // then the spot light
+    });
+
+    it("should write shadow indices assigned by the shadow pass", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const caster = new PointLight();
+      const other = new PointLight();
+      const spot = new SpotLight();
+
+      // Act
+      lightBuffer.update(
+        [caster, other, spot],
+        new Map<any, number>([
+          [caster, 2],
+          [spot, 0],
+        ])
+      );
+
+      // Assert
+      const data = new Float32Array(getWrittenData());
+      expect(data[4 + 3]).toBe(2);
+      expect(data[24 + 3]).toBe(-1);
+      expect(data[44 + 3]).toBe(-1); // spot lights cast no shadows
+    });
+
+    it("should hold more lights than the old four-light limit", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const lights = Array.from({ length: 40 }, () => new PointLight());
+
+      // Act
+      lightBuffer.update(lights, new Map());
+
+      // Assert
+      expect(lightBuffer.lightCount).toBe(40);
+      expect(lightBuffer.capacity).toBe(64);
+      expect(new Uint32Array(getWrittenData(), 0, 1)[0]).toBe(40);
+    });
+
+    it("should grow the buffer only when the capacity is exceeded", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      lightBuffer.update([new PointLight()], new Map());
+      const first = (mockDevice.createBuffer as any).mock.results[0].value;
+
+      // Act
+      lightBuffer.update(
+        Array.from({ length: 16 }, () => new PointLight()),
+        new Map()
+      );
+      lightBuffer.update(
+        Array.from({ length: 17 }, () => new PointLight()),
+        new Map()
+      );
+
+      // Assert
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(2);
+      expect(first.destroy).toHaveBeenCalled();
+      expect(first.size).toBe(16 + 16 * 80);
+      expect(lightBuffer.capacity).toBe(32);
+    });
+  });
+
+  describe("getBindGroup", () => {
+    it("should bind the light list and the entries of every source", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const pipeline = createMockPipeline();
+
+      // Act
+      lightBuffer.getBindGroup(pipeline, 2);
+
+      // Assert
+      const descriptor = (mockDevice.createBindGroup as any).mock.calls[0][0];
+      const buffer = (mockDevice.createBuffer as any).mock.results[0].value;
+      expect(pipeline.getBindGroupLayout).toHaveBeenCalledWith(2);
+      const bindings = descriptor.entries.map((entry: any) => entry.binding);
+      expect([...bindings].sort()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+      const lightList = descriptor.entries.find(
+        (entry: any) => entry.binding === 4
+      );
+      expect(lightList.resource.buffer).toBe(buffer);
+      expect(lightBuffer.buffer).toBe(buffer);
+    });
+
+    it("should cache bind groups per pipeline and group index", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const pipeline = createMockPipeline();
+
+      // Act
+      const first = lightBuffer.getBindGroup(pipeline, 1);
+      lightBuffer.update([new DirectionalLight()], new Map());
+      const second = lightBuffer.getBindGroup(pipeline, 1);
+
+      // Assert
+      expect(first).toBe(second);
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should recreate bind groups after the buffer grows", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const pipeline = createMockPipeline();
+
+      // Act
+      lightBuffer.getBindGroup(pipeline, 1);
+      lightBuffer.update(
+        Array.from({ length: 20 }, () => new PointLight()),
+        new Map()
+      );
+      lightBuffer.getBindGroup(pipeline, 1);
+
+      // Assert
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+    });
+
+    it("should recreate bind groups after a shadow map is reallocated", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const pipeline = createMockPipeline();
+
+      // Act
+      lightBuffer.getBindGroup(pipeline, 1);
+      mockShadowPass.revision++;
+      lightBuffer.getBindGroup(pipeline, 1);
+
+      // Assert
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+    });
+
+    it("should recreate bind groups after the cluster buffers are reallocated", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      const pipeline = createMockPipeline();
+
+      // Act
+      lightBuffer.getBindGroup(pipeline, 1);
+      mockClusterPass.revision++;
+      lightBuffer.getBindGroup(pipeline, 1);
+
+      // Assert
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the storage buffer", () => {
+      // Arrange
+      const lightBuffer = createLightBuffer();
+      lightBuffer.update([new PointLight()], new Map());
+      const buffer = (mockDevice.createBuffer as any).mock.results[0].value;
+
+      // Act
+      lightBuffer.dispose();
+
+      // Assert
+      expect(buffer.destroy).toHaveBeenCalled();
+      expect(lightBuffer.capacity).toBe(0);
+      expect(lightBuffer.lightCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { DirectionalLight } from "../light/DirectionalLight";
+import type { Light } from "../light/Light";
+import { PointLight } from "../light/PointLight";
+import { SpotLight } from "../light/SpotLight";
+
+/** Byte size of the LightList header (count + directionalCount: u32, padded to the Light alignment). */
+const LIGHT_LIST_HEADER_SIZE = 16;
+
+/** Byte size of one Light entry (5 vec4f). */
+const LIGHT_STRIDE = 80;
+
+/** Number of light slots allocated up front; capacity doubles when exceeded. */
+const INITIAL_LIGHT_CAPACITY = 16;
+
+/** Binding index of the light list in the shared lighting bind group. */
+const LIGHT_LIST_BINDING = 4;
+
+/**
+ * A provider of GPU resources for the shared lighting bind group
+ * (ShadowPass for bindings 0-3, ClusterPass for bindings 5-6,
+ * AmbientOcclusionPass for binding 7).
+ */
+export interface LightingBindGroupSource {
+  /** Incremented whenever the returned entries reference new resources. */
+  readonly revision: number;
+  /** Returns this source's entries of the lighting bind group. */
+  getBindGroupEntries(): GPUBindGroupEntry[];
+}
+
+/**
+ * Uploads every directional, point, and spot light in the scene into a shared
+ * storage buffer once per frame, and provides the lighting bind group that lit
+ * materials read it from (together with the entries of its bind group sources).
+ *
+ * Directional lights are written first so materials can loop over them directly
+ * and reach point and spot lights through the cluster light lists.
+ *
+ * Buffer layout matches `LightList` in shaders/lighting/lights.wgsl:
+ * - 0-16: count (u32), directionalCount (u32) + padding
+ * - 16..: lights[] (80 bytes each)
+ *   - position: xyz = world position (direction for directional lights), w = shadow index (-1 = none)
+ *   - color: rgb + intensity
+ *   - params: type (0 = directional, 1 = point, 2 = spot), range, attenType, attenParam
+ *   - spotDirection: xyz = cone axis (spot only)
+ *   - spotCone: cos(inner angle), cos(outer angle) (spot only)
+ *
+ * @example
+ * ```ts
+ * const lightBuffer = new LightBuffer({ device, sources: [shadowPass, clusterPass] });
+ * lightBuffer.update(lights, shadowIndices);
+ * passEncoder.setBindGroup(2, lightBuffer.getBindGroup(pipeline, 2));
+ * ```
+ */
+export class LightBuffer {
+  private _device: GPUDevice;
+  private _sources: LightingBindGroupSource[];
+
+  private _buffer?: GPUBuffer;
+  private _capacity: number = 0;
+  private _lightCount: number = 0;
+  private _directionalCount: number = 0;
+
+  private _revision: number = 0;
+  private _bindGroups: WeakMap<
+    GPURenderPipeline,
+    Map<
+      number,
+      { bindGroup: GPUBindGroup; revision: number; sourceRevisions: number[] }
+    >
+  > = new WeakMap();
+
+  /**
+   * Creates a new LightBuffer.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create and write the storage buffer
+   * @param options.sources - Providers of the remaining lighting bind group entries (shadow maps, clusters, ambient occlusion)
+   */
+  constructor(options: {
+    device: GPUDevice;
+    sources: LightingBindGroupSource[];
+  }) {
+    this._device = options.device;
+    this._sources = options.sources;
+  }
+
+  /**
+   * Number of lights written by the last update().
+   */
+  get lightCount(): number {
+    return this._lightCount;
+  }
+
+  /**
+   * Number of directional lights at the start of the list written by the last update().
+   */
+  get directionalCount(): number {
+    return this._directionalCount;
+  }
+
+  /**
+   * Number of lights the storage buffer can currently hold.
+   */
+  get capacity(): number {
+    return this._capacity;
+  }
+
+  /**
+   * The light list storage buffer, allocated on first use.
+   */
+  get buffer(): GPUBuffer {
+    this._ensureCapacity(0);
+    return this._buffer!;
+  }
+
+  /**
+   * Incremented whenever the storage buffer is reallocated, invalidating bind groups that reference it.
+   */
+  get revision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Packs the scene lights into the storage buffer, growing it if needed.
+   * Directional lights are moved to the front; point and spot lights keep their scene order.
+   * Ambient lights and unknown light types are skipped; materials read ambient light from their own uniforms.
+   * @param lights - Lights collected from the scene
+   * @param shadowIndices - Shadow index assigned to each shadow-casting light by the shadow pass
+   */
+  update(lights: Light[], shadowIndices?: ReadonlyMap<Light, number>): void {
+    const directional = lights.filter(
+      (light): light is DirectionalLight => light instanceof DirectionalLight
+    );
+    const local = lights.filter(
+      (light): light is PointLight | SpotLight =>
+        light instanceof PointLight || light instanceof SpotLight
+    );
+    const packed = [...directional, ...local];
+
+    this._ensureCapacity(packed.length);
+
+    const data = new ArrayBuffer(
+      LIGHT_LIST_HEADER_SIZE + this._capacity * LIGHT_STRIDE
+    );
+    const header = new Uint32Array(data, 0, 2);
+    header[0] = packed.length;
+    header[1] = directional.length;
+
+    const floats = new Float32Array(data);
+    packed.forEach((light, index) => {
+      const base = (LIGHT_LIST_HEADER_SIZE + index * LIGHT_STRIDE) / 4;
+      writeLight(floats, base, light, shadowIndices?.get(light) ?? -1);
+    });
+
+    this._lightCount = packed.length;
+    this._directionalCount = directional.length;
+    this._device.queue.writeBuffer(this._buffer!, 0, data);
+  }
+
+  /**
+   * Returns the lighting bind group for a material pipeline.
+   * Bind groups are cached per pipeline and recreated when the light buffer grows
+   * or a source reallocates its resources.
+   * @param pipeline - Material pipeline whose auto layout declares the lighting group
+   * @param groupIndex - Bind group index reported by Material.getLightingBindGroupIndex()
+   * @returns Bind group with the light list (binding 4) and the entries of every source
+   */
+  getBindGroup(pipeline: GPURenderPipeline, groupIndex: number): GPUBindGroup {
+    this._ensureCapacity(0);
+
+    let groups = this._bindGroups.get(pipeline);
+    if (!groups) {
+      groups = new Map();
+      this._bindGroups.set(pipeline, groups);
+    }
+
+    // Read the entries first: sources may allocate placeholder resources
+    const sourceEntries = this._sources.flatMap((source) =>
+      source.getBindGroupEntries()
+    );
+    const sourceRevisions = this._sources.map((source) => source.revision);
+
+    const cached = groups.get(groupIndex);
+    if (
+      cached &&
+      cached.revision === this._revision &&
+      cached.sourceRevisions.every(
+        (revision, index) => revision === sourceRevisions[index]
+      )
+    ) {
+      return cached.bindGroup;
+    }
+
+    const bindGroup = this._device.createBindGroup({
+      label: "Lighting Bind Group",
+      layout: pipeline.getBindGroupLayout(groupIndex),
+      entries: [
+        { binding: LIGHT_LIST_BINDING, resource: { buffer: this._buffer! } },
+        ...sourceEntries,
+      ],
+    });
+
+    groups.set(groupIndex, {
+      bindGroup,
+      revision: this._revision,
+      sourceRevisions,
+    });
+    return bindGroup;
+  }
+
+  /**
+   * Destroys the storage buffer.
+   */
+  dispose(): void {
+    this._buffer?.destroy();
+    this._buffer = undefined;
+    this._capacity = 0;
+    this._lightCount = 0;
+    this._directionalCount = 0;
+    this._bindGroups = new WeakMap();
+    this._revision++;
+  }
+
+  /**
+   * Allocates the storage buffer with room for at least `count` lights.
+   */
+  private _ensureCapacity(count: number): void {
+    if (this._buffer && count <= this._capacity) return;
+
+    let capacity = Math.max(this._capacity, INITIAL_LIGHT_CAPACITY);
+    while (capacity < count) {
+      capacity *= 2;
+    }
+
+    this._buffer?.destroy();
+    this._buffer = this._device.createBuffer({
+      label: "Light List Buffer",
+      size: LIGHT_LIST_HEADER_SIZE + capacity * LIGHT_STRIDE,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this._capacity = capacity;
+    this._revision++;
+  }
+}
+
+/**
+ * Writes one Light entry starting at float index `base`.
+ */
+function writeLight(
+  data: Float32Array,
+  base: number,
+  light: DirectionalLight | PointLight | SpotLight,
+  shadowIndex: number
+): void {
+  if (light instanceof DirectionalLight) {
+    data[base] = light.direction.x;
+    data[base + 1] = light.direction.y;
+    data[base + 2] = light.direction.z;
+  } else {
+    light.updateWorldMatrix(true, false);
+    const m = light.worldMatrix.data;
+    data[base] = m[12];
+    data[base + 1] = m[13];
+    data[base + 2] = m[14];
+  }
+  // Spot lights do not cast shadows
+  data[base + 3] = light instanceof SpotLight ? -1 : shadowIndex;
+
+  data[base + 4] = light.color.r;
+  data[base + 5] = light.color.g;
+  data[base + 6] = light.color.b;
+  data[base + 7] = light.intensity;
+
+  if (light instanceof DirectionalLight) {
+    // params, spotDirection, and spotCone stay zero (type 0)
+    return;
+  }
+
+  // Params: type, range, attenType, attenParam
+  const attenuationFactors = light.getAttenuationFactors();
+  data[base + 8] = light instanceof SpotLight ? 2 : 1;
+  data[base + 9] = attenuationFactors[0];
+  data[base + 10] = attenuationFactors[3];
+  data[base + 11] = attenuationFactors[1];
+
+  if (light instanceof SpotLight) {
+    const [cosInner, cosOuter] = light.getConeFactors();
+    data[base + 12] = light.direction.x;
+    data[base + 13] = light.direction.y;
+    data[base + 14] = light.direction.z;
+    data[base + 16] = cosInner;
+    data[base + 17] = cosOuter;
+  }
+}
@@ -1,6 +1,15 @@
 import { describe, it, expect, mock } from "bun:test";
 import { MeshPass } from "./MeshPass";
 import type { Material } from "../material/Material";
+import { BasicMaterial } from "../material/BasicMaterial";
+import { ShaderMaterial } from "../material/ShaderMaterial";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { InstancedMesh } from "../scene/InstancedMesh";
+import { Mesh } from "../scene/Mesh";
+import { Object3D } from "../scene/Object3D";
+import { Skeleton } from "../scene/Skeleton";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import { BufferGeometry } from "../geometry/BufferGeometry";
 import { Matrix4 } from "@web-real/math";
 
 describe("MeshPass", () => {
@@ -51,6 +60,8 @@ describe("MeshPass", () => {
         indexFormat: "uint16" as GPUIndexFormat,
         indexCount: 36,
         iblBindGroup: null,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
       };
       const mockMeshResources = createMockMeshResourceCache(mockResources);
 
@@ -78,7 +89,7 @@ describe("MeshPass", () => {
         mockResources.indexBuffer,
         mockResources.indexFormat
       );
-      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledWith(36);
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledWith(36, 1);
       expect(mockPassEncoder.draw).not.toHaveBeenCalled();
     });
 
@@ -94,6 +105,8 @@ describe("MeshPass", () => {
         indexFormat: "uint16" as GPUIndexFormat,
         indexCount: 0,
         iblBindGroup: null,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
       };
       const mockMeshResources = createMockMeshResourceCache(mockResources);
 
@@ -120,7 +133,139 @@ describe("MeshPass", () => {
       // Assert
       expect(mockPassEncoder.setIndexBuffer).not.toHaveBeenCalled();
       expect(mockPassEncoder.drawIndexed).not.toHaveBeenCalled();
-      expect(mockPassEncoder.draw).toHaveBeenCalledWith(24);
+      expect(mockPassEncoder.draw).toHaveBeenCalledWith(24, 1);
+    });
+
+    it("should draw every instance of an InstancedMesh in a single call", () => {
+      // Arrange
+      const mockDevice = createMockDevice();
+      const mockPipelines = createMockPipelineCache();
+      const mockResources = {
+        uniformBuffer: {} as GPUBuffer,
+        bindGroup: {} as GPUBindGroup,
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        iblBindGroup: null,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 10,
+      };
+      const mockMeshResources = createMockMeshResourceCache(mockResources);
+
+      const meshPass = new MeshPass({
+        device: mockDevice,
+        pipelines: mockPipelines,
+        meshResources: mockMeshResources,
+      });
+
+      const mesh = new InstancedMesh(
+        new BoxGeometry(),
+        new BasicMaterial(),
+        10
+      );
+      const mockPassEncoder = createMockPassEncoder();
+
+      // Act
+      meshPass.render({
+        passEncoder: mockPassEncoder,
+        meshes: [mesh],
+        lights: [],
+        scene: {} as any,
+        camera: createMockCamera(),
+      });
+
+      // Assert
+      expect(mockPassEncoder.setVertexBuffer).toHaveBeenCalledWith(
+        1,
+        mockResources.instanceBuffer
+      );
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(1);
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledWith(36, 10);
+    });
+
+    it("should throw when an InstancedMesh uses a material without instancing", () => {
+      // Arrange
+      const meshPass = new MeshPass({
+        device: createMockDevice(),
+        pipelines: createMockPipelineCache(),
+        meshResources: createMockMeshResourceCache(),
+      });
+
+      const material = new ShaderMaterial({
+        vertexShader: "",
+        fragmentShader: "",
+      });
+      const mesh = new InstancedMesh(new BoxGeometry(), material, 2);
+
+      // Act & Assert
+      expect(() => {
+        meshPass.render({
+          passEncoder: createMockPassEncoder(),
+          meshes: [mesh],
+          lights: [],
+          scene: {} as any,
+          camera: createMockCamera(),
+        });
+      }).toThrow("InstancedMesh requires a material that supports instancing");
+    });
+
+    it("should throw when a SkinnedMesh uses a material without skinning", () => {
+      // Arrange
+      const meshPass = new MeshPass({
+        device: createMockDevice(),
+        pipelines: createMockPipelineCache(),
+        meshResources: createMockMeshResourceCache(),
+      });
+
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        skinIndices: new Uint16Array(12),
+        skinWeights: new Float32Array(12),
+      });
+      const skeleton = new Skeleton([new Object3D()]);
+      const mesh = new SkinnedMesh(geometry, new BasicMaterial(), skeleton);
+
+      // Act & Assert
+      expect(() => {
+        meshPass.render({
+          passEncoder: createMockPassEncoder(),
+          meshes: [mesh],
+          lights: [],
+          scene: {} as any,
+          camera: createMockCamera(),
+        });
+      }).toThrow(
+        'SkinnedMesh requires a material that supports skinning (got "basic")'
+      );
+    });
+
+    it("should throw when a mesh with morph targets uses a material without morphing", () => {
+      // Arrange
+      const meshPass = new MeshPass({
+        device: createMockDevice(),
+        pipelines: createMockPipelineCache(),
+        meshResources: createMockMeshResourceCache(),
+      });
+
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        morphTargets: [{ positions: new Float32Array(9) }],
+      });
+      const mesh = new Mesh(geometry, new BasicMaterial());
+
+      // Act & Assert
+      expect(() => {
+        meshPass.render({
+          passEncoder: createMockPassEncoder(),
+          meshes: [mesh],
+          lights: [],
+          scene: {} as any,
+          camera: createMockCamera(),
+        });
+      }).toThrow(
+        'Mesh with morph targets requires a material that supports morph targets (got "basic")'
+      );
     });
 
     it("should set IBL bind group when present", () => {
@@ -177,6 +322,8 @@ describe("MeshPass", () => {
         indexFormat: "uint16" as GPUIndexFormat,
         indexCount: 0,
         iblBindGroup: null,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
       };
       const mockMeshResources = createMockMeshResourceCache(mockResources);
 
@@ -303,6 +450,48 @@ describe("MeshPass", () => {
       expect(queueWriteCalls.length).toBe(1);
       expect(queueWriteCalls[0][1]).toBe(0); // MVP matrix offset
     });
+
+    it("should bind the lighting bind group at the material's lighting group index", () => {
+      // Arrange
+      const mockDevice = createMockDevice();
+      const mockPipeline = {} as GPURenderPipeline;
+      const mockPipelines = {
+        getOrCreate: mock(() => mockPipeline),
+      };
+      const mockLightingBindGroup = {} as GPUBindGroup;
+      const mockLightBuffer = {
+        getBindGroup: mock(() => mockLightingBindGroup),
+      };
+
+      const meshPass = new MeshPass({
+        device: mockDevice,
+        pipelines: mockPipelines as any,
+        meshResources: createMockMeshResourceCache(),
+        lightBuffer: mockLightBuffer as any,
+      });
+
+      const mockMaterial: Partial<Material> = {
+        getLightingBindGroupIndex: () => 1,
+      };
+      const mockMesh = createMockMesh(mockMaterial as Material);
+      const mockPassEncoder = createMockPassEncoder();
+
+      // Act
+      meshPass.render({
+        passEncoder: mockPassEncoder,
+        meshes: [mockMesh],
+        lights: [],
+        scene: {} as any,
+        camera: createMockCamera(),
+      });
+
+      // Assert
+      expect(mockLightBuffer.getBindGroup).toHaveBeenCalledWith(mockPipeline, 1);
+      expect(mockPassEncoder.setBindGroup).toHaveBeenCalledWith(
+        1,
+        mockLightingBindGroup
+      );
+    });
   });
 });
 
@@ -333,6 +522,8 @@ function createMockMeshResourceCache(resources?: any): any {
           indexFormat: "uint16" as GPUIndexFormat,
           indexCount: 0,
           iblBindGroup: null,
+          instanceBuffer: {} as GPUBuffer,
+          instanceCount: 1,
         }
       );
     }),
@@ -342,6 +533,7 @@ function createMockMeshResourceCache(resources?: any): any {
 function createMockMesh(material?: Material): any {
   return {
     material: material || ({} as Material),
+    geometry: new BoxGeometry(),
     worldMatrix: new Matrix4(),
     vertexCount: 3,
   };
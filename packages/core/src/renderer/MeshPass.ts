@@ -1,10 +1,15 @@
 import type { Camera } from "../camera/Camera";
 import type { Light } from "../light/Light";
 import type { RenderContext } from "../material/Material";
+import { InstancedMesh } from "../scene/InstancedMesh";
 import type { Mesh } from "../scene/Mesh";
 import type { Scene } from "../scene/Scene";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import { INSTANCE_BUFFER_SLOT } from "./InstanceBuffer";
 import { MeshResourceCache } from "./MeshResourceCache";
-import { PipelineCache } from "./PipelineCache";
+import { hasMorphTargets } from "./MorphBuffer";
+import { PipelineCache, type RenderTargetFormats } from "./PipelineCache";
+import type { LightBuffer } from "./LightBuffer";
 
 /**
  * Renders scene meshes into a render pass using cached pipelines and GPU resources.
@@ -19,6 +24,7 @@ export class MeshPass {
   private _device: GPUDevice;
   private _pipelines: PipelineCache;
   private _meshResources: MeshResourceCache;
+  private _lightBuffer?: LightBuffer;
 
   /**
    * Creates a new MeshPass.
@@ -26,15 +32,18 @@ export class MeshPass {
    * @param options.device - The WebGPU device used for buffer updates
    * @param options.pipelines - Pipeline cache used to get or create material pipelines
    * @param options.meshResources - Mesh resource cache used to get or create GPU buffers/bind groups
+   * @param options.lightBuffer - Light buffer providing shared lighting bind groups for lit materials
    */
   constructor(options: {
     device: GPUDevice;
     pipelines: PipelineCache;
     meshResources: MeshResourceCache;
+    lightBuffer?: LightBuffer;
   }) {
     this._device = options.device;
     this._pipelines = options.pipelines;
     this._meshResources = options.meshResources;
+    this._lightBuffer = options.lightBuffer;
   }
 
   /**
@@ -45,6 +54,7 @@ export class MeshPass {
    * @param options.lights - Lights to include in the material render context
    * @param options.scene - Scene used for material render context
    * @param options.camera - Camera providing view/projection matrices
+   * @param options.target - Attachment formats of the pass (default: the canvas)
    */
   render(options: {
     passEncoder: GPURenderPassEncoder;
@@ -52,10 +62,27 @@ export class MeshPass {
     lights: Light[];
     scene: Scene;
     camera: Camera;
+    target?: RenderTargetFormats;
   }): void {
     for (const mesh of options.meshes) {
       const material = mesh.material;
-      const pipeline = this._pipelines.getOrCreate(material);
+      if (mesh instanceof InstancedMesh && !material.supportsInstancing) {
+        throw new Error(
+          `InstancedMesh requires a material that supports instancing (got "${material.type}")`
+        );
+      }
+      if (mesh instanceof SkinnedMesh && !material.supportsSkinning) {
+        throw new Error(
+          `SkinnedMesh requires a material that supports skinning (got "${material.type}")`
+        );
+      }
+      if (hasMorphTargets(mesh.geometry) && !material.supportsMorphTargets) {
+        throw new Error(
+          `Mesh with morph targets requires a material that supports morph targets (got "${material.type}")`
+        );
+      }
+
+      const pipeline = this._pipelines.getOrCreate(material, options.target);
       const resources = this._meshResources.getOrCreate(mesh, pipeline);
 
       const mvpMatrix = options.camera.projectionMatrix
@@ -107,22 +134,39 @@ export class MeshPass {
       }
 
       options.passEncoder.setPipeline(pipeline);
-      options.passEncoder.setBindGroup(0, resources.bindGroup);
+      options.passEncoder.setBindGroup(0, resources.bindGroup!);
 
       if (resources.iblBindGroup) {
         options.passEncoder.setBindGroup(1, resources.iblBindGroup);
       }
 
+      const lightingGroup = material.getLightingBindGroupIndex?.();
+      if (lightingGroup !== undefined && this._lightBuffer) {
+        options.passEncoder.setBindGroup(
+          lightingGroup,
+          this._lightBuffer.getBindGroup(pipeline, lightingGroup)
+        );
+      }
+
       options.passEncoder.setVertexBuffer(0, resources.vertexBuffer);
+      if (material.supportsInstancing) {
+        options.passEncoder.setVertexBuffer(
+          INSTANCE_BUFFER_SLOT,
+          resources.instanceBuffer
+        );
+      }
 
       if (resources.indexCount > 0) {
         options.passEncoder.setIndexBuffer(
           resources.indexBuffer,
           resources.indexFormat
         );
-        options.passEncoder.drawIndexed(resources.indexCount);
+        options.passEncoder.drawIndexed(
+          resources.indexCount,
+          resources.instanceCount
+        );
       } else {
-        options.passEncoder.draw(mesh.vertexCount);
+        options.passEncoder.draw(mesh.vertexCount, resources.instanceCount);
       }
     }
   }
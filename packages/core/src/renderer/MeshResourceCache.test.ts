@@ -2,8 +2,13 @@ import { describe, it, expect, beforeEach, mock } from "bun:test";
 import { MeshResourceCache } from "./MeshResourceCache";
 import { FallbackResources } from "./FallbackResources";
 import { Mesh } from "../scene/Mesh";
+import { InstancedMesh } from "../scene/InstancedMesh";
+import { Object3D } from "../scene/Object3D";
+import { Skeleton } from "../scene/Skeleton";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
 import type { Material } from "../material/Material";
 import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
 
 // Mock WebGPU constants for test environment
 if (typeof globalThis.GPUBufferUsage === "undefined") {
@@ -11,6 +16,7 @@ if (typeof globalThis.GPUBufferUsage === "undefined") {
     VERTEX: 0x0020,
     INDEX: 0x0010,
     UNIFORM: 0x0040,
+    STORAGE: 0x0080,
     COPY_DST: 0x0008,
   };
 }
@@ -22,10 +28,24 @@ describe("MeshResourceCache", () => {
   let mockBindGroup: GPUBindGroup;
   let mockPipeline: GPURenderPipeline;
   let mockQueue: GPUQueue;
+  let identityInstanceBuffer: GPUBuffer;
+  let identityBoneBuffer: GPUBuffer;
+  let unskinnedVertexBuffer: GPUBuffer;
+  let zeroMorphInfluenceBuffer: GPUBuffer;
+  let emptyMorphDeltaBuffer: GPUBuffer;
 
   beforeEach(() => {
     mockBuffer = { destroy: mock(() => {}) } as unknown as GPUBuffer;
     mockBindGroup = {} as GPUBindGroup;
+    identityInstanceBuffer = {
+      destroy: mock(() => {}),
+    } as unknown as GPUBuffer;
+    identityBoneBuffer = { destroy: mock(() => {}) } as unknown as GPUBuffer;
+    unskinnedVertexBuffer = { destroy: mock(() => {}) } as unknown as GPUBuffer;
+    zeroMorphInfluenceBuffer = {
+      destroy: mock(() => {}),
+    } as unknown as GPUBuffer;
+    emptyMorphDeltaBuffer = { destroy: mock(() => {}) } as unknown as GPUBuffer;
 
     mockQueue = {
       writeBuffer: mock(() => {}),
@@ -54,6 +74,11 @@ describe("MeshResourceCache", () => {
         createView: () => ({} as GPUTextureView),
       })),
       getLinearSampler: mock(() => ({} as GPUSampler)),
+      getIdentityInstanceBuffer: mock(() => identityInstanceBuffer),
+      getIdentityBoneBuffer: mock(() => identityBoneBuffer),
+      getUnskinnedVertexBuffer: mock(() => unskinnedVertexBuffer),
+      getZeroMorphInfluenceBuffer: mock(() => zeroMorphInfluenceBuffer),
+      getEmptyMorphDeltaBuffer: mock(() => emptyMorphDeltaBuffer),
     } as unknown as FallbackResources;
   });
 
@@ -285,6 +310,84 @@ describe("MeshResourceCache", () => {
       expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
     });
 
+    it("should update only bindGroup when the pipeline changes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+
+      const mockMaterial: Material = {
+        type: "test-material",
+        bindingRevision: 0,
+        getPrimitiveTopology: () => "triangle-list",
+        getVertexShader: () => "",
+        getFragmentShader: () => "",
+        getVertexBufferLayout: () => ({
+          arrayStride: 32,
+          attributes: [],
+        }),
+        getUniformBufferSize: () => 64,
+        writeUniformData: () => {},
+      };
+
+      const geometry = new BoxGeometry(1, 1, 1);
+      const mesh = new Mesh(geometry, mockMaterial);
+      const transparentPipeline = {
+        getBindGroupLayout: mock(() => ({} as GPUBindGroupLayout)),
+      } as unknown as GPURenderPipeline;
+
+      cache.getOrCreate(mesh, mockPipeline);
+
+      // e.g. the material became transparent and uses a blending pipeline
+      const resources = cache.getOrCreate(mesh, transparentPipeline);
+
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(3);
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(2);
+      expect(transparentPipeline.getBindGroupLayout).toHaveBeenCalledWith(0);
+      expect(resources.pipeline).toBe(transparentPipeline);
+    });
+
+    it("should create buffers but no bind groups without a pipeline", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), createTestMaterial());
+
+      // e.g. a shadow pass drawing the mesh before the main pass
+      const resources = cache.getOrCreate(mesh);
+
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(3);
+      expect(mockDevice.createBindGroup).not.toHaveBeenCalled();
+      expect(resources.bindGroup).toBeUndefined();
+
+      cache.getOrCreate(mesh, mockPipeline);
+
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(3);
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(1);
+      expect(resources.bindGroup).toBe(mockBindGroup);
+    });
+
+    it("should keep the bind groups of a target pipeline across frames with depth passes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), createTestMaterial());
+      // Pipeline for a render target whose format differs from the canvas
+      const targetPipeline = {
+        getBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      } as unknown as GPURenderPipeline;
+
+      for (let frame = 0; frame < 2; frame++) {
+        cache.getOrCreate(mesh); // Shadow, AO or motion vector pass
+        cache.getOrCreate(mesh, targetPipeline); // Main pass
+      }
+
+      expect(mockDevice.createBindGroup).toHaveBeenCalledTimes(1);
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(3);
+    });
+
     it("should use wireframe indices for line-list topology", () => {
       const cache = new MeshResourceCache({
         device: mockDevice,
@@ -317,6 +420,345 @@ describe("MeshResourceCache", () => {
     });
   });
 
+  describe("instancing", () => {
+    function createMaterial(): Material {
+      return {
+        type: "test-material",
+        supportsInstancing: true,
+        getPrimitiveTopology: () => "triangle-list",
+        getVertexShader: () => "",
+        getFragmentShader: () => "",
+        getVertexBufferLayout: () => ({
+          arrayStride: 32,
+          attributes: [],
+        }),
+        getUniformBufferSize: () => 64,
+      };
+    }
+
+    it("should bind the shared identity instance for plain meshes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), createMaterial());
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      expect(resources.instanceBuffer).toBe(identityInstanceBuffer);
+      expect(resources.instanceCount).toBe(1);
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(3);
+    });
+
+    it("should create and upload an instance buffer for instanced meshes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new InstancedMesh(
+        new BoxGeometry(1, 1, 1),
+        createMaterial(),
+        5
+      );
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      const createCalls = (mockDevice.createBuffer as any).mock.calls;
+      expect(createCalls[3][0].size).toBe(5 * 80);
+      expect(resources.instanceCount).toBe(5);
+      const writeCalls = (mockQueue.writeBuffer as any).mock.calls;
+      expect(writeCalls.at(-1)[2]).toHaveLength(5 * 20);
+      expect(mesh.instancesNeedUpdate).toBe(false);
+    });
+
+    it("should re-upload instance data only when instancesNeedUpdate is set", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new InstancedMesh(
+        new BoxGeometry(1, 1, 1),
+        createMaterial(),
+        2
+      );
+      cache.getOrCreate(mesh, mockPipeline);
+      const writeCount = (mockQueue.writeBuffer as any).mock.calls.length;
+
+      cache.getOrCreate(mesh, mockPipeline);
+      expect(mockQueue.writeBuffer).toHaveBeenCalledTimes(writeCount);
+
+      mesh.setColorAt(1, [1, 0, 0]);
+      cache.getOrCreate(mesh, mockPipeline);
+      expect(mockQueue.writeBuffer).toHaveBeenCalledTimes(writeCount + 1);
+      expect(mockDevice.createBuffer).toHaveBeenCalledTimes(4);
+    });
+
+    it("should destroy instance buffers but not the shared identity buffer", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const geometry = new BoxGeometry(1, 1, 1);
+      const plain = new Mesh(geometry, createMaterial());
+      const instanced = new InstancedMesh(geometry, createMaterial(), 3);
+      cache.getOrCreate(plain, mockPipeline);
+      cache.getOrCreate(instanced, mockPipeline);
+
+      cache.disposeAll();
+
+      // 3 buffers per mesh plus the instanced mesh's instance buffer
+      expect(mockBuffer.destroy).toHaveBeenCalledTimes(7);
+      expect(identityInstanceBuffer.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("skinning", () => {
+    function createMaterial(): Material {
+      return {
+        type: "test-skinning",
+        supportsSkinning: true,
+        getPrimitiveTopology: () => "triangle-list",
+        getVertexShader: () => "",
+        getFragmentShader: () => "",
+        getVertexBufferLayout: () => ({
+          arrayStride: 12,
+          attributes: [],
+        }),
+        getUniformBufferSize: () => 64,
+      };
+    }
+
+    function createSkinnedMesh(): SkinnedMesh {
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        skinIndices: new Uint16Array([0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]),
+        skinWeights: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]),
+      });
+      const skeleton = new Skeleton([new Object3D(), new Object3D()]);
+      return new SkinnedMesh(geometry, createMaterial(), skeleton);
+    }
+
+    function getBindGroupEntries(): GPUBindGroupEntry[] {
+      const calls = (mockDevice.createBindGroup as any).mock.calls;
+      return calls.at(-1)[0].entries;
+    }
+
+    it("should bind the shared identity bone for unskinned meshes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), createMaterial());
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      expect(resources.boneBuffer).toBe(identityBoneBuffer);
+      expect(resources.skinVertexBuffer).toBe(unskinnedVertexBuffer);
+      const entries = getBindGroupEntries();
+      expect(entries.map((entry) => entry.binding)).toEqual([0, 16, 17]);
+    });
+
+    it("should not bind skin buffers for materials without skinning", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const material = { ...createMaterial(), supportsSkinning: false };
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), material);
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      expect(resources.boneBuffer).toBeUndefined();
+      expect(getBindGroupEntries()).toHaveLength(1);
+    });
+
+    it("should create skin buffers and upload joint matrices for skinned meshes", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = createSkinnedMesh();
+
+      cache.getOrCreate(mesh, mockPipeline);
+
+      const createCalls = (mockDevice.createBuffer as any).mock.calls;
+      const sizes = createCalls.map((call: any) => call[0].size);
+      // Vertex, index and uniform buffers, then 2 bones and 3 skin vertices
+      expect(sizes.slice(3)).toEqual([2 * 64, 3 * 32]);
+      const writeCalls = (mockQueue.writeBuffer as any).mock.calls;
+      expect(writeCalls.at(-1)[2]).toBe(mesh.jointMatrices);
+      expect(mesh.bonesNeedUpdate).toBe(false);
+    });
+
+    it("should re-upload joint matrices only when bonesNeedUpdate is set", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = createSkinnedMesh();
+      cache.getOrCreate(mesh, mockPipeline);
+      const writeCount = (mockQueue.writeBuffer as any).mock.calls.length;
+
+      cache.getOrCreate(mesh, mockPipeline);
+      expect(mockQueue.writeBuffer).toHaveBeenCalledTimes(writeCount);
+
+      mesh.updateSkeleton();
+      cache.getOrCreate(mesh, mockPipeline);
+      expect(mockQueue.writeBuffer).toHaveBeenCalledTimes(writeCount + 1);
+    });
+
+    it("should destroy skin buffers but not the shared fallbacks", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      cache.getOrCreate(
+        new Mesh(new BoxGeometry(1, 1, 1), createMaterial()),
+        mockPipeline
+      );
+      cache.getOrCreate(createSkinnedMesh(), mockPipeline);
+
+      cache.disposeAll();
+
+      // 3 buffers per mesh plus the skinned mesh's bone and skin vertex buffers
+      expect(mockBuffer.destroy).toHaveBeenCalledTimes(8);
+      expect(identityBoneBuffer.destroy).not.toHaveBeenCalled();
+      expect(unskinnedVertexBuffer.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("morph targets", () => {
+    function createMaterial(): Material {
+      return {
+        type: "test-morphing",
+        supportsSkinning: true,
+        supportsMorphTargets: true,
+        getPrimitiveTopology: () => "triangle-list",
+        getVertexShader: () => "",
+        getFragmentShader: () => "",
+        getVertexBufferLayout: () => ({
+          arrayStride: 12,
+          attributes: [],
+        }),
+        getUniformBufferSize: () => 64,
+      };
+    }
+
+    function createMorphedMesh(): Mesh {
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        morphTargets: [
+          { positions: new Float32Array(9).fill(1) },
+          { positions: new Float32Array(9).fill(2) },
+        ],
+      });
+      return new Mesh(geometry, createMaterial());
+    }
+
+    function getInfluenceWrites(): unknown[][] {
+      return (mockQueue.writeBuffer as any).mock.calls.filter(
+        (call: unknown[]) =>
+          call[2] instanceof Float32Array && call[2].length === 2
+      );
+    }
+
+    it("should bind the shared zero influence for meshes without morph targets", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = new Mesh(new BoxGeometry(1, 1, 1), createMaterial());
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      expect(resources.morphInfluenceBuffer).toBe(zeroMorphInfluenceBuffer);
+      expect(resources.morphDeltaBuffer).toBe(emptyMorphDeltaBuffer);
+      const calls = (mockDevice.createBindGroup as any).mock.calls;
+      const entries: GPUBindGroupEntry[] = calls.at(-1)[0].entries;
+      expect(entries.map((entry) => entry.binding)).toEqual([
+        0, 16, 17, 18, 19,
+      ]);
+    });
+
+    it("should create morph buffers sized by target and vertex count", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+
+      cache.getOrCreate(createMorphedMesh(), mockPipeline);
+
+      const createCalls = (mockDevice.createBuffer as any).mock.calls;
+      const sizes = createCalls.map((call: any) => call[0].size);
+      // Vertex, index and uniform buffers, then 2 influences and 2 * 3 deltas
+      expect(sizes.slice(3)).toEqual([2 * 4, 2 * 3 * 32]);
+    });
+
+    it("should upload influences only when they change", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const mesh = createMorphedMesh();
+
+      cache.getOrCreate(mesh, mockPipeline);
+      cache.getOrCreate(mesh, mockPipeline);
+      expect(getInfluenceWrites()).toHaveLength(1);
+
+      mesh.morphTargetInfluences[1] = 0.5;
+      cache.getOrCreate(mesh, mockPipeline);
+      cache.getOrCreate(mesh, mockPipeline);
+
+      const writes = getInfluenceWrites();
+      expect(writes).toHaveLength(2);
+      expect(Array.from(writes[1][2] as Float32Array)).toEqual([0, 0.5]);
+    });
+
+    it("should give skinned meshes morph fallbacks for the shadow pass", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        skinIndices: new Uint16Array(12),
+        skinWeights: new Float32Array(12),
+      });
+      const material = { ...createMaterial(), supportsMorphTargets: false };
+      const mesh = new SkinnedMesh(
+        geometry,
+        material,
+        new Skeleton([new Object3D()])
+      );
+
+      const resources = cache.getOrCreate(mesh, mockPipeline);
+
+      expect(resources.morphInfluenceBuffer).toBe(zeroMorphInfluenceBuffer);
+      const calls = (mockDevice.createBindGroup as any).mock.calls;
+      const entries: GPUBindGroupEntry[] = calls.at(-1)[0].entries;
+      expect(entries.map((entry) => entry.binding)).toEqual([0, 16, 17]);
+    });
+
+    it("should destroy morph buffers but not the shared fallbacks", () => {
+      const cache = new MeshResourceCache({
+        device: mockDevice,
+        fallback: mockFallback,
+      });
+      cache.getOrCreate(
+        new Mesh(new BoxGeometry(1, 1, 1), createMaterial()),
+        mockPipeline
+      );
+      cache.getOrCreate(createMorphedMesh(), mockPipeline);
+
+      cache.disposeAll();
+
+      // 3 buffers per mesh plus the morphed mesh's influence and delta buffers
+      expect(mockBuffer.destroy).toHaveBeenCalledTimes(8);
+      expect(zeroMorphInfluenceBuffer.destroy).not.toHaveBeenCalled();
+      expect(emptyMorphDeltaBuffer.destroy).not.toHaveBeenCalled();
+    });
+  });
+
   describe("disposeMesh", () => {
     it("should destroy GPU resources for a specific mesh", () => {
       const cache = new MeshResourceCache({
@@ -448,3 +890,19 @@ describe("MeshResourceCache", () => {
     });
   });
 });
+
+function createTestMaterial(): Material {
+  return {
+    type: "test-material",
+    bindingRevision: 0,
+    getPrimitiveTopology: () => "triangle-list",
+    getVertexShader: () => "",
+    getFragmentShader: () => "",
+    getVertexBufferLayout: () => ({
+      arrayStride: 32,
+      attributes: [],
+    }),
+    getUniformBufferSize: () => 64,
+    writeUniformData: () => {},
+  };
+}
@@ -1,7 +1,22 @@
 import { getIndexFormat } from "../geometry/Geometry";
 import { PBRMaterial } from "../material/PBRMaterial";
+import { InstancedMesh } from "../scene/InstancedMesh";
 import type { Mesh } from "../scene/Mesh";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
 import { FallbackResources } from "./FallbackResources";
+import { INSTANCE_STRIDE, packInstanceData } from "./InstanceBuffer";
+import {
+  MORPH_DELTAS_BINDING,
+  MORPH_INFLUENCES_BINDING,
+  hasMorphTargets,
+  packMorphDeltas,
+} from "./MorphBuffer";
+import {
+  BONE_MATRICES_BINDING,
+  BONE_STRIDE,
+  SKIN_VERTICES_BINDING,
+  packSkinVertices,
+} from "./SkinBuffer";
 
 /**
  * GPU resources created for a mesh, including buffers and bind groups.
@@ -10,13 +25,29 @@ export interface MeshGPUResources {
   vertexBuffer: GPUBuffer;
   indexBuffer: GPUBuffer;
   uniformBuffer: GPUBuffer;
-  bindGroup: GPUBindGroup;
+  /** Created for the pipeline the mesh is drawn with; absent while only depth passes used the mesh */
+  bindGroup?: GPUBindGroup;
   iblBindGroup?: GPUBindGroup;
   materialType: string;
   topology: GPUPrimitiveTopology;
   bindingRevision: number;
+  /** Pipeline the bind groups were created for */
+  pipeline?: GPURenderPipeline;
   indexCount: number;
   indexFormat: GPUIndexFormat;
+  /** Per-instance data bound at INSTANCE_BUFFER_SLOT; shared identity instance for plain meshes */
+  instanceBuffer: GPUBuffer;
+  instanceCount: number;
+  /** Joint matrices of a SkinnedMesh; shared identity bone for other meshes of skinning materials */
+  boneBuffer?: GPUBuffer;
+  /** Per-vertex joints and weights of a SkinnedMesh; shared unskinned vertex otherwise */
+  skinVertexBuffer?: GPUBuffer;
+  /** Morph target influences of a mesh with morph targets; shared zero influence otherwise */
+  morphInfluenceBuffer?: GPUBuffer;
+  /** Morph target deltas of a mesh with morph targets; shared empty delta otherwise */
+  morphDeltaBuffer?: GPUBuffer;
+  /** Influences last written to morphInfluenceBuffer, to skip unchanged uploads */
+  morphInfluences?: Float32Array;
 }
 
 /**
@@ -50,10 +81,11 @@ export class MeshResourceCache {
   /**
    * Returns cached GPU resources for the mesh, creating or updating them as needed.
    * @param mesh - Mesh providing geometry, indices, and material bindings
-   * @param pipeline - Pipeline used to query bind group layouts
+   * @param pipeline - Pipeline used to query bind group layouts; depth-only passes omit it
+   *   to get the buffers without creating or rebuilding the bind groups
    * @returns Cached or newly created GPU resources for the mesh
    */
-  getOrCreate(mesh: Mesh, pipeline: GPURenderPipeline): MeshGPUResources {
+  getOrCreate(mesh: Mesh, pipeline?: GPURenderPipeline): MeshGPUResources {
     let resources = this._meshBuffers.get(mesh);
     const currentMaterialType = mesh.material.type;
     const currentTopology = mesh.material.getPrimitiveTopology();
@@ -70,70 +102,15 @@ export class MeshResourceCache {
       mesh.needsUpdate = false;
     }
 
-    if (resources && resources.bindingRevision !== currentBindingRevision) {
-      const uniformBuffer = resources.uniformBuffer;
-      const bindGroupEntries = this._createMeshBindGroupEntries(
-        mesh,
-        uniformBuffer
-      );
-
-      resources.bindGroup = this._device.createBindGroup({
-        label: "Mesh Bind Group",
-        layout: pipeline.getBindGroupLayout(0),
-        entries: bindGroupEntries,
-      });
-
-      if (mesh.material instanceof PBRMaterial) {
-        const iblTextures = mesh.material.getIBLTextures(this._device);
-
-        if (iblTextures) {
-          resources.iblBindGroup = this._device.createBindGroup({
-            label: "IBL Bind Group",
-            layout: pipeline.getBindGroupLayout(1),
-            entries: [
-              {
-                binding: 0,
-                resource: iblTextures.prefilteredMap.gpuSampler,
-              },
-              {
-                binding: 1,
-                resource: iblTextures.prefilteredMap.cubeView,
-              },
-              {
-                binding: 2,
-                resource: iblTextures.irradianceMap.cubeView,
-              },
-              {
-                binding: 3,
-                resource: iblTextures.brdfLUT.gpuTexture.createView(),
-              },
-            ],
-          });
-        } else {
-          const dummyCube = this._fallback.getDummyCubeTexture();
-          const dummyBrdf = this._fallback.getDummyBrdfLUT();
-          const dummySampler = this._fallback.getLinearSampler();
-
-          resources.iblBindGroup = this._device.createBindGroup({
-            label: "Dummy IBL Bind Group",
-            layout: pipeline.getBindGroupLayout(1),
-            entries: [
-              { binding: 0, resource: dummySampler },
-              {
-                binding: 1,
-                resource: dummyCube.createView({ dimension: "cube" }),
-              },
-              {
-                binding: 2,
-                resource: dummyCube.createView({ dimension: "cube" }),
-              },
-              { binding: 3, resource: dummyBrdf.createView() },
-            ],
-          });
-        }
-      }
-
-      resources.bindingRevision = currentBindingRevision;
+    // Auto-layout bind groups are only valid with the pipeline they were created for,
+    // so a render state change (e.g. toggling transparency) rebuilds them too
+    if (
+      pipeline &&
+      resources &&
+      (resources.bindingRevision !== currentBindingRevision ||
+        resources.pipeline !== pipeline)
+    ) {
+      this._createBindGroups(mesh, resources, pipeline);
     }
 
     if (!resources) {
@@ -174,86 +151,75 @@ export class MeshResourceCache {
         usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
       });
 
-      const bindGroupEntries = this._createMeshBindGroupEntries(
-        mesh,
-        uniformBuffer
-      );
-
-      const bindGroup = this._device.createBindGroup({
-        label: "Mesh Bind Group",
-        layout: pipeline.getBindGroupLayout(0),
-        entries: bindGroupEntries,
-      });
-
-      let iblBindGroup: GPUBindGroup | undefined;
-      if (mesh.material instanceof PBRMaterial) {
-        const iblTextures = mesh.material.getIBLTextures(this._device);
-
-        if (iblTextures) {
-          iblBindGroup = this._device.createBindGroup({
-            label: "IBL Bind Group",
-            layout: pipeline.getBindGroupLayout(1),
-            entries: [
-              {
-                binding: 0,
-                resource: iblTextures.prefilteredMap.gpuSampler,
-              },
-              {
-                binding: 1,
-                resource: iblTextures.prefilteredMap.cubeView,
-              },
-              {
-                binding: 2,
-                resource: iblTextures.irradianceMap.cubeView,
-              },
-              {
-                binding: 3,
-                resource: iblTextures.brdfLUT.gpuTexture.createView(),
-              },
-            ],
-          });
-        } else {
-          const dummyCube = this._fallback.getDummyCubeTexture();
-          const dummyBrdf = this._fallback.getDummyBrdfLUT();
-          const dummySampler = this._fallback.getLinearSampler();
-
-          iblBindGroup = this._device.createBindGroup({
-            label: "Dummy IBL Bind Group",
-            layout: pipeline.getBindGroupLayout(1),
-            entries: [
-              { binding: 0, resource: dummySampler },
-              {
-                binding: 1,
-                resource: dummyCube.createView({ dimension: "cube" }),
-              },
-              {
-                binding: 2,
-                resource: dummyCube.createView({ dimension: "cube" }),
-              },
-              {
-                binding: 3,
-                resource: dummyBrdf.createView(),
-              },
-            ],
-          });
-        }
-      }
+      const skinBuffers = this._createSkinBuffers(mesh);
+      const morphBuffers = this._createMorphBuffers(mesh);
+      const instanceBuffer =
+        mesh instanceof InstancedMesh
+          ? this._device.createBuffer({
+              label: "Mesh Instance Buffer",
+              size: Math.max(mesh.count, 1) * INSTANCE_STRIDE,
+              usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            })
+          : this._fallback.getIdentityInstanceBuffer();
 
       resources = {
         vertexBuffer,
         indexBuffer,
         uniformBuffer,
-        bindGroup,
-        iblBindGroup,
         materialType: currentMaterialType,
         topology: currentTopology,
         bindingRevision: currentBindingRevision,
         indexCount: indexData.length,
         indexFormat,
+        instanceBuffer,
+        instanceCount: mesh instanceof InstancedMesh ? mesh.count : 1,
+        ...skinBuffers,
+        ...morphBuffers,
       };
 
+      if (pipeline) {
+        this._createBindGroups(mesh, resources, pipeline);
+      }
+
       this._meshBuffers.set(mesh, resources);
       this._trackedMeshResources.add(resources);
+
+      if (mesh instanceof InstancedMesh) {
+        mesh.instancesNeedUpdate = true;
+      }
+      if (mesh instanceof SkinnedMesh) {
+        mesh.bonesNeedUpdate = true;
+      }
+    }
+
+    if (mesh instanceof InstancedMesh && mesh.instancesNeedUpdate) {
+      if (mesh.count > 0) {
+        this._device.queue.writeBuffer(
+          resources.instanceBuffer,
+          0,
+          packInstanceData(mesh) as Float32Array<ArrayBuffer>
+        );
+      }
+      mesh.instancesNeedUpdate = false;
+    }
+
+    if (
+      mesh instanceof SkinnedMesh &&
+      mesh.bonesNeedUpdate &&
+      resources.boneBuffer
+    ) {
+      if (mesh.jointMatrices.length > 0) {
+        this._device.queue.writeBuffer(
+          resources.boneBuffer,
+          0,
+          mesh.jointMatrices as Float32Array<ArrayBuffer>
+        );
+      }
+      mesh.bonesNeedUpdate = false;
+    }
+
+    if (resources.morphInfluences) {
+      this._updateMorphInfluences(mesh, resources);
     }
 
     return resources;
@@ -276,9 +242,7 @@ export class MeshResourceCache {
    */
   disposeAll(): void {
     for (const resources of this._trackedMeshResources) {
-      resources.vertexBuffer.destroy();
-      resources.indexBuffer.destroy();
-      resources.uniformBuffer.destroy();
+      this._destroyBuffers(resources);
     }
 
     this._trackedMeshResources.clear();
@@ -286,26 +250,248 @@ export class MeshResourceCache {
   }
 
   private _destroyMeshResources(resources: MeshGPUResources): void {
+    this._destroyBuffers(resources);
+    this._trackedMeshResources.delete(resources);
+  }
+
+  private _destroyBuffers(resources: MeshGPUResources): void {
     resources.vertexBuffer.destroy();
     resources.indexBuffer.destroy();
     resources.uniformBuffer.destroy();
-    this._trackedMeshResources.delete(resources);
+    // The identity instance buffer is shared and owned by FallbackResources
+    const identityBuffer = this._fallback.getIdentityInstanceBuffer();
+    if (resources.instanceBuffer !== identityBuffer) {
+      resources.instanceBuffer.destroy();
+    }
+    // So are the identity bone and unskinned vertex buffers
+    if (
+      resources.boneBuffer &&
+      resources.boneBuffer !== this._fallback.getIdentityBoneBuffer()
+    ) {
+      resources.boneBuffer.destroy();
+    }
+    if (
+      resources.skinVertexBuffer &&
+      resources.skinVertexBuffer !== this._fallback.getUnskinnedVertexBuffer()
+    ) {
+      resources.skinVertexBuffer.destroy();
+    }
+    if (
+      resources.morphInfluenceBuffer &&
+      resources.morphInfluenceBuffer !==
+        this._fallback.getZeroMorphInfluenceBuffer()
+    ) {
+      resources.morphInfluenceBuffer.destroy();
+    }
+    if (
+      resources.morphDeltaBuffer &&
+      resources.morphDeltaBuffer !== this._fallback.getEmptyMorphDeltaBuffer()
+    ) {
+      resources.morphDeltaBuffer.destroy();
+    }
   }
 
   /**
-   * Creates bind group entries for a mesh, including uniform buffer and texture bindings.
+   * Creates the mesh and IBL bind groups of a mesh for the pipeline it is drawn with.
    * @param mesh - Mesh providing material and texture information
-   * @param uniformBuffer - GPU buffer containing uniform data
+   * @param resources - Resources to store the bind groups in
+   * @param pipeline - Pipeline used to query bind group layouts
+   */
+  private _createBindGroups(
+    mesh: Mesh,
+    resources: MeshGPUResources,
+    pipeline: GPURenderPipeline
+  ): void {
+    resources.bindGroup = this._device.createBindGroup({
+      label: "Mesh Bind Group",
+      layout: pipeline.getBindGroupLayout(0),
+      entries: this._createMeshBindGroupEntries(mesh, resources),
+    });
+
+    if (mesh.material instanceof PBRMaterial) {
+      const iblTextures = mesh.material.getIBLTextures(this._device);
+
+      if (iblTextures) {
+        resources.iblBindGroup = this._device.createBindGroup({
+          label: "IBL Bind Group",
+          layout: pipeline.getBindGroupLayout(1),
+          entries: [
+            {
+              binding: 0,
+              resource: iblTextures.prefilteredMap.gpuSampler,
+            },
+            {
+              binding: 1,
+              resource: iblTextures.prefilteredMap.cubeView,
+            },
+            {
+              binding: 2,
+              resource: iblTextures.irradianceMap.cubeView,
+            },
+            {
+              binding: 3,
+              resource: iblTextures.brdfLUT.gpuTexture.createView(),
+            },
+          ],
+        });
+      } else {
+        const dummyCube = this._fallback.getDummyCubeTexture();
+        const dummyBrdf = this._fallback.getDummyBrdfLUT();
+        const dummySampler = this._fallback.getLinearSampler();
+
+        resources.iblBindGroup = this._device.createBindGroup({
+          label: "Dummy IBL Bind Group",
+          layout: pipeline.getBindGroupLayout(1),
+          entries: [
+            { binding: 0, resource: dummySampler },
+            {
+              binding: 1,
+              resource: dummyCube.createView({ dimension: "cube" }),
+            },
+            {
+              binding: 2,
+              resource: dummyCube.createView({ dimension: "cube" }),
+            },
+            { binding: 3, resource: dummyBrdf.createView() },
+          ],
+        });
+      }
+    }
+
+    resources.bindingRevision = mesh.material.bindingRevision ?? 0;
+    resources.pipeline = pipeline;
+  }
+
+  /**
+   * Creates the skin storage buffers of a SkinnedMesh, or picks the shared
+   * fallbacks for other meshes drawn with a material that supports skinning.
+   * @param mesh - Mesh to create skin buffers for
+   * @returns The bone and skin vertex buffers, or an empty object if the mesh needs none
+   */
+  private _createSkinBuffers(
+    mesh: Mesh
+  ): Pick<MeshGPUResources, "boneBuffer" | "skinVertexBuffer"> {
+    if (mesh instanceof SkinnedMesh) {
+      const boneBuffer = this._device.createBuffer({
+        label: "Mesh Bone Buffer",
+        size: Math.max(mesh.skeleton.bones.length, 1) * BONE_STRIDE,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+
+      const skinVertexData = packSkinVertices(mesh.geometry);
+      const skinVertexBuffer = this._device.createBuffer({
+        label: "Mesh Skin Vertex Buffer",
+        size: skinVertexData.byteLength,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+      this._device.queue.writeBuffer(skinVertexBuffer, 0, skinVertexData);
+
+      return { boneBuffer, skinVertexBuffer };
+    }
+
+    // Morphed meshes get skin fallbacks too, so the shadow pass can bind both
+    if (mesh.material.supportsSkinning || hasMorphTargets(mesh.geometry)) {
+      return {
+        boneBuffer: this._fallback.getIdentityBoneBuffer(),
+        skinVertexBuffer: this._fallback.getUnskinnedVertexBuffer(),
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Creates the morph storage buffers of a mesh with morph targets, or picks the
+   * shared fallbacks for other meshes that may be bound to a morphing shader.
+   * @param mesh - Mesh to create morph buffers for
+   * @returns The influence and delta buffers, or an empty object if the mesh needs none
+   */
+  private _createMorphBuffers(
+    mesh: Mesh
+  ): Pick<
+    MeshGPUResources,
+    "morphInfluenceBuffer" | "morphDeltaBuffer" | "morphInfluences"
+  > {
+    if (hasMorphTargets(mesh.geometry)) {
+      const targetCount = mesh.geometry.morphTargets!.length;
+      const morphInfluenceBuffer = this._device.createBuffer({
+        label: "Mesh Morph Influence Buffer",
+        size: targetCount * Float32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+
+      const morphDeltaData = packMorphDeltas(mesh.geometry);
+      const morphDeltaBuffer = this._device.createBuffer({
+        label: "Mesh Morph Delta Buffer",
+        size: morphDeltaData.byteLength,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+      this._device.queue.writeBuffer(morphDeltaBuffer, 0, morphDeltaData);
+
+      // NaN never equals the current influences, so the first update uploads them
+      const morphInfluences = new Float32Array(targetCount).fill(NaN);
+      return { morphInfluenceBuffer, morphDeltaBuffer, morphInfluences };
+    }
+
+    // Skinned meshes get morph fallbacks too, so the shadow pass can bind both
+    if (mesh.material.supportsMorphTargets || mesh instanceof SkinnedMesh) {
+      return {
+        morphInfluenceBuffer: this._fallback.getZeroMorphInfluenceBuffer(),
+        morphDeltaBuffer: this._fallback.getEmptyMorphDeltaBuffer(),
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Uploads the mesh's morph target influences if they changed since the last upload.
+   */
+  private _updateMorphInfluences(
+    mesh: Mesh,
+    resources: MeshGPUResources
+  ): void {
+    const uploaded = resources.morphInfluences!;
+    let changed = false;
+    for (let i = 0; i < uploaded.length; i++) {
+      const influence = Math.fround(mesh.morphTargetInfluences[i] ?? 0);
+      if (influence !== uploaded[i]) {
+        uploaded[i] = influence;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      return;
+    }
+
+    this._device.queue.writeBuffer(
+      resources.morphInfluenceBuffer!,
+      0,
+      uploaded as Float32Array<ArrayBuffer>
+    );
+  }
+
+  /**
+   * Creates bind group entries for a mesh, including uniform buffer, texture, skin and morph bindings.
+   * @param mesh - Mesh providing material and texture information
+   * @param buffers - GPU buffers containing uniform data and, for skinning or morphing materials, skin and morph data
    * @returns Array of bind group entries ready for bind group creation
    */
   private _createMeshBindGroupEntries(
     mesh: Mesh,
-    uniformBuffer: GPUBuffer
+    buffers: Pick<
+      MeshGPUResources,
+      | "uniformBuffer"
+      | "boneBuffer"
+      | "skinVertexBuffer"
+      | "morphInfluenceBuffer"
+      | "morphDeltaBuffer"
+    >
   ): GPUBindGroupEntry[] {
     const entries: GPUBindGroupEntry[] = [
       {
         binding: 0,
-        resource: { buffer: uniformBuffer },
+        resource: { buffer: buffers.uniformBuffer },
       },
     ];
 
@@ -325,6 +511,40 @@ export class MeshResourceCache {
       }
     }
 
+    if (
+      mesh.material.supportsSkinning &&
+      buffers.boneBuffer &&
+      buffers.skinVertexBuffer
+    ) {
+      entries.push(
+        {
+          binding: BONE_MATRICES_BINDING,
+          resource: { buffer: buffers.boneBuffer },
+        },
+        {
+          binding: SKIN_VERTICES_BINDING,
+          resource: { buffer: buffers.skinVertexBuffer },
+        }
+      );
+    }
+
+    if (
+      mesh.material.supportsMorphTargets &&
+      buffers.morphInfluenceBuffer &&
+      buffers.morphDeltaBuffer
+    ) {
+      entries.push(
+        {
+          binding: MORPH_INFLUENCES_BINDING,
+          resource: { buffer: buffers.morphInfluenceBuffer },
+        },
+        {
+          binding: MORPH_DELTAS_BINDING,
+          resource: { buffer: buffers.morphDeltaBuffer },
+        }
+      );
+    }
+
     return entries;
   }
 }
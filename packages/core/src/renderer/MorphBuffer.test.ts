@@ -0,0 +1,51 @@
+import { describe, it, expect } from "bun:test";
+import {
+  MORPH_DELTA_STRIDE,
+  hasMorphTargets,
+  packMorphDeltas,
+} from "./MorphBuffer";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
+
+describe("MorphBuffer", () => {
+  it("should pack position and normal deltas target by target", () => {
+    const geometry = new BufferGeometry({
+      positions: new Float32Array(6),
+      indices: new Uint16Array([0, 1, 0]),
+      morphTargets: [
+        {
+          positions: new Float32Array([1, 2, 3, 4, 5, 6]),
+          normals: new Float32Array([0, 0, 1, 0, 1, 0]),
+        },
+        { positions: new Float32Array([7, 8, 9, 10, 11, 12]) },
+      ],
+    });
+
+    const data = new Float32Array(packMorphDeltas(geometry));
+
+    expect(data.byteLength).toBe(4 * MORPH_DELTA_STRIDE);
+    expect(Array.from(data.subarray(0, 8))).toEqual([1, 2, 3, 0, 0, 0, 1, 0]);
+    expect(Array.from(data.subarray(8, 16))).toEqual([4, 5, 6, 0, 0, 1, 0, 0]);
+    // Second target without normals leaves the normal deltas zero
+    expect(Array.from(data.subarray(16, 24))).toEqual([7, 8, 9, 0, 0, 0, 0, 0]);
+    expect(Array.from(data.subarray(24, 27))).toEqual([10, 11, 12]);
+  });
+
+  it("should pack a single zero delta for geometry without morph targets", () => {
+    const geometry = new BoxGeometry();
+
+    const buffer = packMorphDeltas(geometry);
+
+    expect(buffer.byteLength).toBe(MORPH_DELTA_STRIDE);
+    expect(hasMorphTargets(geometry)).toBe(false);
+  });
+
+  it("should ignore an empty morph target list", () => {
+    const geometry = new BufferGeometry({
+      positions: new Float32Array(9),
+      morphTargets: [],
+    });
+
+    expect(hasMorphTargets(geometry)).toBe(false);
+  });
+});
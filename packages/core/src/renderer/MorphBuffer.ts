@@ -0,0 +1,46 @@
+import type { Geometry } from "../geometry/Geometry";
+
+/** Bytes per morph delta: vec4f position followed by vec4f normal. */
+export const MORPH_DELTA_STRIDE = 32;
+
+/** Group 0 binding of the morph target influences in materials that support morph targets. */
+export const MORPH_INFLUENCES_BINDING = 18;
+
+/** Group 0 binding of the morph target deltas in materials that support morph targets. */
+export const MORPH_DELTAS_BINDING = 19;
+
+/**
+ * Packs the morph target deltas of a geometry, target by target, into the morph delta layout.
+ * Must match MorphDelta in shaders/morphing/morphing.wgsl.
+ * @param geometry - Geometry providing morphTargets
+ * @returns MORPH_DELTA_STRIDE bytes per vertex and target; a single zero delta if the geometry has no morph targets
+ */
+export function packMorphDeltas(geometry: Geometry): ArrayBuffer {
+  const targets = geometry.morphTargets ?? [];
+  const { vertexCount } = geometry;
+  const buffer = new ArrayBuffer(
+    Math.max(targets.length * vertexCount, 1) * MORPH_DELTA_STRIDE
+  );
+
+  const data = new Float32Array(buffer);
+  const floatsPerDelta = MORPH_DELTA_STRIDE / 4;
+  targets.forEach((target, t) => {
+    for (let i = 0; i < vertexCount; i++) {
+      const offset = (t * vertexCount + i) * floatsPerDelta;
+      data.set(target.positions.subarray(i * 3, i * 3 + 3), offset);
+      if (target.normals) {
+        data.set(target.normals.subarray(i * 3, i * 3 + 3), offset + 4);
+      }
+    }
+  });
+
+  return buffer;
+}
+
+/**
+ * Whether a geometry has at least one morph target to blend.
+ * @param geometry - Geometry to check
+ */
+export function hasMorphTargets(geometry: Geometry): boolean {
+  return (geometry.morphTargets?.length ?? 0) > 0;
+}
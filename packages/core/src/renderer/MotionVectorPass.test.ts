@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import { MotionVectorPass } from "./MotionVectorPass";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import { Mesh } from "../scene/Mesh";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("MotionVectorPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+  let mockPassEncoder: any;
+  let mockMeshResources: any;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      setVertexBuffer: mock(() => {}),
+      setIndexBuffer: mock(() => {}),
+      draw: mock(() => {}),
+      drawIndexed: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createBindGroup: mock(() => ({}) as GPUBindGroup),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(
+        (descriptor: GPURenderPipelineDescriptor) => descriptor
+      ),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockMeshResources = {
+      getOrCreate: mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+      })),
+    };
+  });
+
+  function createPass(): MotionVectorPass {
+    return new MotionVectorPass({
+      device: mockDevice,
+      meshResources: mockMeshResources,
+    });
+  }
+
+  function renderPass(
+    pass: MotionVectorPass,
+    meshes: any[],
+    previousViewProjectionMatrix = new Matrix4()
+  ): void {
+    pass.render({
+      commandEncoder: mockCommandEncoder,
+      meshes,
+      viewProjectionMatrix: new Matrix4(),
+      currentViewProjectionMatrix: new Matrix4(),
+      previousViewProjectionMatrix,
+      target: {} as GPUTextureView,
+      depthTarget: {} as GPUTextureView,
+    });
+  }
+
+  /**
+   * Returns the jittered, current and previous MVP matrices of a draw in the last written uniforms.
+   */
+  function getDrawMatrices(drawIndex: number): Float32Array[] {
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls;
+    const data: Float32Array = calls[calls.length - 1][2];
+    const base = drawIndex * 64;
+    return [0, 16, 32].map((offset) =>
+      data.subarray(base + offset, base + offset + 16)
+    );
+  }
+
+  it("should draw meshes with motion vector and depth attachments", () => {
+    const pass = createPass();
+
+    renderPass(pass, [createMockMesh(), createMockMesh()]);
+
+    const descriptor = (mockCommandEncoder.beginRenderPass as any).mock
+      .calls[0][0];
+    expect(descriptor.label).toBe("Motion Vector Pass");
+    expect(descriptor.colorAttachments[0].loadOp).toBe("clear");
+    expect(descriptor.depthStencilAttachment.depthClearValue).toBe(1);
+    expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(2);
+
+    const pipeline = (mockDevice.createRenderPipeline as any).mock.calls[0][0];
+    expect(pipeline.fragment.targets).toEqual([{ format: "rg16float" }]);
+    expect(pipeline.depthStencil.format).toBe("depth32float");
+  });
+
+  it("should skip meshes that are not triangle lists", () => {
+    const pass = createPass();
+    const lines = createMockMesh();
+    lines.material.getPrimitiveTopology = () => "line-list";
+
+    renderPass(pass, [lines, createMockMesh()]);
+
+    expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(1);
+  });
+
+  it("should treat meshes without a previous frame as static", () => {
+    const pass = createPass();
+    const mesh = createMockMesh(new Vector3(1, 2, 3));
+
+    renderPass(pass, [mesh]);
+
+    const [, current, previous] = getDrawMatrices(0);
+    expect([...previous]).toEqual([...current]);
+  });
+
+  it("should use the world matrix of the previous frame", () => {
+    const pass = createPass();
+    const mesh = createMockMesh(new Vector3(1, 0, 0));
+    renderPass(pass, [mesh]);
+
+    mesh.worldMatrix = Matrix4.translation(new Vector3(4, 0, 0));
+    renderPass(pass, [mesh]);
+
+    const [, current, previous] = getDrawMatrices(0);
+    expect(current[12]).toBe(4);
+    expect(previous[12]).toBe(1);
+  });
+
+  it("should ignore world matrices older than the previous frame", () => {
+    const pass = createPass();
+    const mesh = createMockMesh(new Vector3(1, 0, 0));
+    renderPass(pass, [mesh]);
+    renderPass(pass, []);
+
+    mesh.worldMatrix = Matrix4.translation(new Vector3(4, 0, 0));
+    renderPass(pass, [mesh]);
+
+    const [, , previous] = getDrawMatrices(0);
+    expect(previous[12]).toBe(4);
+  });
+
+  it("should apply the previous view-projection to the previous position", () => {
+    const pass = createPass();
+    const mesh = createMockMesh();
+    const previousViewProjection = Matrix4.translation(new Vector3(0, 5, 0));
+
+    renderPass(pass, [mesh], previousViewProjection);
+
+    const [, current, previous] = getDrawMatrices(0);
+    expect(current[13]).toBe(0);
+    expect(previous[13]).toBe(5);
+  });
+
+  it("should forget previous world matrices on reset", () => {
+    const pass = createPass();
+    const mesh = createMockMesh(new Vector3(1, 0, 0));
+    renderPass(pass, [mesh]);
+
+    pass.reset();
+    mesh.worldMatrix = Matrix4.translation(new Vector3(4, 0, 0));
+    renderPass(pass, [mesh]);
+
+    const [, , previous] = getDrawMatrices(0);
+    expect(previous[12]).toBe(4);
+  });
+
+  it("should displace meshes with a displacement map like the main pass", () => {
+    mockMeshResources.getOrCreate = mock(() => ({
+      vertexBuffer: {} as GPUBuffer,
+      indexBuffer: {} as GPUBuffer,
+      indexFormat: "uint16" as GPUIndexFormat,
+      indexCount: 36,
+      instanceBuffer: {} as GPUBuffer,
+      instanceCount: 1,
+      boneBuffer: {} as GPUBuffer,
+      skinVertexBuffer: {} as GPUBuffer,
+      morphInfluenceBuffer: {} as GPUBuffer,
+      morphDeltaBuffer: {} as GPUBuffer,
+    }));
+    const displacementMap = new Texture(
+      { createView: mock(() => ({}) as GPUTextureView) } as any,
+      {} as GPUSampler,
+      64,
+      64
+    );
+    const material = new BlinnPhongMaterial({
+      displacementMap,
+      displacementScale: 2.5,
+      displacementBias: -0.5,
+    });
+    const pass = createPass();
+
+    renderPass(pass, [new Mesh(new BoxGeometry(), material)]);
+    renderPass(pass, [new Mesh(new BoxGeometry(), material)]);
+
+    const pipelines = (mockDevice.createRenderPipeline as any).mock.calls;
+    expect(pipelines).toHaveLength(1);
+    expect(pipelines[0][0].label).toBe("Displaced Motion Vector Pipeline");
+    expect(pipelines[0][0].vertex.buffers[0].attributes).toHaveLength(3);
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls;
+    const data: Float32Array = calls[calls.length - 1][2];
+    expect(data[48]).toBe(2.5);
+    expect(data[49]).toBe(-0.5);
+  });
+
+  it("should destroy the uniform buffer on dispose", () => {
+    const pass = createPass();
+    renderPass(pass, [createMockMesh()]);
+
+    pass.dispose();
+
+    const [buffer] = (mockDevice.createBuffer as any).mock.results;
+    expect(buffer.value.destroy).toHaveBeenCalled();
+  });
+});
+
+function createMockMesh(position = new Vector3(0, 0, 0)): any {
+  return {
+    geometry: new BoxGeometry(),
+    worldMatrix: Matrix4.translation(position),
+    vertexCount: 3,
+    material: {
+      getPrimitiveTopology: () => "triangle-list",
+      getVertexBufferLayout: () => ({ arrayStride: 32, attributes: [] }),
+    },
+  };
+}
@@ -0,0 +1,429 @@
+import { Matrix4 } from "@web-real/math";
+import type { VertexBufferLayout } from "../material/Material";
+import type { Mesh } from "../scene/Mesh";
+import type { Texture } from "../texture/Texture";
+import instancingChunk from "../shaders/instancing/instancing.wgsl?raw";
+import skinningChunk from "../shaders/skinning/skinning.wgsl?raw";
+import morphingChunk from "../shaders/morphing/morphing.wgsl?raw";
+import displacementChunk from "../shaders/displacement/displacement.wgsl?raw";
+import motionVectorsShader from "../shaders/temporalAntialiasing/motionVectors.vert.wgsl?raw";
+import motionVectorsDeformedShader from "../shaders/temporalAntialiasing/motionVectorsDeformed.vert.wgsl?raw";
+import motionVectorsDisplacedShader from "../shaders/temporalAntialiasing/motionVectorsDisplaced.vert.wgsl?raw";
+import motionVectorsFragmentShader from "../shaders/temporalAntialiasing/motionVectors.frag.wgsl?raw";
+import {
+  DEPTH_FORMAT,
+  createDeformBindGroupEntries,
+  createDeformBindGroupLayoutEntries,
+  getDepthVertexAttributes,
+  getDisplacement,
+  isDeformed,
+  isDisplaced,
+} from "./DepthRenderer";
+import { INSTANCE_BUFFER_LAYOUT, INSTANCE_BUFFER_SLOT } from "./InstanceBuffer";
+import type {
+  MeshGPUResources,
+  MeshResourceCache,
+} from "./MeshResourceCache";
+
+/** Format of the motion vector texture: screen-space motion in UV units. */
+export const MOTION_VECTOR_FORMAT: GPUTextureFormat = "rg16float";
+
+/** Per-draw uniform slot size, aligned to minUniformBufferOffsetAlignment. */
+const DRAW_UNIFORM_STRIDE = 256;
+
+/** Byte size of the displaced Uniforms struct: three mat4x4f and the displacement params. */
+const DRAW_UNIFORM_SIZE = 208;
+
+/**
+ * World matrix of a mesh as drawn in a given frame.
+ */
+interface WorldMatrixRecord {
+  frame: number;
+  matrix: Matrix4;
+}
+
+/**
+ * Draws the screen-space motion of opaque meshes since the previous frame into
+ * a motion vector texture, with its own depth buffer so only the nearest surface
+ * writes. Motion combines the camera's movement with each mesh's world matrix
+ * change; the previous world matrix of every drawn mesh is kept for the next frame.
+ *
+ * Meshes drawn for the first time, or not drawn in the previous frame, are treated
+ * as having not moved. Instance matrices, bones and morph weights of the previous
+ * frame are not kept, so only the mesh transform contributes to their motion.
+ * Displaced meshes are displaced by their current material parameters in both frames.
+ *
+ * @example
+ * ```ts
+ * const motionVectors = new MotionVectorPass({ device, meshResources });
+ * motionVectors.render({
+ *   commandEncoder,
+ *   meshes: opaqueMeshes,
+ *   viewProjectionMatrix: jitteredViewProjection,
+ *   currentViewProjectionMatrix: viewProjection,
+ *   previousViewProjectionMatrix: previousViewProjection,
+ *   target: motionTexture.createView(),
+ *   depthTarget: depthTexture.createView(),
+ * });
+ * ```
+ */
+export class MotionVectorPass {
+  private _device: GPUDevice;
+  private _meshResources: MeshResourceCache;
+
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _deformBindGroupLayout?: GPUBindGroupLayout;
+  private _motionPipelines: Map<string, GPURenderPipeline> = new Map();
+  private _displacedBindGroupLayout?: GPUBindGroupLayout;
+  private _deformBindGroups: WeakMap<MeshGPUResources, GPUBindGroup> =
+    new WeakMap();
+  private _displacedBindGroups: WeakMap<
+    MeshGPUResources,
+    { map: Texture; bindGroup: GPUBindGroup }
+  > = new WeakMap();
+  private _uniformBuffer?: GPUBuffer;
+  private _bindGroup?: GPUBindGroup;
+
+  private _frame: number = 0;
+  private _worldMatrices: WeakMap<Mesh, WorldMatrixRecord> = new WeakMap();
+
+  /**
+   * Creates a new MotionVectorPass.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create buffers and pipelines
+   * @param options.meshResources - Mesh resource cache providing vertex and index buffers
+   */
+  constructor(options: {
+    device: GPUDevice;
+    meshResources: MeshResourceCache;
+  }) {
+    this._device = options.device;
+    this._meshResources = options.meshResources;
+  }
+
+  /**
+   * Records the motion vector pass, clearing motion to 0 and depth to 1, and
+   * remembers the world matrices of the drawn meshes for the next frame.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the pass
+   * @param options.meshes - Meshes to draw; only triangle-list meshes are drawn
+   * @param options.viewProjectionMatrix - View-projection the frame is rasterized with, including jitter
+   * @param options.currentViewProjectionMatrix - Unjittered view-projection of this frame
+   * @param options.previousViewProjectionMatrix - Unjittered view-projection of the previous frame
+   * @param options.target - Motion vector texture view in MOTION_VECTOR_FORMAT
+   * @param options.depthTarget - Depth texture view in DEPTH_FORMAT of the same size
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    meshes: Mesh[];
+    viewProjectionMatrix: Matrix4;
+    currentViewProjectionMatrix: Matrix4;
+    previousViewProjectionMatrix: Matrix4;
+    target: GPUTextureView;
+    depthTarget: GPUTextureView;
+  }): void {
+    const meshes = options.meshes.filter(
+      (mesh) => mesh.material.getPrimitiveTopology() === "triangle-list"
+    );
+    this._writeUniforms(options, meshes);
+
+    const passEncoder = options.commandEncoder.beginRenderPass({
+      label: "Motion Vector Pass",
+      colorAttachments: [
+        {
+          view: options.target,
+          clearValue: { r: 0, g: 0, b: 0, a: 0 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+      depthStencilAttachment: {
+        view: options.depthTarget,
+        depthClearValue: 1.0,
+        depthLoadOp: "clear",
+        depthStoreOp: "store",
+      },
+    });
+
+    meshes.forEach((mesh, meshIndex) => {
+      const resources = this._meshResources.getOrCreate(mesh);
+      const displacement = isDisplaced(mesh, resources)
+        ? getDisplacement(mesh)
+        : undefined;
+      const deformed = !!displacement || isDeformed(mesh, resources);
+
+      passEncoder.setPipeline(
+        this._getOrCreatePipeline(
+          mesh.material.getVertexBufferLayout(),
+          deformed,
+          !!displacement
+        )
+      );
+      passEncoder.setBindGroup(0, this._bindGroup!, [
+        meshIndex * DRAW_UNIFORM_STRIDE,
+      ]);
+      if (displacement) {
+        passEncoder.setBindGroup(
+          1,
+          this._getDisplacedBindGroup(resources, displacement.map)
+        );
+      } else if (deformed) {
+        passEncoder.setBindGroup(1, this._getDeformBindGroup(resources));
+      }
+      passEncoder.setVertexBuffer(0, resources.vertexBuffer);
+      passEncoder.setVertexBuffer(
+        INSTANCE_BUFFER_SLOT,
+        resources.instanceBuffer
+      );
+
+      if (resources.indexCount > 0) {
+        passEncoder.setIndexBuffer(
+          resources.indexBuffer,
+          resources.indexFormat
+        );
+        passEncoder.drawIndexed(resources.indexCount, resources.instanceCount);
+      } else {
+        passEncoder.draw(mesh.vertexCount, resources.instanceCount);
+      }
+    });
+
+    passEncoder.end();
+  }
+
+  /**
+   * Forgets the previous world matrices, so the next frame has no object motion.
+   */
+  reset(): void {
+    this._worldMatrices = new WeakMap();
+  }
+
+  /**
+   * Destroys the per-draw uniform buffer and releases cached pipelines and bind groups.
+   */
+  dispose(): void {
+    this._uniformBuffer?.destroy();
+
+    this._uniformBuffer = undefined;
+    this._bindGroup = undefined;
+    this._motionPipelines.clear();
+    this._deformBindGroups = new WeakMap();
+    this._displacedBindGroups = new WeakMap();
+    this.reset();
+  }
+
+  /**
+   * Writes the jittered, current and previous MVP matrices and the displacement
+   * params of every mesh into dynamic-offset slots, then records the current
+   * world matrices.
+   */
+  private _writeUniforms(
+    options: {
+      viewProjectionMatrix: Matrix4;
+      currentViewProjectionMatrix: Matrix4;
+      previousViewProjectionMatrix: Matrix4;
+    },
+    meshes: Mesh[]
+  ): void {
+    const requiredSize = Math.max(1, meshes.length) * DRAW_UNIFORM_STRIDE;
+
+    if (!this._uniformBuffer || this._uniformBuffer.size < requiredSize) {
+      this._uniformBuffer?.destroy();
+      this._uniformBuffer = this._device.createBuffer({
+        label: "Motion Vector Uniform Buffer",
+        size: requiredSize,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      this._bindGroup = this._device.createBindGroup({
+        label: "Motion Vector Bind Group",
+        layout: this._getBindGroupLayout(),
+        entries: [
+          {
+            binding: 0,
+            resource: {
+              buffer: this._uniformBuffer,
+              size: DRAW_UNIFORM_SIZE,
+            },
+          },
+        ],
+      });
+    }
+
+    const previousFrame = this._frame;
+    this._frame++;
+
+    const data = new Float32Array(requiredSize / 4);
+    meshes.forEach((mesh, meshIndex) => {
+      const worldMatrix = mesh.worldMatrix;
+      const previous = this._worldMatrices.get(mesh);
+      const previousWorldMatrix =
+        previous?.frame === previousFrame ? previous.matrix : worldMatrix;
+
+      const base = (meshIndex * DRAW_UNIFORM_STRIDE) / 4;
+      data.set(options.viewProjectionMatrix.multiply(worldMatrix).data, base);
+      data.set(
+        options.currentViewProjectionMatrix.multiply(worldMatrix).data,
+        base + 16
+      );
+      data.set(
+        options.previousViewProjectionMatrix.multiply(previousWorldMatrix).data,
+        base + 32
+      );
+
+      const displacement = getDisplacement(mesh);
+      if (displacement) {
+        data[base + 48] = displacement.scale;
+        data[base + 49] = displacement.bias;
+      }
+
+      this._worldMatrices.set(mesh, {
+        frame: this._frame,
+        matrix: worldMatrix.clone(),
+      });
+    });
+
+    this._device.queue.writeBuffer(this._uniformBuffer, 0, data);
+  }
+
+  private _getBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._bindGroupLayout) {
+      this._bindGroupLayout = this._device.createBindGroupLayout({
+        label: "Motion Vector Bind Group Layout",
+        entries: [
+          {
+            binding: 0,
+            visibility: GPUShaderStage.VERTEX,
+            buffer: { type: "uniform", hasDynamicOffset: true },
+          },
+        ],
+      });
+    }
+    return this._bindGroupLayout;
+  }
+
+  private _getDeformBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._deformBindGroupLayout) {
+      this._deformBindGroupLayout = this._device.createBindGroupLayout({
+        label: "Motion Vector Deform Bind Group Layout",
+        entries: createDeformBindGroupLayoutEntries(false),
+      });
+    }
+    return this._deformBindGroupLayout;
+  }
+
+  private _getDisplacedBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._displacedBindGroupLayout) {
+      this._displacedBindGroupLayout = this._device.createBindGroupLayout({
+        label: "Motion Vector Displaced Deform Bind Group Layout",
+        entries: createDeformBindGroupLayoutEntries(true),
+      });
+    }
+    return this._displacedBindGroupLayout;
+  }
+
+  /**
+   * Returns the skin and morph bind group of a deformed mesh, cached by its GPU resources.
+   */
+  private _getDeformBindGroup(resources: MeshGPUResources): GPUBindGroup {
+    let bindGroup = this._deformBindGroups.get(resources);
+    if (!bindGroup) {
+      bindGroup = this._device.createBindGroup({
+        label: "Motion Vector Deform Bind Group",
+        layout: this._getDeformBindGroupLayout(),
+        entries: createDeformBindGroupEntries(resources),
+      });
+      this._deformBindGroups.set(resources, bindGroup);
+    }
+    return bindGroup;
+  }
+
+  /**
+   * Returns the skin, morph and displacement bind group of a displaced mesh,
+   * cached by its GPU resources and recreated if the displacement map changed.
+   */
+  private _getDisplacedBindGroup(
+    resources: MeshGPUResources,
+    map: Texture
+  ): GPUBindGroup {
+    let cached = this._displacedBindGroups.get(resources);
+    if (!cached || cached.map !== map) {
+      cached = {
+        map,
+        bindGroup: this._device.createBindGroup({
+          label: "Motion Vector Displaced Deform Bind Group",
+          layout: this._getDisplacedBindGroupLayout(),
+          entries: createDeformBindGroupEntries(resources, map),
+        }),
+      };
+      this._displacedBindGroups.set(resources, cached);
+    }
+    return cached.bindGroup;
+  }
+
+  /**
+   * Returns a pipeline reading positions like the depth pipelines of DepthRenderer,
+   * that also writes motion vectors.
+   */
+  private _getOrCreatePipeline(
+    layout: VertexBufferLayout,
+    deformed: boolean,
+    displaced: boolean
+  ): GPURenderPipeline {
+    const key = `${layout.arrayStride}:${deformed}:${displaced}`;
+    const cached = this._motionPipelines.get(key);
+    if (cached) return cached;
+
+    const bindGroupLayouts = [this._getBindGroupLayout()];
+    if (displaced) {
+      bindGroupLayouts.push(this._getDisplacedBindGroupLayout());
+    } else if (deformed) {
+      bindGroupLayouts.push(this._getDeformBindGroupLayout());
+    }
+
+    const pipeline = this._device.createRenderPipeline({
+      label: displaced
+        ? "Displaced Motion Vector Pipeline"
+        : deformed
+          ? "Deformed Motion Vector Pipeline"
+          : "Motion Vector Pipeline",
+      layout: this._device.createPipelineLayout({ bindGroupLayouts }),
+      vertex: {
+        module: this._device.createShaderModule({
+          label: "Motion Vector Vertex Shader",
+          code: displaced
+            ? `${instancingChunk}\n${skinningChunk}\n${morphingChunk}\n${displacementChunk}\n${motionVectorsDisplacedShader}`
+            : deformed
+              ? `${instancingChunk}\n${skinningChunk}\n${morphingChunk}\n${motionVectorsDeformedShader}`
+              : `${instancingChunk}\n${motionVectorsShader}`,
+        }),
+        entryPoint: "main",
+        buffers: [
+          {
+            arrayStride: layout.arrayStride,
+            attributes: getDepthVertexAttributes(layout, displaced),
+          },
+          INSTANCE_BUFFER_LAYOUT,
+        ],
+      },
+      fragment: {
+        module: this._device.createShaderModule({
+          label: "Motion Vector Fragment Shader",
+          code: motionVectorsFragmentShader,
+        }),
+        entryPoint: "main",
+        targets: [{ format: MOTION_VECTOR_FORMAT }],
+      },
+      primitive: {
+        topology: "triangle-list",
+        cullMode: "none",
+      },
+      depthStencil: {
+        depthWriteEnabled: true,
+        depthCompare: "less",
+        format: DEPTH_FORMAT,
+      },
+    });
+
+    this._motionPipelines.set(key, pipeline);
+    return pipeline;
+  }
+}
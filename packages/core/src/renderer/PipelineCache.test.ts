@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, mock } from "bun:test";
 import { PipelineCache } from "./PipelineCache";
+import {
+  INSTANCE_BUFFER_LAYOUT,
+  INSTANCE_BUFFER_SLOT,
+} from "./InstanceBuffer";
 import type { Material } from "../material/Material";
 
 describe("PipelineCache", () => {
@@ -15,6 +19,25 @@ describe("PipelineCache", () => {
     } as unknown as GPUDevice;
   });
 
+  function createMaterial(overrides: Partial<Material> = {}): Material {
+    return {
+      type: "test-material",
+      getPrimitiveTopology: () => "triangle-list",
+      getVertexShader: () => "// vertex shader",
+      getFragmentShader: () => "// fragment shader",
+      getVertexBufferLayout: () => ({
+        arrayStride: 32,
+        attributes: [],
+      }),
+      getUniformBufferSize: () => 64,
+      ...overrides,
+    };
+  }
+
+  function getDescriptor(index = 0): GPURenderPipelineDescriptor {
+    return (mockDevice.createRenderPipeline as any).mock.calls[index][0];
+  }
+
   describe("getOrCreate", () => {
     it("should create a new pipeline for a material", () => {
       const cache = new PipelineCache({
@@ -156,11 +179,334 @@ describe("PipelineCache", () => {
       cache.getOrCreate(mockMaterial);
       cache.getOrCreate(mockMaterial);
 
-      // Should use cache (key: "pbr-material_triangle-strip")
+      // Should use cache (key: "pbr-material_triangle-strip_opaque_true_true")
       expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(1);
     });
   });
 
+  describe("blend and depth state", () => {
+    it("should create opaque pipelines without blending and with depth writes", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial({ blending: "additive" }));
+
+      const descriptor = getDescriptor();
+      const targets = descriptor.fragment!.targets as GPUColorTargetState[];
+      expect(targets[0].blend).toBeUndefined();
+      expect(descriptor.depthStencil!.depthWriteEnabled).toBe(true);
+      expect(descriptor.depthStencil!.depthCompare).toBe("less");
+    });
+
+    it("should use the blend state of transparent materials", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial({ transparent: true }));
+      cache.getOrCreate(
+        createMaterial({ transparent: true, blending: "additive" })
+      );
+      cache.getOrCreate(
+        createMaterial({ transparent: true, blending: "multiply" })
+      );
+      cache.getOrCreate(
+        createMaterial({ transparent: true, blending: "premultiplied" })
+      );
+
+      const blends = [0, 1, 2, 3].map(
+        (index) =>
+          (getDescriptor(index).fragment!.targets as GPUColorTargetState[])[0]
+            .blend!
+      );
+      expect(blends[0].color).toEqual({
+        srcFactor: "src-alpha",
+        dstFactor: "one-minus-src-alpha",
+      });
+      expect(blends[1].color).toEqual({
+        srcFactor: "src-alpha",
+        dstFactor: "one",
+      });
+      expect(blends[2].color).toEqual({ srcFactor: "zero", dstFactor: "src" });
+      expect(blends[3].color).toEqual({
+        srcFactor: "one",
+        dstFactor: "one-minus-src-alpha",
+      });
+    });
+
+    it("should disable depth writes and testing when requested", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial({ depthWrite: false, depthTest: false }));
+
+      const descriptor = getDescriptor();
+      expect(descriptor.depthStencil!.depthWriteEnabled).toBe(false);
+      expect(descriptor.depthStencil!.depthCompare).toBe("always");
+    });
+
+    it("should key pipelines by blend and depth state", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+      cache.getOrCreate(createMaterial({ transparent: true }));
+      cache.getOrCreate(
+        createMaterial({ transparent: true, blending: "additive" })
+      );
+      cache.getOrCreate(createMaterial({ depthWrite: false }));
+      cache.getOrCreate(createMaterial({ depthTest: false }));
+      cache.getOrCreate(createMaterial({ transparent: true }));
+
+      expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(5);
+    });
+
+    it("should share opaque pipelines regardless of the blending mode", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+      cache.getOrCreate(createMaterial({ blending: "multiply" }));
+
+      expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("render state", () => {
+    it("should default to double-sided, ccw, unbiased pipelines writing all channels", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+
+      const descriptor = getDescriptor();
+      const targets = descriptor.fragment!.targets as GPUColorTargetState[];
+      expect(descriptor.primitive!.cullMode).toBe("none");
+      expect(descriptor.primitive!.frontFace).toBe("ccw");
+      expect(descriptor.depthStencil!.depthBias).toBe(0);
+      expect(descriptor.depthStencil!.depthBiasSlopeScale).toBe(0);
+      expect(targets[0].writeMask).toBe(0xf);
+    });
+
+    it("should cull the faces opposite to the material side", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial({ renderState: { side: "front" } }));
+      cache.getOrCreate(createMaterial({ renderState: { side: "back" } }));
+      cache.getOrCreate(createMaterial({ renderState: { side: "double" } }));
+
+      expect(getDescriptor(0).primitive!.cullMode).toBe("back");
+      expect(getDescriptor(1).primitive!.cullMode).toBe("front");
+      expect(getDescriptor(2).primitive!.cullMode).toBe("none");
+    });
+
+    it("should apply depth bias, depth compare, front face and write mask", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(
+        createMaterial({
+          renderState: {
+            frontFace: "cw",
+            depthBias: -2,
+            depthBiasSlopeScale: -1.5,
+            depthBiasClamp: 0.01,
+            depthCompare: "less-equal",
+            colorWriteMask: 0x1,
+          },
+        })
+      );
+
+      const descriptor = getDescriptor();
+      const targets = descriptor.fragment!.targets as GPUColorTargetState[];
+      expect(descriptor.primitive!.frontFace).toBe("cw");
+      expect(descriptor.depthStencil!.depthBias).toBe(-2);
+      expect(descriptor.depthStencil!.depthBiasSlopeScale).toBe(-1.5);
+      expect(descriptor.depthStencil!.depthBiasClamp).toBe(0.01);
+      expect(descriptor.depthStencil!.depthCompare).toBe("less-equal");
+      expect(targets[0].writeMask).toBe(0x1);
+    });
+
+    it("should ignore the depth compare function when depth testing is disabled", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(
+        createMaterial({
+          depthTest: false,
+          renderState: { depthCompare: "greater" },
+        })
+      );
+
+      expect(getDescriptor().depthStencil!.depthCompare).toBe("always");
+    });
+
+    it("should drop depth bias for line topologies", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(
+        createMaterial({
+          getPrimitiveTopology: () => "line-list",
+          renderState: { depthBias: -4, depthBiasSlopeScale: -1 },
+        })
+      );
+
+      expect(getDescriptor().depthStencil!.depthBias).toBe(0);
+      expect(getDescriptor().depthStencil!.depthBiasSlopeScale).toBe(0);
+    });
+
+    it("should key pipelines by render state", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+      cache.getOrCreate(createMaterial({ renderState: { side: "front" } }));
+      cache.getOrCreate(createMaterial({ renderState: { frontFace: "cw" } }));
+      cache.getOrCreate(createMaterial({ renderState: { depthBias: -1 } }));
+      cache.getOrCreate(
+        createMaterial({ renderState: { depthBiasSlopeScale: -1 } })
+      );
+      cache.getOrCreate(
+        createMaterial({ renderState: { depthCompare: "equal" } })
+      );
+      cache.getOrCreate(createMaterial({ renderState: { colorWriteMask: 0 } }));
+      // Explicit defaults share the default pipeline
+      cache.getOrCreate(
+        createMaterial({ renderState: { side: "double", depthBias: 0 } })
+      );
+
+      expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(7);
+    });
+  });
+
+  describe("instancing", () => {
+    it("should use only the material vertex buffer by default", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+
+      const buffers = getDescriptor().vertex.buffers as GPUVertexBufferLayout[];
+      expect(buffers).toHaveLength(1);
+      expect(buffers[0].arrayStride).toBe(32);
+    });
+
+    it("should append the instance buffer layout for instancing materials", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial({ supportsInstancing: true }));
+
+      const buffers = getDescriptor().vertex.buffers as GPUVertexBufferLayout[];
+      expect(buffers).toHaveLength(2);
+      expect(buffers[INSTANCE_BUFFER_SLOT]).toBe(INSTANCE_BUFFER_LAYOUT);
+    });
+  });
+
+  describe("render targets", () => {
+    it("should match the canvas formats by default", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+
+      cache.getOrCreate(createMaterial());
+
+      const descriptor = getDescriptor();
+      expect(descriptor.fragment!.targets).toMatchObject([
+        { format: "bgra8unorm" },
+      ]);
+      expect(descriptor.depthStencil!.format).toBe("depth24plus");
+      expect(descriptor.multisample!.count).toBe(4);
+    });
+
+    it("should create separate pipelines matching a target's formats", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+      const material = createMaterial();
+      const target = {
+        format: "rgba16float" as GPUTextureFormat,
+        depthFormat: null,
+        sampleCount: 1,
+      };
+
+      cache.getOrCreate(material);
+      cache.getOrCreate(material, target);
+      cache.getOrCreate(material, target);
+
+      expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(2);
+      const descriptor = getDescriptor(1);
+      expect(descriptor.fragment!.targets).toMatchObject([
+        { format: "rgba16float" },
+      ]);
+      expect(descriptor.depthStencil).toBeUndefined();
+      expect(descriptor.multisample!.count).toBe(1);
+    });
+
+    it("should draw the canvas with the new sample count after setSampleCount", () => {
+      const cache = new PipelineCache({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+      });
+      const material = createMaterial();
+
+      const multisampled = cache.getOrCreate(material);
+      cache.setSampleCount(1);
+      cache.getOrCreate(material);
+
+      expect(mockDevice.createRenderPipeline).toHaveBeenCalledTimes(2);
+      expect(getDescriptor(1).multisample!.count).toBe(1);
+
+      cache.setSampleCount(4);
+      expect(cache.getOrCreate(material)).toBe(multisampled);
+    });
+  });
+
   describe("clear", () => {
     it("should clear all cached pipelines", () => {
       const cache = new PipelineCache({
@@ -1,7 +1,62 @@
-import type { Material } from "../material/Material";
+import type {
+  BlendingMode,
+  Material,
+  MaterialSide,
+} from "../material/Material";
+import { INSTANCE_BUFFER_LAYOUT } from "./InstanceBuffer";
+
+/**
+ * Blend states for transparent materials, keyed by blending mode.
+ */
+const BLEND_STATES: Record<BlendingMode, GPUBlendState> = {
+  normal: {
+    color: { srcFactor: "src-alpha", dstFactor: "one-minus-src-alpha" },
+    alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+  },
+  additive: {
+    color: { srcFactor: "src-alpha", dstFactor: "one" },
+    alpha: { srcFactor: "zero", dstFactor: "one" },
+  },
+  multiply: {
+    color: { srcFactor: "zero", dstFactor: "src" },
+    alpha: { srcFactor: "zero", dstFactor: "one" },
+  },
+  premultiplied: {
+    color: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+    alpha: { srcFactor: "one", dstFactor: "one-minus-src-alpha" },
+  },
+};
+
+/**
+ * Triangle faces culled for each material side.
+ */
+const CULL_MODES: Record<MaterialSide, GPUCullMode> = {
+  front: "back",
+  back: "front",
+  double: "none",
+};
+
+/** Equivalent to GPUColorWrite.ALL, which is not defined outside the browser. */
+const COLOR_WRITE_ALL = 0xf;
+
+/**
+ * Attachment formats of a render target, which pipelines drawing into it must match.
+ */
+export interface RenderTargetFormats {
+  /** Color attachment format */
+  readonly format: GPUTextureFormat;
+  /** Depth attachment format, or null if the target has no depth buffer */
+  readonly depthFormat: GPUTextureFormat | null;
+  /** MSAA sample count */
+  readonly sampleCount: number;
+}
 
 /**
  * Caches render pipelines for materials to avoid rebuilding pipelines every frame.
+ * Pipelines are keyed by material type, topology, blend/depth state, and render state
+ * (culling, depth bias, depth compare, color write mask), so materials of one type
+ * with different settings get separate pipelines. Pipelines for render targets with
+ * other attachment formats than the canvas are keyed by those formats too.
  *
  * @example
  * ```ts
@@ -11,16 +66,15 @@ import type { Material } from "../material/Material";
  */
 export class PipelineCache {
   private _device: GPUDevice;
-  private _format: GPUTextureFormat;
-  private _sampleCount: number;
+  private _canvasFormats: RenderTargetFormats;
   private _pipelineCache: Map<string, GPURenderPipeline> = new Map();
 
   /**
    * Creates a new PipelineCache.
    * @param options - Construction options
    * @param options.device - The WebGPU device used to create pipelines
-   * @param options.format - The color attachment format for pipeline targets
-   * @param options.sampleCount - The MSAA sample count used by pipelines
+   * @param options.format - The color attachment format canvas frames are drawn into
+   * @param options.sampleCount - The MSAA sample count of the canvas
    */
   constructor(options: {
     device: GPUDevice;
@@ -28,18 +82,63 @@ export class PipelineCache {
     sampleCount: number;
   }) {
     this._device = options.device;
-    this._format = options.format;
-    this._sampleCount = options.sampleCount;
+    this._canvasFormats = {
+      format: options.format,
+      depthFormat: "depth24plus",
+      sampleCount: options.sampleCount,
+    };
   }
 
   /**
    * Returns a cached pipeline for the material, creating one if needed.
-   * @param material - Material providing shaders, vertex layout, and topology
+   * @param material - Material providing shaders, vertex layout, topology, and blend/depth/render state
+   * @param target - Attachment formats to render into (default: the canvas)
    * @returns A GPURenderPipeline configured for the given material
    */
-  getOrCreate(material: Material): GPURenderPipeline {
+  getOrCreate(
+    material: Material,
+    target: RenderTargetFormats = this._canvasFormats
+  ): GPURenderPipeline {
     const topology = material.getPrimitiveTopology();
-    const key = `${material.type}_${topology}`;
+    const blending = material.transparent
+      ? (material.blending ?? "normal")
+      : "opaque";
+    const depthWrite = material.depthWrite ?? true;
+    const depthTest = material.depthTest ?? true;
+    const renderState = material.renderState ?? {};
+    const cullMode = CULL_MODES[renderState.side ?? "double"];
+    const frontFace = renderState.frontFace ?? "ccw";
+    const depthCompare = depthTest
+      ? (renderState.depthCompare ?? "less")
+      : "always";
+    const writeMask = renderState.colorWriteMask ?? COLOR_WRITE_ALL;
+
+    // WebGPU rejects a non-zero depth bias for point and line topologies
+    const isTriangles =
+      topology === "triangle-list" || topology === "triangle-strip";
+    const depthBias = isTriangles ? (renderState.depthBias ?? 0) : 0;
+    const depthBiasSlopeScale = isTriangles
+      ? (renderState.depthBiasSlopeScale ?? 0)
+      : 0;
+    const depthBiasClamp = isTriangles ? (renderState.depthBiasClamp ?? 0) : 0;
+
+    // e.g. "pbr_triangle-list_opaque_true_less_none_ccw_0_0_0_15_bgra8unorm_depth24plus_4"
+    const key = [
+      material.type,
+      topology,
+      blending,
+      depthWrite,
+      depthCompare,
+      cullMode,
+      frontFace,
+      depthBias,
+      depthBiasSlopeScale,
+      depthBiasClamp,
+      writeMask,
+      target.format,
+      target.depthFormat,
+      target.sampleCount,
+    ].join("_");
 
     const cached = this._pipelineCache.get(key);
     if (cached) return cached;
@@ -55,6 +154,15 @@ export class PipelineCache {
     });
 
     const vertexBufferLayout = material.getVertexBufferLayout();
+    const buffers: GPUVertexBufferLayout[] = [
+      {
+        arrayStride: vertexBufferLayout.arrayStride,
+        attributes: vertexBufferLayout.attributes,
+      },
+    ];
+    if (material.supportsInstancing) {
+      buffers.push(INSTANCE_BUFFER_LAYOUT);
+    }
 
     const pipeline = this._device.createRenderPipeline({
       label: `${material.type} Pipeline`,
@@ -62,28 +170,36 @@ export class PipelineCache {
       vertex: {
         module: vertexShaderModule,
         entryPoint: "main",
-        buffers: [
-          {
-            arrayStride: vertexBufferLayout.arrayStride,
-            attributes: vertexBufferLayout.attributes,
-          },
-        ],
+        buffers,
       },
       fragment: {
         module: fragmentShaderModule,
         entryPoint: "main",
-        targets: [{ format: this._format }],
+        targets: [
+          {
+            format: target.format,
+            blend: blending === "opaque" ? undefined : BLEND_STATES[blending],
+            writeMask,
+          },
+        ],
       },
       primitive: {
         topology,
+        cullMode,
+        frontFace,
       },
-      depthStencil: {
-        depthWriteEnabled: true,
-        depthCompare: "less",
-        format: "depth24plus",
-      },
+      depthStencil: target.depthFormat
+        ? {
+            depthWriteEnabled: depthWrite,
+            depthCompare,
+            depthBias,
+            depthBiasSlopeScale,
+            depthBiasClamp,
+            format: target.depthFormat,
+          }
+        : undefined,
       multisample: {
-        count: this._sampleCount,
+        count: target.sampleCount,
       },
     });
 
@@ -91,6 +207,15 @@ export class PipelineCache {
     return pipeline;
   }
 
+  /**
+   * Changes the MSAA sample count of canvas pipelines. Pipelines are keyed by
+   * sample count, so those created for the previous count stay cached.
+   * @param sampleCount - The new MSAA sample count of the canvas
+   */
+  setSampleCount(sampleCount: number): void {
+    this._canvasFormats = { ...this._canvasFormats, sampleCount };
+  }
+
   /**
    * Clears all cached pipelines.
    */
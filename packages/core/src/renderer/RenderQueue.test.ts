@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import { Vector3 } from "@web-real/math";
+import { buildRenderQueue } from "./RenderQueue";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BasicMaterial } from "../material/BasicMaterial";
+import { Mesh } from "../scene/Mesh";
+
+describe("buildRenderQueue", () => {
+  function createMesh(z: number, transparent = false): Mesh {
+    const mesh = new Mesh(new BoxGeometry(), new BasicMaterial({}));
+    mesh.material.transparent = transparent;
+    mesh.position.set(0, 0, z);
+    mesh.updateWorldMatrix(false, false);
+    return mesh;
+  }
+
+  function createCamera(): PerspectiveCamera {
+    // Camera at the origin looking down -Z
+    const camera = new PerspectiveCamera();
+    camera.lookAt(new Vector3(0, 0, -1));
+    camera.updateWorldMatrix(false, false);
+    return camera;
+  }
+
+  it("should split meshes by material transparency", () => {
+    // Arrange
+    const opaque = createMesh(-5);
+    const transparent = createMesh(-5, true);
+
+    // Act
+    const queue = buildRenderQueue([transparent, opaque], createCamera());
+
+    // Assert
+    expect(queue.opaque).toEqual([opaque]);
+    expect(queue.transparent).toEqual([transparent]);
+  });
+
+  it("should sort opaque meshes front-to-back", () => {
+    // Arrange
+    const far = createMesh(-20);
+    const near = createMesh(-2);
+    const middle = createMesh(-8);
+
+    // Act
+    const queue = buildRenderQueue([far, near, middle], createCamera());
+
+    // Assert
+    expect(queue.opaque).toEqual([near, middle, far]);
+  });
+
+  it("should sort transparent meshes back-to-front", () => {
+    // Arrange
+    const far = createMesh(-20, true);
+    const near = createMesh(-2, true);
+    const middle = createMesh(-8, true);
+
+    // Act
+    const queue = buildRenderQueue([near, far, middle], createCamera());
+
+    // Assert
+    expect(queue.transparent).toEqual([far, middle, near]);
+  });
+
+  it("should measure depth along the camera view direction", () => {
+    // Arrange - camera looking down +X
+    const camera = createCamera();
+    camera.lookAt(new Vector3(1, 0, 0));
+    const ahead = createMesh(0, true);
+    ahead.position.set(10, 0, 0);
+    ahead.updateWorldMatrix(false, false);
+    const beside = createMesh(-30, true);
+
+    // Act
+    const queue = buildRenderQueue([ahead, beside], camera);
+
+    // Assert - the mesh beside the camera is at depth 0, in front of the one 10 units ahead
+    expect(queue.transparent).toEqual([ahead, beside]);
+  });
+
+  it("should keep scene order for meshes at equal depth", () => {
+    // Arrange
+    const first = createMesh(-5);
+    const second = createMesh(-5);
+
+    // Act
+    const queue = buildRenderQueue([first, second], createCamera());
+
+    // Assert
+    expect(queue.opaque[0]).toBe(first);
+    expect(queue.opaque[1]).toBe(second);
+  });
+});
@@ -0,0 +1,55 @@
+import { Vector3 } from "@web-real/math";
+import type { Matrix4 } from "@web-real/math";
+import type { Camera } from "../camera/Camera";
+import type { Mesh } from "../scene/Mesh";
+
+/**
+ * Meshes split by material transparency, in draw order.
+ */
+export interface RenderQueue {
+  /** Opaque meshes sorted front-to-back to reduce overdraw */
+  opaque: Mesh[];
+  /** Transparent meshes sorted back-to-front for correct blending */
+  transparent: Mesh[];
+}
+
+/**
+ * Splits meshes into opaque and transparent queues and sorts each by view depth.
+ * Depth is measured at the center of each mesh's bounding box; meshes at equal
+ * depth keep their scene order.
+ * @param meshes - Visible meshes in scene order
+ * @param camera - Camera whose view direction defines depth
+ * @returns Opaque meshes front-to-back and transparent meshes back-to-front
+ */
+export function buildRenderQueue(meshes: Mesh[], camera: Camera): RenderQueue {
+  const viewMatrix = camera.viewMatrix;
+  const opaque: { mesh: Mesh; depth: number }[] = [];
+  const transparent: { mesh: Mesh; depth: number }[] = [];
+
+  for (const mesh of meshes) {
+    const entry = { mesh, depth: getViewDepth(mesh, viewMatrix) };
+    if (mesh.material.transparent) {
+      transparent.push(entry);
+    } else {
+      opaque.push(entry);
+    }
+  }
+
+  opaque.sort((a, b) => a.depth - b.depth);
+  transparent.sort((a, b) => b.depth - a.depth);
+
+  return {
+    opaque: opaque.map((entry) => entry.mesh),
+    transparent: transparent.map((entry) => entry.mesh),
+  };
+}
+
+/**
+ * Returns the distance in front of the camera of a mesh's bounding box center.
+ */
+function getViewDepth(mesh: Mesh, viewMatrix: Matrix4): number {
+  const box = mesh.boundingBox;
+  const center = box.isEmpty() ? new Vector3() : box.getCenter();
+  const worldCenter = mesh.worldMatrix.transformPoint(center);
+  return -viewMatrix.transformPoint(worldCenter).z;
+}
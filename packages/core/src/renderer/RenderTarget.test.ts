@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Color } from "@web-real/math";
+import { RenderTarget } from "./RenderTarget";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+describe("RenderTarget", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+
+  beforeEach(() => {
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+        descriptor,
+        view: {} as GPUTextureView,
+        createView() {
+          return this.view;
+        },
+        destroy: mock(() => {}),
+      })),
+      createSampler: mock((descriptor: GPUSamplerDescriptor) => descriptor),
+    } as unknown as GPUDevice;
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => ({}) as GPURenderPassEncoder),
+    } as unknown as GPUCommandEncoder;
+  });
+
+  function getTextureDescriptors(): GPUTextureDescriptor[] {
+    return (mockDevice.createTexture as any).mock.calls.map(
+      (call: any[]) => call[0]
+    );
+  }
+
+  function beginPass(target: RenderTarget): GPURenderPassDescriptor {
+    target.beginRenderPass({
+      commandEncoder: mockCommandEncoder,
+      clearColor: new Color(0.1, 0.2, 0.3, 1),
+    });
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls[0][0];
+  }
+
+  describe("constructor", () => {
+    it("should create a sampleable color texture and a depth texture by default", () => {
+      const target = new RenderTarget(mockDevice, { width: 256, height: 128 });
+
+      const [color, depth] = getTextureDescriptors();
+      expect(getTextureDescriptors()).toHaveLength(2);
+      expect(color.size).toEqual([256, 128]);
+      expect(color.format).toBe("rgba8unorm");
+      expect(color.usage & GPUTextureUsage.TEXTURE_BINDING).toBeTruthy();
+      expect(depth.format).toBe("depth24plus");
+      expect(target.depthFormat).toBe("depth24plus");
+      expect(target.texture.width).toBe(256);
+      expect(target.texture.gpuTexture).toBe(
+        (mockDevice.createTexture as any).mock.results[0].value
+      );
+    });
+
+    it("should skip the depth texture when depth is disabled", () => {
+      const target = new RenderTarget(mockDevice, {
+        width: 64,
+        height: 64,
+        format: "rgba16float",
+        depth: false,
+      });
+
+      expect(getTextureDescriptors()).toHaveLength(1);
+      expect(target.depthFormat).toBeNull();
+      expect(target.depthTexture).toBeUndefined();
+      expect(target.texture.format).toBe("rgba16float");
+    });
+
+    it("should clamp the sampler to the edge and merge sampler options", () => {
+      const target = new RenderTarget(mockDevice, {
+        width: 64,
+        height: 64,
+        sampler: { magFilter: "nearest" },
+      });
+
+      expect(target.texture.gpuSampler).toMatchObject({
+        magFilter: "nearest",
+        minFilter: "linear",
+        addressModeU: "clamp-to-edge",
+      });
+    });
+
+    it("should throw on an invalid size or sample count", () => {
+      expect(
+        () => new RenderTarget(mockDevice, { width: 0, height: 64 })
+      ).toThrow("RenderTarget size must be positive integers (got 0x64)");
+      expect(
+        () =>
+          new RenderTarget(mockDevice, {
+            width: 64,
+            height: 64,
+            sampleCount: 2,
+          })
+      ).toThrow("RenderTarget sampleCount must be 1 or 4 (got 2)");
+    });
+  });
+
+  describe("beginRenderPass", () => {
+    it("should draw directly into the color texture without MSAA", () => {
+      const target = new RenderTarget(mockDevice, { width: 64, height: 64 });
+
+      const descriptor = beginPass(target);
+
+      const [attachment] =
+        descriptor.colorAttachments as GPURenderPassColorAttachment[];
+      expect(attachment.view).toBe(target.texture.gpuTexture.createView());
+      expect(attachment.resolveTarget).toBeUndefined();
+      expect(attachment.clearValue).toEqual({ r: 0.1, g: 0.2, b: 0.3, a: 1 });
+      expect(descriptor.depthStencilAttachment!.depthClearValue).toBe(1.0);
+    });
+
+    it("should resolve a multisampled attachment into the color texture", () => {
+      const target = new RenderTarget(mockDevice, {
+        width: 64,
+        height: 64,
+        sampleCount: 4,
+        depth: false,
+      });
+
+      const descriptor = beginPass(target);
+
+      const [, msaa] = (mockDevice.createTexture as any).mock.results.map(
+        (result: any) => result.value
+      );
+      expect(msaa.descriptor.sampleCount).toBe(4);
+      const [attachment] =
+        descriptor.colorAttachments as GPURenderPassColorAttachment[];
+      expect(attachment.view).toBe(msaa.view);
+      expect(attachment.resolveTarget).toBe(
+        target.texture.gpuTexture.createView()
+      );
+      expect(descriptor.depthStencilAttachment).toBeUndefined();
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy every texture", () => {
+      const target = new RenderTarget(mockDevice, {
+        width: 64,
+        height: 64,
+        sampleCount: 4,
+      });
+
+      target.dispose();
+
+      for (const result of (mockDevice.createTexture as any).mock.results) {
+        expect(result.value.destroy).toHaveBeenCalledTimes(1);
+      }
+    });
+  });
+});
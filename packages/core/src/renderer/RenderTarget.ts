@@ -0,0 +1,219 @@
+import type { Color } from "@web-real/math";
+import { Texture } from "../texture/Texture";
+import type { RenderTargetFormats } from "./PipelineCache";
+
+/**
+ * Configuration options for a RenderTarget.
+ */
+export interface RenderTargetOptions {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Color format (default: 'rgba8unorm') */
+  format?: GPUTextureFormat;
+  /** Whether to create a depth buffer for depth testing (default: true) */
+  depth?: boolean;
+  /** MSAA sample count, 1 or 4; multisampled color is resolved into the texture (default: 1) */
+  sampleCount?: number;
+  /** Sampler options of the color texture, merged over linear filtering with clamp-to-edge addressing */
+  sampler?: Partial<GPUSamplerDescriptor>;
+  /** Optional label for debugging */
+  label?: string;
+}
+
+/**
+ * An offscreen color (and optional depth) buffer that Renderer.render() can draw
+ * into instead of the canvas. Its color attachment is a regular Texture, so it can
+ * be shown by any material, e.g. for mirrors, minimaps or security-camera screens.
+ *
+ * The size is fixed; create a new RenderTarget (and assign its texture) to resize.
+ * A mesh sampling the texture must not be drawn into the same target.
+ *
+ * @example
+ * ```ts
+ * const target = new RenderTarget(device, { width: 512, height: 512 });
+ * const screen = new Mesh(
+ *   new PlaneGeometry(),
+ *   new TextureMaterial({ texture: target.texture })
+ * );
+ *
+ * renderer.render(securityScene, securityCamera, target);
+ * renderer.render(scene, camera);
+ * ```
+ */
+export class RenderTarget implements RenderTargetFormats {
+  private _width: number;
+  private _height: number;
+  private _format: GPUTextureFormat;
+  private _depthFormat: GPUTextureFormat | null;
+  private _sampleCount: number;
+
+  private _texture: Texture;
+  private _msaaTexture?: GPUTexture;
+  private _depthTexture?: GPUTexture;
+
+  /**
+   * Creates a new RenderTarget.
+   * @param device - The WebGPU device used to create textures
+   * @param options - Size, formats and sampler of the target
+   * @throws {Error} If the size is not a positive integer or sampleCount is not 1 or 4
+   */
+  constructor(device: GPUDevice, options: RenderTargetOptions) {
+    const { width, height } = options;
+    if (
+      !Number.isInteger(width) ||
+      !Number.isInteger(height) ||
+      width < 1 ||
+      height < 1
+    ) {
+      throw new Error(
+        `RenderTarget size must be positive integers (got ${width}x${height})`
+      );
+    }
+
+    const sampleCount = options.sampleCount ?? 1;
+    if (sampleCount !== 1 && sampleCount !== 4) {
+      throw new Error(
+        `RenderTarget sampleCount must be 1 or 4 (got ${sampleCount})`
+      );
+    }
+
+    const label = options.label ?? "Render Target";
+    this._width = width;
+    this._height = height;
+    this._format = options.format ?? "rgba8unorm";
+    this._depthFormat = options.depth === false ? null : "depth24plus";
+    this._sampleCount = sampleCount;
+
+    const colorTexture = device.createTexture({
+      label: `${label} Color`,
+      size: [width, height],
+      format: this._format,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_SRC,
+    });
+    const sampler = device.createSampler({
+      magFilter: "linear",
+      minFilter: "linear",
+      addressModeU: "clamp-to-edge",
+      addressModeV: "clamp-to-edge",
+      ...options.sampler,
+    });
+    this._texture = new Texture(
+      colorTexture,
+      sampler,
+      width,
+      height,
+      this._format
+    );
+
+    if (sampleCount > 1) {
+      this._msaaTexture = device.createTexture({
+        label: `${label} MSAA Color`,
+        size: [width, height],
+        format: this._format,
+        usage: GPUTextureUsage.RENDER_ATTACHMENT,
+        sampleCount,
+      });
+    }
+
+    if (this._depthFormat) {
+      this._depthTexture = device.createTexture({
+        label: `${label} Depth`,
+        size: [width, height],
+        format: this._depthFormat,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+        sampleCount,
+      });
+    }
+  }
+
+  get width(): number {
+    return this._width;
+  }
+
+  get height(): number {
+    return this._height;
+  }
+
+  get format(): GPUTextureFormat {
+    return this._format;
+  }
+
+  /**
+   * Format of the depth buffer, or null if the target has none.
+   */
+  get depthFormat(): GPUTextureFormat | null {
+    return this._depthFormat;
+  }
+
+  get sampleCount(): number {
+    return this._sampleCount;
+  }
+
+  /**
+   * The (resolved) color attachment, usable as a texture in materials.
+   */
+  get texture(): Texture {
+    return this._texture;
+  }
+
+  /**
+   * The depth attachment, multisampled like the color attachment, or undefined without depth.
+   */
+  get depthTexture(): GPUTexture | undefined {
+    return this._depthTexture;
+  }
+
+  /**
+   * Begins a render pass that clears and draws into this target.
+   * @param options - Render pass options
+   * @param options.commandEncoder - Command encoder used to begin the pass
+   * @param options.clearColor - Clear color used for the color attachment
+   * @returns The created render pass encoder
+   */
+  beginRenderPass(options: {
+    commandEncoder: GPUCommandEncoder;
+    clearColor: Color;
+  }): { passEncoder: GPURenderPassEncoder } {
+    const textureView = this._texture.gpuTexture.createView();
+    const { r, g, b, a } = options.clearColor;
+
+    const renderPassDescriptor: GPURenderPassDescriptor = {
+      label: "Render Target Pass",
+      colorAttachments: [
+        {
+          view: this._msaaTexture?.createView() ?? textureView,
+          resolveTarget: this._msaaTexture ? textureView : undefined,
+          clearValue: { r, g, b, a },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+      depthStencilAttachment: this._depthTexture && {
+        view: this._depthTexture.createView(),
+        depthClearValue: 1.0,
+        depthLoadOp: "clear",
+        depthStoreOp: "store",
+      },
+    };
+
+    const passEncoder =
+      options.commandEncoder.beginRenderPass(renderPassDescriptor);
+
+    return { passEncoder };
+  }
+
+  /**
+   * Destroys the color, MSAA and depth textures.
+   */
+  dispose(): void {
+    this._texture.destroy();
+    this._msaaTexture?.destroy();
+    this._depthTexture?.destroy();
+  }
+}
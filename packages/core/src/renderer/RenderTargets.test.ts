@@ -1,36 +1,53 @@
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
-import { RenderTargets } from "./RenderTargets";
+import { HDR_FORMAT, RenderTargets } from "./RenderTargets";
 import { Color } from "@web-real/math";
 
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
 describe("RenderTargets", () => {
   let mockDevice: GPUDevice;
   let mockContext: GPUCanvasContext;
   let mockCanvas: HTMLCanvasElement;
   let mockTexture: GPUTexture;
+  let mockSwapchainView: GPUTextureView;
   let mockCommandEncoder: GPUCommandEncoder;
   let mockPassEncoder: GPURenderPassEncoder;
   let originalResizeObserver: any;
+  let resizeCallback: () => void;
 
   beforeEach(() => {
     // Mock ResizeObserver for test environment
     originalResizeObserver = globalThis.ResizeObserver;
     globalThis.ResizeObserver = class {
+      constructor(callback: () => void) {
+        resizeCallback = callback;
+      }
       observe = mock(() => {});
       disconnect = mock(() => {});
       unobserve = mock(() => {});
     } as any;
     mockTexture = {
       destroy: mock(() => {}),
-      createView: mock(() => ({} as GPUTextureView)),
+      createView: mock(() => ({}) as GPUTextureView),
     } as unknown as GPUTexture;
 
     mockDevice = {
       createTexture: mock(() => mockTexture),
+      createSampler: mock(() => ({}) as GPUSampler),
     } as unknown as GPUDevice;
 
+    mockSwapchainView = {} as GPUTextureView;
     mockContext = {
       getCurrentTexture: mock(() => ({
-        createView: () => ({} as GPUTextureView),
+        createView: () => mockSwapchainView,
       })),
     } as unknown as GPUCanvasContext;
 
@@ -48,98 +65,116 @@ describe("RenderTargets", () => {
     } as HTMLCanvasElement;
   });
 
+  function createTargets(sampleCount = 4): RenderTargets {
+    return new RenderTargets({
+      device: mockDevice,
+      context: mockContext,
+      canvas: mockCanvas,
+      sampleCount,
+    });
+  }
+
   describe("constructor", () => {
-    it("should create depth and MSAA textures on initialization", () => {
-      new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+    it("should create HDR color, MSAA and depth textures on initialization", () => {
+      createTargets();
 
-      // Should create depth texture + MSAA texture
-      expect(mockDevice.createTexture).toHaveBeenCalledTimes(2);
+      // Should create resolved color texture + MSAA texture + depth texture
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(3);
     });
 
     it("should create textures with correct sample count", () => {
-      new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 8,
-      });
+      createTargets(4);
 
       const calls = (mockDevice.createTexture as any).mock.calls;
-      // Both depth and MSAA should have sampleCount: 8
-      expect(calls[0][0].sampleCount).toBe(8);
-      expect(calls[1][0].sampleCount).toBe(8);
+      const [color, msaa, depth] = calls.map((call: any) => call[0]);
+      expect(color.sampleCount).toBeUndefined();
+      expect(msaa.sampleCount).toBe(4);
+      expect(depth.sampleCount).toBe(4);
+    });
+
+    it("should skip the MSAA texture with a sample count of 1", () => {
+      const targets = createTargets(1);
+
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(2);
+      expect(targets.target.sampleCount).toBe(1);
     });
 
     it("should create depth texture with depth24plus format", () => {
-      new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+      createTargets();
 
       const calls = (mockDevice.createTexture as any).mock.calls;
       const depthCall = calls.find(
         (call: any) => call[0].format === "depth24plus"
       );
       expect(depthCall).toBeDefined();
-      expect(depthCall[0].usage).toBe(GPUTextureUsage.RENDER_ATTACHMENT);
     });
 
-    it("should create MSAA texture with specified format", () => {
-      new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "rgba8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+    it("should create color textures in the HDR format", () => {
+      const targets = createTargets();
 
       const calls = (mockDevice.createTexture as any).mock.calls;
-      const msaaCall = calls.find(
-        (call: any) => call[0].format === "rgba8unorm"
+      const colorCalls = calls.filter(
+        (call: any) => call[0].format === HDR_FORMAT
       );
-      expect(msaaCall).toBeDefined();
+      expect(HDR_FORMAT).toBe("rgba16float");
+      expect(colorCalls).toHaveLength(2);
+      expect(targets.target.format).toBe(HDR_FORMAT);
     });
 
     it("should create textures matching canvas dimensions", () => {
-      const customCanvas = {
+      mockCanvas = {
         width: 1920,
         height: 1080,
       } as HTMLCanvasElement;
 
-      new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: customCanvas,
-        sampleCount: 4,
-      });
+      createTargets();
 
       const calls = (mockDevice.createTexture as any).mock.calls;
       calls.forEach((call: any) => {
         expect(call[0].size).toEqual([1920, 1080]);
       });
     });
+
+    it("should recreate the target when the canvas is resized", () => {
+      const targets = createTargets();
+      const oldTarget = targets.target;
+
+      mockCanvas.width = 400;
+      resizeCallback();
+
+      expect(targets.target).not.toBe(oldTarget);
+      expect(targets.target.width).toBe(400);
+      expect(mockTexture.destroy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("setSampleCount", () => {
+    it("should recreate the target with the new sample count", () => {
+      const targets = createTargets(4);
+      const oldTarget = targets.target;
+
+      targets.setSampleCount(1);
+
+      expect(targets.target).not.toBe(oldTarget);
+      expect(targets.target.sampleCount).toBe(1);
+      expect(mockTexture.destroy).toHaveBeenCalledTimes(3);
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(5);
+    });
+
+    it("should keep the target when the sample count is unchanged", () => {
+      const targets = createTargets(4);
+      const oldTarget = targets.target;
+
+      targets.setSampleCount(4);
+
+      expect(targets.target).toBe(oldTarget);
+      expect(mockDevice.createTexture).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe("beginRenderPass", () => {
     it("should create a render pass with correct attachments", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+      const targets = createTargets();
 
       const clearColor = new Color(0.2, 0.3, 0.4, 1.0);
       const { passEncoder } = targets.beginRenderPass({
@@ -152,13 +187,7 @@ describe("RenderTargets", () => {
     });
 
     it("should use correct clear color values", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+      const targets = createTargets();
 
       const clearColor = new Color(0.1, 0.2, 0.3, 0.5);
       targets.beginRenderPass({
@@ -177,13 +206,7 @@ describe("RenderTargets", () => {
     });
 
     it("should configure depth attachment with clear value of 1.0", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+      const targets = createTargets();
 
       targets.beginRenderPass({
         commandEncoder: mockCommandEncoder,
@@ -199,48 +222,38 @@ describe("RenderTargets", () => {
       expect(depthAttachment.depthStoreOp).toBe("store");
     });
 
-    it("should use current swapchain texture as resolve target", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+    it("should draw into the HDR target instead of the swapchain", () => {
+      const targets = createTargets();
 
       targets.beginRenderPass({
         commandEncoder: mockCommandEncoder,
         clearColor: new Color(0, 0, 0, 1),
       });
 
+      expect(mockContext.getCurrentTexture).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCurrentTextureView", () => {
+    it("should return a view of the current swapchain texture", () => {
+      const targets = createTargets();
+
+      expect(targets.getCurrentTextureView()).toBe(mockSwapchainView);
       expect(mockContext.getCurrentTexture).toHaveBeenCalledTimes(1);
     });
   });
 
   describe("dispose", () => {
-    it("should destroy depth and MSAA textures", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+    it("should destroy color, MSAA and depth textures", () => {
+      const targets = createTargets();
 
       targets.dispose();
 
-      // Should destroy both textures (depth + MSAA)
-      expect(mockTexture.destroy).toHaveBeenCalledTimes(2);
+      expect(mockTexture.destroy).toHaveBeenCalledTimes(3);
     });
 
     it("should handle multiple dispose calls safely", () => {
-      const targets = new RenderTargets({
-        device: mockDevice,
-        context: mockContext,
-        format: "bgra8unorm",
-        canvas: mockCanvas,
-        sampleCount: 4,
-      });
+      const targets = createTargets();
 
       targets.dispose();
       targets.dispose();
@@ -1,25 +1,31 @@
 import type { Color } from "@web-real/math";
+import { RenderTarget } from "./RenderTarget";
 
 /**
- * Manages the canvas color/depth render targets, including MSAA and resize handling.
+ * Color format of HDR scene targets, tone mapped into the swapchain.
+ */
+export const HDR_FORMAT: GPUTextureFormat = "rgba16float";
+
+/**
+ * Manages the canvas-sized HDR target the scene is drawn into, including MSAA and
+ * resize handling, and the swapchain it is tone mapped into.
  *
  * @example
  * ```ts
- * const targets = new RenderTargets({ device, context, format, canvas, sampleCount: 4 });
+ * const targets = new RenderTargets({ device, context, canvas, sampleCount: 4 });
  * const { passEncoder } = targets.beginRenderPass({ commandEncoder, clearColor });
  * passEncoder.end();
+ * // Tone map targets.target.texture into targets.getCurrentTextureView()
  * targets.dispose();
  * ```
  */
 export class RenderTargets {
   private _device: GPUDevice;
   private _context: GPUCanvasContext;
-  private _format: GPUTextureFormat;
   private _canvas: HTMLCanvasElement;
   private _sampleCount: number;
 
-  private _depthTexture!: GPUTexture;
-  private _msaaTexture!: GPUTexture;
+  private _target!: RenderTarget;
   private _resizeObserver: ResizeObserver;
 
   /**
@@ -27,36 +33,48 @@ export class RenderTargets {
    * @param options - Construction options
    * @param options.device - The WebGPU device used to create textures
    * @param options.context - The canvas context used to acquire the current swapchain texture
-   * @param options.format - The swapchain color format
    * @param options.canvas - The target canvas whose size drives texture sizes
-   * @param options.sampleCount - The MSAA sample count for the color/depth targets
+   * @param options.sampleCount - The MSAA sample count for the color/depth targets, 1 or 4
    */
   constructor(options: {
     device: GPUDevice;
     context: GPUCanvasContext;
-    format: GPUTextureFormat;
     canvas: HTMLCanvasElement;
     sampleCount: number;
   }) {
     this._device = options.device;
     this._context = options.context;
-    this._format = options.format;
     this._canvas = options.canvas;
     this._sampleCount = options.sampleCount;
 
-    this._createDepthTexture();
-    this._createMSAATexture();
+    this._createTarget();
 
     this._resizeObserver = new ResizeObserver(() => {
-      this._createDepthTexture();
-      this._createMSAATexture();
+      this._createTarget();
     });
 
     this._resizeObserver.observe(this._canvas);
   }
 
   /**
-   * Begins a render pass targeting the current swapchain texture.
+   * The HDR color and depth target of the canvas; replaced on resize.
+   */
+  get target(): RenderTarget {
+    return this._target;
+  }
+
+  /**
+   * Recreates the HDR target with a new MSAA sample count.
+   * @param sampleCount - The new MSAA sample count, 1 or 4
+   */
+  setSampleCount(sampleCount: number): void {
+    if (sampleCount === this._sampleCount) return;
+    this._sampleCount = sampleCount;
+    this._createTarget();
+  }
+
+  /**
+   * Begins a render pass targeting the HDR target.
    * @param options - Render pass options
    * @param options.commandEncoder - Command encoder used to begin the pass
    * @param options.clearColor - Clear color used for the color attachment
@@ -66,36 +84,14 @@ export class RenderTargets {
     commandEncoder: GPUCommandEncoder;
     clearColor: Color;
   }): { passEncoder: GPURenderPassEncoder } {
-    const currentTexture = this._context.getCurrentTexture();
-    const textureView = currentTexture.createView();
-
-    const renderPassDescriptor: GPURenderPassDescriptor = {
-      colorAttachments: [
-        {
-          view: this._msaaTexture.createView(),
-          resolveTarget: textureView,
-          clearValue: {
-            r: options.clearColor.r,
-            g: options.clearColor.g,
-            b: options.clearColor.b,
-            a: options.clearColor.a,
-          },
-          loadOp: "clear",
-          storeOp: "store",
-        },
-      ],
-      depthStencilAttachment: {
-        view: this._depthTexture.createView(),
-        depthClearValue: 1.0,
-        depthLoadOp: "clear",
-        depthStoreOp: "store",
-      },
-    };
-
-    const passEncoder =
-      options.commandEncoder.beginRenderPass(renderPassDescriptor);
+    return this._target.beginRenderPass(options);
+  }
 
-    return { passEncoder };
+  /**
+   * Returns a view of the current swapchain texture.
+   */
+  getCurrentTextureView(): GPUTextureView {
+    return this._context.getCurrentTexture().createView();
   }
 
   /**
@@ -104,29 +100,18 @@ export class RenderTargets {
   dispose(): void {
     this._resizeObserver.disconnect();
 
-    this._depthTexture?.destroy();
-    this._msaaTexture?.destroy();
-  }
-
-  private _createDepthTexture(): void {
-    this._depthTexture?.destroy();
-
-    this._depthTexture = this._device.createTexture({
-      size: [this._canvas.width, this._canvas.height],
-      format: "depth24plus",
-      usage: GPUTextureUsage.RENDER_ATTACHMENT,
-      sampleCount: this._sampleCount,
-    });
+    this._target?.dispose();
   }
 
-  private _createMSAATexture(): void {
-    this._msaaTexture?.destroy();
+  private _createTarget(): void {
+    this._target?.dispose();
 
-    this._msaaTexture = this._device.createTexture({
-      size: [this._canvas.width, this._canvas.height],
-      format: this._format,
-      usage: GPUTextureUsage.RENDER_ATTACHMENT,
+    this._target = new RenderTarget(this._device, {
+      width: Math.max(1, this._canvas.width),
+      height: Math.max(1, this._canvas.height),
+      format: HDR_FORMAT,
       sampleCount: this._sampleCount,
+      label: "Canvas",
     });
   }
 }
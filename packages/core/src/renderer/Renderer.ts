@@ -3,57 +3,140 @@ import type { Engine } from "../Engine";
 import type { Camera } from "../camera/Camera";
 import { Light } from "../light/Light";
 import { Mesh } from "../scene/Mesh";
+import {
+  OutputPass,
+  type Antialiasing,
+} from "../postprocessing/OutputPass";
+import type { ToneMapping } from "../postprocessing/ToneMappingPass";
 import type { Scene } from "../scene/Scene";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import {
+  AmbientOcclusionPass,
+  type AmbientOcclusionSettings,
+} from "./AmbientOcclusionPass";
+import { ClusterPass } from "./ClusterPass";
 import { FallbackResources } from "./FallbackResources";
+import { frustumCull } from "./FrustumCulling";
+import { LightBuffer } from "./LightBuffer";
 import { MeshPass } from "./MeshPass";
 import { MeshResourceCache } from "./MeshResourceCache";
 import { PipelineCache } from "./PipelineCache";
-import { RenderTargets } from "./RenderTargets";
+import { buildRenderQueue } from "./RenderQueue";
+import type { RenderTarget } from "./RenderTarget";
+import { HDR_FORMAT, RenderTargets } from "./RenderTargets";
+import { ShadowPass } from "./ShadowPass";
 import { SkyboxPass } from "./SkyboxPass";
+import {
+  TemporalAntialiasingPass,
+  type TemporalAntialiasingSettings,
+} from "./TemporalAntialiasingPass";
 
 /**
- * Renders a scene to the engine canvas using WebGPU.
+ * Per-frame counters from the most recent Renderer.render() call.
+ */
+export interface RenderStats {
+  /** Visible meshes in the scene */
+  meshes: number;
+  /** Meshes skipped because their bounds were outside the camera frustum */
+  culled: number;
+  /** Meshes drawn in the main pass */
+  drawn: number;
+}
+
+/**
+ * Configuration options for a Renderer.
+ */
+export interface RendererOptions {
+  /** MSAA sample count of canvas frames, 1 or 4 (default: 4) */
+  sampleCount?: number;
+  /** Post-process anti-aliasing of canvas frames (default: 'none') */
+  antialiasing?: Antialiasing;
+}
+
+/**
+ * Renders a scene to the engine canvas, or to an offscreen RenderTarget, using WebGPU.
+ *
+ * Canvas frames are shaded in linear HDR (rgba16float), then tone mapped and
+ * sRGB encoded into the swapchain. Offscreen targets receive the linear colors.
+ * The clear color, Basic, Line and Blinn-Phong material colors, vertex colors and
+ * 8-bit color maps without an sRGB format are display (sRGB) values and are
+ * decoded to linear first, so they appear unchanged with linear tone mapping.
+ * Canvas edges are smoothed by MSAA, by FXAA or SMAA after tone mapping, or both.
+ * Temporal anti-aliasing additionally accumulates jittered canvas frames in HDR.
  *
  * @example
  * ```ts
- * const renderer = new Renderer(engine);
+ * // Without MSAA, e.g. on weak GPUs, with SMAA instead
+ * const renderer = new Renderer(engine, { sampleCount: 1, antialiasing: "smaa" });
  * renderer.setClearColor([0.1, 0.1, 0.1, 1]);
+ * renderer.toneMapping = "aces";
+ * renderer.exposure = 1.5;
+ * renderer.ambientOcclusion.enabled = true;
+ * renderer.temporalAntialiasing.enabled = true;
  * renderer.render(scene, camera);
+ *
+ * // Offscreen, e.g. for a minimap shown with minimap.texture
+ * renderer.render(scene, topDownCamera, minimap);
  * ```
  */
 export class Renderer {
+  /**
+   * Operator mapping HDR colors to the canvas (default: 'linear').
+   * PBR materials and the skybox no longer tone map in their own shaders, so
+   * scenes relying on their built-in Reinhard or ACES curves should set
+   * 'reinhard' or 'aces' here to keep their look.
+   */
+  public toneMapping: ToneMapping = "linear";
+  /** Multiplier applied to all scene colors before tone mapping (default: 1) */
+  public exposure: number = 1;
+  /** Post-process anti-aliasing of canvas frames, applied after tone mapping */
+  public antialiasing: Antialiasing;
+
   private engine: Engine;
   private clearColor: Color = new Color(0.1, 0.1, 0.1, 1.0);
-  private sampleCount: number = 4;
+  private _sampleCount: number;
 
   private _fallback: FallbackResources;
   private _renderTargets: RenderTargets;
   private _pipelines: PipelineCache;
   private _meshResources: MeshResourceCache;
+  private _shadowPass: ShadowPass;
+  private _clusterPass: ClusterPass;
+  private _ambientOcclusionPass: AmbientOcclusionPass;
+  private _temporalAntialiasingPass: TemporalAntialiasingPass;
+  private _lightBuffer: LightBuffer;
   private _meshPass: MeshPass;
-  private _skyboxPass?: SkyboxPass;
+  private _skyboxPasses: Map<string, SkyboxPass> = new Map();
+  private _outputPass: OutputPass = new OutputPass();
+  private _stats: RenderStats = { meshes: 0, culled: 0, drawn: 0 };
 
   /**
    * Creates a new renderer for an engine instance.
    * @param engine - Engine providing the device, canvas context, and swapchain format
+   * @param options - Anti-aliasing of canvas frames
+   * @throws {Error} If sampleCount is not 1 or 4
    */
-  constructor(engine: Engine) {
+  constructor(engine: Engine, options: RendererOptions = {}) {
+    const sampleCount = options.sampleCount ?? 4;
+    validateSampleCount(sampleCount);
+
     this.engine = engine;
+    this._sampleCount = sampleCount;
+    this.antialiasing = options.antialiasing ?? "none";
 
     this._fallback = new FallbackResources(this.device);
 
     this._renderTargets = new RenderTargets({
       device: this.device,
       context: this.context,
-      format: this.format,
       canvas: this.engine.canvas,
-      sampleCount: this.sampleCount,
+      sampleCount: this._sampleCount,
     });
 
     this._pipelines = new PipelineCache({
       device: this.device,
-      format: this.format,
-      sampleCount: this.sampleCount,
+      format: HDR_FORMAT,
+      sampleCount: this._sampleCount,
     });
 
     this._meshResources = new MeshResourceCache({
@@ -61,10 +144,37 @@ export class Renderer {
       fallback: this._fallback,
     });
 
+    this._shadowPass = new ShadowPass({
+      device: this.device,
+      meshResources: this._meshResources,
+    });
+
+    this._clusterPass = new ClusterPass({ device: this.device });
+
+    this._ambientOcclusionPass = new AmbientOcclusionPass({
+      device: this.device,
+      meshResources: this._meshResources,
+    });
+
+    this._temporalAntialiasingPass = new TemporalAntialiasingPass({
+      device: this.device,
+      meshResources: this._meshResources,
+    });
+
+    this._lightBuffer = new LightBuffer({
+      device: this.device,
+      sources: [
+        this._shadowPass,
+        this._clusterPass,
+        this._ambientOcclusionPass,
+      ],
+    });
+
     this._meshPass = new MeshPass({
       device: this.device,
       pipelines: this._pipelines,
       meshResources: this._meshResources,
+      lightBuffer: this._lightBuffer,
     });
   }
 
@@ -80,21 +190,74 @@ export class Renderer {
     return this.engine.format;
   }
 
-  private getSkyboxPass(): SkyboxPass {
-    if (!this._skyboxPass) {
-      this._skyboxPass = new SkyboxPass({
+  /**
+   * Returns the skybox pass drawing into the canvas or a render target with the same formats.
+   */
+  private getSkyboxPass(target?: RenderTarget): SkyboxPass {
+    const format = target?.format ?? HDR_FORMAT;
+    const depthFormat = target ? target.depthFormat : "depth24plus";
+    const sampleCount = target?.sampleCount ?? this._sampleCount;
+    const key = `${format}_${depthFormat}_${sampleCount}`;
+
+    let skyboxPass = this._skyboxPasses.get(key);
+    if (!skyboxPass) {
+      skyboxPass = new SkyboxPass({
         device: this.device,
-        format: this.format,
-        sampleCount: this.sampleCount,
+        format,
+        sampleCount,
+        depthFormat,
         fallback: this._fallback,
       });
+      this._skyboxPasses.set(key, skyboxPass);
     }
-    return this._skyboxPass;
+    return skyboxPass;
+  }
+
+  /**
+   * MSAA sample count of canvas frames, 1 or 4. Changing it recreates the canvas
+   * target and draws with pipelines for the new count.
+   * @throws {Error} If set to a value other than 1 or 4
+   */
+  get sampleCount(): number {
+    return this._sampleCount;
+  }
+
+  set sampleCount(value: number) {
+    validateSampleCount(value);
+    if (value === this._sampleCount) return;
+
+    this._sampleCount = value;
+    this._renderTargets.setSampleCount(value);
+    this._pipelines.setSampleCount(value);
+  }
+
+  /**
+   * Screen-space ambient occlusion applied to the ambient and IBL light of lit
+   * materials; disabled by default.
+   */
+  get ambientOcclusion(): AmbientOcclusionSettings {
+    return this._ambientOcclusionPass.settings;
+  }
+
+  /**
+   * Temporal anti-aliasing of canvas frames, which jitters the camera and blends
+   * each frame with the previous ones; disabled by default. Offscreen targets are
+   * rendered without jitter.
+   */
+  get temporalAntialiasing(): TemporalAntialiasingSettings {
+    return this._temporalAntialiasingPass.settings;
+  }
+
+  /**
+   * Counters from the most recent render() call.
+   */
+  get stats(): Readonly<RenderStats> {
+    return this._stats;
   }
 
   /**
    * Sets the clear color for the next renders.
-   * @param color - Clear color as a Color or RGB/RGBA tuple (0..1)
+   * @param color - Clear color as a Color or RGB/RGBA tuple (0..1), in sRGB
    * @returns This renderer for chaining
    */
   setClearColor(
@@ -107,43 +270,119 @@ export class Renderer {
   /**
    * Renders the scene from the given camera.
    * @param scene - Scene containing meshes, lights, and an optional skybox material
-   * @param camera - Camera defining the view and projection
+   * @param camera - Camera defining the view and projection; match its aspect to the target
+   * @param target - Offscreen target to draw into (default: the canvas)
    */
-  render(scene: Scene, camera: Camera): void {
+  render(scene: Scene, camera: Camera, target?: RenderTarget): void {
     scene.updateMatrixWorld();
     camera.updateWorldMatrix(false, false);
 
+    const width = target?.width ?? this.engine.canvas.width;
+    const height = target?.height ?? this.engine.canvas.height;
+
+    // Canvas frames are jittered for TAA; the offset is removed once the frame is recorded
+    const jittered = !target && this.temporalAntialiasing.enabled;
+    if (jittered) {
+      this._temporalAntialiasingPass.jitterCamera(camera, width, height);
+    }
+
     const meshes: Mesh[] = [];
     const lights: Light[] = [];
     scene.traverse((object) => {
       if (object instanceof Mesh && object.visible) {
         meshes.push(object);
+        // Bone world matrices are up to date after updateMatrixWorld
+        if (object instanceof SkinnedMesh) {
+          object.updateSkeleton();
+        }
       } else if (object instanceof Light) {
         lights.push(object);
       }
     });
 
+    // Only the main pass is culled: off-screen meshes can still cast shadows into view
+    const visibleMeshes = frustumCull(meshes, camera);
+    this._stats = {
+      meshes: meshes.length,
+      culled: meshes.length - visibleMeshes.length,
+      drawn: visibleMeshes.length,
+    };
+
+    // Opaque meshes front-to-back, then transparent meshes back-to-front
+    const queue = buildRenderQueue(visibleMeshes, camera);
+
     const commandEncoder = this.device.createCommandEncoder();
-    const { passEncoder } = this._renderTargets.beginRenderPass({
+
+    const shadowIndices = this._shadowPass.render({
       commandEncoder,
-      clearColor: this.clearColor,
+      lights,
+      meshes,
+      camera,
+    });
+    this._lightBuffer.update(lights, shadowIndices);
+    this._clusterPass.render({
+      commandEncoder,
+      camera,
+      lightBuffer: this._lightBuffer,
+      width,
+      height,
+    });
+    this._ambientOcclusionPass.render({
+      commandEncoder,
+      meshes: queue.opaque,
+      camera,
+      width,
+      height,
+    });
+
+    const { passEncoder } = (target ?? this._renderTargets).beginRenderPass({
+      commandEncoder,
+      clearColor: this.clearColor.toLinear(),
     });
 
     if (scene.skyboxMaterial) {
-      const skyboxPass = this.getSkyboxPass();
+      const skyboxPass = this.getSkyboxPass(target);
       skyboxPass.render(passEncoder, scene.skyboxMaterial, camera);
     }
 
     this._meshPass.render({
       passEncoder,
-      meshes,
+      meshes: [...queue.opaque, ...queue.transparent],
       lights,
       scene,
       camera,
+      target,
     });
 
     passEncoder.end();
+
+    if (!target) {
+      const resolved = this._temporalAntialiasingPass.render({
+        commandEncoder,
+        meshes: queue.opaque,
+        camera,
+        input: this._renderTargets.target.texture,
+      });
+
+      this._outputPass.toneMapping = this.toneMapping;
+      this._outputPass.exposure = this.exposure;
+      this._outputPass.antialiasing = this.antialiasing;
+      this._outputPass.render({
+        device: this.device,
+        commandEncoder,
+        input: resolved,
+        output: this._renderTargets.getCurrentTextureView(),
+        outputFormat: this.format,
+        scene: this._renderTargets.target,
+        camera,
+      });
+    }
+
     this.device.queue.submit([commandEncoder.finish()]);
+
+    if (jittered) {
+      camera.clearJitter();
+    }
   }
 
   /**
@@ -151,9 +390,16 @@ export class Renderer {
    */
   dispose(): void {
     this._renderTargets.dispose();
+    this._shadowPass.dispose();
+    this._clusterPass.dispose();
+    this._ambientOcclusionPass.dispose();
+    this._temporalAntialiasingPass.dispose();
+    this._lightBuffer.dispose();
     this._meshResources.disposeAll();
     this._pipelines.clear();
-    this._skyboxPass?.dispose();
+    this._skyboxPasses.forEach((skyboxPass) => skyboxPass.dispose());
+    this._skyboxPasses.clear();
+    this._outputPass.dispose();
     this._fallback.dispose();
   }
 
@@ -165,3 +411,11 @@ export class Renderer {
     this._meshResources.disposeMesh(mesh);
   }
 }
+
+function validateSampleCount(sampleCount: number): void {
+  if (sampleCount !== 1 && sampleCount !== 4) {
+    throw new Error(
+      `Renderer sampleCount must be 1 or 4 (got ${sampleCount})`
+    );
+  }
+}
@@ -0,0 +1,726 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import {
+  ShadowPass,
+  MAX_DIRECTIONAL_SHADOWS,
+  MAX_POINT_SHADOWS,
+} from "./ShadowPass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { DirectionalLight } from "../light/DirectionalLight";
+import { PointLight } from "../light/PointLight";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
+import { BlinnPhongMaterial } from "../material/BlinnPhongMaterial";
+import { PBRMaterial } from "../material/PBRMaterial";
+import { Mesh } from "../scene/Mesh";
+import { Object3D } from "../scene/Object3D";
+import { Skeleton } from "../scene/Skeleton";
+import { SkinnedMesh } from "../scene/SkinnedMesh";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    TEXTURE_BINDING: 0x04,
+    COPY_DST: 0x08,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("ShadowPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+  let mockPassEncoder: any;
+  let mockMeshResources: any;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      setVertexBuffer: mock(() => {}),
+      setIndexBuffer: mock(() => {}),
+      draw: mock(() => {}),
+      drawIndexed: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+        descriptor,
+        createView: mock(() => ({} as GPUTextureView)),
+        destroy: mock(() => {}),
+      })),
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createSampler: mock(() => ({} as GPUSampler)),
+      createBindGroup: mock(() => ({} as GPUBindGroup)),
+      createBindGroupLayout: mock(() => ({} as GPUBindGroupLayout)),
+      createPipelineLayout: mock(() => ({} as GPUPipelineLayout)),
+      createShaderModule: mock(() => ({} as GPUShaderModule)),
+      createRenderPipeline: mock(() => ({} as GPURenderPipeline)),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockMeshResources = {
+      getOrCreate: mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+      })),
+    };
+  });
+
+  function createShadowPass(): ShadowPass {
+    return new ShadowPass({
+      device: mockDevice,
+      meshResources: mockMeshResources,
+    });
+  }
+
+  describe("render", () => {
+    it("should return an empty map and skip depth passes without casters", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [createMockMesh()],
+      });
+
+      // Assert
+      expect(indices.size).toBe(0);
+      expect(mockCommandEncoder.beginRenderPass).not.toHaveBeenCalled();
+    });
+
+    it("should assign layers to shadow-casting directional lights only", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const sun = new DirectionalLight(new Vector3(0, -1, 0));
+      sun.castShadow = true;
+      const fill = new DirectionalLight(new Vector3(1, -1, 0));
+      const point = new PointLight();
+      const moon = new DirectionalLight(new Vector3(0, -1, 1));
+      moon.castShadow = true;
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [sun, fill, point, moon],
+        meshes: [],
+      });
+
+      // Assert
+      expect(indices.get(sun)).toBe(0);
+      expect(indices.get(moon)).toBe(1);
+      expect(indices.has(fill)).toBe(false);
+      expect(indices.has(point)).toBe(false);
+      expect(mockCommandEncoder.beginRenderPass).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cap the number of shadow-casting lights", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const lights = Array.from({ length: MAX_DIRECTIONAL_SHADOWS + 2 }, () => {
+        const light = new DirectionalLight();
+        light.castShadow = true;
+        return light;
+      });
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights,
+        meshes: [],
+      });
+
+      // Assert
+      expect(indices.size).toBe(MAX_DIRECTIONAL_SHADOWS);
+    });
+
+    it("should draw only meshes that cast shadows with triangle topology", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      const caster = createMockMesh({ castShadow: true });
+      const receiver = createMockMesh({ castShadow: false });
+      const wireframe = createMockMesh({
+        castShadow: true,
+        topology: "line-list",
+      });
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [caster, receiver, wireframe],
+      });
+
+      // Assert
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(1);
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledWith(36, 1);
+      expect(mockPassEncoder.end).toHaveBeenCalledTimes(1);
+      // Buffers only, leaving the bind groups to the pipeline of the main pass
+      expect(mockMeshResources.getOrCreate).toHaveBeenCalledWith(caster);
+    });
+
+    it("should deform skinned meshes with a second bind group", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      const boneBuffer = {} as GPUBuffer;
+      const resources = {
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 3,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+        boneBuffer,
+        skinVertexBuffer: {} as GPUBuffer,
+        morphInfluenceBuffer: {} as GPUBuffer,
+        morphDeltaBuffer: {} as GPUBuffer,
+      };
+      mockMeshResources.getOrCreate = mock(() => resources);
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        uvs: new Float32Array(6),
+        skinIndices: new Uint16Array(12),
+        skinWeights: new Float32Array(12),
+      });
+      const skeleton = new Skeleton([new Object3D()]);
+      const mesh = new SkinnedMesh(geometry, new PBRMaterial(), skeleton);
+      mesh.castShadow = true;
+
+      // Act
+      for (let frame = 0; frame < 2; frame++) {
+        shadowPass.render({
+          commandEncoder: mockCommandEncoder,
+          lights: [light],
+          meshes: [mesh],
+        });
+      }
+
+      // Assert
+      const pipelineCalls = (mockDevice.createRenderPipeline as any).mock.calls;
+      expect(pipelineCalls).toHaveLength(1);
+      expect(pipelineCalls[0][0].label).toBe("Deformed Shadow Depth Pipeline");
+      const layoutCalls = (mockDevice.createPipelineLayout as any).mock.calls;
+      expect(layoutCalls[0][0].bindGroupLayouts).toHaveLength(2);
+
+      const bindGroupCalls = (mockDevice.createBindGroup as any).mock.calls;
+      const deformBindGroupCalls = bindGroupCalls.filter(
+        (call: any[]) => call[0].label === "Shadow Deform Bind Group"
+      );
+      expect(deformBindGroupCalls).toHaveLength(1);
+      expect(deformBindGroupCalls[0][0].entries[0].resource.buffer).toBe(
+        boneBuffer
+      );
+      const groups = mockPassEncoder.setBindGroup.mock.calls.map(
+        (call: any[]) => call[0]
+      );
+      expect(groups).toEqual([0, 1, 0, 1]);
+    });
+
+    it("should deform meshes with morph targets with a second bind group", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      const morphDeltaBuffer = {} as GPUBuffer;
+      mockMeshResources.getOrCreate = mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 3,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+        boneBuffer: {} as GPUBuffer,
+        skinVertexBuffer: {} as GPUBuffer,
+        morphInfluenceBuffer: {} as GPUBuffer,
+        morphDeltaBuffer,
+      }));
+      const geometry = new BufferGeometry({
+        positions: new Float32Array(9),
+        uvs: new Float32Array(6),
+        morphTargets: [{ positions: new Float32Array(9) }],
+      });
+      const mesh = new Mesh(geometry, new PBRMaterial());
+      mesh.castShadow = true;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [mesh],
+      });
+
+      // Assert
+      const pipelineCalls = (mockDevice.createRenderPipeline as any).mock.calls;
+      expect(pipelineCalls[0][0].label).toBe("Deformed Shadow Depth Pipeline");
+      const deformBindGroup = (
+        mockDevice.createBindGroup as any
+      ).mock.calls.find(
+        (call: any[]) => call[0].label === "Shadow Deform Bind Group"
+      );
+      expect(deformBindGroup[0].entries[3].resource.buffer).toBe(
+        morphDeltaBuffer
+      );
+    });
+
+    it("should displace meshes with a displacement map like the main pass", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      mockMeshResources.getOrCreate = mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+        boneBuffer: {} as GPUBuffer,
+        skinVertexBuffer: {} as GPUBuffer,
+        morphInfluenceBuffer: {} as GPUBuffer,
+        morphDeltaBuffer: {} as GPUBuffer,
+      }));
+      const sampler = {} as GPUSampler;
+      const displacementMap = new Texture(
+        { createView: mock(() => ({}) as GPUTextureView) } as any,
+        sampler,
+        64,
+        64
+      );
+      const mesh = new Mesh(
+        new BoxGeometry(),
+        new BlinnPhongMaterial({
+          displacementMap,
+          displacementScale: 2.5,
+          displacementBias: -0.5,
+        })
+      );
+      mesh.castShadow = true;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [mesh],
+      });
+
+      // Assert
+      const pipeline = (mockDevice.createRenderPipeline as any).mock
+        .calls[0][0];
+      expect(pipeline.label).toBe("Displaced Shadow Depth Pipeline");
+      expect(
+        pipeline.vertex.buffers[0].attributes.map(
+          (attribute: GPUVertexAttribute) => attribute.shaderLocation
+        )
+      ).toEqual([0, 1, 2]);
+
+      const displacedBindGroup = (
+        mockDevice.createBindGroup as any
+      ).mock.calls.find(
+        (call: any[]) => call[0].label === "Shadow Displaced Deform Bind Group"
+      );
+      expect(displacedBindGroup[0].entries[4].resource).toBe(sampler);
+      expect(displacedBindGroup[0].entries).toHaveLength(6);
+
+      const casterUniforms = (
+        mockDevice.queue.writeBuffer as any
+      ).mock.calls.find((call: any[]) => call[0].size === 256);
+      expect(casterUniforms[2][16]).toBe(2.5);
+      expect(casterUniforms[2][17]).toBe(-0.5);
+    });
+
+    it("should use a 256-byte dynamic offset per light and mesh", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const lightA = new DirectionalLight();
+      lightA.castShadow = true;
+      const lightB = new DirectionalLight();
+      lightB.castShadow = true;
+      const meshes = [
+        createMockMesh({ castShadow: true }),
+        createMockMesh({ castShadow: true }),
+      ];
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [lightA, lightB],
+        meshes,
+      });
+
+      // Assert
+      const offsets = mockPassEncoder.setBindGroup.mock.calls.map(
+        (call: any[]) => call[2][0]
+      );
+      expect(offsets).toEqual([0, 256, 512, 768]);
+    });
+
+    it("should size the shadow map to the largest caster mapSize", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const lightA = new DirectionalLight();
+      lightA.castShadow = true;
+      lightA.shadow.mapSize = 512;
+      const lightB = new DirectionalLight();
+      lightB.castShadow = true;
+      lightB.shadow.mapSize = 2048;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [lightA, lightB],
+        meshes: [],
+      });
+
+      // Assert
+      expect(shadowPass.directionalShadowMapSize).toBe(2048);
+      const descriptor = (mockDevice.createTexture as any).mock.calls[0][0];
+      expect(descriptor.size).toEqual([2048, 2048, MAX_DIRECTIONAL_SHADOWS]);
+      expect(descriptor.format).toBe("depth32float");
+    });
+
+    it("should write light matrices and filtering params to the shadow uniforms", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      light.shadow.mapSize = 1024;
+      light.shadow.bias = 0.002;
+      light.shadow.normalBias = 0.05;
+      light.shadow.radius = 2;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+
+      // Assert
+      const data = (mockDevice.queue.writeBuffer as any).mock
+        .calls[0][2] as Float32Array;
+      expect(data.length).toBe(
+        (MAX_DIRECTIONAL_SHADOWS * 96 + MAX_POINT_SHADOWS * 16 + 16) / 4
+      );
+      expect(Array.from(data.slice(0, 16))).toEqual(
+        Array.from(light.shadow.viewProjectionMatrix.data)
+      );
+      expect(data[16]).toBeCloseTo(0.002, 6);
+      expect(data[17]).toBeCloseTo(0.05, 6);
+      expect(data[18]).toBe(2);
+      expect(data[19]).toBeCloseTo(1 / 1024, 8);
+      expect(data[20]).toBe(1);
+    });
+
+    it("should render six cube faces per shadow-casting point light", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const bulb = new PointLight();
+      bulb.castShadow = true;
+      const lamp = new PointLight();
+      lamp.castShadow = true;
+      const sun = new DirectionalLight();
+      sun.castShadow = true;
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [bulb, sun, lamp],
+        meshes: [createMockMesh()],
+      });
+
+      // Assert
+      expect(indices.get(bulb)).toBe(0);
+      expect(indices.get(lamp)).toBe(1);
+      expect(indices.get(sun)).toBe(0);
+      expect(mockCommandEncoder.beginRenderPass).toHaveBeenCalledTimes(1 + 12);
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(13);
+    });
+
+    it("should allocate a cube array sized to the largest point caster mapSize", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new PointLight();
+      light.castShadow = true;
+      light.shadow.mapSize = 256;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+
+      // Assert
+      expect(shadowPass.pointShadowMapSize).toBe(256);
+      const descriptor = (mockDevice.createTexture as any).mock.calls.find(
+        (call: any[]) => call[0].label === "Point Shadow Map"
+      )[0];
+      expect(descriptor.size).toEqual([256, 256, MAX_POINT_SHADOWS * 6]);
+    });
+
+    it("should write point shadow params after the directional entries", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new PointLight();
+      light.castShadow = true;
+      light.shadow.bias = 0.1;
+      light.shadow.near = 0.5;
+      light.shadow.far = 20;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+
+      // Assert
+      const data = (mockDevice.queue.writeBuffer as any).mock
+        .calls[0][2] as Float32Array;
+      const base = (MAX_DIRECTIONAL_SHADOWS * 96) / 4;
+      expect(data[base]).toBeCloseTo(0.1, 6);
+      expect(data[base + 1]).toBe(0.5);
+      expect(data[base + 2]).toBe(20);
+    });
+  });
+
+  describe("cascades", () => {
+    function createCamera(): PerspectiveCamera {
+      const camera = new PerspectiveCamera({ near: 1, far: 200 });
+      camera.position.set(0, 10, 30);
+      camera.lookAt(new Vector3(0, 0, 0));
+      camera.updateWorldMatrix(false, false);
+      return camera;
+    }
+
+    it("should give each cascade its own layer and depth pass", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const sun = new DirectionalLight();
+      sun.castShadow = true;
+      sun.shadow.cascades = 3;
+      const moon = new DirectionalLight();
+      moon.castShadow = true;
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [sun, moon],
+        meshes: [createMockMesh()],
+        camera: createCamera(),
+      });
+
+      // Assert
+      expect(indices.get(sun)).toBe(0);
+      expect(indices.get(moon)).toBe(3);
+      expect(sun.shadow.cascadeCount).toBe(3);
+      const labels = (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+        (call: any[]) => call[0].label
+      );
+      expect(labels).toEqual([
+        "Directional Shadow Pass 0",
+        "Directional Shadow Pass 1",
+        "Directional Shadow Pass 2",
+        "Directional Shadow Pass 3",
+      ]);
+    });
+
+    it("should clamp cascades to the remaining layers and skip lights that do not fit", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const first = new DirectionalLight();
+      first.castShadow = true;
+      first.shadow.cascades = 3;
+      const second = new DirectionalLight();
+      second.castShadow = true;
+      second.shadow.cascades = 3;
+      const third = new DirectionalLight();
+      third.castShadow = true;
+
+      // Act
+      const indices = shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [first, second, third],
+        meshes: [],
+        camera: createCamera(),
+      });
+
+      // Assert
+      expect(indices.get(first)).toBe(0);
+      expect(indices.get(second)).toBe(3);
+      expect(second.shadow.cascadeCount).toBe(MAX_DIRECTIONAL_SHADOWS - 3);
+      expect(indices.has(third)).toBe(false);
+    });
+
+    it("should fall back to a single shadow box without a perspective camera", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const sun = new DirectionalLight();
+      sun.castShadow = true;
+      sun.shadow.cascades = 4;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [sun],
+        meshes: [createMockMesh()],
+      });
+
+      // Assert
+      expect(sun.shadow.cascadeCount).toBe(1);
+      expect(mockCommandEncoder.beginRenderPass).toHaveBeenCalledTimes(1);
+    });
+
+    it("should write cascade splits, blend widths, and the camera depth plane", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const camera = createCamera();
+      const sun = new DirectionalLight();
+      sun.castShadow = true;
+      sun.shadow.cascades = 2;
+      sun.shadow.cascadeBlend = 0.2;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [sun],
+        meshes: [],
+        camera,
+      });
+
+      // Assert
+      const data = (mockDevice.queue.writeBuffer as any).mock
+        .calls[0][2] as Float32Array;
+      const [split0, split1] = sun.shadow.cascadeSplits;
+      const stride = 96 / 4;
+
+      expect(Array.from(data.slice(stride, stride + 16))).toEqual(
+        Array.from(sun.shadow.getCascadeViewProjectionMatrix(1).data)
+      );
+      expect(data[20]).toBe(2);
+      expect(data[21]).toBeCloseTo(split0, 4);
+      expect(data[22]).toBeCloseTo((split0 - 1) * 0.2, 4);
+      expect(data[stride + 20]).toBe(2);
+      expect(data[stride + 21]).toBeCloseTo(split1, 4);
+      expect(data[stride + 22]).toBeCloseTo((split1 - split0) * 0.2, 4);
+
+      // The camera looks at the origin, whose view depth is dot(forward, 0) - w
+      const plane = (MAX_DIRECTIONAL_SHADOWS * 96 + MAX_POINT_SHADOWS * 16) / 4;
+      expect(-data[plane + 3]).toBeCloseTo(Math.hypot(10, 30), 4);
+      expect(data[plane + 1]).toBeCloseTo(-10 / Math.hypot(10, 30), 5);
+    });
+  });
+
+  describe("getBindGroupEntries", () => {
+    it("should return the sampler, shadow maps, and shadow uniforms as bindings 0-3", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+
+      // Act
+      const entries = shadowPass.getBindGroupEntries();
+
+      // Assert
+      expect(entries.map((entry) => entry.binding)).toEqual([0, 1, 2, 3]);
+      expect(shadowPass.directionalShadowMapSize).toBe(1);
+      expect(shadowPass.pointShadowMapSize).toBe(1);
+    });
+
+    it("should bump the revision when a shadow map is resized", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      shadowPass.getBindGroupEntries();
+      const revision = shadowPass.revision;
+
+      // Act
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+      const resized = shadowPass.revision;
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+
+      // Assert
+      expect(resized).toBeGreaterThan(revision);
+      expect(shadowPass.revision).toBe(resized);
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the shadow map texture", () => {
+      // Arrange
+      const shadowPass = createShadowPass();
+      const light = new DirectionalLight();
+      light.castShadow = true;
+      shadowPass.render({
+        commandEncoder: mockCommandEncoder,
+        lights: [light],
+        meshes: [],
+      });
+      const texture = (mockDevice.createTexture as any).mock.results[0].value;
+
+      // Act
+      shadowPass.dispose();
+
+      // Assert
+      expect(texture.destroy).toHaveBeenCalled();
+      expect(shadowPass.directionalShadowMapSize).toBe(0);
+    });
+  });
+});
+
+function createMockMesh(
+  options: { castShadow?: boolean; topology?: GPUPrimitiveTopology } = {}
+): any {
+  return {
+    castShadow: options.castShadow ?? true,
+    geometry: new BoxGeometry(),
+    worldMatrix: new Matrix4(),
+    vertexCount: 3,
+    material: {
+      getPrimitiveTopology: () => options.topology ?? "triangle-list",
+      getVertexBufferLayout: () => ({ arrayStride: 32, attributes: [] }),
+    },
+  };
+}
@@ -0,0 +1,436 @@
+import { Vector3 } from "@web-real/math";
+import type { Camera } from "../camera/Camera";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { DirectionalLight } from "../light/DirectionalLight";
+import type { Light } from "../light/Light";
+import { PointLight } from "../light/PointLight";
+import type { Mesh } from "../scene/Mesh";
+import { CUBE_FACE_COUNT, CubeFace } from "../texture/CubeTexture";
+import { DEPTH_FORMAT, DepthRenderer, type DepthView } from "./DepthRenderer";
+import type { MeshResourceCache } from "./MeshResourceCache";
+
+/**
+ * Number of directional shadow map layers available in a single frame.
+ * A directional light uses one layer per cascade.
+ * Must match MAX_DIRECTIONAL_SHADOWS in shaders/shadow/shadow.wgsl.
+ */
+export const MAX_DIRECTIONAL_SHADOWS = 4;
+
+/**
+ * Maximum number of point lights that can cast shadows in a single frame.
+ * Must match MAX_POINT_SHADOWS in shaders/shadow/shadow.wgsl.
+ */
+export const MAX_POINT_SHADOWS = 4;
+
+/** Byte size of one DirectionalShadow entry (mat4x4f + 2 vec4f). */
+const DIRECTIONAL_SHADOW_STRIDE = 96;
+
+/** Byte size of one PointShadow entry (vec4f). */
+const POINT_SHADOW_STRIDE = 16;
+
+/** Byte offset of ShadowUniforms.cameraDepthPlane (vec4f). */
+const CAMERA_DEPTH_PLANE_OFFSET =
+  MAX_DIRECTIONAL_SHADOWS * DIRECTIONAL_SHADOW_STRIDE +
+  MAX_POINT_SHADOWS * POINT_SHADOW_STRIDE;
+
+/** Byte size of the ShadowUniforms struct. */
+const SHADOW_UNIFORMS_SIZE = CAMERA_DEPTH_PLANE_OFFSET + 16;
+
+/**
+ * Depth texture array with one render view per layer.
+ */
+interface ShadowMapArray {
+  texture: GPUTexture;
+  size: number;
+  layerViews: GPUTextureView[];
+}
+
+/**
+ * A shadow-casting directional light and the consecutive layers its cascades occupy.
+ */
+interface DirectionalCaster {
+  light: DirectionalLight;
+  layer: number;
+  cascadeCount: number;
+}
+
+/**
+ * Renders depth maps for shadow-casting lights and owns the shadow resources
+ * (comparison sampler, depth textures, light matrices) that lit materials sample.
+ *
+ * - Directional shadow maps share one 2D depth array sized to the largest caster `shadow.mapSize`.
+ *   Cascaded lights take one layer per cascade; the light's shadow index is its first layer.
+ * - Point shadow maps share one cube depth array (6 layers per light, CubeFace order)
+ *   sized to the largest caster `shadow.mapSize`.
+ *
+ * @example
+ * ```ts
+ * const shadowPass = new ShadowPass({ device, meshResources });
+ * const shadowIndices = shadowPass.render({ commandEncoder, lights, meshes, camera });
+ * // later, when building the lighting bind group:
+ * const entries = shadowPass.getBindGroupEntries();
+ * ```
+ */
+export class ShadowPass {
+  private _device: GPUDevice;
+
+  private _depthRenderer: DepthRenderer;
+
+  private _directionalShadowMap?: ShadowMapArray;
+  private _pointShadowMap?: ShadowMapArray;
+  private _sampler?: GPUSampler;
+  private _shadowUniformBuffer?: GPUBuffer;
+
+  private _revision: number = 0;
+
+  /**
+   * Creates a new ShadowPass.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create textures, buffers, and pipelines
+   * @param options.meshResources - Mesh resource cache providing vertex and index buffers
+   */
+  constructor(options: {
+    device: GPUDevice;
+    meshResources: MeshResourceCache;
+  }) {
+    this._device = options.device;
+    this._depthRenderer = new DepthRenderer({
+      ...options,
+      label: "Shadow",
+    });
+  }
+
+  /**
+   * Side length in texels of the current directional shadow map array.
+   */
+  get directionalShadowMapSize(): number {
+    return this._directionalShadowMap?.size ?? 0;
+  }
+
+  /**
+   * Side length in texels of each face in the current point shadow cube array.
+   */
+  get pointShadowMapSize(): number {
+    return this._pointShadowMap?.size ?? 0;
+  }
+
+  /**
+   * Incremented whenever a shadow map is reallocated, invalidating bind groups that reference it.
+   */
+  get revision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Renders depth maps for every shadow-casting directional and point light.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the depth passes
+   * @param options.lights - Scene lights; only DirectionalLights and PointLights with castShadow are used
+   * @param options.meshes - Visible meshes; only meshes with castShadow are drawn
+   * @param options.camera - Viewing camera; cascaded shadows require a PerspectiveCamera
+   * @returns Map from light to its shadow index (directional and point lights are indexed separately)
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    lights: Light[];
+    meshes: Mesh[];
+    camera?: Camera;
+  }): Map<Light, number> {
+    const shadowIndices = new Map<Light, number>();
+    const directionalCasters: DirectionalCaster[] = [];
+    const pointCasters: PointLight[] = [];
+    const cascadeCamera =
+      options.camera instanceof PerspectiveCamera ? options.camera : undefined;
+    let directionalLayers = 0;
+
+    for (const light of options.lights) {
+      if (light instanceof DirectionalLight && light.castShadow) {
+        // Cascades are clamped to the layers left over by earlier lights
+        const requested = cascadeCamera
+          ? Math.max(1, Math.floor(light.shadow.cascades))
+          : 1;
+        const cascadeCount = Math.min(
+          requested,
+          MAX_DIRECTIONAL_SHADOWS - directionalLayers
+        );
+        if (cascadeCount > 0) {
+          shadowIndices.set(light, directionalLayers);
+          directionalCasters.push({
+            light,
+            layer: directionalLayers,
+            cascadeCount,
+          });
+          directionalLayers += cascadeCount;
+        }
+      } else if (
+        light instanceof PointLight &&
+        light.castShadow &&
+        pointCasters.length < MAX_POINT_SHADOWS
+      ) {
+        shadowIndices.set(light, pointCasters.length);
+        pointCasters.push(light);
+      }
+    }
+
+    this._ensureShadowMaps(
+      getMaxMapSize(directionalCasters.map((caster) => caster.light)),
+      getMaxMapSize(pointCasters)
+    );
+    this._writeShadowUniforms(
+      directionalCasters,
+      pointCasters,
+      options.camera,
+      cascadeCamera
+    );
+
+    const views = this._collectShadowViews(directionalCasters, pointCasters);
+    if (views.length === 0) {
+      return shadowIndices;
+    }
+
+    this._depthRenderer.render({
+      commandEncoder: options.commandEncoder,
+      views,
+      meshes: options.meshes.filter((mesh) => mesh.castShadow),
+    });
+
+    return shadowIndices;
+  }
+
+  /**
+   * Returns the shadow entries (bindings 0-3) of the shared lighting bind group.
+   * Placeholder 1x1 maps are allocated if nothing has been rendered yet.
+   * @returns Entries for the comparison sampler, shadow maps, and shadow uniforms
+   */
+  getBindGroupEntries(): GPUBindGroupEntry[] {
+    this._ensureShadowMaps(
+      this._directionalShadowMap?.size ?? 1,
+      this._pointShadowMap?.size ?? 1
+    );
+
+    return [
+      { binding: 0, resource: this._getSampler() },
+      {
+        binding: 1,
+        resource: this._directionalShadowMap!.texture.createView({
+          dimension: "2d-array",
+        }),
+      },
+      { binding: 2, resource: { buffer: this._getShadowUniformBuffer() } },
+      {
+        binding: 3,
+        resource: this._pointShadowMap!.texture.createView({
+          dimension: "cube-array",
+        }),
+      },
+    ];
+  }
+
+  /**
+   * Destroys all GPU resources owned by this pass.
+   */
+  dispose(): void {
+    this._directionalShadowMap?.texture.destroy();
+    this._pointShadowMap?.texture.destroy();
+    this._shadowUniformBuffer?.destroy();
+    this._depthRenderer.dispose();
+
+    this._directionalShadowMap = undefined;
+    this._pointShadowMap = undefined;
+    this._shadowUniformBuffer = undefined;
+    this._revision++;
+  }
+
+  /**
+   * Lists the depth renders for this frame in caster uniform slot order.
+   */
+  private _collectShadowViews(
+    directionalCasters: DirectionalCaster[],
+    pointCasters: PointLight[]
+  ): DepthView[] {
+    const views: DepthView[] = [];
+
+    for (const { light, layer, cascadeCount } of directionalCasters) {
+      for (let cascade = 0; cascade < cascadeCount; cascade++) {
+        views.push({
+          label: `Directional Shadow Pass ${layer + cascade}`,
+          target: this._directionalShadowMap!.layerViews[layer + cascade],
+          viewProjectionMatrix:
+            light.shadow.getCascadeViewProjectionMatrix(cascade),
+        });
+      }
+    }
+
+    pointCasters.forEach((light, index) => {
+      for (let face = 0; face < CUBE_FACE_COUNT; face++) {
+        views.push({
+          label: `Point Shadow Pass ${index} ${CubeFace[face]}`,
+          target:
+            this._pointShadowMap!.layerViews[index * CUBE_FACE_COUNT + face],
+          viewProjectionMatrix: light.shadow.getViewProjectionMatrix(face),
+        });
+      }
+    });
+
+    return views;
+  }
+
+  private _ensureShadowMaps(directionalSize: number, pointSize: number): void {
+    if (this._directionalShadowMap?.size !== directionalSize) {
+      this._directionalShadowMap?.texture.destroy();
+      this._directionalShadowMap = this._createShadowMapArray(
+        "Directional Shadow Map",
+        directionalSize,
+        MAX_DIRECTIONAL_SHADOWS
+      );
+      this._revision++;
+    }
+
+    if (this._pointShadowMap?.size !== pointSize) {
+      this._pointShadowMap?.texture.destroy();
+      this._pointShadowMap = this._createShadowMapArray(
+        "Point Shadow Map",
+        pointSize,
+        MAX_POINT_SHADOWS * CUBE_FACE_COUNT
+      );
+      this._revision++;
+    }
+  }
+
+  private _createShadowMapArray(
+    label: string,
+    size: number,
+    layers: number
+  ): ShadowMapArray {
+    const texture = this._device.createTexture({
+      label,
+      size: [size, size, layers],
+      format: DEPTH_FORMAT,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+      dimension: "2d",
+    });
+
+    const layerViews: GPUTextureView[] = [];
+    for (let layer = 0; layer < layers; layer++) {
+      layerViews.push(
+        texture.createView({
+          dimension: "2d",
+          baseArrayLayer: layer,
+          arrayLayerCount: 1,
+        })
+      );
+    }
+
+    return { texture, size, layerViews };
+  }
+
+  private _getSampler(): GPUSampler {
+    if (!this._sampler) {
+      this._sampler = this._device.createSampler({
+        label: "Shadow Comparison Sampler",
+        compare: "less",
+        magFilter: "linear",
+        minFilter: "linear",
+        addressModeU: "clamp-to-edge",
+        addressModeV: "clamp-to-edge",
+        addressModeW: "clamp-to-edge",
+      });
+    }
+    return this._sampler;
+  }
+
+  private _getShadowUniformBuffer(): GPUBuffer {
+    if (!this._shadowUniformBuffer) {
+      this._shadowUniformBuffer = this._device.createBuffer({
+        label: "Shadow Uniform Buffer",
+        size: SHADOW_UNIFORMS_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+    }
+    return this._shadowUniformBuffer;
+  }
+
+  /**
+   * Updates light matrices and writes the ShadowUniforms struct.
+   * - directional[i] (96 bytes): viewProjectionMatrix (64) + params (bias, normalBias, radius, texelSize)
+   *   + cascade (cascadeCount, splitFar, blendWidth, unused)
+   * - point[i] (16 bytes): params (bias, near, far, unused)
+   * - cameraDepthPlane (16 bytes): camera forward (xyz) and its dot with the camera position (w)
+   */
+  private _writeShadowUniforms(
+    directionalCasters: DirectionalCaster[],
+    pointCasters: PointLight[],
+    camera?: Camera,
+    cascadeCamera?: PerspectiveCamera
+  ): void {
+    const data = new Float32Array(SHADOW_UNIFORMS_SIZE / 4);
+    const texelSize = 1 / this.directionalShadowMapSize;
+
+    for (const { light, layer, cascadeCount } of directionalCasters) {
+      const shadow =
+        cascadeCount > 1
+          ? light.shadow.updateCascades(
+              light.direction,
+              cascadeCamera!,
+              cascadeCount
+            )
+          : light.shadow.updateMatrices(light.direction);
+
+      for (let cascade = 0; cascade < cascadeCount; cascade++) {
+        const base = ((layer + cascade) * DIRECTIONAL_SHADOW_STRIDE) / 4;
+        data.set(shadow.getCascadeViewProjectionMatrix(cascade).data, base);
+        data[base + 16] = shadow.bias;
+        data[base + 17] = shadow.normalBias;
+        data[base + 18] = shadow.radius;
+        data[base + 19] = texelSize;
+        data[base + 20] = cascadeCount;
+
+        if (cascadeCount > 1) {
+          const splitFar = shadow.cascadeSplits[cascade];
+          const splitNear =
+            cascade === 0
+              ? cascadeCamera!.near
+              : shadow.cascadeSplits[cascade - 1];
+          data[base + 21] = splitFar;
+          data[base + 22] = (splitFar - splitNear) * shadow.cascadeBlend;
+        }
+      }
+    }
+
+    const pointBase = (MAX_DIRECTIONAL_SHADOWS * DIRECTIONAL_SHADOW_STRIDE) / 4;
+    pointCasters.forEach((light, index) => {
+      light.updateWorldMatrix(true, false);
+      const m = light.worldMatrix.data;
+      const shadow = light.shadow.updateMatrices(
+        new Vector3(m[12], m[13], m[14])
+      );
+      const base = pointBase + (index * POINT_SHADOW_STRIDE) / 4;
+      data[base] = shadow.bias;
+      data[base + 1] = shadow.near;
+      data[base + 2] = shadow.far;
+    });
+
+    if (camera) {
+      // View depth = dot(forward, p) - dot(forward, eye); the view matrix z row is -forward
+      const v = camera.viewMatrix.data;
+      const planeBase = CAMERA_DEPTH_PLANE_OFFSET / 4;
+      data[planeBase] = -v[2];
+      data[planeBase + 1] = -v[6];
+      data[planeBase + 2] = -v[10];
+      data[planeBase + 3] = v[14];
+    }
+
+    this._device.queue.writeBuffer(this._getShadowUniformBuffer(), 0, data);
+  }
+}
+
+/**
+ * Returns the largest shadow.mapSize among the lights, or 1 when there are none.
+ */
+function getMaxMapSize(lights: { shadow: { mapSize: number } }[]): number {
+  return lights.reduce(
+    (size, light) => Math.max(size, light.shadow.mapSize),
+    1
+  );
+}
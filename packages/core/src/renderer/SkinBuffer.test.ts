@@ -0,0 +1,34 @@
+import { describe, it, expect } from "bun:test";
+import { SKIN_VERTEX_STRIDE, packSkinVertices } from "./SkinBuffer";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
+
+describe("SkinBuffer", () => {
+  it("should interleave joints as u32 and weights as f32 per vertex", () => {
+    const geometry = new BufferGeometry({
+      positions: new Float32Array(6),
+      indices: new Uint16Array([0, 1, 0]),
+      skinIndices: new Uint16Array([1, 2, 3, 4, 5, 0, 0, 0]),
+      skinWeights: new Float32Array([0.5, 0.25, 0.25, 0, 1, 0, 0, 0]),
+    });
+
+    const buffer = packSkinVertices(geometry);
+
+    expect(buffer.byteLength).toBe(2 * SKIN_VERTEX_STRIDE);
+    const joints = new Uint32Array(buffer);
+    const weights = new Float32Array(buffer);
+    expect(Array.from(joints.subarray(0, 4))).toEqual([1, 2, 3, 4]);
+    expect(Array.from(weights.subarray(4, 8))).toEqual([0.5, 0.25, 0.25, 0]);
+    expect(Array.from(joints.subarray(8, 12))).toEqual([5, 0, 0, 0]);
+    expect(Array.from(weights.subarray(12, 16))).toEqual([1, 0, 0, 0]);
+  });
+
+  it("should leave every weight zero for geometry without a skin", () => {
+    const geometry = new BoxGeometry();
+
+    const weights = new Float32Array(packSkinVertices(geometry));
+
+    expect(weights).toHaveLength((geometry.vertexCount * 32) / 4);
+    expect(weights.every((value) => value === 0)).toBe(true);
+  });
+});
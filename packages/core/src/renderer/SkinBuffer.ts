@@ -0,0 +1,40 @@
+import type { Geometry } from "../geometry/Geometry";
+
+/** Bytes per bone: a column-major mat4x4f. */
+export const BONE_STRIDE = 64;
+
+/** Bytes per vertex in the skin vertex buffer: vec4u joints followed by vec4f weights. */
+export const SKIN_VERTEX_STRIDE = 32;
+
+/** Group 0 binding of the bone matrices in materials that support skinning. */
+export const BONE_MATRICES_BINDING = 16;
+
+/** Group 0 binding of the per-vertex skin data in materials that support skinning. */
+export const SKIN_VERTICES_BINDING = 17;
+
+/**
+ * Interleaves the skin indices and weights of a geometry into the skin vertex layout.
+ * Must match SkinVertex in shaders/skinning/skinning.wgsl.
+ * @param geometry - Geometry providing skinIndices and skinWeights
+ * @returns SKIN_VERTEX_STRIDE bytes per vertex; zero weights if the geometry has no skin
+ */
+export function packSkinVertices(geometry: Geometry): ArrayBuffer {
+  const buffer = new ArrayBuffer(
+    Math.max(geometry.vertexCount, 1) * SKIN_VERTEX_STRIDE
+  );
+  const { skinIndices, skinWeights } = geometry;
+  if (!skinIndices || !skinWeights) {
+    return buffer;
+  }
+
+  const joints = new Uint32Array(buffer);
+  const weights = new Float32Array(buffer);
+  const wordsPerVertex = SKIN_VERTEX_STRIDE / 4;
+  for (let i = 0; i < geometry.vertexCount; i++) {
+    const offset = i * wordsPerVertex;
+    joints.set(skinIndices.subarray(i * 4, i * 4 + 4), offset);
+    weights.set(skinWeights.subarray(i * 4, i * 4 + 4), offset + 4);
+  }
+
+  return buffer;
+}
@@ -224,6 +224,48 @@ describe("SkyboxPass", () => {
     });
   });
 
+  describe("depth format", () => {
+    it("should test against depth24plus by default", () => {
+      const skyboxPass = new SkyboxPass({
+        device: mockDevice,
+        format: "bgra8unorm",
+        sampleCount: 4,
+        fallback: mockFallback,
+      });
+
+      skyboxPass.render(
+        mockPassEncoder,
+        new SkyboxMaterial({}),
+        new PerspectiveCamera({ fov: 75, aspect: 1.0 })
+      );
+
+      const descriptor = (mockDevice.createRenderPipeline as any).mock
+        .calls[0][0];
+      expect(descriptor.depthStencil.format).toBe("depth24plus");
+    });
+
+    it("should omit depth testing for targets without depth", () => {
+      const skyboxPass = new SkyboxPass({
+        device: mockDevice,
+        format: "rgba8unorm",
+        sampleCount: 1,
+        depthFormat: null,
+        fallback: mockFallback,
+      });
+
+      skyboxPass.render(
+        mockPassEncoder,
+        new SkyboxMaterial({}),
+        new PerspectiveCamera({ fov: 75, aspect: 1.0 })
+      );
+
+      const descriptor = (mockDevice.createRenderPipeline as any).mock
+        .calls[0][0];
+      expect(descriptor.depthStencil).toBeUndefined();
+      expect(descriptor.multisample.count).toBe(1);
+    });
+  });
+
   describe("dispose", () => {
     it("should destroy uniform buffer when disposed", () => {
       const skyboxPass = new SkyboxPass({
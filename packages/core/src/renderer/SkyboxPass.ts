@@ -24,6 +24,7 @@ export class SkyboxPass {
   private _device: GPUDevice;
   private _format: GPUTextureFormat;
   private _sampleCount: number;
+  private _depthFormat: GPUTextureFormat | null;
   private _fallback: FallbackResources;
 
   private _resources?: SkyboxGPUResources;
@@ -34,17 +35,21 @@ export class SkyboxPass {
    * @param options.device - The WebGPU device used to create pipelines and buffers
    * @param options.format - The color attachment format for the skybox pipeline
    * @param options.sampleCount - The MSAA sample count used by the skybox pipeline
+   * @param options.depthFormat - The depth attachment format, or null without depth (default: "depth24plus")
    * @param options.fallback - Fallback resources used when optional cube textures are missing
    */
   constructor(options: {
     device: GPUDevice;
     format: GPUTextureFormat;
     sampleCount: number;
+    depthFormat?: GPUTextureFormat | null;
     fallback: FallbackResources;
   }) {
     this._device = options.device;
     this._format = options.format;
     this._sampleCount = options.sampleCount;
+    this._depthFormat =
+      options.depthFormat === undefined ? "depth24plus" : options.depthFormat;
     this._fallback = options.fallback;
   }
 
@@ -173,11 +178,13 @@ export class SkyboxPass {
           topology: "triangle-list",
           cullMode: "none",
         },
-        depthStencil: {
-          depthWriteEnabled: false,
-          depthCompare: "less-equal",
-          format: "depth24plus",
-        },
+        depthStencil: this._depthFormat
+          ? {
+              depthWriteEnabled: false,
+              depthCompare: "less-equal",
+              format: this._depthFormat,
+            }
+          : undefined,
         multisample: {
           count: this._sampleCount,
         },
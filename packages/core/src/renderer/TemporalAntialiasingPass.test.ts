@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import { TemporalAntialiasingPass } from "./TemporalAntialiasingPass";
+import { PerspectiveCamera } from "../camera/PerspectiveCamera";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { Texture } from "../texture/Texture";
+
+// Mock WebGPU constants for test environment
+if (typeof globalThis.GPUBufferUsage === "undefined") {
+  (globalThis as any).GPUBufferUsage = {
+    UNIFORM: 0x0040,
+    COPY_DST: 0x0008,
+  };
+}
+
+if (typeof globalThis.GPUTextureUsage === "undefined") {
+  (globalThis as any).GPUTextureUsage = {
+    COPY_SRC: 0x01,
+    COPY_DST: 0x02,
+    TEXTURE_BINDING: 0x04,
+    RENDER_ATTACHMENT: 0x10,
+  };
+}
+
+if (typeof globalThis.GPUShaderStage === "undefined") {
+  (globalThis as any).GPUShaderStage = {
+    VERTEX: 0x1,
+    FRAGMENT: 0x2,
+  };
+}
+
+describe("TemporalAntialiasingPass", () => {
+  let mockDevice: GPUDevice;
+  let mockCommandEncoder: GPUCommandEncoder;
+  let mockPassEncoder: any;
+  let mockMeshResources: any;
+  let camera: PerspectiveCamera;
+  let input: Texture;
+
+  beforeEach(() => {
+    mockPassEncoder = {
+      setPipeline: mock(() => {}),
+      setBindGroup: mock(() => {}),
+      setVertexBuffer: mock(() => {}),
+      setIndexBuffer: mock(() => {}),
+      draw: mock(() => {}),
+      drawIndexed: mock(() => {}),
+      end: mock(() => {}),
+    };
+
+    mockCommandEncoder = {
+      beginRenderPass: mock(() => mockPassEncoder),
+    } as unknown as GPUCommandEncoder;
+
+    mockDevice = {
+      createTexture: mock((descriptor: GPUTextureDescriptor) => ({
+        descriptor,
+        createView: mock(() => ({ descriptor }) as unknown as GPUTextureView),
+        destroy: mock(() => {}),
+      })),
+      createBuffer: mock((descriptor: GPUBufferDescriptor) => ({
+        size: descriptor.size,
+        destroy: mock(() => {}),
+      })),
+      createSampler: mock(() => ({}) as GPUSampler),
+      createBindGroup: mock(
+        (descriptor: GPUBindGroupDescriptor) => descriptor
+      ),
+      createBindGroupLayout: mock(() => ({}) as GPUBindGroupLayout),
+      createPipelineLayout: mock(() => ({}) as GPUPipelineLayout),
+      createShaderModule: mock(() => ({}) as GPUShaderModule),
+      createRenderPipeline: mock(() => ({}) as GPURenderPipeline),
+      queue: {
+        writeBuffer: mock(() => {}),
+      },
+    } as unknown as GPUDevice;
+
+    mockMeshResources = {
+      getOrCreate: mock(() => ({
+        vertexBuffer: {} as GPUBuffer,
+        indexBuffer: {} as GPUBuffer,
+        indexFormat: "uint16" as GPUIndexFormat,
+        indexCount: 36,
+        instanceBuffer: {} as GPUBuffer,
+        instanceCount: 1,
+      })),
+    };
+
+    camera = new PerspectiveCamera({ near: 0.1, far: 100 });
+    camera.updateWorldMatrix(false, false);
+    input = createInput(800, 600);
+  });
+
+  function createPass(): TemporalAntialiasingPass {
+    return new TemporalAntialiasingPass({
+      device: mockDevice,
+      meshResources: mockMeshResources,
+    });
+  }
+
+  function createInput(width: number, height: number): Texture {
+    const gpuTexture = {
+      createView: mock(() => ({}) as GPUTextureView),
+    } as unknown as GPUTexture;
+    return new Texture(gpuTexture, {} as GPUSampler, width, height);
+  }
+
+  function renderFrame(pass: TemporalAntialiasingPass): Texture {
+    pass.jitterCamera(camera, input.width, input.height);
+    const resolved = pass.render({
+      commandEncoder: mockCommandEncoder,
+      meshes: [createMockMesh()],
+      camera,
+      input,
+    });
+    camera.clearJitter();
+    return resolved;
+  }
+
+  /**
+   * Returns a copy of the resolve uniforms, whose buffer is reused every frame.
+   */
+  function getResolveUniforms(): Float32Array {
+    const calls = (mockDevice.queue.writeBuffer as any).mock.calls.filter(
+      (call: any[]) => call[0].size === 80
+    );
+    return new Float32Array(calls[calls.length - 1][2]).slice();
+  }
+
+  function getPassLabels(): string[] {
+    return (mockCommandEncoder.beginRenderPass as any).mock.calls.map(
+      (call: any[]) => call[0].label
+    );
+  }
+
+  describe("jitterCamera", () => {
+    it("should offset the projection by sub-pixel Halton positions", () => {
+      const pass = createPass();
+      const unjittered = camera.projectionMatrix;
+      const offsets: number[][] = [];
+
+      for (let i = 0; i < 8; i++) {
+        pass.jitterCamera(camera, 800, 600);
+        const jittered = camera.projectionMatrix;
+        offsets.push([
+          ((jittered.data[8] - unjittered.data[8]) / 2) * -800,
+          ((jittered.data[9] - unjittered.data[9]) / 2) * 600,
+        ]);
+        camera.clearJitter();
+      }
+
+      expect(offsets[0][0]).toBeCloseTo(0, 4);
+      expect(offsets[0][1]).toBeCloseTo(-1 / 6, 4);
+      expect(offsets[1][0]).toBeCloseTo(-0.25, 4);
+      expect(offsets[1][1]).toBeCloseTo(1 / 6, 4);
+      for (const [x, y] of offsets) {
+        expect(Math.abs(x)).toBeLessThan(0.5);
+        expect(Math.abs(y)).toBeLessThan(0.5);
+      }
+      expect(new Set(offsets.map((offset) => offset.join())).size).toBe(8);
+    });
+  });
+
+  describe("render", () => {
+    it("should return the input and record nothing while disabled", () => {
+      const pass = createPass();
+
+      const resolved = pass.render({
+        commandEncoder: mockCommandEncoder,
+        meshes: [createMockMesh()],
+        camera,
+        input,
+      });
+
+      expect(resolved).toBe(input);
+      expect(mockCommandEncoder.beginRenderPass).not.toHaveBeenCalled();
+      expect(mockDevice.createTexture).not.toHaveBeenCalled();
+    });
+
+    it("should record the motion vector and resolve passes", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderFrame(pass);
+
+      expect(getPassLabels()).toEqual([
+        "Motion Vector Pass",
+        "Temporal Anti-Aliasing Resolve Pass",
+      ]);
+      expect(mockPassEncoder.drawIndexed).toHaveBeenCalledTimes(1);
+      expect(mockPassEncoder.draw).toHaveBeenCalledWith(3);
+    });
+
+    it("should allocate render-sized motion, depth and history textures", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      renderFrame(pass);
+
+      const descriptors = (mockDevice.createTexture as any).mock.calls.map(
+        (call: any[]) => call[0]
+      );
+      expect(
+        descriptors.map((descriptor: GPUTextureDescriptor) => descriptor.format)
+      ).toEqual(["rg16float", "depth32float", "rgba16float", "rgba16float"]);
+      for (const descriptor of descriptors) {
+        expect(descriptor.size).toEqual([800, 600]);
+      }
+    });
+
+    it("should alternate between the history textures", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+
+      const first = renderFrame(pass);
+      const second = renderFrame(pass);
+      const third = renderFrame(pass);
+
+      expect(first).not.toBe(input);
+      expect(second).not.toBe(first);
+      expect(third).toBe(first);
+    });
+
+    it("should discard the history on the first frame, then keep it", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      pass.settings.feedback = 0.8;
+
+      renderFrame(pass);
+      const first = getResolveUniforms();
+      renderFrame(pass);
+      const second = getResolveUniforms();
+
+      expect(first[16]).toBeCloseTo(0.8, 6);
+      expect(first[17]).toBe(0);
+      expect(second[17]).toBe(1);
+    });
+
+    it("should discard the history when the camera or size changes", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderFrame(pass);
+      renderFrame(pass);
+
+      camera = new PerspectiveCamera();
+      camera.updateWorldMatrix(false, false);
+      renderFrame(pass);
+      expect(getResolveUniforms()[17]).toBe(0);
+
+      renderFrame(pass);
+      input = createInput(400, 300);
+      renderFrame(pass);
+      expect(getResolveUniforms()[17]).toBe(0);
+      const textures = (mockDevice.createTexture as any).mock.results;
+      expect(textures[0].value.destroy).toHaveBeenCalled();
+    });
+
+    it("should reproject by the camera movement since the previous frame", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderFrame(pass);
+      const identity = new Matrix4().data;
+      getResolveUniforms()
+        .subarray(0, 16)
+        .forEach((value, i) => expect(value).toBeCloseTo(identity[i], 5));
+
+      camera.position.set(1, 0, 0);
+      camera.updateWorldMatrix(false, false);
+      renderFrame(pass);
+
+      const reprojection = Matrix4.fromArray(
+        getResolveUniforms().subarray(0, 16)
+      );
+      const point = new Vector3(0.2, 0.1, 0.5);
+      // A fixed world point moves left on screen as the camera moves right
+      expect(reprojection.transformPoint(point).x).toBeGreaterThan(point.x);
+    });
+
+    it("should release the textures when disabled", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderFrame(pass);
+
+      pass.settings.enabled = false;
+      renderFrame(pass);
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe("dispose", () => {
+    it("should destroy the textures and buffers", () => {
+      const pass = createPass();
+      pass.settings.enabled = true;
+      renderFrame(pass);
+
+      pass.dispose();
+
+      const textures = (mockDevice.createTexture as any).mock.results;
+      for (const { value } of textures) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+      const buffers = (mockDevice.createBuffer as any).mock.results;
+      for (const { value } of buffers) {
+        expect(value.destroy).toHaveBeenCalled();
+      }
+    });
+  });
+});
+
+function createMockMesh(): any {
+  return {
+    geometry: new BoxGeometry(),
+    worldMatrix: new Matrix4(),
+    vertexCount: 3,
+    material: {
+      getPrimitiveTopology: () => "triangle-list",
+      getVertexBufferLayout: () => ({ arrayStride: 32, attributes: [] }),
+    },
+  };
+}
@@ -0,0 +1,415 @@
+import type { Matrix4 } from "@web-real/math";
+import type { Camera } from "../camera/Camera";
+import type { Mesh } from "../scene/Mesh";
+import fullscreenVertexShader from "../shaders/postprocessing/fullscreen.vert.wgsl?raw";
+import taaShader from "../shaders/temporalAntialiasing/taa.wgsl?raw";
+import type { Texture } from "../texture/Texture";
+import { DEPTH_FORMAT } from "./DepthRenderer";
+import { halton } from "./Halton";
+import type { MeshResourceCache } from "./MeshResourceCache";
+import { MOTION_VECTOR_FORMAT, MotionVectorPass } from "./MotionVectorPass";
+import { RenderTarget } from "./RenderTarget";
+import { HDR_FORMAT } from "./RenderTargets";
+
+/** Number of jitter positions before the Halton sequence repeats. */
+const JITTER_SEQUENCE_LENGTH = 8;
+
+/** Byte size of the Uniforms struct in shaders/temporalAntialiasing/taa.wgsl. */
+const UNIFORMS_SIZE = 80;
+
+/**
+ * Temporal anti-aliasing settings, exposed as Renderer.temporalAntialiasing.
+ */
+export interface TemporalAntialiasingSettings {
+  /** Whether canvas frames are jittered and accumulated over time (default: false) */
+  enabled: boolean;
+  /** History weight of static pixels (0-1); higher values smooth more but respond slower (default: 0.9) */
+  feedback: number;
+}
+
+/**
+ * Motion, depth and history textures at the render size.
+ */
+interface TemporalTargets {
+  width: number;
+  height: number;
+  motion: GPUTexture;
+  depth: GPUTexture;
+  /** Ping-pong pair: one holds the previous result while the other receives the new one */
+  history: [RenderTarget, RenderTarget];
+}
+
+/**
+ * Temporal anti-aliasing (TAA): every frame is rendered with the camera offset
+ * by a different sub-pixel position and blended with the previous frames, so
+ * thin details and specular highlights that MSAA misses stop shimmering.
+ *
+ * Each frame the pass:
+ * 1. jitters the camera projection along a Halton (2, 3) sequence before drawing,
+ * 2. draws the opaque meshes into a motion vector texture (see MotionVectorPass),
+ * 3. resolves the HDR frame against the history reprojected by those motion
+ *    vectors, clipping the history to the current neighbourhood colors and
+ *    rejecting it where it is off-screen.
+ *
+ * While disabled no work is recorded and the history is released.
+ *
+ * @example
+ * ```ts
+ * const taaPass = new TemporalAntialiasingPass({ device, meshResources });
+ * taaPass.settings.enabled = true;
+ *
+ * taaPass.jitterCamera(camera, width, height);
+ * // ... draw the frame into sceneTarget
+ * const resolved = taaPass.render({ commandEncoder, meshes: opaqueMeshes, camera, input: sceneTarget.texture });
+ * camera.clearJitter();
+ * ```
+ */
+export class TemporalAntialiasingPass {
+  /** Parameters read at the start of every render() call */
+  public readonly settings: TemporalAntialiasingSettings = {
+    enabled: false,
+    feedback: 0.9,
+  };
+
+  private _device: GPUDevice;
+  private _motionVectorPass: MotionVectorPass;
+
+  private _bindGroupLayout?: GPUBindGroupLayout;
+  private _pipeline?: GPURenderPipeline;
+  private _sampler?: GPUSampler;
+  private _uniformBuffer?: GPUBuffer;
+  private _uniformData: ArrayBuffer = new ArrayBuffer(UNIFORMS_SIZE);
+  private _targets?: TemporalTargets;
+  private _bindGroups: WeakMap<GPUTexture, [GPUBindGroup, GPUBindGroup]> =
+    new WeakMap();
+
+  private _frame: number = 0;
+  private _historyIndex: number = 0;
+  private _historyValid: boolean = false;
+  private _camera?: Camera;
+  private _viewProjectionMatrix?: Matrix4;
+  private _previousViewProjectionMatrix?: Matrix4;
+
+  /**
+   * Creates a new TemporalAntialiasingPass.
+   * @param options - Construction options
+   * @param options.device - The WebGPU device used to create textures, buffers, and pipelines
+   * @param options.meshResources - Mesh resource cache providing vertex and index buffers
+   */
+  constructor(options: {
+    device: GPUDevice;
+    meshResources: MeshResourceCache;
+  }) {
+    this._device = options.device;
+    this._motionVectorPass = new MotionVectorPass(options);
+  }
+
+  /**
+   * Offsets the camera projection by the next sub-pixel position of the jitter
+   * sequence and remembers its unjittered view-projection. Must be called before
+   * anything of the frame is drawn; clear the jitter once the frame is recorded.
+   * @param camera - Camera the frame is rendered from
+   * @param width - Render target width in pixels
+   * @param height - Render target height in pixels
+   */
+  jitterCamera(camera: Camera, width: number, height: number): void {
+    this._viewProjectionMatrix = camera.projectionMatrix.multiply(
+      camera.viewMatrix
+    );
+
+    const index = (this._frame % JITTER_SEQUENCE_LENGTH) + 1;
+    camera.setJitter(
+      halton(index, 2) - 0.5,
+      halton(index, 3) - 0.5,
+      Math.max(1, width),
+      Math.max(1, height)
+    );
+    this._frame++;
+  }
+
+  /**
+   * Records the motion vector and resolve passes, or releases the history if disabled.
+   * Must run after the frame is drawn into the input.
+   * @param options - Render options
+   * @param options.commandEncoder - Command encoder used to record the passes
+   * @param options.meshes - Opaque meshes that write motion vectors; only triangle-list meshes are drawn
+   * @param options.camera - Camera the frame is rendered from, jittered by jitterCamera()
+   * @param options.input - Resolved HDR color of the frame
+   * @returns The anti-aliased frame, or the input while disabled
+   */
+  render(options: {
+    commandEncoder: GPUCommandEncoder;
+    meshes: Mesh[];
+    camera: Camera;
+    input: Texture;
+  }): Texture {
+    if (!this.settings.enabled) {
+      this._releaseTargets();
+      return options.input;
+    }
+
+    const { commandEncoder, camera, input } = options;
+    const targets = this._ensureTargets(input.width, input.height);
+    const jitteredViewProjection = camera.projectionMatrix.multiply(
+      camera.viewMatrix
+    );
+    const viewProjection = this._viewProjectionMatrix ?? jitteredViewProjection;
+
+    // A different camera has no usable history
+    if (camera !== this._camera) {
+      this._camera = camera;
+      this._historyValid = false;
+      this._motionVectorPass.reset();
+    }
+    const previousViewProjection = this._historyValid
+      ? this._previousViewProjectionMatrix!
+      : viewProjection;
+
+    this._motionVectorPass.render({
+      commandEncoder,
+      meshes: options.meshes,
+      viewProjectionMatrix: jitteredViewProjection,
+      currentViewProjectionMatrix: viewProjection,
+      previousViewProjectionMatrix: previousViewProjection,
+      target: targets.motion.createView(),
+      depthTarget: targets.depth.createView(),
+    });
+
+    this._writeUniforms(
+      previousViewProjection.multiply(viewProjection.inverse())
+    );
+
+    const readIndex = this._historyIndex;
+    const writeIndex = 1 - readIndex;
+    const output = targets.history[writeIndex];
+    const passEncoder = commandEncoder.beginRenderPass({
+      label: "Temporal Anti-Aliasing Resolve Pass",
+      colorAttachments: [
+        {
+          view: output.texture.gpuTexture.createView(),
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    passEncoder.setPipeline(this._getPipeline());
+    passEncoder.setBindGroup(
+      0,
+      this._getBindGroups(input.gpuTexture)[readIndex]
+    );
+    passEncoder.draw(3);
+    passEncoder.end();
+
+    this._historyIndex = writeIndex;
+    this._historyValid = true;
+    this._previousViewProjectionMatrix = viewProjection;
+    this._viewProjectionMatrix = undefined;
+    return output.texture;
+  }
+
+  /**
+   * Destroys all GPU resources owned by this pass.
+   */
+  dispose(): void {
+    this._releaseTargets();
+    this._motionVectorPass.dispose();
+    this._uniformBuffer?.destroy();
+
+    this._uniformBuffer = undefined;
+  }
+
+  /**
+   * Writes the Uniforms struct of shaders/temporalAntialiasing/taa.wgsl:
+   * reprojection (64 bytes), feedback, historyValid.
+   */
+  private _writeUniforms(reprojection: Matrix4): void {
+    const floats = new Float32Array(this._uniformData);
+    floats.set(reprojection.data, 0);
+    floats[16] = Math.min(1, Math.max(0, this.settings.feedback));
+    floats[17] = this._historyValid ? 1 : 0;
+
+    this._device.queue.writeBuffer(
+      this._getUniformBuffer(),
+      0,
+      this._uniformData
+    );
+  }
+
+  private _getUniformBuffer(): GPUBuffer {
+    if (!this._uniformBuffer) {
+      this._uniformBuffer = this._device.createBuffer({
+        label: "Temporal Anti-Aliasing Uniform Buffer",
+        size: UNIFORMS_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+    }
+    return this._uniformBuffer;
+  }
+
+  /**
+   * Returns the textures at the given size, recreating them and discarding the history after a resize.
+   */
+  private _ensureTargets(width: number, height: number): TemporalTargets {
+    if (this._targets?.width === width && this._targets.height === height) {
+      return this._targets;
+    }
+    this._releaseTargets();
+
+    const createTexture = (
+      label: string,
+      format: GPUTextureFormat
+    ): GPUTexture =>
+      this._device.createTexture({
+        label,
+        size: [width, height],
+        format,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+      });
+    const createHistory = (label: string): RenderTarget =>
+      new RenderTarget(this._device, {
+        width,
+        height,
+        format: HDR_FORMAT,
+        depth: false,
+        label,
+      });
+
+    this._targets = {
+      width,
+      height,
+      motion: createTexture(
+        "Temporal Anti-Aliasing Motion Vectors",
+        MOTION_VECTOR_FORMAT
+      ),
+      depth: createTexture("Temporal Anti-Aliasing Depth", DEPTH_FORMAT),
+      history: [
+        createHistory("Temporal Anti-Aliasing History A"),
+        createHistory("Temporal Anti-Aliasing History B"),
+      ],
+    };
+    return this._targets;
+  }
+
+  private _releaseTargets(): void {
+    this._historyValid = false;
+    this._previousViewProjectionMatrix = undefined;
+    this._viewProjectionMatrix = undefined;
+    this._camera = undefined;
+    if (!this._targets) return;
+
+    this._targets.motion.destroy();
+    this._targets.depth.destroy();
+    this._targets.history[0].dispose();
+    this._targets.history[1].dispose();
+    this._targets = undefined;
+    this._bindGroups = new WeakMap();
+  }
+
+  /**
+   * Returns the resolve bind groups reading the input, one per history texture
+   * being read, creating them on first use.
+   */
+  private _getBindGroups(input: GPUTexture): [GPUBindGroup, GPUBindGroup] {
+    let bindGroups = this._bindGroups.get(input);
+    if (!bindGroups) {
+      const targets = this._targets!;
+      const createBindGroup = (history: RenderTarget): GPUBindGroup =>
+        this._device.createBindGroup({
+          label: "Temporal Anti-Aliasing Bind Group",
+          layout: this._getBindGroupLayout(),
+          entries: [
+            { binding: 0, resource: input.createView() },
+            { binding: 1, resource: history.texture.gpuTexture.createView() },
+            { binding: 2, resource: targets.motion.createView() },
+            { binding: 3, resource: targets.depth.createView() },
+            { binding: 4, resource: this._getSampler() },
+            { binding: 5, resource: { buffer: this._getUniformBuffer() } },
+          ],
+        });
+      bindGroups = [
+        createBindGroup(targets.history[0]),
+        createBindGroup(targets.history[1]),
+      ];
+      this._bindGroups.set(input, bindGroups);
+    }
+    return bindGroups;
+  }
+
+  private _getSampler(): GPUSampler {
+    if (!this._sampler) {
+      this._sampler = this._device.createSampler({
+        label: "Temporal Anti-Aliasing History Sampler",
+        magFilter: "linear",
+        minFilter: "linear",
+        addressModeU: "clamp-to-edge",
+        addressModeV: "clamp-to-edge",
+      });
+    }
+    return this._sampler;
+  }
+
+  private _getBindGroupLayout(): GPUBindGroupLayout {
+    if (!this._bindGroupLayout) {
+      const textureEntry = (
+        binding: number,
+        sampleType: GPUTextureSampleType
+      ): GPUBindGroupLayoutEntry => ({
+        binding,
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType },
+      });
+      this._bindGroupLayout = this._device.createBindGroupLayout({
+        label: "Temporal Anti-Aliasing Bind Group Layout",
+        entries: [
+          textureEntry(0, "float"),
+          textureEntry(1, "float"),
+          textureEntry(2, "float"),
+          textureEntry(3, "depth"),
+          {
+            binding: 4,
+            visibility: GPUShaderStage.FRAGMENT,
+            sampler: { type: "filtering" },
+          },
+          {
+            binding: 5,
+            visibility: GPUShaderStage.FRAGMENT,
+            buffer: { type: "uniform" },
+          },
+        ],
+      });
+    }
+    return this._bindGroupLayout;
+  }
+
+  private _getPipeline(): GPURenderPipeline {
+    if (!this._pipeline) {
+      this._pipeline = this._device.createRenderPipeline({
+        label: "Temporal Anti-Aliasing Resolve Pipeline",
+        layout: this._device.createPipelineLayout({
+          bindGroupLayouts: [this._getBindGroupLayout()],
+        }),
+        vertex: {
+          module: this._device.createShaderModule({
+            label: "Temporal Anti-Aliasing Vertex Shader",
+            code: fullscreenVertexShader,
+          }),
+          entryPoint: "main",
+        },
+        fragment: {
+          module: this._device.createShaderModule({
+            label: "Temporal Anti-Aliasing Fragment Shader",
+            code: taaShader,
+          }),
+          entryPoint: "main",
+          targets: [{ format: HDR_FORMAT }],
+        },
+        primitive: {
+          topology: "triangle-list",
+        },
+      });
+    }
+    return this._pipeline;
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "bun:test";
+import { Color, Matrix4, Vector3 } from "@web-real/math";
+import { InstancedMesh } from "./InstancedMesh";
+import { Mesh } from "./Mesh";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BasicMaterial } from "../material/BasicMaterial";
+
+describe("InstancedMesh", () => {
+  function createMesh(count = 3): InstancedMesh {
+    const geometry = new BoxGeometry(2, 2, 2);
+    return new InstancedMesh(geometry, new BasicMaterial(), count);
+  }
+
+  describe("constructor", () => {
+    it("should be a Mesh with the given instance count", () => {
+      const mesh = createMesh(4);
+
+      expect(mesh).toBeInstanceOf(Mesh);
+      expect(mesh.count).toBe(4);
+      expect(mesh.instancesNeedUpdate).toBe(true);
+    });
+
+    it("should initialize every instance to the identity transform", () => {
+      const mesh = createMesh(2);
+
+      expect(mesh.instanceMatrices).toHaveLength(32);
+      expect(Array.from(mesh.getMatrixAt(1).data)).toEqual(
+        Array.from(new Matrix4().data)
+      );
+    });
+
+    it("should have no instance colors by default", () => {
+      const mesh = createMesh();
+
+      expect(mesh.instanceColors).toBeNull();
+      expect(mesh.getColorAt(0)).toEqual(new Color(1, 1, 1));
+    });
+
+    it("should throw for a negative or fractional count", () => {
+      expect(() => createMesh(-1)).toThrow(
+        "InstancedMesh count must be a non-negative integer (got -1)"
+      );
+      expect(() => createMesh(1.5)).toThrow(
+        "InstancedMesh count must be a non-negative integer (got 1.5)"
+      );
+    });
+  });
+
+  describe("setMatrixAt/getMatrixAt", () => {
+    it("should store the instance transform", () => {
+      const mesh = createMesh();
+      const matrix = Matrix4.translation(new Vector3(1, 2, 3));
+
+      mesh.setMatrixAt(1, matrix);
+
+      expect(Array.from(mesh.getMatrixAt(1).data)).toEqual(
+        Array.from(matrix.data)
+      );
+      expect(Array.from(mesh.instanceMatrices.subarray(16, 32))).toEqual(
+        Array.from(matrix.data)
+      );
+    });
+
+    it("should return a copy of the instance transform", () => {
+      const mesh = createMesh();
+
+      mesh.getMatrixAt(0).data[12] = 10;
+
+      expect(mesh.getMatrixAt(0).data[12]).toBe(0);
+    });
+
+    it("should flag the instance buffer for upload", () => {
+      const mesh = createMesh();
+      mesh.instancesNeedUpdate = false;
+
+      mesh.setMatrixAt(0, new Matrix4());
+
+      expect(mesh.instancesNeedUpdate).toBe(true);
+    });
+
+    it("should throw for an out-of-range index", () => {
+      const mesh = createMesh(3);
+
+      expect(() => mesh.setMatrixAt(3, new Matrix4())).toThrow(
+        "Instance index 3 is out of range [0, 3)"
+      );
+      expect(() => mesh.getMatrixAt(-1)).toThrow(
+        "Instance index -1 is out of range [0, 3)"
+      );
+    });
+  });
+
+  describe("setColorAt/getColorAt", () => {
+    it("should store the color and default the others to white", () => {
+      const mesh = createMesh(2);
+
+      mesh.setColorAt(1, [1, 0, 0.5]);
+
+      expect(Array.from(mesh.instanceColors!)).toEqual([1, 1, 1, 1, 0, 0.5]);
+      expect(mesh.getColorAt(1)).toEqual(new Color(1, 0, 0.5));
+    });
+
+    it("should accept a Color", () => {
+      const mesh = createMesh();
+
+      mesh.setColorAt(0, new Color(0, 1, 0));
+
+      expect(mesh.getColorAt(0)).toEqual(new Color(0, 1, 0));
+    });
+
+    it("should flag the instance buffer for upload", () => {
+      const mesh = createMesh();
+      mesh.instancesNeedUpdate = false;
+
+      mesh.setColorAt(0, [0, 0, 0]);
+
+      expect(mesh.instancesNeedUpdate).toBe(true);
+    });
+  });
+
+  describe("boundingBox", () => {
+    it("should enclose every instance in mesh space", () => {
+      const mesh = createMesh(2);
+      mesh.setMatrixAt(0, Matrix4.translation(new Vector3(-5, 0, 0)));
+      mesh.setMatrixAt(1, Matrix4.translation(new Vector3(5, 2, 0)));
+
+      const box = mesh.boundingBox;
+
+      expect(box.min).toEqual(new Vector3(-6, -1, -1));
+      expect(box.max).toEqual(new Vector3(6, 3, 1));
+    });
+
+    it("should keep the geometry box separately", () => {
+      const mesh = createMesh(1);
+      mesh.setMatrixAt(0, Matrix4.translation(new Vector3(10, 0, 0)));
+
+      expect(mesh.geometryBoundingBox.min).toEqual(new Vector3(-1, -1, -1));
+      expect(mesh.geometryBoundingBox.max).toEqual(new Vector3(1, 1, 1));
+    });
+
+    it("should be recomputed after an instance transform changes", () => {
+      const mesh = createMesh(1);
+      const before = mesh.boundingBox;
+
+      mesh.setMatrixAt(0, Matrix4.scaling(new Vector3(2, 2, 2)));
+
+      expect(mesh.boundingBox).not.toBe(before);
+      expect(mesh.boundingBox.max).toEqual(new Vector3(2, 2, 2));
+    });
+
+    it("should be empty when there are no instances", () => {
+      expect(createMesh(0).boundingBox.isEmpty()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { BoundingBox, Color, Matrix4 } from "@web-real/math";
+import type { Geometry } from "../geometry/Geometry";
+import type { Material } from "../material/Material";
+import { Mesh } from "./Mesh";
+
+/**
+ * A mesh drawn many times in a single draw call, each instance with its own
+ * transform and optional color. Instance transforms are relative to the mesh,
+ * so moving the InstancedMesh moves every instance.
+ *
+ * The material must support instancing (all built-in mesh materials except
+ * ShaderMaterial and SkyboxMaterial do).
+ *
+ * @example
+ * ```ts
+ * const rocks = new InstancedMesh(rockGeometry, new PBRMaterial(), 1000);
+ * for (let i = 0; i < rocks.count; i++) {
+ *   rocks.setMatrixAt(i, Matrix4.translation(new Vector3(i * 2, 0, 0)));
+ *   rocks.setColorAt(i, [Math.random(), 0.5, 0.5]);
+ * }
+ * scene.add(rocks);
+ * ```
+ */
+export class InstancedMesh extends Mesh {
+  /** Number of instances */
+  readonly count: number;
+  /** Set to true when instance matrices or colors change and the GPU instance buffer needs to be updated */
+  public instancesNeedUpdate: boolean = true;
+
+  private _instanceMatrices: Float32Array;
+  private _instanceColors: Float32Array | null = null;
+  private _instanceBoundingBox: BoundingBox | null = null;
+  private _instanceBoundingBoxSource: BoundingBox | null = null;
+
+  /**
+   * Creates a new InstancedMesh with every instance at the identity transform.
+   * @param geometry - Geometry shared by all instances
+   * @param material - Material shared by all instances; must support instancing
+   * @param count - Number of instances
+   */
+  constructor(geometry: Geometry, material: Material, count: number) {
+    super(geometry, material);
+
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(
+        `InstancedMesh count must be a non-negative integer (got ${count})`
+      );
+    }
+
+    this.count = count;
+    this._instanceMatrices = new Float32Array(count * 16);
+    const identity = new Matrix4().data;
+    for (let i = 0; i < count; i++) {
+      this._instanceMatrices.set(identity, i * 16);
+    }
+  }
+
+  /**
+   * Instance transforms as consecutive column-major 4x4 matrices (16 floats per instance).
+   * Treat as read-only; setMatrixAt() also keeps the bounding box up to date.
+   */
+  get instanceMatrices(): Float32Array {
+    return this._instanceMatrices;
+  }
+
+  /**
+   * Instance colors as consecutive RGB triples, or null if no color was ever set.
+   * Treat as read-only; use setColorAt().
+   */
+  get instanceColors(): Float32Array | null {
+    return this._instanceColors;
+  }
+
+  /**
+   * Gets the bounding box of all instances in the mesh's local space.
+   * Recomputed after instance matrices or the geometry change.
+   */
+  get boundingBox(): BoundingBox {
+    const geometryBox = this.geometryBoundingBox;
+    if (
+      this._instanceBoundingBox === null ||
+      this._instanceBoundingBoxSource !== geometryBox
+    ) {
+      let box = new BoundingBox();
+      for (let i = 0; i < this.count; i++) {
+        box = box.union(geometryBox.applyMatrix4(this.getMatrixAt(i)));
+      }
+      this._instanceBoundingBox = box;
+      this._instanceBoundingBoxSource = geometryBox;
+    }
+    return this._instanceBoundingBox;
+  }
+
+  /**
+   * Gets the bounding box of the shared geometry, before instance transforms.
+   */
+  get geometryBoundingBox(): BoundingBox {
+    return super.boundingBox;
+  }
+
+  /**
+   * Sets the transform of an instance, relative to the mesh.
+   * @param index - Instance index
+   * @param matrix - Instance transform
+   * @returns This mesh for chaining
+   */
+  setMatrixAt(index: number, matrix: Matrix4): this {
+    this._validateIndex(index);
+    this._instanceMatrices.set(matrix.data, index * 16);
+    this._instanceBoundingBox = null;
+    this.instancesNeedUpdate = true;
+    return this;
+  }
+
+  /**
+   * Gets the transform of an instance, relative to the mesh.
+   * @param index - Instance index
+   * @returns A new Matrix4 with the instance transform
+   */
+  getMatrixAt(index: number): Matrix4 {
+    this._validateIndex(index);
+    const matrix = new Matrix4();
+    matrix.data.set(
+      this._instanceMatrices.subarray(index * 16, index * 16 + 16)
+    );
+    return matrix;
+  }
+
+  /**
+   * Sets the color of an instance, multiplied with the material color.
+   * Instances whose color was never set are white.
+   * @param index - Instance index
+   * @param color - Instance color as a Color or RGB tuple (0..1)
+   * @returns This mesh for chaining
+   */
+  setColorAt(index: number, color: Color | [number, number, number]): this {
+    this._validateIndex(index);
+    if (this._instanceColors === null) {
+      this._instanceColors = new Float32Array(this.count * 3).fill(1);
+    }
+    const { r, g, b } = Color.from(color);
+    this._instanceColors.set([r, g, b], index * 3);
+    this.instancesNeedUpdate = true;
+    return this;
+  }
+
+  /**
+   * Gets the color of an instance.
+   * @param index - Instance index
+   * @returns A new Color (white if no instance colors were set)
+   */
+  getColorAt(index: number): Color {
+    this._validateIndex(index);
+    if (this._instanceColors === null) {
+      return new Color(1, 1, 1);
+    }
+    const offset = index * 3;
+    return new Color(
+      this._instanceColors[offset],
+      this._instanceColors[offset + 1],
+      this._instanceColors[offset + 2]
+    );
+  }
+
+  private _validateIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count) {
+      throw new Error(
+        `Instance index ${index} is out of range [0, ${this.count})`
+      );
+    }
+  }
+}
@@ -1,8 +1,10 @@
 import { describe, it, expect } from "bun:test";
 import { Mesh } from "./Mesh";
 import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
 import { BasicMaterial } from "../material/BasicMaterial";
 import { VertexColorMaterial } from "../material/VertexColorMaterial";
+import { PBRMaterial } from "../material/PBRMaterial";
 import { Color, BoundingBox } from "@web-real/math";
 
 describe("Mesh", () => {
@@ -121,6 +123,42 @@ describe("Mesh", () => {
     });
   });
 
+  describe("morphTargetInfluences", () => {
+    function createMorphedGeometry(targetCount: number): BufferGeometry {
+      return new BufferGeometry({
+        positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+        morphTargets: Array.from({ length: targetCount }, () => ({
+          positions: new Float32Array([0, 0, 0, 0, 0, 0, 0, 0, 2]),
+        })),
+      });
+    }
+
+    it("should start with one zero influence per morph target", () => {
+      const mesh = new Mesh(createMorphedGeometry(2), new PBRMaterial());
+      const plain = new Mesh(new BoxGeometry(), new BasicMaterial());
+
+      expect(mesh.morphTargetInfluences).toEqual([0, 0]);
+      expect(plain.morphTargetInfluences).toEqual([]);
+    });
+
+    it("should resize the same array when the geometry changes", () => {
+      const mesh = new Mesh(createMorphedGeometry(2), new PBRMaterial());
+      const influences = mesh.morphTargetInfluences;
+      influences[0] = 1;
+
+      mesh.geometry = createMorphedGeometry(3);
+
+      expect(mesh.morphTargetInfluences).toBe(influences);
+      expect(influences).toEqual([0, 0, 0]);
+    });
+
+    it("should include the morph targets in the bounding box", () => {
+      const mesh = new Mesh(createMorphedGeometry(2), new PBRMaterial());
+
+      expect(mesh.boundingBox.max.z).toBe(4);
+    });
+  });
+
   describe("indices", () => {
     it("should return the geometry indices", () => {
       const geometry = new BoxGeometry(2, 2, 2);
@@ -362,6 +400,37 @@ describe("Mesh", () => {
       });
     });
 
+    describe("pbr material", () => {
+      it("should interleave position, normal, uv, tangent and bitangent", () => {
+        const mesh = new Mesh(new BoxGeometry(), new PBRMaterial());
+
+        const data = mesh.getInterleavedVertices();
+
+        expect(data.length).toBe(mesh.vertexCount * 14);
+        expect(data.length * 4).toBe(
+          mesh.vertexCount * mesh.material.getVertexBufferLayout().arrayStride
+        );
+      });
+
+      it("should throw error if geometry lacks UV coordinates", () => {
+        const geometry = {
+          positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+          normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+          uvs: undefined,
+          indices: new Uint16Array([0, 1, 2]),
+          vertexCount: 3,
+          indexCount: 3,
+        } as any;
+
+        const material = { type: "pbr" } as any;
+        const mesh = new Mesh(geometry, material);
+
+        expect(() => mesh.getInterleavedVertices()).toThrow(
+          "PBRMaterial requires geometry with UV coordinates"
+        );
+      });
+    });
+
     describe("line material", () => {
       it("should return only positions for line material", () => {
         const geometry = new BoxGeometry(2, 2, 2);
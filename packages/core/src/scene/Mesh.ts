@@ -12,11 +12,22 @@ export class Mesh extends Object3D {
   public material: Material;
   /** Set to true when geometry data changes and GPU buffers need to be updated */
   public needsUpdate: boolean = false;
+  /** Whether this mesh is rendered into shadow maps */
+  public castShadow: boolean = false;
+  /** Whether this mesh samples shadow maps when shaded */
+  public receiveShadow: boolean = false;
+  /**
+   * Weight of each of the geometry's morph targets, usually in [0, 1].
+   * Resized in place (and reset to 0) when the geometry changes, so it can be
+   * animated with a PropertyBinding path like "Face.morphTargetInfluences.0".
+   */
+  public readonly morphTargetInfluences: number[] = [];
 
   constructor(geometry: Geometry, material: Material) {
     super();
     this._geometry = geometry;
     this.material = material;
+    this._resetMorphTargetInfluences();
   }
 
   get geometry(): Geometry {
@@ -27,16 +38,18 @@ export class Mesh extends Object3D {
     this._geometry = value;
     this._boundingBox = null; // Invalidate bounding box cache
     this.needsUpdate = true;
+    this._resetMorphTargetInfluences();
   }
 
   /**
    * Gets the cached bounding box for this mesh's geometry.
    * The bounding box is computed once and cached for performance.
    * Cache is invalidated when geometry changes.
+   * Includes the extent of the morph targets, so culling holds for any influences in [0, 1].
    */
   get boundingBox(): BoundingBox {
     if (this._boundingBox === null) {
-      this._boundingBox = computeBoundingBox(this._geometry);
+      this._boundingBox = computeBoundingBox(this._geometry, true);
     }
     return this._boundingBox;
   }
@@ -53,6 +66,12 @@ export class Mesh extends Object3D {
     return this.geometry.indexCount;
   }
 
+  private _resetMorphTargetInfluences(): void {
+    const count = this._geometry.morphTargets?.length ?? 0;
+    this.morphTargetInfluences.length = count;
+    this.morphTargetInfluences.fill(0);
+  }
+
   /**
    * Generates wireframe indices from triangle indices.
    * Converts each triangle (a, b, c) to three line segments (a-b, b-c, c-a).
@@ -245,12 +264,15 @@ export class Mesh extends Object3D {
         return data;
       }
 
-      case "blinnPhong": {
-        // BlinnPhong material needs position + normal + uv + tangent + bitangent for normal mapping
+      case "blinnPhong":
+      case "pbr": {
+        // BlinnPhong and PBR materials need position + normal + uv + tangent + bitangent for normal mapping
         const uvs = this.geometry.uvs;
         if (!uvs) {
+          const materialName =
+            this.material.type === "pbr" ? "PBRMaterial" : "BlinnPhongMaterial";
           throw new Error(
-            "BlinnPhongMaterial requires geometry with UV coordinates"
+            `${materialName} requires geometry with UV coordinates`
           );
         }
 
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "bun:test";
 import { Object3D } from "./Object3D";
-import { Vector3, Matrix4 } from "@web-real/math";
+import { Vector3, Matrix4, Quaternion } from "@web-real/math";
 
 describe("Object3D", () => {
   describe("constructor", () => {
@@ -449,6 +449,134 @@ describe("Object3D", () => {
     });
   });
 
+  describe("getObjectByName", () => {
+    it("should find the first matching object depth-first", () => {
+      const root = new Object3D();
+      const arm = new Object3D();
+      const hand = new Object3D();
+      const otherHand = new Object3D();
+      arm.name = "arm";
+      hand.name = "hand";
+      otherHand.name = "hand";
+      root.add(arm);
+      arm.add(hand);
+      root.add(otherHand);
+
+      expect(root.getObjectByName("hand")).toBe(hand);
+      expect(root.getObjectByName("arm")).toBe(arm);
+    });
+
+    it("should return undefined when no object matches", () => {
+      const root = new Object3D();
+      root.add(new Object3D());
+
+      expect(root.getObjectByName("missing")).toBeUndefined();
+    });
+  });
+
+  describe("quaternion", () => {
+    it("should follow edits of the Euler rotation", () => {
+      const obj = new Object3D();
+      obj.rotation.y = Math.PI / 2;
+
+      const q = obj.quaternion;
+      expect(q.y).toBeCloseTo(Math.SQRT1_2, 6);
+      expect(q.w).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it("should update the Euler rotation when edited", () => {
+      const obj = new Object3D();
+      obj.quaternion = Quaternion.fromAxisAngle(new Vector3(1, 0, 0), 0.5);
+
+      expect(obj.rotation.x).toBeCloseTo(0.5, 6);
+      expect(obj.rotation.y).toBeCloseTo(0, 6);
+
+      obj.quaternion.set(0, 0, Math.sin(0.25), Math.cos(0.25));
+      expect(obj.rotation.x).toBeCloseTo(0, 6);
+      expect(obj.rotation.z).toBeCloseTo(0.5, 6);
+    });
+
+    it("should drive the local matrix", () => {
+      const obj = new Object3D();
+      obj.quaternion = Quaternion.fromAxisAngle(new Vector3(0, 0, 1), 0.3);
+      obj.updateMatrix();
+
+      const expected = Matrix4.rotationZ(0.3);
+      for (let i = 0; i < 16; i++) {
+        expect(obj.localMatrix.data[i]).toBeCloseTo(expected.data[i], 5);
+      }
+    });
+
+    it("should apply the Euler rotation in the configured order", () => {
+      const obj = new Object3D();
+      obj.rotationOrder = "XYZ";
+      obj.rotation.set(0.3, 0.2, 0.1);
+      obj.updateMatrix();
+
+      const expected = Matrix4.rotationX(0.3)
+        .multiply(Matrix4.rotationY(0.2))
+        .multiply(Matrix4.rotationZ(0.1));
+      for (let i = 0; i < 16; i++) {
+        expect(obj.localMatrix.data[i]).toBeCloseTo(expected.data[i], 5);
+      }
+    });
+
+    it("should keep the orientation when the order changes", () => {
+      const obj = new Object3D();
+      obj.rotation.set(0.3, 0.2, 0.1);
+      const before = obj.quaternion.clone();
+
+      obj.rotationOrder = "YXZ";
+
+      expect(obj.rotationOrder).toBe("YXZ");
+      expect(obj.rotation.x).not.toBeCloseTo(0.3, 3);
+      const reordered = Quaternion.fromEuler(obj.rotation, "YXZ");
+      expect(Math.abs(reordered.dot(before))).toBeCloseTo(1, 5);
+      expect(Math.abs(obj.quaternion.dot(before))).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe("world transform getters", () => {
+    it("should read position, rotation and scale from the world matrix", () => {
+      const parent = new Object3D();
+      parent.position.set(1, 2, 3);
+      parent.rotation.y = Math.PI / 2;
+      parent.scale.set(2, 2, 2);
+      const child = new Object3D();
+      child.position.set(1, 0, 0);
+      child.scale.set(1, 3, 1);
+      parent.add(child);
+      parent.updateWorldMatrix();
+
+      // Child +X maps to parent -Z after the Y rotation, scaled by 2
+      const position = child.getWorldPosition();
+      expect(position.x).toBeCloseTo(1, 5);
+      expect(position.y).toBeCloseTo(2, 5);
+      expect(position.z).toBeCloseTo(1, 5);
+
+      const quaternion = child.getWorldQuaternion();
+      expect(Math.abs(quaternion.y)).toBeCloseTo(Math.SQRT1_2, 5);
+      expect(Math.abs(quaternion.w)).toBeCloseTo(Math.SQRT1_2, 5);
+
+      const scale = child.getWorldScale();
+      expect(scale.x).toBeCloseTo(2, 5);
+      expect(scale.y).toBeCloseTo(6, 5);
+      expect(scale.z).toBeCloseTo(2, 5);
+    });
+
+    it("should return the world direction of the local +Z axis", () => {
+      const obj = new Object3D();
+      obj.rotation.y = Math.PI / 2;
+      obj.scale.set(5, 5, 5);
+      obj.updateWorldMatrix();
+
+      const direction = obj.getWorldDirection();
+      expect(direction.x).toBeCloseTo(1, 5);
+      expect(direction.y).toBeCloseTo(0, 5);
+      expect(direction.z).toBeCloseTo(0, 5);
+    });
+  });
+
   describe("visibility", () => {
     it("should allow toggling visibility", () => {
       const obj = new Object3D();
@@ -1,13 +1,27 @@
-import { Matrix4, Vector3 } from "@web-real/math";
+import {
+  Matrix4,
+  Quaternion,
+  Vector3,
+  type EulerOrder,
+} from "@web-real/math";
 
 export class Object3D {
   private _position: Vector3 = new Vector3(0, 0, 0);
   private _rotation: Vector3 = new Vector3(0, 0, 0);
+  private _quaternion: Quaternion = new Quaternion();
+  private _rotationOrder: EulerOrder = "ZYX";
   private _scale: Vector3 = new Vector3(1, 1, 1);
+  /** Rotation and quaternion components as of the last sync, to detect which one was edited */
+  private _syncedRotation: number[] = [0, 0, 0];
+  private _syncedQuaternion: number[] = [0, 0, 0, 1];
+  /** Optional name, e.g. the node name from a loaded model */
+  public name: string = "";
   public parent: Object3D | null = null;
   public readonly children: Object3D[] = [];
   /** Whether this object is visible and should be rendered */
   public visible: boolean = true;
+  /** Whether to skip rendering when the bounds are outside the camera frustum */
+  public frustumCulled: boolean = true;
   /** Local transformation matrix (TRS) */
   public readonly localMatrix: Matrix4 = new Matrix4();
   /** World transformation matrix (includes parent transforms) */
@@ -21,7 +35,12 @@ export class Object3D {
     this._position = value;
   }
 
+  /**
+   * Euler rotation in radians, applied in rotationOrder.
+   * Kept in sync with quaternion; if both are edited between reads, the Euler rotation wins.
+   */
   get rotation(): Vector3 {
+    this._syncRotation();
     return this._rotation;
   }
 
@@ -29,6 +48,35 @@ export class Object3D {
     this._rotation = value;
   }
 
+  /**
+   * Rotation as a quaternion, kept in sync with the Euler rotation.
+   */
+  get quaternion(): Quaternion {
+    this._syncRotation();
+    return this._quaternion;
+  }
+
+  set quaternion(value: Quaternion) {
+    this._syncRotation();
+    this._quaternion = value;
+  }
+
+  /**
+   * Order in which the Euler rotation axes are applied (default: "ZYX", i.e. X first, then Y, then Z).
+   * Changing the order keeps the orientation and re-expresses the Euler angles in the new order.
+   */
+  get rotationOrder(): EulerOrder {
+    return this._rotationOrder;
+  }
+
+  set rotationOrder(value: EulerOrder) {
+    this._syncRotation();
+    this._rotationOrder = value;
+    const euler = this._quaternion.toEuler(value);
+    this._rotation.set(euler.x, euler.y, euler.z);
+    this._syncedRotation = Array.from(this._rotation.data);
+  }
+
   get scale(): Vector3 {
     return this._scale;
   }
@@ -58,21 +106,9 @@ export class Object3D {
   /**
    * Updates the local matrix from position, rotation, and scale.
    * Applies transformations in TRS order (Scale -> Rotate -> Translate).
-   * Rotation is applied in ZYX order.
    */
   updateMatrix(): void {
-    const scaleMatrix = Matrix4.scaling(this.scale);
-
-    const rotX = Matrix4.rotationX(this.rotation.x);
-    const rotY = Matrix4.rotationY(this.rotation.y);
-    const rotZ = Matrix4.rotationZ(this.rotation.z);
-    const rotationMatrix = rotZ.multiply(rotY).multiply(rotX);
-
-    const translationMatrix = Matrix4.translation(this.position);
-
-    const result = translationMatrix
-      .multiply(rotationMatrix)
-      .multiply(scaleMatrix);
+    const result = Matrix4.compose(this.position, this.quaternion, this.scale);
     this.localMatrix.data.set(result.data);
   }
 
@@ -103,10 +139,92 @@ export class Object3D {
     }
   }
 
+  /**
+   * Gets the world-space position from the world matrix.
+   * Reflects the last updateWorldMatrix call.
+   * @returns A new Vector3 with the world position
+   */
+  getWorldPosition(): Vector3 {
+    const m = this.worldMatrix.data;
+    return new Vector3(m[12], m[13], m[14]);
+  }
+
+  /**
+   * Gets the world-space rotation from the world matrix.
+   * Reflects the last updateWorldMatrix call.
+   * @returns A new Quaternion with the world rotation
+   */
+  getWorldQuaternion(): Quaternion {
+    return this.worldMatrix.decompose().quaternion;
+  }
+
+  /**
+   * Gets the world-space scale from the world matrix.
+   * Reflects the last updateWorldMatrix call.
+   * @returns A new Vector3 with the world scale (x is negative if the transform is mirrored)
+   */
+  getWorldScale(): Vector3 {
+    return this.worldMatrix.decompose().scale;
+  }
+
+  /**
+   * Gets the direction the object's local +Z axis points to in world space.
+   * Reflects the last updateWorldMatrix call.
+   * @returns A new unit Vector3
+   */
+  getWorldDirection(): Vector3 {
+    return this.worldMatrix
+      .transformDirection(new Vector3(0, 0, 1))
+      .normalize();
+  }
+
+  /**
+   * Propagates an edit of the Euler rotation or the quaternion to the other representation.
+   */
+  private _syncRotation(): void {
+    const rotation = this._rotation.data;
+    const quaternion = this._quaternion.data;
+
+    if (!componentsEqual(rotation, this._syncedRotation)) {
+      const q = Quaternion.fromEuler(this._rotation, this._rotationOrder);
+      this._quaternion.set(q.x, q.y, q.z, q.w);
+    } else if (!componentsEqual(quaternion, this._syncedQuaternion)) {
+      const euler = this._quaternion.toEuler(this._rotationOrder);
+      this._rotation.set(euler.x, euler.y, euler.z);
+    } else {
+      return;
+    }
+
+    this._syncedRotation = Array.from(rotation);
+    this._syncedQuaternion = Array.from(quaternion);
+  }
+
   traverse(callback: (object: Object3D) => void): void {
     callback(this);
     for (const child of this.children) {
       child.traverse(callback);
     }
   }
+
+  /**
+   * Finds the first object with the given name, searching this object and then its descendants depth-first.
+   * @param name - Name to search for
+   * @returns The matching object, or undefined if there is none
+   */
+  getObjectByName(name: string): Object3D | undefined {
+    if (this.name === name) {
+      return this;
+    }
+    for (const child of this.children) {
+      const match = child.getObjectByName(name);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+}
+
+function componentsEqual(a: Float32Array, b: number[]): boolean {
+  return a.every((value, i) => value === b[i]);
 }
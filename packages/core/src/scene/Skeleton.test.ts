@@ -0,0 +1,81 @@
+import { describe, it, expect } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import { Object3D } from "./Object3D";
+import { Skeleton } from "./Skeleton";
+
+function createBones() {
+  const root = new Object3D();
+  root.name = "Root";
+  root.position.set(0, 1, 0);
+  const arm = new Object3D();
+  arm.name = "Arm";
+  arm.position.set(0, 1, 0);
+  root.add(arm);
+  return { root, arm };
+}
+
+function expectMatrixClose(actual: ArrayLike<number>, expected: Matrix4) {
+  Array.from(expected.data).forEach((value, i) =>
+    expect(actual[i]).toBeCloseTo(value, 5)
+  );
+}
+
+describe("Skeleton", () => {
+  describe("constructor", () => {
+    it("should compute bone inverses from the current pose", () => {
+      const { root, arm } = createBones();
+
+      const skeleton = new Skeleton([root, arm]);
+
+      expectMatrixClose(
+        skeleton.boneInverses[1].data,
+        Matrix4.translation(new Vector3(0, -2, 0))
+      );
+      expect(skeleton.boneMatrices).toHaveLength(32);
+    });
+
+    it("should use the given bone inverses", () => {
+      const { root, arm } = createBones();
+      const inverses = [new Matrix4(), new Matrix4()];
+
+      expect(new Skeleton([root, arm], inverses).boneInverses).toBe(inverses);
+      expect(() => new Skeleton([root, arm], [new Matrix4()])).toThrow(
+        "Skeleton has 2 bones but 1 bone inverses"
+      );
+    });
+  });
+
+  describe("update", () => {
+    it("should write identity matrices in the bind pose", () => {
+      const { root, arm } = createBones();
+      const skeleton = new Skeleton([root, arm]);
+
+      skeleton.update();
+
+      expectMatrixClose(skeleton.boneMatrices.subarray(16), new Matrix4());
+    });
+
+    it("should write the offset from the bind pose", () => {
+      const { root, arm } = createBones();
+      const skeleton = new Skeleton([root, arm]);
+
+      root.position.x = 3;
+      root.updateWorldMatrix();
+      skeleton.update();
+
+      const offset = Matrix4.translation(new Vector3(3, 0, 0));
+      expectMatrixClose(skeleton.boneMatrices.subarray(0, 16), offset);
+      expectMatrixClose(skeleton.boneMatrices.subarray(16), offset);
+    });
+  });
+
+  describe("getBoneByName", () => {
+    it("should find bones by name", () => {
+      const { root, arm } = createBones();
+      const skeleton = new Skeleton([root, arm]);
+
+      expect(skeleton.getBoneByName("Arm")).toBe(arm);
+      expect(skeleton.getBoneByName("Leg")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Matrix4 } from "@web-real/math";
+import type { Object3D } from "./Object3D";
+
+/**
+ * A set of bones that deforms one or more SkinnedMeshes. Bones are ordinary
+ * Object3Ds in the scene graph, so they can be parented, animated with an
+ * AnimationMixer or moved by hand.
+ *
+ * @example
+ * ```ts
+ * const root = new Object3D();
+ * const arm = new Object3D();
+ * arm.position.y = 1;
+ * root.add(arm);
+ *
+ * // The current pose becomes the bind pose
+ * const skeleton = new Skeleton([root, arm]);
+ * arm.rotation.z = Math.PI / 4;
+ * ```
+ */
+export class Skeleton {
+  readonly bones: Object3D[];
+  /** Inverse world matrix of each bone in the bind pose */
+  readonly boneInverses: Matrix4[];
+  /** World-space skinning matrix of each bone (bone world matrix * bone inverse), 16 floats per bone */
+  readonly boneMatrices: Float32Array;
+
+  /**
+   * Creates a new Skeleton instance.
+   * @param bones - Bones in the order referenced by the geometry's skinIndices
+   * @param boneInverses - Inverse bind matrices; computed from the current bone poses if omitted
+   * @throws {Error} If boneInverses does not have one matrix per bone
+   */
+  constructor(bones: Object3D[], boneInverses?: Matrix4[]) {
+    this.bones = bones;
+    this.boneMatrices = new Float32Array(bones.length * 16);
+
+    if (boneInverses) {
+      if (boneInverses.length !== bones.length) {
+        throw new Error(
+          `Skeleton has ${bones.length} bones but ${boneInverses.length} bone inverses`
+        );
+      }
+      this.boneInverses = boneInverses;
+    } else {
+      this.boneInverses = [];
+      this.calculateInverses();
+    }
+  }
+
+  /**
+   * Makes the current bone poses the bind pose.
+   */
+  calculateInverses(): void {
+    this.boneInverses.length = 0;
+    for (const bone of this.bones) {
+      bone.updateWorldMatrix(true, false);
+      this.boneInverses.push(bone.worldMatrix.inverse());
+    }
+  }
+
+  /**
+   * Recomputes boneMatrices from the bones' current world matrices.
+   * Call after the world matrices are updated, e.g. after Scene.updateMatrixWorld.
+   */
+  update(): void {
+    this.bones.forEach((bone, i) => {
+      const matrix = bone.worldMatrix.multiply(this.boneInverses[i]);
+      this.boneMatrices.set(matrix.data, i * 16);
+    });
+  }
+
+  /**
+   * Finds a bone by name.
+   * @param name - Name to search for
+   * @returns The first bone with the name, or undefined if there is none
+   */
+  getBoneByName(name: string): Object3D | undefined {
+    return this.bones.find((bone) => bone.name === name);
+  }
+}
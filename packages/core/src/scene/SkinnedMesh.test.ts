@@ -0,0 +1,140 @@
+import { describe, it, expect } from "bun:test";
+import { Matrix4, Vector3 } from "@web-real/math";
+import { BoxGeometry } from "../geometry/BoxGeometry";
+import { BufferGeometry } from "../geometry/BufferGeometry";
+import { PBRMaterial } from "../material/PBRMaterial";
+import { Mesh } from "./Mesh";
+import { Object3D } from "./Object3D";
+import { Skeleton } from "./Skeleton";
+import { SkinnedMesh } from "./SkinnedMesh";
+
+/**
+ * A 1x2 quad standing on the XY plane: the bottom vertices follow the root
+ * bone, the top vertices the arm bone at y = 1, the middle row both.
+ */
+function createArm() {
+  const geometry = new BufferGeometry({
+    positions: new Float32Array([
+      0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 2, 0, 1, 2, 0,
+    ]),
+    indices: new Uint16Array([0, 1, 2, 2, 1, 3, 2, 3, 4, 4, 3, 5]),
+    uvs: new Float32Array(12),
+    skinIndices: new Uint16Array([
+      0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0,
+    ]),
+    skinWeights: new Float32Array([
+      1, 0, 0, 0, 1, 0, 0, 0, 0.5, 0.5, 0, 0, 0.5, 0.5, 0, 0, 1, 0, 0, 0, 1,
+      0, 0, 0,
+    ]),
+  });
+  const root = new Object3D();
+  const arm = new Object3D();
+  arm.position.set(0, 1, 0);
+  root.add(arm);
+  const skeleton = new Skeleton([root, arm]);
+  const mesh = new SkinnedMesh(geometry, new PBRMaterial(), skeleton);
+  return { mesh, root, arm, skeleton };
+}
+
+function expectVertexClose(
+  positions: Float32Array,
+  index: number,
+  expected: [number, number, number]
+) {
+  expected.forEach((value, i) =>
+    expect(positions[index * 3 + i]).toBeCloseTo(value, 5)
+  );
+}
+
+describe("SkinnedMesh", () => {
+  describe("constructor", () => {
+    it("should be a Mesh bound to the skeleton", () => {
+      const { mesh, skeleton } = createArm();
+
+      expect(mesh).toBeInstanceOf(Mesh);
+      expect(mesh.skeleton).toBe(skeleton);
+      expect(mesh.jointMatrices).toHaveLength(32);
+      expect(mesh.bonesNeedUpdate).toBe(true);
+    });
+
+    it("should throw for geometry without skin attributes", () => {
+      const skeleton = new Skeleton([new Object3D()]);
+
+      expect(
+        () => new SkinnedMesh(new BoxGeometry(), new PBRMaterial(), skeleton)
+      ).toThrow(
+        "SkinnedMesh requires geometry with skinIndices and skinWeights"
+      );
+    });
+  });
+
+  describe("getSkinnedPositions", () => {
+    it("should return the bind pose positions when bones have not moved", () => {
+      const { mesh } = createArm();
+
+      const positions = mesh.getSkinnedPositions();
+
+      Array.from(mesh.geometry.positions).forEach((value, i) =>
+        expect(positions[i]).toBeCloseTo(value, 5)
+      );
+    });
+
+    it("should move vertices with their weighted bones", () => {
+      const { mesh, arm } = createArm();
+      arm.rotation.z = Math.PI / 2;
+
+      const positions = mesh.getSkinnedPositions();
+
+      // Fully weighted to the arm: rotated 90° around (0, 1, 0)
+      expectVertexClose(positions, 4, [-1, 1, 0]);
+      expectVertexClose(positions, 5, [-1, 2, 0]);
+      // Half weighted: halfway between the bind and arm positions
+      expectVertexClose(positions, 3, [0.5, 1.5, 0]);
+      // Weighted to the root only
+      expectVertexClose(positions, 1, [1, 0, 0]);
+    });
+
+    it("should keep positions in the mesh's local space", () => {
+      const { mesh, root } = createArm();
+      const group = new Object3D();
+      group.add(root);
+      group.add(mesh);
+
+      group.position.set(5, 0, 0);
+
+      expectVertexClose(mesh.getSkinnedPositions(), 5, [1, 2, 0]);
+    });
+
+    it("should apply the bind matrix", () => {
+      const { mesh, skeleton } = createArm();
+      mesh.bind(skeleton, Matrix4.translation(new Vector3(0, 0, 3)));
+
+      expectVertexClose(mesh.getSkinnedPositions(), 0, [0, 0, 3]);
+    });
+  });
+
+  describe("computeBoundingBox", () => {
+    it("should make boundingBox cover the skinned pose", () => {
+      const { mesh, arm } = createArm();
+      expect(mesh.boundingBox.min.x).toBeCloseTo(0, 5);
+
+      arm.rotation.z = Math.PI / 2;
+      const box = mesh.computeBoundingBox();
+
+      expect(mesh.boundingBox).toBe(box);
+      expect(box.min.x).toBeCloseTo(-1, 5);
+      expect(box.max.y).toBeCloseTo(2, 5);
+    });
+
+    it("should keep geometryBoundingBox in the bind pose", () => {
+      const { mesh, arm } = createArm();
+      const bindPoseBox = mesh.geometryBoundingBox;
+
+      arm.rotation.z = Math.PI / 2;
+      mesh.computeBoundingBox();
+
+      expect(mesh.geometryBoundingBox).toBe(bindPoseBox);
+      expect(mesh.geometryBoundingBox.min.x).toBeCloseTo(0, 5);
+    });
+  });
+});
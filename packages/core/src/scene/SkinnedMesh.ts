@@ -0,0 +1,205 @@
+import { BoundingBox, Matrix4 } from "@web-real/math";
+import type { Geometry } from "../geometry/Geometry";
+import type { Material } from "../material/Material";
+import { Mesh } from "./Mesh";
+import type { Skeleton } from "./Skeleton";
+
+/**
+ * A mesh deformed by the bones of a Skeleton. Each vertex is moved by up to
+ * four bones, chosen by the geometry's skinIndices and blended by its
+ * skinWeights, in the vertex stage on the GPU.
+ *
+ * The material must support skinning (PBRMaterial and BlinnPhongMaterial do).
+ *
+ * @example
+ * ```ts
+ * const geometry = new BufferGeometry({
+ *   positions, normals, uvs, indices,
+ *   skinIndices: new Uint16Array([0, 1, 0, 0, ...]),
+ *   skinWeights: new Float32Array([0.5, 0.5, 0, 0, ...]),
+ * });
+ * const mesh = new SkinnedMesh(geometry, new PBRMaterial(), skeleton);
+ * scene.add(mesh);
+ * scene.add(skeleton.bones[0]);
+ *
+ * skeleton.bones[1].rotation.z = Math.PI / 4; // Bends the mesh next frame
+ * ```
+ */
+export class SkinnedMesh extends Mesh {
+  /** Set to true when the joint matrices change and the GPU bone buffer needs to be updated */
+  public bonesNeedUpdate: boolean = true;
+
+  private _skeleton!: Skeleton;
+  private _bindMatrix = new Matrix4();
+  private _jointMatrices = new Float32Array(0);
+  private _skinnedBoundingBox: BoundingBox | null = null;
+
+  /**
+   * Creates a new SkinnedMesh instance.
+   * @param geometry - Geometry with skinIndices and skinWeights
+   * @param material - Material; must support skinning
+   * @param skeleton - Skeleton whose bones deform the mesh
+   * @param bindMatrix - World matrix of the mesh when the skeleton was bound (default: identity)
+   * @throws {Error} If the geometry has no skinIndices or skinWeights
+   */
+  constructor(
+    geometry: Geometry,
+    material: Material,
+    skeleton: Skeleton,
+    bindMatrix?: Matrix4
+  ) {
+    super(geometry, material);
+
+    if (!geometry.skinIndices || !geometry.skinWeights) {
+      throw new Error(
+        "SkinnedMesh requires geometry with skinIndices and skinWeights"
+      );
+    }
+
+    this.bind(skeleton, bindMatrix ?? new Matrix4());
+  }
+
+  get skeleton(): Skeleton {
+    return this._skeleton;
+  }
+
+  /**
+   * World matrix of the mesh when the skeleton was bound.
+   */
+  get bindMatrix(): Matrix4 {
+    return this._bindMatrix;
+  }
+
+  /**
+   * Per-bone matrices that move vertices from the bind pose to the current pose,
+   * in the mesh's local space (16 floats per bone). Updated by updateSkeleton().
+   */
+  get jointMatrices(): Float32Array {
+    return this._jointMatrices;
+  }
+
+  /**
+   * Gets the bounding box of the mesh. Returns the skinned bounding box after
+   * computeBoundingBox() has been called, and the bind pose bounding box of
+   * the geometry otherwise.
+   */
+  get boundingBox(): BoundingBox {
+    return this._skinnedBoundingBox ?? super.boundingBox;
+  }
+
+  /**
+   * Gets the bind pose bounding box of the geometry, whether or not
+   * computeBoundingBox() has been called.
+   */
+  get geometryBoundingBox(): BoundingBox {
+    return super.boundingBox;
+  }
+
+  /**
+   * Binds the mesh to a skeleton.
+   * @param skeleton - Skeleton whose bones deform the mesh
+   * @param bindMatrix - World matrix of the mesh in the bind pose (default: the current world matrix)
+   */
+  bind(skeleton: Skeleton, bindMatrix?: Matrix4): void {
+    if (!bindMatrix) {
+      this.updateWorldMatrix(true, false);
+      bindMatrix = this.worldMatrix;
+    }
+
+    // A different bone count needs new GPU buffers
+    if (this._skeleton) {
+      this.needsUpdate = true;
+    }
+    this._skeleton = skeleton;
+    this._bindMatrix = bindMatrix.clone();
+    this._jointMatrices = new Float32Array(skeleton.bones.length * 16);
+    this._skinnedBoundingBox = null;
+    this.updateSkeleton();
+  }
+
+  /**
+   * Recomputes the joint matrices from the current bone and mesh world matrices.
+   * Called by the renderer every frame after the scene's world matrices are updated.
+   */
+  updateSkeleton(): void {
+    const skeleton = this._skeleton;
+    skeleton.update();
+
+    const worldInverse = this.worldMatrix.inverse();
+    const bone = new Matrix4();
+    for (let i = 0; i < skeleton.bones.length; i++) {
+      bone.data.set(skeleton.boneMatrices.subarray(i * 16, i * 16 + 16));
+      const joint = worldInverse.multiply(bone).multiply(this._bindMatrix);
+      this._jointMatrices.set(joint.data, i * 16);
+    }
+
+    this.bonesNeedUpdate = true;
+  }
+
+  /**
+   * Skins the geometry positions on the CPU with the current bone poses.
+   * Updates the world matrices of the mesh and bones first.
+   * @returns Skinned positions in the mesh's local space (3 floats per vertex)
+   */
+  getSkinnedPositions(): Float32Array {
+    this.updateWorldMatrix(true, false);
+    for (const bone of this._skeleton.bones) {
+      bone.updateWorldMatrix(true, false);
+    }
+    this.updateSkeleton();
+
+    const { positions, skinIndices, skinWeights, vertexCount } = this.geometry;
+    const joints = this._jointMatrices;
+    const boneCount = this._skeleton.bones.length;
+    const result = new Float32Array(positions);
+
+    for (let v = 0; v < vertexCount; v++) {
+      let totalWeight = 0;
+      for (let k = 0; k < 4; k++) {
+        totalWeight += skinWeights![v * 4 + k];
+      }
+      // Unweighted vertices stay in the bind pose, as in the vertex shader
+      if (totalWeight <= 0) {
+        continue;
+      }
+
+      const x = positions[v * 3];
+      const y = positions[v * 3 + 1];
+      const z = positions[v * 3 + 2];
+      const skinned = [0, 0, 0];
+
+      for (let k = 0; k < 4; k++) {
+        const weight = skinWeights![v * 4 + k] / totalWeight;
+        if (weight === 0) {
+          continue;
+        }
+        const m = Math.min(skinIndices![v * 4 + k], boneCount - 1) * 16;
+        for (let row = 0; row < 3; row++) {
+          skinned[row] +=
+            weight *
+            (joints[m + row] * x +
+              joints[m + 4 + row] * y +
+              joints[m + 8 + row] * z +
+              joints[m + 12 + row]);
+        }
+      }
+
+      result.set(skinned, v * 3);
+    }
+
+    return result;
+  }
+
+  /**
+   * Computes the bounding box of the current skinned pose and makes the
+   * boundingBox getter (used by frustum culling) return it until the next call.
+   * Call again after large pose changes so culling stays correct.
+   * @returns The skinned bounding box in the mesh's local space
+   */
+  computeBoundingBox(): BoundingBox {
+    this._skinnedBoundingBox = BoundingBox.fromPositions(
+      this.getSkinnedPositions()
+    );
+    return this._skinnedBoundingBox;
+  }
+}
@@ -1,3 +1,6 @@
 export { Object3D } from "./Object3D";
 export { Scene, type SceneEnvironmentOptions } from "./Scene";
 export { Mesh } from "./Mesh";
+export { InstancedMesh } from "./InstancedMesh";
+export { Skeleton } from "./Skeleton";
+export { SkinnedMesh } from "./SkinnedMesh";
@@ -1,3 +1,13 @@
+// Shared shader chunks
+import instancing from "./instancing/instancing.wgsl";
+import skinning from "./skinning/skinning.wgsl";
+import morphing from "./morphing/morphing.wgsl";
+import lights from "./lighting/lights.wgsl";
+import clusters from "./lighting/clusters.wgsl";
+import shadow from "./shadow/shadow.wgsl";
+import ambientOcclusion from "./lighting/ambientOcclusion.wgsl";
+import colorSpace from "./colorSpace/colorSpace.wgsl";
+
 // Basic shader
 import basicVert from "./basic/basic.vert.wgsl";
 import basicFrag from "./basic/basic.frag.wgsl";
@@ -41,36 +51,36 @@ export interface ShaderSource {
 
 const shaders: Record<string, ShaderSource> = {
   basic: {
-    vertex: basicVert,
+    vertex: `${instancing}\n${basicVert}`,
     fragment: basicFrag,
   },
   blinnPhong: {
-    vertex: blinnPhongVert,
-    fragment: blinnPhongFrag,
+    vertex: `${instancing}\n${skinning}\n${morphing}\n${blinnPhongVert}`,
+    fragment: `${lights}\n${clusters}\n${shadow}\n${ambientOcclusion}\n${blinnPhongFrag}`,
   },
   vertexColor: {
-    vertex: vertexColorVert,
-    fragment: vertexColorFrag,
+    vertex: `${instancing}\n${vertexColorVert}`,
+    fragment: `${colorSpace}\n${vertexColorFrag}`,
   },
   line: {
-    vertex: lineVert,
+    vertex: `${instancing}\n${lineVert}`,
     fragment: lineFrag,
   },
   lineColor: {
-    vertex: lineColorVert,
-    fragment: lineColorFrag,
+    vertex: `${instancing}\n${lineColorVert}`,
+    fragment: `${colorSpace}\n${lineColorFrag}`,
   },
   texture: {
-    vertex: textureVert,
-    fragment: textureFrag,
+    vertex: `${instancing}\n${textureVert}`,
+    fragment: `${colorSpace}\n${textureFrag}`,
   },
   parallax: {
-    vertex: parallaxVert,
-    fragment: parallaxFrag,
+    vertex: `${instancing}\n${parallaxVert}`,
+    fragment: `${lights}\n${clusters}\n${shadow}\n${ambientOcclusion}\n${colorSpace}\n${parallaxFrag}`,
   },
   pbr: {
-    vertex: pbrVert,
-    fragment: pbrFrag,
+    vertex: `${instancing}\n${skinning}\n${morphing}\n${pbrVert}`,
+    fragment: `${lights}\n${clusters}\n${shadow}\n${ambientOcclusion}\n${colorSpace}\n${pbrFrag}`,
   },
   skybox: {
     vertex: skyboxVert,
@@ -0,0 +1,130 @@
+// Screen-space ambient occlusion from the camera depth prepass (renderer/AmbientOcclusionPass.ts).
+// - ssao: occlusion of a normal-oriented hemisphere kernel, with normals reconstructed from depth
+// - blurHorizontal, blurVertical: separable bilateral blur that does not cross depth edges
+// Reference: Chapman, "SSAO Tutorial" (2011); Mittring, "Finding Next Gen: CryEngine 2" (SIGGRAPH 2007)
+
+const MAX_SAMPLES: u32 = 64u;
+const BLUR_RADIUS: i32 = 4;
+const BLUR_SIGMA: f32 = 2.5;
+
+struct Uniforms {
+  projection: mat4x4f,
+  inverseProjection: mat4x4f,
+  params: vec4f,                              // x = radius, y = bias, z = intensity, w = sample count
+  kernel: array<vec4f, MAX_SAMPLES>,          // xyz = tangent-space hemisphere offset (|xyz| <= 1)
+}
+
+@group(0) @binding(0) var depthTexture: texture_depth_2d;
+@group(0) @binding(1) var<uniform> uniforms: Uniforms;
+@group(0) @binding(2) var occlusionTexture: texture_2d<f32>;   // blur input
+
+fn loadDepth(texel: vec2i) -> f32 {
+  let size = vec2i(textureDimensions(depthTexture));
+  return textureLoad(depthTexture, clamp(texel, vec2i(0), size - 1), 0);
+}
+
+// View-space position of a texel center at the given depth
+fn getViewPosition(texel: vec2i, depth: f32) -> vec3f {
+  let uv = (vec2f(texel) + 0.5) / vec2f(textureDimensions(depthTexture));
+  let ndc = vec4f(uv.x * 2.0 - 1.0, 1.0 - uv.y * 2.0, depth, 1.0);
+  let view = uniforms.inverseProjection * ndc;
+  return view.xyz / view.w;
+}
+
+fn loadViewPosition(texel: vec2i) -> vec3f {
+  return getViewPosition(texel, loadDepth(texel));
+}
+
+// View-space normal from the neighbouring depths.
+// Each axis uses the side with the smaller depth step so silhouettes do not bend the normal.
+fn reconstructNormal(texel: vec2i, center: vec3f) -> vec3f {
+  let left = loadViewPosition(texel - vec2i(1, 0));
+  let right = loadViewPosition(texel + vec2i(1, 0));
+  let up = loadViewPosition(texel - vec2i(0, 1));
+  let down = loadViewPosition(texel + vec2i(0, 1));
+
+  let dx = select(center - left, right - center, abs(right.z - center.z) < abs(center.z - left.z));
+  let dy = select(center - up, down - center, abs(down.z - center.z) < abs(center.z - up.z));
+  // dx points right and dy points down the screen, so this faces the camera (+z)
+  return normalize(cross(dy, dx));
+}
+
+// Per-pixel rotation of the kernel; the blur removes the resulting pattern
+fn interleavedGradientNoise(fragCoord: vec2f) -> f32 {
+  return fract(52.9829189 * fract(dot(fragCoord, vec2f(0.06711056, 0.00583715))));
+}
+
+@fragment
+fn ssao(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  let texel = vec2i(fragCoord.xy);
+  let depth = loadDepth(texel);
+  if (depth >= 1.0) {
+    return vec4f(1.0);
+  }
+
+  let position = getViewPosition(texel, depth);
+  let normal = reconstructNormal(texel, position);
+
+  let angle = interleavedGradientNoise(fragCoord.xy) * 6.28318530718;
+  let random = vec3f(cos(angle), sin(angle), 0.0);
+  var tangent = random - normal * dot(random, normal);
+  if (dot(tangent, tangent) < 1e-6) {
+    tangent = cross(normal, vec3f(0.0, 0.0, 1.0));
+  }
+  tangent = normalize(tangent);
+  let tbn = mat3x3f(tangent, cross(normal, tangent), normal);
+
+  let radius = uniforms.params.x;
+  let bias = uniforms.params.y;
+  let sampleCount = min(u32(uniforms.params.w), MAX_SAMPLES);
+  let size = vec2f(textureDimensions(depthTexture));
+
+  var occlusion = 0.0;
+  for (var i = 0u; i < sampleCount; i++) {
+    let samplePosition = position + tbn * uniforms.kernel[i].xyz * radius;
+    let clip = uniforms.projection * vec4f(samplePosition, 1.0);
+    let ndc = clip.xy / clip.w;
+    let sampleTexel = vec2i(vec2f(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5) * size);
+    let sceneZ = loadViewPosition(sampleTexel).z;
+
+    // Surfaces far in front of the sample (e.g. a foreground object) only partly occlude
+    let rangeCheck = smoothstep(0.0, 1.0, radius / max(abs(position.z - sceneZ), 1e-4));
+    occlusion += select(0.0, rangeCheck, sceneZ >= samplePosition.z + bias);
+  }
+
+  // Kept above 0 so pow() stays defined for an intensity of 0
+  let visibility = max(1.0 - occlusion / f32(max(sampleCount, 1u)), 1e-3);
+  return vec4f(pow(visibility, uniforms.params.z), 0.0, 0.0, 1.0);
+}
+
+// Gaussian weights scaled down by the view depth difference to the center texel
+fn blur(fragCoord: vec2f, direction: vec2i) -> vec4f {
+  let texel = vec2i(fragCoord);
+  let size = vec2i(textureDimensions(occlusionTexture));
+  let centerZ = loadViewPosition(texel).z;
+  let depthFalloff = 4.0 / max(uniforms.params.x, 1e-4);
+
+  var sum = 0.0;
+  var weightSum = 0.0;
+  for (var i = -BLUR_RADIUS; i <= BLUR_RADIUS; i++) {
+    let sampleTexel = clamp(texel + direction * i, vec2i(0), size - 1);
+    let sampleZ = loadViewPosition(sampleTexel).z;
+    let offset = f32(i);
+    let weight = exp(-offset * offset / (2.0 * BLUR_SIGMA * BLUR_SIGMA)) *
+      exp(-abs(sampleZ - centerZ) * depthFalloff);
+    sum += textureLoad(occlusionTexture, sampleTexel, 0).r * weight;
+    weightSum += weight;
+  }
+
+  return vec4f(sum / weightSum, 0.0, 0.0, 1.0);
+}
+
+@fragment
+fn blurHorizontal(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  return blur(fragCoord.xy, vec2i(1, 0));
+}
+
+@fragment
+fn blurVertical(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  return blur(fragCoord.xy, vec2i(0, 1));
+}
@@ -7,9 +7,10 @@ struct Uniforms {
 
 struct FragmentInput {
   @location(0) normal: vec3f,
+  @location(1) instanceColor: vec3f,
 }
 
 @fragment
 fn main(input: FragmentInput) -> @location(0) vec4f {
-  return uniforms.color;
+  return vec4f(uniforms.color.rgb * input.instanceColor, uniforms.color.a);
 }
@@ -3,12 +3,9 @@ struct Uniforms {
   modelMatrix: mat4x4f,
   normalMatrix: mat4x4f,      // inverse transpose of model matrix for correct normal transformation
   colorAndShininess: vec4f,
-  lightPosition: vec4f,       // xyz = position (point) or direction (directional)
-  lightColor: vec4f,          // rgb = color, a = intensity
-  cameraPosition: vec4f,
-  lightParams: vec4f,         // x = range, y = attenuation param
-  lightTypes: vec4f,          // x = light type (0=directional, 1=point), y = attenuation type (0=linear, 1=quadratic, 2=physical)
-  displacementParams: vec4f,  // x = scale, y = bias, z = normalScale, w = unused
+  cameraPosition: vec4f,      // xyz = camera position, w unused
+  displacementParams: vec4f,  // x = scale, y = bias, z = normalScale, w = receiveShadow (0 or 1)
+  params: vec4f,              // x = opacity, yzw = unused
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
@@ -16,12 +13,24 @@ struct Uniforms {
 @group(0) @binding(2) var displacementMap: texture_2d<f32>;
 @group(0) @binding(3) var normalMap: texture_2d<f32>;
 
+// Lighting resources - shared across meshes, bound by the renderer
+@group(1) @binding(0) var shadowSampler: sampler_comparison;
+@group(1) @binding(1) var directionalShadowMap: texture_depth_2d_array;
+@group(1) @binding(2) var<uniform> shadowUniforms: ShadowUniforms;
+@group(1) @binding(3) var pointShadowMap: texture_depth_cube_array;
+@group(1) @binding(4) var<storage, read> lightList: LightList;
+@group(1) @binding(5) var<uniform> clusterUniforms: ClusterUniforms;
+@group(1) @binding(6) var<storage, read> clusterLights: array<u32>;
+@group(1) @binding(7) var ambientOcclusionMap: texture_2d<f32>;
+
 struct FragmentInput {
+  @builtin(position) fragCoord: vec4f,
   @location(0) worldNormal: vec3f,
   @location(1) worldPosition: vec3f,
   @location(2) uv: vec2f,
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
+  @location(5) instanceColor: vec3f,
 }
 
 fn calculateAttenuation(distance: f32, range: f32, attenuationType: f32, param: f32) -> f32 {
@@ -35,11 +44,72 @@ fn calculateAttenuation(distance: f32, range: f32, attenuationType: f32, param:
     let linear = max(1.0 - normalizedDist, 0.0);
     return linear * linear;
   } else {
-    // Physical: 1 / (1 + (d/range)^2 * k)
-    return 1.0 / (1.0 + normalizedDist * normalizedDist * param);
+    // Physical: 1 / (1 + (d/range)^2 * k), windowed to reach zero at the range
+    // where cluster culling cuts the light off
+    let rangeWindow = clamp(1.0 - pow(normalizedDist, 4.0), 0.0, 1.0);
+    return rangeWindow * rangeWindow / (1.0 + normalizedDist * normalizedDist * param);
   }
 }
 
+// Diffuse and specular light reaching a fragment (material color is applied by the caller)
+struct LightContribution {
+  diffuse: vec3f,
+  specular: vec3f,
+}
+
+// Diffuse and specular contribution of a single light
+fn calculateLight(
+  light: Light,
+  normal: vec3f,
+  geometryNormal: vec3f,
+  viewDir: vec3f,
+  worldPos: vec3f,
+  shininess: f32
+) -> LightContribution {
+  var lightDir: vec3f;
+  var attenuation: f32 = 1.0;
+  
+  let lightType = light.params.x;
+  
+  if (lightType < 0.5) {
+    // Directional light: use direction directly (negate for incoming direction)
+    lightDir = normalize(-light.position.xyz);
+  } else {
+    // Point and spot lights: calculate direction from position to fragment
+    let lightVec = light.position.xyz - worldPos;
+    let distance = length(lightVec);
+    lightDir = normalize(lightVec);
+    
+    // Calculate attenuation
+    attenuation = calculateAttenuation(distance, light.params.y, light.params.z, light.params.w);
+    
+    if (lightType > 1.5) {
+      // Spot cone falloff between the outer and inner angles
+      let cosTheta = dot(-lightDir, normalize(light.spotDirection.xyz));
+      let cosInner = light.spotCone.x;
+      let cosOuter = light.spotCone.y;
+      let t = clamp((cosTheta - cosOuter) / max(cosInner - cosOuter, 0.0001), 0.0, 1.0);
+      attenuation *= t * t * (3.0 - 2.0 * t);
+    }
+  }
+  
+  var shadow = 1.0;
+  if (uniforms.displacementParams.w > 0.5) {
+    shadow = sampleLightShadow(light.position, lightType, worldPos, geometryNormal);
+  }
+  
+  let radiance = light.color.rgb * light.color.a * attenuation * shadow;
+  
+  // Diffuse (Lambertian)
+  let NdotL = max(dot(normal, lightDir), 0.0);
+  
+  // Specular (Blinn-Phong)
+  let halfVector = normalize(lightDir + viewDir);
+  let NdotH = max(dot(normal, halfVector), 0.0);
+  
+  return LightContribution(NdotL * radiance, pow(NdotH, shininess) * radiance);
+}
+
 @fragment
 fn main(input: FragmentInput) -> @location(0) vec4f {
   // Construct TBN matrix (tangent space to world space)
@@ -62,41 +132,42 @@ fn main(input: FragmentInput) -> @location(0) vec4f {
   
   let viewDir = normalize(uniforms.cameraPosition.xyz - input.worldPosition);
   
-  var lightDir: vec3f;
-  var attenuation: f32 = 1.0;
-  
-  let lightType = uniforms.lightTypes.x;
-  let attenuationType = uniforms.lightTypes.y;
+  let shininess = uniforms.colorAndShininess.a;
+  var diffuse = vec3f(0.0);
+  var specular = vec3f(0.0);
   
-  if (lightType < 0.5) {
-    // Directional light: use direction directly (negate for incoming direction)
-    lightDir = normalize(-uniforms.lightPosition.xyz);
-  } else {
-    // Point light: calculate direction from position to fragment
-    let lightVec = uniforms.lightPosition.xyz - input.worldPosition;
-    let distance = length(lightVec);
-    lightDir = normalize(lightVec);
-    
-    // Calculate attenuation
-    let range = uniforms.lightParams.x;
-    let param = uniforms.lightParams.y;
-    attenuation = calculateAttenuation(distance, range, attenuationType, param);
+  let lightCount = min(lightList.count, arrayLength(&lightList.lights));
+  if (lightCount == 0u) {
+    // No scene lights: fall back to a white light shining straight down
+    let fallback = Light(vec4f(0.0, -1.0, 0.0, -1.0), vec4f(1.0), vec4f(0.0), vec4f(0.0), vec4f(0.0));
+    let contribution = calculateLight(fallback, normal, N, viewDir, input.worldPosition, shininess);
+    diffuse = contribution.diffuse;
+    specular = contribution.specular;
+  }
+  let directionalCount = min(lightList.directionalCount, lightCount);
+  for (var i = 0u; i < directionalCount; i++) {
+    let contribution = calculateLight(lightList.lights[i], normal, N, viewDir, input.worldPosition, shininess);
+    diffuse += contribution.diffuse;
+    specular += contribution.specular;
   }
   
-  let ambient = 0.1;
-  
-  // Diffuse (Lambertian)
-  let NdotL = max(dot(normal, lightDir), 0.0);
-  let diffuse = NdotL * uniforms.lightColor.rgb * uniforms.lightColor.a * attenuation;
+  // Point and spot lights: only those binned into this fragment's cluster
+  let cluster = getClusterIndex(input.fragCoord.xy, input.worldPosition);
+  let clusterLightCount = getClusterLightCount(cluster);
+  for (var i = 0u; i < clusterLightCount; i++) {
+    let lightIndex = getClusterLightIndex(cluster, i);
+    if (lightIndex >= lightCount) {
+      continue;
+    }
+    let contribution = calculateLight(lightList.lights[lightIndex], normal, N, viewDir, input.worldPosition, shininess);
+    diffuse += contribution.diffuse;
+    specular += contribution.specular;
+  }
   
-  // Specular (Blinn-Phong)
-  let halfVector = normalize(lightDir + viewDir);
-  let NdotH = max(dot(normal, halfVector), 0.0);
-  let shininess = uniforms.colorAndShininess.a;
-  let specular = pow(NdotH, shininess) * uniforms.lightColor.rgb * uniforms.lightColor.a * attenuation;
+  let ambient = 0.1 * getAmbientOcclusion(input.fragCoord.xy);
   
-  let materialColor = uniforms.colorAndShininess.rgb;
+  let materialColor = uniforms.colorAndShininess.rgb * input.instanceColor;
   let finalColor = materialColor * (ambient + diffuse) + specular;
   
-  return vec4f(finalColor, 1.0);
+  return vec4f(finalColor, uniforms.params.x);
 }
@@ -3,18 +3,19 @@ struct Uniforms {
   modelMatrix: mat4x4f,
   normalMatrix: mat4x4f,      // inverse transpose of model matrix for correct normal transformation
   colorAndShininess: vec4f,
-  lightPosition: vec4f,       // xyz = position (point) or direction (directional)
-  lightColor: vec4f,          // rgb = color, a = intensity
-  cameraPosition: vec4f,
-  lightParams: vec4f,         // x = range, y = attenuation param
-  lightTypes: vec4f,          // x = light type (0=directional, 1=point), y = attenuation type (0=linear, 1=quadratic, 2=physical)
-  displacementParams: vec4f,  // x = scale, y = bias, z = normalScale, w = unused
+  cameraPosition: vec4f,      // xyz = camera position, w unused
+  displacementParams: vec4f,  // x = scale, y = bias, z = normalScale, w = receiveShadow (0 or 1)
+  params: vec4f,              // x = opacity, yzw = unused
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var textureSampler: sampler;
 @group(0) @binding(2) var displacementMap: texture_2d<f32>;
 @group(0) @binding(3) var normalMap: texture_2d<f32>;
+@group(0) @binding(16) var<storage, read> boneMatrices: array<mat4x4f>;
+@group(0) @binding(17) var<storage, read> skinVertices: array<SkinVertex>;
+@group(0) @binding(18) var<storage, read> morphInfluences: array<f32>;
+@group(0) @binding(19) var<storage, read> morphDeltas: array<MorphDelta>;
 
 struct VertexInput {
   @location(0) position: vec3f,
@@ -22,6 +23,7 @@ struct VertexInput {
   @location(2) uv: vec2f,
   @location(3) tangent: vec3f,
   @location(4) bitangent: vec3f,
+  @builtin(vertex_index) vertexIndex: u32,
 }
 
 struct VertexOutput {
@@ -31,11 +33,18 @@ struct VertexOutput {
   @location(2) uv: vec2f,
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
+  @location(5) instanceColor: vec3f,
 }
 
 @vertex
-fn main(input: VertexInput) -> VertexOutput {
+fn main(input: VertexInput, instance: InstanceInput) -> VertexOutput {
   var output: VertexOutput;
+  // Morph targets are blended first, then skinning (identity for unskinned meshes)
+  // happens before the instance transform
+  let position = getMorphedPosition(input.vertexIndex, input.position);
+  let normal = getMorphedNormal(input.vertexIndex, input.normal);
+  let instanceMatrix = getInstanceMatrix(instance) * getSkinMatrix(input.vertexIndex);
+  let instanceNormalMatrix = getInstanceNormalMatrix(instanceMatrix);
   
   // Sample displacement map (use LOD 0 since derivatives not available in vertex stage)
   let displacement = textureSampleLevel(displacementMap, textureSampler, input.uv, 0.0).r;
@@ -43,23 +52,28 @@ fn main(input: VertexInput) -> VertexOutput {
   let displacementBias = uniforms.displacementParams.y;
   let displacementOffset = displacement * displacementScale + displacementBias;
   
-  // Displace position along normal direction
-  let displacedPosition = input.position + input.normal * displacementOffset;
+  // Displace position along normal direction, then place it in the instance
+  let displacedPosition = position + normal * displacementOffset;
+  let instancePosition = instanceMatrix * vec4f(displacedPosition, 1.0);
   
-  output.position = uniforms.mvpMatrix * vec4f(displacedPosition, 1.0);
+  output.position = uniforms.mvpMatrix * instancePosition;
   
   // Transform normal to world space using normal matrix (handles non-uniform scaling correctly)
-  output.worldNormal = normalize((uniforms.normalMatrix * vec4f(input.normal, 0.0)).xyz);
+  let instanceNormal = instanceNormalMatrix * normal;
+  output.worldNormal = normalize((uniforms.normalMatrix * vec4f(instanceNormal, 0.0)).xyz);
   
   // Transform tangent and bitangent to world space
-  output.worldTangent = normalize((uniforms.modelMatrix * vec4f(input.tangent, 0.0)).xyz);
-  output.worldBitangent = normalize((uniforms.modelMatrix * vec4f(input.bitangent, 0.0)).xyz);
+  let instanceTangent = instanceMatrix * vec4f(input.tangent, 0.0);
+  let instanceBitangent = instanceMatrix * vec4f(input.bitangent, 0.0);
+  output.worldTangent = normalize((uniforms.modelMatrix * instanceTangent).xyz);
+  output.worldBitangent = normalize((uniforms.modelMatrix * instanceBitangent).xyz);
   
   // Pass through UV coordinates
   output.uv = input.uv;
   
   // Calculate world position for lighting calculations
-  output.worldPosition = (uniforms.modelMatrix * vec4f(displacedPosition, 1.0)).xyz;
+  output.worldPosition = (uniforms.modelMatrix * instancePosition).xyz;
+  output.instanceColor = instance.color.rgb;
   
   return output;
 }
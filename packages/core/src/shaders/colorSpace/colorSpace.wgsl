@@ -0,0 +1,6 @@
+// sRGB decoding of color inputs (vertex colors and 8-bit color maps).
+// Uses the same gamma 2.2 approximation as the renderer's output encoding in
+// toneMapping.frag.wgsl, so an sRGB value shown through linear tone mapping is unchanged.
+fn srgbToLinear(color: vec3f) -> vec3f {
+  return pow(max(color, vec3f(0.0)), vec3f(2.2));
+}
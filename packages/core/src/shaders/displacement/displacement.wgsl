@@ -0,0 +1,13 @@
+// Displacement along the normal, matching blinnPhong.vert.wgsl, for depth-only passes
+// that must rasterize the same surface as the shaded mesh.
+// Shaders including this chunk declare, at bindings of their choice:
+//   var displacementSampler: sampler;
+//   var displacementMap: texture_2d<f32>;
+
+// Moves a position along its (unnormalized) normal by the map value * scale + bias,
+// with params.x = scale and params.y = bias.
+fn getDisplacedPosition(position: vec3f, normal: vec3f, uv: vec2f, params: vec2f) -> vec3f {
+  // LOD 0 since derivatives are not available in the vertex stage
+  let displacement = textureSampleLevel(displacementMap, displacementSampler, uv, 0.0).r;
+  return position + normal * (displacement * params.x + params.y);
+}
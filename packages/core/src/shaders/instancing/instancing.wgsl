@@ -0,0 +1,23 @@
+// Per-instance attributes read from vertex buffer slot 1 (see renderer/InstanceBuffer.ts).
+// Plain meshes bind a single identity instance with a white color.
+struct InstanceInput {
+  @location(8) matrix0: vec4f,
+  @location(9) matrix1: vec4f,
+  @location(10) matrix2: vec4f,
+  @location(11) matrix3: vec4f,
+  @location(12) color: vec4f,   // rgb multiplies the material color, a = unused
+}
+
+fn getInstanceMatrix(instance: InstanceInput) -> mat4x4f {
+  return mat4x4f(instance.matrix0, instance.matrix1, instance.matrix2, instance.matrix3);
+}
+
+// Inverse transpose of the instance's upper 3x3, up to a positive scale (the cofactor matrix).
+// Normals transformed by it must be normalized afterwards.
+fn getInstanceNormalMatrix(instanceMatrix: mat4x4f) -> mat3x3f {
+  let c0 = instanceMatrix[0].xyz;
+  let c1 = instanceMatrix[1].xyz;
+  let c2 = instanceMatrix[2].xyz;
+  let cofactor = mat3x3f(cross(c1, c2), cross(c2, c0), cross(c0, c1));
+  return cofactor * sign(dot(c0, cross(c1, c2)));
+}
@@ -0,0 +1,12 @@
+// Screen-space ambient occlusion shared by lit materials.
+// renderer/AmbientOcclusionPass.ts renders it from a camera depth prepass once per frame,
+// and binds a 1x1 white texture instead while ambient occlusion is disabled.
+// Materials declare the occlusion texture as binding 7 of their lighting bind group:
+//   var ambientOcclusionMap: texture_2d<f32>;
+
+// Fraction of the ambient light reaching a fragment (0 = fully occluded, 1 = unoccluded).
+// fragCoord is the @builtin(position) xy.
+fn getAmbientOcclusion(fragCoord: vec2f) -> f32 {
+  let size = vec2i(textureDimensions(ambientOcclusionMap));
+  return textureLoad(ambientOcclusionMap, clamp(vec2i(fragCoord), vec2i(0), size - 1), 0).r;
+}
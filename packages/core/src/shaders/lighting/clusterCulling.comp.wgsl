@@ -0,0 +1,70 @@
+// Light culling: one invocation per cluster.
+// Prefixed with lights.wgsl and clusters.wgsl by renderer/ClusterPass.ts.
+
+@group(0) @binding(0) var<uniform> clusterUniforms: ClusterUniforms;
+@group(0) @binding(1) var<storage, read> lightList: LightList;
+@group(0) @binding(2) var<storage, read_write> clusterLights: array<u32>;
+
+fn unproject(ndc: vec3f) -> vec3f {
+  let p = clusterUniforms.inverseProjection * vec4f(ndc, 1.0);
+  return p.xyz / p.w;
+}
+
+// View-space point of a screen corner at an absolute view depth.
+// Cuts the line between the near and far plane points, so orthographic projections work too.
+fn cornerAtDepth(ndc: vec2f, depth: f32) -> vec3f {
+  let nearPoint = unproject(vec3f(ndc, 0.0));
+  let farPoint = unproject(vec3f(ndc, 1.0));
+  let t = (depth - abs(nearPoint.z)) / (abs(farPoint.z) - abs(nearPoint.z));
+  return mix(nearPoint, farPoint, t);
+}
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  let grid = clusterUniforms.gridSize.xyz;
+  let cluster = id.x;
+  if (cluster >= grid.x * grid.y * grid.z) {
+    return;
+  }
+
+  let tileX = cluster % grid.x;
+  let tileY = (cluster / grid.x) % grid.y;
+  let slice = cluster / (grid.x * grid.y);
+
+  // Logarithmic depth slice bounds
+  let near = clusterUniforms.depthParams.x;
+  let far = clusterUniforms.depthParams.y;
+  let sliceNear = near * pow(far / near, f32(slice) / f32(grid.z));
+  let sliceFar = near * pow(far / near, f32(slice + 1u) / f32(grid.z));
+
+  // Tile bounds in NDC (tiles count from the top of the screen)
+  let gridSize = vec2f(f32(grid.x), f32(grid.y));
+  let ndcMin = vec2f(-1.0 + 2.0 * f32(tileX) / gridSize.x, 1.0 - 2.0 * f32(tileY + 1u) / gridSize.y);
+  let ndcMax = vec2f(-1.0 + 2.0 * f32(tileX + 1u) / gridSize.x, 1.0 - 2.0 * f32(tileY) / gridSize.y);
+
+  var boxMin = vec3f(3.4e38);
+  var boxMax = vec3f(-3.4e38);
+  for (var c = 0u; c < 4u; c++) {
+    let ndc = vec2f(select(ndcMin.x, ndcMax.x, (c & 1u) != 0u), select(ndcMin.y, ndcMax.y, (c & 2u) != 0u));
+    let a = cornerAtDepth(ndc, sliceNear);
+    let b = cornerAtDepth(ndc, sliceFar);
+    boxMin = min(boxMin, min(a, b));
+    boxMax = max(boxMax, max(a, b));
+  }
+
+  // Point and spot lights follow the directional lights in the list
+  let base = cluster * CLUSTER_STRIDE;
+  let lightCount = min(lightList.count, arrayLength(&lightList.lights));
+  var count = 0u;
+  for (var i = lightList.directionalCount; i < lightCount && count < MAX_LIGHTS_PER_CLUSTER; i++) {
+    let light = lightList.lights[i];
+    let center = (clusterUniforms.viewMatrix * vec4f(light.position.xyz, 1.0)).xyz;
+    let radius = light.params.y;
+    let offset = center - clamp(center, boxMin, boxMax);
+    if (dot(offset, offset) <= radius * radius) {
+      clusterLights[base + 1u + count] = i;
+      count++;
+    }
+  }
+  clusterLights[base] = count;
+}
@@ -0,0 +1,42 @@
+// Clustered light lookup shared by lit materials.
+// The view frustum is split into screen tiles and logarithmic depth slices;
+// renderer/ClusterPass.ts bins point and spot lights into each cluster once per frame.
+// Materials declare the cluster resources as bindings 5 and 6 of their lighting bind group:
+//   var<uniform> clusterUniforms: ClusterUniforms;
+//   var<storage, read> clusterLights: array<u32>;
+
+const MAX_LIGHTS_PER_CLUSTER: u32 = 63u;
+const CLUSTER_STRIDE: u32 = 64u;            // count + MAX_LIGHTS_PER_CLUSTER indices
+
+struct ClusterUniforms {
+  inverseProjection: mat4x4f,
+  viewMatrix: mat4x4f,
+  gridSize: vec4u,                          // xyz = clusters along screen x, screen y, depth
+  depthParams: vec4f,                       // x = near, y = far, z = slice scale, w = slice bias
+  screenSize: vec4f,                        // xy = size in pixels, zw = 1 / size
+}
+
+// Flat index of the cluster containing a fragment.
+// fragCoord is the @builtin(position) xy; depth is the absolute view-space z.
+fn getClusterIndex(fragCoord: vec2f, worldPosition: vec3f) -> u32 {
+  let grid = clusterUniforms.gridSize.xyz;
+  let gridSize = vec3f(grid);
+
+  let uv = fragCoord * clusterUniforms.screenSize.zw;
+  let tile = vec2u(clamp(floor(uv * gridSize.xy), vec2f(0.0), gridSize.xy - 1.0));
+
+  let viewDepth = abs((clusterUniforms.viewMatrix * vec4f(worldPosition, 1.0)).z);
+  let depth = max(viewDepth, clusterUniforms.depthParams.x);
+  let slice = floor(log(depth) * clusterUniforms.depthParams.z - clusterUniforms.depthParams.w);
+
+  return tile.x + tile.y * grid.x + u32(clamp(slice, 0.0, gridSize.z - 1.0)) * grid.x * grid.y;
+}
+
+fn getClusterLightCount(cluster: u32) -> u32 {
+  return min(clusterLights[cluster * CLUSTER_STRIDE], MAX_LIGHTS_PER_CLUSTER);
+}
+
+// Index into lightList.lights of the i-th light in a cluster
+fn getClusterLightIndex(cluster: u32, i: u32) -> u32 {
+  return clusterLights[cluster * CLUSTER_STRIDE + 1u + i];
+}
@@ -0,0 +1,21 @@
+// Scene light list shared by lit materials.
+// The renderer uploads every light once per frame (see renderer/LightBuffer.ts).
+// Materials declare the list as binding 4 of their lighting bind group:
+//   var<storage, read> lightList: LightList;
+
+// One packed light (80 bytes)
+struct Light {
+  position: vec4f,            // xyz = world position (direction for directional lights), w = shadow index (-1 = none)
+  color: vec4f,               // rgb = color, a = intensity
+  params: vec4f,              // x = type (0=dir, 1=point, 2=spot), y = range, z = attenType, w = attenParam
+  spotDirection: vec4f,       // xyz = cone axis (spot only), w = unused
+  spotCone: vec4f,            // x = cos(inner angle), y = cos(outer angle), zw = unused
+}
+
+// Directional lights come first; point and spot lights follow and are
+// reached through the cluster light lists (see clusters.wgsl).
+struct LightList {
+  count: u32,
+  directionalCount: u32,
+  lights: array<Light>,
+}
@@ -5,7 +5,11 @@ struct Uniforms {
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 
+struct FragmentInput {
+  @location(0) instanceColor: vec3f,
+}
+
 @fragment
-fn main() -> @location(0) vec4f {
-  return uniforms.color;
+fn main(input: FragmentInput) -> @location(0) vec4f {
+  return vec4f(uniforms.color.rgb * input.instanceColor, uniforms.color.a);
 }
@@ -12,12 +12,15 @@ struct VertexInput {
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) color: vec3f,
+  @location(1) instanceColor: vec3f,
 }
 
 @vertex
-fn main(input: VertexInput) -> VertexOutput {
+fn main(input: VertexInput, instance: InstanceInput) -> VertexOutput {
   var output: VertexOutput;
-  output.position = uniforms.mvpMatrix * vec4f(input.position, 1.0);
+  let instanceMatrix = getInstanceMatrix(instance);
+  output.position = uniforms.mvpMatrix * instanceMatrix * vec4f(input.position, 1.0);
   output.color = input.color;
+  output.instanceColor = instance.color.rgb;
   return output;
 }
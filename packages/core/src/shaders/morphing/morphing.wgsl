@@ -0,0 +1,48 @@
+// Morph target deltas read from storage buffers (see renderer/MorphBuffer.ts).
+// Shaders including this chunk declare, at bindings of their choice:
+//   var<storage, read> morphInfluences: array<f32>;
+//   var<storage, read> morphDeltas: array<MorphDelta>;
+// Deltas are stored target by target (target * vertexCount + vertex).
+// Meshes without morph targets bind a single zero influence and a single zero delta.
+struct MorphDelta {
+  position: vec4f,
+  normal: vec4f,
+}
+
+fn getMorphVertexCount() -> u32 {
+  return arrayLength(&morphDeltas) / arrayLength(&morphInfluences);
+}
+
+// Base position plus the weighted position deltas of every morph target.
+fn getMorphedPosition(vertexIndex: u32, position: vec3f) -> vec3f {
+  let vertexCount = getMorphVertexCount();
+  if (vertexIndex >= vertexCount) {
+    return position;
+  }
+
+  var result = position;
+  for (var targetIndex = 0u; targetIndex < arrayLength(&morphInfluences); targetIndex++) {
+    let influence = morphInfluences[targetIndex];
+    if (influence != 0.0) {
+      result += morphDeltas[targetIndex * vertexCount + vertexIndex].position.xyz * influence;
+    }
+  }
+  return result;
+}
+
+// Base normal plus the weighted normal deltas of every morph target (not normalized).
+fn getMorphedNormal(vertexIndex: u32, normal: vec3f) -> vec3f {
+  let vertexCount = getMorphVertexCount();
+  if (vertexIndex >= vertexCount) {
+    return normal;
+  }
+
+  var result = normal;
+  for (var targetIndex = 0u; targetIndex < arrayLength(&morphInfluences); targetIndex++) {
+    let influence = morphInfluences[targetIndex];
+    if (influence != 0.0) {
+      result += morphDeltas[targetIndex * vertexCount + vertexIndex].normal.xyz * influence;
+    }
+  }
+  return result;
+}
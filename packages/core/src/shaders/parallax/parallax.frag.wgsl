@@ -1,23 +1,11 @@
 struct Uniforms {
   mvpMatrix: mat4x4f,         // 64B offset 0
   modelMatrix: mat4x4f,       // 64B offset 64
-  cameraPos: vec4f,           // 16B offset 128 (xyz = position, w unused)
+  cameraPos: vec4f,           // 16B offset 128 (xyz = position, w = receiveShadow)
   materialParams: vec4f,      // 16B offset 144 (x = depthScale, y = normalScale, z = useNormalMap, w = shininess)
   ambientLight: vec4f,        // 16B offset 160 (rgb = color, a = intensity)
-  lightParams: vec4f,         // 16B offset 176 (x = lightCount, y = selfShadowStrength, z = reserved, w = packed flags)
-  // lights[4]: each light is 3 vec4f (48 bytes) starting at offset 192
-  light0Position: vec4f,      // 16B offset 192 (xyz = position/direction, w unused)
-  light0Color: vec4f,         // 16B offset 208 (rgb = color, a = intensity)
-  light0Params: vec4f,        // 16B offset 224 (x = type, y = range, z = attenType, w = attenParam)
-  light1Position: vec4f,      // 16B offset 240
-  light1Color: vec4f,         // 16B offset 256
-  light1Params: vec4f,        // 16B offset 272
-  light2Position: vec4f,      // 16B offset 288
-  light2Color: vec4f,         // 16B offset 304
-  light2Params: vec4f,        // 16B offset 320
-  light3Position: vec4f,      // 16B offset 336
-  light3Color: vec4f,         // 16B offset 352
-  light3Params: vec4f,        // 16B offset 368 (total: 384B)
+  lightParams: vec4f,         // 16B offset 176 (x = reserved, y = selfShadowStrength, z = reserved, w = packed flags)
+  params: vec4f,              // 16B offset 192 (x = opacity, y = decode albedo from sRGB, zw = unused) (total: 208B)
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
@@ -26,13 +14,25 @@ struct Uniforms {
 @group(0) @binding(3) var depthTexture: texture_2d<f32>;
 @group(0) @binding(4) var normalTexture: texture_2d<f32>;
 
+// Lighting resources - shared across meshes, bound by the renderer
+@group(1) @binding(0) var shadowSampler: sampler_comparison;
+@group(1) @binding(1) var directionalShadowMap: texture_depth_2d_array;
+@group(1) @binding(2) var<uniform> shadowUniforms: ShadowUniforms;
+@group(1) @binding(3) var pointShadowMap: texture_depth_cube_array;
+@group(1) @binding(4) var<storage, read> lightList: LightList;
+@group(1) @binding(5) var<uniform> clusterUniforms: ClusterUniforms;
+@group(1) @binding(6) var<storage, read> clusterLights: array<u32>;
+@group(1) @binding(7) var ambientOcclusionMap: texture_2d<f32>;
+
 struct FragmentInput {
+  @builtin(position) fragCoord: vec4f,
   @location(0) uv: vec2f,
   @location(1) worldPosition: vec3f,
   @location(2) worldNormal: vec3f,
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
   @location(5) viewDir: vec3f,
+  @location(6) instanceColor: vec3f,
 }
 
 const PARALLAX_FLAG_INVERT_HEIGHT: u32 = 1u;
@@ -245,7 +245,8 @@ fn parallaxGenerateNormalFromDepth(uv: vec2f, texelSize: vec2f, params: Parallax
 // Samples the albedo texture using parallax-displaced UVs and explicit gradients.
 // Uses textureSampleGrad to stabilize mip selection and filtering.
 fn surfaceSampleAlbedo(parallax: ParallaxResult) -> vec3f {
-  return textureSampleGrad(albedoTexture, textureSampler, parallax.uv, parallax.uvDx, parallax.uvDy).rgb;
+  let albedo = textureSampleGrad(albedoTexture, textureSampler, parallax.uv, parallax.uvDx, parallax.uvDy).rgb;
+  return select(albedo, srgbToLinear(albedo), uniforms.params.y > 0.5);
 }
 
 // Applies a cheap height-based self-shadow (cavity darkening) term to albedo.
@@ -297,29 +298,27 @@ fn buildTBN(worldNormal: vec3f, worldTangent: vec3f, worldBitangent: vec3f) -> m
 }
 
 // Computes Blinn-Phong lighting (diffuse + specular) for a single light.
-// Supports directional and point lights with distance-based attenuation.
+// Supports directional, point and spot lights with distance-based attenuation.
 fn lightingCalculateBlinnPhongLight(
-  lightPosition: vec4f,
-  lightColor: vec4f,
-  lightParams: vec4f,
+  light: Light,
   N: vec3f,
   V: vec3f,
   worldPos: vec3f,
   albedo: vec3f,
   shininess: f32
 ) -> vec3f {
-  let lightType = lightParams.x;
-  let lightRange = lightParams.y;
-  let attenType = lightParams.z;
-  let attenParam = lightParams.w;
+  let lightType = light.params.x;
+  let lightRange = light.params.y;
+  let attenType = light.params.z;
+  let attenParam = light.params.w;
   
   var L: vec3f;
   var attenuation: f32 = 1.0;
   
   if (lightType < 0.5) {
-    L = normalize(-lightPosition.xyz);
+    L = normalize(-light.position.xyz);
   } else {
-    let lightVec = lightPosition.xyz - worldPos;
+    let lightVec = light.position.xyz - worldPos;
     let distance = length(lightVec);
     L = normalize(lightVec);
 
@@ -331,47 +330,63 @@ fn lightingCalculateBlinnPhongLight(
         let linear = max(1.0 - normalizedDist, 0.0);
         attenuation = linear * linear;
       } else {
-        attenuation = 1.0 / (1.0 + normalizedDist * normalizedDist * attenParam);
+        // Windowed to reach zero at the range, where cluster culling cuts the light off
+        let rangeWindow = clamp(1.0 - pow(normalizedDist, 4.0), 0.0, 1.0);
+        attenuation = rangeWindow * rangeWindow / (1.0 + normalizedDist * normalizedDist * attenParam);
       }
     }
+
+    if (lightType > 1.5) {
+      // Spot cone falloff between the outer (spotCone.y) and inner (spotCone.x) angles
+      let spotCone = light.spotCone;
+      let cosTheta = dot(-L, normalize(light.spotDirection.xyz));
+      let t = clamp((cosTheta - spotCone.y) / max(spotCone.x - spotCone.y, 0.0001), 0.0, 1.0);
+      attenuation *= t * t * (3.0 - 2.0 * t);
+    }
   }
   
   let NdotL = max(dot(N, L), 0.0);
-  let diffuse = NdotL * albedo * lightColor.rgb * lightColor.a;
+  let diffuse = NdotL * albedo * light.color.rgb * light.color.a;
   
   let H = normalize(L + V);
   let NdotH = max(dot(N, H), 0.0);
-  let specular = pow(NdotH, shininess) * lightColor.rgb * lightColor.a;
+  let specular = pow(NdotH, shininess) * light.color.rgb * light.color.a;
   
   return (diffuse + specular) * attenuation;
 }
 
-// Conditionally accumulates a light contribution when enabled.
-// Keeps call sites simple and avoids unnecessary work when disabled.
+// Computes the shadow-map visibility of a light (1 = lit).
+// Uses the geometric normal so parallax detail does not shift the normal offset.
+fn lightingCalculateShadow(
+  light: Light,
+  worldPos: vec3f,
+  geometryNormal: vec3f
+) -> f32 {
+  if (uniforms.cameraPos.w < 0.5) {
+    return 1.0;
+  }
+  return sampleLightShadow(light.position, light.params.x, worldPos, geometryNormal);
+}
+
+// Accumulates a shadowed light contribution.
 fn lightingAccumulateLight(
-  enabled: bool,
-  lightPosition: vec4f,
-  lightColor: vec4f,
-  lightParams: vec4f,
+  light: Light,
   N: vec3f,
   V: vec3f,
   worldPos: vec3f,
+  geometryNormal: vec3f,
   albedo: vec3f,
   shininess: f32
 ) -> vec3f {
-  if (!enabled) {
-    return vec3f(0.0);
-  }
+  let shadow = lightingCalculateShadow(light, worldPos, geometryNormal);
   return lightingCalculateBlinnPhongLight(
-    lightPosition,
-    lightColor,
-    lightParams,
+    light,
     N,
     V,
     worldPos,
     albedo,
     shininess
-  );
+  ) * shadow;
 }
 
 @fragment
@@ -385,69 +400,56 @@ fn main(input: FragmentInput) -> @location(0) vec4f {
 
   let viewDir = normalize(input.viewDir);
 
-  var albedo = surfaceSampleAlbedo(parallax);
+  var albedo = surfaceSampleAlbedo(parallax) * input.instanceColor;
   albedo = surfaceApplySelfShadow(albedo, parallax.uv, viewDir, TBN, params);
 
   let normalTangent = surfaceGetNormalTangent(parallax, params);
   
   let normal = normalize(TBN * normalTangent);
+  let geometryNormal = normalize(input.worldNormal);
   
   let shininess = params.shininess;
   
-  let ambient = albedo * uniforms.ambientLight.rgb * uniforms.ambientLight.a;
+  let ambient = albedo * uniforms.ambientLight.rgb * uniforms.ambientLight.a *
+    getAmbientOcclusion(input.fragCoord.xy);
   
   var Lo = vec3f(0.0);
-  let lightCount = i32(uniforms.lightParams.x);
-
-  Lo += lightingAccumulateLight(
-    lightCount > 0,
-    uniforms.light0Position,
-    uniforms.light0Color,
-    uniforms.light0Params,
-    normal,
-    viewDir,
-    input.worldPosition,
-    albedo,
-    shininess
-  );
-
-  Lo += lightingAccumulateLight(
-    lightCount > 1,
-    uniforms.light1Position,
-    uniforms.light1Color,
-    uniforms.light1Params,
-    normal,
-    viewDir,
-    input.worldPosition,
-    albedo,
-    shininess
-  );
+  let lightCount = min(lightList.count, arrayLength(&lightList.lights));
+  let directionalCount = min(lightList.directionalCount, lightCount);
+
+  for (var i = 0u; i < directionalCount; i++) {
+    Lo += lightingAccumulateLight(
+      lightList.lights[i],
+      normal,
+      viewDir,
+      input.worldPosition,
+      geometryNormal,
+      albedo,
+      shininess
+    );
+  }
 
-  Lo += lightingAccumulateLight(
-    lightCount > 2,
-    uniforms.light2Position,
-    uniforms.light2Color,
-    uniforms.light2Params,
-    normal,
-    viewDir,
-    input.worldPosition,
-    albedo,
-    shininess
-  );
+  // Point and spot lights: only those binned into this fragment's cluster
+  let cluster = getClusterIndex(input.fragCoord.xy, input.worldPosition);
+  let clusterLightCount = getClusterLightCount(cluster);
 
-  Lo += lightingAccumulateLight(
-    lightCount > 3,
-    uniforms.light3Position,
-    uniforms.light3Color,
-    uniforms.light3Params,
-    normal,
-    viewDir,
-    input.worldPosition,
-    albedo,
-    shininess
-  );
+  for (var i = 0u; i < clusterLightCount; i++) {
+    let lightIndex = getClusterLightIndex(cluster, i);
+    if (lightIndex >= lightCount) {
+      continue;
+    }
+    Lo += lightingAccumulateLight(
+      lightList.lights[lightIndex],
+      normal,
+      viewDir,
+      input.worldPosition,
+      geometryNormal,
+      albedo,
+      shininess
+    );
+  }
   
   let finalColor = ambient + Lo;
   
-  return vec4f(finalColor, 1.0);
+  return vec4f(finalColor, uniforms.params.x);
 }
@@ -1,23 +1,11 @@
 struct Uniforms {
   mvpMatrix: mat4x4f,         // 64B offset 0
   modelMatrix: mat4x4f,       // 64B offset 64
-  cameraPos: vec4f,           // 16B offset 128 (xyz = position, w unused)
+  cameraPos: vec4f,           // 16B offset 128 (xyz = position, w = receiveShadow)
   materialParams: vec4f,      // 16B offset 144 (x = depthScale, y = normalScale, z = useNormalMap, w = shininess)
   ambientLight: vec4f,        // 16B offset 160 (rgb = color, a = intensity)
-  lightParams: vec4f,         // 16B offset 176 (x = lightCount, y = selfShadowStrength, z = reserved, w = packed flags)
-  // lights[4]: each light is 3 vec4f (48 bytes) starting at offset 192
-  light0Position: vec4f,      // 16B offset 192 (xyz = position/direction, w unused)
-  light0Color: vec4f,         // 16B offset 208 (rgb = color, a = intensity)
-  light0Params: vec4f,        // 16B offset 224 (x = type, y = range, z = attenType, w = attenParam)
-  light1Position: vec4f,      // 16B offset 240
-  light1Color: vec4f,         // 16B offset 256
-  light1Params: vec4f,        // 16B offset 272
-  light2Position: vec4f,      // 16B offset 288
-  light2Color: vec4f,         // 16B offset 304
-  light2Params: vec4f,        // 16B offset 320
-  light3Position: vec4f,      // 16B offset 336
-  light3Color: vec4f,         // 16B offset 352
-  light3Params: vec4f,        // 16B offset 368 (total: 384B)
+  lightParams: vec4f,         // 16B offset 176 (x = reserved, y = selfShadowStrength, z = reserved, w = packed flags)
+  params: vec4f,              // 16B offset 192 (x = opacity, y = decode albedo from sRGB, zw = unused) (total: 208B)
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
@@ -42,6 +30,7 @@ struct VertexOutput {
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
   @location(5) viewDir: vec3f,
+  @location(6) instanceColor: vec3f,
 }
 
 struct TBN {
@@ -90,26 +79,35 @@ fn worldTBN(model3: mat3x3f, localNormal: vec3f, localTangent: vec3f, localBitan
 }
 
 @vertex
-fn main(input: VertexInput) -> VertexOutput {
+fn main(input: VertexInput, instance: InstanceInput) -> VertexOutput {
   var output: VertexOutput;
+  let instanceMatrix = getInstanceMatrix(instance);
   let model3 = modelMatrix3(uniforms.modelMatrix);
+  let instance3 = modelMatrix3(instanceMatrix);
 
   // Positions
-  let worldPos = worldPosition(uniforms.modelMatrix, input.position);
-  output.position = clipPosition(uniforms.mvpMatrix, input.position);
+  let instancePosition = (instanceMatrix * vec4f(input.position, 1.0)).xyz;
+  let worldPos = worldPosition(uniforms.modelMatrix, instancePosition);
+  output.position = clipPosition(uniforms.mvpMatrix, instancePosition);
   output.worldPosition = worldPos;
 
   // UV
   output.uv = input.uv;
 
   // Basis (world space)
-  let tbn = worldTBN(model3, input.normal, input.tangent, input.bitangent);
+  let tbn = worldTBN(
+    model3,
+    getInstanceNormalMatrix(instanceMatrix) * input.normal,
+    instance3 * input.tangent,
+    instance3 * input.bitangent
+  );
   output.worldNormal = tbn.N;
   output.worldTangent = tbn.T;
   output.worldBitangent = tbn.B;
 
   // View vector (world space): kept unnormalized for interpolation stability.
   output.viewDir = uniforms.cameraPos.xyz - worldPos;
+  output.instanceColor = instance.color.rgb;
 
   return output;
 }
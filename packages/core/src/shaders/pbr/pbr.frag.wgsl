@@ -5,22 +5,9 @@ struct Uniforms {
   baseColor: vec4f,          // rgb + alpha
   pbrParams: vec4f,          // x = metalness, y = roughness, z = aoIntensity, w = normalScale
   emissive: vec4f,           // rgb + intensity
-  envParams: vec4f,          // x = envMapIntensity, y = lightCount, z = envMode (0=none, 1=equirect, 2=IBL), w = maxMipLevel
-  cameraPosition: vec4f,
+  envParams: vec4f,          // x = envMapIntensity, y = sRGB decode flags (bit0 = map, bit1 = emissiveMap), z = envMode (0=none, 1=equirect, 2=IBL), w = maxMipLevel
+  cameraPosition: vec4f,     // xyz = position, w = receiveShadow (0 or 1)
   ambientLight: vec4f,       // rgb + intensity
-  // lights[4]: each light is 3 vec4f (48 bytes)
-  light0Position: vec4f,
-  light0Color: vec4f,
-  light0Params: vec4f,
-  light1Position: vec4f,
-  light1Color: vec4f,
-  light1Params: vec4f,
-  light2Position: vec4f,
-  light2Color: vec4f,
-  light2Params: vec4f,
-  light3Position: vec4f,
-  light3Color: vec4f,
-  light3Params: vec4f,
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
@@ -39,12 +26,24 @@ struct Uniforms {
 @group(1) @binding(2) var irradianceMap: texture_cube<f32>;     // Diffuse irradiance cubemap
 @group(1) @binding(3) var brdfLUT: texture_2d<f32>;             // BRDF integration LUT
 
+// Lighting resources - shared across meshes, bound by the renderer
+@group(2) @binding(0) var shadowSampler: sampler_comparison;
+@group(2) @binding(1) var directionalShadowMap: texture_depth_2d_array;
+@group(2) @binding(2) var<uniform> shadowUniforms: ShadowUniforms;
+@group(2) @binding(3) var pointShadowMap: texture_depth_cube_array;
+@group(2) @binding(4) var<storage, read> lightList: LightList;
+@group(2) @binding(5) var<uniform> clusterUniforms: ClusterUniforms;
+@group(2) @binding(6) var<storage, read> clusterLights: array<u32>;
+@group(2) @binding(7) var ambientOcclusionMap: texture_2d<f32>;
+
 struct FragmentInput {
+  @builtin(position) fragCoord: vec4f,
   @location(0) worldNormal: vec3f,
   @location(1) worldPosition: vec3f,
   @location(2) uv: vec2f,
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
+  @location(5) instanceColor: vec3f,
 }
 
 const PI: f32 = 3.14159265359;
@@ -98,11 +97,20 @@ fn calculateAttenuation(distance: f32, range: f32, attenuationType: f32, param:
     let linear = max(1.0 - normalizedDist, 0.0);
     return linear * linear;
   } else {
-    // Physical: 1 / (1 + (d/range)^2 * k)
-    return 1.0 / (1.0 + normalizedDist * normalizedDist * param);
+    // Physical: 1 / (1 + (d/range)^2 * k), windowed to reach zero at the range
+    // where cluster culling cuts the light off
+    let rangeWindow = clamp(1.0 - pow(normalizedDist, 4.0), 0.0, 1.0);
+    return rangeWindow * rangeWindow / (1.0 + normalizedDist * normalizedDist * param);
   }
 }
 
+// Smooth cone falloff for spot lights (1 inside the inner cone, 0 outside the outer cone)
+fn calculateSpotFactor(L: vec3f, spotDirection: vec3f, cosInner: f32, cosOuter: f32) -> f32 {
+  let cosTheta = dot(-L, normalize(spotDirection));
+  let t = clamp((cosTheta - cosOuter) / max(cosInner - cosOuter, 0.0001), 0.0, 1.0);
+  return t * t * (3.0 - 2.0 * t);
+}
+
 // Sample equirectangular environment map
 fn sampleEquirectangular(direction: vec3f) -> vec2f {
   // Convert direction to spherical coordinates
@@ -118,9 +126,7 @@ fn sampleEquirectangular(direction: vec3f) -> vec2f {
 
 // Calculate light contribution for a single light
 fn calculateLightContribution(
-  lightPosition: vec4f,
-  lightColor: vec4f,
-  lightParams: vec4f,
+  light: Light,
   N: vec3f,
   V: vec3f,
   worldPos: vec3f,
@@ -129,27 +135,30 @@ fn calculateLightContribution(
   roughness: f32,
   F0: vec3f
 ) -> vec3f {
-  let lightType = lightParams.x;
-  let range = lightParams.y;
-  let attenuationType = lightParams.z;
-  let attenuationParam = lightParams.w;
+  let lightType = light.params.x;
+  let range = light.params.y;
+  let attenuationType = light.params.z;
+  let attenuationParam = light.params.w;
   
   var L: vec3f;
   var attenuation: f32 = 1.0;
   
   if (lightType < 0.5) {
     // Directional light: use direction directly (negate for incoming)
-    L = normalize(-lightPosition.xyz);
+    L = normalize(-light.position.xyz);
   } else {
-    // Point light: calculate direction from position
-    let lightVec = lightPosition.xyz - worldPos;
+    // Point and spot lights: calculate direction from position
+    let lightVec = light.position.xyz - worldPos;
     let distance = length(lightVec);
     L = normalize(lightVec);
     attenuation = calculateAttenuation(distance, range, attenuationType, attenuationParam);
+    if (lightType > 1.5) {
+      attenuation *= calculateSpotFactor(L, light.spotDirection.xyz, light.spotCone.x, light.spotCone.y);
+    }
   }
   
   let H = normalize(V + L);
-  let radiance = lightColor.rgb * lightColor.a * attenuation;
+  let radiance = light.color.rgb * light.color.a * attenuation;
   
   // Cook-Torrance BRDF
   let NDF = distributionGGX(N, H, roughness);
@@ -169,6 +178,14 @@ fn calculateLightContribution(
   return (kD * albedo / PI + specular) * radiance * NdotL;
 }
 
+// Shadow factor for a light (1 = lit)
+fn calculateShadow(light: Light, N: vec3f, worldPos: vec3f) -> f32 {
+  if (uniforms.cameraPosition.w < 0.5) {
+    return 1.0;
+  }
+  return sampleLightShadow(light.position, light.params.x, worldPos, N);
+}
+
 // Calculate IBL contribution using split-sum approximation
 fn calculateIBLContribution(
   N: vec3f,
@@ -227,55 +244,30 @@ fn main(input: FragmentInput) -> @location(0) vec4f {
   let V = normalize(uniforms.cameraPosition.xyz - input.worldPosition);
   
   // Sample material textures
+  // 8-bit color maps without an sRGB format are decoded here
+  let srgbFlags = u32(round(uniforms.envParams.y));
   let albedoSample = textureSample(albedoMap, textureSampler, input.uv);
-  let albedo = albedoSample.rgb * uniforms.baseColor.rgb;
+  let albedoColor = select(albedoSample.rgb, srgbToLinear(albedoSample.rgb), (srgbFlags & 1u) != 0u);
+  let albedo = albedoColor * uniforms.baseColor.rgb * input.instanceColor;
   
   // Texture maps: when no map is provided, dummy white texture (1.0) is used
   // so uniform value * 1.0 = uniform value
   let roughnessSample = textureSample(roughnessMap, textureSampler, input.uv).g;
   let metalnessSample = textureSample(metalnessMap, textureSampler, input.uv).b;
   let aoSample = textureSample(aoMap, textureSampler, input.uv).r;
-  let emissiveSample = textureSample(emissiveMap, textureSampler, input.uv).rgb;
+  let emissiveMapSample = textureSample(emissiveMap, textureSampler, input.uv).rgb;
+  let emissiveSample = select(emissiveMapSample, srgbToLinear(emissiveMapSample), (srgbFlags & 2u) != 0u);
   
   // Combine texture samples with uniform values
   let metalness = uniforms.pbrParams.x * metalnessSample;
   let roughness = max(uniforms.pbrParams.y * roughnessSample, 0.04); // Clamp to avoid division issues
-  let ao = mix(1.0, aoSample, uniforms.pbrParams.z);
+  // Baked AO map combined with screen-space AO; both only darken ambient and IBL light
+  let ao = mix(1.0, aoSample, uniforms.pbrParams.z) * getAmbientOcclusion(input.fragCoord.xy);
   
   // Calculate F0 (reflectance at normal incidence)
   // Dielectrics have F0 around 0.04, metals use albedo color
   let F0 = mix(vec3f(0.04), albedo, metalness);
   
-  // Accumulate light contributions
-  var Lo = vec3f(0.0);
-  let lightCount = i32(uniforms.envParams.y);
-  
-  // Process each light (up to 4)
-  if (lightCount > 0) {
-    Lo += calculateLightContribution(
-      uniforms.light0Position, uniforms.light0Color, uniforms.light0Params,
-      N, V, input.worldPosition, albedo, metalness, roughness, F0
-    );
-  }
-  if (lightCount > 1) {
-    Lo += calculateLightContribution(
-      uniforms.light1Position, uniforms.light1Color, uniforms.light1Params,
-      N, V, input.worldPosition, albedo, metalness, roughness, F0
-    );
-  }
-  if (lightCount > 2) {
-    Lo += calculateLightContribution(
-      uniforms.light2Position, uniforms.light2Color, uniforms.light2Params,
-      N, V, input.worldPosition, albedo, metalness, roughness, F0
-    );
-  }
-  if (lightCount > 3) {
-    Lo += calculateLightContribution(
-      uniforms.light3Position, uniforms.light3Color, uniforms.light3Params,
-      N, V, input.worldPosition, albedo, metalness, roughness, F0
-    );
-  }
-  
   // Ambient lighting (simple approximation)
   let ambientColor = uniforms.ambientLight.rgb * uniforms.ambientLight.a;
   var ambient = ambientColor * albedo * ao;
@@ -307,17 +299,39 @@ fn main(input: FragmentInput) -> @location(0) vec4f {
     ambient += envContribution * ao;
   }
   
-  // Emissive contribution
-  let emissiveColor = (uniforms.emissive.rgb + emissiveSample) * uniforms.emissive.a;
+  // Accumulate light contributions
+  // (after the IBL samples: the cluster loop ends in non-uniform control flow)
+  var Lo = vec3f(0.0);
+  let lightCount = min(lightList.count, arrayLength(&lightList.lights));
+  let directionalCount = min(lightList.directionalCount, lightCount);
   
-  // Final color
-  var color = ambient + Lo + emissiveColor;
+  for (var i = 0u; i < directionalCount; i++) {
+    let light = lightList.lights[i];
+    Lo += calculateLightContribution(
+      light, N, V, input.worldPosition, albedo, metalness, roughness, F0
+    ) * calculateShadow(light, N_geom, input.worldPosition);
+  }
+  
+  // Point and spot lights: only those binned into this fragment's cluster
+  let cluster = getClusterIndex(input.fragCoord.xy, input.worldPosition);
+  let clusterLightCount = getClusterLightCount(cluster);
+  
+  for (var i = 0u; i < clusterLightCount; i++) {
+    let lightIndex = getClusterLightIndex(cluster, i);
+    if (lightIndex >= lightCount) {
+      continue;
+    }
+    let light = lightList.lights[lightIndex];
+    Lo += calculateLightContribution(
+      light, N, V, input.worldPosition, albedo, metalness, roughness, F0
+    ) * calculateShadow(light, N_geom, input.worldPosition);
+  }
   
-  // Simple Reinhard tone mapping
-  color = color / (color + vec3f(1.0));
+  // Emissive contribution
+  let emissiveColor = (uniforms.emissive.rgb + emissiveSample) * uniforms.emissive.a;
   
-  // Gamma correction (linear to sRGB)
-  color = pow(color, vec3f(1.0 / 2.2));
+  // Final color in linear HDR; tone mapping is applied by the renderer
+  let color = ambient + Lo + emissiveColor;
   
   return vec4f(color, albedoSample.a * uniforms.baseColor.a);
 }
@@ -5,23 +5,9 @@ struct Uniforms {
   baseColor: vec4f,          // rgb + alpha
   pbrParams: vec4f,          // x = metalness, y = roughness, z = aoIntensity, w = normalScale
   emissive: vec4f,           // rgb + intensity
-  envParams: vec4f,          // x = envMapIntensity, y = lightCount, z = hasEnvMap, w = unused
-  cameraPosition: vec4f,
+  envParams: vec4f,          // x = envMapIntensity, y = sRGB decode flags, z = hasEnvMap, w = unused
+  cameraPosition: vec4f,     // xyz = position, w = receiveShadow (0 or 1)
   ambientLight: vec4f,       // rgb + intensity
-  // lights[4]: each light is 3 vec4f (48 bytes)
-  // light0: position, color, params
-  light0Position: vec4f,
-  light0Color: vec4f,        // rgb + intensity
-  light0Params: vec4f,       // x = type (0=dir, 1=point), y = range, z = attenType, w = attenParam
-  light1Position: vec4f,
-  light1Color: vec4f,
-  light1Params: vec4f,
-  light2Position: vec4f,
-  light2Color: vec4f,
-  light2Params: vec4f,
-  light3Position: vec4f,
-  light3Color: vec4f,
-  light3Params: vec4f,
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
@@ -33,6 +19,10 @@ struct Uniforms {
 @group(0) @binding(6) var aoMap: texture_2d<f32>;
 @group(0) @binding(7) var emissiveMap: texture_2d<f32>;
 @group(0) @binding(8) var envMap: texture_2d<f32>;
+@group(0) @binding(16) var<storage, read> boneMatrices: array<mat4x4f>;
+@group(0) @binding(17) var<storage, read> skinVertices: array<SkinVertex>;
+@group(0) @binding(18) var<storage, read> morphInfluences: array<f32>;
+@group(0) @binding(19) var<storage, read> morphDeltas: array<MorphDelta>;
 
 struct VertexInput {
   @location(0) position: vec3f,
@@ -40,6 +30,7 @@ struct VertexInput {
   @location(2) uv: vec2f,
   @location(3) tangent: vec3f,
   @location(4) bitangent: vec3f,
+  @builtin(vertex_index) vertexIndex: u32,
 }
 
 struct VertexOutput {
@@ -49,25 +40,36 @@ struct VertexOutput {
   @location(2) uv: vec2f,
   @location(3) worldTangent: vec3f,
   @location(4) worldBitangent: vec3f,
+  @location(5) instanceColor: vec3f,
 }
 
 @vertex
-fn main(input: VertexInput) -> VertexOutput {
+fn main(input: VertexInput, instance: InstanceInput) -> VertexOutput {
   var output: VertexOutput;
+  // Morph targets are blended first, then skinning (identity for unskinned meshes)
+  // happens before the instance transform
+  let position = getMorphedPosition(input.vertexIndex, input.position);
+  let normal = getMorphedNormal(input.vertexIndex, input.normal);
+  let instanceMatrix = getInstanceMatrix(instance) * getSkinMatrix(input.vertexIndex);
+  let instancePosition = instanceMatrix * vec4f(position, 1.0);
   
-  output.position = uniforms.mvpMatrix * vec4f(input.position, 1.0);
+  output.position = uniforms.mvpMatrix * instancePosition;
   
   // Transform to world space
-  output.worldPosition = (uniforms.modelMatrix * vec4f(input.position, 1.0)).xyz;
+  output.worldPosition = (uniforms.modelMatrix * instancePosition).xyz;
   
   // Transform normal to world space using normal matrix
-  output.worldNormal = normalize((uniforms.normalMatrix * vec4f(input.normal, 0.0)).xyz);
+  let instanceNormal = getInstanceNormalMatrix(instanceMatrix) * normal;
+  output.worldNormal = normalize((uniforms.normalMatrix * vec4f(instanceNormal, 0.0)).xyz);
   
   // Transform tangent and bitangent to world space
-  output.worldTangent = normalize((uniforms.modelMatrix * vec4f(input.tangent, 0.0)).xyz);
-  output.worldBitangent = normalize((uniforms.modelMatrix * vec4f(input.bitangent, 0.0)).xyz);
+  let instanceTangent = instanceMatrix * vec4f(input.tangent, 0.0);
+  let instanceBitangent = instanceMatrix * vec4f(input.bitangent, 0.0);
+  output.worldTangent = normalize((uniforms.modelMatrix * instanceTangent).xyz);
+  output.worldBitangent = normalize((uniforms.modelMatrix * instanceBitangent).xyz);
   
   output.uv = input.uv;
+  output.instanceColor = instance.color.rgb;
   
   return output;
 }
@@ -0,0 +1,133 @@
+// Physically based bloom: a 13-tap downsample chain followed by a tent-filtered
+// upsample chain, blended into the scene color.
+// Reference: Jimenez, "Next Generation Post Processing in Call of Duty: Advanced Warfare" (SIGGRAPH 2014)
+
+struct Uniforms {
+  threshold: f32,
+  knee: f32,       // fraction of the threshold used as soft transition
+  radius: f32,     // upsample filter radius in UV units
+  intensity: f32,
+}
+
+@group(0) @binding(0) var sourceTexture: texture_2d<f32>;
+@group(0) @binding(1) var sourceSampler: sampler;
+@group(0) @binding(2) var<uniform> uniforms: Uniforms;
+@group(0) @binding(3) var bloomTexture: texture_2d<f32>;
+
+fn sampleSource(uv: vec2f, offset: vec2f) -> vec3f {
+  return textureSample(sourceTexture, sourceSampler, uv + offset).rgb;
+}
+
+// Karis average weight, suppressing fireflies from very bright single pixels
+fn karisWeight(color: vec3f) -> f32 {
+  let luma = dot(color, vec3f(0.2126, 0.7152, 0.0722));
+  return 1.0 / (1.0 + luma);
+}
+
+// Soft threshold; a threshold of 0 keeps the whole image
+fn applyThreshold(color: vec3f) -> vec3f {
+  if (uniforms.threshold <= 0.0) {
+    return color;
+  }
+  let brightness = max(color.r, max(color.g, color.b));
+  let kneeWidth = uniforms.threshold * uniforms.knee + 1e-5;
+  var soft = clamp(brightness - uniforms.threshold + kneeWidth, 0.0, 2.0 * kneeWidth);
+  soft = soft * soft / (4.0 * kneeWidth);
+  let contribution = max(soft, brightness - uniforms.threshold) / max(brightness, 1e-5);
+  return color * contribution;
+}
+
+struct DownsampleTaps {
+  a: vec3f, b: vec3f, c: vec3f,
+  d: vec3f, e: vec3f, f: vec3f,
+  g: vec3f, h: vec3f, i: vec3f,
+  j: vec3f, k: vec3f,
+  l: vec3f, m: vec3f,
+}
+
+//  a - b - c
+//  - j - k -
+//  d - e - f
+//  - l - m -
+//  g - h - i
+fn sampleDownsampleTaps(uv: vec2f) -> DownsampleTaps {
+  let texel = 1.0 / vec2f(textureDimensions(sourceTexture));
+  let x = texel.x;
+  let y = texel.y;
+
+  var taps: DownsampleTaps;
+  taps.a = sampleSource(uv, vec2f(-2.0 * x, -2.0 * y));
+  taps.b = sampleSource(uv, vec2f(0.0, -2.0 * y));
+  taps.c = sampleSource(uv, vec2f(2.0 * x, -2.0 * y));
+  taps.d = sampleSource(uv, vec2f(-2.0 * x, 0.0));
+  taps.e = sampleSource(uv, vec2f(0.0, 0.0));
+  taps.f = sampleSource(uv, vec2f(2.0 * x, 0.0));
+  taps.g = sampleSource(uv, vec2f(-2.0 * x, 2.0 * y));
+  taps.h = sampleSource(uv, vec2f(0.0, 2.0 * y));
+  taps.i = sampleSource(uv, vec2f(2.0 * x, 2.0 * y));
+  taps.j = sampleSource(uv, vec2f(-x, -y));
+  taps.k = sampleSource(uv, vec2f(x, -y));
+  taps.l = sampleSource(uv, vec2f(-x, y));
+  taps.m = sampleSource(uv, vec2f(x, y));
+  return taps;
+}
+
+// First downsample from the scene: thresholded, with Karis-weighted box groups
+@fragment
+fn prefilter(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let t = sampleDownsampleTaps(uv);
+
+  let center = (t.j + t.k + t.l + t.m) * 0.25;
+  let topLeft = (t.a + t.b + t.d + t.e) * 0.25;
+  let topRight = (t.b + t.c + t.e + t.f) * 0.25;
+  let bottomLeft = (t.d + t.e + t.g + t.h) * 0.25;
+  let bottomRight = (t.e + t.f + t.h + t.i) * 0.25;
+
+  let wCenter = 0.5 * karisWeight(center);
+  let wTopLeft = 0.125 * karisWeight(topLeft);
+  let wTopRight = 0.125 * karisWeight(topRight);
+  let wBottomLeft = 0.125 * karisWeight(bottomLeft);
+  let wBottomRight = 0.125 * karisWeight(bottomRight);
+
+  let color = (center * wCenter + topLeft * wTopLeft + topRight * wTopRight
+    + bottomLeft * wBottomLeft + bottomRight * wBottomRight)
+    / (wCenter + wTopLeft + wTopRight + wBottomLeft + wBottomRight);
+
+  return vec4f(applyThreshold(max(color, vec3f(0.0))), 1.0);
+}
+
+@fragment
+fn downsample(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let t = sampleDownsampleTaps(uv);
+
+  let color = t.e * 0.125
+    + (t.a + t.c + t.g + t.i) * 0.03125
+    + (t.b + t.d + t.f + t.h) * 0.0625
+    + (t.j + t.k + t.l + t.m) * 0.125;
+
+  return vec4f(color, 1.0);
+}
+
+// 3x3 tent filter, additively blended into the next larger level
+@fragment
+fn upsample(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let size = vec2f(textureDimensions(sourceTexture));
+  // Keep the filter round on non-square targets
+  let x = uniforms.radius * size.y / size.x;
+  let y = uniforms.radius;
+
+  var color = sampleSource(uv, vec2f(0.0, 0.0)) * 4.0;
+  color += (sampleSource(uv, vec2f(0.0, -y)) + sampleSource(uv, vec2f(-x, 0.0))
+    + sampleSource(uv, vec2f(x, 0.0)) + sampleSource(uv, vec2f(0.0, y))) * 2.0;
+  color += sampleSource(uv, vec2f(-x, -y)) + sampleSource(uv, vec2f(x, -y))
+    + sampleSource(uv, vec2f(-x, y)) + sampleSource(uv, vec2f(x, y));
+
+  return vec4f(color / 16.0, 1.0);
+}
+
+@fragment
+fn composite(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let scene = textureSample(sourceTexture, sourceSampler, uv);
+  let bloom = textureSample(bloomTexture, sourceSampler, uv).rgb;
+  return vec4f(mix(scene.rgb, bloom, uniforms.intensity), scene.a);
+}
@@ -0,0 +1,79 @@
+// Bokeh depth of field from a signed circle of confusion (CoC) texture, in two passes:
+// - bokeh: at half resolution, gathers a disc of samples on a golden angle spiral whose
+//   radius grows with the largest CoC; each sample counts if its own CoC reaches the center,
+//   so out-of-focus foreground spreads over sharper pixels but sharp background does not
+// - composite: at full resolution, blends the sharp color towards the bokeh by the CoC
+//   of the pixel and the foreground coverage written by the bokeh pass
+// Reference: Gustafsson, "Bokeh depth of field in a single pass" (2018)
+
+const GOLDEN_ANGLE: f32 = 2.39996323;
+const RADIUS_SCALE: f32 = 0.5;   // spiral spacing in half-resolution pixels
+const MAX_SAMPLES: i32 = 256;
+
+struct Uniforms {
+  near: f32,
+  far: f32,
+  focusDistance: f32,
+  cocScale: f32,
+  maxCoc: f32,     // largest CoC radius in full-resolution pixels
+}
+
+@group(0) @binding(0) var colorTexture: texture_2d<f32>;
+@group(0) @binding(1) var linearSampler: sampler;
+@group(0) @binding(2) var<uniform> uniforms: Uniforms;
+@group(0) @binding(3) var cocTexture: texture_2d<f32>;    // r = signed CoC radius in full-resolution pixels
+@group(0) @binding(4) var bokehTexture: texture_2d<f32>;  // rgb = blurred color, a = foreground coverage
+
+// Signed CoC radius in half-resolution pixels
+fn sampleCoc(uv: vec2f) -> f32 {
+  return textureSampleLevel(cocTexture, linearSampler, uv, 0.0).r * 0.5;
+}
+
+@fragment
+fn bokeh(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let texel = 2.0 / vec2f(textureDimensions(cocTexture));
+  let maxRadius = uniforms.maxCoc * 0.5;
+
+  let centerCoc = sampleCoc(uv);
+  let centerSize = abs(centerCoc);
+  var color = textureSampleLevel(colorTexture, linearSampler, uv, 0.0).rgb;
+  var total = 1.0;
+  var foreground = 0.0;
+
+  var radius = RADIUS_SCALE;
+  var angle = 0.0;
+  for (var i = 0; i < MAX_SAMPLES && radius < maxRadius; i++) {
+    let sampleUv = uv + vec2f(cos(angle), sin(angle)) * radius * texel;
+    let sampleColor = textureSampleLevel(colorTexture, linearSampler, sampleUv, 0.0).rgb;
+    let sampleCoc = sampleCoc(sampleUv);
+
+    // Background behind the center is blurred at most twice as much as the center itself
+    var sampleSize = abs(sampleCoc);
+    if (sampleCoc > centerCoc) {
+      sampleSize = min(sampleSize, centerSize * 2.0);
+    }
+
+    // Samples whose CoC does not reach the center contribute the running average instead
+    let weight = smoothstep(radius - 0.5, radius + 0.5, sampleSize);
+    color += mix(color / total, sampleColor, weight);
+    total += 1.0;
+    if (sampleCoc < 0.0) {
+      foreground = max(foreground, weight);
+    }
+
+    radius += RADIUS_SCALE / radius;
+    angle += GOLDEN_ANGLE;
+  }
+
+  return vec4f(color / total, foreground);
+}
+
+@fragment
+fn composite(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
+  let sharp = textureSampleLevel(colorTexture, linearSampler, uv, 0.0);
+  let blurred = textureSampleLevel(bokehTexture, linearSampler, uv, 0.0);
+  let coc = abs(textureLoad(cocTexture, vec2i(fragCoord.xy), 0).r);
+
+  let blend = max(smoothstep(0.5, 1.5, coc), blurred.a);
+  return vec4f(mix(sharp.rgb, blurred.rgb, blend), sharp.a);
+}
@@ -0,0 +1,27 @@
+// Signed circle of confusion radius in full-resolution pixels from the scene depth:
+// negative in front of the focus plane, positive behind it.
+// depthTexture is declared by the pass as texture_depth_2d or texture_depth_multisampled_2d,
+// both of which textureLoad with a texel and a level or sample index of 0.
+
+struct Uniforms {
+  near: f32,
+  far: f32,
+  focusDistance: f32,
+  cocScale: f32,   // radius in pixels of a point at infinite distance
+  maxCoc: f32,     // largest radius in pixels
+}
+
+@group(0) @binding(1) var<uniform> uniforms: Uniforms;
+
+// View-space distance from a [0, 1] perspective depth
+fn linearizeDepth(depth: f32) -> f32 {
+  return uniforms.near * uniforms.far / (uniforms.far - depth * (uniforms.far - uniforms.near));
+}
+
+@fragment
+fn main(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  let depth = textureLoad(depthTexture, vec2i(fragCoord.xy), 0);
+  let distance = linearizeDepth(depth);
+  let coc = uniforms.cocScale * (1.0 - uniforms.focusDistance / distance);
+  return vec4f(clamp(coc, -uniforms.maxCoc, uniforms.maxCoc), 0.0, 0.0, 1.0);
+}
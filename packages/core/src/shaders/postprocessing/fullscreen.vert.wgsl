@@ -0,0 +1,20 @@
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f,
+}
+
+// Fullscreen triangle vertex shader
+// vertex 0: (-1, -1), vertex 1: (3, -1), vertex 2: (-1, 3)
+@vertex
+fn main(@builtin(vertex_index) vertexIndex: u32) -> VertexOutput {
+  var output: VertexOutput;
+
+  let x = f32((vertexIndex << 1u) & 2u) * 2.0 - 1.0;
+  let y = f32(vertexIndex & 2u) * 2.0 - 1.0;
+  output.position = vec4f(x, y, 0.0, 1.0);
+
+  // Clip space Y points up, texture V points down
+  output.uv = vec2f(x * 0.5 + 0.5, 0.5 - y * 0.5);
+
+  return output;
+}
@@ -0,0 +1,151 @@
+// Fast approximate anti-aliasing on display-referred (tone mapped, sRGB encoded) colors.
+// Finds the local edge direction from luma, searches along the edge for its ends and
+// resamples across it; a subpixel term additionally softens single-pixel features.
+// Reference: Lottes, "FXAA" (NVIDIA, 2011), FXAA 3.11 quality preset 12
+
+const EDGE_THRESHOLD_MIN: f32 = 0.0312;
+const EDGE_THRESHOLD_MAX: f32 = 0.125;
+const SUBPIXEL_QUALITY: f32 = 0.75;
+const SEARCH_STEPS: i32 = 12;
+
+@group(0) @binding(0) var inputTexture: texture_2d<f32>;
+@group(0) @binding(1) var inputSampler: sampler;
+
+fn luma(color: vec3f) -> f32 {
+  return dot(color, vec3f(0.299, 0.587, 0.114));
+}
+
+fn sampleLuma(uv: vec2f) -> f32 {
+  return luma(textureSampleLevel(inputTexture, inputSampler, uv, 0.0).rgb);
+}
+
+// Distance in pixels of each search step: fine near the pixel, coarse further away
+fn searchStepSize(step: i32) -> f32 {
+  if (step < 5) {
+    return 1.0;
+  }
+  if (step == 5) {
+    return 1.5;
+  }
+  if (step < 10) {
+    return 2.0;
+  }
+  if (step == 10) {
+    return 4.0;
+  }
+  return 8.0;
+}
+
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let texelSize = 1.0 / vec2f(textureDimensions(inputTexture));
+  let center = textureSampleLevel(inputTexture, inputSampler, uv, 0.0);
+
+  // UV y points down the screen
+  let lumaCenter = luma(center.rgb);
+  let lumaUp = sampleLuma(uv + vec2f(0.0, -1.0) * texelSize);
+  let lumaDown = sampleLuma(uv + vec2f(0.0, 1.0) * texelSize);
+  let lumaLeft = sampleLuma(uv + vec2f(-1.0, 0.0) * texelSize);
+  let lumaRight = sampleLuma(uv + vec2f(1.0, 0.0) * texelSize);
+
+  let lumaMin = min(lumaCenter, min(min(lumaUp, lumaDown), min(lumaLeft, lumaRight)));
+  let lumaMax = max(lumaCenter, max(max(lumaUp, lumaDown), max(lumaLeft, lumaRight)));
+  let lumaRange = lumaMax - lumaMin;
+  if (lumaRange < max(EDGE_THRESHOLD_MIN, lumaMax * EDGE_THRESHOLD_MAX)) {
+    return center;
+  }
+
+  let lumaUpLeft = sampleLuma(uv + vec2f(-1.0, -1.0) * texelSize);
+  let lumaUpRight = sampleLuma(uv + vec2f(1.0, -1.0) * texelSize);
+  let lumaDownLeft = sampleLuma(uv + vec2f(-1.0, 1.0) * texelSize);
+  let lumaDownRight = sampleLuma(uv + vec2f(1.0, 1.0) * texelSize);
+
+  let lumaUpDown = lumaUp + lumaDown;
+  let lumaLeftRight = lumaLeft + lumaRight;
+  let lumaLeftCorners = lumaUpLeft + lumaDownLeft;
+  let lumaRightCorners = lumaUpRight + lumaDownRight;
+  let lumaUpCorners = lumaUpLeft + lumaUpRight;
+  let lumaDownCorners = lumaDownLeft + lumaDownRight;
+
+  // A horizontal edge has a strong vertical gradient
+  let edgeHorizontal =
+    abs(-2.0 * lumaLeft + lumaLeftCorners) +
+    abs(-2.0 * lumaCenter + lumaUpDown) * 2.0 +
+    abs(-2.0 * lumaRight + lumaRightCorners);
+  let edgeVertical =
+    abs(-2.0 * lumaUp + lumaUpCorners) +
+    abs(-2.0 * lumaCenter + lumaLeftRight) * 2.0 +
+    abs(-2.0 * lumaDown + lumaDownCorners);
+  let isHorizontal = edgeHorizontal >= edgeVertical;
+
+  // Pick the side of the pixel the edge lies on
+  let luma1 = select(lumaLeft, lumaUp, isHorizontal);
+  let luma2 = select(lumaRight, lumaDown, isHorizontal);
+  let gradient1 = luma1 - lumaCenter;
+  let gradient2 = luma2 - lumaCenter;
+  let is1Steepest = abs(gradient1) >= abs(gradient2);
+  let gradientScaled = 0.25 * max(abs(gradient1), abs(gradient2));
+
+  var stepLength = select(texelSize.x, texelSize.y, isHorizontal);
+  var lumaLocalAverage = 0.5 * (luma2 + lumaCenter);
+  if (is1Steepest) {
+    stepLength = -stepLength;
+    lumaLocalAverage = 0.5 * (luma1 + lumaCenter);
+  }
+
+  // Start on the edge itself, half a pixel towards the steeper side
+  var edgeUv = uv;
+  if (isHorizontal) {
+    edgeUv.y += stepLength * 0.5;
+  } else {
+    edgeUv.x += stepLength * 0.5;
+  }
+
+  // Search both directions along the edge until the luma leaves the local average
+  let offset = select(vec2f(0.0, texelSize.y), vec2f(texelSize.x, 0.0), isHorizontal);
+  var uv1 = edgeUv - offset;
+  var uv2 = edgeUv + offset;
+  var lumaEnd1 = sampleLuma(uv1) - lumaLocalAverage;
+  var lumaEnd2 = sampleLuma(uv2) - lumaLocalAverage;
+  var reached1 = abs(lumaEnd1) >= gradientScaled;
+  var reached2 = abs(lumaEnd2) >= gradientScaled;
+
+  for (var i = 1; i < SEARCH_STEPS && !(reached1 && reached2); i++) {
+    if (!reached1) {
+      uv1 -= offset * searchStepSize(i);
+      lumaEnd1 = sampleLuma(uv1) - lumaLocalAverage;
+      reached1 = abs(lumaEnd1) >= gradientScaled;
+    }
+    if (!reached2) {
+      uv2 += offset * searchStepSize(i);
+      lumaEnd2 = sampleLuma(uv2) - lumaLocalAverage;
+      reached2 = abs(lumaEnd2) >= gradientScaled;
+    }
+  }
+
+  let distance1 = select(uv.x - uv1.x, uv.y - uv1.y, isHorizontal);
+  let distance2 = select(uv2.x - uv.x, uv2.y - uv.y, isHorizontal);
+  let isDirection1 = distance1 < distance2;
+  let edgeLength = distance1 + distance2;
+  let pixelOffset = 0.5 - min(distance1, distance2) / edgeLength;
+
+  // Only move towards the nearer end if its luma varies the same way as the center
+  let isLumaCenterSmaller = lumaCenter < lumaLocalAverage;
+  let lumaEnd = select(lumaEnd2, lumaEnd1, isDirection1);
+  var finalOffset = select(0.0, pixelOffset, (lumaEnd < 0.0) != isLumaCenterSmaller);
+
+  // Subpixel aliasing: compare the center with the weighted 3x3 average
+  let lumaAverage = (2.0 * (lumaUpDown + lumaLeftRight) + lumaLeftCorners + lumaRightCorners) / 12.0;
+  let subpixel = clamp(abs(lumaAverage - lumaCenter) / lumaRange, 0.0, 1.0);
+  let subpixelSmooth = (-2.0 * subpixel + 3.0) * subpixel * subpixel;
+  finalOffset = max(finalOffset, subpixelSmooth * subpixelSmooth * SUBPIXEL_QUALITY);
+
+  var finalUv = uv;
+  if (isHorizontal) {
+    finalUv.y += finalOffset * stepLength;
+  } else {
+    finalUv.x += finalOffset * stepLength;
+  }
+
+  return vec4f(textureSampleLevel(inputTexture, inputSampler, finalUv, 0.0).rgb, center.a);
+}
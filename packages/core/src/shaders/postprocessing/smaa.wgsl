@@ -0,0 +1,197 @@
+// Subpixel morphological anti-aliasing (SMAA 1x) on display-referred colors, in three passes:
+// - edges: luma edge detection with local contrast adaptation
+// - weights: for every edge pixel, searches the ends of the edge line and whether it turns
+//   up or down there, then computes the coverage of the reconstructed silhouette analytically
+//   instead of reading the precomputed area texture
+// - blend: blends every pixel with its neighbours by those coverages
+// Diagonal patterns and corner rounding are not handled.
+// Reference: Jimenez et al., "SMAA: Enhanced Subpixel Morphological Antialiasing" (Eurographics 2012)
+
+const THRESHOLD: f32 = 0.1;
+const LOCAL_CONTRAST_FACTOR: f32 = 2.0;
+const MAX_SEARCH_STEPS: i32 = 16;
+
+@group(0) @binding(0) var colorTexture: texture_2d<f32>;
+@group(0) @binding(1) var edgesTexture: texture_2d<f32>;     // r = left edge, g = top edge
+@group(0) @binding(2) var weightsTexture: texture_2d<f32>;   // blend with x = top, y = (top pixel with) bottom, z = left, w = (left pixel with) right
+
+fn isInside(texel: vec2i, size: vec2u) -> bool {
+  return all(texel >= vec2i(0)) && all(texel < vec2i(size));
+}
+
+fn loadColor(texel: vec2i) -> vec4f {
+  let size = vec2i(textureDimensions(colorTexture));
+  return textureLoad(colorTexture, clamp(texel, vec2i(0), size - 1), 0);
+}
+
+fn loadLuma(texel: vec2i) -> f32 {
+  return dot(loadColor(texel).rgb, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+// Edges outside the texture are treated as absent
+fn loadEdges(texel: vec2i) -> vec2f {
+  if (!isInside(texel, textureDimensions(edgesTexture))) {
+    return vec2f(0.0);
+  }
+  return textureLoad(edgesTexture, texel, 0).rg;
+}
+
+fn loadWeights(texel: vec2i) -> vec4f {
+  if (!isInside(texel, textureDimensions(weightsTexture))) {
+    return vec4f(0.0);
+  }
+  return textureLoad(weightsTexture, texel, 0);
+}
+
+@fragment
+fn edges(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  let texel = vec2i(fragCoord.xy);
+  let luma = loadLuma(texel);
+  let lumaLeft = loadLuma(texel - vec2i(1, 0));
+  let lumaTop = loadLuma(texel - vec2i(0, 1));
+
+  let delta = abs(vec2f(luma - lumaLeft, luma - lumaTop));
+  var edge = step(vec2f(THRESHOLD), delta);
+  if (edge.x + edge.y == 0.0) {
+    return vec4f(0.0, 0.0, 0.0, 1.0);
+  }
+
+  // Drop edges much weaker than a neighbouring edge, which the eye barely notices next to it
+  let neighbourDelta = abs(vec4f(
+    luma - loadLuma(texel + vec2i(1, 0)),
+    luma - loadLuma(texel + vec2i(0, 1)),
+    lumaLeft - loadLuma(texel - vec2i(2, 0)),
+    lumaTop - loadLuma(texel - vec2i(0, 2)),
+  ));
+  let maxDelta = max(
+    max(delta.x, delta.y),
+    max(max(neighbourDelta.x, neighbourDelta.y), max(neighbourDelta.z, neighbourDelta.w)),
+  );
+  edge *= step(vec2f(maxDelta), LOCAL_CONTRAST_FACTOR * delta);
+
+  return vec4f(edge, 0.0, 1.0);
+}
+
+// Number of consecutive pixels after texel (in steps of direction) that share its edge
+fn searchEdgeLength(texel: vec2i, direction: vec2i, component: i32) -> i32 {
+  var count = 0;
+  for (var i = 1; i <= MAX_SEARCH_STEPS; i++) {
+    if (loadEdges(texel + direction * i)[component] < 0.5) {
+      break;
+    }
+    count = i;
+  }
+  return count;
+}
+
+// Areas of a line from (a, h0) to (b, h1) on the positive (x) and negative (y) side of the edge
+fn linearArea(a: f32, b: f32, h0: f32, h1: f32) -> vec2f {
+  let width = b - a;
+  if (width <= 0.0) {
+    return vec2f(0.0);
+  }
+  if (h0 * h1 >= 0.0) {
+    let area = 0.5 * (h0 + h1) * width;
+    return vec2f(max(area, 0.0), max(-area, 0.0));
+  }
+
+  // The line crosses the edge at a + t
+  let t = h0 / (h0 - h1) * width;
+  let first = 0.5 * h0 * t;
+  let second = 0.5 * h1 * (width - t);
+  return vec2f(max(first, 0.0) + max(second, 0.0), max(-first, 0.0) + max(-second, 0.0));
+}
+
+// Height of the reconstructed silhouette at x along an edge line of lineLength pixels.
+// Each end that turns (ends = +-0.5) connects to the middle of the line, as in MLAA.
+fn silhouetteHeight(x: f32, lineLength: f32, ends: vec2f) -> f32 {
+  let center = 0.5 * lineLength;
+  if (x <= center) {
+    return ends.x * (1.0 - x / center);
+  }
+  return ends.y * (x - center) / center;
+}
+
+// Coverage of the pixel spanning [offset, offset + 1] along the line, split by side of the edge
+fn silhouetteArea(offset: f32, lineLength: f32, ends: vec2f) -> vec2f {
+  let center = 0.5 * lineLength;
+  let a = offset;
+  let b = offset + 1.0;
+  if (a < center && b > center) {
+    return linearArea(a, center, silhouetteHeight(a, lineLength, ends), 0.0) +
+      linearArea(center, b, 0.0, silhouetteHeight(b, lineLength, ends));
+  }
+  return linearArea(a, b, silhouetteHeight(a, lineLength, ends), silhouetteHeight(b, lineLength, ends));
+}
+
+// +0.5 if an edge line turns towards the neighbouring side at its end, -0.5 towards this side
+fn turnHeight(ownSide: f32, otherSide: f32) -> f32 {
+  return 0.5 * (step(0.5, otherSide) - step(0.5, ownSide));
+}
+
+@fragment
+fn weights(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  let texel = vec2i(fragCoord.xy);
+  let edge = loadEdges(texel);
+  var result = vec4f(0.0);
+
+  // Edge on top: a horizontal line between this row and the one above
+  if (edge.g > 0.5) {
+    let left = searchEdgeLength(texel, vec2i(-1, 0), 1);
+    let right = searchEdgeLength(texel, vec2i(1, 0), 1);
+    let leftEnd = texel - vec2i(left, 0);
+    let rightEnd = texel + vec2i(right + 1, 0);
+    let ends = vec2f(
+      turnHeight(loadEdges(leftEnd).r, loadEdges(leftEnd - vec2i(0, 1)).r),
+      turnHeight(loadEdges(rightEnd).r, loadEdges(rightEnd - vec2i(0, 1)).r),
+    );
+    let area = silhouetteArea(f32(left), f32(left + right + 1), ends);
+    result.x = area.y;
+    result.y = area.x;
+  }
+
+  // Edge on the left: a vertical line between this column and the one to the left
+  if (edge.r > 0.5) {
+    let up = searchEdgeLength(texel, vec2i(0, -1), 0);
+    let down = searchEdgeLength(texel, vec2i(0, 1), 0);
+    let topEnd = texel - vec2i(0, up);
+    let bottomEnd = texel + vec2i(0, down + 1);
+    let ends = vec2f(
+      turnHeight(loadEdges(topEnd).g, loadEdges(topEnd - vec2i(1, 0)).g),
+      turnHeight(loadEdges(bottomEnd).g, loadEdges(bottomEnd - vec2i(1, 0)).g),
+    );
+    let area = silhouetteArea(f32(up), f32(up + down + 1), ends);
+    result.z = area.y;
+    result.w = area.x;
+  }
+
+  return result;
+}
+
+@fragment
+fn blend(@builtin(position) fragCoord: vec4f) -> @location(0) vec4f {
+  let texel = vec2i(fragCoord.xy);
+  let color = loadColor(texel);
+
+  let own = loadWeights(texel);
+  let top = own.x;
+  let left = own.z;
+  let bottom = loadWeights(texel + vec2i(0, 1)).y;
+  let right = loadWeights(texel + vec2i(1, 0)).w;
+
+  let horizontal = max(left, right);
+  let vertical = max(top, bottom);
+  if (max(horizontal, vertical) < 1e-5) {
+    return color;
+  }
+
+  // Blend along one axis only, like SMAA
+  if (horizontal > vertical) {
+    return color * (1.0 - left - right) +
+      loadColor(texel - vec2i(1, 0)) * left +
+      loadColor(texel + vec2i(1, 0)) * right;
+  }
+  return color * (1.0 - top - bottom) +
+    loadColor(texel - vec2i(0, 1)) * top +
+    loadColor(texel + vec2i(0, 1)) * bottom;
+}
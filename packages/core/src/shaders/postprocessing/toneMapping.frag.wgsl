@@ -0,0 +1,104 @@
+struct Uniforms {
+  exposure: f32,
+  toneMapping: u32,  // 0 = linear, 1 = reinhard, 2 = aces, 3 = agx, 4 = neutral
+}
+
+@group(0) @binding(0) var inputTexture: texture_2d<f32>;
+@group(0) @binding(1) var inputSampler: sampler;
+@group(0) @binding(2) var<uniform> uniforms: Uniforms;
+
+// ACES Filmic Tone Mapping
+// Reference: https://knarkowicz.wordpress.com/2016/01/06/aces-filmic-tone-mapping-curve/
+fn acesFilm(x: vec3f) -> vec3f {
+  let a = 2.51;
+  let b = 0.03;
+  let c = 2.43;
+  let d = 0.59;
+  let e = 0.14;
+  return saturate((x * (a * x + b)) / (x * (c * x + d) + e));
+}
+
+// Polynomial fit of the AgX base contrast curve
+fn agxContrast(x: vec3f) -> vec3f {
+  let x2 = x * x;
+  let x4 = x2 * x2;
+  return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x
+    + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+// AgX Tone Mapping
+// Reference: https://iolite-engine.com/blog_posts/minimal_agx_implementation
+fn agx(color: vec3f) -> vec3f {
+  let inset = mat3x3f(
+    0.842479062253094, 0.0423282422610123, 0.0423756549057051,
+    0.0784335999999992, 0.878468636469772, 0.0784336,
+    0.0792237451477643, 0.0791661274605434, 0.879142973793104
+  );
+  let outset = mat3x3f(
+    1.19687900512017, -0.0528968517574562, -0.0529716355144438,
+    -0.0980208811401368, 1.15190312990417, -0.0980434501171241,
+    -0.0990297440797205, -0.0989611768448433, 1.15107367264116
+  );
+  let minEv = -12.47393;
+  let maxEv = 4.026069;
+
+  var x = inset * color;
+  x = clamp(log2(max(x, vec3f(1e-10))), vec3f(minEv), vec3f(maxEv));
+  x = (x - minEv) / (maxEv - minEv);
+  x = outset * agxContrast(x);
+
+  // The curve outputs display values; decode so the shared sRGB encode applies
+  return pow(max(x, vec3f(0.0)), vec3f(2.2));
+}
+
+// Khronos PBR Neutral Tone Mapping
+// Reference: https://github.com/KhronosGroup/ToneMapping/tree/main/PBR_Neutral
+fn pbrNeutral(color: vec3f) -> vec3f {
+  let startCompression = 0.8 - 0.04;
+  let desaturation = 0.15;
+
+  let x = min(color.r, min(color.g, color.b));
+  let offset = select(0.04, x - 6.25 * x * x, x < 0.08);
+  var result = color - offset;
+
+  let peak = max(result.r, max(result.g, result.b));
+  if (peak < startCompression) {
+    return result;
+  }
+
+  let d = 1.0 - startCompression;
+  let newPeak = 1.0 - d * d / (peak + d - startCompression);
+  result = result * (newPeak / peak);
+
+  let g = 1.0 - 1.0 / (desaturation * (peak - newPeak) + 1.0);
+  return mix(result, vec3f(newPeak), g);
+}
+
+// Linear to sRGB gamma correction
+fn linearToSrgb(color: vec3f) -> vec3f {
+  return pow(color, vec3f(1.0 / 2.2));
+}
+
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+  let sampled = textureSample(inputTexture, inputSampler, uv);
+  var color = max(sampled.rgb * uniforms.exposure, vec3f(0.0));
+
+  switch uniforms.toneMapping {
+    case 1u: {
+      color = color / (color + vec3f(1.0));
+    }
+    case 2u: {
+      color = acesFilm(color);
+    }
+    case 3u: {
+      color = agx(color);
+    }
+    case 4u: {
+      color = pbrNeutral(color);
+    }
+    default: {}
+  }
+
+  return vec4f(linearToSrgb(saturate(color)), saturate(sampled.a));
+}
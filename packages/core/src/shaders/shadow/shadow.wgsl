@@ -0,0 +1,151 @@
+// Shadow sampling shared by lit materials.
+// Materials declare the bindings below in their lighting bind group:
+//   @binding(0) var shadowSampler: sampler_comparison;
+//   @binding(1) var directionalShadowMap: texture_depth_2d_array;
+//   @binding(2) var<uniform> shadowUniforms: ShadowUniforms;
+//   @binding(3) var pointShadowMap: texture_depth_cube_array;
+
+const MAX_DIRECTIONAL_SHADOWS: i32 = 4;  // layers; a cascaded light uses one per cascade
+const MAX_POINT_SHADOWS: i32 = 4;
+const MAX_SHADOW_PCF_RADIUS: i32 = 3;
+
+struct DirectionalShadow {
+  viewProjectionMatrix: mat4x4f,
+  params: vec4f,              // x = bias, y = normalBias, z = PCF radius (texels), w = texel size (1 / mapSize)
+  cascade: vec4f,             // x = cascade count of the light, y = split far (view depth), z = blend width, w = unused
+}
+
+struct PointShadow {
+  params: vec4f,              // x = bias (world units), y = near, z = far, w = unused
+}
+
+struct ShadowUniforms {
+  directional: array<DirectionalShadow, MAX_DIRECTIONAL_SHADOWS>,
+  point: array<PointShadow, MAX_POINT_SHADOWS>,
+  cameraDepthPlane: vec4f,    // xyz = camera forward, w = dot(forward, camera position)
+}
+
+// Returns the lit fraction (0 = fully shadowed, 1 = fully lit) for a directional light.
+// shadowIndex < 0 means the light does not cast shadows. Cascaded lights occupy
+// consecutive layers starting at shadowIndex; the cascade is picked by view depth and
+// blended into the next one over the last blend width of its range.
+fn sampleDirectionalShadow(shadowIndex: i32, worldPosition: vec3f, normal: vec3f) -> f32 {
+  if (shadowIndex < 0 || shadowIndex >= MAX_DIRECTIONAL_SHADOWS) {
+    return 1.0;
+  }
+
+  let cascadeCount = i32(shadowUniforms.directional[shadowIndex].cascade.x);
+  if (cascadeCount <= 1) {
+    return sampleDirectionalShadowLayer(shadowIndex, worldPosition, normal);
+  }
+
+  let viewDepth = dot(shadowUniforms.cameraDepthPlane.xyz, worldPosition) - shadowUniforms.cameraDepthPlane.w;
+  let lastLayer = min(shadowIndex + cascadeCount, MAX_DIRECTIONAL_SHADOWS) - 1;
+
+  for (var layer = shadowIndex; layer <= lastLayer; layer++) {
+    let cascade = shadowUniforms.directional[layer].cascade;
+    let splitFar = cascade.y;
+    if (viewDepth > splitFar) {
+      continue;
+    }
+
+    let lit = sampleDirectionalShadowLayer(layer, worldPosition, normal);
+    let blendWidth = cascade.z;
+    let blendStart = splitFar - blendWidth;
+    if (blendWidth <= 0.0 || viewDepth <= blendStart) {
+      return lit;
+    }
+
+    // The last cascade fades out to fully lit instead of ending in a hard edge
+    var nextLit = 1.0;
+    if (layer < lastLayer) {
+      nextLit = sampleDirectionalShadowLayer(layer + 1, worldPosition, normal);
+    }
+    return mix(lit, nextLit, (viewDepth - blendStart) / blendWidth);
+  }
+
+  // Beyond the last cascade
+  return 1.0;
+}
+
+// Returns the lit fraction for a single directional shadow map layer.
+fn sampleDirectionalShadowLayer(shadowIndex: i32, worldPosition: vec3f, normal: vec3f) -> f32 {
+  let shadow = shadowUniforms.directional[shadowIndex];
+  let bias = shadow.params.x;
+  let normalBias = shadow.params.y;
+  let radius = min(i32(shadow.params.z), MAX_SHADOW_PCF_RADIUS);
+  let texelSize = shadow.params.w;
+
+  // Offset along the normal before projecting to reduce acne on sloped surfaces
+  let lightClip = shadow.viewProjectionMatrix * vec4f(worldPosition + normal * normalBias, 1.0);
+  let ndc = lightClip.xyz / lightClip.w;
+
+  // Fragments outside the shadow box are treated as lit
+  if (ndc.z < 0.0 || ndc.z > 1.0) {
+    return 1.0;
+  }
+
+  // NDC y points up, texture v points down
+  let uv = vec2f(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5);
+  if (any(uv < vec2f(0.0)) || any(uv > vec2f(1.0))) {
+    return 1.0;
+  }
+
+  let depthRef = ndc.z - bias;
+
+  // PCF: average (2r+1)^2 hardware-filtered comparisons
+  var lit = 0.0;
+  var samples = 0.0;
+  for (var y = -radius; y <= radius; y++) {
+    for (var x = -radius; x <= radius; x++) {
+      let offset = vec2f(f32(x), f32(y)) * texelSize;
+      lit += textureSampleCompareLevel(directionalShadowMap, shadowSampler, uv + offset, shadowIndex, depthRef);
+      samples += 1.0;
+    }
+  }
+
+  return lit / samples;
+}
+
+// Returns the lit fraction for a point light using its cube shadow map.
+// Each face stores perspective depth, so the reference depth is rebuilt from the
+// major-axis distance, which equals the view-space depth of the face that is sampled.
+fn samplePointShadow(shadowIndex: i32, lightPosition: vec3f, worldPosition: vec3f) -> f32 {
+  if (shadowIndex < 0 || shadowIndex >= MAX_POINT_SHADOWS) {
+    return 1.0;
+  }
+
+  let params = shadowUniforms.point[shadowIndex].params;
+  let bias = params.x;
+  let near = params.y;
+  let far = params.z;
+
+  let toFragment = worldPosition - lightPosition;
+  let absToFragment = abs(toFragment);
+  let faceDepth = max(absToFragment.x, max(absToFragment.y, absToFragment.z));
+
+  // Fragments beyond the far plane are treated as lit
+  if (faceDepth >= far) {
+    return 1.0;
+  }
+
+  // Same mapping as Matrix4.perspective: far / (far - near) * (1 - near / z)
+  let z = max(faceDepth - bias, near);
+  let depthRef = far / (far - near) * (1.0 - near / z);
+
+  return textureSampleCompareLevel(pointShadowMap, shadowSampler, toFragment, shadowIndex, depthRef);
+}
+
+// Returns the lit fraction for a packed light slot.
+// lightPosition.w holds the shadow index (-1 = none), lightType is 0 (directional), 1 (point) or 2 (spot).
+// Spot lights do not cast shadows.
+fn sampleLightShadow(lightPosition: vec4f, lightType: f32, worldPosition: vec3f, normal: vec3f) -> f32 {
+  let shadowIndex = i32(lightPosition.w);
+  if (lightType < 0.5) {
+    return sampleDirectionalShadow(shadowIndex, worldPosition, normal);
+  }
+  if (lightType < 1.5) {
+    return samplePointShadow(shadowIndex, lightPosition.xyz, worldPosition);
+  }
+  return 1.0;
+}
@@ -0,0 +1,10 @@
+struct Uniforms {
+  lightMvpMatrix: mat4x4f,    // light view-projection * model matrix
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+
+@vertex
+fn main(@location(0) position: vec3f, instance: InstanceInput) -> @builtin(position) vec4f {
+  return uniforms.lightMvpMatrix * getInstanceMatrix(instance) * vec4f(position, 1.0);
+}
@@ -0,0 +1,20 @@
+struct Uniforms {
+  lightMvpMatrix: mat4x4f,    // light view-projection * model matrix
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(1) @binding(0) var<storage, read> boneMatrices: array<mat4x4f>;
+@group(1) @binding(1) var<storage, read> skinVertices: array<SkinVertex>;
+@group(1) @binding(2) var<storage, read> morphInfluences: array<f32>;
+@group(1) @binding(3) var<storage, read> morphDeltas: array<MorphDelta>;
+
+@vertex
+fn main(
+  @location(0) position: vec3f,
+  @builtin(vertex_index) vertexIndex: u32,
+  instance: InstanceInput,
+) -> @builtin(position) vec4f {
+  let morphedPosition = getMorphedPosition(vertexIndex, position);
+  let instanceMatrix = getInstanceMatrix(instance) * getSkinMatrix(vertexIndex);
+  return uniforms.lightMvpMatrix * instanceMatrix * vec4f(morphedPosition, 1.0);
+}
@@ -0,0 +1,34 @@
+struct Uniforms {
+  lightMvpMatrix: mat4x4f,    // light view-projection * model matrix
+  displacementParams: vec4f,  // x = scale, y = bias
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(1) @binding(0) var<storage, read> boneMatrices: array<mat4x4f>;
+@group(1) @binding(1) var<storage, read> skinVertices: array<SkinVertex>;
+@group(1) @binding(2) var<storage, read> morphInfluences: array<f32>;
+@group(1) @binding(3) var<storage, read> morphDeltas: array<MorphDelta>;
+@group(1) @binding(4) var displacementSampler: sampler;
+@group(1) @binding(5) var displacementMap: texture_2d<f32>;
+
+// Same order as blinnPhong.vert.wgsl: morph, displace along the morphed normal,
+// then skin and place in the instance
+@vertex
+fn main(
+  @location(0) position: vec3f,
+  @location(1) normal: vec3f,
+  @location(2) uv: vec2f,
+  @builtin(vertex_index) vertexIndex: u32,
+  instance: InstanceInput,
+) -> @builtin(position) vec4f {
+  let morphedPosition = getMorphedPosition(vertexIndex, position);
+  let morphedNormal = getMorphedNormal(vertexIndex, normal);
+  let displacedPosition = getDisplacedPosition(
+    morphedPosition,
+    morphedNormal,
+    uv,
+    uniforms.displacementParams.xy,
+  );
+  let instanceMatrix = getInstanceMatrix(instance) * getSkinMatrix(vertexIndex);
+  return uniforms.lightMvpMatrix * instanceMatrix * vec4f(displacedPosition, 1.0);
+}
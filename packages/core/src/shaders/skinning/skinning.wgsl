@@ -0,0 +1,35 @@
+// Per-vertex skin data read from a storage buffer (see renderer/SkinBuffer.ts).
+// Shaders including this chunk declare, at bindings of their choice:
+//   var<storage, read> boneMatrices: array<mat4x4f>;
+//   var<storage, read> skinVertices: array<SkinVertex>;
+// Meshes without a skin bind a single identity bone and a single unweighted vertex.
+struct SkinVertex {
+  joints: vec4u,
+  weights: vec4f,
+}
+
+// Weighted sum of the bone matrices influencing a vertex, or the identity for unskinned vertices.
+fn getSkinMatrix(vertexIndex: u32) -> mat4x4f {
+  let identity = mat4x4f(
+    vec4f(1.0, 0.0, 0.0, 0.0),
+    vec4f(0.0, 1.0, 0.0, 0.0),
+    vec4f(0.0, 0.0, 1.0, 0.0),
+    vec4f(0.0, 0.0, 0.0, 1.0),
+  );
+  if (vertexIndex >= arrayLength(&skinVertices)) {
+    return identity;
+  }
+
+  let skin = skinVertices[vertexIndex];
+  let totalWeight = dot(skin.weights, vec4f(1.0));
+  if (totalWeight <= 0.0) {
+    return identity;
+  }
+
+  let weights = skin.weights / totalWeight;
+  let lastBone = arrayLength(&boneMatrices) - 1u;
+  return boneMatrices[min(skin.joints.x, lastBone)] * weights.x +
+    boneMatrices[min(skin.joints.y, lastBone)] * weights.y +
+    boneMatrices[min(skin.joints.z, lastBone)] * weights.z +
+    boneMatrices[min(skin.joints.w, lastBone)] * weights.w;
+}
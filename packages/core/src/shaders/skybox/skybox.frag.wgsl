@@ -23,22 +23,6 @@ fn sampleEquirectangular(direction: vec3f) -> vec2f {
   return vec2f(u, 1.0 - v);
 }
 
-// ACES Filmic Tone Mapping
-// Reference: https://knarkowicz.wordpress.com/2016/01/06/aces-filmic-tone-mapping-curve/
-fn acesFilm(x: vec3f) -> vec3f {
-  let a = 2.51;
-  let b = 0.03;
-  let c = 2.43;
-  let d = 0.59;
-  let e = 0.14;
-  return saturate((x * (a * x + b)) / (x * (c * x + d) + e));
-}
-
-// Linear to sRGB gamma correction
-fn linearToSrgb(color: vec3f) -> vec3f {
-  return pow(color, vec3f(1.0 / 2.2));
-}
-
 @fragment
 fn main(input: FragmentInput) -> @location(0) vec4f {
   let direction = normalize(input.direction);
@@ -60,14 +44,8 @@ fn main(input: FragmentInput) -> @location(0) vec4f {
     color = textureSampleLevel(envMapCube, envSampler, direction, mipLevel).rgb;
   }
   
-  // Apply exposure
+  // Apply exposure; tone mapping is applied by the renderer
   color = color * exposure;
   
-  // Apply ACES tone mapping for HDR content
-  color = acesFilm(color);
-  
-  // Apply gamma correction
-  color = linearToSrgb(color);
-  
   return vec4f(color, 1.0);
 }
@@ -0,0 +1,12 @@
+// Screen-space motion of the surface since the previous frame in UV units (current - previous),
+// so the previous frame's color of a pixel is found at uv - motion.
+@fragment
+fn main(
+  @location(0) currentPosition: vec4f,
+  @location(1) previousPosition: vec4f,
+) -> @location(0) vec4f {
+  let current = currentPosition.xy / currentPosition.w;
+  // Points that were behind the camera are clamped; the resolve rejects their history anyway
+  let previous = previousPosition.xy / max(previousPosition.w, 1e-5);
+  return vec4f((current - previous) * vec2f(0.5, -0.5), 0.0, 1.0);
+}
@@ -0,0 +1,24 @@
+struct Uniforms {
+  mvpMatrix: mat4x4f,           // jittered view-projection * model matrix, used for rasterization
+  currentMvpMatrix: mat4x4f,    // unjittered view-projection * model matrix of this frame
+  previousMvpMatrix: mat4x4f,   // unjittered view-projection * model matrix of the previous frame
+}
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) currentPosition: vec4f,
+  @location(1) previousPosition: vec4f,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+
+@vertex
+fn main(@location(0) position: vec3f, instance: InstanceInput) -> VertexOutput {
+  let localPosition = getInstanceMatrix(instance) * vec4f(position, 1.0);
+
+  var output: VertexOutput;
+  output.position = uniforms.mvpMatrix * localPosition;
+  output.currentPosition = uniforms.currentMvpMatrix * localPosition;
+  output.previousPosition = uniforms.previousMvpMatrix * localPosition;
+  return output;
+}
@@ -0,0 +1,36 @@
+struct Uniforms {
+  mvpMatrix: mat4x4f,           // jittered view-projection * model matrix, used for rasterization
+  currentMvpMatrix: mat4x4f,    // unjittered view-projection * model matrix of this frame
+  previousMvpMatrix: mat4x4f,   // unjittered view-projection * model matrix of the previous frame
+}
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) currentPosition: vec4f,
+  @location(1) previousPosition: vec4f,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(1) @binding(0) var<storage, read> boneMatrices: array<mat4x4f>;
+@group(1) @binding(1) var<storage, read> skinVertices: array<SkinVertex>;
+@group(1) @binding(2) var<storage, read> morphInfluences: array<f32>;
+@group(1) @binding(3) var<storage, read> morphDeltas: array<MorphDelta>;
+
+// Bone matrices and morph weights of the previous frame are not kept, so the
+// current deformation is used for both frames: only the mesh transform moves.
+@vertex
+fn main(
+  @location(0) position: vec3f,
+  @builtin(vertex_index) vertexIndex: u32,
+  instance: InstanceInput,
+) -> VertexOutput {
+  let morphedPosition = getMorphedPosition(vertexIndex, position);
+  let instanceMatrix = getInstanceMatrix(instance) * getSkinMatrix(vertexIndex);
+  let localPosition = instanceMatrix * vec4f(morphedPosition, 1.0);
+
+  var output: VertexOutput;
+  output.position = uniforms.mvpMatrix * localPosition;
+  output.currentPosition = uniforms.currentMvpMatrix * localPosition;
+  output.previousPosition = uniforms.previousMvpMatrix * localPosition;
+  return output;
+}
@@ -0,0 +1,167 @@
+// Temporal anti-aliasing resolve: blends the jittered frame with the reprojected history.
+// - history is fetched at uv - motion, using the motion of the nearest surface in the 3x3
+//   neighbourhood so edges follow the foreground; pixels without geometry reproject by the
+//   camera movement alone
+// - history is rejected if it falls outside the screen or after a reset, and otherwise
+//   clipped to the color range of the current 3x3 neighbourhood in YCoCg, which removes
+//   ghosting from disoccluded or changed pixels
+// - the history weight drops with motion, as resampling moving history blurs it
+// Colors are weighted by 1 / (1 + luma) while blending, so HDR highlights do not flicker.
+// Reference: Karis, "High Quality Temporal Supersampling" (SIGGRAPH 2014)
+
+struct Uniforms {
+  reprojection: mat4x4f,   // previous view-projection * inverse(current view-projection), both unjittered
+  feedback: f32,           // history weight of a static pixel
+  historyValid: f32,       // 0 after a reset, when only the current frame is used
+}
+
+@group(0) @binding(0) var currentTexture: texture_2d<f32>;
+@group(0) @binding(1) var historyTexture: texture_2d<f32>;
+@group(0) @binding(2) var motionTexture: texture_2d<f32>;
+@group(0) @binding(3) var depthTexture: texture_depth_2d;
+@group(0) @binding(4) var historySampler: sampler;
+@group(0) @binding(5) var<uniform> uniforms: Uniforms;
+
+fn luma(color: vec3f) -> f32 {
+  return dot(color, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+fn toneMap(color: vec3f) -> vec3f {
+  return color / (1.0 + luma(color));
+}
+
+fn inverseToneMap(color: vec3f) -> vec3f {
+  return color / max(1.0 - luma(color), 1e-4);
+}
+
+fn rgbToYCoCg(color: vec3f) -> vec3f {
+  return vec3f(
+    0.25 * color.r + 0.5 * color.g + 0.25 * color.b,
+    0.5 * color.r - 0.5 * color.b,
+    -0.25 * color.r + 0.5 * color.g - 0.25 * color.b,
+  );
+}
+
+fn yCoCgToRgb(color: vec3f) -> vec3f {
+  return vec3f(
+    color.x + color.y - color.z,
+    color.x + color.z,
+    color.x - color.y - color.z,
+  );
+}
+
+fn loadCurrent(texel: vec2i) -> vec4f {
+  let size = vec2i(textureDimensions(currentTexture));
+  return textureLoad(currentTexture, clamp(texel, vec2i(0), size - 1), 0);
+}
+
+fn loadDepth(texel: vec2i) -> f32 {
+  let size = vec2i(textureDimensions(depthTexture));
+  return textureLoad(depthTexture, clamp(texel, vec2i(0), size - 1), 0);
+}
+
+fn sampleHistory(uv: vec2f) -> vec3f {
+  return textureSampleLevel(historyTexture, historySampler, uv, 0.0).rgb;
+}
+
+// Catmull-Rom filtered history from 5 bilinear taps, which keeps it sharper than a single
+// bilinear tap over many frames. The 4 corner taps carry little weight and are skipped.
+// Reference: Jimenez, "Filmic SMAA" (SIGGRAPH 2016)
+fn sampleHistoryCatmullRom(uv: vec2f) -> vec3f {
+  let size = vec2f(textureDimensions(historyTexture));
+  let position = uv * size;
+  let center = floor(position - 0.5) + 0.5;
+  let f = position - center;
+
+  let w0 = f * (-0.5 + f * (1.0 - 0.5 * f));
+  let w1 = 1.0 + f * f * (-2.5 + 1.5 * f);
+  let w2 = f * (0.5 + f * (2.0 - 1.5 * f));
+  let w3 = f * f * (-0.5 + 0.5 * f);
+  let w12 = w1 + w2;
+
+  let uv0 = (center - 1.0) / size;
+  let uv12 = (center + w2 / w12) / size;
+  let uv3 = (center + 2.0) / size;
+
+  let weights = vec4f(w12.x * w0.y, w0.x * w12.y, w3.x * w12.y, w12.x * w3.y);
+  let centerWeight = w12.x * w12.y;
+  let color = sampleHistory(vec2f(uv12.x, uv0.y)) * weights.x
+    + sampleHistory(vec2f(uv0.x, uv12.y)) * weights.y
+    + sampleHistory(uv12) * centerWeight
+    + sampleHistory(vec2f(uv3.x, uv12.y)) * weights.z
+    + sampleHistory(vec2f(uv12.x, uv3.y)) * weights.w;
+  let totalWeight = centerWeight + weights.x + weights.y + weights.z + weights.w;
+  return max(color / totalWeight, vec3f(0.0));
+}
+
+// Moves the history towards the center of the neighbourhood box until it lies inside
+fn clipToBox(boxMin: vec3f, boxMax: vec3f, history: vec3f) -> vec3f {
+  let center = 0.5 * (boxMax + boxMin);
+  let extents = max(0.5 * (boxMax - boxMin), vec3f(1e-5));
+  let offset = history - center;
+  let units = abs(offset / extents);
+  let maxUnit = max(units.x, max(units.y, units.z));
+  if (maxUnit > 1.0) {
+    return center + offset / maxUnit;
+  }
+  return history;
+}
+
+@fragment
+fn main(
+  @builtin(position) fragCoord: vec4f,
+  @location(0) uv: vec2f,
+) -> @location(0) vec4f {
+  let texel = vec2i(fragCoord.xy);
+  let current = loadCurrent(texel);
+
+  var boxMin = vec3f(1e10);
+  var boxMax = vec3f(-1e10);
+  var closestDepth = 1.0;
+  var closestTexel = texel;
+  for (var y = -1; y <= 1; y++) {
+    for (var x = -1; x <= 1; x++) {
+      let neighbour = texel + vec2i(x, y);
+      let color = rgbToYCoCg(toneMap(loadCurrent(neighbour).rgb));
+      boxMin = min(boxMin, color);
+      boxMax = max(boxMax, color);
+
+      let depth = loadDepth(neighbour);
+      if (depth < closestDepth) {
+        closestDepth = depth;
+        closestTexel = neighbour;
+      }
+    }
+  }
+
+  var motion: vec2f;
+  if (closestDepth < 1.0) {
+    let size = vec2i(textureDimensions(motionTexture));
+    motion = textureLoad(motionTexture, clamp(closestTexel, vec2i(0), size - 1), 0).xy;
+  } else {
+    // Background: reproject the far plane by the camera movement
+    let ndc = vec2f(uv.x * 2.0 - 1.0, 1.0 - uv.y * 2.0);
+    let previous = uniforms.reprojection * vec4f(ndc, 1.0, 1.0);
+    let previousNdc = previous.xy / max(previous.w, 1e-5);
+    motion = uv - vec2f(previousNdc.x * 0.5 + 0.5, 0.5 - previousNdc.y * 0.5);
+  }
+
+  let historyUv = uv - motion;
+  // The Catmull-Rom taps sample the history unconditionally, before any branch
+  let history = sampleHistoryCatmullRom(historyUv);
+  if (
+    uniforms.historyValid == 0.0 ||
+    any(historyUv < vec2f(0.0)) ||
+    any(historyUv > vec2f(1.0))
+  ) {
+    return current;
+  }
+
+  let clipped = clipToBox(boxMin, boxMax, rgbToYCoCg(toneMap(history)));
+
+  let motionPixels = length(motion * vec2f(textureDimensions(currentTexture)));
+  let feedback = uniforms.feedback * mix(1.0, 0.75, saturate(motionPixels / 8.0));
+  let blended = mix(toneMap(current.rgb), yCoCgToRgb(clipped), feedback);
+
+  return vec4f(inverseToneMap(blended), current.a);
+}
@@ -1,13 +1,22 @@
+struct Uniforms {
+  mvpMatrix: mat4x4f,
+  params: vec4f,              // x = opacity, y = decode texture from sRGB (0 or 1), zw = unused
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+
 @group(0) @binding(1) var textureSampler: sampler;
 @group(0) @binding(2) var diffuseTexture: texture_2d<f32>;
 
 struct FragmentInput {
   @location(0) uv: vec2f,
   @location(1) normal: vec3f,
+  @location(2) instanceColor: vec3f,
 }
 
 @fragment
 fn main(input: FragmentInput) -> @location(0) vec4f {
   let texColor = textureSample(diffuseTexture, textureSampler, input.uv);
-  return texColor;
+  let rgb = select(texColor.rgb, srgbToLinear(texColor.rgb), uniforms.params.y > 0.5);
+  return vec4f(rgb * input.instanceColor, texColor.a * uniforms.params.x);
 }
@@ -16,13 +16,16 @@ struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) uv: vec2f,
   @location(1) normal: vec3f,
+  @location(2) instanceColor: vec3f,
 }
 
 @vertex
-fn main(input: VertexInput) -> VertexOutput {
+fn main(input: VertexInput, instance: InstanceInput) -> VertexOutput {
   var output: VertexOutput;
-  output.position = uniforms.mvpMatrix * vec4f(input.position, 1.0);
+  let instanceMatrix = getInstanceMatrix(instance);
+  output.position = uniforms.mvpMatrix * instanceMatrix * vec4f(input.position, 1.0);
   output.uv = input.uv;
-  output.normal = input.normal;
+  output.normal = normalize(getInstanceNormalMatrix(instanceMatrix) * input.normal);
+  output.instanceColor = instance.color.rgb;
   return output;
 }
@@ -1,8 +1,16 @@
+struct Uniforms {
+  mvpMatrix: mat4x4f,
+  params: vec4f,              // x = opacity, yzw = unused
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+
 struct FragmentInput {
   @location(0) color: vec3f,
+  @location(1) instanceColor: vec3f,
 }
 
 @fragment
 fn main(input: FragmentInput) -> @location(0) vec4f {
-  return vec4f(input.color, 1.0);
+  return vec4f(srgbToLinear(input.color) * input.instanceColor, uniforms.params.x);
 }
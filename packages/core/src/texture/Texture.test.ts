@@ -1,4 +1,4 @@
-import { describe, expect, it, mock } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
 import {
   Texture,
   type TextureOptions,
@@ -185,6 +185,29 @@ describe("Texture", () => {
     });
   });
 
+  describe("needsSrgbDecode", () => {
+    it("should be true only for 8-bit formats without sRGB decoding", () => {
+      const formats: [GPUTextureFormat, boolean][] = [
+        ["rgba8unorm", true],
+        ["bgra8unorm", true],
+        ["rgba8unorm-srgb", false],
+        ["bgra8unorm-srgb", false],
+        ["rgba16float", false],
+      ];
+
+      for (const [format, expected] of formats) {
+        const texture = new Texture(
+          createMockTexture(4, 4, format),
+          createMockSampler(),
+          4,
+          4,
+          format
+        );
+        expect(texture.needsSrgbDecode).toBe(expected);
+      }
+    });
+  });
+
   describe("hasMipmaps", () => {
     it("should return true when mipLevelCount > 1", () => {
       const texture = new Texture(
@@ -320,6 +343,56 @@ describe("Texture", () => {
     });
   });
 
+  describe("fromBlob", () => {
+    const originalCreateImageBitmap = globalThis.createImageBitmap;
+
+    beforeEach(() => {
+      (globalThis as any).GPUTextureUsage ??= {
+        COPY_DST: 0x02,
+        TEXTURE_BINDING: 0x04,
+        RENDER_ATTACHMENT: 0x10,
+      };
+      (globalThis as any).createImageBitmap = mock(async () => ({
+        width: 4,
+        height: 2,
+        close: mock(() => {}),
+      }));
+    });
+
+    afterEach(() => {
+      globalThis.createImageBitmap = originalCreateImageBitmap;
+    });
+
+    it("should decode the image and upload it to a new texture", async () => {
+      const device = createMockDevice();
+      const blob = new Blob([new Uint8Array(8)], { type: "image/png" });
+
+      const texture = await Texture.fromBlob(device, blob, {
+        srgb: true,
+        generateMipmaps: false,
+        label: "albedo",
+      });
+
+      expect(texture.width).toBe(4);
+      expect(texture.height).toBe(2);
+      expect(texture.format).toBe("rgba8unorm-srgb");
+      expect(texture.mipLevelCount).toBe(1);
+      expect(device.queue.copyExternalImageToTexture).toHaveBeenCalledTimes(1);
+      expect((device.createTexture as any).mock.calls[0][0].label).toBe(
+        "albedo"
+      );
+    });
+
+    it("should reject blobs that are not images", async () => {
+      const device = createMockDevice();
+      const blob = new Blob(["{}"], { type: "application/json" });
+
+      await expect(Texture.fromBlob(device, blob)).rejects.toThrow(
+        "Invalid image format: expected image/* but got application/json"
+      );
+    });
+  });
+
   describe("destroy", () => {
     it("should destroy the GPU texture", () => {
       const gpuTexture = createMockTexture();
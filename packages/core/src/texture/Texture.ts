@@ -15,7 +15,10 @@ export interface TextureOptions {
   /** Texture format (default: 'rgba8unorm'). Only 'rgba8unorm', 'rgba8unorm-srgb', 'bgra8unorm', 'bgra8unorm-srgb' supported with fromURL() */
   format?: GPUTextureFormat;
 
-  /** Automatically convert format to sRGB variant for gamma correction (default: false) */
+  /**
+   * Automatically convert format to sRGB variant for gamma correction (default: false).
+   * Recommended for color maps; data such as normal or depth maps must stay non-sRGB.
+   */
   srgb?: boolean;
 
   /** Custom sampler options merged with default values */
@@ -108,6 +111,14 @@ const COPY_EXTERNAL_IMAGE_FORMATS: Set<GPUTextureFormat> = new Set([
   "bgra8unorm-srgb",
 ]);
 
+/**
+ * 8-bit formats whose color values are returned as stored, without sRGB decoding.
+ */
+const ENCODED_COLOR_FORMATS: Set<GPUTextureFormat> = new Set([
+  "rgba8unorm",
+  "bgra8unorm",
+]);
+
 /**
  * WebGPU texture wrapper combining a GPUTexture and GPUSampler for rendering.
  *
@@ -192,6 +203,15 @@ export class Texture {
     return this._format;
   }
 
+  /**
+   * Whether the texture stores sRGB-encoded colors that sampling does not decode,
+   * i.e. an 8-bit format without the `-srgb` suffix. Materials decode such color
+   * maps in their shaders.
+   */
+  get needsSrgbDecode(): boolean {
+    return ENCODED_COLOR_FORMATS.has(this._format);
+  }
+
   /**
    * Gets the number of mip levels (1 means no mipmaps, only base level).
    */
@@ -339,102 +359,120 @@ export class Texture {
       }
 
       const blob = await response.blob();
-
-      // Validate content type
-      if (!blob.type.startsWith("image/")) {
-        throw new Error(
-          `Invalid image format from ${url}: expected image/* but got ${blob.type}`
-        );
-      }
-
-      const imageBitmap = await createImageBitmap(blob);
-
-      // Resolve format with sRGB conversion and feature validation
-      const format = Texture.resolveFormat(device, options);
-
-      // Validate format compatibility with copyExternalImageToTexture
-      if (!COPY_EXTERNAL_IMAGE_FORMATS.has(format)) {
-        imageBitmap.close();
-        throw new Error(
-          `Format '${format}' is not compatible with fromURL(). ` +
-            `Supported formats: ${[...COPY_EXTERNAL_IMAGE_FORMATS].join(
-              ", "
-            )}. ` +
-            `For other formats, use createEmpty() and upload data manually.`
-        );
-      }
-
-      // Determine whether to generate mipmaps (default: true)
-      const shouldGenerateMipmaps = options.generateMipmaps !== false;
-
-      // Check if format supports mipmap generation (must be renderable)
-      let mipLevelCount = 1;
-      if (shouldGenerateMipmaps) {
-        if (isRenderableFormat(format)) {
-          mipLevelCount = calculateMipLevelCount(
-            imageBitmap.width,
-            imageBitmap.height
-          );
-        } else {
-          console.warn(
-            `[Texture] Format '${format}' does not support mipmap generation (not renderable). ` +
-              `Mipmaps will be skipped. Use a renderable format like 'rgba8unorm' for mipmap support.`
-          );
-        }
-      }
-
-      // Create the GPU texture
-      const texture = device.createTexture({
+      return await Texture.fromBlob(device, blob, {
+        ...options,
         label: options.label ?? `Texture: ${url}`,
-        size: [imageBitmap.width, imageBitmap.height, 1],
-        format,
-        mipLevelCount,
-        usage:
-          GPUTextureUsage.TEXTURE_BINDING |
-          GPUTextureUsage.COPY_DST |
-          GPUTextureUsage.RENDER_ATTACHMENT,
       });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to load texture from ${url}: ${error.message}`);
+      }
+      throw new Error(`Failed to load texture from ${url}: Unknown error`);
+    }
+  }
 
-      // Upload the image data to the GPU (base mip level)
-      device.queue.copyExternalImageToTexture(
-        { source: imageBitmap },
-        { texture: texture },
-        [imageBitmap.width, imageBitmap.height]
+  /**
+   * Creates a texture from encoded image data with automatic mipmap generation.
+   * @param device - The WebGPU device
+   * @param blob - Encoded image (PNG, JPEG, WebP, ...) with an image/* MIME type
+   * @param options - Optional texture configuration
+   * @returns Promise resolving to a loaded Texture instance
+   * @throws Error if the blob is not an image, format is invalid, or GPU resources cannot be created
+   */
+  static async fromBlob(
+    device: GPUDevice,
+    blob: Blob,
+    options: TextureOptions = {}
+  ): Promise<Texture> {
+    // Validate content type
+    if (!blob.type.startsWith("image/")) {
+      throw new Error(
+        `Invalid image format: expected image/* but got ${blob.type}`
       );
+    }
 
-      // Generate mipmaps if requested and supported
-      if (mipLevelCount > 1) {
-        const mipmapGenerator = MipmapGenerator.get(device);
-        mipmapGenerator.generateMipmap(texture);
-      }
+    const imageBitmap = await createImageBitmap(blob);
 
-      // Merge sampler options with defaults and validate
-      const mergedSamplerOptions: GPUSamplerDescriptor = {
-        ...DEFAULT_SAMPLER_OPTIONS,
-        ...options.sampler,
-        label: options.label ? `Sampler: ${options.label}` : undefined,
-      };
-      const validatedSamplerOptions =
-        Texture.validateSamplerOptions(mergedSamplerOptions);
-      const sampler = device.createSampler(validatedSamplerOptions);
-
-      // Release ImageBitmap resources
-      imageBitmap.close();
+    // Resolve format with sRGB conversion and feature validation
+    const format = Texture.resolveFormat(device, options);
 
-      return new Texture(
-        texture,
-        sampler,
-        imageBitmap.width,
-        imageBitmap.height,
-        format,
-        mipLevelCount
+    // Validate format compatibility with copyExternalImageToTexture
+    if (!COPY_EXTERNAL_IMAGE_FORMATS.has(format)) {
+      imageBitmap.close();
+      throw new Error(
+        `Format '${format}' is not compatible with image uploads. ` +
+          `Supported formats: ${[...COPY_EXTERNAL_IMAGE_FORMATS].join(
+            ", "
+          )}. ` +
+          `For other formats, use createEmpty() and upload data manually.`
       );
-    } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to load texture from ${url}: ${error.message}`);
+    }
+
+    // Determine whether to generate mipmaps (default: true)
+    const shouldGenerateMipmaps = options.generateMipmaps !== false;
+
+    // Check if format supports mipmap generation (must be renderable)
+    let mipLevelCount = 1;
+    if (shouldGenerateMipmaps) {
+      if (isRenderableFormat(format)) {
+        mipLevelCount = calculateMipLevelCount(
+          imageBitmap.width,
+          imageBitmap.height
+        );
+      } else {
+        console.warn(
+          `[Texture] Format '${format}' does not support mipmap generation (not renderable). ` +
+            `Mipmaps will be skipped. Use a renderable format like 'rgba8unorm' for mipmap support.`
+        );
       }
-      throw new Error(`Failed to load texture from ${url}: Unknown error`);
     }
+
+    // Create the GPU texture
+    const texture = device.createTexture({
+      label: options.label ?? "Texture",
+      size: [imageBitmap.width, imageBitmap.height, 1],
+      format,
+      mipLevelCount,
+      usage:
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST |
+        GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+
+    // Upload the image data to the GPU (base mip level)
+    device.queue.copyExternalImageToTexture(
+      { source: imageBitmap },
+      { texture: texture },
+      [imageBitmap.width, imageBitmap.height]
+    );
+
+    // Generate mipmaps if requested and supported
+    if (mipLevelCount > 1) {
+      const mipmapGenerator = MipmapGenerator.get(device);
+      mipmapGenerator.generateMipmap(texture);
+    }
+
+    // Merge sampler options with defaults and validate
+    const mergedSamplerOptions: GPUSamplerDescriptor = {
+      ...DEFAULT_SAMPLER_OPTIONS,
+      ...options.sampler,
+      label: options.label ? `Sampler: ${options.label}` : undefined,
+    };
+    const validatedSamplerOptions =
+      Texture.validateSamplerOptions(mergedSamplerOptions);
+    const sampler = device.createSampler(validatedSamplerOptions);
+
+    // Release ImageBitmap resources
+    imageBitmap.close();
+
+    return new Texture(
+      texture,
+      sampler,
+      imageBitmap.width,
+      imageBitmap.height,
+      format,
+      mipLevelCount
+    );
   }
 
   /**
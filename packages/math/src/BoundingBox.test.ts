@@ -1,5 +1,7 @@
 import { describe, it, expect } from "bun:test";
 import { BoundingBox } from "./BoundingBox";
+import { BoundingSphere } from "./BoundingSphere";
+import { Matrix4 } from "./Matrix4";
 import { Vector3 } from "./Vector3";
 
 describe("BoundingBox", () => {
@@ -160,6 +162,73 @@ describe("BoundingBox", () => {
     });
   });
 
+  describe("intersectsSphere", () => {
+    const box = new BoundingBox(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+    it("should return true for a sphere centered inside the box", () => {
+      const sphere = new BoundingSphere(new Vector3(), 0.5);
+      expect(box.intersectsSphere(sphere)).toBe(true);
+    });
+
+    it("should return true for a sphere overlapping a face", () => {
+      const sphere = new BoundingSphere(new Vector3(2, 0, 0), 1.5);
+      expect(box.intersectsSphere(sphere)).toBe(true);
+    });
+
+    it("should return false for a sphere near a corner but outside", () => {
+      // Within 1.5 of every face plane, but sqrt(3) * 0.8 from the corner
+      const sphere = new BoundingSphere(new Vector3(1.8, 1.8, 1.8), 1.3);
+      expect(box.intersectsSphere(sphere)).toBe(false);
+    });
+
+    it("should return false for a distant sphere", () => {
+      const sphere = new BoundingSphere(new Vector3(10, 0, 0), 2);
+      expect(box.intersectsSphere(sphere)).toBe(false);
+    });
+  });
+
+  describe("applyMatrix4", () => {
+    it("should translate the box", () => {
+      const box = new BoundingBox(
+        new Vector3(-1, -1, -1),
+        new Vector3(1, 1, 1)
+      );
+      const translation = Matrix4.translation(new Vector3(5, 0, -2));
+      const result = box.applyMatrix4(translation);
+      expect(result.min.x).toBe(4);
+      expect(result.max.x).toBe(6);
+      expect(result.min.z).toBe(-3);
+      expect(result.max.z).toBe(-1);
+    });
+
+    it("should enclose the rotated corners", () => {
+      const box = new BoundingBox(new Vector3(-1, 0, 0), new Vector3(1, 0, 0));
+      const result = box.applyMatrix4(Matrix4.rotationZ(Math.PI / 4));
+      const extent = Math.SQRT1_2;
+      expect(result.min.x).toBeCloseTo(-extent, 5);
+      expect(result.max.x).toBeCloseTo(extent, 5);
+      expect(result.min.y).toBeCloseTo(-extent, 5);
+      expect(result.max.y).toBeCloseTo(extent, 5);
+    });
+
+    it("should handle negative scale", () => {
+      const box = new BoundingBox(new Vector3(1, 2, 3), new Vector3(2, 4, 6));
+      const scaling = Matrix4.scaling(new Vector3(-1, 2, 1));
+      const result = box.applyMatrix4(scaling);
+      expect(result.min.x).toBe(-2);
+      expect(result.max.x).toBe(-1);
+      expect(result.min.y).toBe(4);
+      expect(result.max.y).toBe(8);
+    });
+
+    it("should keep empty boxes empty", () => {
+      const result = new BoundingBox().applyMatrix4(
+        Matrix4.translation(new Vector3(1, 2, 3))
+      );
+      expect(result.isEmpty()).toBe(true);
+    });
+  });
+
   describe("getCenter", () => {
     it("should return the center point of the box", () => {
       const box = new BoundingBox(
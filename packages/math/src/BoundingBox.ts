@@ -1,3 +1,5 @@
+import type { BoundingSphere } from "./BoundingSphere";
+import type { Matrix4 } from "./Matrix4";
 import { Vector3 } from "./Vector3";
 
 /**
@@ -90,6 +92,19 @@ export class BoundingBox {
     );
   }
 
+  /**
+   * Tests if this box intersects a sphere.
+   * @param sphere - The bounding sphere
+   * @returns True if the sphere overlaps or touches the box
+   */
+  intersectsSphere(sphere: BoundingSphere): boolean {
+    const { center, radius } = sphere;
+    const dx = center.x - Math.max(this.min.x, Math.min(center.x, this.max.x));
+    const dy = center.y - Math.max(this.min.y, Math.min(center.y, this.max.y));
+    const dz = center.z - Math.max(this.min.z, Math.min(center.z, this.max.z));
+    return dx * dx + dy * dy + dz * dz <= radius * radius;
+  }
+
   /**
    * Calculates the center point of the bounding box.
    * @returns A new Vector3 at the center of the box
@@ -145,6 +160,38 @@ export class BoundingBox {
     );
   }
 
+  /**
+   * Returns the axis-aligned box enclosing this box after an affine transform.
+   * @param matrix - Affine transform, e.g. an object's world matrix
+   * @returns A new BoundingBox (empty if this box is empty)
+   */
+  applyMatrix4(matrix: Matrix4): BoundingBox {
+    if (this.isEmpty()) {
+      return new BoundingBox();
+    }
+
+    // Arvo's method: each output axis sums the extremes of every column term
+    const m = matrix.data;
+    const min = [this.min.x, this.min.y, this.min.z];
+    const max = [this.max.x, this.max.y, this.max.z];
+    const outMin = [m[12], m[13], m[14]];
+    const outMax = [m[12], m[13], m[14]];
+
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        const a = m[j * 4 + i] * min[j];
+        const b = m[j * 4 + i] * max[j];
+        outMin[i] += Math.min(a, b);
+        outMax[i] += Math.max(a, b);
+      }
+    }
+
+    return new BoundingBox(
+      new Vector3(outMin[0], outMin[1], outMin[2]),
+      new Vector3(outMax[0], outMax[1], outMax[2])
+    );
+  }
+
   /**
    * Creates a deep copy of this bounding box.
    * @returns A new BoundingBox with cloned min and max vectors
@@ -155,6 +155,21 @@ describe("Color", () => {
     });
   });
 
+  describe("toLinear", () => {
+    it("decodes RGB with gamma 2.2 and keeps alpha", () => {
+      const linear = new Color(0.5, 1, 0, 0.8).toLinear();
+      expect(linear.r).toBeCloseTo(Math.pow(0.5, 2.2), 6);
+      expect(linear.g).toBe(1);
+      expect(linear.b).toBe(0);
+      expect(linear.a).toBe(0.8);
+    });
+
+    it("round-trips with gamma 2.2 encoding", () => {
+      const linear = new Color(0.5, 0.5, 0.5).toLinear();
+      expect(Math.pow(linear.r, 1 / 2.2)).toBeCloseTo(0.5, 6);
+    });
+  });
+
   describe("clone", () => {
     it("creates new Color with same values", () => {
       const original = new Color(1, 0.5, 0.3, 0.8);
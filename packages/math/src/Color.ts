@@ -95,6 +95,20 @@ export class Color {
     return `#${r}${g}${b}`;
   }
 
+  /**
+   * Converts this color from sRGB to linear with the gamma 2.2 approximation,
+   * e.g. to shade a color picked on screen in linear space. Alpha is unchanged.
+   * @returns A new Color with linear RGB components
+   */
+  toLinear(): Color {
+    return new Color(
+      srgbToLinear(this._r),
+      srgbToLinear(this._g),
+      srgbToLinear(this._b),
+      this._a
+    );
+  }
+
   /**
    * Creates a deep copy of this color.
    * @returns A new Color instance with identical RGBA values
@@ -179,3 +193,7 @@ export class Color {
     return `Color(${this._r}, ${this._g}, ${this._b}, ${this._a})`;
   }
 }
+
+function srgbToLinear(value: number): number {
+  return Math.pow(Math.max(value, 0), 2.2);
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test";
+import { Frustum } from "./Frustum";
+import { BoundingBox } from "./BoundingBox";
+import { BoundingSphere } from "./BoundingSphere";
+import { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+describe("Frustum", () => {
+  // 90 degree vertical fov, square aspect, looking down -Z from the origin
+  const projection = Matrix4.perspective(Math.PI / 2, 1, 1, 100);
+  const frustum = Frustum.fromMatrix(projection);
+
+  describe("constructor", () => {
+    it("should contain every point by default", () => {
+      const empty = new Frustum();
+      expect(empty.planes).toHaveLength(6);
+      expect(empty.containsPoint(new Vector3(1e6, -1e6, 1e6))).toBe(true);
+    });
+  });
+
+  describe("setFromMatrix", () => {
+    it("should extract normalized inward-facing planes", () => {
+      for (const plane of frustum.planes) {
+        expect(plane.normal.length).toBeCloseTo(1, 5);
+      }
+
+      // near plane: z = -1 facing -Z; far plane: z = -100 facing +Z
+      const near = frustum.planes[4];
+      const far = frustum.planes[5];
+      expect(near.normal.z).toBeCloseTo(-1, 5);
+      expect(near.constant).toBeCloseTo(-1, 4);
+      expect(far.normal.z).toBeCloseTo(1, 5);
+      expect(far.constant).toBeCloseTo(100, 2);
+    });
+
+    it("should follow the view transform of a view-projection matrix", () => {
+      // Camera at (0, 0, 10) looking towards -X
+      const view = Matrix4.lookAt(
+        new Vector3(0, 0, 10),
+        new Vector3(-1, 0, 10),
+        new Vector3(0, 1, 0)
+      );
+      const worldFrustum = Frustum.fromMatrix(projection.multiply(view));
+
+      expect(worldFrustum.containsPoint(new Vector3(-20, 0, 10))).toBe(true);
+      expect(worldFrustum.containsPoint(new Vector3(0, 0, -10))).toBe(false);
+    });
+  });
+
+  describe("containsPoint", () => {
+    it("should return true for a point in front of the camera", () => {
+      expect(frustum.containsPoint(new Vector3(0, 0, -10))).toBe(true);
+    });
+
+    it("should return false for points behind, beyond, or beside the frustum", () => {
+      expect(frustum.containsPoint(new Vector3(0, 0, 5))).toBe(false);
+      expect(frustum.containsPoint(new Vector3(0, 0, -0.5))).toBe(false);
+      expect(frustum.containsPoint(new Vector3(0, 0, -150))).toBe(false);
+      expect(frustum.containsPoint(new Vector3(11, 0, -10))).toBe(false);
+      expect(frustum.containsPoint(new Vector3(0, -11, -10))).toBe(false);
+    });
+  });
+
+  describe("intersectsSphere", () => {
+    it("should return true for a sphere crossing a side plane", () => {
+      const sphere = new BoundingSphere(new Vector3(11, 0, -10), 2);
+      expect(frustum.intersectsSphere(sphere)).toBe(true);
+    });
+
+    it("should return false for a sphere outside a side plane", () => {
+      const sphere = new BoundingSphere(new Vector3(15, 0, -10), 2);
+      expect(frustum.intersectsSphere(sphere)).toBe(false);
+    });
+
+    it("should return false for an empty sphere", () => {
+      expect(frustum.intersectsSphere(new BoundingSphere())).toBe(false);
+    });
+  });
+
+  describe("intersectsBox", () => {
+    it("should return true for a box inside the frustum", () => {
+      const box = new BoundingBox(
+        new Vector3(-1, -1, -11),
+        new Vector3(1, 1, -9)
+      );
+      expect(frustum.intersectsBox(box)).toBe(true);
+    });
+
+    it("should return true for a box straddling the near plane", () => {
+      const box = new BoundingBox(
+        new Vector3(-1, -1, -2),
+        new Vector3(1, 1, 2)
+      );
+      expect(frustum.intersectsBox(box)).toBe(true);
+    });
+
+    it("should return false for a box behind the camera", () => {
+      const box = new BoundingBox(new Vector3(-1, -1, 2), new Vector3(1, 1, 4));
+      expect(frustum.intersectsBox(box)).toBe(false);
+    });
+
+    it("should return false for a box beside the frustum", () => {
+      const box = new BoundingBox(
+        new Vector3(12, -1, -11),
+        new Vector3(14, 1, -9)
+      );
+      expect(frustum.intersectsBox(box)).toBe(false);
+    });
+
+    it("should return false for an empty box", () => {
+      expect(frustum.intersectsBox(new BoundingBox())).toBe(false);
+    });
+  });
+});
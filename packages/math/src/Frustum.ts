@@ -0,0 +1,136 @@
+import type { BoundingBox } from "./BoundingBox";
+import type { BoundingSphere } from "./BoundingSphere";
+import type { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+/**
+ * A plane of a frustum: points p with `normal.dot(p) + constant >= 0` are on the inner side.
+ */
+export interface FrustumPlane {
+  /** Unit normal pointing into the frustum */
+  normal: Vector3;
+  /** Signed distance from the origin along the normal */
+  constant: number;
+}
+
+/**
+ * Represents a view frustum as six inward-facing planes.
+ * Planes are ordered left, right, bottom, top, near, far.
+ *
+ * @example
+ * ```ts
+ * const viewProjection = camera.projectionMatrix.multiply(camera.viewMatrix);
+ * const frustum = Frustum.fromMatrix(viewProjection);
+ * const worldBox = mesh.boundingBox.applyMatrix4(mesh.worldMatrix);
+ * console.log(frustum.intersectsBox(worldBox)); // true if on screen
+ * ```
+ */
+export class Frustum {
+  /** The six planes bounding the frustum */
+  public readonly planes: FrustumPlane[];
+
+  /**
+   * Creates a new Frustum.
+   * @param planes - Six inward-facing planes (defaults to planes that contain all space)
+   */
+  constructor(planes?: FrustumPlane[]) {
+    this.planes =
+      planes ??
+      Array.from({ length: 6 }, () => ({
+        normal: new Vector3(),
+        constant: 0,
+      }));
+  }
+
+  /**
+   * Creates a Frustum from a projection or view-projection matrix.
+   * @param matrix - Matrix mapping into WebGPU clip space (depth range [0, 1])
+   * @returns A new Frustum in the matrix's input space (world space for a view-projection)
+   */
+  static fromMatrix(matrix: Matrix4): Frustum {
+    return new Frustum().setFromMatrix(matrix);
+  }
+
+  /**
+   * Extracts the frustum planes from a projection or view-projection matrix.
+   * Clip space is -w <= x, y <= w and 0 <= z <= w, so each plane is a sum or
+   * difference of the matrix rows (Gribb-Hartmann).
+   * @param matrix - Matrix mapping into WebGPU clip space (depth range [0, 1])
+   * @returns This frustum for chaining
+   */
+  setFromMatrix(matrix: Matrix4): this {
+    const m = matrix.data;
+    const row = (i: number) => [m[i], m[i + 4], m[i + 8], m[i + 12]];
+    const [r0, r1, r2, r3] = [row(0), row(1), row(2), row(3)];
+
+    const coefficients = [
+      r3.map((v, i) => v + r0[i]), // left
+      r3.map((v, i) => v - r0[i]), // right
+      r3.map((v, i) => v + r1[i]), // bottom
+      r3.map((v, i) => v - r1[i]), // top
+      r2, // near
+      r3.map((v, i) => v - r2[i]), // far
+    ];
+
+    coefficients.forEach(([a, b, c, d], index) => {
+      const length = Math.hypot(a, b, c);
+      const inverseLength = length > 0 ? 1 / length : 0;
+      const plane = this.planes[index];
+      plane.normal.set(a * inverseLength, b * inverseLength, c * inverseLength);
+      plane.constant = d * inverseLength;
+    });
+
+    return this;
+  }
+
+  /**
+   * Tests if a point is inside the frustum.
+   * @param point - The point to test
+   * @returns True if the point is inside or on the boundary
+   */
+  containsPoint(point: Vector3): boolean {
+    return this.planes.every(
+      (plane) => plane.normal.dot(point) + plane.constant >= 0
+    );
+  }
+
+  /**
+   * Tests if a sphere intersects the frustum.
+   * Conservative: spheres near a frustum corner may be reported as intersecting.
+   * @param sphere - The bounding sphere to test
+   * @returns True if the sphere is at least partially inside; false if it is empty
+   */
+  intersectsSphere(sphere: BoundingSphere): boolean {
+    if (sphere.isEmpty()) {
+      return false;
+    }
+
+    return this.planes.every(
+      (plane) =>
+        plane.normal.dot(sphere.center) + plane.constant >= -sphere.radius
+    );
+  }
+
+  /**
+   * Tests if an axis-aligned box intersects the frustum.
+   * Conservative: boxes near a frustum corner may be reported as intersecting.
+   * @param box - The bounding box to test
+   * @returns True if the box is at least partially inside; false if it is empty
+   */
+  intersectsBox(box: BoundingBox): boolean {
+    if (box.isEmpty()) {
+      return false;
+    }
+
+    const corner = new Vector3();
+    return this.planes.every(({ normal, constant }) => {
+      // The box corner furthest along the plane normal
+      corner.set(
+        normal.x >= 0 ? box.max.x : box.min.x,
+        normal.y >= 0 ? box.max.y : box.min.y,
+        normal.z >= 0 ? box.max.z : box.min.z
+      );
+      return normal.dot(corner) + constant >= 0;
+    });
+  }
+}
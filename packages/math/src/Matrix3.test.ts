@@ -0,0 +1,102 @@
+import { describe, it, expect } from "bun:test";
+import { Matrix3 } from "./Matrix3";
+import { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+const IDENTITY = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+function expectMatrixClose(m: Matrix3, expected: number[]) {
+  expected.forEach((v, i) => expect(m.data[i]).toBeCloseTo(v, 5));
+}
+
+describe("Matrix3", () => {
+  describe("constructor & identity", () => {
+    it("should initialize to identity matrix", () => {
+      expectMatrixClose(new Matrix3(), IDENTITY);
+    });
+
+    it("should reset to identity and return this", () => {
+      const m = Matrix3.fromMatrix4(Matrix4.scaling(new Vector3(2, 2, 2)));
+      expect(m.identity()).toBe(m);
+      expectMatrixClose(m, IDENTITY);
+    });
+  });
+
+  describe("fromMatrix4/toMatrix4", () => {
+    it("should take the upper-left 3x3 and drop translation", () => {
+      const m4 = Matrix4.translation(new Vector3(7, 8, 9)).multiply(
+        Matrix4.rotationZ(0.5)
+      );
+      const m3 = Matrix3.fromMatrix4(m4);
+
+      expectMatrixClose(
+        m3,
+        [0, 1, 2, 4, 5, 6, 8, 9, 10].map((i) => m4.data[i])
+      );
+      expect(Array.from(m3.toMatrix4().data)).toEqual(
+        Array.from(Matrix4.rotationZ(0.5).data)
+      );
+    });
+  });
+
+  describe("multiply/transpose", () => {
+    it("should match Matrix4 for the same rotations", () => {
+      const a = Matrix4.rotationX(0.3);
+      const b = Matrix4.rotationY(-0.8);
+      const product = Matrix3.fromMatrix4(a).multiply(Matrix3.fromMatrix4(b));
+
+      expect(product.equals(Matrix3.fromMatrix4(a.multiply(b)), 1e-6)).toBe(
+        true
+      );
+      expect(
+        product
+          .transpose()
+          .equals(Matrix3.fromMatrix4(a.multiply(b).transpose()), 1e-6)
+      ).toBe(true);
+    });
+  });
+
+  describe("determinant/inverse", () => {
+    it("should invert a rotation and scale", () => {
+      const m = Matrix3.fromMatrix4(
+        Matrix4.rotationY(0.7).multiply(Matrix4.scaling(new Vector3(2, 3, 4)))
+      );
+
+      expect(m.determinant()).toBeCloseTo(24, 4);
+      expectMatrixClose(m.multiply(m.inverse()), IDENTITY);
+    });
+
+    it("should return identity for a singular matrix", () => {
+      const m = Matrix3.fromMatrix4(Matrix4.scaling(new Vector3(1, 0, 1)));
+      expect(m.determinant()).toBe(0);
+      expectMatrixClose(m.inverse(), IDENTITY);
+    });
+  });
+
+  describe("normalMatrix", () => {
+    it("should keep normals perpendicular under non-uniform scale", () => {
+      const model = Matrix4.rotationZ(0.4).multiply(
+        Matrix4.scaling(new Vector3(4, 1, 1))
+      );
+      // A 45 degree slope in the XY plane and its normal
+      const tangent = new Vector3(1, 1, 0);
+      const normal = new Vector3(-1, 1, 0);
+
+      const worldTangent = model.transformDirection(tangent);
+      const worldNormal = Matrix3.normalMatrix(model).transformVector(normal);
+      const naiveNormal = model.transformDirection(normal);
+
+      expect(worldNormal.dot(worldTangent)).toBeCloseTo(0, 5);
+      expect(Math.abs(naiveNormal.dot(worldTangent))).toBeGreaterThan(1);
+    });
+
+    it("should equal the rotation for rigid transforms", () => {
+      const model = Matrix4.translation(new Vector3(1, 2, 3)).multiply(
+        Matrix4.rotationX(1.1)
+      );
+      expect(
+        Matrix3.normalMatrix(model).equals(Matrix3.fromMatrix4(model), 1e-6)
+      ).toBe(true);
+    });
+  });
+});
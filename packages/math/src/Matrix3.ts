@@ -0,0 +1,189 @@
+import { Matrix4 } from "./Matrix4.js";
+import { Vector3 } from "./Vector3.js";
+
+/**
+ * Represents a 3x3 matrix in column-major order, e.g. the normal matrix of a transform.
+ *
+ * Memory Layout:
+ * [m0  m3  m6]   [col0.x  col1.x  col2.x]
+ * [m1  m4  m7] = [col0.y  col1.y  col2.y]
+ * [m2  m5  m8]   [col0.z  col1.z  col2.z]
+ *
+ * @example
+ * ```ts
+ * const normalMatrix = Matrix3.normalMatrix(mesh.worldMatrix);
+ * const worldNormal = normalMatrix.transformVector(normal).normalize();
+ * ```
+ */
+export class Matrix3 {
+  private _data: Float32Array;
+
+  /**
+   * Creates a new Matrix3 initialized to the identity matrix.
+   */
+  constructor() {
+    this._data = new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+  }
+
+  get data(): Float32Array {
+    return this._data;
+  }
+
+  /**
+   * Resets this matrix to the identity matrix.
+   * @returns This matrix for method chaining
+   */
+  identity(): this {
+    this._data.set([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    return this;
+  }
+
+  /**
+   * Multiplies this matrix by another matrix.
+   * @param other - The matrix to multiply with
+   * @returns A new Matrix3 representing the product
+   */
+  multiply(other: Matrix3): Matrix3 {
+    const result = new Matrix3();
+    const a = this._data;
+    const b = other._data;
+    const out = result._data;
+
+    for (let col = 0; col < 3; col++) {
+      for (let row = 0; row < 3; row++) {
+        let sum = 0;
+        for (let k = 0; k < 3; k++) {
+          sum += a[row + k * 3] * b[k + col * 3];
+        }
+        out[row + col * 3] = sum;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Computes the transpose of this matrix.
+   * @returns A new Matrix3 that is the transpose of this matrix
+   */
+  transpose(): Matrix3 {
+    const m = this._data;
+    const result = new Matrix3();
+    result._data.set([m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]]);
+    return result;
+  }
+
+  /**
+   * Computes the determinant of this matrix.
+   * @returns The determinant; 0 for a singular matrix
+   */
+  determinant(): number {
+    const m = this._data;
+    return (
+      m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[3] * (m[1] * m[8] - m[2] * m[7]) +
+      m[6] * (m[1] * m[5] - m[2] * m[4])
+    );
+  }
+
+  /**
+   * Computes the inverse of this matrix.
+   * @returns A new Matrix3 that is the inverse of this matrix.
+   *          Returns identity matrix if the matrix is singular (determinant is 0).
+   */
+  inverse(): Matrix3 {
+    const m = this._data;
+    const result = new Matrix3();
+    const det = this.determinant();
+
+    if (Math.abs(det) < 1e-10) {
+      // Matrix is singular, return identity
+      return result;
+    }
+
+    // Adjugate (transposed cofactors) divided by the determinant
+    const invDet = 1 / det;
+    result._data.set([
+      (m[4] * m[8] - m[5] * m[7]) * invDet,
+      (m[2] * m[7] - m[1] * m[8]) * invDet,
+      (m[1] * m[5] - m[2] * m[4]) * invDet,
+      (m[5] * m[6] - m[3] * m[8]) * invDet,
+      (m[0] * m[8] - m[2] * m[6]) * invDet,
+      (m[2] * m[3] - m[0] * m[5]) * invDet,
+      (m[3] * m[7] - m[4] * m[6]) * invDet,
+      (m[1] * m[6] - m[0] * m[7]) * invDet,
+      (m[0] * m[4] - m[1] * m[3]) * invDet,
+    ]);
+    return result;
+  }
+
+  /**
+   * Transforms a vector by this matrix.
+   * @param v - The vector to transform
+   * @returns A new Vector3 representing the transformed vector
+   */
+  transformVector(v: Vector3): Vector3 {
+    const m = this._data;
+    return new Vector3(
+      m[0] * v.x + m[3] * v.y + m[6] * v.z,
+      m[1] * v.x + m[4] * v.y + m[7] * v.z,
+      m[2] * v.x + m[5] * v.y + m[8] * v.z
+    );
+  }
+
+  /**
+   * Checks whether another matrix has the same elements.
+   * @param other - The matrix to compare with
+   * @param epsilon - Maximum allowed difference per element (default: 0)
+   * @returns True if every element differs by at most epsilon
+   */
+  equals(other: Matrix3, epsilon = 0): boolean {
+    return this._data.every(
+      (value, i) => Math.abs(value - other._data[i]) <= epsilon
+    );
+  }
+
+  /**
+   * Creates a copy of this matrix.
+   * @returns A new Matrix3 with the same values
+   */
+  clone(): Matrix3 {
+    const m = new Matrix3();
+    m._data.set(this._data);
+    return m;
+  }
+
+  /**
+   * Embeds this matrix in the upper-left 3x3 of a Matrix4, e.g. to fill a mat4x4f uniform.
+   * @returns A new Matrix4 with no translation
+   */
+  toMatrix4(): Matrix4 {
+    const m = this._data;
+    const result = new Matrix4();
+    result.data.set(m.subarray(0, 3), 0);
+    result.data.set(m.subarray(3, 6), 4);
+    result.data.set(m.subarray(6, 9), 8);
+    return result;
+  }
+
+  /**
+   * Creates a matrix from the upper-left 3x3 (rotation and scale) of a Matrix4.
+   * @param m - The source matrix
+   * @returns A new Matrix3
+   */
+  static fromMatrix4(m: Matrix4): Matrix3 {
+    const d = m.data;
+    const result = new Matrix3();
+    result._data.set([d[0], d[1], d[2], d[4], d[5], d[6], d[8], d[9], d[10]]);
+    return result;
+  }
+
+  /**
+   * Creates the normal matrix of a transform: the inverse transpose of its upper-left 3x3.
+   * Unlike the transform itself, it keeps normals perpendicular to surfaces under non-uniform scale.
+   * @param m - The model (or model-view) matrix
+   * @returns A new Matrix3; transformed normals still need to be normalized
+   */
+  static normalMatrix(m: Matrix4): Matrix3 {
+    return Matrix3.fromMatrix4(m).inverse().transpose();
+  }
+}
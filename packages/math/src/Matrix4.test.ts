@@ -1,5 +1,6 @@
 import { describe, it, expect } from "bun:test";
 import { Matrix4 } from "./Matrix4";
+import { Quaternion } from "./Quaternion";
 import { Vector3 } from "./Vector3";
 
 const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
@@ -529,4 +530,111 @@ describe("Matrix4", () => {
       expect(direction.z).toBeCloseTo(0);
     });
   });
+
+  describe("determinant", () => {
+    it("should be 1 for identity and rotations", () => {
+      expect(new Matrix4().determinant()).toBeCloseTo(1, 6);
+      expect(Matrix4.rotationY(0.7).determinant()).toBeCloseTo(1, 6);
+    });
+
+    it("should be the product of scale factors and ignore translation", () => {
+      const m = Matrix4.translation(new Vector3(5, 6, 7)).multiply(
+        Matrix4.scaling(new Vector3(2, 3, -4))
+      );
+      expect(m.determinant()).toBeCloseTo(-24, 5);
+    });
+  });
+
+  describe("equals", () => {
+    it("should compare elements with an optional epsilon", () => {
+      const a = Matrix4.translation(new Vector3(1, 2, 3));
+      const b = a.clone();
+      b.data[12] += 1e-4;
+
+      expect(a.equals(a.clone())).toBe(true);
+      expect(a.equals(b)).toBe(false);
+      expect(a.equals(b, 1e-3)).toBe(true);
+    });
+  });
+
+  describe("static fromArray", () => {
+    it("should read 16 values from an offset", () => {
+      const values = Array.from({ length: 20 }, (_, i) => i);
+      const m = Matrix4.fromArray(values, 2);
+      expect(Array.from(m.data)).toEqual(values.slice(2, 18));
+    });
+
+    it("should throw when fewer than 16 values remain", () => {
+      expect(() => Matrix4.fromArray(new Float32Array(16), 1)).toThrow(
+        "Matrix4.fromArray needs 16 values from offset 1 (array length 16)"
+      );
+    });
+  });
+
+  describe("static rotationAxis", () => {
+    it("should match the axis rotation matrices", () => {
+      expectMatrixClose(
+        Matrix4.rotationAxis(new Vector3(0, 3, 0), 0.4),
+        Array.from(Matrix4.rotationY(0.4).data)
+      );
+      expectMatrixClose(
+        Matrix4.rotationAxis(new Vector3(0, 0, 1), -1.2),
+        Array.from(Matrix4.rotationZ(-1.2).data)
+      );
+    });
+
+    it("should match the quaternion for an arbitrary axis", () => {
+      const axis = new Vector3(1, 2, -1);
+      expectMatrixClose(
+        Matrix4.rotationAxis(axis, 0.9),
+        Array.from(Quaternion.fromAxisAngle(axis, 0.9).toMatrix4().data)
+      );
+    });
+
+    it("should return identity for a zero axis", () => {
+      expectMatrixClose(Matrix4.rotationAxis(new Vector3(), 1), IDENTITY);
+    });
+  });
+
+  describe("compose/decompose", () => {
+    const position = new Vector3(1, -2, 3);
+    const quaternion = Quaternion.fromEuler(new Vector3(0.3, -0.6, 1.1));
+    const scale = new Vector3(2, 0.5, 3);
+
+    it("should compose T * R * S", () => {
+      const expected = Matrix4.translation(position)
+        .multiply(quaternion.toMatrix4())
+        .multiply(Matrix4.scaling(scale));
+
+      expectMatrixClose(
+        Matrix4.compose(position, quaternion, scale),
+        Array.from(expected.data)
+      );
+    });
+
+    it("should round-trip through decompose", () => {
+      const result = Matrix4.compose(position, quaternion, scale).decompose();
+
+      expect(Array.from(result.position.data)).toEqual([1, -2, 3]);
+      expect(result.scale.x).toBeCloseTo(2, 5);
+      expect(result.scale.y).toBeCloseTo(0.5, 5);
+      expect(result.scale.z).toBeCloseTo(3, 5);
+      expect(Math.abs(result.quaternion.dot(quaternion))).toBeCloseTo(1, 5);
+    });
+
+    it("should fold a mirrored basis into a negative x scale", () => {
+      const mirrored = Matrix4.compose(
+        position,
+        quaternion,
+        new Vector3(-2, 0.5, 3)
+      );
+      const result = mirrored.decompose();
+
+      expect(result.scale.x).toBeCloseTo(-2, 5);
+      expectMatrixClose(
+        Matrix4.compose(result.position, result.quaternion, result.scale),
+        Array.from(mirrored.data)
+      );
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import { Quaternion } from "./Quaternion.js";
 import { Vector3 } from "./Vector3.js";
 
 /**
@@ -238,6 +239,118 @@ export class Matrix4 {
     return result;
   }
 
+  /**
+   * Computes the determinant of this matrix.
+   * A negative determinant means the transform mirrors geometry.
+   * @returns The determinant; 0 for a singular matrix
+   */
+  determinant(): number {
+    const m = this._data;
+    const b00 = m[0] * m[5] - m[1] * m[4];
+    const b01 = m[0] * m[6] - m[2] * m[4];
+    const b02 = m[0] * m[7] - m[3] * m[4];
+    const b03 = m[1] * m[6] - m[2] * m[5];
+    const b04 = m[1] * m[7] - m[3] * m[5];
+    const b05 = m[2] * m[7] - m[3] * m[6];
+    const b06 = m[8] * m[13] - m[9] * m[12];
+    const b07 = m[8] * m[14] - m[10] * m[12];
+    const b08 = m[8] * m[15] - m[11] * m[12];
+    const b09 = m[9] * m[14] - m[10] * m[13];
+    const b10 = m[9] * m[15] - m[11] * m[13];
+    const b11 = m[10] * m[15] - m[11] * m[14];
+
+    return (
+      b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06
+    );
+  }
+
+  /**
+   * Splits an affine transform into translation, rotation and scale,
+   * the inverse of Matrix4.compose. A mirrored transform gets a negative x scale.
+   * @returns The position, rotation and scale of this matrix
+   */
+  decompose(): { position: Vector3; quaternion: Quaternion; scale: Vector3 } {
+    const m = this._data;
+    let sx = Math.hypot(m[0], m[1], m[2]);
+    const sy = Math.hypot(m[4], m[5], m[6]);
+    const sz = Math.hypot(m[8], m[9], m[10]);
+    if (this.determinant() < 0) {
+      sx = -sx;
+    }
+
+    // Divide the scale out of the basis vectors to leave a pure rotation
+    const rotation = new Matrix4();
+    [sx, sy, sz].forEach((scale, column) => {
+      for (let row = 0; row < 3; row++) {
+        rotation._data[column * 4 + row] =
+          scale === 0 ? 0 : m[column * 4 + row] / scale;
+      }
+    });
+
+    return {
+      position: new Vector3(m[12], m[13], m[14]),
+      quaternion: Quaternion.fromRotationMatrix(rotation),
+      scale: new Vector3(sx, sy, sz),
+    };
+  }
+
+  /**
+   * Checks whether another matrix has the same elements.
+   * @param other - The matrix to compare with
+   * @param epsilon - Maximum allowed difference per element (default: 0)
+   * @returns True if every element differs by at most epsilon
+   */
+  equals(other: Matrix4, epsilon = 0): boolean {
+    return this._data.every(
+      (value, i) => Math.abs(value - other._data[i]) <= epsilon
+    );
+  }
+
+  /**
+   * Creates a matrix from 16 column-major values.
+   * @param array - Source values, e.g. a glTF node matrix or packed instance data
+   * @param offset - Index of the first value (default: 0)
+   * @returns A new Matrix4
+   * @throws Error if the array has fewer than 16 values after offset
+   */
+  static fromArray(array: ArrayLike<number>, offset = 0): Matrix4 {
+    if (offset < 0 || array.length - offset < 16) {
+      throw new Error(
+        `Matrix4.fromArray needs 16 values from offset ${offset} (array length ${array.length})`
+      );
+    }
+    const m = new Matrix4();
+    for (let i = 0; i < 16; i++) {
+      m._data[i] = array[offset + i];
+    }
+    return m;
+  }
+
+  /**
+   * Creates a transform that scales, then rotates, then translates (T * R * S).
+   * @param position - The translation
+   * @param quaternion - The rotation
+   * @param scale - The scaling factors for x, y, z axes
+   * @returns A new Matrix4 representing the transform
+   */
+  static compose(
+    position: Vector3,
+    quaternion: Quaternion,
+    scale: Vector3
+  ): Matrix4 {
+    const m = quaternion.toMatrix4();
+    const out = m._data;
+    [scale.x, scale.y, scale.z].forEach((factor, column) => {
+      for (let row = 0; row < 3; row++) {
+        out[column * 4 + row] *= factor;
+      }
+    });
+    out[12] = position.x;
+    out[13] = position.y;
+    out[14] = position.z;
+    return m;
+  }
+
   /**
    * Creates a translation matrix.
    * @param v - The translation vector
@@ -312,6 +425,35 @@ export class Matrix4 {
     return m;
   }
 
+  /**
+   * Creates a rotation matrix around an arbitrary axis.
+   * @param axis - The rotation axis (normalized internally)
+   * @param angle - The rotation angle in radians
+   * @returns A new Matrix4 representing the rotation, or identity for a zero axis
+   */
+  static rotationAxis(axis: Vector3, angle: number): Matrix4 {
+    const m = new Matrix4();
+    const { x, y, z } = axis.normalize();
+    if (x === 0 && y === 0 && z === 0) {
+      return m;
+    }
+
+    // Rodrigues' rotation formula
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    const t = 1 - c;
+    m._data[0] = t * x * x + c;
+    m._data[1] = t * x * y + s * z;
+    m._data[2] = t * x * z - s * y;
+    m._data[4] = t * x * y - s * z;
+    m._data[5] = t * y * y + c;
+    m._data[6] = t * y * z + s * x;
+    m._data[8] = t * x * z + s * y;
+    m._data[9] = t * y * z - s * x;
+    m._data[10] = t * z * z + c;
+    return m;
+  }
+
   /**
    * Creates a perspective projection matrix.
    * @param fovY - The vertical field of view in radians
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "bun:test";
+import { Quaternion, type EulerOrder } from "./Quaternion";
+import { Matrix4 } from "./Matrix4";
+import { Vector3 } from "./Vector3";
+
+const ORDERS: EulerOrder[] = ["XYZ", "XZY", "YXZ", "YZX", "ZXY", "ZYX"];
+
+function expectMatrixClose(a: Matrix4, b: Matrix4, precision = 5) {
+  a.data.forEach((v, i) => expect(v).toBeCloseTo(b.data[i], precision));
+}
+
+function expectVectorClose(v: Vector3, x: number, y: number, z: number) {
+  expect(v.x).toBeCloseTo(x, 5);
+  expect(v.y).toBeCloseTo(y, 5);
+  expect(v.z).toBeCloseTo(z, 5);
+}
+
+/** Builds the Euler rotation matrix by multiplying the axis rotations in order */
+function eulerMatrix(euler: Vector3, order: EulerOrder): Matrix4 {
+  const axes = {
+    X: Matrix4.rotationX(euler.x),
+    Y: Matrix4.rotationY(euler.y),
+    Z: Matrix4.rotationZ(euler.z),
+  };
+  const [a, b, c] = order.split("") as ("X" | "Y" | "Z")[];
+  return axes[a].multiply(axes[b]).multiply(axes[c]);
+}
+
+describe("Quaternion", () => {
+  describe("constructor", () => {
+    it("should default to the identity rotation", () => {
+      const q = new Quaternion();
+      expect([q.x, q.y, q.z, q.w]).toEqual([0, 0, 0, 1]);
+      expectMatrixClose(q.toMatrix4(), new Matrix4());
+    });
+
+    it("should set components and return this", () => {
+      const q = new Quaternion();
+      expect(q.set(1, 2, 3, 4)).toBe(q);
+      expect(Array.from(q.data)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe("fromAxisAngle", () => {
+    it("should match the axis rotation matrices", () => {
+      const angle = 0.7;
+      expectMatrixClose(
+        Quaternion.fromAxisAngle(new Vector3(1, 0, 0), angle).toMatrix4(),
+        Matrix4.rotationX(angle)
+      );
+      expectMatrixClose(
+        Quaternion.fromAxisAngle(new Vector3(0, 2, 0), angle).toMatrix4(),
+        Matrix4.rotationY(angle)
+      );
+      expectMatrixClose(
+        Quaternion.fromAxisAngle(new Vector3(0, 0, 1), angle).toMatrix4(),
+        Matrix4.rotationZ(angle)
+      );
+    });
+
+    it("should return the identity for a zero axis", () => {
+      const q = Quaternion.fromAxisAngle(new Vector3(), 1);
+      expect([q.x, q.y, q.z, q.w]).toEqual([0, 0, 0, 1]);
+    });
+  });
+
+  describe("multiply", () => {
+    it("should apply the right-hand rotation first", () => {
+      const rx = Quaternion.fromAxisAngle(new Vector3(1, 0, 0), Math.PI / 2);
+      const rz = Quaternion.fromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2);
+
+      // Y rotated about X becomes Z; Z rotated about Z stays Z
+      const point = rz.multiply(rx).toMatrix4().transformPoint(
+        new Vector3(0, 1, 0)
+      );
+      expectVectorClose(point, 0, 0, 1);
+    });
+  });
+
+  describe("fromEuler/toEuler", () => {
+    const euler = new Vector3(0.3, -0.5, 1.2);
+
+    for (const order of ORDERS) {
+      it(`should match the ${order} rotation matrix and round-trip`, () => {
+        const q = Quaternion.fromEuler(euler, order);
+
+        expectMatrixClose(q.toMatrix4(), eulerMatrix(euler, order));
+        expectVectorClose(q.toEuler(order), euler.x, euler.y, euler.z);
+      });
+    }
+
+    it("should default to ZYX order", () => {
+      expectMatrixClose(
+        Quaternion.fromEuler(euler).toMatrix4(),
+        eulerMatrix(euler, "ZYX")
+      );
+    });
+
+    it("should keep the rotation at gimbal lock", () => {
+      const locked = new Vector3(0.4, Math.PI / 2, 0.1);
+      const q = Quaternion.fromEuler(locked);
+      const recovered = Quaternion.fromEuler(q.toEuler());
+
+      // asin is ill-conditioned near ±1, so float32 storage costs precision here
+      expectMatrixClose(recovered.toMatrix4(), q.toMatrix4(), 3);
+    });
+  });
+
+  describe("fromRotationMatrix", () => {
+    it("should recover the rotation for every trace branch", () => {
+      const rotations = [
+        new Vector3(0.1, 0.2, 0.3),
+        new Vector3(Math.PI, 0, 0),
+        new Vector3(0, Math.PI, 0),
+        new Vector3(0, 0, Math.PI),
+      ];
+
+      for (const euler of rotations) {
+        const matrix = eulerMatrix(euler, "ZYX");
+        expectMatrixClose(
+          Quaternion.fromRotationMatrix(matrix).toMatrix4(),
+          matrix
+        );
+      }
+    });
+  });
+
+  describe("slerp", () => {
+    const a = new Quaternion();
+    const b = Quaternion.fromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+
+    it("should return the endpoints at t = 0 and t = 1", () => {
+      expectMatrixClose(a.slerp(b, 0).toMatrix4(), a.toMatrix4());
+      expectMatrixClose(a.slerp(b, 1).toMatrix4(), b.toMatrix4());
+    });
+
+    it("should rotate at constant angular speed", () => {
+      expectMatrixClose(
+        a.slerp(b, 0.5).toMatrix4(),
+        Matrix4.rotationY(Math.PI / 4)
+      );
+    });
+
+    it("should take the shortest path", () => {
+      const negated = new Quaternion(-b.x, -b.y, -b.z, -b.w);
+      expectMatrixClose(
+        a.slerp(negated, 0.5).toMatrix4(),
+        Matrix4.rotationY(Math.PI / 4)
+      );
+    });
+
+    it("should interpolate nearly identical rotations", () => {
+      const c = Quaternion.fromAxisAngle(new Vector3(0, 1, 0), 1e-4);
+      const q = a.slerp(c, 0.5);
+      expect(q.length).toBeCloseTo(1, 6);
+      expect(q.y).toBeCloseTo(Math.sin(2.5e-5), 6);
+    });
+  });
+
+  describe("normalize/conjugate", () => {
+    it("should normalize to unit length", () => {
+      expect(new Quaternion(1, 2, 3, 4).normalize().length).toBeCloseTo(1, 6);
+      const zero = new Quaternion(0, 0, 0, 0).normalize();
+      expect(zero.w).toBe(1);
+    });
+
+    it("should invert a unit rotation with the conjugate", () => {
+      const q = Quaternion.fromEuler(new Vector3(0.5, 1, -0.3));
+      expectMatrixClose(q.multiply(q.conjugate()).toMatrix4(), new Matrix4());
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { Matrix4 } from "./Matrix4.js";
+import { Vector3 } from "./Vector3.js";
+
+/**
+ * Order of the axis rotations in an Euler rotation, written as the matrix product.
+ * "ZYX" means R = Rz * Ry * Rx, so X is applied first, then Y, then Z.
+ */
+export type EulerOrder = "XYZ" | "XZY" | "YXZ" | "YZX" | "ZXY" | "ZYX";
+
+/**
+ * Represents a rotation as a unit quaternion with x, y, z (vector) and w (scalar) components.
+ *
+ * @example
+ * ```ts
+ * const a = Quaternion.fromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+ * const b = Quaternion.fromEuler(new Vector3(0, 0, Math.PI / 4));
+ * const halfway = a.slerp(b, 0.5);
+ * const matrix = halfway.toMatrix4();
+ * ```
+ */
+export class Quaternion {
+  private _data: Float32Array;
+
+  /**
+   * Creates a new Quaternion instance.
+   * @param x - The x component (default: 0)
+   * @param y - The y component (default: 0)
+   * @param z - The z component (default: 0)
+   * @param w - The w component (default: 1, the identity rotation)
+   */
+  constructor(x = 0, y = 0, z = 0, w = 1) {
+    this._data = new Float32Array([x, y, z, w]);
+  }
+
+  get x(): number {
+    return this._data[0];
+  }
+  set x(value: number) {
+    this._data[0] = value;
+  }
+
+  get y(): number {
+    return this._data[1];
+  }
+  set y(value: number) {
+    this._data[1] = value;
+  }
+
+  get z(): number {
+    return this._data[2];
+  }
+  set z(value: number) {
+    this._data[2] = value;
+  }
+
+  get w(): number {
+    return this._data[3];
+  }
+  set w(value: number) {
+    this._data[3] = value;
+  }
+
+  get data(): Float32Array {
+    return this._data;
+  }
+
+  /**
+   * Calculates the length (magnitude) of this quaternion.
+   * @returns The Euclidean length, 1 for a rotation
+   */
+  get length(): number {
+    return Math.sqrt(this.dot(this));
+  }
+
+  /**
+   * Sets the x, y, z, w components of this quaternion.
+   * @param x - The new x component
+   * @param y - The new y component
+   * @param z - The new z component
+   * @param w - The new w component
+   * @returns This quaternion for method chaining
+   */
+  set(x: number, y: number, z: number, w: number): this {
+    this._data[0] = x;
+    this._data[1] = y;
+    this._data[2] = z;
+    this._data[3] = w;
+    return this;
+  }
+
+  /**
+   * Multiplies this quaternion by another quaternion.
+   * The result applies q first, then this rotation.
+   * @param q - The quaternion to multiply with
+   * @returns A new Quaternion representing the combined rotation
+   */
+  multiply(q: Quaternion): Quaternion {
+    const { x: ax, y: ay, z: az, w: aw } = this;
+    const { x: bx, y: by, z: bz, w: bw } = q;
+    return new Quaternion(
+      aw * bx + ax * bw + ay * bz - az * by,
+      aw * by - ax * bz + ay * bw + az * bx,
+      aw * bz + ax * by - ay * bx + az * bw,
+      aw * bw - ax * bx - ay * by - az * bz
+    );
+  }
+
+  /**
+   * Calculates the dot product of this quaternion with another quaternion.
+   * @param q - The quaternion to compute dot product with
+   * @returns The scalar dot product value
+   */
+  dot(q: Quaternion): number {
+    return this.x * q.x + this.y * q.y + this.z * q.z + this.w * q.w;
+  }
+
+  /**
+   * Normalizes this quaternion to unit length.
+   * @returns A new unit Quaternion, or the identity if length is 0
+   */
+  normalize(): Quaternion {
+    const len = this.length;
+
+    if (len === 0) {
+      return new Quaternion();
+    }
+
+    return new Quaternion(
+      this.x / len,
+      this.y / len,
+      this.z / len,
+      this.w / len
+    );
+  }
+
+  /**
+   * Computes the conjugate, which is the inverse rotation for a unit quaternion.
+   * @returns A new Quaternion with the vector part negated
+   */
+  conjugate(): Quaternion {
+    return new Quaternion(-this.x, -this.y, -this.z, this.w);
+  }
+
+  /**
+   * Spherically interpolates between this quaternion and another along the shortest arc.
+   * @param q - The target quaternion
+   * @param t - Interpolation factor (0 returns this rotation, 1 returns q)
+   * @returns A new unit Quaternion between the two rotations
+   */
+  slerp(q: Quaternion, t: number): Quaternion {
+    let cosHalfTheta = this.dot(q);
+    // q and -q are the same rotation; flip to take the shorter path
+    const sign = cosHalfTheta < 0 ? -1 : 1;
+    cosHalfTheta *= sign;
+
+    let a: number;
+    let b: number;
+    if (cosHalfTheta > 0.9995) {
+      // Nearly identical rotations: linear interpolation avoids dividing by sin(0)
+      a = 1 - t;
+      b = t;
+    } else {
+      const halfTheta = Math.acos(cosHalfTheta);
+      const sinHalfTheta = Math.sin(halfTheta);
+      a = Math.sin((1 - t) * halfTheta) / sinHalfTheta;
+      b = Math.sin(t * halfTheta) / sinHalfTheta;
+    }
+    b *= sign;
+
+    return new Quaternion(
+      a * this.x + b * q.x,
+      a * this.y + b * q.y,
+      a * this.z + b * q.z,
+      a * this.w + b * q.w
+    ).normalize();
+  }
+
+  /**
+   * Converts this quaternion to a rotation matrix.
+   * @returns A new Matrix4 representing the rotation
+   */
+  toMatrix4(): Matrix4 {
+    const { x, y, z, w } = this;
+    const m = new Matrix4();
+    const out = m.data;
+    out[0] = 1 - 2 * (y * y + z * z);
+    out[1] = 2 * (x * y + z * w);
+    out[2] = 2 * (x * z - y * w);
+    out[4] = 2 * (x * y - z * w);
+    out[5] = 1 - 2 * (x * x + z * z);
+    out[6] = 2 * (y * z + x * w);
+    out[8] = 2 * (x * z + y * w);
+    out[9] = 2 * (y * z - x * w);
+    out[10] = 1 - 2 * (x * x + y * y);
+    return m;
+  }
+
+  /**
+   * Converts this quaternion to Euler angles.
+   * @param order - Order of the axis rotations (default: "ZYX")
+   * @returns A new Vector3 of rotation angles in radians around x, y and z
+   */
+  toEuler(order: EulerOrder = "ZYX"): Vector3 {
+    // mRC = row R, column C of the column-major data
+    const [m11, m21, m31, , m12, m22, m32, , m13, m23, m33] =
+      this.toMatrix4().data;
+    const clamp = (v: number) => Math.min(Math.max(v, -1), 1);
+    // Past this, the first and last axes align (gimbal lock) and only their sum is defined
+    const GIMBAL_LIMIT = 0.9999999;
+
+    switch (order) {
+      case "XYZ": {
+        const y = Math.asin(clamp(m13));
+        return Math.abs(m13) < GIMBAL_LIMIT
+          ? new Vector3(Math.atan2(-m23, m33), y, Math.atan2(-m12, m11))
+          : new Vector3(Math.atan2(m32, m22), y, 0);
+      }
+      case "XZY": {
+        const z = Math.asin(-clamp(m12));
+        return Math.abs(m12) < GIMBAL_LIMIT
+          ? new Vector3(Math.atan2(m32, m22), Math.atan2(m13, m11), z)
+          : new Vector3(Math.atan2(-m23, m33), 0, z);
+      }
+      case "YXZ": {
+        const x = Math.asin(-clamp(m23));
+        return Math.abs(m23) < GIMBAL_LIMIT
+          ? new Vector3(x, Math.atan2(m13, m33), Math.atan2(m21, m22))
+          : new Vector3(x, Math.atan2(-m31, m11), 0);
+      }
+      case "YZX": {
+        const z = Math.asin(clamp(m21));
+        return Math.abs(m21) < GIMBAL_LIMIT
+          ? new Vector3(Math.atan2(-m23, m22), Math.atan2(-m31, m11), z)
+          : new Vector3(0, Math.atan2(m13, m33), z);
+      }
+      case "ZXY": {
+        const x = Math.asin(clamp(m32));
+        return Math.abs(m32) < GIMBAL_LIMIT
+          ? new Vector3(x, Math.atan2(-m31, m33), Math.atan2(-m12, m22))
+          : new Vector3(x, 0, Math.atan2(m21, m11));
+      }
+      case "ZYX": {
+        const y = Math.asin(-clamp(m31));
+        return Math.abs(m31) < GIMBAL_LIMIT
+          ? new Vector3(Math.atan2(m32, m33), y, Math.atan2(m21, m11))
+          : new Vector3(0, y, Math.atan2(-m12, m22));
+      }
+    }
+  }
+
+  /**
+   * Creates a copy of this quaternion.
+   * @returns A new Quaternion with the same components
+   */
+  clone(): Quaternion {
+    return new Quaternion(this.x, this.y, this.z, this.w);
+  }
+
+  /**
+   * Creates a quaternion from Euler angles.
+   * @param euler - Rotation angles in radians around x, y and z
+   * @param order - Order of the axis rotations (default: "ZYX")
+   * @returns A new Quaternion representing the rotation
+   */
+  static fromEuler(euler: Vector3, order: EulerOrder = "ZYX"): Quaternion {
+    const axes = {
+      X: Quaternion.fromAxisAngle(new Vector3(1, 0, 0), euler.x),
+      Y: Quaternion.fromAxisAngle(new Vector3(0, 1, 0), euler.y),
+      Z: Quaternion.fromAxisAngle(new Vector3(0, 0, 1), euler.z),
+    };
+    const [first, second, third] = order.split("") as ("X" | "Y" | "Z")[];
+    return axes[first].multiply(axes[second]).multiply(axes[third]);
+  }
+
+  /**
+   * Creates a quaternion rotating around an axis.
+   * @param axis - The rotation axis (normalized internally)
+   * @param angle - The rotation angle in radians
+   * @returns A new Quaternion representing the rotation, or the identity for a zero axis
+   */
+  static fromAxisAngle(axis: Vector3, angle: number): Quaternion {
+    const n = axis.normalize();
+    if (n.length === 0) {
+      return new Quaternion();
+    }
+    const s = Math.sin(angle / 2);
+    return new Quaternion(n.x * s, n.y * s, n.z * s, Math.cos(angle / 2));
+  }
+
+  /**
+   * Creates a quaternion from the upper 3x3 rotation part of a matrix.
+   * @param m - A matrix whose upper 3x3 part is a pure rotation (no scale)
+   * @returns A new Quaternion representing the rotation
+   */
+  static fromRotationMatrix(m: Matrix4): Quaternion {
+    // mRC = row R, column C of the column-major data
+    const [m11, m21, m31, , m12, m22, m32, , m13, m23, m33] = m.data;
+    const trace = m11 + m22 + m33;
+
+    // Divide by the largest of the four candidate terms for numerical stability
+    if (trace > 0) {
+      const s = 0.5 / Math.sqrt(trace + 1);
+      return new Quaternion(
+        (m32 - m23) * s,
+        (m13 - m31) * s,
+        (m21 - m12) * s,
+        0.25 / s
+      );
+    }
+    if (m11 > m22 && m11 > m33) {
+      const s = 2 * Math.sqrt(1 + m11 - m22 - m33);
+      return new Quaternion(
+        0.25 * s,
+        (m12 + m21) / s,
+        (m13 + m31) / s,
+        (m32 - m23) / s
+      );
+    }
+    if (m22 > m33) {
+      const s = 2 * Math.sqrt(1 + m22 - m11 - m33);
+      return new Quaternion(
+        (m12 + m21) / s,
+        0.25 * s,
+        (m23 + m32) / s,
+        (m13 - m31) / s
+      );
+    }
+    const s = 2 * Math.sqrt(1 + m33 - m11 - m22);
+    return new Quaternion(
+      (m13 + m31) / s,
+      (m23 + m32) / s,
+      0.25 * s,
+      (m21 - m12) / s
+    );
+  }
+
+  toString(): string {
+    return `Quaternion(${this.x}, ${this.y}, ${this.z}, ${this.w})`;
+  }
+}
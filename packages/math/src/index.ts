@@ -2,6 +2,9 @@ export { BarycentricCoordinates } from "./BarycentricCoordinates.js";
 export { Color } from "./Color.js";
 export { Vector2 } from "./Vector2.js";
 export { Vector3 } from "./Vector3.js";
+export { Matrix3 } from "./Matrix3.js";
 export { Matrix4 } from "./Matrix4.js";
+export { Quaternion, type EulerOrder } from "./Quaternion.js";
 export { BoundingBox } from "./BoundingBox.js";
 export { BoundingSphere } from "./BoundingSphere.js";
+export { Frustum, type FrustumPlane } from "./Frustum.js";